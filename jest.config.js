@@ -61,11 +61,13 @@ export default {
     '^@services/(.*)$': '<rootDir>/src/services/$1',
     '^@helpers/(.*)$': '<rootDir>/tests/helpers/$1',
     '^@fixtures/(.*)$': '<rootDir>/tests/fixtures/$1',
+    // ESM sources import TypeScript services by their compiled .js name
+    '^(\\.{1,2}/.*)\\.js$': '$1',
   },
 
   // Transform configuration
   transform: {
-    '^.+\\.jsx?$': 'babel-jest',
+    '^.+\\.[jt]sx?$': 'babel-jest',
   },
 
   // Global setup/teardown
@@ -1,9 +1,647 @@
+/* AI endpoints backed by the LLM abstraction layer
+ * /ai/chat and /ai/completion answer in the OpenAI-style shape the JobsprintAI n8n node reads
+ * (choices[0].message.content / choices[0].text, usage, finish_reason).
+ * With `stream: true` they respond with server-sent events: one chunk per text delta, a final
+ * chunk carrying finish_reason and usage, then `data: [DONE]`.
+ * `provider` names the provider that served the response; `fallbacks` lists the failed
+ * attempts (retries and fallbacks) that came before it. `cache: false` bypasses the response cache.
+ * Calls are charged to the API key and `feature` in the cost ledger, with `user` recorded as a label
+ * under the key; a call that would exceed a hard budget is refused with 402 budget_exceeded.
+ * /ai/experience indexes the caller's resumes, bullets, projects and cover letters as the evidence
+ * the find_evidence tool and the generators draw on.
+ * /ai/prompts exposes the versioned generator prompts: per-version metrics, A/B traffic splits
+ * and outcome scores for runs reported in a generation's metadata.
+ */
+
 import express from 'express';
+import crypto from 'crypto';
+import { requireScope } from './auth.js';
+import { hasScope } from './services/apiKey.service.js';
+import { getLLMService, getRAGSystem } from './services/llm-abstraction.service.js';
+import { BudgetExceededError, getCostLedger } from './services/costLedger.service.js';
+import { recordEvent } from './services/eventLog.service.js';
+import { getPromptRegistry } from './services/promptRegistry.service.js';
+import { COVER_LETTER_PROMPTS } from './services/aiCoverLetterGenerator.service.js';
+import { RESUME_PROMPTS } from './services/aiResumeGenerator.service.js';
+
 const router = express.Router();
 
-// Simple AI health endpoint (mock)
-router.get('/ai/health', (req, res) =>
-  res.json({ ok: true, provider: 'puter', models: ['claude-sonnet-4-5'] })
-);
+const ROLES = ['system', 'user', 'assistant'];
+const OUTPUT_FORMATS = ['text', 'json', 'markdown'];
+const MAX_TOKENS_LIMIT = 32768;
+const MAX_EMBEDDING_INPUTS = 2048;
+const EXPERIENCE_KINDS = ['resume', 'bullet', 'project', 'cover-letter'];
+
+// Validate the fields shared by chat and completion; returns an error code or null
+function validateOptions(body) {
+  const maxTokens = body.max_tokens ?? body.maxTokens;
+  if (
+    maxTokens !== undefined &&
+    (!Number.isInteger(maxTokens) || maxTokens < 1 || maxTokens > MAX_TOKENS_LIMIT)
+  ) {
+    return 'invalid_max_tokens';
+  }
+  if (
+    body.temperature !== undefined &&
+    (typeof body.temperature !== 'number' || body.temperature < 0 || body.temperature > 2)
+  ) {
+    return 'invalid_temperature';
+  }
+  if (body.provider !== undefined && typeof body.provider !== 'string') {
+    return 'invalid_provider';
+  }
+  if (body.model !== undefined && typeof body.model !== 'string') return 'invalid_model';
+  if (body.stream !== undefined && typeof body.stream !== 'boolean') return 'invalid_stream';
+  if (body.cache !== undefined && typeof body.cache !== 'boolean') return 'invalid_cache';
+  if (body.user !== undefined && typeof body.user !== 'string') return 'invalid_user';
+  if (body.feature !== undefined && typeof body.feature !== 'string') return 'invalid_feature';
+  return null;
+}
+
+// Spend belongs to the key, so a caller cannot leave its budget by naming a new `user`
+function costAttribution(req, operation) {
+  const body = req.body || {};
+  return {
+    userId: req.apiKey?.id ?? body.user,
+    feature: body.feature ?? operation,
+    label: req.apiKey ? body.user : undefined,
+  };
+}
+
+// Budget refusals are the caller's limit being reached, not a provider failure
+function sendGenerationError(res, e) {
+  if (e instanceof BudgetExceededError) {
+    return res
+      .status(402)
+      .json({ ok: false, error: 'budget_exceeded', message: e.message, budget: e.budget });
+  }
+  return res.status(502).json({ ok: false, error: 'ai_provider_error', message: e.message });
+}
+
+// Experience belongs to the same user the find_evidence tool searches for on chat requests
+function experienceOwner(req) {
+  return req.apiKey?.id ?? req.body?.user ?? req.query.user;
+}
+
+// Pick the provider/model pair, rejecting unknown or unconfigured ones up front
+function resolveTarget(llm, { provider, model }) {
+  const models = llm.listModels();
+
+  if (provider && !llm.hasProvider(provider)) {
+    return { status: 400, error: 'unknown_provider' };
+  }
+  if (model) {
+    const matches = models.filter(
+      (m) => m.model === model && (!provider || m.provider === provider)
+    );
+    if (matches.length === 0) return { status: 400, error: 'unknown_model' };
+    if (!matches.some((m) => m.available)) return { status: 503, error: 'provider_unavailable' };
+  } else if (provider) {
+    if (!models.some((m) => m.provider === provider && m.available)) {
+      return { status: 503, error: 'provider_unavailable' };
+    }
+  } else if (!models.some((m) => m.available)) {
+    return { status: 503, error: 'provider_unavailable' };
+  }
+  return null;
+}
+
+function toUsage(response) {
+  return {
+    prompt_tokens: response.usage.inputTokens,
+    completion_tokens: response.usage.outputTokens,
+    total_tokens: response.usage.totalTokens,
+    cost: response.usage.cost,
+  };
+}
+
+function recordCompletion(req, operation, response) {
+  recordEvent({
+    type: 'ai.completed',
+    source: 'ai',
+    data: {
+      operation,
+      provider: response.metadata.provider,
+      model: response.metadata.model,
+      usage: toUsage(response),
+      responseTime: response.metadata.responseTime,
+    },
+    metadata: { apiKeyId: req.apiKey?.id },
+  });
+}
+
+// Relay a generation stream as server-sent events. Headers are only sent once the provider
+// has produced its first event, so connection and auth failures still surface as a 502.
+async function sendStream(req, res, { operation, object, toChoice }, open) {
+  const controller = new AbortController();
+  res.on('close', () => {
+    if (!res.writableFinished) controller.abort();
+  });
+
+  const id = `${operation === 'chat' ? 'chatcmpl' : 'cmpl'}_${crypto.randomUUID()}`;
+  const stream = open(controller.signal);
+  let next;
+  try {
+    next = await stream.next();
+  } catch (e) {
+    return sendGenerationError(res, e);
+  }
+
+  res.status(200).set({
+    'Content-Type': 'text/event-stream',
+    'Cache-Control': 'no-cache',
+    Connection: 'keep-alive',
+  });
+  res.flushHeaders();
+  const send = (payload) => res.write(`data: ${JSON.stringify(payload)}\n\n`);
+
+  try {
+    for (; !next.done; next = await stream.next()) {
+      const event = next.value;
+      if (event.type === 'delta') {
+        send({
+          id,
+          object,
+          choices: [{ index: 0, ...toChoice(event.content), finish_reason: null }],
+        });
+      } else {
+        const { response } = event;
+        recordCompletion(req, operation, response);
+        send({
+          id,
+          object,
+          provider: response.metadata.provider,
+          model: response.metadata.model,
+          fallbacks: response.metadata.attempts,
+          cached: !!response.metadata.cached,
+          choices: [{ index: 0, ...toChoice(''), finish_reason: response.finishReason || 'stop' }],
+          usage: toUsage(response),
+        });
+      }
+    }
+    res.write('data: [DONE]\n\n');
+  } catch (e) {
+    if (!controller.signal.aborted) {
+      res.write(
+        `event: error\ndata: ${JSON.stringify({ error: 'ai_provider_error', message: e.message })}\n\n`
+      );
+    }
+  }
+  return res.end();
+}
+
+// Health check: reports whether any provider is configured
+router.get('/ai/health', requireScope('ai'), (req, res) => {
+  const models = getLLMService().listModels();
+  const providers = [...new Set(models.filter((m) => m.available).map((m) => m.provider))];
+  return res.json({ ok: providers.length > 0, providers });
+});
+
+// List models grouped by provider with availability, pricing and context windows
+router.get('/ai/models', requireScope('ai'), (req, res) => {
+  const models = getLLMService().listModels();
+  const providers = {};
+  for (const m of models) {
+    providers[m.provider] ??= {
+      id: m.provider,
+      name: m.providerName,
+      available: m.available,
+      costPerToken: m.costPerToken,
+      models: [],
+    };
+    providers[m.provider].models.push(m.model);
+  }
+  return res.json({
+    ok: true,
+    models: models.map(({ model, provider, available, contextWindow, costPerToken }) => ({
+      id: model,
+      provider,
+      available,
+      contextWindow,
+      costPerToken,
+    })),
+    providers: Object.values(providers),
+  });
+});
+
+// Usage from the cost ledger and latency for this server process (?timeframe=day|week|month)
+router.get('/ai/usage', requireScope('ai'), async (req, res) => {
+  const timeframe = req.query.timeframe || 'month';
+  if (!['day', 'week', 'month'].includes(timeframe)) {
+    return res.status(400).json({ ok: false, error: 'invalid_timeframe' });
+  }
+
+  try {
+    const llm = getLLMService();
+    return res.json({
+      ok: true,
+      timeframe,
+      usage: await llm.getUsageStats(timeframe),
+      performance: await llm.getPerformanceMetrics(),
+    });
+  } catch (e) {
+    return res.status(500).json({ ok: false, error: e.message });
+  }
+});
+
+// Chat completion ({ messages: [{ role, content }], model?, provider?, max_tokens?, temperature? })
+router.post('/ai/chat', requireScope('ai'), async (req, res) => {
+  const body = req.body || {};
+  const { messages } = body;
+  if (!Array.isArray(messages) || messages.length === 0) {
+    return res.status(400).json({ ok: false, error: 'missing_messages' });
+  }
+  if (!messages.every((m) => m && ROLES.includes(m.role) && typeof m.content === 'string')) {
+    return res.status(400).json({ ok: false, error: 'invalid_messages' });
+  }
+  const invalid = validateOptions(body);
+  if (invalid) return res.status(400).json({ ok: false, error: invalid });
+
+  const llm = getLLMService();
+  const rejected = resolveTarget(llm, body);
+  if (rejected) return res.status(rejected.status).json({ ok: false, error: rejected.error });
+
+  const llmRequest = {
+    messages: messages.map(({ role, content }) => ({ role, content })),
+    maxTokens: body.max_tokens ?? body.maxTokens,
+    temperature: body.temperature,
+    cache: body.cache,
+    ...costAttribution(req, 'chat'),
+  };
+
+  if (body.stream === true) {
+    return sendStream(
+      req,
+      res,
+      {
+        operation: 'chat',
+        object: 'chat.completion.chunk',
+        toChoice: (content) => ({ delta: content ? { content } : {} }),
+      },
+      (signal) => llm.generateStream(llmRequest, body.provider, body.model, signal)
+    );
+  }
+
+  try {
+    const response = await llm.generate(llmRequest, body.provider, body.model);
+    recordCompletion(req, 'chat', response);
+
+    return res.json({
+      ok: true,
+      id: `chatcmpl_${crypto.randomUUID()}`,
+      object: 'chat.completion',
+      provider: response.metadata.provider,
+      model: response.metadata.model,
+      fallbacks: response.metadata.attempts,
+      cached: !!response.metadata.cached,
+      choices: [
+        {
+          index: 0,
+          message: { role: 'assistant', content: response.content },
+          finish_reason: response.finishReason || 'stop',
+        },
+      ],
+      usage: toUsage(response),
+    });
+  } catch (e) {
+    return sendGenerationError(res, e);
+  }
+});
+
+// Single-prompt completion ({ prompt, system?, format?: text|json|markdown, schema?, model?, provider?, ... })
+// JSON replies are validated (against `schema` when given) and returned parsed as `json`
+router.post('/ai/completion', requireScope('ai'), async (req, res) => {
+  const body = req.body || {};
+  const { prompt, system, format, schema } = body;
+  if (typeof prompt !== 'string' || prompt.trim() === '') {
+    return res.status(400).json({ ok: false, error: 'missing_prompt' });
+  }
+  if (system !== undefined && typeof system !== 'string') {
+    return res.status(400).json({ ok: false, error: 'invalid_system' });
+  }
+  if (format !== undefined && !OUTPUT_FORMATS.includes(format)) {
+    return res.status(400).json({ ok: false, error: 'invalid_format' });
+  }
+  if (
+    schema !== undefined &&
+    (format !== 'json' || !schema || typeof schema !== 'object' || Array.isArray(schema))
+  ) {
+    return res.status(400).json({ ok: false, error: 'invalid_schema' });
+  }
+  if (schema !== undefined && body.stream === true) {
+    return res.status(400).json({ ok: false, error: 'schema_not_streamable' });
+  }
+  const invalid = validateOptions(body);
+  if (invalid) return res.status(400).json({ ok: false, error: invalid });
+
+  const llm = getLLMService();
+  const rejected = resolveTarget(llm, body);
+  if (rejected) return res.status(rejected.status).json({ ok: false, error: rejected.error });
+
+  const structuredPrompt = {
+    systemPrompt: system || '',
+    userPrompt: prompt,
+    outputFormat: format,
+    schema,
+    maxTokens: body.max_tokens ?? body.maxTokens,
+    temperature: body.temperature,
+    cache: body.cache,
+    ...costAttribution(req, 'completion'),
+  };
+
+  if (body.stream === true) {
+    return sendStream(
+      req,
+      res,
+      { operation: 'completion', object: 'text_completion', toChoice: (text) => ({ text }) },
+      (signal) => llm.generateStructuredStream(structuredPrompt, body.provider, body.model, signal)
+    );
+  }
+
+  try {
+    const response = await llm.generateStructured(structuredPrompt, body.provider, body.model);
+    recordCompletion(req, 'completion', response);
+
+    if (response.result && !response.result.ok) {
+      const { error: reason, errors, raw, repairs } = response.result;
+      return res.status(502).json({
+        ok: false,
+        error: 'invalid_structured_output',
+        reason,
+        errors,
+        raw,
+        repairs,
+      });
+    }
+
+    return res.json({
+      ok: true,
+      id: `cmpl_${crypto.randomUUID()}`,
+      object: 'text_completion',
+      provider: response.metadata.provider,
+      model: response.metadata.model,
+      fallbacks: response.metadata.attempts,
+      cached: !!response.metadata.cached,
+      text: response.content,
+      ...(response.result && { json: response.result.data, repairs: response.result.repairs }),
+      choices: [
+        { index: 0, text: response.content, finish_reason: response.finishReason || 'stop' },
+      ],
+      usage: toUsage(response),
+    });
+  } catch (e) {
+    return sendGenerationError(res, e);
+  }
+});
+
+// Embeddings ({ input: string | string[], provider?, model? }) in the OpenAI embeddings shape.
+// Without a provider the first available embedding provider is used; "local" runs on the CPU.
+router.post('/ai/embeddings', requireScope('ai'), async (req, res) => {
+  const body = req.body || {};
+  const input = typeof body.input === 'string' ? [body.input] : body.input;
+  if (!Array.isArray(input) || input.length === 0) {
+    return res.status(400).json({ ok: false, error: 'missing_input' });
+  }
+  if (input.length > MAX_EMBEDDING_INPUTS || !input.every((text) => typeof text === 'string')) {
+    return res.status(400).json({ ok: false, error: 'invalid_input' });
+  }
+  const invalid = validateOptions(body);
+  if (invalid) return res.status(400).json({ ok: false, error: invalid });
+
+  const llm = getLLMService();
+  const models = llm.listEmbeddingModels();
+  if (body.provider !== undefined && !models.some((m) => m.provider === body.provider)) {
+    return res.status(400).json({ ok: false, error: 'unknown_provider' });
+  }
+  if (
+    body.model !== undefined &&
+    body.provider !== 'local' &&
+    !models.some((m) => m.model === body.model && (!body.provider || m.provider === body.provider))
+  ) {
+    return res.status(400).json({ ok: false, error: 'unknown_model' });
+  }
+
+  try {
+    const response = await llm.embed(
+      { input, ...costAttribution(req, 'embeddings') },
+      body.provider,
+      body.model
+    );
+    return res.json({
+      ok: true,
+      object: 'list',
+      provider: response.provider,
+      model: response.model,
+      data: response.embeddings.map((embedding, index) => ({
+        object: 'embedding',
+        index,
+        embedding,
+      })),
+      usage: {
+        prompt_tokens: response.usage.inputTokens,
+        total_tokens: response.usage.inputTokens,
+        cost: response.usage.cost,
+      },
+    });
+  } catch (e) {
+    return sendGenerationError(res, e);
+  }
+});
+
+// The caller's indexed resumes, bullets, projects and cover letters
+router.get('/ai/experience', requireScope('ai'), async (req, res) => {
+  const userId = experienceOwner(req);
+  if (!userId) return res.status(400).json({ ok: false, error: 'missing_user' });
+  try {
+    return res.json({ ok: true, documents: await getRAGSystem().listExperience(String(userId)) });
+  } catch (e) {
+    return res.status(500).json({ ok: false, error: e.message });
+  }
+});
+
+// Index an experience document ({ kind, title?, content }), replacing the one with that id
+router.put('/ai/experience/:id', requireScope('ai'), async (req, res) => {
+  const { kind, title, content } = req.body || {};
+  const userId = experienceOwner(req);
+  if (!userId) return res.status(400).json({ ok: false, error: 'missing_user' });
+  if (!EXPERIENCE_KINDS.includes(kind)) {
+    return res.status(400).json({ ok: false, error: 'invalid_kind' });
+  }
+  if (title !== undefined && typeof title !== 'string') {
+    return res.status(400).json({ ok: false, error: 'invalid_title' });
+  }
+  if (typeof content !== 'string' || !content.trim()) {
+    return res.status(400).json({ ok: false, error: 'missing_content' });
+  }
+
+  const document = { id: req.params.id, userId: String(userId), kind, title, content };
+  try {
+    const chunks = await getRAGSystem().addExperience(document);
+    return res.json({ ok: true, document, chunks: chunks.length });
+  } catch (e) {
+    return res.status(500).json({ ok: false, error: e.message });
+  }
+});
+
+router.delete('/ai/experience/:id', requireScope('ai'), async (req, res) => {
+  const userId = experienceOwner(req);
+  if (!userId) return res.status(400).json({ ok: false, error: 'missing_user' });
+  try {
+    if (!(await getRAGSystem().removeExperience(String(userId), req.params.id))) {
+      return res.status(404).json({ ok: false, error: 'experience_not_found' });
+    }
+    return res.json({ ok: true });
+  } catch (e) {
+    return res.status(500).json({ ok: false, error: e.message });
+  }
+});
+
+// List budgets
+router.get('/ai/budgets', requireScope('ai'), async (req, res) => {
+  try {
+    return res.json({ ok: true, budgets: await getCostLedger().listBudgets() });
+  } catch (e) {
+    return res.status(500).json({ ok: false, error: e.message });
+  }
+});
+
+// Spend this period against the budgets that apply to a user and feature (?user=&feature=)
+// Spend is charged to the key, so only admin keys may look at another user's
+router.get('/ai/budgets/status', requireScope('ai'), async (req, res) => {
+  const { user, feature } = req.query;
+  if (user !== undefined && req.apiKey && !hasScope(req.apiKey.scopes, 'admin')) {
+    return res.status(403).json({ ok: false, error: 'insufficient_scope', required: 'admin' });
+  }
+  try {
+    const budgets = await getCostLedger().getBudgetStatus({
+      userId: user === undefined ? req.apiKey?.id : String(user),
+      feature: feature === undefined ? undefined : String(feature),
+    });
+    return res.json({ ok: true, budgets });
+  } catch (e) {
+    return res.status(500).json({ ok: false, error: e.message });
+  }
+});
+
+// Create or replace a budget ({ scope: global|user|feature, subject?, period: day|week|month, limit, hard?, alertAt? })
+router.put('/ai/budgets', requireScope('admin'), async (req, res) => {
+  const { scope, subject, period, limit, hard, alertAt } = req.body || {};
+  if (subject !== undefined && typeof subject !== 'string') {
+    return res.status(400).json({ ok: false, error: 'invalid_subject' });
+  }
+  if (hard !== undefined && typeof hard !== 'boolean') {
+    return res.status(400).json({ ok: false, error: 'invalid_hard' });
+  }
+
+  try {
+    const budget = await getCostLedger().setBudget({
+      scope,
+      subject,
+      period,
+      limit,
+      hard,
+      alertAt,
+    });
+    return res.json({ ok: true, budget });
+  } catch (e) {
+    if (/^Invalid budget/.test(e.message)) {
+      return res.status(400).json({ ok: false, error: 'invalid_budget', message: e.message });
+    }
+    return res.status(500).json({ ok: false, error: e.message });
+  }
+});
+
+router.delete('/ai/budgets/:id', requireScope('admin'), async (req, res) => {
+  try {
+    if (!(await getCostLedger().deleteBudget(req.params.id))) {
+      return res.status(404).json({ ok: false, error: 'budget_not_found' });
+    }
+    return res.json({ ok: true });
+  } catch (e) {
+    return res.status(500).json({ ok: false, error: e.message });
+  }
+});
+
+// Generators register their prompts when constructed; register them here too so they can be
+// inspected and put under experiment before the first generation
+function prompts() {
+  const registry = getPromptRegistry();
+  registry.register(...Object.values(COVER_LETTER_PROMPTS), ...Object.values(RESUME_PROMPTS));
+  return registry;
+}
+
+// List prompts with their versions and any running experiment
+router.get('/ai/prompts', requireScope('ai'), async (req, res) => {
+  try {
+    const registry = prompts();
+    const list = await Promise.all(
+      registry.list().map(async (prompt) => ({
+        ...prompt,
+        experiment: await registry.getExperiment(prompt.name),
+      }))
+    );
+    return res.json({ ok: true, prompts: list });
+  } catch (e) {
+    return res.status(500).json({ ok: false, error: e.message });
+  }
+});
+
+// Runs, success rate, latency, cost and outcome score per version
+router.get('/ai/prompts/:name/metrics', requireScope('ai'), async (req, res) => {
+  const registry = prompts();
+  if (!registry.get(req.params.name)) {
+    return res.status(404).json({ ok: false, error: 'prompt_not_found' });
+  }
+
+  try {
+    return res.json({
+      ok: true,
+      name: req.params.name,
+      experiment: await registry.getExperiment(req.params.name),
+      metrics: await registry.getMetrics(req.params.name),
+    });
+  } catch (e) {
+    return res.status(500).json({ ok: false, error: e.message });
+  }
+});
+
+// Split traffic between versions ({ weights: { "1": 50, "2": 50 } }); weights: null ends it
+router.put('/ai/prompts/:name/experiment', requireScope('admin'), async (req, res) => {
+  const registry = prompts();
+  if (!registry.get(req.params.name)) {
+    return res.status(404).json({ ok: false, error: 'prompt_not_found' });
+  }
+  const { weights } = req.body || {};
+  if (weights !== null && (typeof weights !== 'object' || Array.isArray(weights))) {
+    return res.status(400).json({ ok: false, error: 'invalid_experiment' });
+  }
+
+  try {
+    await registry.setExperiment(req.params.name, weights);
+    return res.json({ ok: true, name: req.params.name, experiment: weights });
+  } catch (e) {
+    if (/^Invalid experiment/.test(e.message)) {
+      return res.status(400).json({ ok: false, error: 'invalid_experiment', message: e.message });
+    }
+    return res.status(500).json({ ok: false, error: e.message });
+  }
+});
+
+// Score a generation run, e.g. 1 when the user kept the text and 0 when they discarded it
+router.post('/ai/prompts/runs/:runId/outcome', requireScope('ai'), async (req, res) => {
+  const { score } = req.body || {};
+  if (typeof score !== 'number' || !Number.isFinite(score)) {
+    return res.status(400).json({ ok: false, error: 'invalid_score' });
+  }
+
+  try {
+    if (!(await getPromptRegistry().recordOutcome(req.params.runId, score))) {
+      return res.status(404).json({ ok: false, error: 'run_not_found' });
+    }
+    return res.json({ ok: true });
+  } catch (e) {
+    return res.status(500).json({ ok: false, error: e.message });
+  }
+});
 
 export default router;
@@ -0,0 +1,152 @@
+/* Job application endpoints backed by the embedded database
+ * Exposes CRUD for /applications plus status updates, filtering and pagination
+ */
+
+import express from 'express';
+import { requireScope } from './auth.js';
+import {
+  getApplicationRepository,
+  isApplicationStatus,
+} from './services/applicationRepository.service.js';
+
+const router = express.Router();
+
+function toList(value) {
+  if (value === undefined) return undefined;
+  return String(value)
+    .split(',')
+    .map((v) => v.trim())
+    .filter(Boolean);
+}
+
+function isValidDate(value) {
+  return value === undefined || !Number.isNaN(new Date(String(value)).getTime());
+}
+
+// List applications (?platform=indeed&status=pending,submitted&resumeId=...&from=...&to=...&page=1&pageSize=20)
+router.get('/applications/list', requireScope('applications:read'), async (req, res) => {
+  const { platform, status, resumeId, from, to, page, pageSize } = req.query;
+
+  const statuses = toList(status);
+  if (statuses && !statuses.every(isApplicationStatus)) {
+    return res.status(400).json({ ok: false, error: 'invalid_status' });
+  }
+  if (!isValidDate(from) || !isValidDate(to)) {
+    return res.status(400).json({ ok: false, error: 'invalid_date' });
+  }
+
+  try {
+    const result = await getApplicationRepository().list(
+      { platform: toList(platform), status: statuses, resumeId: toList(resumeId), from, to },
+      { page: Number(page) || undefined, pageSize: Number(pageSize) || undefined }
+    );
+    return res.json({
+      applications: result.items,
+      pagination: {
+        page: result.page,
+        pageSize: result.pageSize,
+        total: result.total,
+        totalPages: result.totalPages,
+      },
+    });
+  } catch (e) {
+    return res.status(500).json({ error: e.message });
+  }
+});
+
+// Record an application submitted outside the built-in platform flows
+router.post('/applications', requireScope('applications:write'), async (req, res) => {
+  const {
+    platform,
+    jobUrl,
+    jobId,
+    jobTitle,
+    company,
+    resumeId,
+    coverLetter,
+    status,
+    notes,
+    metadata,
+  } = req.body || {};
+  if (!platform) return res.status(400).json({ ok: false, error: 'missing_platform' });
+  if (!jobUrl) return res.status(400).json({ ok: false, error: 'missing_jobUrl' });
+  if (status !== undefined && !isApplicationStatus(status)) {
+    return res.status(400).json({ ok: false, error: 'invalid_status' });
+  }
+
+  try {
+    const application = await getApplicationRepository().create({
+      platform,
+      jobUrl,
+      jobId,
+      jobTitle,
+      company,
+      resumeId,
+      hasCoverLetter: !!coverLetter,
+      status,
+      notes,
+      metadata,
+    });
+    return res.status(201).json({ ok: true, application });
+  } catch (e) {
+    return res.status(500).json({ ok: false, error: e.message });
+  }
+});
+
+router.get('/applications/:id', requireScope('applications:read'), async (req, res) => {
+  try {
+    const application = await getApplicationRepository().findById(req.params.id);
+    if (!application) return res.status(404).json({ ok: false, error: 'application_not_found' });
+    return res.json({ ok: true, application });
+  } catch (e) {
+    return res.status(500).json({ ok: false, error: e.message });
+  }
+});
+
+router.patch('/applications/:id', requireScope('applications:write'), async (req, res) => {
+  const { jobTitle, company, resumeId, status, notes, metadata } = req.body || {};
+  if (status !== undefined && !isApplicationStatus(status)) {
+    return res.status(400).json({ ok: false, error: 'invalid_status' });
+  }
+
+  const changes = Object.fromEntries(
+    Object.entries({ jobTitle, company, resumeId, status, notes, metadata }).filter(
+      ([, value]) => value !== undefined
+    )
+  );
+
+  try {
+    const application = await getApplicationRepository().update(req.params.id, changes);
+    if (!application) return res.status(404).json({ ok: false, error: 'application_not_found' });
+    return res.json({ ok: true, application });
+  } catch (e) {
+    return res.status(500).json({ ok: false, error: e.message });
+  }
+});
+
+router.put('/applications/:id/status', requireScope('applications:write'), async (req, res) => {
+  const { status, notes } = req.body || {};
+  if (!isApplicationStatus(status)) {
+    return res.status(400).json({ ok: false, error: 'invalid_status' });
+  }
+
+  try {
+    const application = await getApplicationRepository().updateStatus(req.params.id, status, notes);
+    if (!application) return res.status(404).json({ ok: false, error: 'application_not_found' });
+    return res.json({ ok: true, application });
+  } catch (e) {
+    return res.status(500).json({ ok: false, error: e.message });
+  }
+});
+
+router.delete('/applications/:id', requireScope('applications:write'), async (req, res) => {
+  try {
+    const deleted = await getApplicationRepository().delete(req.params.id);
+    if (!deleted) return res.status(404).json({ ok: false, error: 'application_not_found' });
+    return res.json({ ok: true });
+  } catch (e) {
+    return res.status(500).json({ ok: false, error: e.message });
+  }
+});
+
+export default router;
@@ -0,0 +1,115 @@
+/* API key authentication
+ * Exposes /auth/verify (used by the n8n JobsprintApi credential test) and admin-only key management.
+ * Exports `authenticate` (mounted in front of every /api/v1 router), per-route `requireScope`
+ * and `authorizeUpgrade` for websocket connections.
+ */
+
+import express from 'express';
+import { getApiKeyService, hasScope, isApiKeyScope } from './services/apiKey.service.js';
+
+const router = express.Router();
+
+// Routes reached by third-party redirects that can never carry a Bearer key
+const PUBLIC_PATHS = [/^\/$/, /^\/connect\/[^/]+\/callback$/];
+
+function isAuthDisabled() {
+  return process.env.JOBSPRINT_API_AUTH === 'disabled';
+}
+
+// Reads the headers directly so it also works on a raw websocket upgrade request
+function extractKey(req) {
+  const header = req.headers.authorization || '';
+  if (header.toLowerCase().startsWith('bearer ')) return header.slice(7).trim();
+  return req.headers['x-api-key'] || '';
+}
+
+export async function authenticate(req, res, next) {
+  if (isAuthDisabled() || PUBLIC_PATHS.some((pattern) => pattern.test(req.path))) return next();
+
+  const key = extractKey(req);
+  if (!key) return res.status(401).json({ ok: false, error: 'missing_api_key' });
+
+  try {
+    const apiKey = await getApiKeyService().verify(key);
+    if (!apiKey) return res.status(401).json({ ok: false, error: 'invalid_api_key' });
+    req.apiKey = apiKey;
+    return next();
+  } catch (e) {
+    return res.status(500).json({ ok: false, error: e.message });
+  }
+}
+
+export function requireScope(scope) {
+  return (req, res, next) => {
+    if (isAuthDisabled()) return next();
+    if (!req.apiKey) return res.status(401).json({ ok: false, error: 'missing_api_key' });
+    if (!hasScope(req.apiKey.scopes, scope)) {
+      return res.status(403).json({ ok: false, error: 'insufficient_scope', required: scope });
+    }
+    return next();
+  };
+}
+
+/**
+ * Check a websocket upgrade request as authenticate and requireScope check HTTP requests.
+ * Browsers cannot set headers on a WebSocket, so the key may also be passed as ?api_key=.
+ * Resolves to an error code, or null when the connection may proceed.
+ */
+export async function authorizeUpgrade(req, scope) {
+  if (isAuthDisabled()) return null;
+
+  const key =
+    extractKey(req) || new URL(req.url, 'http://localhost').searchParams.get('api_key') || '';
+  if (!key) return 'missing_api_key';
+
+  const apiKey = await getApiKeyService().verify(key);
+  if (!apiKey) return 'invalid_api_key';
+  if (!hasScope(apiKey.scopes, scope)) return 'insufficient_scope';
+  return null;
+}
+
+// Verify the presented key (n8n credential test)
+router.get('/auth/verify', (req, res) => {
+  if (!req.apiKey) return res.json({ ok: true, authDisabled: isAuthDisabled() });
+  const { id, name, scopes, expiresAt } = req.apiKey;
+  return res.json({ ok: true, key: { id, name, scopes, expiresAt } });
+});
+
+// Issue a key. The plaintext is only ever returned in this response.
+router.post('/auth/keys', requireScope('admin'), async (req, res) => {
+  const { name, scopes, expiresAt } = req.body || {};
+  if (!name) return res.status(400).json({ ok: false, error: 'missing_name' });
+  if (!Array.isArray(scopes) || scopes.length === 0 || !scopes.every(isApiKeyScope)) {
+    return res.status(400).json({ ok: false, error: 'invalid_scopes' });
+  }
+  if (expiresAt && Number.isNaN(new Date(expiresAt).getTime())) {
+    return res.status(400).json({ ok: false, error: 'invalid_expiresAt' });
+  }
+
+  try {
+    const { key, record } = await getApiKeyService().issue({ name, scopes, expiresAt });
+    return res.status(201).json({ ok: true, key, apiKey: record });
+  } catch (e) {
+    return res.status(500).json({ ok: false, error: e.message });
+  }
+});
+
+router.get('/auth/keys', requireScope('admin'), async (req, res) => {
+  try {
+    return res.json({ ok: true, keys: await getApiKeyService().list() });
+  } catch (e) {
+    return res.status(500).json({ ok: false, error: e.message });
+  }
+});
+
+router.delete('/auth/keys/:id', requireScope('admin'), async (req, res) => {
+  try {
+    const revoked = await getApiKeyService().revoke(req.params.id);
+    if (!revoked) return res.status(404).json({ ok: false, error: 'api_key_not_found' });
+    return res.json({ ok: true });
+  } catch (e) {
+    return res.status(500).json({ ok: false, error: e.message });
+  }
+});
+
+export default router;
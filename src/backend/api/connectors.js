@@ -4,10 +4,11 @@
  */
 
 import express from 'express';
+import { requireScope } from './auth.js';
 const router = express.Router();
 
 // Mock auth start
-router.get('/connect/:provider/start', (req, res) => {
+router.get('/connect/:provider/start', requireScope('connectors'), (req, res) => {
   const provider = req.params.provider;
   // In production redirect to provider-specific OAuth URL
   res.json({ authUrl: `https://mock.oauth/${provider}/authorize?client_id=MOCK` });
@@ -21,7 +22,7 @@ router.get('/connect/:provider/callback', (req, res) => {
 });
 
 // List files (mock)
-router.get('/files/:provider/list', (req, res) => {
+router.get('/files/:provider/list', requireScope('connectors'), (req, res) => {
   const provider = req.params.provider;
   const files = [
     {
@@ -1,11 +1,14 @@
 import express from 'express';
 import { getProviderToken, hasProviderToken } from './connectorsStore.js';
 import fs from 'fs';
+import { requireScope } from './auth.js';
+import { detectResumeFormat, parseResumeFile } from './services/resumeParser.service.js';
+import { InflateLimitError } from './services/zip.service.js';
 
 const router = express.Router();
 
 // List saved documents (server-side store)
-router.get('/documents/list', (req, res) => {
+router.get('/documents/list', requireScope('documents:read'), (req, res) => {
   try {
     const path = './connectors_store.json';
     if (!fs.existsSync(path)) return res.json({ documents: [] });
@@ -18,4 +21,27 @@ router.get('/documents/list', (req, res) => {
   }
 });
 
+// Parse an uploaded resume (PDF, DOCX or text, base64) into ResumeData with field confidence
+router.post('/documents/resume/parse', requireScope('documents:read'), (req, res) => {
+  const { content } = req.body || {};
+  const fileName = typeof req.body?.fileName === 'string' ? req.body.fileName : undefined;
+  if (typeof content !== 'string' || !content) {
+    return res.status(400).json({ ok: false, error: 'missing_content' });
+  }
+  const file = Buffer.from(content, 'base64');
+  if (!detectResumeFormat(file, fileName)) {
+    return res.status(400).json({ ok: false, error: 'unsupported_file' });
+  }
+  try {
+    const parsed = parseResumeFile(file, fileName);
+    if (!parsed.text.trim()) return res.status(422).json({ ok: false, error: 'no_text' });
+    return res.json({ ok: true, ...parsed });
+  } catch (e) {
+    if (e instanceof InflateLimitError) {
+      return res.status(413).json({ ok: false, error: 'file_too_large', message: e.message });
+    }
+    return res.status(422).json({ ok: false, error: 'unreadable_file', message: e.message });
+  }
+});
+
 export default router;
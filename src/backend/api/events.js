@@ -0,0 +1,87 @@
+/* Event log endpoints
+ * GET /events is polled by the n8n JobsprintWorkflowTrigger node; pass back `cursor` as `after`
+ * to receive each event exactly once. POST /events publishes custom events into the same log.
+ */
+
+import express from 'express';
+import { requireScope } from './auth.js';
+import { getEventLog } from './services/eventLog.service.js';
+
+const router = express.Router();
+
+function toList(value) {
+  if (value === undefined) return undefined;
+  return String(value)
+    .split(',')
+    .map((v) => v.trim())
+    .filter(Boolean);
+}
+
+// Poll events
+// (?type=application.created,application.status_changed&after=42&since=...
+//  &filter={"platform":"indeed"}&limit=100)
+router.get('/events', requireScope('events:read'), async (req, res) => {
+  const { type, after, cursor, since, filter, limit } = req.query;
+
+  let parsedFilter;
+  if (filter) {
+    try {
+      parsedFilter = JSON.parse(String(filter));
+    } catch (e) {
+      parsedFilter = null;
+    }
+    if (!parsedFilter || typeof parsedFilter !== 'object' || Array.isArray(parsedFilter)) {
+      return res.status(400).json({ ok: false, error: 'invalid_filter' });
+    }
+  }
+  if (since !== undefined && Number.isNaN(new Date(String(since)).getTime())) {
+    return res.status(400).json({ ok: false, error: 'invalid_since' });
+  }
+  if (limit !== undefined && !(Number(limit) >= 0)) {
+    return res.status(400).json({ ok: false, error: 'invalid_limit' });
+  }
+
+  const eventLog = getEventLog();
+  const position = after ?? cursor;
+
+  try {
+    const page = await eventLog.list({
+      types: toList(type),
+      after: position === undefined ? undefined : String(position),
+      since: since === undefined ? undefined : String(since),
+      filter: parsedFilter,
+      limit: limit === undefined ? undefined : Number(limit),
+    });
+    return res.json({ ok: true, ...page });
+  } catch (e) {
+    if (/Invalid event cursor/.test(e.message)) {
+      return res.status(400).json({ ok: false, error: 'invalid_cursor' });
+    }
+    return res.status(500).json({ ok: false, error: e.message });
+  }
+});
+
+// Publish a custom event
+router.post('/events', requireScope('events:write'), async (req, res) => {
+  const { type, data, metadata } = req.body || {};
+  if (!type || typeof type !== 'string') {
+    return res.status(400).json({ ok: false, error: 'missing_type' });
+  }
+  if (data !== undefined && (typeof data !== 'object' || data === null || Array.isArray(data))) {
+    return res.status(400).json({ ok: false, error: 'invalid_data' });
+  }
+
+  try {
+    const event = await getEventLog().append({
+      type,
+      source: 'api',
+      data,
+      metadata: { ...(metadata || {}), apiKeyId: req.apiKey?.id },
+    });
+    return res.status(201).json({ ok: true, event });
+  } catch (e) {
+    return res.status(500).json({ ok: false, error: e.message });
+  }
+});
+
+export default router;
@@ -1,6 +1,8 @@
 import express from 'express';
 import { google } from 'googleapis';
 import crypto from 'crypto';
+import { requireScope } from './auth.js';
+import { recordEvent } from './services/eventLog.service.js';
 
 const router = express.Router();
 const oauth2Client = new google.auth.OAuth2(
@@ -10,7 +12,7 @@ const oauth2Client = new google.auth.OAuth2(
 );
 
 // Generate a URL for user consent (server-side code flow)
-router.get('/connect/google/start', (req, res) => {
+router.get('/connect/google/start', requireScope('connectors'), (req, res) => {
   const state = crypto.randomBytes(16).toString('hex');
   // Save state to session for CSRF protection (demo: return state)
   const scopes = [
@@ -37,12 +39,7 @@ router.get('/connect/google/callback', async (req, res) => {
     try {
       const { saveProviderToken } = await import('./connectorsStore.js');
       saveProviderToken('google', tokens);
-      // Broadcast event for websocket listeners (if any)
-      process.emit('jobEvent', {
-        type: 'CONNECTOR_CONNECTED',
-        provider: 'google',
-        timestamp: new Date().toISOString(),
-      });
+      recordEvent({ type: 'connector.connected', source: 'connectors', data: { provider: 'google' } });
     } catch (e) {
       console.warn('save token failed', e?.message || e);
     }
@@ -73,7 +70,7 @@ router.get('/connect/google/callback', async (req, res) => {
 });
 
 // List files using stored token (demo expects token in query for simplicity)
-router.get('/files/google/list2', async (req, res) => {
+router.get('/files/google/list2', requireScope('connectors'), async (req, res) => {
   const token = req.query.token;
   if (!token) return res.status(400).json({ error: 'Missing token' });
 
@@ -2,6 +2,10 @@ import express from 'express';
 import axios from 'axios';
 import cheerio from 'cheerio';
 import { URL } from 'url';
+import { requireScope } from './auth.js';
+import { getApplicationRepository } from './services/applicationRepository.service.js';
+import { recordEvent } from './services/eventLog.service.js';
+import { parseJobPosting } from './services/jobParser.service.js';
 
 const router = express.Router();
 
@@ -13,6 +17,24 @@ function normalizeUrl(base, href) {
   }
 }
 
+// Text of a description element with one line per paragraph, list item and heading,
+// which the job posting parser needs to find sections
+function descriptionText($, el) {
+  const node = $(el).first().clone();
+  // Line breaks in the markup itself are just whitespace
+  const BREAK = '\u2029';
+  node.find('br').replaceWith(BREAK);
+  node.find('p, li, div, h1, h2, h3, h4, h5, h6').each((i, child) => {
+    $(child).prepend(child.tagName === 'li' ? `${BREAK}- ` : BREAK).append(BREAK);
+  });
+  return node
+    .text()
+    .split(BREAK)
+    .map((line) => line.replace(/\s+/g, ' ').trim())
+    .filter(Boolean)
+    .join('\n');
+}
+
 function parseIndeedSearch(html, baseUrl = 'https://www.indeed.com') {
   const $ = cheerio.load(html);
   const jobs = [];
@@ -83,7 +105,7 @@ function parseIndeedSearch(html, baseUrl = 'https://www.indeed.com') {
 }
 
 // Search Indeed (simple scraping fallback)
-router.get('/jobs/indeed/search', async (req, res) => {
+router.get('/jobs/indeed/search', requireScope('jobs:read'), async (req, res) => {
   const q = req.query.q || req.query.keywords || 'software engineer';
   const l = req.query.l || req.query.location || 'remote';
   const page = Number(req.query.page || 0);
@@ -105,8 +127,11 @@ router.get('/jobs/indeed/search', async (req, res) => {
     // attach fake matchScore for demo
     const results = jobs.map((j) => ({ ...j, matchScore: Math.floor(70 + Math.random() * 25) }));
 
-    // Broadcast event for WebSocket listeners (progress)
-    try { process.emit('jobEvent', { type: 'indeed_search', q, l, resultsCount: results.length, timestamp: new Date().toISOString() }); } catch (e) {}
+    recordEvent({
+      type: 'job.search.completed',
+      source: 'indeed',
+      data: { platform: 'indeed', q, l, resultsCount: results.length },
+    });
 
     return res.json({ ok: true, query: { q, l, page }, jobs: results, source: 'scrape' });
   } catch (err) {
@@ -116,7 +141,7 @@ router.get('/jobs/indeed/search', async (req, res) => {
 });
 
 // Job details
-router.get('/jobs/indeed/job/:jobId', async (req, res) => {
+router.get('/jobs/indeed/job/:jobId', requireScope('jobs:read'), async (req, res) => {
   const jobId = req.params.jobId;
   try {
     const url = `https://www.indeed.com/viewjob?jk=${encodeURIComponent(jobId)}`;
@@ -125,11 +150,14 @@ router.get('/jobs/indeed/job/:jobId', async (req, res) => {
       timeout: 15000
     });
     const $ = cheerio.load(response.data);
-    const description = $('#jobDescriptionText').text().trim() || $('.jobsearch-jobDescriptionText').text().trim() || '';
+    const description =
+      descriptionText($, '#jobDescriptionText') || descriptionText($, '.jobsearch-jobDescriptionText');
     const title = $('h1').first().text().trim() || $('h1.jobsearch-JobInfoHeader-title').text().trim();
     const company = $('.companyName').first().text().trim() || $('.icl-u-lg-mr--sm').text().trim();
 
-    return res.json({ ok: true, job: { id: jobId, title, company, description, url } });
+    const posting = parseJobPosting(description);
+
+    return res.json({ ok: true, job: { id: jobId, title, company, description, url, posting } });
   } catch (err) {
     console.error('indeed job fetch error', err.message || err);
     return res.status(500).json({ ok: false, error: 'indeed_job_failed', message: String(err.message || err) });
@@ -137,30 +165,37 @@ router.get('/jobs/indeed/job/:jobId', async (req, res) => {
 });
 
 // Apply (simulate via event & async processing)
-router.post('/jobs/indeed/apply', async (req, res) => {
-  const { jobUrl, resumeId, coverLetter, formData } = req.body || {};
+router.post('/jobs/indeed/apply', requireScope('jobs:apply'), async (req, res) => {
+  const { jobUrl, resumeId, coverLetter, jobId, jobTitle, company } = req.body || {};
   if (!jobUrl) return res.status(400).json({ ok: false, error: 'missing_jobUrl' });
 
   const submissionId = `indeed_sub_${Date.now()}`;
+  const applications = getApplicationRepository();
 
-  // Emit start
-  process.emit('jobEvent', { type: 'indeed_apply_started', submissionId, jobUrl, resumeId, timestamp: new Date().toISOString() });
+  try {
+    await applications.create({
+      id: submissionId,
+      platform: 'indeed',
+      jobUrl,
+      jobId,
+      jobTitle,
+      company,
+      resumeId,
+      hasCoverLetter: !!coverLetter,
+      status: 'pending',
+    });
+  } catch (err) {
+    console.error('persist application failed', err.message || err);
+    return res
+      .status(500)
+      .json({ ok: false, error: 'persist_application_failed', message: String(err.message || err) });
+  }
 
   // Simulate async apply process
-  setTimeout(() => {
+  setTimeout(async () => {
     const success = Math.random() > 0.2; // 80% success rate for simulation
-    process.emit('jobEvent', { type: 'indeed_apply_completed', submissionId, jobUrl, success, timestamp: new Date().toISOString() });
-
-    // Persist to simple file store
     try {
-      const fs = await import('fs');
-      const path = './server_applications.json';
-      let store = [];
-      if (fs.existsSync(path)) {
-        store = JSON.parse(fs.readFileSync(path, 'utf8') || '[]');
-      }
-      store.unshift({ submissionId, jobUrl, resumeId, coverLetter: coverLetter ? '[REDACTED]' : null, success, ts: new Date().toISOString() });
-      fs.writeFileSync(path, JSON.stringify(store, null, 2));
+      await applications.updateStatus(submissionId, success ? 'submitted' : 'failed');
     } catch (e) {
       console.warn('persist application failed', e.message || e);
     }
@@ -169,18 +204,4 @@ router.post('/jobs/indeed/apply', async (req, res) => {
   return res.json({ ok: true, submissionId, status: 'pending' });
 });
 
-// List server-side applications
-router.get('/applications/list', (req, res) => {
-  try {
-    const fs = require('fs');
-    const path = './server_applications.json';
-    if (!fs.existsSync(path)) return res.json({ applications: [] });
-    const raw = fs.readFileSync(path, 'utf8') || '[]';
-    const apps = JSON.parse(raw);
-    return res.json({ applications: apps });
-  } catch (e) {
-    return res.status(500).json({ error: e.message });
-  }
-});
-
 export default router;
\ No newline at end of file
@@ -0,0 +1,139 @@
+/* Resume version endpoints
+ * Every tailored variant is stored as a version linked to its parent and the job it targets, so
+ * the resume sent to each employer can be looked up, compared with its parent and restored.
+ */
+
+import express from 'express';
+import { requireScope } from './auth.js';
+import { getApplicationRepository } from './services/applicationRepository.service.js';
+import { RESUME_DATA_SCHEMA } from './services/resumeData.service.js';
+import {
+  getResumeVersionRepository,
+  ResumeVersionNotFoundError,
+} from './services/resumeVersions.service.js';
+import { validateJsonSchema } from './services/structuredOutput.service.js';
+
+const router = express.Router();
+
+function isObject(value) {
+  return Boolean(value) && typeof value === 'object' && !Array.isArray(value);
+}
+
+function sendError(res, e) {
+  if (e instanceof ResumeVersionNotFoundError) {
+    return res.status(404).json({ ok: false, error: 'version_not_found', versionId: e.versionId });
+  }
+  return res.status(500).json({ ok: false, error: e.message });
+}
+
+// Record a version ({ resume, generator, resumeId | parentId, job?, settings?, note?, original? })
+router.post('/resumes/versions', requireScope('documents:write'), async (req, res) => {
+  const { resume, original, generator, resumeId, parentId, job, settings, note } = req.body || {};
+  if (!isObject(resume)) return res.status(400).json({ ok: false, error: 'missing_resume' });
+  for (const value of original === undefined ? [resume] : [resume, original]) {
+    const errors = validateJsonSchema(value, RESUME_DATA_SCHEMA);
+    if (errors.length) return res.status(400).json({ ok: false, error: 'invalid_resume', errors });
+  }
+  if (typeof generator !== 'string' || !generator.trim()) {
+    return res.status(400).json({ ok: false, error: 'missing_generator' });
+  }
+  if (typeof resumeId !== 'string' && typeof parentId !== 'string') {
+    return res.status(400).json({ ok: false, error: 'missing_resume_id' });
+  }
+  if (job !== undefined && !(isObject(job) && typeof job.id === 'string' && job.id)) {
+    return res.status(400).json({ ok: false, error: 'invalid_job' });
+  }
+  if (settings !== undefined && !isObject(settings)) {
+    return res.status(400).json({ ok: false, error: 'invalid_settings' });
+  }
+
+  try {
+    const version = await getResumeVersionRepository().create({
+      resume,
+      original,
+      generator: generator.trim(),
+      resumeId,
+      parentId,
+      job,
+      settings,
+      note: typeof note === 'string' ? note : undefined,
+    });
+    return res.status(201).json({ ok: true, version });
+  } catch (e) {
+    return sendError(res, e);
+  }
+});
+
+// Versions tailored for a job, newest first (?jobId=...)
+router.get('/resumes/versions', requireScope('documents:read'), async (req, res) => {
+  const { jobId } = req.query;
+  if (!jobId) return res.status(400).json({ ok: false, error: 'missing_job_id' });
+  try {
+    const versions = await getResumeVersionRepository().forJob(String(jobId));
+    return res.json({ ok: true, versions });
+  } catch (e) {
+    return sendError(res, e);
+  }
+});
+
+// The whole history of a resume, oldest first; parentId links the versions into a graph
+router.get('/resumes/:resumeId/versions', requireScope('documents:read'), async (req, res) => {
+  try {
+    const versions = await getResumeVersionRepository().history(req.params.resumeId);
+    if (versions.length === 0) {
+      return res.status(404).json({ ok: false, error: 'resume_not_found' });
+    }
+    return res.json({ ok: true, resumeId: req.params.resumeId, versions });
+  } catch (e) {
+    return sendError(res, e);
+  }
+});
+
+// One version, its ancestors and the applications that were sent with it
+router.get('/resumes/versions/:id', requireScope('documents:read'), async (req, res) => {
+  const repository = getResumeVersionRepository();
+  try {
+    const version = await repository.findById(req.params.id);
+    if (!version) throw new ResumeVersionNotFoundError(req.params.id);
+    const [lineage, applications] = await Promise.all([
+      repository.lineage(version.id),
+      getApplicationRepository().list({ resumeId: version.id }, { pageSize: 100 }),
+    ]);
+    return res.json({
+      ok: true,
+      version,
+      lineage: lineage.map((ancestor) => ancestor.id),
+      applications: applications.items,
+    });
+  } catch (e) {
+    return sendError(res, e);
+  }
+});
+
+// What changed from ?against= (default: the parent version) to this version
+router.get('/resumes/versions/:id/diff', requireScope('documents:read'), async (req, res) => {
+  const repository = getResumeVersionRepository();
+  try {
+    const version = await repository.findById(req.params.id);
+    if (!version) throw new ResumeVersionNotFoundError(req.params.id);
+    const against = req.query.against ? String(req.query.against) : version.parentId;
+    if (!against) return res.status(400).json({ ok: false, error: 'missing_against' });
+    const diff = await repository.diff(against, version.id);
+    return res.json({ ok: true, from: against, to: version.id, ...diff });
+  } catch (e) {
+    return sendError(res, e);
+  }
+});
+
+// Make an old version's content the newest version of its resume
+router.post('/resumes/versions/:id/restore', requireScope('documents:write'), async (req, res) => {
+  const note = typeof req.body?.note === 'string' ? req.body.note : undefined;
+  try {
+    const version = await getResumeVersionRepository().restore(req.params.id, note);
+    return res.status(201).json({ ok: true, version });
+  } catch (e) {
+    return sendError(res, e);
+  }
+});
+
+export default router;
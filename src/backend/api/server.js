@@ -43,18 +43,60 @@ app.get('/api/v1', (req, res) => {
   });
 });
 
-// Register routers (connectors, oauth, documents, ai)
+// Register routers (auth, connectors, oauth, documents, resumes, ai, indeed, applications)
+import authRouter, { authenticate } from './auth.js';
 import connectorsRouter from './connectors.js';
 import googleOAuthRouter from './googleOAuth.js';
 import documentsRouter from './documents.js';
+import resumesRouter from './resumes.js';
 import aiRouter from './ai.js';
 import indeedRouter from './indeed.js';
-
+import applicationsRouter from './applications.js';
+import eventsRouter from './events.js';
+import { getApplicationRepository } from './services/applicationRepository.service.js';
+import { getEventLog } from './services/eventLog.service.js';
+import { moveLegacyVectors } from './services/vectorStore.service.js';
+import { assertSafeBootstrapKey } from './services/apiKey.service.js';
+
+// A guessable bootstrap key is an admin key anyone can use, so refuse to start with one
+try {
+  assertSafeBootstrapKey(process.env.JOBSPRINT_BOOTSTRAP_API_KEY);
+} catch (e) {
+  console.error(`❌ ${e.message}`);
+  process.exit(1);
+}
+
+// Every /api/v1 route requires an API key (see auth.js for the public exceptions)
+app.use('/api/v1', authenticate);
+app.use('/api/v1', authRouter);
 app.use('/api/v1', connectorsRouter);
 app.use('/api/v1', googleOAuthRouter);
 app.use('/api/v1', documentsRouter);
+app.use('/api/v1', resumesRouter);
 app.use('/api/v1', aiRouter);
 app.use('/api/v1', indeedRouter);
+app.use('/api/v1', applicationsRouter);
+app.use('/api/v1', eventsRouter);
+
+// Migrate the legacy flat-file application store into the database (no-op once imported)
+getApplicationRepository()
+  .importLegacyFile('./server_applications.json')
+  .then((count) => count && console.log(`📦 Imported ${count} legacy applications`))
+  .catch((e) => console.warn('legacy application import failed', e.message || e));
+
+// Move RAG vectors indexed before they had their own database file (no-op once moved)
+moveLegacyVectors()
+  .then((count) => count && console.log(`📦 Moved ${count} indexed jobs to the vector database`))
+  .catch((e) => console.warn('legacy vector move failed', e.message || e));
+
+// Trim the event log once a day (JOBSPRINT_EVENT_RETENTION_DAYS, default 30)
+const eventRetentionDays = Number(process.env.JOBSPRINT_EVENT_RETENTION_DAYS) || 30;
+const pruneEvents = () =>
+  getEventLog()
+    .prune(new Date(Date.now() - eventRetentionDays * 24 * 60 * 60 * 1000))
+    .catch((e) => console.warn('event log prune failed', e.message || e));
+pruneEvents();
+setInterval(pruneEvents, 24 * 60 * 60 * 1000).unref();
 
 // Create HTTP server and websocket server
 import { initWebSocket } from './websocket.js';
@@ -4,8 +4,23 @@
  * Combines best features from Rezi, Kickresume, and LazyApply with advanced AI capabilities
  */
 
-import { LLMAbstractionLayer, StructuredPrompt } from './llm-abstraction.service';
-import { RAGSystem, JobDescription, JobAnalysis } from './rag-system.service';
+import {
+  LLMAbstractionLayer,
+  StructuredPrompt,
+  JsonSchema,
+  ContextSection,
+} from './llm-abstraction.service';
+import {
+  PromptRegistry,
+  PromptDefinition,
+  PromptRunRef,
+  PromptVariableSpecs,
+  PromptVariables,
+  RenderedPrompt,
+  definePrompt,
+  getPromptRegistry,
+} from './promptRegistry.service';
+import { RAGSystem, JobAnalysis, RequirementEvidence, formatEvidence } from './rag-system.service';
 
 export type CompanyCulture = {
   tone: 'professional' | 'casual' | 'innovative' | 'traditional' | 'startup';
@@ -24,6 +39,8 @@ export type CoverLetterAnalysis = {
   toneMatch: number; // 0-100 score
   personalizationLevel: 'low' | 'medium' | 'high';
   jobAnalysis?: JobAnalysis;
+  /** The user's indexed experience backing each job requirement */
+  evidence?: RequirementEvidence[];
   companyAlignment?: number;
 };
 
@@ -36,6 +53,173 @@ export type CoverLetterTemplate = {
   personalizationNotes: string[];
 };
 
+type CoverLetterSections = Pick<
+  CoverLetterTemplate,
+  'introduction' | 'bodyParagraphs' | 'closing' | 'callToAction'
+>;
+
+const COVER_LETTER_SCHEMA: JsonSchema = {
+  type: 'object',
+  properties: {
+    introduction: { type: 'string', minLength: 1, description: 'Opening paragraph' },
+    bodyParagraphs: {
+      type: 'array',
+      items: { type: 'string', minLength: 1 },
+      minItems: 1,
+      maxItems: 3,
+    },
+    closing: { type: 'string', minLength: 1, description: 'Closing paragraph' },
+    callToAction: { type: 'string', minLength: 1, description: 'Call to action and sign-off' },
+  },
+  required: ['introduction', 'bodyParagraphs', 'closing', 'callToAction'],
+};
+
+/** Variables of the shared job and candidate context every cover letter prompt starts with */
+const CONTEXT_VARIABLES = {
+  position: { type: 'string' },
+  company: { type: 'string' },
+  industry: { type: 'string' },
+  cultureTone: { type: 'string' },
+  cultureValues: { type: 'string[]' },
+  mustHaveSkills: { type: 'string[]', optional: true },
+  responsibilities: { type: 'string', optional: true },
+  careerLevel: { type: 'string', optional: true },
+  currentPosition: { type: 'string' },
+  yearsExperience: { type: 'string' },
+  skills: { type: 'string[]' },
+  tone: { type: 'string' },
+} as const satisfies PromptVariableSpecs;
+
+const CONTEXT = `POSITION: {{position}}
+COMPANY: {{company}}
+INDUSTRY: {{industry}}
+COMPANY CULTURE: {{cultureTone}} tone, values: {{cultureValues}}
+
+{{#if careerLevel}}JOB REQUIREMENTS:
+- Must-have skills: {{mustHaveSkills}}
+- Key responsibilities: {{responsibilities}}
+- Career level: {{careerLevel}}
+
+{{/if}}CANDIDATE PROFILE:
+- Current role: {{currentPosition}}
+- Years of experience: {{yearsExperience}}
+- Key skills: {{skills}}
+- Target tone: {{tone}}`;
+
+/**
+ * Cover letter prompts. Add a version to change wording; published versions stay as they are
+ * so their metrics remain comparable.
+ */
+export const COVER_LETTER_PROMPTS = {
+  full: definePrompt({
+    name: 'cover_letter.full',
+    description: 'Complete letter as JSON sections',
+    variables: { ...CONTEXT_VARIABLES, length: { type: 'string' } },
+    versions: [
+      {
+        version: 1,
+        system:
+          'You are an expert cover letter writer who creates personalized, compelling cover letters that connect candidate experience with specific job requirements. Use the provided context to craft a tailored letter that demonstrates fit for the role.',
+        user: `${CONTEXT}
+
+Write a complete cover letter following this structure:
+1. Introduction paragraph (3-4 sentences)
+2. 2-3 body paragraphs highlighting relevant experience and achievements
+3. Closing paragraph with call to action
+4. Professional sign-off
+
+Make it {{length}} length and use a {{tone}} tone.`,
+        constraints: [
+          'Keep the letter to 3-4 paragraphs',
+          "Use specific examples from the candidate's experience",
+          'Include quantifiable achievements where possible',
+          'Show enthusiasm and cultural fit',
+          'End with a clear call to action',
+        ],
+      },
+    ],
+  }),
+  introduction: definePrompt({
+    name: 'cover_letter.introduction',
+    description: 'Opening paragraph for parallel generation',
+    variables: CONTEXT_VARIABLES,
+    versions: [
+      {
+        version: 1,
+        system:
+          'Write a compelling cover letter introduction that immediately captures attention and shows understanding of the role and company.',
+        user: `${CONTEXT}
+
+Write an introduction paragraph (3-4 sentences) that:
+1. States the position and how you found it
+2. Shows enthusiasm for the company/role
+3. Briefly mentions your most relevant qualification
+4. Hooks the reader to continue reading`,
+        temperature: 0.7,
+      },
+    ],
+  }),
+  body: definePrompt({
+    name: 'cover_letter.body',
+    description: 'Body paragraphs for parallel generation',
+    variables: CONTEXT_VARIABLES,
+    versions: [
+      {
+        version: 1,
+        system:
+          'Write the main body paragraphs of a cover letter, focusing on relevant experience, achievements, and fit for the role.',
+        user: `${CONTEXT}
+
+Write 2-3 body paragraphs that:
+1. Connect your experience to the job requirements
+2. Include specific achievements with metrics where possible
+3. Demonstrate why you're the right fit
+4. Show understanding of the company's needs`,
+        temperature: 0.7,
+      },
+    ],
+  }),
+  closing: definePrompt({
+    name: 'cover_letter.closing',
+    description: 'Closing paragraph for parallel generation',
+    variables: CONTEXT_VARIABLES,
+    versions: [
+      {
+        version: 1,
+        system:
+          'Write a strong cover letter closing that reinforces your interest and calls for next steps.',
+        user: `${CONTEXT}
+
+Write a closing paragraph that:
+1. Reiterates your enthusiasm
+2. Summarizes why you're a great fit
+3. References next steps in the process
+4. Uses confident but professional language`,
+        temperature: 0.7,
+      },
+    ],
+  }),
+  signoff: definePrompt({
+    name: 'cover_letter.signoff',
+    description: 'Sign-off and contact details for parallel generation',
+    variables: CONTEXT_VARIABLES,
+    versions: [
+      {
+        version: 1,
+        system: 'Write a professional sign-off and contact information for a cover letter.',
+        user: `${CONTEXT}
+
+Write a professional sign-off including:
+1. Appropriate closing (Sincerely, Best regards, etc.)
+2. Your full name
+3. Contact information
+4. Any relevant links (LinkedIn, portfolio)`,
+        temperature: 0.7,
+      },
+    ],
+  }),
+};
+
 export type GeneratedCoverLetter = {
   content: string;
   template: CoverLetterTemplate;
@@ -43,12 +227,16 @@ export type GeneratedCoverLetter = {
   personalizationScore: number;
   companyAlignment: number;
   suggestions: string[];
+  /** Experience the letter could draw on for each job requirement, when the job and user are known */
+  evidence?: RequirementEvidence[];
   generationMetadata: {
     provider: string;
     model: string;
     totalCost: number;
     processingTime: number;
     sectionsGenerated: number;
+    /** Prompt versions used; score a run to feed its version's metrics */
+    prompts: PromptRunRef[];
   };
 };
 
@@ -56,7 +244,7 @@ export type CoverLetterGenerationRequest = {
   resume: string;
   jobDescription: string;
   userProfile: any;
-  jobId?: string; // For RAG integration
+  jobId?: string; // For RAG integration; with userId, also retrieves the user's evidence
   companyInfo?: {
     name: string;
     website: string;
@@ -67,15 +255,24 @@ export type CoverLetterGenerationRequest = {
   length?: 'short' | 'medium' | 'long';
   keyPoints?: string[];
   parallel?: boolean; // Enable parallel section generation
+  userId?: string; // Cost attribution and sticky prompt experiment assignment
+  promptVersions?: Record<string, number>; // Pin prompt versions, e.g. { 'cover_letter.full': 1 }
 };
 
 export class EnhancedAICoverLetterGenerator {
   private llmService: LLMAbstractionLayer;
   private ragSystem: RAGSystem;
+  private prompts: PromptRegistry;
 
-  constructor(llmService: LLMAbstractionLayer, ragSystem: RAGSystem) {
+  constructor(
+    llmService: LLMAbstractionLayer,
+    ragSystem: RAGSystem,
+    prompts: PromptRegistry = getPromptRegistry()
+  ) {
     this.llmService = llmService;
     this.ragSystem = ragSystem;
+    this.prompts = prompts;
+    this.prompts.register(...Object.values(COVER_LETTER_PROMPTS));
   }
 
   /**
@@ -88,7 +285,7 @@ export class EnhancedAICoverLetterGenerator {
     // 1. Analyze job description using RAG if jobId provided
     let jobAnalysis: JobAnalysis | undefined;
     if (request.jobId) {
-      const jobDesc = await this.getJobDescriptionFromRAG();
+      const jobDesc = await this.ragSystem.getJobDescription(request.jobId);
       if (jobDesc) {
         jobAnalysis = await this.ragSystem.analyzeJobDescription(jobDesc);
       }
@@ -98,9 +295,10 @@ export class EnhancedAICoverLetterGenerator {
     const analysis = await this.analyzeRequest(request, jobAnalysis);
 
     // 3. Generate cover letter using parallel processing if enabled
+    const promptRuns: PromptRunRef[] = [];
     const generationResult = request.parallel
-      ? await this.generateParallelCoverLetter(request, analysis)
-      : await this.generateSequentialCoverLetter(request, analysis);
+      ? await this.generateParallelCoverLetter(request, analysis, promptRuns)
+      : await this.generateSequentialCoverLetter(request, analysis, promptRuns);
 
     const processingTime = Date.now() - startTime;
 
@@ -115,6 +313,7 @@ export class EnhancedAICoverLetterGenerator {
         totalCost: usageStats.totalCost,
         processingTime,
         sectionsGenerated: request.parallel ? 4 : 1,
+        prompts: promptRuns,
       },
     };
   }
@@ -125,21 +324,44 @@ export class EnhancedAICoverLetterGenerator {
    */
   private async generateParallelCoverLetter(
     request: CoverLetterGenerationRequest,
-    analysis: CoverLetterAnalysis
+    analysis: CoverLetterAnalysis,
+    promptRuns: PromptRunRef[]
   ): Promise<Omit<GeneratedCoverLetter, 'generationMetadata'>> {
     // Prepare parallel prompts
-    const prompts = this.buildParallelPrompts(request, analysis);
+    const variables = this.buildPromptVariables(request, analysis);
+    const { introduction: intro, body, closing: close, signoff } = COVER_LETTER_PROMPTS;
+    const prompts = await Promise.all(
+      [intro, body, close, signoff].map((definition) =>
+        this.renderPrompt(definition, variables, request)
+      )
+    );
 
     // Generate sections in parallel
-    const responses = await this.llmService.generateParallel(
-      prompts.map((p) => ({
-        messages: [
-          { role: 'system', content: p.systemPrompt },
-          { role: 'user', content: p.userPrompt },
-        ],
-        temperature: 0.7,
-      }))
+    const context = this.buildContextSections(request, analysis);
+    const runs = await Promise.all(
+      prompts.map((prompt) =>
+        this.prompts.track(
+          prompt,
+          () =>
+            this.llmService.generate({
+              messages: [
+                { role: 'system', content: prompt.system },
+                { role: 'user', content: prompt.user },
+              ],
+              temperature: prompt.temperature,
+              maxTokens: prompt.maxTokens,
+              context,
+              taskType: 'cover_letter',
+              userId: request.userId,
+            }),
+          { userId: request.userId }
+        )
+      )
+    );
+    promptRuns.push(
+      ...prompts.map(({ name, version }, i) => ({ name, version, runId: runs[i].runId }))
     );
+    const responses = runs.map((run) => run.response);
 
     // Combine results
     const introduction = responses[0].content;
@@ -168,6 +390,7 @@ export class EnhancedAICoverLetterGenerator {
       personalizationScore: this.calculatePersonalizationScore(template),
       companyAlignment: analysis.companyAlignment || 75,
       suggestions: this.generateSuggestions(template),
+      evidence: analysis.evidence,
     };
   }
 
@@ -176,33 +399,56 @@ export class EnhancedAICoverLetterGenerator {
    */
   private async generateSequentialCoverLetter(
     request: CoverLetterGenerationRequest,
-    analysis: CoverLetterAnalysis
+    analysis: CoverLetterAnalysis,
+    promptRuns: PromptRunRef[]
   ): Promise<Omit<GeneratedCoverLetter, 'generationMetadata'>> {
-    const prompt: StructuredPrompt = {
-      systemPrompt: `You are an expert cover letter writer who creates personalized, compelling cover letters that connect candidate experience with specific job requirements. Use the provided context to craft a tailored letter that demonstrates fit for the role.`,
-      userPrompt: this.buildSequentialPrompt(request, analysis),
-      constraints: [
-        'Keep the letter to 3-4 paragraphs',
-        "Use specific examples from the candidate's experience",
-        'Include quantifiable achievements where possible',
-        'Show enthusiasm and cultural fit',
-        'End with a clear call to action',
-      ],
-      outputFormat: 'markdown',
+    const rendered = await this.renderPrompt(
+      COVER_LETTER_PROMPTS.full,
+      { ...this.buildPromptVariables(request, analysis), length: request.length || 'medium' },
+      request
+    );
+    const prompt: StructuredPrompt & { outputFormat: 'json' } = {
+      systemPrompt: rendered.system,
+      userPrompt: rendered.user,
+      constraints: rendered.constraints,
+      temperature: rendered.temperature,
+      maxTokens: rendered.maxTokens,
+      outputFormat: 'json',
+      schema: COVER_LETTER_SCHEMA,
+      taskType: 'cover_letter',
+      context: this.buildContextSections(request, analysis),
+      userId: request.userId,
     };
 
-    const response = await this.llmService.generateStructured(prompt);
+    const {
+      response: { result },
+      runId,
+    } = await this.prompts.track(
+      rendered,
+      () => this.llmService.generateStructured<CoverLetterSections>(prompt),
+      { userId: request.userId, succeeded: (response) => response.result.ok }
+    );
+    promptRuns.push({ name: rendered.name, version: rendered.version, runId });
+    if (!result.ok) {
+      throw new Error(
+        `Cover letter generation returned invalid output: ${result.errors.join('; ')}`
+      );
+    }
 
-    // Parse the generated content
-    const parsed = this.parseGeneratedContent(response.content);
+    const template: CoverLetterTemplate = {
+      ...result.data,
+      tone: request.tone || 'professional',
+      personalizationNotes: this.generatePersonalizationNotes(analysis),
+    };
 
     return {
-      content: response.content,
-      template: parsed.template,
-      tone: parsed.tone,
-      personalizationScore: parsed.personalizationScore,
+      content: this.buildCoverLetterContent(template),
+      template,
+      tone: template.tone,
+      personalizationScore: this.calculatePersonalizationScore(template),
       companyAlignment: analysis.companyAlignment || 75,
-      suggestions: parsed.suggestions,
+      suggestions: this.generateSuggestions(template),
+      evidence: analysis.evidence,
     };
   }
 
@@ -218,6 +464,11 @@ export class EnhancedAICoverLetterGenerator {
       request.jobDescription
     );
 
+    const evidence =
+      jobAnalysis && request.userId
+        ? await this.ragSystem.mapRequirementsToEvidence(request.userId, jobAnalysis)
+        : undefined;
+
     return {
       companyCulture,
       jobDescription: request.jobDescription,
@@ -226,92 +477,88 @@ export class EnhancedAICoverLetterGenerator {
       toneMatch: this.calculateToneMatch(request.tone || 'professional', companyCulture.tone),
       personalizationLevel: 'high',
       jobAnalysis,
+      evidence,
       companyAlignment: this.calculateCompanyAlignment(companyCulture, request),
     };
   }
 
   /**
-   * Build parallel prompts for section-by-section generation
+   * Render a cover letter prompt with the version pinned on the request, its experiment arm or the latest
    */
-  private buildParallelPrompts(
-    request: CoverLetterGenerationRequest,
-    analysis: CoverLetterAnalysis
-  ) {
-    const baseContext = this.buildBaseContext(request, analysis);
-
-    return [
-      // Introduction prompt
-      {
-        systemPrompt:
-          'Write a compelling cover letter introduction that immediately captures attention and shows understanding of the role and company.',
-        userPrompt: `${baseContext}\n\nWrite an introduction paragraph (3-4 sentences) that:\n1. States the position and how you found it\n2. Shows enthusiasm for the company/role\n3. Briefly mentions your most relevant qualification\n4. Hooks the reader to continue reading`,
-      },
-      // Body prompt
-      {
-        systemPrompt:
-          'Write the main body paragraphs of a cover letter, focusing on relevant experience, achievements, and fit for the role.',
-        userPrompt: `${baseContext}\n\nWrite 2-3 body paragraphs that:\n1. Connect your experience to the job requirements\n2. Include specific achievements with metrics where possible\n3. Demonstrate why you're the right fit\n4. Show understanding of the company's needs`,
-      },
-      // Closing prompt
-      {
-        systemPrompt:
-          'Write a strong cover letter closing that reinforces your interest and calls for next steps.',
-        userPrompt: `${baseContext}\n\nWrite a closing paragraph that:\n1. Reiterates your enthusiasm\n2. Summarizes why you're a great fit\n3. References next steps in the process\n4. Uses confident but professional language`,
-      },
-      // Call to action prompt
-      {
-        systemPrompt: 'Write a professional sign-off and contact information for a cover letter.',
-        userPrompt: `${baseContext}\n\nWrite a professional sign-off including:\n1. Appropriate closing (Sincerely, Best regards, etc.)\n2. Your full name\n3. Contact information\n4. Any relevant links (LinkedIn, portfolio)`,
-      },
-    ];
+  private renderPrompt<S extends PromptVariableSpecs>(
+    definition: PromptDefinition<S>,
+    variables: PromptVariables<S>,
+    request: CoverLetterGenerationRequest
+  ): Promise<RenderedPrompt> {
+    return this.prompts.render(definition, variables, {
+      version: request.promptVersions?.[definition.name],
+      subject: request.userId,
+    });
   }
 
   /**
-   * Build base context for prompts
+   * Job and candidate details shared by every cover letter prompt
    */
-  private buildBaseContext(
+  private buildPromptVariables(
     request: CoverLetterGenerationRequest,
     analysis: CoverLetterAnalysis
-  ): string {
-    let context = `POSITION: ${this.extractJobTitle(request.jobDescription)}\n`;
-    context += `COMPANY: ${request.companyInfo?.name || 'the company'}\n`;
-    context += `INDUSTRY: ${analysis.companyCulture.industry}\n`;
-    context += `COMPANY CULTURE: ${analysis.companyCulture.tone} tone, values: ${analysis.companyCulture.values.join(', ')}\n\n`;
-
-    if (analysis.jobAnalysis) {
-      context += `JOB REQUIREMENTS:\n`;
-      context += `- Must-have skills: ${analysis.jobAnalysis.mustHaveSkills.join(', ')}\n`;
-      context += `- Key responsibilities: ${analysis.jobAnalysis.responsibilities.slice(0, 3).join('; ')}\n`;
-      context += `- Career level: ${analysis.jobAnalysis.careerLevel}\n\n`;
-    }
+  ): PromptVariables<typeof CONTEXT_VARIABLES> {
+    const { companyCulture, jobAnalysis } = analysis;
 
-    context += `CANDIDATE PROFILE:\n`;
-    context += `- Current role: ${request.userProfile.currentPosition || 'Not specified'}\n`;
-    context += `- Years of experience: ${request.userProfile.yearsExperience || 'Not specified'}\n`;
-    context += `- Key skills: ${analysis.userSkills.join(', ')}\n`;
-    context += `- Target tone: ${request.tone || 'professional'}\n\n`;
-
-    context += `JOB DESCRIPTION:\n${request.jobDescription}\n\n`;
-
-    return context;
+    return {
+      position: this.extractJobTitle(request.jobDescription),
+      company: request.companyInfo?.name || 'the company',
+      industry: companyCulture.industry,
+      cultureTone: companyCulture.tone,
+      cultureValues: companyCulture.values,
+      ...(jobAnalysis && {
+        mustHaveSkills: jobAnalysis.mustHaveSkills,
+        responsibilities: jobAnalysis.responsibilities.slice(0, 3).join('; '),
+        careerLevel: jobAnalysis.careerLevel,
+      }),
+      currentPosition: request.userProfile.currentPosition || 'Not specified',
+      yearsExperience: String(request.userProfile.yearsExperience || 'Not specified'),
+      skills: analysis.userSkills,
+      tone: request.tone || 'professional',
+    };
   }
 
   /**
-   * Build sequential prompt for complete letter generation
+   * Long inputs passed as context so the LLM layer can fit them to the model's window.
+   * Company background goes first, then the job description is summarized; the resume and the
+   * evidence retrieved for each requirement are kept longest.
    */
-  private buildSequentialPrompt(
+  private buildContextSections(
     request: CoverLetterGenerationRequest,
     analysis: CoverLetterAnalysis
-  ): string {
-    const context = this.buildBaseContext(request, analysis);
-
-    return `${context}\n\nWrite a complete cover letter following this structure:
-1. Introduction paragraph (3-4 sentences)
-2. 2-3 body paragraphs highlighting relevant experience and achievements
-3. Closing paragraph with call to action
-4. Professional sign-off
-
-Make it ${request.length || 'medium'} length and use a ${request.tone || 'professional'} tone.`;
+  ): ContextSection[] {
+    return [
+      {
+        name: 'Job description',
+        content: request.jobDescription,
+        priority: 1,
+        overflow: 'summarize',
+      },
+      { name: 'Candidate resume', content: request.resume, priority: 2 },
+      ...(analysis.evidence?.length
+        ? [
+            {
+              name: 'Candidate experience matching each job requirement',
+              content: formatEvidence(analysis.evidence),
+              priority: 2,
+            },
+          ]
+        : []),
+      ...(request.companyInfo?.about
+        ? [
+            {
+              name: 'About the company',
+              content: request.companyInfo.about,
+              overflow: 'drop' as const,
+            },
+          ]
+        : []),
+    ];
   }
 
   /**
@@ -323,59 +570,6 @@ Make it ${request.length || 'medium'} length and use a ${request.tone || 'profes
     return paragraphs.slice(0, 3); // Limit to 3 paragraphs
   }
 
-  /**
-   * Parse generated content into template structure
-   */
-  private parseGeneratedContent(content: string) {
-    const lines = content.split('\n');
-    let introduction = '';
-    let bodyParagraphs: string[] = [];
-    let closing = '';
-    let callToAction = '';
-
-    // Simple parsing logic - in production, use more sophisticated parsing
-    let currentSection = 'intro';
-
-    for (const line of lines) {
-      if (line.toLowerCase().includes('dear') || line.toLowerCase().includes('introduction')) {
-        currentSection = 'intro';
-        if (introduction) introduction += ' ';
-        introduction += line;
-      } else if (
-        line.toLowerCase().includes('sincerely') ||
-        line.toLowerCase().includes('best regards')
-      ) {
-        currentSection = 'closing';
-        closing = line;
-      } else if (currentSection === 'intro' && introduction.length > 100) {
-        currentSection = 'body';
-        bodyParagraphs.push(line);
-      } else if (currentSection === 'body') {
-        if (bodyParagraphs.length < 3) {
-          bodyParagraphs.push(line);
-        } else {
-          closing += line + ' ';
-        }
-      }
-    }
-
-    const template: CoverLetterTemplate = {
-      introduction: introduction || 'Dear Hiring Manager,',
-      bodyParagraphs: bodyParagraphs.filter((p) => p.trim().length > 0),
-      closing: closing || 'I look forward to discussing how my skills can contribute to your team.',
-      callToAction: callToAction || 'Sincerely,\n[Your Name]',
-      tone: 'professional',
-      personalizationNotes: [],
-    };
-
-    return {
-      template,
-      tone: 'professional',
-      personalizationScore: this.calculatePersonalizationScore(template),
-      suggestions: this.generateSuggestions(template),
-    };
-  }
-
   /**
    * Analyze company culture from website and job description
    */
@@ -468,6 +662,13 @@ Make it ${request.length || 'medium'} length and use a ${request.tone || 'profes
       notes.push(`Incorporated ${analysis.jobAnalysis.mustHaveSkills.length} must-have skills`);
     }
 
+    if (analysis.evidence?.length) {
+      const backed = analysis.evidence.filter((e) => e.evidence.length > 0).length;
+      notes.push(
+        `Backed ${backed} of ${analysis.evidence.length} job requirements with past experience`
+      );
+    }
+
     if (analysis.companyCulture.values.length > 0) {
       notes.push(
         `Aligned with company values: ${analysis.companyCulture.values.slice(0, 2).join(', ')}`
@@ -684,10 +885,4 @@ Make it ${request.length || 'medium'} length and use a ${request.tone || 'profes
 
     return words;
   }
-
-  private async getJobDescriptionFromRAG(): Promise<JobDescription | null> {
-    // This would integrate with the RAG system to retrieve job descriptions
-    // For now, return null - would be implemented with actual RAG integration
-    return null;
-  }
 }
@@ -4,8 +4,210 @@
  * Follows AIHawk patterns for parallel generation and structured prompting
  */
 
-import { LLMAbstractionLayer } from './llm-abstraction.service';
-import { RAGSystem } from './rag-system.service';
+import { ContextSection, LLMAbstractionLayer, LLMResponse } from './llm-abstraction.service';
+import {
+  PromptDefinition,
+  PromptRegistry,
+  PromptRunRef,
+  PromptVariableSpecs,
+  PromptVariables,
+  definePrompt,
+  getPromptRegistry,
+} from './promptRegistry.service';
+import {
+  JobAnalysis,
+  JobDescription,
+  RAGSystem,
+  RequirementEvidence,
+  formatEvidence,
+} from './rag-system.service';
+
+/**
+ * Prompts for each resume generation step, registered as resume.*
+ */
+export const RESUME_PROMPTS = {
+  analyze: definePrompt({
+    name: 'resume.analyze',
+    description: 'Extract skills, experience, education and summary from a resume as JSON',
+    variables: { resume: { type: 'string' } },
+    versions: [
+      {
+        version: 1,
+        user: `Analyze this resume and extract key information:
+
+{{resume}}
+
+Return a JSON object with:
+- skills: array of technical and soft skills
+- experience: array of key achievements and responsibilities
+- education: array of educational qualifications
+- summary: brief professional summary
+
+Format: JSON only, no additional text.`,
+        temperature: 0.1,
+        maxTokens: 1000,
+      },
+    ],
+  }),
+  summary: definePrompt({
+    name: 'resume.summary',
+    description: 'Professional summary tailored to the job',
+    variables: {
+      requirements: { type: 'string[]' },
+      responsibilities: { type: 'string[]' },
+      company: { type: 'string' },
+      industry: { type: 'string' },
+      currentPosition: { type: 'string' },
+      yearsExperience: { type: 'number' },
+      originalSummary: { type: 'string' },
+      tone: { type: 'string' },
+      length: { type: 'string', description: 'How long, e.g. "brief and impactful"' },
+    },
+    versions: [
+      {
+        version: 1,
+        user: `Generate a compelling professional summary for a resume tailored to this job:
+
+JOB REQUIREMENTS:
+{{requirements}}
+
+JOB RESPONSIBILITIES:
+{{responsibilities}}
+
+COMPANY: {{company}} ({{industry}})
+CANDIDATE PROFILE: {{currentPosition}} with {{yearsExperience}} years experience
+
+ORIGINAL SUMMARY:
+{{originalSummary}}
+
+INSTRUCTIONS:
+- Keep it 3-4 sentences
+- Highlight relevant experience and skills that match the job
+- Show enthusiasm for the company/industry
+- Use {{tone}} tone
+- Make it {{length}}
+
+Generate only the summary paragraph, no additional text.`,
+        temperature: 0.7,
+        maxTokens: 300,
+      },
+    ],
+  }),
+  experience: definePrompt({
+    name: 'resume.experience',
+    description: 'Experience section rewritten for the job',
+    variables: {
+      requirements: { type: 'string[]' },
+      experience: { type: 'string[]' },
+      industry: { type: 'string' },
+      length: { type: 'string', description: 'Which positions to keep, e.g. "2-3 key positions"' },
+    },
+    versions: [
+      {
+        version: 1,
+        user: `Rewrite the experience section to better match this job opportunity:
+
+JOB REQUIREMENTS:
+{{requirements}}
+
+ORIGINAL EXPERIENCE:
+{{experience|lines}}
+
+INSTRUCTIONS:
+- Focus on achievements most relevant to the job
+- Quantify impact where possible (metrics, percentages, scale)
+- Use action verbs (Led, Developed, Implemented, etc.)
+- Keep most relevant experiences, condense others
+- Tailor language to match industry: {{industry}}
+- Length: {{length}}
+
+Format as professional experience section with job titles, companies, dates, and bullet points.`,
+        temperature: 0.6,
+        maxTokens: 800,
+      },
+    ],
+  }),
+  skills: definePrompt({
+    name: 'resume.skills',
+    description: 'Skills section prioritized for the job keywords',
+    variables: {
+      keywords: { type: 'string[]' },
+      skills: { type: 'string[]' },
+      length: { type: 'string', description: 'How many skills, e.g. "brief (5-7 skills)"' },
+      atsOptimized: { type: 'boolean', optional: true },
+    },
+    versions: [
+      {
+        version: 1,
+        user: `Optimize the skills section for this job:
+
+JOB KEYWORDS:
+{{keywords}}
+
+ORIGINAL SKILLS:
+{{skills}}
+
+INSTRUCTIONS:
+- Prioritize skills that match job requirements
+- Include both technical and soft skills relevant to the role
+- Group related skills (e.g., "Programming: JavaScript, Python, React")
+- Add missing skills that are mentioned in job description but candidate has equivalent experience
+- Keep section {{length}}
+{{#if atsOptimized}}- Optimize for ATS by using exact keyword matches where possible
+{{/if}}
+Format as a professional skills section.`,
+        temperature: 0.4,
+        maxTokens: 500,
+      },
+    ],
+  }),
+  education: definePrompt({
+    name: 'resume.education',
+    description: 'Education section formatted for the application',
+    variables: {
+      education: { type: 'string[]' },
+      length: { type: 'string', description: 'How much detail, e.g. "brief"' },
+    },
+    versions: [
+      {
+        version: 1,
+        user: `Format the education section professionally:
+
+ORIGINAL EDUCATION:
+{{education|lines}}
+
+INSTRUCTIONS:
+- Include degree, institution, graduation date
+- Add relevant coursework or honors if they strengthen the application
+- Keep it {{length}}
+- Only include education relevant to the field
+
+Format as a professional education section.`,
+        temperature: 0.3,
+        maxTokens: 400,
+      },
+    ],
+  }),
+};
+
+/** Wording each section prompt uses for the requested resume length */
+const LENGTH_GUIDANCE: Record<
+  'summary' | 'experience' | 'skills' | 'education',
+  Record<ResumeGenerationRequest['length'], string>
+> = {
+  summary: { concise: 'brief and impactful', standard: 'balanced', detailed: 'comprehensive' },
+  experience: {
+    concise: '2-3 key positions',
+    standard: '3-4 key positions',
+    detailed: 'all positions with details',
+  },
+  skills: {
+    concise: 'brief (5-7 skills)',
+    standard: 'balanced (8-12 skills)',
+    detailed: 'comprehensive',
+  },
+  education: { concise: 'brief', standard: 'standard', detailed: 'detailed with GPA/coursework' },
+};
 
 export interface ResumeGenerationRequest {
   originalResume: string;
@@ -27,6 +229,8 @@ export interface ResumeGenerationRequest {
   length: 'concise' | 'standard' | 'detailed';
   parallel: boolean; // Enable parallel section generation
   atsOptimized?: boolean; // Optimize for ATS parsing
+  userId?: string; // Cost attribution, prompt experiment assignment and the user's indexed experience
+  promptVersions?: Record<string, number>; // Pin prompt versions, e.g. { 'resume.summary': 2 }
 }
 
 export interface ResumeGenerationResult {
@@ -43,10 +247,14 @@ export interface ResumeGenerationResult {
     sectionsGenerated: number;
     totalCost: number;
     modelsUsed: string[];
+    /** Prompt versions used; score a run to feed its version's metrics */
+    prompts: PromptRunRef[];
   };
   personalizationScore: number; // 0-100
   atsScore?: number; // ATS compatibility score
   suggestions: string[];
+  /** The user's indexed experience backing each job requirement; empty without a userId */
+  evidence: RequirementEvidence[];
   template: {
     personalizationNotes: string[];
     keywordMatches: string[];
@@ -57,22 +265,44 @@ export interface ResumeGenerationResult {
 export class AIResumeGenerator {
   constructor(
     private llmService: LLMAbstractionLayer,
-    private ragSystem: RAGSystem
-  ) {}
+    private ragSystem: RAGSystem,
+    private prompts: PromptRegistry = getPromptRegistry()
+  ) {
+    this.prompts.register(...Object.values(RESUME_PROMPTS));
+  }
 
   async generateResume(request: ResumeGenerationRequest): Promise<ResumeGenerationResult> {
     const startTime = Date.now();
+    const promptRuns: PromptRunRef[] = [];
 
     // Analyze job description using RAG system
-    const jobAnalysis = await this.ragSystem.analyzeJobDescription(request.jobDescription);
+    const jobAnalysis = await this.ragSystem.analyzeJobDescription(this.toJobDescription(request));
+    const keywords = jobKeywords(jobAnalysis);
+
+    // The user's own bullets and projects that back each requirement
+    const evidence = request.userId
+      ? await this.ragSystem.mapRequirementsToEvidence(request.userId, jobAnalysis)
+      : [];
 
     // Extract key information from original resume
-    const resumeAnalysis = await this.analyzeResume(request.originalResume);
+    const resumeAnalysis = await this.analyzeResume(request, promptRuns);
 
     // Generate sections in parallel or sequentially
     const sections = request.parallel
-      ? await this.generateSectionsParallel(request, jobAnalysis, resumeAnalysis)
-      : await this.generateSectionsSequential(request, jobAnalysis, resumeAnalysis);
+      ? await this.generateSectionsParallel(
+          request,
+          jobAnalysis,
+          resumeAnalysis,
+          evidence,
+          promptRuns
+        )
+      : await this.generateSectionsSequential(
+          request,
+          jobAnalysis,
+          resumeAnalysis,
+          evidence,
+          promptRuns
+        );
 
     // Calculate personalization score
     const personalizationScore = this.calculatePersonalizationScore(
@@ -82,9 +312,7 @@ export class AIResumeGenerator {
     );
 
     // Calculate ATS score if requested
-    const atsScore = request.atsOptimized
-      ? this.calculateATSScore(sections, jobAnalysis.keywords)
-      : undefined;
+    const atsScore = request.atsOptimized ? this.calculateATSScore(sections, keywords) : undefined;
 
     // Generate final resume content
     const content = this.compileResume(sections, request);
@@ -92,7 +320,7 @@ export class AIResumeGenerator {
     // Generate suggestions for improvement
     const suggestions = this.generateSuggestions(
       sections,
-      jobAnalysis,
+      evidence,
       personalizationScore,
       atsScore
     );
@@ -107,13 +335,15 @@ export class AIResumeGenerator {
         sectionsGenerated: Object.keys(sections).length,
         totalCost: 0, // Will be calculated by LLM service
         modelsUsed: ['gpt-4'], // Will be populated by LLM service
+        prompts: promptRuns,
       },
       personalizationScore,
       atsScore,
       suggestions,
+      evidence,
       template: {
         personalizationNotes: this.generatePersonalizationNotes(request, jobAnalysis),
-        keywordMatches: jobAnalysis.keywords.filter((keyword) =>
+        keywordMatches: keywords.filter((keyword) =>
           content.toLowerCase().includes(keyword.toLowerCase())
         ),
         industryAlignment: this.generateIndustryAlignment(
@@ -124,34 +354,28 @@ export class AIResumeGenerator {
     };
   }
 
-  private async analyzeResume(resumeText: string): Promise<{
+  private async analyzeResume(
+    request: ResumeGenerationRequest,
+    promptRuns: PromptRunRef[]
+  ): Promise<{
     skills: string[];
     experience: string[];
     education: string[];
     summary: string;
   }> {
-    // Use LLM to analyze the original resume
-    const analysisPrompt = `
-Analyze this resume and extract key information:
-
-${resumeText}
+    const resumeText = request.originalResume;
 
-Return a JSON object with:
-- skills: array of technical and soft skills
-- experience: array of key achievements and responsibilities
-- education: array of educational qualifications
-- summary: brief professional summary
-
-Format: JSON only, no additional text.
-    `;
-
-    const response = await this.llmService.generateText(analysisPrompt, {
-      temperature: 0.1,
-      maxTokens: 1000,
-    });
+    // Use LLM to analyze the original resume
+    const content = await this.runPrompt(
+      RESUME_PROMPTS.analyze,
+      { resume: resumeText },
+      request,
+      promptRuns,
+      { succeeded: (response) => isJson(response.content) }
+    );
 
     try {
-      return JSON.parse(response.content.trim());
+      return JSON.parse(content);
     } catch (error) {
       // Fallback analysis
       return {
@@ -166,13 +390,15 @@ Format: JSON only, no additional text.
   private async generateSectionsParallel(
     request: ResumeGenerationRequest,
     jobAnalysis: any,
-    resumeAnalysis: any
+    resumeAnalysis: any,
+    evidence: RequirementEvidence[],
+    promptRuns: PromptRunRef[]
   ): Promise<Record<string, string>> {
     const sectionPromises = [
-      this.generateSummarySection(request, jobAnalysis, resumeAnalysis),
-      this.generateExperienceSection(request, jobAnalysis, resumeAnalysis),
-      this.generateSkillsSection(request, jobAnalysis, resumeAnalysis),
-      this.generateEducationSection(request, jobAnalysis, resumeAnalysis),
+      this.generateSummarySection(request, jobAnalysis, resumeAnalysis, evidence, promptRuns),
+      this.generateExperienceSection(request, jobAnalysis, resumeAnalysis, evidence, promptRuns),
+      this.generateSkillsSection(request, jobAnalysis, resumeAnalysis, promptRuns),
+      this.generateEducationSection(request, jobAnalysis, resumeAnalysis, promptRuns),
     ];
 
     const [summary, experience, skills, education] = await Promise.all(sectionPromises);
@@ -188,18 +414,38 @@ Format: JSON only, no additional text.
   private async generateSectionsSequential(
     request: ResumeGenerationRequest,
     jobAnalysis: any,
-    resumeAnalysis: any
+    resumeAnalysis: any,
+    evidence: RequirementEvidence[],
+    promptRuns: PromptRunRef[]
   ): Promise<Record<string, string>> {
     const sections: Record<string, string> = {};
 
-    sections.summary = await this.generateSummarySection(request, jobAnalysis, resumeAnalysis);
+    sections.summary = await this.generateSummarySection(
+      request,
+      jobAnalysis,
+      resumeAnalysis,
+      evidence,
+      promptRuns
+    );
     sections.experience = await this.generateExperienceSection(
       request,
       jobAnalysis,
-      resumeAnalysis
+      resumeAnalysis,
+      evidence,
+      promptRuns
+    );
+    sections.skills = await this.generateSkillsSection(
+      request,
+      jobAnalysis,
+      resumeAnalysis,
+      promptRuns
+    );
+    sections.education = await this.generateEducationSection(
+      request,
+      jobAnalysis,
+      resumeAnalysis,
+      promptRuns
     );
-    sections.skills = await this.generateSkillsSection(request, jobAnalysis, resumeAnalysis);
-    sections.education = await this.generateEducationSection(request, jobAnalysis, resumeAnalysis);
 
     return sections;
   }
@@ -207,132 +453,119 @@ Format: JSON only, no additional text.
   private async generateSummarySection(
     request: ResumeGenerationRequest,
     jobAnalysis: any,
-    resumeAnalysis: any
+    resumeAnalysis: any,
+    evidence: RequirementEvidence[],
+    promptRuns: PromptRunRef[]
   ): Promise<string> {
-    const prompt = `
-Generate a compelling professional summary for a resume tailored to this job:
-
-JOB REQUIREMENTS:
-${jobAnalysis.requirements.join(', ')}
-
-JOB RESPONSIBILITIES:
-${jobAnalysis.responsibilities.join(', ')}
-
-COMPANY: ${request.companyInfo.name} (${request.companyInfo.industry})
-CANDIDATE PROFILE: ${request.userProfile.currentPosition} with ${request.userProfile.yearsExperience} years experience
-
-ORIGINAL SUMMARY:
-${resumeAnalysis.summary}
-
-INSTRUCTIONS:
-- Keep it 3-4 sentences
-- Highlight relevant experience and skills that match the job
-- Show enthusiasm for the company/industry
-- Use ${request.tone} tone
-- Make it ${request.length === 'concise' ? 'brief and impactful' : request.length === 'detailed' ? 'comprehensive' : 'balanced'}
-
-Generate only the summary paragraph, no additional text.
-    `;
-
-    const response = await this.llmService.generateText(prompt, {
-      temperature: 0.7,
-      maxTokens: 300,
-    });
-
-    return response.content.trim();
+    return this.runPrompt(
+      RESUME_PROMPTS.summary,
+      {
+        requirements: jobAnalysis.keyRequirements,
+        responsibilities: jobAnalysis.responsibilities,
+        company: request.companyInfo.name,
+        industry: request.companyInfo.industry,
+        currentPosition: request.userProfile.currentPosition,
+        yearsExperience: request.userProfile.yearsExperience,
+        originalSummary: resumeAnalysis.summary,
+        tone: request.tone,
+        length: LENGTH_GUIDANCE.summary[request.length],
+      },
+      request,
+      promptRuns,
+      { context: evidenceContext(evidence) }
+    );
   }
 
   private async generateExperienceSection(
     request: ResumeGenerationRequest,
     jobAnalysis: any,
-    resumeAnalysis: any
+    resumeAnalysis: any,
+    evidence: RequirementEvidence[],
+    promptRuns: PromptRunRef[]
   ): Promise<string> {
-    const prompt = `
-Rewrite the experience section to better match this job opportunity:
-
-JOB REQUIREMENTS:
-${jobAnalysis.requirements.join(', ')}
-
-ORIGINAL EXPERIENCE:
-${resumeAnalysis.experience.join('\n')}
-
-INSTRUCTIONS:
-- Focus on achievements most relevant to the job
-- Quantify impact where possible (metrics, percentages, scale)
-- Use action verbs (Led, Developed, Implemented, etc.)
-- Keep most relevant experiences, condense others
-- Tailor language to match industry: ${request.companyInfo.industry}
-- Length: ${request.length === 'concise' ? '2-3 key positions' : request.length === 'detailed' ? 'all positions with details' : '3-4 key positions'}
-
-Format as professional experience section with job titles, companies, dates, and bullet points.
-    `;
-
-    const response = await this.llmService.generateText(prompt, {
-      temperature: 0.6,
-      maxTokens: 800,
-    });
-
-    return response.content.trim();
+    return this.runPrompt(
+      RESUME_PROMPTS.experience,
+      {
+        requirements: jobAnalysis.keyRequirements,
+        experience: resumeAnalysis.experience,
+        industry: request.companyInfo.industry,
+        length: LENGTH_GUIDANCE.experience[request.length],
+      },
+      request,
+      promptRuns,
+      { context: evidenceContext(evidence) }
+    );
   }
 
   private async generateSkillsSection(
     request: ResumeGenerationRequest,
     jobAnalysis: any,
-    resumeAnalysis: any
+    resumeAnalysis: any,
+    promptRuns: PromptRunRef[]
   ): Promise<string> {
-    const prompt = `
-Optimize the skills section for this job:
-
-JOB KEYWORDS:
-${jobAnalysis.keywords.join(', ')}
-
-ORIGINAL SKILLS:
-${resumeAnalysis.skills.join(', ')}
-
-INSTRUCTIONS:
-- Prioritize skills that match job requirements
-- Include both technical and soft skills relevant to the role
-- Group related skills (e.g., "Programming: JavaScript, Python, React")
-- Add missing skills that are mentioned in job description but candidate has equivalent experience
-- Keep section ${request.length === 'concise' ? 'brief (5-7 skills)' : request.length === 'detailed' ? 'comprehensive' : 'balanced (8-12 skills)'}
-- ${request.atsOptimized ? 'Optimize for ATS by using exact keyword matches where possible' : ''}
-
-Format as a professional skills section.
-    `;
-
-    const response = await this.llmService.generateText(prompt, {
-      temperature: 0.4,
-      maxTokens: 500,
-    });
-
-    return response.content.trim();
+    return this.runPrompt(
+      RESUME_PROMPTS.skills,
+      {
+        keywords: jobKeywords(jobAnalysis),
+        skills: resumeAnalysis.skills,
+        length: LENGTH_GUIDANCE.skills[request.length],
+        atsOptimized: request.atsOptimized,
+      },
+      request,
+      promptRuns
+    );
   }
 
   private async generateEducationSection(
     request: ResumeGenerationRequest,
     jobAnalysis: any,
-    resumeAnalysis: any
+    resumeAnalysis: any,
+    promptRuns: PromptRunRef[]
   ): Promise<string> {
-    const prompt = `
-Format the education section professionally:
-
-ORIGINAL EDUCATION:
-${resumeAnalysis.education.join('\n')}
-
-INSTRUCTIONS:
-- Include degree, institution, graduation date
-- Add relevant coursework or honors if they strengthen the application
-- Keep it ${request.length === 'concise' ? 'brief' : request.length === 'detailed' ? 'detailed with GPA/coursework' : 'standard'}
-- Only include education relevant to the field
-
-Format as a professional education section.
-    `;
+    return this.runPrompt(
+      RESUME_PROMPTS.education,
+      {
+        education: resumeAnalysis.education,
+        length: LENGTH_GUIDANCE.education[request.length],
+      },
+      request,
+      promptRuns
+    );
+  }
 
-    const response = await this.llmService.generateText(prompt, {
-      temperature: 0.3,
-      maxTokens: 400,
+  /**
+   * Render a resume prompt (pinned version, experiment arm or latest), run it and record the run
+   */
+  private async runPrompt<S extends PromptVariableSpecs>(
+    definition: PromptDefinition<S>,
+    variables: PromptVariables<S>,
+    request: ResumeGenerationRequest,
+    promptRuns: PromptRunRef[],
+    options: { succeeded?: (response: LLMResponse) => boolean; context?: ContextSection[] } = {}
+  ): Promise<string> {
+    const prompt = await this.prompts.render(definition, variables, {
+      version: request.promptVersions?.[definition.name],
+      subject: request.userId,
     });
 
+    const { response, runId } = await this.prompts.track(
+      prompt,
+      () =>
+        this.llmService.generate({
+          messages: [
+            ...(prompt.system ? [{ role: 'system' as const, content: prompt.system }] : []),
+            { role: 'user', content: prompt.user },
+          ],
+          temperature: prompt.temperature,
+          maxTokens: prompt.maxTokens,
+          context: options.context,
+          taskType: 'resume',
+          userId: request.userId,
+        }),
+      { userId: request.userId, succeeded: options.succeeded }
+    );
+    promptRuns.push({ name: prompt.name, version: prompt.version, runId });
+
     return response.content.trim();
   }
 
@@ -345,7 +578,7 @@ Format as a professional education section.
 
     // Check keyword matches
     const content = Object.values(sections).join(' ').toLowerCase();
-    const keywordMatches = jobAnalysis.keywords.filter((keyword: string) =>
+    const keywordMatches = jobKeywords(jobAnalysis).filter((keyword) =>
       content.includes(keyword.toLowerCase())
     ).length;
 
@@ -422,12 +655,19 @@ ${sections.education}
 
   private generateSuggestions(
     sections: Record<string, string>,
-    jobAnalysis: any,
+    evidence: RequirementEvidence[],
     personalizationScore: number,
     atsScore?: number
   ): string[] {
     const suggestions: string[] = [];
 
+    const unsupported = evidence.filter((e) => e.evidence.length === 0).map((e) => e.requirement);
+    if (unsupported.length > 0) {
+      suggestions.push(
+        `Add experience that shows: ${unsupported.slice(0, 3).join('; ')} (nothing indexed supports it yet)`
+      );
+    }
+
     if (personalizationScore < 70) {
       suggestions.push('Add more specific examples that directly relate to the job requirements');
       suggestions.push('Include metrics and quantifiable achievements to strengthen your case');
@@ -456,7 +696,7 @@ ${sections.education}
     notes.push(
       `Tailored for ${request.companyInfo.name} in the ${request.companyInfo.industry} industry`
     );
-    notes.push(`Emphasized ${jobAnalysis.requirements.slice(0, 3).join(', ')} skills`);
+    notes.push(`Emphasized ${jobAnalysis.keyRequirements.slice(0, 3).join(', ')} skills`);
     notes.push(
       `Highlighted experience relevant to ${jobAnalysis.responsibilities[0] || 'key responsibilities'}`
     );
@@ -474,6 +714,22 @@ ${sections.education}
     return alignments;
   }
 
+  /**
+   * The pasted job description in the form the RAG analysis takes
+   */
+  private toJobDescription(request: ResumeGenerationRequest): JobDescription {
+    return {
+      id: 'pasted',
+      title: request.jobDescription.trim().split('\n')[0],
+      company: request.companyInfo.name,
+      content: request.jobDescription,
+      requirements: [],
+      responsibilities: [],
+      skills: [],
+      metadata: {},
+    };
+  }
+
   // Fallback extraction methods
   private extractSkillsFromText(text: string): string[] {
     const skillPatterns = [
@@ -536,3 +792,29 @@ ${sections.education}
     return 'Experienced software engineer with strong technical skills and proven track record.';
   }
 }
+
+function jobKeywords(analysis: JobAnalysis): string[] {
+  return [...analysis.mustHaveSkills, ...analysis.niceToHaveSkills];
+}
+
+/**
+ * Retrieved evidence as prompt context, so sections cite real accomplishments
+ */
+function evidenceContext(evidence: RequirementEvidence[]): ContextSection[] | undefined {
+  if (evidence.length === 0) return undefined;
+  return [
+    {
+      name: 'Candidate experience matching each job requirement',
+      content: formatEvidence(evidence),
+    },
+  ];
+}
+
+function isJson(text: string): boolean {
+  try {
+    JSON.parse(text.trim());
+    return true;
+  } catch {
+    return false;
+  }
+}
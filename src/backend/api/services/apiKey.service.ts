@@ -0,0 +1,251 @@
+/**
+ * API Key Service
+ * Issues, verifies and revokes API keys for the REST API
+ * Only a SHA-256 hash of each key is stored; the plaintext is returned once at issuance
+ */
+
+import crypto from 'crypto';
+import { DatabaseService, getDatabase } from './database.service';
+import { EventLogService, getEventLog } from './eventLog.service';
+
+export const API_KEY_SCOPES = [
+  'jobs:read',
+  'jobs:apply',
+  'applications:read',
+  'applications:write',
+  'connectors',
+  'documents:read',
+  'documents:write',
+  'ai',
+  'events:read',
+  'events:write',
+  'admin',
+] as const;
+
+export type ApiKeyScope = (typeof API_KEY_SCOPES)[number];
+
+export interface ApiKeyRecord {
+  id: string;
+  name: string;
+  prefix: string;
+  scopes: ApiKeyScope[];
+  createdAt: string;
+  expiresAt?: string;
+  lastUsedAt?: string;
+  revokedAt?: string;
+}
+
+export interface IssueApiKeyInput {
+  name: string;
+  scopes: ApiKeyScope[];
+  expiresAt?: string | Date;
+}
+
+export interface IssuedApiKey {
+  key: string;
+  record: ApiKeyRecord;
+}
+
+interface ApiKeyRow {
+  id: string;
+  name: string;
+  prefix: string;
+  key_hash: string;
+  scopes: string;
+  created_at: string;
+  expires_at: string | null;
+  last_used_at: string | null;
+  revoked_at: string | null;
+}
+
+const KEY_PREFIX = 'jsk';
+// Shorter than a generated secret (e.g. `openssl rand -base64 32`) is taken as hand-typed
+const MIN_BOOTSTRAP_KEY_LENGTH = 32;
+const PLACEHOLDER_PATTERN = /change_?this|change_?me|placeholder|your_/i;
+// Avoid rewriting the database file on every request just to bump last_used_at
+const LAST_USED_RESOLUTION_MS = 60 * 1000;
+
+export function isApiKeyScope(value: unknown): value is ApiKeyScope {
+  return API_KEY_SCOPES.includes(value as ApiKeyScope);
+}
+
+/**
+ * Throw if the bootstrap admin key is a placeholder or too short to be a generated secret.
+ * An unset key is fine: it only disables bootstrapping.
+ */
+export function assertSafeBootstrapKey(key: string | undefined): void {
+  if (!key) return;
+  if (PLACEHOLDER_PATTERN.test(key)) {
+    throw new Error('JOBSPRINT_BOOTSTRAP_API_KEY is still a placeholder; set a generated secret');
+  }
+  if (key.length < MIN_BOOTSTRAP_KEY_LENGTH) {
+    throw new Error(
+      `JOBSPRINT_BOOTSTRAP_API_KEY must be at least ${MIN_BOOTSTRAP_KEY_LENGTH} characters`
+    );
+  }
+}
+
+/**
+ * `admin` grants every scope
+ */
+export function hasScope(granted: ApiKeyScope[], required: ApiKeyScope): boolean {
+  return granted.includes('admin') || granted.includes(required);
+}
+
+function hashKey(key: string): string {
+  return crypto.createHash('sha256').update(key).digest('hex');
+}
+
+function safeEqual(a: string, b: string): boolean {
+  const bufA = Buffer.from(a);
+  const bufB = Buffer.from(b);
+  return bufA.length === bufB.length && crypto.timingSafeEqual(bufA, bufB);
+}
+
+export class ApiKeyService {
+  constructor(
+    private readonly db: DatabaseService = getDatabase(),
+    private readonly bootstrapKey: string | undefined = process.env.JOBSPRINT_BOOTSTRAP_API_KEY,
+    private readonly events: EventLogService | null = null
+  ) {}
+
+  async issue(input: IssueApiKeyInput): Promise<IssuedApiKey> {
+    if (!input.name?.trim()) {
+      throw new Error('API key name is required');
+    }
+    const invalid = input.scopes.filter((scope) => !isApiKeyScope(scope));
+    if (input.scopes.length === 0 || invalid.length > 0) {
+      throw new Error(`Invalid API key scopes: ${invalid.join(', ') || '(none)'}`);
+    }
+
+    const prefix = crypto.randomBytes(6).toString('hex');
+    const secret = crypto.randomBytes(32).toString('base64url');
+    const key = `${KEY_PREFIX}_${prefix}_${secret}`;
+
+    const record: ApiKeyRecord = {
+      id: crypto.randomUUID(),
+      name: input.name.trim(),
+      prefix,
+      scopes: [...new Set(input.scopes)],
+      createdAt: new Date().toISOString(),
+      expiresAt: input.expiresAt ? new Date(input.expiresAt).toISOString() : undefined,
+    };
+
+    await this.db.run(
+      `INSERT INTO api_keys (id, name, prefix, key_hash, scopes, created_at, expires_at)
+       VALUES (?, ?, ?, ?, ?, ?, ?)`,
+      [
+        record.id,
+        record.name,
+        record.prefix,
+        hashKey(key),
+        JSON.stringify(record.scopes),
+        record.createdAt,
+        record.expiresAt ?? null,
+      ]
+    );
+
+    await this.publish('api_key.issued', record);
+    return { key, record };
+  }
+
+  /**
+   * Resolve a presented key to its record, or null if unknown, revoked or expired
+   */
+  async verify(key: string): Promise<ApiKeyRecord | null> {
+    if (!key) return null;
+
+    if (this.bootstrapKey && safeEqual(key, this.bootstrapKey)) {
+      return {
+        id: 'bootstrap',
+        name: 'Bootstrap admin key',
+        prefix: 'bootstrap',
+        scopes: ['admin'],
+        createdAt: new Date(0).toISOString(),
+      };
+    }
+
+    const [keyPrefix, prefix] = key.split('_');
+    if (keyPrefix !== KEY_PREFIX || !prefix) return null;
+
+    const row = await this.db.queryOne<ApiKeyRow>('SELECT * FROM api_keys WHERE prefix = ?', [
+      prefix,
+    ]);
+    if (!row || !safeEqual(hashKey(key), row.key_hash)) return null;
+
+    const record = this.toRecord(row);
+    const now = Date.now();
+    if (record.revokedAt) return null;
+    if (record.expiresAt && new Date(record.expiresAt).getTime() <= now) return null;
+
+    if (
+      !record.lastUsedAt ||
+      now - new Date(record.lastUsedAt).getTime() > LAST_USED_RESOLUTION_MS
+    ) {
+      record.lastUsedAt = new Date(now).toISOString();
+      await this.db.run('UPDATE api_keys SET last_used_at = ? WHERE id = ?', [
+        record.lastUsedAt,
+        record.id,
+      ]);
+    }
+
+    return record;
+  }
+
+  async list(): Promise<ApiKeyRecord[]> {
+    const rows = await this.db.query<ApiKeyRow>('SELECT * FROM api_keys ORDER BY created_at DESC');
+    return rows.map((row) => this.toRecord(row));
+  }
+
+  async revoke(id: string): Promise<boolean> {
+    const { changes } = await this.db.run(
+      'UPDATE api_keys SET revoked_at = ? WHERE id = ? AND revoked_at IS NULL',
+      [new Date().toISOString(), id]
+    );
+    if (changes > 0) {
+      const row = await this.db.queryOne<ApiKeyRow>('SELECT * FROM api_keys WHERE id = ?', [id]);
+      if (row) await this.publish('api_key.revoked', this.toRecord(row));
+    }
+    return changes > 0;
+  }
+
+  private async publish(type: string, record: ApiKeyRecord): Promise<void> {
+    if (!this.events) return;
+    try {
+      await this.events.append({
+        type,
+        source: 'auth',
+        data: {
+          apiKeyId: record.id,
+          name: record.name,
+          prefix: record.prefix,
+          scopes: record.scopes,
+        },
+      });
+    } catch (e) {
+      console.warn('[ApiKeyService] event append failed:', (e as Error).message);
+    }
+  }
+
+  private toRecord(row: ApiKeyRow): ApiKeyRecord {
+    return {
+      id: row.id,
+      name: row.name,
+      prefix: row.prefix,
+      scopes: JSON.parse(row.scopes || '[]'),
+      createdAt: row.created_at,
+      expiresAt: row.expires_at ?? undefined,
+      lastUsedAt: row.last_used_at ?? undefined,
+      revokedAt: row.revoked_at ?? undefined,
+    };
+  }
+}
+
+let sharedService: ApiKeyService | null = null;
+
+export function getApiKeyService(): ApiKeyService {
+  if (!sharedService) {
+    sharedService = new ApiKeyService(getDatabase(), undefined, getEventLog());
+  }
+  return sharedService;
+}
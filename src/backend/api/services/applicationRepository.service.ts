@@ -0,0 +1,386 @@
+/**
+ * Application Repository
+ * Typed CRUD access to submitted job applications stored in the embedded database
+ * Supports status updates, filtering by platform/status/resume/date and pagination
+ */
+
+import fs from 'fs';
+import crypto from 'crypto';
+import { DatabaseService, getDatabase, selectRows } from './database.service';
+import { EventLogService, getEventLog } from './eventLog.service';
+
+export const APPLICATION_STATUSES = [
+  'pending',
+  'submitted',
+  'failed',
+  'interviewing',
+  'offered',
+  'rejected',
+  'withdrawn',
+] as const;
+
+export type ApplicationStatus = (typeof APPLICATION_STATUSES)[number];
+
+export interface ApplicationRecord {
+  id: string;
+  platform: string;
+  jobUrl: string;
+  jobId?: string;
+  jobTitle?: string;
+  company?: string;
+  resumeId?: string;
+  hasCoverLetter: boolean;
+  status: ApplicationStatus;
+  notes?: string;
+  metadata: Record<string, any>;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface CreateApplicationInput {
+  id?: string;
+  platform: string;
+  jobUrl: string;
+  jobId?: string;
+  jobTitle?: string;
+  company?: string;
+  resumeId?: string;
+  hasCoverLetter?: boolean;
+  status?: ApplicationStatus;
+  notes?: string;
+  metadata?: Record<string, any>;
+  createdAt?: string;
+}
+
+export type UpdateApplicationInput = Partial<
+  Pick<
+    ApplicationRecord,
+    'jobTitle' | 'company' | 'resumeId' | 'hasCoverLetter' | 'status' | 'notes' | 'metadata'
+  >
+>;
+
+export interface ApplicationFilter {
+  platform?: string | string[];
+  status?: ApplicationStatus | ApplicationStatus[];
+  /** The resume, or resume version, the application was sent with */
+  resumeId?: string | string[];
+  from?: string | Date;
+  to?: string | Date;
+}
+
+export interface PaginationOptions {
+  page?: number;
+  pageSize?: number;
+}
+
+export interface PaginatedResult<T> {
+  items: T[];
+  total: number;
+  page: number;
+  pageSize: number;
+  totalPages: number;
+}
+
+interface ApplicationRow {
+  id: string;
+  platform: string;
+  job_url: string;
+  job_id: string | null;
+  job_title: string | null;
+  company: string | null;
+  resume_id: string | null;
+  has_cover_letter: number;
+  status: string;
+  notes: string | null;
+  metadata: string;
+  created_at: string;
+  updated_at: string;
+}
+
+const DEFAULT_PAGE_SIZE = 20;
+const MAX_PAGE_SIZE = 100;
+
+export function isApplicationStatus(value: unknown): value is ApplicationStatus {
+  return APPLICATION_STATUSES.includes(value as ApplicationStatus);
+}
+
+export class ApplicationRepository {
+  constructor(
+    private readonly db: DatabaseService = getDatabase(),
+    private readonly events: EventLogService | null = null
+  ) {}
+
+  async create(input: CreateApplicationInput): Promise<ApplicationRecord> {
+    const now = new Date().toISOString();
+    const status = input.status || 'pending';
+    if (!isApplicationStatus(status)) {
+      throw new Error(`Invalid application status: ${status}`);
+    }
+
+    const record: ApplicationRecord = {
+      id: input.id || `${input.platform}_app_${crypto.randomUUID()}`,
+      platform: input.platform,
+      jobUrl: input.jobUrl,
+      jobId: input.jobId,
+      jobTitle: input.jobTitle,
+      company: input.company,
+      resumeId: input.resumeId,
+      hasCoverLetter: !!input.hasCoverLetter,
+      status,
+      notes: input.notes,
+      metadata: input.metadata || {},
+      createdAt: input.createdAt || now,
+      updatedAt: now,
+    };
+
+    await this.db.run(
+      `INSERT INTO applications (
+        id, platform, job_url, job_id, job_title, company, resume_id,
+        has_cover_letter, status, notes, metadata, created_at, updated_at
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+      [
+        record.id,
+        record.platform,
+        record.jobUrl,
+        record.jobId ?? null,
+        record.jobTitle ?? null,
+        record.company ?? null,
+        record.resumeId ?? null,
+        record.hasCoverLetter ? 1 : 0,
+        record.status,
+        record.notes ?? null,
+        JSON.stringify(record.metadata),
+        record.createdAt,
+        record.updatedAt,
+      ]
+    );
+
+    await this.publish('application.created', record);
+    return record;
+  }
+
+  async findById(id: string): Promise<ApplicationRecord | null> {
+    const row = await this.db.queryOne<ApplicationRow>('SELECT * FROM applications WHERE id = ?', [
+      id,
+    ]);
+    return row ? this.toRecord(row) : null;
+  }
+
+  async list(
+    filter: ApplicationFilter = {},
+    pagination: PaginationOptions = {}
+  ): Promise<PaginatedResult<ApplicationRecord>> {
+    const { where, params } = this.buildWhere(filter);
+    const pageSize = Math.min(
+      Math.max(Math.floor(pagination.pageSize || DEFAULT_PAGE_SIZE), 1),
+      MAX_PAGE_SIZE
+    );
+    const page = Math.max(Math.floor(pagination.page || 1), 1);
+
+    const countRow = await this.db.queryOne<{ total: number }>(
+      `SELECT COUNT(*) AS total FROM applications ${where}`,
+      params
+    );
+    const total = countRow?.total ?? 0;
+
+    const rows = await this.db.query<ApplicationRow>(
+      `SELECT * FROM applications ${where} ORDER BY created_at DESC, id DESC LIMIT ? OFFSET ?`,
+      [...params, pageSize, (page - 1) * pageSize]
+    );
+
+    return {
+      items: rows.map((row) => this.toRecord(row)),
+      total,
+      page,
+      pageSize,
+      totalPages: Math.ceil(total / pageSize),
+    };
+  }
+
+  async update(id: string, changes: UpdateApplicationInput): Promise<ApplicationRecord | null> {
+    if (changes.status !== undefined && !isApplicationStatus(changes.status)) {
+      throw new Error(`Invalid application status: ${changes.status}`);
+    }
+
+    // Read-modify-write inside one synchronous transaction so concurrent updates never interleave
+    const result = await this.db.transaction((db) => {
+      const [row] = selectRows<ApplicationRow>(db, 'SELECT * FROM applications WHERE id = ?', [id]);
+      if (!row) return null;
+
+      const existing = this.toRecord(row);
+      const updated: ApplicationRecord = {
+        ...existing,
+        ...changes,
+        metadata: changes.metadata
+          ? { ...existing.metadata, ...changes.metadata }
+          : existing.metadata,
+        updatedAt: new Date().toISOString(),
+      };
+
+      db.run(
+        `UPDATE applications SET
+          job_title = ?, company = ?, resume_id = ?, has_cover_letter = ?,
+          status = ?, notes = ?, metadata = ?, updated_at = ?
+        WHERE id = ?`,
+        [
+          updated.jobTitle ?? null,
+          updated.company ?? null,
+          updated.resumeId ?? null,
+          updated.hasCoverLetter ? 1 : 0,
+          updated.status,
+          updated.notes ?? null,
+          JSON.stringify(updated.metadata),
+          updated.updatedAt,
+          id,
+        ]
+      );
+
+      return { previous: existing, updated };
+    });
+    if (!result) return null;
+
+    const { previous, updated } = result;
+    if (previous.status !== updated.status) {
+      await this.publish('application.status_changed', updated, {
+        previousStatus: previous.status,
+      });
+    } else {
+      await this.publish('application.updated', updated);
+    }
+    return updated;
+  }
+
+  async updateStatus(
+    id: string,
+    status: ApplicationStatus,
+    notes?: string
+  ): Promise<ApplicationRecord | null> {
+    return this.update(id, notes === undefined ? { status } : { status, notes });
+  }
+
+  async delete(id: string): Promise<boolean> {
+    const existing = await this.findById(id);
+    if (!existing) return false;
+
+    const { changes } = await this.db.run('DELETE FROM applications WHERE id = ?', [id]);
+    if (changes > 0) await this.publish('application.deleted', existing);
+    return changes > 0;
+  }
+
+  /**
+   * One-time import of the legacy flat-file store (server_applications.json).
+   * The file is renamed afterwards so the import never runs twice.
+   */
+  async importLegacyFile(filePath: string): Promise<number> {
+    if (!fs.existsSync(filePath)) return 0;
+
+    const legacy: any[] = JSON.parse(fs.readFileSync(filePath, 'utf8') || '[]');
+    let imported = 0;
+
+    for (const entry of legacy) {
+      if (!entry?.submissionId || !entry.jobUrl) continue;
+      if (await this.findById(entry.submissionId)) continue;
+
+      await this.create({
+        id: entry.submissionId,
+        platform: String(entry.submissionId).split('_')[0] || 'unknown',
+        jobUrl: entry.jobUrl,
+        resumeId: entry.resumeId || undefined,
+        hasCoverLetter: !!entry.coverLetter,
+        status: entry.success ? 'submitted' : 'failed',
+        createdAt: entry.ts,
+      });
+      imported++;
+    }
+
+    fs.renameSync(filePath, `${filePath}.imported`);
+    return imported;
+  }
+
+  /**
+   * Append a change to the event log. The write has already committed, so a
+   * failure here is logged rather than surfaced to the caller.
+   */
+  private async publish(
+    type: string,
+    application: ApplicationRecord,
+    extra: Record<string, any> = {}
+  ): Promise<void> {
+    if (!this.events) return;
+    try {
+      await this.events.append({
+        type,
+        source: 'applications',
+        data: {
+          applicationId: application.id,
+          platform: application.platform,
+          status: application.status,
+          jobUrl: application.jobUrl,
+          jobTitle: application.jobTitle,
+          company: application.company,
+          ...extra,
+        },
+      });
+    } catch (e) {
+      console.warn('[ApplicationRepository] event append failed:', (e as Error).message);
+    }
+  }
+
+  private buildWhere(filter: ApplicationFilter): { where: string; params: (string | number)[] } {
+    const clauses: string[] = [];
+    const params: (string | number)[] = [];
+
+    const addIn = (column: string, value: string | string[] | undefined) => {
+      const values = (Array.isArray(value) ? value : value ? [value] : []).filter(Boolean);
+      if (values.length === 0) return;
+      clauses.push(`${column} IN (${values.map(() => '?').join(', ')})`);
+      params.push(...values);
+    };
+
+    addIn('platform', filter.platform);
+    addIn('status', filter.status);
+    addIn('resume_id', filter.resumeId);
+
+    if (filter.from) {
+      clauses.push('created_at >= ?');
+      params.push(new Date(filter.from).toISOString());
+    }
+
+    if (filter.to) {
+      clauses.push('created_at <= ?');
+      params.push(new Date(filter.to).toISOString());
+    }
+
+    return {
+      where: clauses.length > 0 ? `WHERE ${clauses.join(' AND ')}` : '',
+      params,
+    };
+  }
+
+  private toRecord(row: ApplicationRow): ApplicationRecord {
+    return {
+      id: row.id,
+      platform: row.platform,
+      jobUrl: row.job_url,
+      jobId: row.job_id ?? undefined,
+      jobTitle: row.job_title ?? undefined,
+      company: row.company ?? undefined,
+      resumeId: row.resume_id ?? undefined,
+      hasCoverLetter: row.has_cover_letter === 1,
+      status: row.status as ApplicationStatus,
+      notes: row.notes ?? undefined,
+      metadata: JSON.parse(row.metadata || '{}'),
+      createdAt: row.created_at,
+      updatedAt: row.updated_at,
+    };
+  }
+}
+
+let sharedRepository: ApplicationRepository | null = null;
+
+export function getApplicationRepository(): ApplicationRepository {
+  if (!sharedRepository) {
+    sharedRepository = new ApplicationRepository(getDatabase(), getEventLog());
+  }
+  return sharedRepository;
+}
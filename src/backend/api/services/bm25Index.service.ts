@@ -0,0 +1,121 @@
+/**
+ * BM25 Index
+ * Keyword (lexical) search over short texts with Okapi BM25 scoring
+ * Catches exact tool names, certifications and acronyms that embeddings blur together
+ */
+
+export interface Bm25Options {
+  /** Term frequency saturation */
+  k1?: number;
+  /** Document length normalization, 0 (none) to 1 (full) */
+  b?: number;
+}
+
+export interface Bm25Match {
+  id: string;
+  score: number;
+  /** Query terms found in the text */
+  terms: string[];
+}
+
+const STOPWORDS = new Set(
+  (
+    'a an and are as at be by for from has have in is it its of on or that the their this to ' +
+    'was were will with you your our we'
+  ).split(' ')
+);
+
+/**
+ * Lowercased words, keeping the symbols of names like C++, C#, Node.js and CI/CD parts
+ */
+export function tokenize(text: string): string[] {
+  return text
+    .toLowerCase()
+    .split(/[^a-z0-9+#.]+/)
+    .map((token) => token.replace(/^\.+|\.+$/g, ''))
+    .filter((token) => token.length > 0 && !STOPWORDS.has(token));
+}
+
+export class Bm25Index {
+  private readonly k1: number;
+  private readonly b: number;
+  /** term -> document id -> occurrences */
+  private postings = new Map<string, Map<string, number>>();
+  /** document id -> token count and distinct terms */
+  private documents = new Map<string, { length: number; terms: string[] }>();
+  private totalLength = 0;
+
+  constructor(options: Bm25Options = {}) {
+    this.k1 = options.k1 ?? 1.2;
+    this.b = options.b ?? 0.75;
+  }
+
+  get size(): number {
+    return this.documents.size;
+  }
+
+  /**
+   * Index a text, replacing any previous text with the same id
+   */
+  add(id: string, text: string): void {
+    this.remove(id);
+
+    const tokens = tokenize(text);
+    for (const token of tokens) {
+      let docs = this.postings.get(token);
+      if (!docs) {
+        docs = new Map();
+        this.postings.set(token, docs);
+      }
+      docs.set(id, (docs.get(id) ?? 0) + 1);
+    }
+    this.documents.set(id, { length: tokens.length, terms: [...new Set(tokens)] });
+    this.totalLength += tokens.length;
+  }
+
+  remove(id: string): boolean {
+    const document = this.documents.get(id);
+    if (!document) return false;
+
+    for (const term of document.terms) {
+      const docs = this.postings.get(term)!;
+      docs.delete(id);
+      if (docs.size === 0) this.postings.delete(term);
+    }
+    this.documents.delete(id);
+    this.totalLength -= document.length;
+    return true;
+  }
+
+  /**
+   * The k best-scoring texts containing any query term, optionally only among `ids`
+   */
+  search(query: string, k: number, ids?: Set<string>): Bm25Match[] {
+    const size = this.documents.size;
+    if (size === 0 || k <= 0) return [];
+
+    const averageLength = this.totalLength / size || 1;
+    const matches = new Map<string, Bm25Match>();
+
+    for (const term of new Set(tokenize(query))) {
+      const docs = this.postings.get(term);
+      if (!docs) continue;
+
+      const idf = Math.log(1 + (size - docs.size + 0.5) / (docs.size + 0.5));
+      for (const [id, frequency] of docs) {
+        if (ids && !ids.has(id)) continue;
+
+        const { length } = this.documents.get(id)!;
+        const score =
+          (idf * frequency * (this.k1 + 1)) /
+          (frequency + this.k1 * (1 - this.b + (this.b * length) / averageLength));
+        const match = matches.get(id) ?? { id, score: 0, terms: [] };
+        match.score += score;
+        match.terms.push(term);
+        matches.set(id, match);
+      }
+    }
+
+    return [...matches.values()].sort((a, b) => b.score - a.score).slice(0, k);
+  }
+}
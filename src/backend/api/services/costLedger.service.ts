@@ -0,0 +1,448 @@
+/**
+ * Cost Ledger Service
+ * Persisted record of every paid AI call, attributed to a user and a feature
+ * Enforces per-user, per-feature and global budgets per day, week or month and raises
+ * budget alerts as events (which the websocket relays to connected clients)
+ * Calls in flight hold a reservation of their estimated cost until they are recorded, so
+ * concurrent calls in this process cannot overspend a hard budget together
+ */
+
+import crypto from 'crypto';
+import { DatabaseService, getDatabase } from './database.service';
+import { recordEvent } from './eventLog.service';
+
+export const BUDGET_SCOPES = ['global', 'user', 'feature'] as const;
+export const BUDGET_PERIODS = ['day', 'week', 'month'] as const;
+
+export type BudgetScope = (typeof BUDGET_SCOPES)[number];
+export type BudgetPeriod = (typeof BUDGET_PERIODS)[number];
+
+const PERIOD_LABELS: Record<BudgetPeriod, string> = {
+  day: 'Daily',
+  week: 'Weekly',
+  month: 'Monthly',
+};
+
+export interface CostAttribution {
+  userId?: string;
+  feature?: string;
+  /** Who the call was for within the user, e.g. an integration's end user; never budgeted */
+  label?: string;
+}
+
+export interface LedgerEntryInput extends CostAttribution {
+  provider: string;
+  model?: string;
+  inputTokens?: number;
+  outputTokens?: number;
+  cost: number;
+}
+
+export interface LedgerEntry extends LedgerEntryInput {
+  id: string;
+  createdAt: string;
+}
+
+export interface Budget {
+  id: string;
+  scope: BudgetScope;
+  /** The user or feature limited; unset on a user or feature budget means each one separately */
+  subject?: string;
+  period: BudgetPeriod;
+  /** USD per period */
+  limit: number;
+  /** Hard budgets refuse calls that would exceed them; soft budgets only alert */
+  hard: boolean;
+  /** Fraction of the limit at which a warning is raised */
+  alertAt: number;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export type SetBudgetInput = Pick<Budget, 'scope' | 'period' | 'limit'> &
+  Partial<Pick<Budget, 'subject' | 'hard' | 'alertAt'>>;
+
+export interface BudgetStatus {
+  budget: Budget;
+  /** The user or feature this spend belongs to */
+  subject?: string;
+  spent: number;
+  remaining: number;
+  periodStart: string;
+}
+
+export interface BudgetAlert {
+  type: 'budget.warning' | 'budget.exceeded' | 'budget.blocked';
+  budgetId: string;
+  scope: BudgetScope;
+  subject?: string;
+  period: BudgetPeriod;
+  limit: number;
+  spent: number;
+  /** Estimated cost of the refused call (budget.blocked only) */
+  estimatedCost?: number;
+}
+
+export interface LedgerStats {
+  totalCost: number;
+  totalTokens: number;
+  requests: number;
+  averageCostPerRequest: number;
+  byProvider: Record<string, { cost: number; tokens: number; requests: number }>;
+  byFeature: Record<string, { cost: number; requests: number }>;
+}
+
+/**
+ * A call was refused because it would take a hard budget over its limit
+ */
+export class BudgetExceededError extends Error {
+  constructor(
+    readonly budget: Budget,
+    readonly spent: number,
+    readonly estimatedCost: number,
+    readonly subject?: string
+  ) {
+    const owner = budget.scope === 'global' ? 'global' : `${budget.scope} ${subject}`;
+    super(
+      `${PERIOD_LABELS[budget.period]} ${owner} budget exceeded: ` +
+        `$${spent.toFixed(4)} spent of $${budget.limit.toFixed(2)}, ` +
+        `call estimated at $${estimatedCost.toFixed(4)}`
+    );
+    this.name = 'BudgetExceededError';
+  }
+}
+
+interface Reservation {
+  attribution: CostAttribution;
+  cost: number;
+}
+
+interface BudgetRow {
+  id: string;
+  scope: string;
+  subject: string;
+  period: string;
+  cost_limit: number;
+  hard: number;
+  alert_at: number;
+  created_at: string;
+  updated_at: string;
+}
+
+export function isBudgetScope(value: unknown): value is BudgetScope {
+  return BUDGET_SCOPES.includes(value as BudgetScope);
+}
+
+export function isBudgetPeriod(value: unknown): value is BudgetPeriod {
+  return BUDGET_PERIODS.includes(value as BudgetPeriod);
+}
+
+/**
+ * Start of the current budget period in UTC; weeks start on Monday
+ */
+export function periodStart(period: BudgetPeriod, now: Date = new Date()): Date {
+  const start = new Date(
+    Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), period === 'month' ? 1 : now.getUTCDate())
+  );
+  if (period === 'week') start.setUTCDate(start.getUTCDate() - ((start.getUTCDay() + 6) % 7));
+  return start;
+}
+
+export class CostLedgerService {
+  constructor(
+    private readonly db: DatabaseService = getDatabase(),
+    private readonly alert: (alert: BudgetAlert) => void = (alert) =>
+      recordEvent({ type: alert.type, source: 'budget', data: alert }),
+    private readonly now: () => Date = () => new Date()
+  ) {}
+
+  private readonly reservations = new Set<Reservation>();
+  private reserving: Promise<unknown> = Promise.resolve();
+
+  /**
+   * Append a call to the ledger and raise alerts for budgets it pushed past a threshold
+   */
+  async record(input: LedgerEntryInput): Promise<LedgerEntry> {
+    const entry: LedgerEntry = {
+      ...input,
+      id: `cost_${crypto.randomUUID()}`,
+      createdAt: this.now().toISOString(),
+    };
+
+    await this.db.run(
+      `INSERT INTO cost_ledger
+         (id, user_id, feature, label, provider, model, input_tokens, output_tokens, cost,
+          created_at)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+      [
+        entry.id,
+        entry.userId ?? null,
+        entry.feature ?? null,
+        entry.label ?? null,
+        entry.provider,
+        entry.model ?? null,
+        entry.inputTokens ?? 0,
+        entry.outputTokens ?? 0,
+        entry.cost,
+        entry.createdAt,
+      ]
+    );
+
+    if (entry.cost > 0) {
+      for (const status of await this.getBudgetStatus(entry)) {
+        const before = status.spent - entry.cost;
+        const { limit, alertAt } = status.budget;
+        if (before < limit && status.spent >= limit) {
+          this.raise('budget.exceeded', status);
+        } else if (before < limit * alertAt && status.spent >= limit * alertAt) {
+          this.raise('budget.warning', status);
+        }
+      }
+    }
+
+    return entry;
+  }
+
+  /**
+   * Throw BudgetExceededError if a call of this estimated cost would exceed a hard budget
+   */
+  async assertWithinBudget(attribution: CostAttribution, estimatedCost: number): Promise<void> {
+    if (estimatedCost <= 0) return;
+
+    for (const status of await this.getBudgetStatus(attribution)) {
+      const spent = status.spent + this.reserved(status);
+      if (status.budget.hard && spent + estimatedCost > status.budget.limit) {
+        this.raise('budget.blocked', { ...status, spent }, estimatedCost);
+        throw new BudgetExceededError(status.budget, spent, estimatedCost, status.subject);
+      }
+    }
+  }
+
+  /**
+   * Check a call against the hard budgets and hold its estimated cost until the returned
+   * release is called, once the call has been recorded or has failed. Checks run one at a
+   * time, so each one sees the reservations of the calls admitted before it.
+   */
+  async reserve(attribution: CostAttribution, estimatedCost: number): Promise<() => void> {
+    const reservation: Reservation = { attribution, cost: estimatedCost };
+    const admitted = this.reserving.then(async () => {
+      await this.assertWithinBudget(attribution, estimatedCost);
+      if (estimatedCost > 0) this.reservations.add(reservation);
+    });
+    this.reserving = admitted.catch(() => undefined);
+    await admitted;
+    return () => {
+      this.reservations.delete(reservation);
+    };
+  }
+
+  /**
+   * Spend against every budget that applies to this user and feature
+   */
+  async getBudgetStatus(attribution: CostAttribution = {}): Promise<BudgetStatus[]> {
+    const statuses: BudgetStatus[] = [];
+
+    for (const budget of await this.listBudgets()) {
+      const subject =
+        budget.scope === 'user'
+          ? attribution.userId
+          : budget.scope === 'feature'
+            ? attribution.feature
+            : undefined;
+      if (budget.scope !== 'global' && (!subject || (budget.subject ?? subject) !== subject)) {
+        continue;
+      }
+
+      const start = periodStart(budget.period, this.now()).toISOString();
+      const column = budget.scope === 'user' ? 'user_id' : 'feature';
+      const row = await this.db.queryOne<{ spent: number | null }>(
+        budget.scope === 'global'
+          ? 'SELECT SUM(cost) AS spent FROM cost_ledger WHERE created_at >= ?'
+          : `SELECT SUM(cost) AS spent FROM cost_ledger WHERE created_at >= ? AND ${column} = ?`,
+        budget.scope === 'global' ? [start] : [start, subject!]
+      );
+      const spent = row?.spent ?? 0;
+
+      statuses.push({
+        budget,
+        ...(subject && { subject }),
+        spent,
+        remaining: Math.max(budget.limit - spent, 0),
+        periodStart: start,
+      });
+    }
+
+    return statuses;
+  }
+
+  /**
+   * Create a budget, or replace the one with the same scope, subject and period
+   */
+  async setBudget(input: SetBudgetInput): Promise<Budget> {
+    if (!isBudgetScope(input.scope)) throw new Error(`Invalid budget scope: ${input.scope}`);
+    if (!isBudgetPeriod(input.period)) throw new Error(`Invalid budget period: ${input.period}`);
+    if (!(typeof input.limit === 'number' && input.limit >= 0)) {
+      throw new Error(`Invalid budget limit: ${input.limit}`);
+    }
+    const alertAt = input.alertAt ?? 0.8;
+    if (!(typeof alertAt === 'number' && alertAt > 0 && alertAt <= 1)) {
+      throw new Error(`Invalid budget alertAt: ${input.alertAt}`);
+    }
+
+    const subject = input.scope === 'global' ? '' : input.subject?.trim() || '';
+    const now = this.now().toISOString();
+    const existing = await this.db.queryOne<BudgetRow>(
+      'SELECT * FROM cost_budgets WHERE scope = ? AND subject = ? AND period = ?',
+      [input.scope, subject, input.period]
+    );
+    const id = existing?.id ?? `budget_${crypto.randomUUID()}`;
+
+    await this.db.run(
+      `INSERT OR REPLACE INTO cost_budgets
+         (id, scope, subject, period, cost_limit, hard, alert_at, created_at, updated_at)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+      [
+        id,
+        input.scope,
+        subject,
+        input.period,
+        input.limit,
+        input.hard === false ? 0 : 1,
+        alertAt,
+        existing?.created_at ?? now,
+        now,
+      ]
+    );
+
+    return (await this.getBudget(id))!;
+  }
+
+  async getBudget(id: string): Promise<Budget | null> {
+    const row = await this.db.queryOne<BudgetRow>('SELECT * FROM cost_budgets WHERE id = ?', [id]);
+    return row ? this.toBudget(row) : null;
+  }
+
+  async listBudgets(): Promise<Budget[]> {
+    const rows = await this.db.query<BudgetRow>(
+      'SELECT * FROM cost_budgets ORDER BY scope, subject, period'
+    );
+    return rows.map((row) => this.toBudget(row));
+  }
+
+  async deleteBudget(id: string): Promise<boolean> {
+    const { changes } = await this.db.run('DELETE FROM cost_budgets WHERE id = ?', [id]);
+    return changes > 0;
+  }
+
+  /**
+   * Totals for calls recorded since a point in time
+   */
+  async getStats(since: Date): Promise<LedgerStats> {
+    const rows = await this.db.query<{
+      provider: string;
+      feature: string | null;
+      cost: number;
+      tokens: number;
+      requests: number;
+    }>(
+      `SELECT provider, feature, SUM(cost) AS cost,
+              SUM(input_tokens + output_tokens) AS tokens, COUNT(*) AS requests
+       FROM cost_ledger WHERE created_at >= ? GROUP BY provider, feature`,
+      [since.toISOString()]
+    );
+
+    const stats: LedgerStats = {
+      totalCost: 0,
+      totalTokens: 0,
+      requests: 0,
+      averageCostPerRequest: 0,
+      byProvider: {},
+      byFeature: {},
+    };
+    for (const row of rows) {
+      stats.totalCost += row.cost;
+      stats.totalTokens += row.tokens;
+      stats.requests += row.requests;
+
+      const provider = (stats.byProvider[row.provider] ??= { cost: 0, tokens: 0, requests: 0 });
+      provider.cost += row.cost;
+      provider.tokens += row.tokens;
+      provider.requests += row.requests;
+
+      const feature = (stats.byFeature[row.feature ?? 'other'] ??= { cost: 0, requests: 0 });
+      feature.cost += row.cost;
+      feature.requests += row.requests;
+    }
+    stats.averageCostPerRequest = stats.requests > 0 ? stats.totalCost / stats.requests : 0;
+    return stats;
+  }
+
+  /**
+   * Drop ledger entries older than the retention cutoff
+   */
+  async prune(olderThan: Date): Promise<number> {
+    const { changes } = await this.db.run('DELETE FROM cost_ledger WHERE created_at < ?', [
+      olderThan.toISOString(),
+    ]);
+    return changes;
+  }
+
+  /**
+   * Estimated cost of the calls in flight that count against a budget
+   */
+  private reserved(status: BudgetStatus): number {
+    let total = 0;
+    for (const { attribution, cost } of this.reservations) {
+      const { scope } = status.budget;
+      const subject =
+        scope === 'user'
+          ? attribution.userId
+          : scope === 'feature'
+            ? attribution.feature
+            : undefined;
+      if (scope === 'global' || subject === status.subject) total += cost;
+    }
+    return total;
+  }
+
+  private raise(type: BudgetAlert['type'], status: BudgetStatus, estimatedCost?: number) {
+    const { budget } = status;
+    try {
+      this.alert({
+        type,
+        budgetId: budget.id,
+        scope: budget.scope,
+        ...(status.subject && { subject: status.subject }),
+        period: budget.period,
+        limit: budget.limit,
+        spent: status.spent,
+        ...(estimatedCost !== undefined && { estimatedCost }),
+      });
+    } catch (e) {
+      console.warn('[CostLedger] alert failed:', (e as Error).message);
+    }
+  }
+
+  private toBudget(row: BudgetRow): Budget {
+    return {
+      id: row.id,
+      scope: row.scope as BudgetScope,
+      ...(row.subject && { subject: row.subject }),
+      period: row.period as BudgetPeriod,
+      limit: row.cost_limit,
+      hard: row.hard === 1,
+      alertAt: row.alert_at,
+      createdAt: row.created_at,
+      updatedAt: row.updated_at,
+    };
+  }
+}
+
+let sharedCostLedger: CostLedgerService | null = null;
+
+export function getCostLedger(): CostLedgerService {
+  if (!sharedCostLedger) {
+    sharedCostLedger = new CostLedgerService();
+  }
+  return sharedCostLedger;
+}
@@ -1,10 +1,18 @@
 /**
  * Cost Tracking & PDF Generation Service
  * Tracks AI usage costs and generates professional PDF documents
- * Integrates with CDP for serverless PDF generation
+ * PDFs are printed by headless Chrome over CDP and saved to document storage
  */
 
+import fs from 'fs';
+import path from 'path';
+import { CostLedgerService } from './costLedger.service';
+import { DocumentStorage, createDocumentStorageFromEnv } from './documentStorage.service';
+import { DocxGenerationResult, DocxGenerationService } from './docxExport.service';
+import { AppendEventInput, recordEvent } from './eventLog.service';
 import { LLMAbstractionLayer } from './llm-abstraction.service';
+import { ChromePdfRenderer, PageMargins, PageSize, PdfRenderer } from './pdfRenderer.service';
+import { ResumeData, resumeToText } from './resumeData.service';
 
 export interface CostTrackingEntry {
   timestamp: Date;
@@ -36,25 +44,67 @@ export interface PDFGenerationRequest {
   includeHeader?: boolean;
   includeFooter?: boolean;
   customCSS?: string;
+  /** Default Letter */
+  pageSize?: PageSize;
+  /** Millimetres; 15 on each side by default */
+  margins?: Partial<PageMargins>;
+  /** Font files to embed; the first becomes the body font */
+  fonts?: EmbeddedFont[];
+}
+
+export interface EmbeddedFont {
+  family: string;
+  /** Path to a .ttf, .otf, .woff or .woff2 file */
+  file: string;
+  weight?: number;
+  style?: 'normal' | 'italic';
 }
 
 export interface PDFGenerationResult {
   url: string;
   fileName: string;
+  /** In bytes */
   fileSize: number;
   generationTime: number;
   cost: number;
 }
 
+export interface PDFGenerationOptions {
+  /** Defaults to headless Chrome */
+  renderer?: PdfRenderer;
+  /** Defaults to the one named by JOBSPRINT_DOCUMENT_STORAGE */
+  storage?: DocumentStorage;
+  /** Where file.created events go; defaults to the event log */
+  recordEvent?: (event: AppendEventInput) => void;
+}
+
+const DEFAULT_MARGINS: PageMargins = { top: 15, right: 15, bottom: 15, left: 15 };
+
+const FONT_FORMATS: Record<string, string> = {
+  '.ttf': 'truetype',
+  '.otf': 'opentype',
+  '.woff': 'woff',
+  '.woff2': 'woff2',
+};
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
 export class CostTrackingService {
   private costs: CostTrackingEntry[] = [];
-  private readonly COST_THRESHOLDS = {
-    daily: 10.0, // $10 per day
-    weekly: 50.0, // $50 per week
-    monthly: 150.0, // $150 per month
-  };
 
-  constructor(private llmService: LLMAbstractionLayer) {}
+  /**
+   * Entries are also written to the ledger when one is given, so they count towards budgets
+   */
+  constructor(
+    private llmService: LLMAbstractionLayer,
+    private ledger: CostLedgerService | null = null
+  ) {}
 
   trackCost(entry: Omit<CostTrackingEntry, 'timestamp'>): void {
     const costEntry: CostTrackingEntry = {
@@ -64,8 +114,17 @@ export class CostTrackingService {
 
     this.costs.push(costEntry);
 
-    // Check thresholds and warn if exceeded
-    this.checkThresholds(costEntry);
+    this.ledger
+      ?.record({
+        userId: entry.metadata?.userId,
+        feature: entry.service,
+        provider: entry.provider,
+        model: entry.model,
+        inputTokens: entry.tokens?.prompt,
+        outputTokens: entry.tokens?.completion,
+        cost: entry.cost,
+      })
+      .catch((e) => console.warn('[CostTracking] ledger write failed:', e.message || e));
   }
 
   getCostSummary(startDate?: Date, endDate?: Date): CostSummary {
@@ -117,53 +176,22 @@ export class CostTrackingService {
       },
     };
   }
-
-  private checkThresholds(newEntry: CostTrackingEntry): void {
-    const today = new Date();
-    today.setHours(0, 0, 0, 0);
-
-    const weekStart = new Date(today);
-    weekStart.setDate(today.getDate() - today.getDay());
-
-    const monthStart = new Date(today.getFullYear(), today.getMonth(), 1);
-
-    const dailyCosts =
-      this.costs.filter((c) => c.timestamp >= today).reduce((sum, c) => sum + c.cost, 0) +
-      newEntry.cost;
-
-    const weeklyCosts =
-      this.costs.filter((c) => c.timestamp >= weekStart).reduce((sum, c) => sum + c.cost, 0) +
-      newEntry.cost;
-
-    const monthlyCosts =
-      this.costs.filter((c) => c.timestamp >= monthStart).reduce((sum, c) => sum + c.cost, 0) +
-      newEntry.cost;
-
-    if (dailyCosts > this.COST_THRESHOLDS.daily) {
-      console.warn(
-        `⚠️ Daily cost threshold exceeded: $${dailyCosts.toFixed(2)} (limit: $${this.COST_THRESHOLDS.daily})`
-      );
-    }
-
-    if (weeklyCosts > this.COST_THRESHOLDS.weekly) {
-      console.warn(
-        `⚠️ Weekly cost threshold exceeded: $${weeklyCosts.toFixed(2)} (limit: $${this.COST_THRESHOLDS.weekly})`
-      );
-    }
-
-    if (monthlyCosts > this.COST_THRESHOLDS.monthly) {
-      console.warn(
-        `⚠️ Monthly cost threshold exceeded: $${monthlyCosts.toFixed(2)} (limit: $${this.COST_THRESHOLDS.monthly})`
-      );
-    }
-  }
 }
 
 export class PDFGenerationService {
+  private renderer: PdfRenderer;
+  private storage: DocumentStorage;
+  private recordEvent: (event: AppendEventInput) => void;
+
   constructor(
     private llmService: LLMAbstractionLayer,
-    private costTracker: CostTrackingService
-  ) {}
+    private costTracker: CostTrackingService,
+    options: PDFGenerationOptions = {}
+  ) {
+    this.renderer = options.renderer ?? new ChromePdfRenderer();
+    this.storage = options.storage ?? createDocumentStorageFromEnv();
+    this.recordEvent = options.recordEvent ?? recordEvent;
+  }
 
   async generatePDF(request: PDFGenerationRequest): Promise<PDFGenerationResult> {
     const startTime = Date.now();
@@ -171,8 +199,7 @@ export class PDFGenerationService {
     // Generate HTML from content
     const html = await this.generateHTML(request);
 
-    // Use CDP or external service to generate PDF
-    const pdfResult = await this.generatePDFfromHTML(html, request.type);
+    const pdfResult = await this.generatePDFfromHTML(html, request);
 
     const generationTime = Date.now() - startTime;
 
@@ -186,6 +213,7 @@ export class PDFGenerationService {
         type: request.type,
         style: request.style,
         contentLength: request.content.length,
+        fileSize: pdfResult.fileSize,
         generationTime,
       },
     });
@@ -201,6 +229,7 @@ export class PDFGenerationService {
 
   private async generateHTML(request: PDFGenerationRequest): Promise<string> {
     const baseCSS = this.getBaseCSS(request.style);
+    const fontCSS = await this.getFontCSS(request.fonts ?? []);
     const customCSS = request.customCSS || '';
 
     let html = `
@@ -211,6 +240,7 @@ export class PDFGenerationService {
     <title>${request.type.replace('-', ' ').toUpperCase()}</title>
     <style>
 ${baseCSS}
+${fontCSS}
 ${customCSS}
     </style>
 </head>
@@ -224,7 +254,7 @@ ${customCSS}
     }
 
     html += `<main class="document-content">
-${this.formatContent(request.content, request.type)}
+${this.formatContent(request.content)}
 </main>`;
 
     if (request.includeFooter) {
@@ -240,9 +270,9 @@ ${this.formatContent(request.content, request.type)}
     return html;
   }
 
-  private formatContent(content: string, type: string): string {
+  private formatContent(content: string): string {
     // Convert plain text to HTML with proper formatting
-    const lines = content.split('\n');
+    const lines = escapeHtml(content).split('\n');
     let html = '';
 
     for (const line of lines) {
@@ -270,7 +300,6 @@ ${this.formatContent(request.content, request.type)}
         font-family: 'Arial', sans-serif;
         line-height: 1.6;
         margin: 0;
-        padding: 20px;
         color: #333;
       }
 
@@ -346,36 +375,58 @@ ${this.formatContent(request.content, request.type)}
     return baseStyles + (styleVariants[style as keyof typeof styleVariants] || '');
   }
 
+  /**
+   * @font-face rules with the font files inlined, so Chrome embeds them whatever is installed
+   */
+  private async getFontCSS(fonts: EmbeddedFont[]): Promise<string> {
+    const rules = await Promise.all(
+      fonts.map(async (font) => {
+        const format = FONT_FORMATS[path.extname(font.file).toLowerCase()];
+        if (!format) throw new Error(`Unsupported font file: ${font.file}`);
+        const data = await fs.promises.readFile(font.file);
+        return `@font-face {
+        font-family: '${font.family}';
+        src: url(data:font/${format};base64,${data.toString('base64')}) format('${format}');
+        font-weight: ${font.weight ?? 400};
+        font-style: ${font.style ?? 'normal'};
+      }`;
+      })
+    );
+    if (fonts.length > 0) rules.push(`body { font-family: '${fonts[0].family}', sans-serif; }`);
+    return rules.join('\n');
+  }
+
   private async generatePDFfromHTML(
     html: string,
-    type: string
+    request: PDFGenerationRequest
   ): Promise<{
     url: string;
     fileName: string;
     fileSize: number;
   }> {
-    // In a real implementation, this would use Puppeteer/CDP or a service like PDF-lib
-    // For now, we'll simulate the PDF generation
-
-    const fileName = `${type}-${Date.now()}.pdf`;
+    const pdf = await this.renderer.render(html, {
+      pageSize: request.pageSize ?? 'Letter',
+      margins: { ...DEFAULT_MARGINS, ...request.margins },
+    });
 
-    // Simulate PDF generation delay
-    await new Promise((resolve) => setTimeout(resolve, 1000));
+    const fileName = `${request.type}-${Date.now()}.pdf`;
+    const stored = await this.storage.save(fileName, pdf);
+    this.recordEvent({
+      type: 'file.created',
+      source: 'documents',
+      data: { ...stored, fileName, format: 'pdf', documentType: request.type },
+    });
 
-    return {
-      url: `https://storage.example.com/pdfs/${fileName}`,
-      fileName,
-      fileSize: Math.floor(html.length * 0.8), // Rough estimation
-    };
+    return { url: stored.url, fileName, fileSize: stored.size };
   }
 }
-
 // Combined service for easy integration
 export class DocumentGenerationService {
   constructor(
     private llmService: LLMAbstractionLayer,
     private costTracker: CostTrackingService,
-    private pdfService: PDFGenerationService
+    private pdfService: PDFGenerationService,
+    private docxService: DocxGenerationService = new DocxGenerationService()
   ) {}
 
   getCostTracker(): CostTrackingService {
@@ -386,24 +437,34 @@ export class DocumentGenerationService {
     return this.pdfService;
   }
 
+  getDocxService(): DocxGenerationService {
+    return this.docxService;
+  }
+
+  /**
+   * Structured resumes come out as text for the PDF and keep their sections in the DOCX
+   */
   async generateDocument(
-    content: string,
+    content: string | ResumeData,
     type: 'resume' | 'cover-letter',
     options: {
       style?: 'professional' | 'modern' | 'minimal';
       includePDF?: boolean;
+      includeDOCX?: boolean;
       trackCosts?: boolean;
     } = {}
   ): Promise<{
     content: string;
     pdf?: PDFGenerationResult;
+    docx?: DocxGenerationResult;
     costSummary?: CostSummary;
   }> {
-    const result: any = { content };
+    const text = typeof content === 'string' ? content : resumeToText(content);
+    const result: any = { content: text };
 
     if (options.includePDF) {
       const pdfRequest: PDFGenerationRequest = {
-        content,
+        content: text,
         type,
         style: options.style || 'professional',
         includeHeader: true,
@@ -413,6 +474,15 @@ export class DocumentGenerationService {
       result.pdf = await this.pdfService.generatePDF(pdfRequest);
     }
 
+    if (options.includeDOCX) {
+      result.docx = await this.docxService.generateDocx({
+        type,
+        content: text,
+        ...(typeof content !== 'string' && { resume: content }),
+        style: options.style,
+      });
+    }
+
     if (options.trackCosts) {
       result.costSummary = this.costTracker.getCostSummary();
     }
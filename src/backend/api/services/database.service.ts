@@ -0,0 +1,518 @@
+/**
+ * Embedded Database Service
+ * SQLite (sql.js) database persisted to a single file on disk
+ * Applies versioned schema migrations on open and writes changes back atomically
+ * RAG vectors and their ANN graphs live in a database file of their own, so indexing jobs
+ * never rewrites the file holding applications, API keys and events
+ */
+
+import fs from 'fs';
+import path from 'path';
+import initSqlJs from 'sql.js';
+import type { BindParams, Database, SqlValue } from 'sql.js';
+
+export interface Migration {
+  version: number;
+  name: string;
+  up: string;
+}
+
+export type Row = Record<string, SqlValue>;
+
+export interface DatabaseOptions {
+  /** Coalesce file writes into one per this many ms; 0 (the default) writes after every change */
+  persistDelayMs?: number;
+}
+
+/**
+ * Ordered schema migrations. Never edit an applied migration - append a new one.
+ */
+export const MIGRATIONS: Migration[] = [
+  {
+    version: 1,
+    name: 'create_applications',
+    up: `
+      CREATE TABLE applications (
+        id TEXT PRIMARY KEY,
+        platform TEXT NOT NULL,
+        job_url TEXT NOT NULL,
+        job_id TEXT,
+        job_title TEXT,
+        company TEXT,
+        resume_id TEXT,
+        has_cover_letter INTEGER NOT NULL DEFAULT 0,
+        status TEXT NOT NULL,
+        notes TEXT,
+        metadata TEXT NOT NULL DEFAULT '{}',
+        created_at TEXT NOT NULL,
+        updated_at TEXT NOT NULL
+      );
+      CREATE INDEX idx_applications_platform ON applications (platform);
+      CREATE INDEX idx_applications_status ON applications (status);
+      CREATE INDEX idx_applications_created_at ON applications (created_at);
+    `,
+  },
+  {
+    version: 2,
+    name: 'create_api_keys',
+    up: `
+      CREATE TABLE api_keys (
+        id TEXT PRIMARY KEY,
+        name TEXT NOT NULL,
+        prefix TEXT NOT NULL UNIQUE,
+        key_hash TEXT NOT NULL,
+        scopes TEXT NOT NULL DEFAULT '[]',
+        created_at TEXT NOT NULL,
+        expires_at TEXT,
+        last_used_at TEXT,
+        revoked_at TEXT
+      );
+    `,
+  },
+  {
+    version: 3,
+    name: 'create_events',
+    up: `
+      CREATE TABLE events (
+        seq INTEGER PRIMARY KEY AUTOINCREMENT,
+        id TEXT NOT NULL UNIQUE,
+        type TEXT NOT NULL,
+        source TEXT NOT NULL,
+        data TEXT NOT NULL DEFAULT '{}',
+        metadata TEXT NOT NULL DEFAULT '{}',
+        created_at TEXT NOT NULL
+      );
+      CREATE INDEX idx_events_type_seq ON events (type, seq);
+      CREATE INDEX idx_events_created_at ON events (created_at);
+    `,
+  },
+  {
+    version: 4,
+    name: 'create_cost_ledger',
+    up: `
+      CREATE TABLE cost_ledger (
+        id TEXT PRIMARY KEY,
+        user_id TEXT,
+        feature TEXT,
+        provider TEXT NOT NULL,
+        model TEXT,
+        input_tokens INTEGER NOT NULL DEFAULT 0,
+        output_tokens INTEGER NOT NULL DEFAULT 0,
+        cost REAL NOT NULL,
+        created_at TEXT NOT NULL
+      );
+      CREATE INDEX idx_cost_ledger_created_at ON cost_ledger (created_at);
+      CREATE INDEX idx_cost_ledger_user ON cost_ledger (user_id, created_at);
+      CREATE INDEX idx_cost_ledger_feature ON cost_ledger (feature, created_at);
+
+      CREATE TABLE cost_budgets (
+        id TEXT PRIMARY KEY,
+        scope TEXT NOT NULL,
+        subject TEXT NOT NULL DEFAULT '',
+        period TEXT NOT NULL,
+        cost_limit REAL NOT NULL,
+        hard INTEGER NOT NULL DEFAULT 1,
+        alert_at REAL NOT NULL DEFAULT 0.8,
+        created_at TEXT NOT NULL,
+        updated_at TEXT NOT NULL,
+        UNIQUE (scope, subject, period)
+      );
+    `,
+  },
+  {
+    version: 5,
+    name: 'create_prompt_metrics',
+    up: `
+      CREATE TABLE prompt_runs (
+        id TEXT PRIMARY KEY,
+        template TEXT NOT NULL,
+        version INTEGER NOT NULL,
+        user_id TEXT,
+        success INTEGER NOT NULL,
+        latency_ms INTEGER,
+        cost REAL NOT NULL DEFAULT 0,
+        score REAL,
+        created_at TEXT NOT NULL,
+        scored_at TEXT
+      );
+      CREATE INDEX idx_prompt_runs_template ON prompt_runs (template, version);
+
+      CREATE TABLE prompt_experiments (
+        template TEXT PRIMARY KEY,
+        weights TEXT NOT NULL,
+        updated_at TEXT NOT NULL
+      );
+    `,
+  },
+  {
+    version: 6,
+    name: 'create_rag_store',
+    up: `
+      CREATE TABLE rag_jobs (
+        id TEXT PRIMARY KEY,
+        title TEXT NOT NULL,
+        company TEXT NOT NULL,
+        data TEXT NOT NULL,
+        created_at TEXT NOT NULL,
+        updated_at TEXT NOT NULL
+      );
+
+      CREATE TABLE rag_vectors (
+        id TEXT PRIMARY KEY,
+        job_id TEXT NOT NULL REFERENCES rag_jobs (id) ON DELETE CASCADE,
+        type TEXT NOT NULL,
+        chunk_index INTEGER NOT NULL,
+        content TEXT NOT NULL,
+        model TEXT NOT NULL,
+        vector BLOB NOT NULL
+      );
+      CREATE INDEX idx_rag_vectors_job ON rag_vectors (job_id, chunk_index);
+    `,
+  },
+  {
+    version: 7,
+    name: 'create_rag_indexes',
+    up: `
+      CREATE INDEX idx_rag_vectors_model ON rag_vectors (model);
+
+      CREATE TABLE rag_indexes (
+        model TEXT PRIMARY KEY,
+        graph TEXT NOT NULL,
+        updated_at TEXT NOT NULL
+      );
+    `,
+  },
+  {
+    version: 8,
+    name: 'create_experience_store',
+    up: `
+      CREATE TABLE experience_documents (
+        user_id TEXT NOT NULL,
+        id TEXT NOT NULL,
+        kind TEXT NOT NULL,
+        title TEXT,
+        content TEXT NOT NULL,
+        created_at TEXT NOT NULL,
+        updated_at TEXT NOT NULL,
+        PRIMARY KEY (user_id, id)
+      );
+
+      CREATE TABLE experience_chunks (
+        user_id TEXT NOT NULL,
+        document_id TEXT NOT NULL,
+        chunk_index INTEGER NOT NULL,
+        content TEXT NOT NULL,
+        model TEXT NOT NULL,
+        vector BLOB NOT NULL,
+        PRIMARY KEY (user_id, document_id, chunk_index),
+        FOREIGN KEY (user_id, document_id)
+          REFERENCES experience_documents (user_id, id) ON DELETE CASCADE
+      );
+    `,
+  },
+  {
+    version: 9,
+    name: 'create_resume_versions',
+    up: `
+      CREATE TABLE resume_versions (
+        id TEXT PRIMARY KEY,
+        resume_id TEXT NOT NULL,
+        parent_id TEXT REFERENCES resume_versions (id),
+        restored_from TEXT REFERENCES resume_versions (id),
+        job_id TEXT,
+        job TEXT,
+        generator TEXT NOT NULL,
+        settings TEXT NOT NULL DEFAULT '{}',
+        note TEXT,
+        content TEXT NOT NULL,
+        created_at TEXT NOT NULL
+      );
+      CREATE INDEX idx_resume_versions_resume ON resume_versions (resume_id, created_at);
+      CREATE INDEX idx_resume_versions_job ON resume_versions (job_id);
+      CREATE INDEX idx_applications_resume ON applications (resume_id);
+    `,
+  },
+  {
+    version: 10,
+    name: 'add_cost_ledger_label',
+    up: `
+      ALTER TABLE cost_ledger ADD COLUMN label TEXT;
+    `,
+  },
+];
+
+/**
+ * Schema of the vector database. Versions 6 and 7 of MIGRATIONS created the same tables in the
+ * main database before it had one; see moveLegacyVectors in the vector store.
+ */
+export const VECTOR_MIGRATIONS: Migration[] = [
+  {
+    version: 1,
+    name: 'create_rag_store',
+    up: `
+      CREATE TABLE rag_jobs (
+        id TEXT PRIMARY KEY,
+        title TEXT NOT NULL,
+        company TEXT NOT NULL,
+        data TEXT NOT NULL,
+        created_at TEXT NOT NULL,
+        updated_at TEXT NOT NULL
+      );
+
+      CREATE TABLE rag_vectors (
+        id TEXT PRIMARY KEY,
+        job_id TEXT NOT NULL REFERENCES rag_jobs (id) ON DELETE CASCADE,
+        type TEXT NOT NULL,
+        chunk_index INTEGER NOT NULL,
+        content TEXT NOT NULL,
+        model TEXT NOT NULL,
+        vector BLOB NOT NULL
+      );
+      CREATE INDEX idx_rag_vectors_job ON rag_vectors (job_id, chunk_index);
+      CREATE INDEX idx_rag_vectors_model ON rag_vectors (model);
+
+      CREATE TABLE rag_indexes (
+        model TEXT PRIMARY KEY,
+        graph TEXT NOT NULL,
+        updated_at TEXT NOT NULL
+      );
+    `,
+  },
+];
+
+export const IN_MEMORY = ':memory:';
+
+/**
+ * Synchronous row reader, usable inside transaction callbacks
+ */
+export function selectRows<T = Row>(db: Database, sql: string, params: BindParams = []): T[] {
+  const statement = db.prepare(sql, params);
+  const rows: T[] = [];
+
+  try {
+    while (statement.step()) {
+      rows.push(statement.getAsObject() as unknown as T);
+    }
+  } finally {
+    statement.free();
+  }
+
+  return rows;
+}
+
+export class DatabaseService {
+  private db: Database | null = null;
+  private opening: Promise<Database> | null = null;
+  private persistTimer: NodeJS.Timeout | null = null;
+
+  constructor(
+    private readonly filePath: string = process.env.JOBSPRINT_DB_PATH ||
+      path.resolve(process.cwd(), 'data', 'jobsprint.sqlite'),
+    private readonly migrations: Migration[] = MIGRATIONS,
+    private readonly options: DatabaseOptions = {}
+  ) {}
+
+  /**
+   * Open the database (loading it from disk if present) and apply pending migrations
+   */
+  async open(): Promise<Database> {
+    if (this.db) return this.db;
+    if (!this.opening) {
+      this.opening = this.load().catch((error) => {
+        this.opening = null;
+        throw error;
+      });
+    }
+    return this.opening;
+  }
+
+  /**
+   * Run a read query and return rows as plain objects
+   */
+  async query<T = Row>(sql: string, params: BindParams = []): Promise<T[]> {
+    return selectRows<T>(await this.open(), sql, params);
+  }
+
+  async queryOne<T = Row>(sql: string, params: BindParams = []): Promise<T | null> {
+    const rows = await this.query<T>(sql, params);
+    return rows[0] ?? null;
+  }
+
+  /**
+   * Run a write statement and persist the result
+   */
+  async run(sql: string, params: BindParams = []): Promise<{ changes: number }> {
+    const db = await this.open();
+    db.run(sql, params);
+    const changes = db.getRowsModified();
+    this.schedulePersist();
+    return { changes };
+  }
+
+  /**
+   * Run several statements atomically. The callback is synchronous so no other
+   * write can interleave before the transaction commits.
+   */
+  async transaction<T>(work: (db: Database) => T): Promise<T> {
+    const db = await this.open();
+    db.run('BEGIN');
+
+    try {
+      const result = work(db);
+      db.run('COMMIT');
+      this.schedulePersist();
+      return result;
+    } catch (error) {
+      db.run('ROLLBACK');
+      throw error;
+    }
+  }
+
+  async getSchemaVersion(): Promise<number> {
+    const row = await this.queryOne<{ version: number | null }>(
+      'SELECT MAX(version) AS version FROM schema_migrations'
+    );
+    return row?.version ?? 0;
+  }
+
+  /**
+   * Write changes still waiting for a coalesced write to disk now
+   */
+  flush(): void {
+    if (!this.persistTimer) return;
+    clearTimeout(this.persistTimer);
+    this.persistTimer = null;
+    this.persist();
+  }
+
+  close(): void {
+    this.flush();
+    if (this.db) {
+      this.db.close();
+      this.db = null;
+    }
+    this.opening = null;
+  }
+
+  private async load(): Promise<Database> {
+    const SQL = await initSqlJs();
+    const isFileBacked = this.filePath !== IN_MEMORY;
+    const existing =
+      isFileBacked && fs.existsSync(this.filePath) ? fs.readFileSync(this.filePath) : undefined;
+
+    const db = new SQL.Database(existing);
+    db.run('PRAGMA foreign_keys = ON');
+    this.db = db;
+
+    try {
+      this.migrate(db);
+    } catch (error) {
+      db.close();
+      this.db = null;
+      throw error;
+    }
+    return db;
+  }
+
+  private migrate(db: Database): void {
+    db.run(`
+      CREATE TABLE IF NOT EXISTS schema_migrations (
+        version INTEGER PRIMARY KEY,
+        name TEXT NOT NULL,
+        applied_at TEXT NOT NULL
+      )
+    `);
+
+    const applied = new Set<number>();
+    const result = db.exec('SELECT version FROM schema_migrations');
+    for (const [version] of result[0]?.values ?? []) {
+      applied.add(Number(version));
+    }
+
+    const pending = [...this.migrations]
+      .sort((a, b) => a.version - b.version)
+      .filter((migration) => !applied.has(migration.version));
+
+    if (pending.length === 0) return;
+
+    for (const migration of pending) {
+      db.run('BEGIN');
+      try {
+        db.exec(migration.up);
+        db.run('INSERT INTO schema_migrations (version, name, applied_at) VALUES (?, ?, ?)', [
+          migration.version,
+          migration.name,
+          new Date().toISOString(),
+        ]);
+        db.run('COMMIT');
+      } catch (error) {
+        db.run('ROLLBACK');
+        throw new Error(
+          `Migration ${migration.version} (${migration.name}) failed: ${(error as Error).message}`
+        );
+      }
+    }
+
+    this.persist();
+  }
+
+  private schedulePersist(): void {
+    const delay = this.options.persistDelayMs ?? 0;
+    if (delay <= 0) return this.persist();
+    if (this.persistTimer) return;
+
+    this.persistTimer = setTimeout(() => {
+      try {
+        this.flush();
+      } catch (error) {
+        console.warn(`Database write to ${this.filePath} failed: ${(error as Error).message}`);
+      }
+    }, delay);
+    this.persistTimer.unref();
+  }
+
+  private persist(): void {
+    if (!this.db || this.filePath === IN_MEMORY) return;
+
+    // Write to a temp file and rename so a crash never leaves a half-written database
+    fs.mkdirSync(path.dirname(this.filePath), { recursive: true });
+    const tmpPath = `${this.filePath}.tmp`;
+    fs.writeFileSync(tmpPath, Buffer.from(this.db.export()));
+    fs.renameSync(tmpPath, this.filePath);
+
+    // sql.js resets foreign_keys on export(), which would silently disable every cascade
+    this.db.run('PRAGMA foreign_keys = ON');
+  }
+}
+
+let sharedDatabase: DatabaseService | null = null;
+
+/**
+ * Process-wide database instance used by the API routes
+ */
+export function getDatabase(): DatabaseService {
+  if (!sharedDatabase) {
+    sharedDatabase = new DatabaseService();
+  }
+  return sharedDatabase;
+}
+
+let sharedVectorDatabase: DatabaseService | null = null;
+
+/**
+ * Process-wide vector database used by the RAG system. Bulk indexing writes many jobs a second,
+ * so writes are coalesced; a crash loses at most the last second of indexing.
+ */
+export function getVectorDatabase(): DatabaseService {
+  if (!sharedVectorDatabase) {
+    const database = new DatabaseService(
+      process.env.JOBSPRINT_VECTOR_DB_PATH ||
+        path.resolve(process.cwd(), 'data', 'jobsprint-vectors.sqlite'),
+      VECTOR_MIGRATIONS,
+      { persistDelayMs: 1000 }
+    );
+    process.once('exit', () => database.flush());
+    sharedVectorDatabase = database;
+  }
+  return sharedVectorDatabase;
+}
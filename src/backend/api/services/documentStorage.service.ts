@@ -0,0 +1,118 @@
+/**
+ * Document Storage
+ * Where generated resumes and cover letters are saved: a local directory, or Puter storage
+ * through the same /storage/files API the Puter n8n node uses
+ */
+
+import fs from 'fs';
+import path from 'path';
+import { pathToFileURL } from 'url';
+
+export interface StoredDocument {
+  /** Where the file can be fetched from */
+  url: string;
+  /** Location within the storage */
+  path: string;
+  size: number;
+}
+
+export interface DocumentStorage {
+  /** Save a file, replacing one with the same name */
+  save(fileName: string, data: Buffer): Promise<StoredDocument>;
+}
+
+/**
+ * Storage in a local directory, served from `baseUrl` when one is given
+ */
+export class LocalDocumentStorage implements DocumentStorage {
+  constructor(
+    private dir: string,
+    private baseUrl?: string
+  ) {}
+
+  async save(fileName: string, data: Buffer): Promise<StoredDocument> {
+    const filePath = path.join(this.dir, fileName);
+    await fs.promises.mkdir(this.dir, { recursive: true });
+    await fs.promises.writeFile(filePath, data);
+
+    return {
+      url: this.baseUrl
+        ? `${this.baseUrl.replace(/\/+$/, '')}/${encodeURIComponent(fileName)}`
+        : pathToFileURL(filePath).href,
+      path: filePath,
+      size: data.length,
+    };
+  }
+}
+
+export interface PuterStorageOptions {
+  apiUrl: string;
+  apiKey: string;
+  /** Folder the files go in; default /jobsprint/documents */
+  folder?: string;
+}
+
+/**
+ * Storage in Puter, uploaded as base64
+ */
+export class PuterDocumentStorage implements DocumentStorage {
+  constructor(private options: PuterStorageOptions) {}
+
+  async save(fileName: string, data: Buffer): Promise<StoredDocument> {
+    const apiUrl = this.options.apiUrl.replace(/\/+$/, '');
+    const filePath = `${(this.options.folder ?? '/jobsprint/documents').replace(/\/+$/, '')}/${fileName}`;
+
+    const response = await fetch(`${apiUrl}/storage/files`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        Authorization: `Bearer ${this.options.apiKey}`,
+      },
+      body: JSON.stringify({
+        path: filePath,
+        content: data.toString('base64'),
+        encoding: 'base64',
+      }),
+    });
+    if (!response.ok) {
+      const detail = await response.text().catch(() => '');
+      throw new Error(
+        `Puter storage upload failed: HTTP ${response.status}${detail ? `: ${detail.slice(0, 200)}` : ''}`
+      );
+    }
+
+    const stored = await response.json().catch(() => ({}));
+    return {
+      url: stored.url ?? `${apiUrl}/storage/files?path=${encodeURIComponent(filePath)}`,
+      path: stored.path ?? filePath,
+      size: data.length,
+    };
+  }
+}
+
+/**
+ * Storage named by JOBSPRINT_DOCUMENT_STORAGE: "local" (default) writes to
+ * JOBSPRINT_DOCUMENTS_DIR, linked through JOBSPRINT_DOCUMENTS_URL when set; "puter" uploads to
+ * JOBSPRINT_PUTER_API_URL with PUTER_API_KEY
+ */
+export function createDocumentStorageFromEnv(env = process.env): DocumentStorage {
+  const kind = env.JOBSPRINT_DOCUMENT_STORAGE || 'local';
+
+  if (kind === 'local') {
+    return new LocalDocumentStorage(
+      path.resolve(env.JOBSPRINT_DOCUMENTS_DIR || './data/documents'),
+      env.JOBSPRINT_DOCUMENTS_URL || undefined
+    );
+  }
+  if (kind === 'puter') {
+    if (!env.JOBSPRINT_PUTER_API_URL || !env.PUTER_API_KEY) {
+      throw new Error('Puter document storage needs JOBSPRINT_PUTER_API_URL and PUTER_API_KEY');
+    }
+    return new PuterDocumentStorage({
+      apiUrl: env.JOBSPRINT_PUTER_API_URL,
+      apiKey: env.PUTER_API_KEY,
+      folder: env.JOBSPRINT_PUTER_DOCUMENTS_FOLDER || undefined,
+    });
+  }
+  throw new Error(`JOBSPRINT_DOCUMENT_STORAGE must be local or puter; got ${kind}`);
+}
@@ -0,0 +1,303 @@
+/**
+ * DOCX Export
+ * Writes resumes and cover letters as Word documents for portals and recruiters that ask for
+ * them. Output is ATS-friendly: one column, no tables, text boxes or headers, and only the
+ * built-in Title, Heading 1, Heading 2 and List Bullet styles, so parsers read the structure.
+ */
+
+import { DocumentStorage, createDocumentStorageFromEnv } from './documentStorage.service';
+import { AppendEventInput, recordEvent } from './eventLog.service';
+import type { PageMargins, PageSize } from './pdfRenderer.service';
+import type { ResumeContact, ResumeData } from './resumeData.service';
+import { createZip } from './zip.service';
+
+export type DocumentStyle = 'professional' | 'modern' | 'minimal';
+
+export interface DocxOptions {
+  /** Document title in the file properties */
+  title?: string;
+  author?: string;
+  /** Picks the font; default professional */
+  style?: DocumentStyle;
+  /** Default Letter */
+  pageSize?: PageSize;
+  /** Millimetres; 19 (0.75 in) on each side by default */
+  margins?: Partial<PageMargins>;
+}
+
+export interface DocxGenerationRequest extends DocxOptions {
+  type: 'resume' | 'cover-letter' | 'report';
+  /** Generated text; a resume is better exported from `resume` */
+  content?: string;
+  resume?: ResumeData;
+  /** Cover letter sender, shown above the letter */
+  sender?: ResumeContact;
+}
+
+export interface DocxGenerationResult {
+  url: string;
+  fileName: string;
+  /** In bytes */
+  fileSize: number;
+  generationTime: number;
+}
+
+interface Run {
+  text: string;
+  bold?: boolean;
+  italic?: boolean;
+}
+
+interface Paragraph {
+  style?: 'Title' | 'Heading1' | 'Heading2' | 'ListBullet';
+  /** Runs on separate lines within the paragraph, such as a letter's sign-off */
+  lines: Run[][];
+}
+
+const FONTS: Record<DocumentStyle, string> = {
+  professional: 'Times New Roman',
+  modern: 'Calibri',
+  minimal: 'Arial',
+};
+
+/** Width and height in twentieths of a point */
+const PAGE_TWIPS: Record<PageSize, [number, number]> = {
+  A4: [11906, 16838],
+  Letter: [12240, 15840],
+  Legal: [12240, 20160],
+};
+
+const TWIPS_PER_MM = 1440 / 25.4;
+const DEFAULT_MARGINS: PageMargins = { top: 19, right: 19, bottom: 19, left: 19 };
+const BULLET_NUMBERING_ID = 1;
+
+const W_NS = 'http://schemas.openxmlformats.org/wordprocessingml/2006/main';
+const REL_NS = 'http://schemas.openxmlformats.org/officeDocument/2006/relationships';
+const XML_DECLARATION = '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>';
+
+function escapeXml(text: string): string {
+  return (
+    text
+      // Control characters are not allowed in XML at all
+      .replace(/[\x00-\x08\x0B\x0C\x0E-\x1F]/g, '')
+      .replace(/&/g, '&amp;')
+      .replace(/</g, '&lt;')
+      .replace(/>/g, '&gt;')
+      .replace(/"/g, '&quot;')
+  );
+}
+
+const plain = (text: string): Run[][] => [[{ text }]];
+const paragraph = (style: Paragraph['style'], text: string): Paragraph => ({
+  style,
+  lines: plain(text),
+});
+
+function runXml(run: Run): string {
+  const props = `${run.bold ? '<w:b/>' : ''}${run.italic ? '<w:i/>' : ''}`;
+  return `<w:r>${props && `<w:rPr>${props}</w:rPr>`}<w:t xml:space="preserve">${escapeXml(run.text)}</w:t></w:r>`;
+}
+
+function paragraphXml(p: Paragraph): string {
+  const numbering =
+    p.style === 'ListBullet'
+      ? `<w:numPr><w:ilvl w:val="0"/><w:numId w:val="${BULLET_NUMBERING_ID}"/></w:numPr>`
+      : '';
+  const props = p.style ? `<w:pPr><w:pStyle w:val="${p.style}"/>${numbering}</w:pPr>` : '';
+  const lines = p.lines.map((line) => line.map(runXml).join(''));
+  return `<w:p>${props}${lines.join('<w:r><w:br/></w:r>')}</w:p>`;
+}
+
+function documentXml(paragraphs: Paragraph[], options: DocxOptions): string {
+  const [width, height] = PAGE_TWIPS[options.pageSize ?? 'Letter'];
+  const margins = { ...DEFAULT_MARGINS, ...options.margins };
+  const twips = (mm: number) => Math.round(mm * TWIPS_PER_MM);
+
+  return `${XML_DECLARATION}
+<w:document xmlns:w="${W_NS}" xmlns:r="${REL_NS}"><w:body>${paragraphs.map(paragraphXml).join('')}<w:sectPr><w:pgSz w:w="${width}" w:h="${height}"/><w:pgMar w:top="${twips(margins.top)}" w:right="${twips(margins.right)}" w:bottom="${twips(margins.bottom)}" w:left="${twips(margins.left)}" w:header="720" w:footer="720" w:gutter="0"/><w:cols w:space="720"/></w:sectPr></w:body></w:document>`;
+}
+
+function stylesXml(font: string): string {
+  const heading = (id: string, name: string, level: number, size: number, before: number) =>
+    `<w:style w:type="paragraph" w:styleId="${id}"><w:name w:val="${name}"/><w:basedOn w:val="Normal"/><w:next w:val="Normal"/><w:uiPriority w:val="9"/><w:qFormat/><w:pPr><w:keepNext/><w:spacing w:before="${before}" w:after="60"/><w:outlineLvl w:val="${level}"/></w:pPr><w:rPr><w:b/><w:sz w:val="${size}"/></w:rPr></w:style>`;
+
+  return `${XML_DECLARATION}
+<w:styles xmlns:w="${W_NS}"><w:docDefaults><w:rPrDefault><w:rPr><w:rFonts w:ascii="${font}" w:hAnsi="${font}" w:eastAsia="${font}" w:cs="${font}"/><w:sz w:val="22"/><w:szCs w:val="22"/><w:lang w:val="en-US"/></w:rPr></w:rPrDefault><w:pPrDefault><w:pPr><w:spacing w:after="80" w:line="264" w:lineRule="auto"/></w:pPr></w:pPrDefault></w:docDefaults><w:style w:type="paragraph" w:default="1" w:styleId="Normal"><w:name w:val="Normal"/><w:qFormat/></w:style><w:style w:type="paragraph" w:styleId="Title"><w:name w:val="Title"/><w:basedOn w:val="Normal"/><w:next w:val="Normal"/><w:uiPriority w:val="10"/><w:qFormat/><w:pPr><w:spacing w:after="40"/></w:pPr><w:rPr><w:b/><w:sz w:val="36"/></w:rPr></w:style>${heading('Heading1', 'heading 1', 0, 26, 240)}${heading('Heading2', 'heading 2', 1, 22, 120)}<w:style w:type="paragraph" w:styleId="ListBullet"><w:name w:val="List Bullet"/><w:basedOn w:val="Normal"/><w:uiPriority w:val="99"/><w:pPr><w:numPr><w:numId w:val="${BULLET_NUMBERING_ID}"/></w:numPr><w:spacing w:after="40"/><w:ind w:left="360" w:hanging="360"/></w:pPr></w:style></w:styles>`;
+}
+
+const NUMBERING_XML = `${XML_DECLARATION}
+<w:numbering xmlns:w="${W_NS}"><w:abstractNum w:abstractNumId="0"><w:multiLevelType w:val="singleLevel"/><w:lvl w:ilvl="0"><w:start w:val="1"/><w:numFmt w:val="bullet"/><w:pStyle w:val="ListBullet"/><w:lvlText w:val="•"/><w:lvlJc w:val="left"/><w:pPr><w:ind w:left="360" w:hanging="360"/></w:pPr></w:lvl></w:abstractNum><w:num w:numId="${BULLET_NUMBERING_ID}"><w:abstractNumId w:val="0"/></w:num></w:numbering>`;
+
+const CONTENT_TYPES_XML = `${XML_DECLARATION}
+<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types"><Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/><Default Extension="xml" ContentType="application/xml"/><Override PartName="/word/document.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.document.main+xml"/><Override PartName="/word/styles.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.styles+xml"/><Override PartName="/word/numbering.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.numbering+xml"/><Override PartName="/docProps/core.xml" ContentType="application/vnd.openxmlformats-package.core-properties+xml"/></Types>`;
+
+const PACKAGE_RELS_XML = `${XML_DECLARATION}
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships"><Relationship Id="rId1" Type="${REL_NS}/officeDocument" Target="word/document.xml"/><Relationship Id="rId2" Type="http://schemas.openxmlformats.org/package/2006/relationships/metadata/core-properties" Target="docProps/core.xml"/></Relationships>`;
+
+const DOCUMENT_RELS_XML = `${XML_DECLARATION}
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships"><Relationship Id="rId1" Type="${REL_NS}/styles" Target="styles.xml"/><Relationship Id="rId2" Type="${REL_NS}/numbering" Target="numbering.xml"/></Relationships>`;
+
+function coreXml(options: DocxOptions): string {
+  return `${XML_DECLARATION}
+<cp:coreProperties xmlns:cp="http://schemas.openxmlformats.org/package/2006/metadata/core-properties" xmlns:dc="http://purl.org/dc/elements/1.1/">${options.title ? `<dc:title>${escapeXml(options.title)}</dc:title>` : ''}${options.author ? `<dc:creator>${escapeXml(options.author)}</dc:creator>` : ''}</cp:coreProperties>`;
+}
+
+function packageDocx(paragraphs: Paragraph[], options: DocxOptions): Buffer {
+  return createZip([
+    { name: '[Content_Types].xml', data: CONTENT_TYPES_XML },
+    { name: '_rels/.rels', data: PACKAGE_RELS_XML },
+    { name: 'word/document.xml', data: documentXml(paragraphs, options) },
+    { name: 'word/_rels/document.xml.rels', data: DOCUMENT_RELS_XML },
+    { name: 'word/styles.xml', data: stylesXml(FONTS[options.style ?? 'professional']) },
+    { name: 'word/numbering.xml', data: NUMBERING_XML },
+    { name: 'docProps/core.xml', data: coreXml(options) },
+  ]);
+}
+
+/** Name and contact details as plain paragraphs, since ATS parsers skip page headers */
+function contactParagraphs(contact: ResumeContact): Paragraph[] {
+  const details = [contact.email, contact.phone, contact.location, ...(contact.links ?? [])];
+  const line = details.filter(Boolean).join(' | ');
+  return [paragraph('Title', contact.name), ...(line ? [paragraph(undefined, line)] : [])];
+}
+
+/**
+ * A structured resume as DOCX: contact details, then summary, experience, education, skills,
+ * projects and certifications under Heading 1s, each role and project under a Heading 2
+ */
+export function resumeToDocx(resume: ResumeData, options: DocxOptions = {}): Buffer {
+  const paragraphs: Paragraph[] = resume.contact ? contactParagraphs(resume.contact) : [];
+  const section = (heading: string, content: Paragraph[]) => {
+    if (content.length > 0) paragraphs.push(paragraph('Heading1', heading), ...content);
+  };
+  const technologies = (list: string[] | undefined): Paragraph[] =>
+    list?.length
+      ? [{ lines: [[{ text: 'Technologies: ', bold: true }, { text: list.join(', ') }]] }]
+      : [];
+
+  section('Summary', resume.summary ? [paragraph(undefined, resume.summary)] : []);
+  section(
+    'Experience',
+    resume.experience.flatMap((job) => [
+      paragraph('Heading2', `${job.title}, ${job.company}`),
+      ...(job.duration ? [{ lines: [[{ text: job.duration, italic: true }]] }] : []),
+      ...job.achievements.map((achievement) => paragraph('ListBullet', achievement)),
+      ...technologies(job.technologies),
+    ])
+  );
+  section(
+    'Education',
+    resume.education.map((school) => {
+      const details = [school.year, school.gpa && `GPA ${school.gpa}`].filter(Boolean).join(', ');
+      const degree: Run = { text: `${school.degree}, ${school.school}`, bold: true };
+      return { lines: [details ? [degree, { text: ` | ${details}` }] : [degree]] };
+    })
+  );
+  // One comma-separated line, which parsers read more reliably than columns of skills
+  section('Skills', resume.skills.length ? [paragraph(undefined, resume.skills.join(', '))] : []);
+  section(
+    'Projects',
+    (resume.projects ?? []).flatMap((project) => [
+      paragraph('Heading2', project.name),
+      ...(project.description ? [paragraph(undefined, project.description)] : []),
+      ...technologies(project.technologies),
+      ...(project.url ? [paragraph(undefined, project.url)] : []),
+    ])
+  );
+  section(
+    'Certifications',
+    (resume.certifications ?? []).map((certification) => paragraph('ListBullet', certification))
+  );
+
+  return packageDocx(paragraphs, {
+    title: resume.contact ? `${resume.contact.name} - Resume` : 'Resume',
+    author: resume.contact?.name,
+    ...options,
+  });
+}
+
+/**
+ * A cover letter as DOCX, one paragraph per blank-line-separated block; line breaks within a
+ * block, as in a sign-off, are kept
+ */
+export function coverLetterToDocx(
+  content: string,
+  options: DocxOptions & { sender?: ResumeContact } = {}
+): Buffer {
+  const blocks = content
+    .split(/\n\s*\n/)
+    .map((block) => block.trim())
+    .filter(Boolean)
+    .map((block): Paragraph => ({
+      lines: block.split('\n').map((line) => [{ text: line.trim() }]),
+    }));
+  const paragraphs = [...(options.sender ? contactParagraphs(options.sender) : []), ...blocks];
+
+  return packageDocx(paragraphs, {
+    title: 'Cover Letter',
+    author: options.sender?.name,
+    ...options,
+  });
+}
+
+/**
+ * Generated text as DOCX, read the way the PDF formatter reads it: "SECTION:" lines are
+ * headings and lines starting with "-" or "•" are bullets
+ */
+export function textToDocx(content: string, options: DocxOptions = {}): Buffer {
+  const paragraphs = content
+    .split('\n')
+    .map((line) => line.trim())
+    .filter(Boolean)
+    .map((line) => {
+      if (/^[-•]/.test(line)) return paragraph('ListBullet', line.slice(1).trim());
+      if (/^[A-Z\s]+:$/.test(line)) return paragraph('Heading1', line.slice(0, -1));
+      return paragraph(undefined, line);
+    });
+  return packageDocx(paragraphs, options);
+}
+
+/**
+ * Builds DOCX files and saves them to document storage
+ */
+export class DocxGenerationService {
+  private storage: DocumentStorage;
+  private recordEvent: (event: AppendEventInput) => void;
+
+  constructor(
+    options: {
+      storage?: DocumentStorage;
+      /** Where file.created events go; defaults to the event log */
+      recordEvent?: (event: AppendEventInput) => void;
+    } = {}
+  ) {
+    this.storage = options.storage ?? createDocumentStorageFromEnv();
+    this.recordEvent = options.recordEvent ?? recordEvent;
+  }
+
+  async generateDocx(request: DocxGenerationRequest): Promise<DocxGenerationResult> {
+    const startTime = Date.now();
+    const { type, content, resume, sender, ...options } = request;
+
+    let docx: Buffer;
+    if (type === 'resume' && resume) docx = resumeToDocx(resume, options);
+    else if (content === undefined) throw new Error(`No content for the ${type} document`);
+    else if (type === 'cover-letter') docx = coverLetterToDocx(content, { ...options, sender });
+    else docx = textToDocx(content, options);
+
+    const fileName = `${type}-${Date.now()}.docx`;
+    const stored = await this.storage.save(fileName, docx);
+    this.recordEvent({
+      type: 'file.created',
+      source: 'documents',
+      data: { ...stored, fileName, format: 'docx', documentType: type },
+    });
+
+    return {
+      url: stored.url,
+      fileName,
+      fileSize: stored.size,
+      generationTime: Date.now() - startTime,
+    };
+  }
+}
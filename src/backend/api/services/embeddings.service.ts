@@ -0,0 +1,150 @@
+/**
+ * Embeddings
+ * Text embedders for RAG: provider models through the LLM layer, a local CPU model, and the
+ * hashed bag-of-words embedder that works offline
+ * Every embedder has an id naming its vector space; vectors with different ids are not comparable
+ */
+
+import type { LLMAbstractionLayer } from './llm-abstraction.service';
+
+export interface Embedder {
+  /** Provider and model (plus a version for built-ins), e.g. "openai/text-embedding-3-small" */
+  readonly id: string;
+  embed(texts: string[]): Promise<number[][]>;
+}
+
+export const LOCAL_EMBEDDING_PROVIDER = 'local';
+export const DEFAULT_LOCAL_EMBEDDING_MODEL = 'Xenova/all-MiniLM-L6-v2';
+
+// Optional dependency; not installed by default
+const TRANSFORMERS_PACKAGE = '@huggingface/transformers';
+
+type FeatureExtractor = (
+  texts: string[],
+  options: { pooling: 'mean'; normalize: boolean }
+) => Promise<{ tolist(): number[][] }>;
+
+type TransformersModule = {
+  pipeline(task: 'feature-extraction', model: string): Promise<FeatureExtractor>;
+};
+
+/**
+ * Sentence-transformer models run on the CPU through ONNX (transformers.js). Weights are
+ * downloaded from the Hugging Face hub on first use and cached.
+ */
+export class LocalEmbeddingModel {
+  private extractors = new Map<string, Promise<FeatureExtractor>>();
+
+  constructor(
+    private readonly loadModule: () => Promise<TransformersModule> = () =>
+      import(TRANSFORMERS_PACKAGE)
+  ) {}
+
+  async embed(texts: string[], model = DEFAULT_LOCAL_EMBEDDING_MODEL): Promise<number[][]> {
+    const extractor = await this.extractor(model);
+    const output = await extractor(texts, { pooling: 'mean', normalize: true });
+    return output.tolist();
+  }
+
+  private extractor(model: string): Promise<FeatureExtractor> {
+    let extractor = this.extractors.get(model);
+    if (!extractor) {
+      extractor = this.loadModule()
+        .catch((error) => {
+          throw new Error(
+            `Local embeddings need the optional ${TRANSFORMERS_PACKAGE} package (npm install ${TRANSFORMERS_PACKAGE}): ${(error as Error).message}`
+          );
+        })
+        .then((transformers) => transformers.pipeline('feature-extraction', model));
+      // A failed load is retried on the next call
+      extractor.catch(() => this.extractors.delete(model));
+      this.extractors.set(model, extractor);
+    }
+    return extractor;
+  }
+}
+
+/**
+ * Embeds through LLMAbstractionLayer.embed with a fixed provider and model
+ */
+export class LLMEmbedder implements Embedder {
+  readonly id: string;
+
+  constructor(
+    private readonly llm: LLMAbstractionLayer,
+    private readonly provider: string,
+    private readonly model: string
+  ) {
+    this.id = `${provider}/${model}`;
+  }
+
+  async embed(texts: string[]): Promise<number[][]> {
+    const response = await this.llm.embed(
+      { input: texts, feature: 'embeddings' },
+      this.provider,
+      this.model
+    );
+    return response.embeddings;
+  }
+}
+
+/**
+ * 384-dim hashed bag of words. Only matches shared words, but needs no model or network.
+ */
+export class HashEmbedder implements Embedder {
+  readonly id = 'hash/bow-384@1';
+  private readonly dimensions = 384;
+
+  async embed(texts: string[]): Promise<number[][]> {
+    return texts.map((text) => this.embedOne(text));
+  }
+
+  private embedOne(text: string): number[] {
+    const words = text.toLowerCase().split(/\s+/);
+    const embedding: number[] = new Array(this.dimensions).fill(0);
+
+    words.forEach((word, index) => {
+      const position = this.bucket(word);
+      embedding[position] += 1;
+
+      // Add some positional encoding
+      embedding[this.bucket(word + index)] += 0.5;
+    });
+
+    // Normalize the embedding
+    const magnitude = Math.sqrt(embedding.reduce((sum, val) => sum + val * val, 0));
+    return magnitude === 0 ? embedding : embedding.map((val) => val / magnitude);
+  }
+
+  private bucket(str: string): number {
+    let hash = 0;
+    for (let i = 0; i < str.length; i++) {
+      hash = (hash << 5) - hash + str.charCodeAt(i);
+      hash = hash & hash; // Convert to 32-bit integer
+    }
+    return ((hash % this.dimensions) + this.dimensions) % this.dimensions;
+  }
+}
+
+/**
+ * Embedder named by JOBSPRINT_EMBEDDINGS_PROVIDER: a provider id with embedding models
+ * (openai, ollama, ...), "local" for the CPU model, or "hash" (default).
+ * JOBSPRINT_EMBEDDINGS_MODEL picks the model; otherwise the provider's first embedding model.
+ */
+export function createEmbedderFromEnv(llm: LLMAbstractionLayer, env = process.env): Embedder {
+  const provider = env.JOBSPRINT_EMBEDDINGS_PROVIDER || 'hash';
+  const model = env.JOBSPRINT_EMBEDDINGS_MODEL;
+
+  if (provider === 'hash') return new HashEmbedder();
+  if (provider === LOCAL_EMBEDDING_PROVIDER) {
+    return new LLMEmbedder(llm, provider, model || DEFAULT_LOCAL_EMBEDDING_MODEL);
+  }
+
+  const models = llm.listEmbeddingModels().filter((m) => m.provider === provider);
+  if (models.length === 0) {
+    throw new Error(
+      `JOBSPRINT_EMBEDDINGS_PROVIDER must be hash, local or a provider with embedding models; got ${provider}`
+    );
+  }
+  return new LLMEmbedder(llm, provider, model || models[0].model);
+}
@@ -0,0 +1,244 @@
+/**
+ * Event Log Service
+ * Durable, append-only log of platform events (applications, connectors, AI jobs, custom events)
+ * Supports cursor- and time-based polling with type and data filters
+ */
+
+import crypto from 'crypto';
+import { EventEmitter } from 'events';
+import { DatabaseService, getDatabase, selectRows } from './database.service';
+
+export interface EventRecord {
+  id: string;
+  cursor: string;
+  type: string;
+  source: string;
+  data: Record<string, any>;
+  metadata: Record<string, any>;
+  timestamp: string;
+}
+
+export interface AppendEventInput {
+  type: string;
+  source?: string;
+  data?: Record<string, any>;
+  metadata?: Record<string, any>;
+}
+
+export interface EventQuery {
+  types?: string[];
+  /** Opaque cursor from a previous response; only later events are returned */
+  after?: string;
+  /** ISO timestamp; only events at or after this time are returned */
+  since?: string | Date;
+  /** Shallow match against event data, e.g. { platform: 'indeed' } */
+  filter?: Record<string, any>;
+  limit?: number;
+}
+
+export interface EventPage {
+  events: EventRecord[];
+  /** Pass back as `after` to continue from where this page ended */
+  cursor: string;
+  hasMore: boolean;
+}
+
+export interface LiveEventMap {
+  event: [EventRecord];
+}
+
+/**
+ * Every appended event, as it is appended; the websocket relays them to connected clients
+ */
+export const liveEvents = new EventEmitter<LiveEventMap>();
+// One listener per websocket client
+liveEvents.setMaxListeners(0);
+
+interface EventRow {
+  seq: number;
+  id: string;
+  type: string;
+  source: string;
+  data: string;
+  metadata: string;
+  created_at: string;
+}
+
+const DEFAULT_LIMIT = 100;
+const MAX_LIMIT = 500;
+// Upper bound on rows inspected per poll when a data filter discards most of them
+const SCAN_WINDOW = 2000;
+
+export function parseCursor(cursor: string | undefined): number {
+  if (cursor === undefined || cursor === '') return 0;
+  const seq = Number(cursor);
+  if (!Number.isInteger(seq) || seq < 0) {
+    throw new Error(`Invalid event cursor: ${cursor}`);
+  }
+  return seq;
+}
+
+function matchesFilter(data: Record<string, any>, filter: Record<string, any>): boolean {
+  return Object.entries(filter).every(([key, expected]) => {
+    const actual = key.split('.').reduce<any>((value, part) => value?.[part], data);
+    return JSON.stringify(actual) === JSON.stringify(expected);
+  });
+}
+
+export class EventLogService {
+  constructor(
+    private readonly db: DatabaseService = getDatabase(),
+    private readonly broadcast: (event: EventRecord) => void = (event) =>
+      liveEvents.emit('event', event)
+  ) {}
+
+  /**
+   * Append an event to the log and fan it out to live listeners (websocket)
+   */
+  async append(input: AppendEventInput): Promise<EventRecord> {
+    if (!input.type?.trim()) {
+      throw new Error('Event type is required');
+    }
+
+    const event = {
+      id: `evt_${crypto.randomUUID()}`,
+      type: input.type.trim(),
+      source: input.source || 'api',
+      data: input.data || {},
+      metadata: input.metadata || {},
+      timestamp: new Date().toISOString(),
+    };
+
+    const seq = await this.db.transaction((db) => {
+      db.run(
+        `INSERT INTO events (id, type, source, data, metadata, created_at)
+         VALUES (?, ?, ?, ?, ?, ?)`,
+        [
+          event.id,
+          event.type,
+          event.source,
+          JSON.stringify(event.data),
+          JSON.stringify(event.metadata),
+          event.timestamp,
+        ]
+      );
+      const [row] = selectRows<{ seq: number }>(db, 'SELECT last_insert_rowid() AS seq');
+      return row.seq;
+    });
+
+    const record: EventRecord = { ...event, cursor: String(seq) };
+
+    try {
+      this.broadcast(record);
+    } catch (e) {
+      console.warn('[EventLog] broadcast failed:', (e as Error).message);
+    }
+
+    return record;
+  }
+
+  /**
+   * Read events after a cursor. The returned cursor always advances past every
+   * event inspected, so polling with it never yields the same event twice.
+   */
+  async list(query: EventQuery = {}): Promise<EventPage> {
+    const after = parseCursor(query.after);
+    const limit = Math.min(Math.max(Math.floor(query.limit ?? DEFAULT_LIMIT), 0), MAX_LIMIT);
+    const clauses = ['seq > ?'];
+    const params: (string | number)[] = [after];
+
+    if (query.types && query.types.length > 0) {
+      clauses.push(`type IN (${query.types.map(() => '?').join(', ')})`);
+      params.push(...query.types);
+    }
+
+    if (query.since) {
+      clauses.push('created_at >= ?');
+      params.push(new Date(query.since).toISOString());
+    }
+
+    // Both reads run synchronously on the same handle, so no append can land in between
+    const db = await this.db.open();
+    const [head] = selectRows<{ seq: number | null }>(db, 'SELECT MAX(seq) AS seq FROM events');
+    const headSeq = Math.max(after, head?.seq ?? 0);
+
+    // limit=0 just reports the current head, e.g. to start tailing from "now"
+    if (limit === 0) {
+      return { events: [], cursor: String(headSeq), hasMore: false };
+    }
+
+    const scanLimit = query.filter ? SCAN_WINDOW : limit + 1;
+    const rows = selectRows<EventRow>(
+      db,
+      `SELECT * FROM events WHERE ${clauses.join(' AND ')} ORDER BY seq ASC LIMIT ?`,
+      [...params, scanLimit]
+    );
+
+    const events: EventRecord[] = [];
+    let cursor = after;
+    let hasMore = false;
+
+    for (const row of rows) {
+      const event = this.toRecord(row);
+      if (!query.filter || matchesFilter(event.data, query.filter)) {
+        if (events.length === limit) {
+          hasMore = true;
+          break;
+        }
+        events.push(event);
+      }
+      cursor = row.seq;
+    }
+
+    if (!hasMore) {
+      if (rows.length === scanLimit) {
+        // Scan window exhausted by filtered-out rows; resume from the last one inspected
+        hasMore = true;
+      } else {
+        cursor = headSeq;
+      }
+    }
+
+    return { events, cursor: String(cursor), hasMore };
+  }
+
+  /**
+   * Drop events older than the retention cutoff
+   */
+  async prune(olderThan: Date): Promise<number> {
+    const { changes } = await this.db.run('DELETE FROM events WHERE created_at < ?', [
+      olderThan.toISOString(),
+    ]);
+    return changes;
+  }
+
+  private toRecord(row: EventRow): EventRecord {
+    return {
+      id: row.id,
+      cursor: String(row.seq),
+      type: row.type,
+      source: row.source,
+      data: JSON.parse(row.data || '{}'),
+      metadata: JSON.parse(row.metadata || '{}'),
+      timestamp: row.created_at,
+    };
+  }
+}
+
+let sharedEventLog: EventLogService | null = null;
+
+export function getEventLog(): EventLogService {
+  if (!sharedEventLog) {
+    sharedEventLog = new EventLogService();
+  }
+  return sharedEventLog;
+}
+
+/**
+ * Fire-and-forget append for request handlers; failures are logged, never thrown
+ */
+export function recordEvent(input: AppendEventInput): void {
+  getEventLog()
+    .append(input)
+    .catch((e) => console.warn('[EventLog] append failed:', e.message || e));
+}
@@ -0,0 +1,171 @@
+/**
+ * Experience Store
+ * Persistence for each user's own material: resumes, experience bullets, projects and past cover
+ * letters, with the embeddings of their chunks
+ * Documents are keyed per user, so two users may use the same document ids
+ */
+
+import { DatabaseService, getDatabase } from './database.service';
+import type { ExperienceChunk, ExperienceDocument } from './rag-system.service';
+import { decodeVector, encodeVector } from './vectorStore.service';
+
+export interface ExperienceStore {
+  /** Insert or replace a document and all of its chunks */
+  upsertDocument(document: ExperienceDocument, chunks: ExperienceChunk[]): Promise<void>;
+  /** Replace the vector and model of existing chunks */
+  updateChunks(chunks: ExperienceChunk[]): Promise<void>;
+  /** Remove a document and its chunks; false if it was not stored */
+  deleteDocument(userId: string, documentId: string): Promise<boolean>;
+  getDocument(userId: string, documentId: string): Promise<ExperienceDocument | null>;
+  listDocuments(userId: string): Promise<ExperienceDocument[]>;
+  /** Chunks of all of a user's documents, or of one, in document and chunk order */
+  getChunks(userId: string, documentId?: string): Promise<ExperienceChunk[]>;
+}
+
+interface DocumentRow {
+  user_id: string;
+  id: string;
+  kind: ExperienceDocument['kind'];
+  title: string | null;
+  content: string;
+}
+
+interface ChunkRow {
+  user_id: string;
+  document_id: string;
+  chunk_index: number;
+  content: string;
+  model: string;
+  vector: Uint8Array;
+}
+
+function toDocument(row: DocumentRow): ExperienceDocument {
+  return {
+    id: row.id,
+    userId: row.user_id,
+    kind: row.kind,
+    ...(row.title !== null && { title: row.title }),
+    content: row.content,
+  };
+}
+
+function toChunk(row: ChunkRow): ExperienceChunk {
+  return {
+    id: `${row.document_id}-${row.chunk_index}`,
+    userId: row.user_id,
+    documentId: row.document_id,
+    chunkIndex: row.chunk_index,
+    content: row.content,
+    model: row.model,
+    vector: decodeVector(row.vector),
+  };
+}
+
+/**
+ * Experience store in the embedded SQLite database
+ */
+export class SqliteExperienceStore implements ExperienceStore {
+  constructor(private readonly db: DatabaseService = getDatabase()) {}
+
+  async upsertDocument(document: ExperienceDocument, chunks: ExperienceChunk[]): Promise<void> {
+    const now = new Date().toISOString();
+
+    await this.db.transaction((db) => {
+      db.run(
+        `INSERT INTO experience_documents (user_id, id, kind, title, content, created_at, updated_at)
+         VALUES (?, ?, ?, ?, ?, ?, ?)
+         ON CONFLICT (user_id, id) DO UPDATE SET
+           kind = excluded.kind,
+           title = excluded.title,
+           content = excluded.content,
+           updated_at = excluded.updated_at`,
+        [
+          document.userId,
+          document.id,
+          document.kind,
+          document.title ?? null,
+          document.content,
+          now,
+          now,
+        ]
+      );
+      db.run('DELETE FROM experience_chunks WHERE user_id = ? AND document_id = ?', [
+        document.userId,
+        document.id,
+      ]);
+      for (const chunk of chunks) {
+        db.run(
+          `INSERT INTO experience_chunks (user_id, document_id, chunk_index, content, model, vector)
+           VALUES (?, ?, ?, ?, ?, ?)`,
+          [
+            document.userId,
+            document.id,
+            chunk.chunkIndex,
+            chunk.content,
+            chunk.model,
+            encodeVector(chunk.vector),
+          ]
+        );
+      }
+    });
+  }
+
+  async updateChunks(chunks: ExperienceChunk[]): Promise<void> {
+    if (chunks.length === 0) return;
+
+    await this.db.transaction((db) => {
+      for (const chunk of chunks) {
+        db.run(
+          `UPDATE experience_chunks SET model = ?, vector = ?
+           WHERE user_id = ? AND document_id = ? AND chunk_index = ?`,
+          [
+            chunk.model,
+            encodeVector(chunk.vector),
+            chunk.userId,
+            chunk.documentId,
+            chunk.chunkIndex,
+          ]
+        );
+      }
+    });
+  }
+
+  async deleteDocument(userId: string, documentId: string): Promise<boolean> {
+    // Chunks are deleted explicitly rather than left to the cascade, so none outlive the document
+    return this.db.transaction((db) => {
+      db.run('DELETE FROM experience_chunks WHERE user_id = ? AND document_id = ?', [
+        userId,
+        documentId,
+      ]);
+      db.run('DELETE FROM experience_documents WHERE user_id = ? AND id = ?', [userId, documentId]);
+      return db.getRowsModified() > 0;
+    });
+  }
+
+  async getDocument(userId: string, documentId: string): Promise<ExperienceDocument | null> {
+    const row = await this.db.queryOne<DocumentRow>(
+      'SELECT * FROM experience_documents WHERE user_id = ? AND id = ?',
+      [userId, documentId]
+    );
+    return row ? toDocument(row) : null;
+  }
+
+  async listDocuments(userId: string): Promise<ExperienceDocument[]> {
+    const rows = await this.db.query<DocumentRow>(
+      'SELECT * FROM experience_documents WHERE user_id = ? ORDER BY created_at, id',
+      [userId]
+    );
+    return rows.map(toDocument);
+  }
+
+  async getChunks(userId: string, documentId?: string): Promise<ExperienceChunk[]> {
+    const rows = await this.db.query<ChunkRow>(
+      `SELECT c.* FROM experience_chunks c
+       JOIN experience_documents d ON d.user_id = c.user_id AND d.id = c.document_id
+       WHERE c.user_id = ? ${documentId === undefined ? '' : 'AND c.document_id = ?'}
+       ORDER BY d.created_at, d.id, c.chunk_index`,
+      documentId === undefined ? [userId] : [userId, documentId]
+    );
+    return rows.map(toChunk);
+  }
+}
@@ -0,0 +1,390 @@
+/**
+ * HNSW Index
+ * Approximate nearest-neighbour search over embeddings (Hierarchical Navigable Small World
+ * graphs, Malkov & Yashunin 2016), scored by cosine similarity
+ * Supports incremental inserts and removals; the graph serializes without its vectors, which
+ * are supplied again when it is restored
+ */
+
+export interface HnswOptions {
+  /** Links per node on upper layers (twice as many on the bottom layer) */
+  m?: number;
+  /** Search breadth while inserting; higher builds a better graph, more slowly */
+  efConstruction?: number;
+  /** Source of randomness for node levels, for reproducible graphs */
+  random?: () => number;
+}
+
+export interface HnswMatch {
+  id: string;
+  /** Cosine similarity to the query */
+  score: number;
+}
+
+/** Serialized graph; neighbours are indexes into nodes */
+export interface HnswGraph {
+  version: 1;
+  m: number;
+  efConstruction: number;
+  entryPoint: number | null;
+  nodes: Array<{ id: string; level: number; neighbors: number[][] }>;
+}
+
+export const DEFAULT_SEARCH_EF = 64;
+
+interface HnswNode {
+  id: string;
+  vector: Float32Array;
+  level: number;
+  neighbors: string[][];
+}
+
+interface Candidate {
+  id: string;
+  score: number;
+}
+
+/**
+ * Binary heap ordered by `before`
+ */
+class Heap<T> {
+  private items: T[] = [];
+
+  constructor(private readonly before: (a: T, b: T) => boolean) {}
+
+  get length(): number {
+    return this.items.length;
+  }
+
+  peek(): T | undefined {
+    return this.items[0];
+  }
+
+  push(item: T): void {
+    const items = this.items;
+    items.push(item);
+    let i = items.length - 1;
+    while (i > 0) {
+      const parent = (i - 1) >> 1;
+      if (!this.before(items[i], items[parent])) break;
+      [items[i], items[parent]] = [items[parent], items[i]];
+      i = parent;
+    }
+  }
+
+  pop(): T | undefined {
+    const items = this.items;
+    const top = items[0];
+    const last = items.pop();
+    if (items.length > 0 && last !== undefined) {
+      items[0] = last;
+      let i = 0;
+      for (;;) {
+        const left = 2 * i + 1;
+        const right = left + 1;
+        let next = i;
+        if (left < items.length && this.before(items[left], items[next])) next = left;
+        if (right < items.length && this.before(items[right], items[next])) next = right;
+        if (next === i) break;
+        [items[i], items[next]] = [items[next], items[i]];
+        i = next;
+      }
+    }
+    return top;
+  }
+
+  toArray(): T[] {
+    return [...this.items];
+  }
+}
+
+function normalize(vector: ArrayLike<number>): Float32Array {
+  const normalized = Float32Array.from(vector);
+  let norm = 0;
+  for (let i = 0; i < normalized.length; i++) norm += normalized[i] * normalized[i];
+  norm = Math.sqrt(norm);
+  if (norm > 0) {
+    for (let i = 0; i < normalized.length; i++) normalized[i] /= norm;
+  }
+  return normalized;
+}
+
+function dot(a: Float32Array, b: Float32Array): number {
+  if (a.length !== b.length) {
+    throw new Error('Vectors must have the same length');
+  }
+  let sum = 0;
+  for (let i = 0; i < a.length; i++) sum += a[i] * b[i];
+  return sum;
+}
+
+export class HnswIndex {
+  readonly m: number;
+  readonly efConstruction: number;
+  private readonly random: () => number;
+  private readonly levelFactor: number;
+  private nodes = new Map<string, HnswNode>();
+  private entryPoint: string | null = null;
+
+  constructor(options: HnswOptions = {}) {
+    this.m = options.m ?? 16;
+    this.efConstruction = options.efConstruction ?? 200;
+    this.random = options.random ?? Math.random;
+    this.levelFactor = 1 / Math.log(this.m);
+  }
+
+  /**
+   * Restore an index from a serialized graph. Nodes without a vector are dropped; vectors
+   * without a node are left for the caller to add.
+   */
+  static fromJSON(
+    graph: HnswGraph,
+    vectors: Map<string, number[]>,
+    options: Pick<HnswOptions, 'random'> = {}
+  ): HnswIndex {
+    const index = new HnswIndex({ ...options, m: graph.m, efConstruction: graph.efConstruction });
+    const ids = graph.nodes.map((node) => node.id);
+    const dropped = new Map(
+      graph.nodes.filter((node) => !vectors.has(node.id)).map((node) => [node.id, node])
+    );
+
+    for (const node of graph.nodes) {
+      if (dropped.has(node.id)) continue;
+      index.nodes.set(node.id, {
+        id: node.id,
+        vector: normalize(vectors.get(node.id)!),
+        level: node.level,
+        neighbors: node.neighbors.map((layer) => layer.map((i) => ids[i])),
+      });
+    }
+
+    // Reconnect nodes that linked to a dropped node through that node's own links
+    for (const node of index.nodes.values()) {
+      node.neighbors.forEach((links, layer) => {
+        if (!links.some((link) => dropped.has(link))) return;
+        const candidates = new Set<string>();
+        for (const link of links) {
+          const gone = dropped.get(link);
+          if (!gone) {
+            candidates.add(link);
+            continue;
+          }
+          for (const i of gone.neighbors[layer] ?? []) {
+            if (index.nodes.has(ids[i]) && ids[i] !== node.id) candidates.add(ids[i]);
+          }
+        }
+        index.relink(node, layer, [...candidates]);
+      });
+    }
+
+    const entryPoint = graph.entryPoint === null ? null : ids[graph.entryPoint];
+    if (entryPoint && index.nodes.has(entryPoint)) {
+      index.entryPoint = entryPoint;
+    } else {
+      index.resetEntryPoint();
+    }
+    return index;
+  }
+
+  get size(): number {
+    return this.nodes.size;
+  }
+
+  has(id: string): boolean {
+    return this.nodes.has(id);
+  }
+
+  ids(): string[] {
+    return [...this.nodes.keys()];
+  }
+
+  /**
+   * Insert a vector, replacing any previous vector with the same id
+   */
+  add(id: string, vector: number[]): void {
+    if (this.nodes.has(id)) this.remove(id);
+
+    const node: HnswNode = {
+      id,
+      vector: normalize(vector),
+      level: Math.floor(-Math.log(1 - this.random()) * this.levelFactor),
+      neighbors: [],
+    };
+    for (let layer = 0; layer <= node.level; layer++) node.neighbors.push([]);
+
+    const entry = this.entryPoint ? this.nodes.get(this.entryPoint)! : null;
+    this.nodes.set(id, node);
+    if (!entry) {
+      this.entryPoint = id;
+      return;
+    }
+
+    // Descend greedily to the node's top layer, then link it on every layer below
+    let nearest: Candidate[] = [{ id: entry.id, score: dot(node.vector, entry.vector) }];
+    for (let layer = entry.level; layer > node.level; layer--) {
+      nearest = this.searchLayer(node.vector, nearest, 1, layer);
+    }
+    for (let layer = Math.min(node.level, entry.level); layer >= 0; layer--) {
+      nearest = this.searchLayer(node.vector, nearest, this.efConstruction, layer);
+      node.neighbors[layer] = this.selectNeighbors(node.vector, nearest, this.maxLinks(layer));
+
+      for (const neighborId of node.neighbors[layer]) {
+        const neighbor = this.nodes.get(neighborId)!;
+        neighbor.neighbors[layer].push(id);
+        if (neighbor.neighbors[layer].length > this.maxLinks(layer)) {
+          this.relink(neighbor, layer, neighbor.neighbors[layer]);
+        }
+      }
+    }
+
+    if (node.level > entry.level) this.entryPoint = id;
+  }
+
+  /**
+   * Remove a vector, reconnecting the nodes that linked to it. Returns false if absent.
+   */
+  remove(id: string): boolean {
+    const removed = this.nodes.get(id);
+    if (!removed) return false;
+    this.nodes.delete(id);
+
+    // Links are not symmetric, so find every node that pointed at the removed one
+    for (const node of this.nodes.values()) {
+      for (let layer = 0; layer < node.neighbors.length; layer++) {
+        const links = node.neighbors[layer];
+        if (!links.includes(id)) continue;
+        const candidates = new Set(links.filter((link) => link !== id));
+        for (const link of removed.neighbors[layer] ?? []) {
+          if (link !== node.id && this.nodes.has(link)) candidates.add(link);
+        }
+        this.relink(node, layer, [...candidates]);
+      }
+    }
+
+    if (this.entryPoint === id) this.resetEntryPoint();
+    return true;
+  }
+
+  /**
+   * The k most similar vectors, best first. `ef` is the breadth of the bottom-layer search:
+   * raising it finds more of the true nearest neighbours at the cost of speed.
+   */
+  search(vector: number[], k: number, ef = DEFAULT_SEARCH_EF): HnswMatch[] {
+    if (!this.entryPoint || k <= 0) return [];
+
+    const query = normalize(vector);
+    const entry = this.nodes.get(this.entryPoint)!;
+    let nearest: Candidate[] = [{ id: entry.id, score: dot(query, entry.vector) }];
+    for (let layer = entry.level; layer > 0; layer--) {
+      nearest = this.searchLayer(query, nearest, 1, layer);
+    }
+
+    return this.searchLayer(query, nearest, Math.max(ef, k), 0)
+      .sort((a, b) => b.score - a.score)
+      .slice(0, k);
+  }
+
+  toJSON(): HnswGraph {
+    const ids = [...this.nodes.keys()];
+    const position = new Map(ids.map((id, i) => [id, i]));
+
+    return {
+      version: 1,
+      m: this.m,
+      efConstruction: this.efConstruction,
+      entryPoint: this.entryPoint === null ? null : position.get(this.entryPoint)!,
+      nodes: [...this.nodes.values()].map((node) => ({
+        id: node.id,
+        level: node.level,
+        neighbors: node.neighbors.map((layer) => layer.map((link) => position.get(link)!)),
+      })),
+    };
+  }
+
+  /**
+   * Enter the graph at its highest node
+   */
+  private resetEntryPoint(): void {
+    let top: HnswNode | null = null;
+    for (const node of this.nodes.values()) {
+      if (!top || node.level > top.level) top = node;
+    }
+    this.entryPoint = top?.id ?? null;
+  }
+
+  private maxLinks(layer: number): number {
+    return layer === 0 ? this.m * 2 : this.m;
+  }
+
+  /**
+   * Best-first search of one layer from the entry candidates, keeping the ef most similar
+   */
+  private searchLayer(
+    query: Float32Array,
+    entries: Candidate[],
+    ef: number,
+    layer: number
+  ): Candidate[] {
+    const visited = new Set(entries.map((entry) => entry.id));
+    const frontier = new Heap<Candidate>((a, b) => a.score > b.score);
+    const found = new Heap<Candidate>((a, b) => a.score < b.score);
+
+    for (const entry of entries) {
+      frontier.push(entry);
+      found.push(entry);
+      if (found.length > ef) found.pop();
+    }
+
+    while (frontier.length > 0) {
+      const current = frontier.pop()!;
+      if (found.length >= ef && current.score < found.peek()!.score) break;
+
+      for (const link of this.nodes.get(current.id)?.neighbors[layer] ?? []) {
+        if (visited.has(link)) continue;
+        visited.add(link);
+        const neighbor = this.nodes.get(link);
+        if (!neighbor) continue;
+
+        const candidate = { id: link, score: dot(query, neighbor.vector) };
+        if (found.length < ef || candidate.score > found.peek()!.score) {
+          frontier.push(candidate);
+          found.push(candidate);
+          if (found.length > ef) found.pop();
+        }
+      }
+    }
+
+    return found.toArray();
+  }
+
+  /**
+   * Neighbour selection heuristic: prefer candidates closer to the base than to any neighbour
+   * already chosen, which keeps links spread across clusters; fill up with the rest
+   */
+  private selectNeighbors(base: Float32Array, candidates: Candidate[], max: number): string[] {
+    const sorted = [...candidates].sort((a, b) => b.score - a.score);
+    const selected: HnswNode[] = [];
+    const skipped: string[] = [];
+
+    for (const candidate of sorted) {
+      if (selected.length >= max) break;
+      const node = this.nodes.get(candidate.id);
+      if (!node || node.vector === base) continue;
+      if (selected.every((chosen) => candidate.score > dot(node.vector, chosen.vector))) {
+        selected.push(node);
+      } else {
+        skipped.push(node.id);
+      }
+    }
+
+    return [...selected.map((node) => node.id), ...skipped].slice(0, max);
+  }
+
+  private relink(node: HnswNode, layer: number, candidates: string[]): void {
+    node.neighbors[layer] = this.selectNeighbors(
+      node.vector,
+      candidates.map((id) => ({ id, score: dot(node.vector, this.nodes.get(id)!.vector) })),
+      this.maxLinks(layer)
+    );
+  }
+}
@@ -0,0 +1,629 @@
+/**
+ * Job Posting Parser
+ * Splits raw posting text (an Indeed description, a copy-paste from a careers page) into the
+ * parts RAG indexes: about, responsibilities, must-have and nice-to-have requirements, benefits,
+ * compensation, location and visa sponsorship
+ * Headings and line patterns do the work; an optional LLM pass refines the result
+ */
+
+import { JsonSchema, LLMAbstractionLayer } from './llm-abstraction.service';
+import type { JobDescription } from './rag-system.service';
+
+export type JobSectionKind =
+  | 'about'
+  | 'responsibilities'
+  | 'requirements'
+  | 'niceToHave'
+  | 'benefits'
+  | 'compensation'
+  | 'location'
+  | 'visa'
+  | 'other';
+
+export interface JobSection {
+  kind: JobSectionKind;
+  /** Heading as written; absent for the text before the first heading */
+  heading?: string;
+  lines: string[];
+}
+
+export interface Compensation {
+  /** The line the pay was found on */
+  text: string;
+  min?: number;
+  max?: number;
+  /** ISO code; "$" is read as USD */
+  currency?: string;
+  period?: 'year' | 'month' | 'week' | 'day' | 'hour';
+}
+
+export interface ParsedJobPosting {
+  about: string;
+  responsibilities: string[];
+  requirements: string[];
+  niceToHave: string[];
+  benefits: string[];
+  compensation?: Compensation;
+  location?: { text?: string; workplace?: 'remote' | 'hybrid' | 'onsite' };
+  visa?: { text: string; sponsorship?: boolean };
+  employmentType?: string;
+  /** Known technologies and tools the posting names, in order of first mention */
+  skills: string[];
+  sections: JobSection[];
+  /** Whether the LLM pass refined the heuristic result */
+  refined: boolean;
+}
+
+export interface JobPosting {
+  id: string;
+  title: string;
+  company: string;
+  text: string;
+  url?: string;
+  postedDate?: Date;
+}
+
+/**
+ * Heading patterns, most specific first: "Preferred qualifications" is nice-to-have before it is
+ * a qualification, "About you" describes requirements before it is an about section
+ */
+const HEADINGS: Array<[JobSectionKind, RegExp]> = [
+  [
+    'niceToHave',
+    /nice[\s-]to[\s-]haves?|preferred|bonus|\bplus\b|desir|good to have|extra credit|ideally/i,
+  ],
+  [
+    'requirements',
+    /about you|who you are|what you('ll)? (need|bring)|must[\s-]haves?|what we('re)? looking for/i,
+  ],
+  ['about', /^about\b|who we are|overview|our (mission|story)|the company/i],
+  ['visa', /visa|sponsorship|work authori[sz]ation|right to work/i],
+  ['compensation', /compensation|salary|\bpay\b|wages?\b|\brate\b/i],
+  ['benefits', /benefits|perks|what we offer|why (join|work)|in return/i],
+  ['location', /location|where you('ll)? work|workplace|remote/i],
+  [
+    'responsibilities',
+    /responsibilit|what you('ll| will) (do|be doing)|duties|day[\s-]to[\s-]day|your (role|impact|mission)|the role|in this role|key tasks/i,
+  ],
+  ['requirements', /requirement|qualification|skills|experience|you (have|bring)|profile/i],
+  ['about', /company|team|introduction|summary|description|opportunity/i],
+];
+
+/** Headings of sections with nothing to extract, which still end the section before them */
+const OTHER_HEADINGS =
+  /\b(tech(nology)? )?stack\b|tools we use|how to apply|interview process|equal opportunit/i;
+
+/** "Label: value" lines about the job itself, like "Job Type: Full-time" */
+const JOB_FIELD_LABEL =
+  /^(job type|employment( type)?|schedule|shift|start date|contract( length| type)?|hours)$/i;
+
+const VISA_LINE = /visa|sponsor|work authori[sz]ation|right to work|authori[sz]ed to work/i;
+
+/** Lines in a requirements list that are really nice-to-haves */
+const NICE_TO_HAVE_LINE =
+  /\b(nice to have|(is )?a (big )?plus|bonus|preferred|ideally|desirable|not required)\b/i;
+
+/** Sentence patterns for postings without headings */
+const SENTENCE_KINDS: Array<[JobSectionKind, RegExp]> = [
+  ['niceToHave', NICE_TO_HAVE_LINE],
+  ['visa', VISA_LINE],
+  [
+    'requirements',
+    /\b(\d+\+? years|experience (with|in)|proficien|knowledge of|familiar(ity)? with|degree in|you have|must have|strong .*skills)\b/i,
+  ],
+  ['responsibilities', /\b(you('ll| will)|responsible for|your role)\b/i],
+  ['benefits', /\b(we offer|benefits|paid time off|pto|health insurance|401\(?k\)?|pension)\b/i],
+];
+
+/** Label: value lines that carry a field instead of starting a section */
+const LABEL_LINE = /^([A-Za-z][A-Za-z /&'-]{1,30}):\s+(\S.*)$/;
+
+const LIST_MARKER = /^(?:[•▪◦·]\s*|[-*+–]\s+|\d+[.)]\s+)/;
+
+/** Label kinds whose "Label: value" lines are fields, like "Salary: $90k" */
+const FIELD_KINDS = new Set<JobSectionKind>(['compensation', 'location', 'visa']);
+
+const CURRENCIES: Record<string, string> = { $: 'USD', '£': 'GBP', '€': 'EUR' };
+const CURRENCY = String.raw`(?:[$£€]|\b(?:USD|EUR|GBP|CAD|AUD)\b)`;
+const NUMBER = String.raw`(\d[\d,]*(?:\.\d+)?)\s?([kK])?`;
+const MONEY = new RegExp(
+  `(${CURRENCY})\\s?${NUMBER}(?:\\s*(?:-|–|—|to)\\s*${CURRENCY}?\\s?${NUMBER})?`
+);
+const PERIODS: Array<[NonNullable<Compensation['period']>, RegExp]> = [
+  ['hour', /(?:\b(?:per|an?)\s+|\/\s*)(?:hour|hr)\b|\bhourly\b/i],
+  ['day', /(?:\b(?:per|a)\s+|\/\s*)day\b|\bdaily\b|\bday rate\b/i],
+  ['week', /(?:\b(?:per|a)\s+|\/\s*)(?:week|wk)\b|\bweekly\b/i],
+  ['month', /(?:\b(?:per|a)\s+|\/\s*)(?:month|mo)\b|\bmonthly\b/i],
+  [
+    'year',
+    /(?:\b(?:per|an?)\s+|\/\s*)(?:year|yr|annum)\b|\bannual(?:ly)?\b|\byearly\b|\bp\.a\.|\bsalary\b/i,
+  ],
+];
+const PAY_WORDS = /salary|pay|compensation|base|range|wage|rate|OTE|per|\/\s*(hr|hour|year|yr)/i;
+
+const EMPLOYMENT_TYPE =
+  /\b(full[\s-]time|part[\s-]time|contract(?:or)?|temporary|internship|freelance|permanent)\b/i;
+
+/**
+ * Technologies and tools recognized as skills
+ */
+const KNOWN_SKILLS = [
+  'JavaScript',
+  'TypeScript',
+  'Node.js',
+  'React',
+  'React Native',
+  'Vue',
+  'Angular',
+  'Svelte',
+  'Next.js',
+  'HTML',
+  'CSS',
+  'Tailwind',
+  'GraphQL',
+  'REST',
+  'gRPC',
+  'Python',
+  'Django',
+  'Flask',
+  'FastAPI',
+  'Java',
+  'Kotlin',
+  'Scala',
+  'Spring',
+  'Go',
+  'Golang',
+  'Rust',
+  'C++',
+  'C#',
+  '.NET',
+  'Ruby',
+  'Rails',
+  'PHP',
+  'Laravel',
+  'Swift',
+  'Objective-C',
+  'Elixir',
+  'Haskell',
+  'SQL',
+  'PostgreSQL',
+  'MySQL',
+  'SQLite',
+  'MongoDB',
+  'Redis',
+  'Elasticsearch',
+  'Cassandra',
+  'DynamoDB',
+  'Snowflake',
+  'BigQuery',
+  'Kafka',
+  'RabbitMQ',
+  'Spark',
+  'Airflow',
+  'dbt',
+  'Hadoop',
+  'AWS',
+  'GCP',
+  'Azure',
+  'Docker',
+  'Kubernetes',
+  'Helm',
+  'Terraform',
+  'Ansible',
+  'Pulumi',
+  'Linux',
+  'Git',
+  'CI/CD',
+  'Jenkins',
+  'GitHub Actions',
+  'Prometheus',
+  'Grafana',
+  'Datadog',
+  'TensorFlow',
+  'PyTorch',
+  'scikit-learn',
+  'Pandas',
+  'NumPy',
+  'LLM',
+  'Machine Learning',
+  'Figma',
+  'Jira',
+  'Salesforce',
+  'Excel',
+  'Tableau',
+  'Power BI',
+  'Looker',
+  'SAP',
+  'Agile',
+  'Scrum',
+  'SOC 2',
+  'ISO 27001',
+  'HIPAA',
+  'GDPR',
+];
+
+/** Skills that are also everyday words ("react to", "excel at") or acronyms match in this case only */
+const CASE_SENSITIVE_SKILLS = new Set([
+  'Go',
+  'Rust',
+  'Swift',
+  'Spring',
+  'Rails',
+  'Excel',
+  'Spark',
+  'Helm',
+  'React',
+]);
+
+const SKILL_PATTERNS = KNOWN_SKILLS.map((skill) => {
+  const escaped = skill.replace(/[.*+?^${}()|[\]\\/]/g, '\\$&');
+  const exact = CASE_SENSITIVE_SKILLS.has(skill) || skill === skill.toUpperCase();
+  return {
+    skill,
+    pattern: new RegExp(`(?<![\\w+#.])${escaped}(?![\\w+#-]|\\.\\w)`, exact ? '' : 'i'),
+  };
+});
+
+const stringList: JsonSchema = { type: 'array', items: { type: 'string' } };
+
+const JOB_POSTING_SCHEMA: JsonSchema = {
+  type: 'object',
+  properties: {
+    about: { type: 'string' },
+    responsibilities: stringList,
+    requirements: stringList,
+    niceToHave: stringList,
+    benefits: stringList,
+    skills: stringList,
+    compensation: { type: 'string', description: 'Pay as written, empty if not stated' },
+    location: { type: 'string' },
+    workplace: { type: 'string', enum: ['remote', 'hybrid', 'onsite', 'unknown'] },
+    visaSponsorship: { type: 'string', enum: ['yes', 'no', 'unknown'] },
+  },
+  required: ['responsibilities', 'requirements', 'niceToHave', 'benefits', 'skills'],
+};
+
+interface JobPostingReply {
+  about?: string;
+  responsibilities: string[];
+  requirements: string[];
+  niceToHave: string[];
+  benefits: string[];
+  skills: string[];
+  compensation?: string;
+  location?: string;
+  workplace?: 'remote' | 'hybrid' | 'onsite' | 'unknown';
+  visaSponsorship?: 'yes' | 'no' | 'unknown';
+}
+
+function classifyHeading(text: string): JobSectionKind {
+  return HEADINGS.find(([, pattern]) => pattern.test(text))?.[0] ?? 'other';
+}
+
+function stripMarkup(line: string): string {
+  return line
+    .replace(/^#{1,6}\s+/, '')
+    .replace(/\*\*|__/g, '')
+    .replace(LIST_MARKER, '')
+    .trim();
+}
+
+/**
+ * The heading text if the line is one: a markdown heading, a bold line, a short line ending in
+ * a colon, or a short line that names a known section
+ */
+function headingText(raw: string): string | null {
+  const line = raw.trim();
+  if (LIST_MARKER.test(line)) return null;
+
+  const text = stripMarkup(line).replace(/:$/, '').trim();
+  const words = text.split(/\s+/).length;
+  if (!text || words > 8 || /[.!?]$/.test(text) || LABEL_LINE.test(text)) return null;
+
+  const marked =
+    /^#{1,6}\s/.test(line) || /^(\*\*|__).+(\*\*|__):?$/.test(line) || line.endsWith(':');
+  if (marked) return text;
+
+  // Unmarked lines only when they name a section, so "ACME CORP" stays text, and only when
+  // title-cased or very short, so "Experience in the energy sector" stays a requirement
+  if (classifyHeading(text) === 'other' && !OTHER_HEADINGS.test(text)) return null;
+  const titled = text.split(/\s+/).every((word) => word.length < 4 || /^[^a-z]/.test(word));
+  return titled || (words <= 3 && !/\s\S*[A-Z]/.test(text)) ? text : null;
+}
+
+/**
+ * Split a posting into sections by its headings. Text before the first heading is "about";
+ * "Label: value" lines with a known label go to their own section.
+ */
+export function segmentJobPosting(text: string): JobSection[] {
+  const sections: JobSection[] = [];
+  let current: JobSection = { kind: 'about', lines: [] };
+  sections.push(current);
+
+  for (const raw of text.replace(/\r\n?/g, '\n').split('\n')) {
+    if (!raw.trim()) continue;
+
+    const heading = headingText(raw);
+    if (heading) {
+      current = { kind: classifyHeading(heading), heading, lines: [] };
+      sections.push(current);
+      continue;
+    }
+
+    const line = stripMarkup(raw);
+    const label = LABEL_LINE.exec(line);
+    const labelKind = label ? classifyHeading(label[1]) : 'other';
+    if (label && (FIELD_KINDS.has(labelKind) || JOB_FIELD_LABEL.test(label[1]))) {
+      sections.push({ kind: labelKind, heading: label[1], lines: [label[2]] });
+      continue;
+    }
+    current.lines.push(line);
+  }
+
+  return sections.filter((section) => section.lines.length > 0);
+}
+
+/**
+ * Pay range from a line such as "$120,000 - $150,000 per year" or "£45k-£55k"
+ */
+export function parseCompensation(text: string): Compensation | undefined {
+  const match = MONEY.exec(text);
+  if (!match) return undefined;
+
+  const amount = (digits: string | undefined, thousands: string | undefined) =>
+    digits === undefined ? undefined : Number(digits.replace(/,/g, '')) * (thousands ? 1000 : 1);
+  let min = amount(match[2], match[3])!;
+  const max = amount(match[4], match[5]);
+  // "£45-55k" applies the k to both ends
+  if (max !== undefined && match[5] && !match[3] && min < 1000) min *= 1000;
+  const symbol = match[1];
+
+  return {
+    text: text.trim(),
+    min,
+    max: max ?? min,
+    currency: CURRENCIES[symbol] ?? symbol,
+    period: PERIODS.find(([, pattern]) => pattern.test(text))?.[0],
+  };
+}
+
+function findCompensation(sections: JobSection[]): Compensation | undefined {
+  for (const section of sections.filter((s) => s.kind === 'compensation')) {
+    for (const line of section.lines) {
+      const compensation = parseCompensation(line);
+      if (compensation) return compensation;
+    }
+  }
+  // Amounts elsewhere only count next to pay wording, so "$2B in revenue" is not a salary
+  for (const section of sections) {
+    for (const line of section.lines) {
+      if (!PAY_WORDS.test(line)) continue;
+      const compensation = parseCompensation(line);
+      if (compensation) return compensation;
+    }
+  }
+  return undefined;
+}
+
+function findWorkplace(text: string): 'remote' | 'hybrid' | 'onsite' | undefined {
+  if (/\bhybrid\b/i.test(text)) return 'hybrid';
+  if (/\b(fully |100% )?remote\b/i.test(text) && !/\bnot (a )?remote\b/i.test(text)) {
+    return 'remote';
+  }
+  if (/\b(on[\s-]?site|in[\s-]office|in[\s-]person)\b/i.test(text)) return 'onsite';
+  return undefined;
+}
+
+function findSponsorship(text: string): boolean | undefined {
+  if (
+    /\b(not|unable to|cannot|can't|won't|will not|do not|does not|no)\b[^.]{0,40}\bsponsor/i.test(
+      text
+    ) ||
+    /without (the need for |requiring )?(current or future )?(visa )?sponsorship/i.test(text)
+  ) {
+    return false;
+  }
+  if (
+    /\b(will|can|able to|happy to|we) (provide )?(visa )?sponsor|sponsorship (is )?(available|provided|offered)|visa support/i.test(
+      text
+    )
+  ) {
+    return true;
+  }
+  return undefined;
+}
+
+export function findSkills(lines: string[]): string[] {
+  const text = lines.join('\n');
+  return SKILL_PATTERNS.map(({ skill, pattern }) => ({ skill, index: text.search(pattern) }))
+    .filter((found) => found.index >= 0)
+    .sort((a, b) => a.index - b.index)
+    .map((found) => found.skill);
+}
+
+function sentences(text: string): string[] {
+  return text
+    .split(/(?<=[.!?])\s+(?=[A-Z0-9])/)
+    .map((sentence) => sentence.trim())
+    .filter(Boolean);
+}
+
+/**
+ * Parse a posting with heuristics only
+ */
+export function parseJobPosting(text: string): ParsedJobPosting {
+  const sections = segmentJobPosting(text);
+  const linesOf = (kind: JobSectionKind) =>
+    sections.filter((section) => section.kind === kind).flatMap((section) => section.lines);
+
+  const compensation = findCompensation(sections);
+  const visaLines = linesOf('visa');
+  // The pay line and sponsorship notes often trail the last list, whatever its heading
+  const content = (kind: JobSectionKind) =>
+    linesOf(kind).filter((line) => {
+      if (line === compensation?.text) return false;
+      if (!VISA_LINE.test(line)) return true;
+      visaLines.push(line);
+      return false;
+    });
+
+  const responsibilities = linesOf('responsibilities');
+  const requirements: string[] = [];
+  const niceToHave = linesOf('niceToHave');
+  for (const line of linesOf('requirements')) {
+    (NICE_TO_HAVE_LINE.test(line) ? niceToHave : requirements).push(line);
+  }
+  // Includes perks listed under a pay heading, like "Salary & benefits"
+  const benefits = [...content('benefits'), ...content('compensation')];
+
+  // Without headings, sort the sentences of the text itself
+  const aboutText: string[] = [];
+  const structured = responsibilities.length > 0 || requirements.length > 0;
+  for (const sentence of structured ? content('about') : linesOf('about').flatMap(sentences)) {
+    const kind = structured ? null : SENTENCE_KINDS.find(([, p]) => p.test(sentence))?.[0];
+    if (kind === 'requirements') requirements.push(sentence);
+    else if (kind === 'responsibilities') responsibilities.push(sentence);
+    else if (kind === 'niceToHave') niceToHave.push(sentence);
+    else if (kind === 'benefits') benefits.push(sentence);
+    else if (kind === 'visa') visaLines.push(sentence);
+    else aboutText.push(sentence);
+  }
+
+  // A requirement such as "Must have the right to work in the UK" also answers the visa question
+  const visaText =
+    visaLines.join(' ') || [...requirements, ...niceToHave].find((line) => VISA_LINE.test(line));
+  const locationText = linesOf('location')[0];
+  const workplace = findWorkplace(locationText ?? '') ?? findWorkplace(text);
+
+  return {
+    about: aboutText.join(structured ? '\n' : ' '),
+    responsibilities,
+    requirements,
+    niceToHave,
+    benefits,
+    compensation,
+    location:
+      locationText || workplace
+        ? { ...(locationText && { text: locationText }), ...(workplace && { workplace }) }
+        : undefined,
+    visa: visaText ? { text: visaText, sponsorship: findSponsorship(visaText) } : undefined,
+    employmentType: EMPLOYMENT_TYPE.exec(text)?.[1].toLowerCase().replace(/\s+/, '-'),
+    // Lines under headings like "Our stack" name technologies too
+    skills: findSkills([...requirements, ...niceToHave, ...responsibilities, ...linesOf('other')]),
+    sections,
+    refined: false,
+  };
+}
+
+/**
+ * The parsed posting as a JobDescription for RAGSystem.addJobDescription
+ */
+export function toJobDescription(parsed: ParsedJobPosting, posting: JobPosting): JobDescription {
+  return {
+    id: posting.id,
+    title: posting.title,
+    company: posting.company,
+    content: posting.text,
+    requirements: parsed.requirements,
+    responsibilities: parsed.responsibilities,
+    skills: parsed.skills,
+    niceToHave: parsed.niceToHave,
+    benefits: parsed.benefits,
+    metadata: {
+      ...(posting.url && { url: posting.url }),
+      ...(posting.postedDate && { postedDate: posting.postedDate }),
+      ...(parsed.compensation && { salary: parsed.compensation.text }),
+      ...((parsed.location?.text || parsed.location?.workplace) && {
+        location: parsed.location.text ?? parsed.location.workplace,
+      }),
+      ...(parsed.employmentType && { type: parsed.employmentType }),
+    },
+  };
+}
+
+export class JobPostingParser {
+  constructor(private llmService?: LLMAbstractionLayer) {}
+
+  /**
+   * Parse with heuristics, then with `refine` ask the LLM to correct the sections. A failed or
+   * invalid LLM reply keeps the heuristic result.
+   */
+  async parse(
+    text: string,
+    options: { refine?: boolean; userId?: string } = {}
+  ): Promise<ParsedJobPosting> {
+    const parsed = parseJobPosting(text);
+    if (!options.refine || !this.llmService) return parsed;
+
+    try {
+      const { result } = await this.llmService.generateStructured<JobPostingReply>({
+        systemPrompt:
+          'You are an expert recruiter. Split job postings into their sections accurately, keeping the wording of each line.',
+        userPrompt: `A rule-based parser produced this draft from the job posting above. Correct it: move misfiled lines, split must-have requirements from nice-to-haves, and list every named technology or tool as a skill.
+
+DRAFT:
+${JSON.stringify(
+  {
+    about: parsed.about,
+    responsibilities: parsed.responsibilities,
+    requirements: parsed.requirements,
+    niceToHave: parsed.niceToHave,
+    benefits: parsed.benefits,
+    skills: parsed.skills,
+  },
+  null,
+  2
+)}`,
+        constraints: [
+          'Only use lines and facts from the posting',
+          'Requirements are must-haves; anything preferred, a plus or a bonus is nice-to-have',
+          'Use "unknown" when the posting does not say',
+        ],
+        outputFormat: 'json',
+        schema: JOB_POSTING_SCHEMA,
+        context: [{ name: 'Job posting', content: text, overflow: 'truncate' }],
+        taskType: 'job_parsing',
+        userId: options.userId,
+      });
+      if (!result.ok) throw new Error(result.errors.join('; '));
+      return this.merge(parsed, result.data);
+    } catch (error) {
+      console.warn(`Job posting refinement failed: ${(error as Error).message}`);
+      return parsed;
+    }
+  }
+
+  private merge(parsed: ParsedJobPosting, reply: JobPostingReply): ParsedJobPosting {
+    const workplace =
+      reply.workplace && reply.workplace !== 'unknown'
+        ? reply.workplace
+        : parsed.location?.workplace;
+    const locationText = reply.location?.trim() || parsed.location?.text;
+    const sponsorship =
+      reply.visaSponsorship === 'yes' ? true : reply.visaSponsorship === 'no' ? false : undefined;
+
+    return {
+      ...parsed,
+      about: reply.about?.trim() || parsed.about,
+      responsibilities: reply.responsibilities,
+      requirements: reply.requirements,
+      niceToHave: reply.niceToHave,
+      benefits: reply.benefits,
+      skills: reply.skills,
+      compensation:
+        (reply.compensation && parseCompensation(reply.compensation)) || parsed.compensation,
+      location:
+        locationText || workplace
+          ? { ...(locationText && { text: locationText }), ...(workplace && { workplace }) }
+          : undefined,
+      visa:
+        parsed.visa || sponsorship !== undefined
+          ? {
+              text: parsed.visa?.text ?? '',
+              sponsorship: sponsorship ?? parsed.visa?.sponsorship,
+            }
+          : undefined,
+      refined: true,
+    };
+  }
+}
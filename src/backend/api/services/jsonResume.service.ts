@@ -0,0 +1,683 @@
+/**
+ * JSON Resume
+ * Import and export of ResumeData as JSON Resume (https://jsonresume.org/schema, v1.0.0),
+ * the format resume builders and themes share
+ *
+ * Export followed by import gives back the same ResumeData. JSON Resume holds more than
+ * ResumeData does (volunteering, awards, job summaries...): import reports those fields, and
+ * export puts them back when given the imported document as its base.
+ */
+
+import { JsonSchema, validateJsonSchema } from './structuredOutput.service';
+import {
+  EducationItem,
+  ExperienceItem,
+  ProjectItem,
+  ResumeContact,
+  ResumeData,
+} from './resumeData.service';
+
+export const JSON_RESUME_SCHEMA_URL =
+  'https://raw.githubusercontent.com/jsonresume/resume-schema/v1.0.0/schema.json';
+
+export interface JsonResumeLocation {
+  address?: string;
+  postalCode?: string;
+  city?: string;
+  countryCode?: string;
+  region?: string;
+  [key: string]: unknown;
+}
+
+export interface JsonResumeProfile {
+  network?: string;
+  username?: string;
+  url?: string;
+  [key: string]: unknown;
+}
+
+export interface JsonResumeBasics {
+  name?: string;
+  label?: string;
+  image?: string;
+  email?: string;
+  phone?: string;
+  url?: string;
+  summary?: string;
+  location?: JsonResumeLocation;
+  profiles?: JsonResumeProfile[];
+  [key: string]: unknown;
+}
+
+export interface JsonResumeWork {
+  name?: string;
+  position?: string;
+  url?: string;
+  startDate?: string;
+  endDate?: string;
+  summary?: string;
+  highlights?: string[];
+  /** Not in the schema: the role's technologies */
+  keywords?: string[];
+  /** Not in the schema: the dates as written, when startDate and endDate cannot say it */
+  duration?: string;
+  [key: string]: unknown;
+}
+
+export interface JsonResumeEducation {
+  institution?: string;
+  area?: string;
+  studyType?: string;
+  startDate?: string;
+  endDate?: string;
+  score?: string;
+  courses?: string[];
+  /** Not in the schema: the dates as written, when startDate and endDate cannot say it */
+  year?: string;
+  [key: string]: unknown;
+}
+
+export interface JsonResumeSkill {
+  name?: string;
+  level?: string;
+  keywords?: string[];
+  [key: string]: unknown;
+}
+
+export interface JsonResumeCertificate {
+  name?: string;
+  date?: string;
+  issuer?: string;
+  url?: string;
+  [key: string]: unknown;
+}
+
+export interface JsonResumeProject {
+  name?: string;
+  description?: string;
+  highlights?: string[];
+  keywords?: string[];
+  url?: string;
+  [key: string]: unknown;
+}
+
+export interface JsonResume {
+  $schema?: string;
+  basics?: JsonResumeBasics;
+  work?: JsonResumeWork[];
+  education?: JsonResumeEducation[];
+  skills?: JsonResumeSkill[];
+  certificates?: JsonResumeCertificate[];
+  projects?: JsonResumeProject[];
+  /** volunteer, awards, publications, languages, interests, references, meta... */
+  [section: string]: unknown;
+}
+
+export type JsonResumeImport =
+  | {
+      ok: true;
+      resume: ResumeData;
+      /** Paths of fields with content ResumeData has no place for, e.g. "$.work[0].summary" */
+      unmapped: string[];
+    }
+  | {
+      ok: false;
+      /** Schema violations, e.g. "$.work[0].startDate: must match ..." */
+      errors: string[];
+    };
+
+export interface JsonResumeExportOptions {
+  /** The document the resume was imported from; its unmapped fields are carried over */
+  base?: JsonResume;
+}
+
+/** The schema's ISO 8601 dates: 2021, 2021-01 or 2021-01-15 */
+const ISO_DATE = '^([1-2][0-9]{3}-[0-1][0-9]-[0-3][0-9]|[1-2][0-9]{3}-[0-1][0-9]|[1-2][0-9]{3})$';
+
+const text: JsonSchema = { type: 'string' };
+const date: JsonSchema = { type: 'string', pattern: ISO_DATE };
+const texts: JsonSchema = { type: 'array', items: text };
+const list = (properties: Record<string, JsonSchema>): JsonSchema => ({
+  type: 'array',
+  items: { type: 'object', properties },
+});
+
+/**
+ * The types and date formats of JSON Resume v1.0.0; like the schema, it allows extra fields
+ */
+export const JSON_RESUME_SCHEMA: JsonSchema = {
+  type: 'object',
+  properties: {
+    $schema: text,
+    basics: {
+      type: 'object',
+      properties: {
+        name: text,
+        label: text,
+        image: text,
+        email: text,
+        phone: text,
+        url: text,
+        summary: text,
+        location: {
+          type: 'object',
+          properties: {
+            address: text,
+            postalCode: text,
+            city: text,
+            countryCode: text,
+            region: text,
+          },
+        },
+        profiles: list({ network: text, username: text, url: text }),
+      },
+    },
+    work: list({
+      name: text,
+      location: text,
+      description: text,
+      position: text,
+      url: text,
+      startDate: date,
+      endDate: date,
+      summary: text,
+      highlights: texts,
+      keywords: texts,
+      duration: text,
+    }),
+    volunteer: list({
+      organization: text,
+      position: text,
+      url: text,
+      startDate: date,
+      endDate: date,
+      summary: text,
+      highlights: texts,
+    }),
+    education: list({
+      institution: text,
+      url: text,
+      area: text,
+      studyType: text,
+      startDate: date,
+      endDate: date,
+      score: text,
+      courses: texts,
+      year: text,
+    }),
+    awards: list({ title: text, date, awarder: text, summary: text }),
+    certificates: list({ name: text, date, url: text, issuer: text }),
+    publications: list({
+      name: text,
+      publisher: text,
+      releaseDate: date,
+      url: text,
+      summary: text,
+    }),
+    skills: list({ name: text, level: text, keywords: texts }),
+    languages: list({ language: text, fluency: text }),
+    interests: list({ name: text, keywords: texts }),
+    references: list({ name: text, reference: text }),
+    projects: list({
+      name: text,
+      description: text,
+      highlights: texts,
+      keywords: texts,
+      startDate: date,
+      endDate: date,
+      url: text,
+      roles: texts,
+      entity: text,
+      type: text,
+    }),
+    meta: { type: 'object', properties: { canonical: text, version: text, lastModified: text } },
+  },
+};
+
+const MONTHS = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
+const ONGOING = /^(present|current|now|today)$/i;
+const RANGE_SEPARATOR = /\s+(?:-|–|—|to)\s+|\s*[–—]\s*/i;
+
+/** "2021", "Jan 2021", "01/2021" or "2021-01-15" as an ISO date */
+function parseDate(value: string): string | undefined {
+  const trimmed = value.trim();
+  if (/^[1-2]\d{3}(-(0[1-9]|1[0-2])(-[0-3]\d)?)?$/.test(trimmed)) return trimmed;
+
+  const named = trimmed.match(/^([A-Za-z]{3,})\.?\s+([1-2]\d{3})$/);
+  if (named) {
+    const month = MONTHS.findIndex((m) => m.toLowerCase() === named[1].slice(0, 3).toLowerCase());
+    return month === -1 ? undefined : `${named[2]}-${String(month + 1).padStart(2, '0')}`;
+  }
+
+  const numeric = trimmed.match(/^(0?[1-9]|1[0-2])\/([1-2]\d{3})$/);
+  return numeric ? `${numeric[2]}-${numeric[1].padStart(2, '0')}` : undefined;
+}
+
+/** "2021" or "Jan 2021"; days are dropped */
+function formatDate(iso: string): string {
+  const [year, month] = iso.split('-');
+  return month ? `${MONTHS[Number(month) - 1]} ${year}` : year;
+}
+
+/** Start and end of "Jan 2021 - Present" or "2015"; empty when it cannot be read */
+function toDateRange(value: string): { startDate?: string; endDate?: string } {
+  const parts = value.split(RANGE_SEPARATOR);
+  if (parts.length === 1) {
+    const single = parseDate(parts[0]);
+    return single ? { startDate: single, endDate: single } : {};
+  }
+  if (parts.length !== 2) return {};
+
+  const startDate = parseDate(parts[0]);
+  const ongoing = ONGOING.test(parts[1].trim());
+  const endDate = ongoing ? undefined : parseDate(parts[1]);
+  if (!startDate || (!ongoing && !endDate)) return {};
+  return endDate ? { startDate, endDate } : { startDate };
+}
+
+function formatDateRange(startDate?: string, endDate?: string): string {
+  if (startDate && endDate) {
+    return startDate === endDate
+      ? formatDate(startDate)
+      : `${formatDate(startDate)} - ${formatDate(endDate)}`;
+  }
+  if (startDate) return `${formatDate(startDate)} - Present`;
+  return endDate ? formatDate(endDate) : '';
+}
+
+/**
+ * Dates for the text, plus the text itself under `key` when the dates would read back differently
+ */
+function datesFor(value: string, key: 'duration' | 'year'): Record<string, string> {
+  const { startDate, endDate } = toDateRange(value);
+  return {
+    ...(startDate && { startDate }),
+    ...(endDate && { endDate }),
+    ...(formatDateRange(startDate, endDate) !== value && { [key]: value }),
+  };
+}
+
+const SECTIONS = ['basics', 'work', 'education', 'skills', 'certificates', 'projects'];
+
+/** Fields each part maps, for reporting the rest and for replacing them in a base document */
+const MAPPED = {
+  resume: ['$schema', 'meta', ...SECTIONS],
+  basics: ['name', 'email', 'phone', 'url', 'summary', 'location', 'profiles'],
+  profile: ['network', 'username', 'url'],
+  work: [
+    'name',
+    'company',
+    'position',
+    'startDate',
+    'endDate',
+    'highlights',
+    'keywords',
+    'duration',
+  ],
+  education: ['institution', 'studyType', 'area', 'startDate', 'endDate', 'score', 'year'],
+  skill: ['name', 'keywords'],
+  certificate: ['name'],
+  project: ['name', 'description', 'keywords', 'url'],
+};
+
+const NETWORKS: Record<string, { name: string; profileUrl: (username: string) => string }> = {
+  'linkedin.com': { name: 'LinkedIn', profileUrl: (u) => `https://www.linkedin.com/in/${u}` },
+  'github.com': { name: 'GitHub', profileUrl: (u) => `https://github.com/${u}` },
+  'gitlab.com': { name: 'GitLab', profileUrl: (u) => `https://gitlab.com/${u}` },
+  'twitter.com': { name: 'Twitter', profileUrl: (u) => `https://twitter.com/${u}` },
+  'x.com': { name: 'X', profileUrl: (u) => `https://x.com/${u}` },
+  'stackoverflow.com': {
+    name: 'Stack Overflow',
+    profileUrl: (u) => `https://stackoverflow.com/users/${u}`,
+  },
+  'medium.com': { name: 'Medium', profileUrl: (u) => `https://medium.com/@${u}` },
+  'dribbble.com': { name: 'Dribbble', profileUrl: (u) => `https://dribbble.com/${u}` },
+  'behance.net': { name: 'Behance', profileUrl: (u) => `https://www.behance.net/${u}` },
+};
+
+function hostOf(link: string): string {
+  const host = link.replace(/^[a-z]+:\/\//i, '').split(/[/?#]/)[0];
+  return host.toLowerCase().replace(/^www\./, '');
+}
+
+function toProfile(link: string): JsonResumeProfile {
+  const host = hostOf(link);
+  const network = NETWORKS[host];
+  if (!network) return { network: host, url: link };
+
+  // linkedin.com/in/ada, stackoverflow.com/users/123, github.com/ada, medium.com/@ada
+  const [, first, second] = link
+    .replace(/^[a-z]+:\/\//i, '')
+    .split(/[?#]/)[0]
+    .split('/');
+  const username = (['in', 'users'].includes(first) ? second : first)?.replace(/^@/, '');
+  return username
+    ? { network: network.name, username, url: link }
+    : { network: network.name, url: link };
+}
+
+function profileUrl(profile: JsonResumeProfile): string | undefined {
+  if (profile.url) return profile.url;
+  if (!profile.network || !profile.username) return undefined;
+  const network = Object.values(NETWORKS).find(
+    (n) => n.name.toLowerCase() === profile.network!.toLowerCase()
+  );
+  return network?.profileUrl(profile.username);
+}
+
+function hasContent(value: unknown): boolean {
+  if (value === undefined || value === null || value === '') return false;
+  if (Array.isArray(value)) return value.length > 0;
+  if (typeof value === 'object') return Object.keys(value as object).length > 0;
+  return true;
+}
+
+/** Paths of the object's fields outside `mapped` that hold something */
+function unmappedFields(object: object, mapped: string[], at: string): string[] {
+  return Object.entries(object)
+    .filter(([key, value]) => !mapped.includes(key) && hasContent(value))
+    .map(([key]) => `${at}.${key}`);
+}
+
+function withoutFields<T extends object>(object: T, fields: string[]): Partial<T> {
+  return Object.fromEntries(
+    Object.entries(object).filter(([key]) => !fields.includes(key))
+  ) as Partial<T>;
+}
+
+function locationText({ address, city, region, postalCode, countryCode }: JsonResumeLocation) {
+  return [address, city, region, postalCode, countryCode].filter(Boolean).join(', ');
+}
+
+function importContact(basics: JsonResumeBasics, at: string, unmapped: string[]) {
+  const hasContact = ['name', 'email', 'phone', 'url', 'location', 'profiles'].some(
+    (key) => basics[key] !== undefined
+  );
+  if (!hasContact) return undefined;
+
+  const contact: ResumeContact = { name: basics.name ?? '' };
+  if (basics.email !== undefined) contact.email = basics.email;
+  if (basics.phone !== undefined) contact.phone = basics.phone;
+  if (basics.location !== undefined) {
+    contact.location = locationText(basics.location);
+    unmapped.push(
+      ...unmappedFields(
+        basics.location,
+        ['address', 'city', 'region', 'postalCode', 'countryCode'],
+        `${at}.location`
+      )
+    );
+  }
+  if (basics.url !== undefined || basics.profiles !== undefined) {
+    const links = basics.url ? [basics.url] : [];
+    (basics.profiles ?? []).forEach((profile, i) => {
+      const url = profileUrl(profile);
+      if (!url) {
+        if (hasContent(profile)) unmapped.push(`${at}.profiles[${i}]`);
+        return;
+      }
+      if (url !== basics.url) links.push(url);
+      unmapped.push(...unmappedFields(profile, MAPPED.profile, `${at}.profiles[${i}]`));
+    });
+    contact.links = links;
+  }
+  return contact;
+}
+
+function exportBasics(resume: ResumeData): JsonResumeBasics {
+  const { contact } = resume;
+  const basics: JsonResumeBasics = {};
+  if (contact) {
+    basics.name = contact.name;
+    if (contact.email !== undefined) basics.email = contact.email;
+    if (contact.phone !== undefined) basics.phone = contact.phone;
+  }
+  basics.summary = resume.summary;
+  if (contact?.location !== undefined) {
+    const [city, ...region] = contact.location.split(', ');
+    basics.location = region.length > 0 ? { city, region: region.join(', ') } : { city };
+  }
+  if (contact?.links !== undefined) {
+    // A personal site first in the list is the resume's url; everything else is a profile
+    const [first, ...rest] = contact.links;
+    const website = first !== undefined && !NETWORKS[hostOf(first)];
+    if (website) basics.url = first;
+    basics.profiles = (website ? rest : contact.links).map(toProfile);
+  }
+  return basics;
+}
+
+function importExperience(work: JsonResumeWork): ExperienceItem {
+  const item: ExperienceItem = {
+    title: work.position ?? '',
+    company: work.name ?? (typeof work.company === 'string' ? work.company : ''),
+    duration: work.duration ?? formatDateRange(work.startDate, work.endDate),
+    achievements: [...(work.highlights ?? [])],
+  };
+  if (work.keywords !== undefined) item.technologies = [...work.keywords];
+  return item;
+}
+
+function exportExperience(item: ExperienceItem): JsonResumeWork {
+  return {
+    name: item.company,
+    position: item.title,
+    ...datesFor(item.duration, 'duration'),
+    highlights: item.achievements,
+    ...(item.technologies !== undefined && { keywords: item.technologies }),
+  };
+}
+
+function importEducation(education: JsonResumeEducation): EducationItem {
+  const { studyType, area } = education;
+  const item: EducationItem = {
+    degree: studyType && area ? `${studyType} in ${area}` : (studyType ?? area ?? ''),
+    school: education.institution ?? '',
+    year: education.year ?? formatDateRange(education.startDate, education.endDate),
+  };
+  if (education.score !== undefined) item.gpa = education.score;
+  return item;
+}
+
+function exportEducation(item: EducationItem): JsonResumeEducation {
+  const [, studyType, area] = item.degree.match(/^(.+?) in (.+)$/) ?? [];
+  return {
+    institution: item.school,
+    ...(studyType ? { studyType, area } : { studyType: item.degree }),
+    ...datesFor(item.year, 'year'),
+    ...(item.gpa !== undefined && { score: item.gpa }),
+  };
+}
+
+/** Skill groups ({ name: "Frontend", keywords: [...] }) contribute their keywords */
+function importSkills(skills: JsonResumeSkill[], unmapped: string[]): string[] {
+  return skills.flatMap((skill, i) => {
+    unmapped.push(...unmappedFields(skill, MAPPED.skill, `$.skills[${i}]`));
+    if (skill.keywords?.length) {
+      if (hasContent(skill.name)) unmapped.push(`$.skills[${i}].name`);
+      return skill.keywords;
+    }
+    return skill.name ? [skill.name] : [];
+  });
+}
+
+function importProject(project: JsonResumeProject): ProjectItem {
+  const item: ProjectItem = {
+    name: project.name ?? '',
+    description: project.description ?? '',
+    technologies: [...(project.keywords ?? [])],
+  };
+  if (project.url !== undefined) item.url = project.url;
+  return item;
+}
+
+function exportProject(item: ProjectItem): JsonResumeProject {
+  return {
+    name: item.name,
+    description: item.description,
+    keywords: item.technologies,
+    ...(item.url !== undefined && { url: item.url }),
+  };
+}
+
+/** Structural equality of JSON values, ignoring key order and undefined fields */
+function sameJson(a: unknown, b: unknown): boolean {
+  const canonical = (value: unknown): unknown => {
+    if (Array.isArray(value)) return value.map(canonical);
+    if (value && typeof value === 'object') {
+      return Object.fromEntries(
+        Object.entries(value)
+          .filter(([, v]) => v !== undefined)
+          .sort(([x], [y]) => x.localeCompare(y))
+          .map(([k, v]) => [k, canonical(v)])
+      );
+    }
+    return value;
+  };
+  return JSON.stringify(canonical(a)) === JSON.stringify(canonical(b));
+}
+
+/**
+ * Export the items of a section against the base document's: an item the resume kept as
+ * imported is the base item untouched; an edited one keeps the base item's unmapped fields
+ */
+function exportSection<T, J extends object>(
+  items: T[],
+  baseItems: J[] | undefined,
+  mapping: {
+    import: (json: J) => T;
+    export: (item: T) => J;
+    sameEntry: (item: T, json: J) => boolean;
+    mapped: string[];
+  }
+): J[] {
+  const unused = [...(baseItems ?? [])];
+  const take = (match: (json: J) => boolean) => {
+    const index = unused.findIndex(match);
+    return index === -1 ? undefined : unused.splice(index, 1)[0];
+  };
+
+  return items.map((item) => {
+    const unchanged = take((json) => sameJson(mapping.import(json), item));
+    if (unchanged) return unchanged;
+    const edited = take((json) => mapping.sameEntry(item, json));
+    const exported = mapping.export(item);
+    return edited ? ({ ...withoutFields(edited, mapping.mapped), ...exported } as J) : exported;
+  });
+}
+
+/**
+ * Validate a JSON Resume document and convert it to ResumeData
+ */
+export function fromJsonResume(document: unknown): JsonResumeImport {
+  const errors = validateJsonSchema(document, JSON_RESUME_SCHEMA);
+  if (errors.length > 0) return { ok: false, errors };
+
+  const json = document as JsonResume;
+  const unmapped = unmappedFields(json, MAPPED.resume, '$');
+  const basics = json.basics ?? {};
+  unmapped.push(...unmappedFields(basics, MAPPED.basics, '$.basics'));
+
+  const report = <J extends object>(items: J[] | undefined, mapped: string[], section: string) =>
+    (items ?? []).forEach((item, i) =>
+      unmapped.push(...unmappedFields(item, mapped, `$.${section}[${i}]`))
+    );
+  report(json.work, MAPPED.work, 'work');
+  report(json.education, MAPPED.education, 'education');
+  report(json.certificates, MAPPED.certificate, 'certificates');
+  report(json.projects, MAPPED.project, 'projects');
+
+  const resume: ResumeData = {
+    summary: basics.summary ?? '',
+    skills: [],
+    experience: (json.work ?? []).map(importExperience),
+    education: (json.education ?? []).map(importEducation),
+  };
+  const contact = importContact(basics, '$.basics', unmapped);
+  if (contact) resume.contact = contact;
+  resume.skills = importSkills(json.skills ?? [], unmapped);
+  if (json.certificates !== undefined) {
+    resume.certifications = json.certificates.map((c) => c.name ?? '').filter(Boolean);
+  }
+  if (json.projects !== undefined) resume.projects = json.projects.map(importProject);
+
+  return { ok: true, resume, unmapped };
+}
+
+/**
+ * Convert ResumeData to a JSON Resume document
+ */
+export function toJsonResume(
+  resume: ResumeData,
+  options: JsonResumeExportOptions = {}
+): JsonResume {
+  const { base } = options;
+  const document: JsonResume = {
+    $schema: JSON_RESUME_SCHEMA_URL,
+    ...(base && withoutFields(base, SECTIONS)),
+  };
+
+  const basics = exportBasics(resume);
+  const baseBasics = base?.basics;
+  if (baseBasics && sameJson(importContact(baseBasics, '', []), resume.contact)) {
+    document.basics =
+      (baseBasics.summary ?? '') === resume.summary
+        ? baseBasics
+        : { ...baseBasics, summary: resume.summary };
+  } else if (baseBasics) {
+    const profiles = basics.profiles
+      ? exportSection(basics.profiles, baseBasics.profiles, {
+          import: (p) => p,
+          export: (p) => p,
+          sameEntry: (p, json) => profileUrl(json) === p.url,
+          mapped: MAPPED.profile,
+        })
+      : undefined;
+    document.basics = {
+      ...withoutFields(baseBasics, MAPPED.basics),
+      ...basics,
+      ...(baseBasics.location &&
+        locationText(baseBasics.location) === resume.contact?.location && {
+          location: baseBasics.location,
+        }),
+      ...(profiles && { profiles }),
+    };
+  } else {
+    document.basics = basics;
+  }
+
+  document.work = exportSection(resume.experience, base?.work, {
+    import: importExperience,
+    export: exportExperience,
+    sameEntry: (item, json) => item.company === (json.name ?? json.company),
+    mapped: MAPPED.work,
+  });
+  document.education = exportSection(resume.education, base?.education, {
+    import: importEducation,
+    export: exportEducation,
+    sameEntry: (item, json) => item.school === json.institution,
+    mapped: MAPPED.education,
+  });
+  document.skills =
+    base?.skills && sameJson(importSkills(base.skills, []), resume.skills)
+      ? base.skills
+      : resume.skills.map((name) => ({ name }));
+  if (resume.certifications !== undefined) {
+    document.certificates = exportSection(resume.certifications, base?.certificates, {
+      import: (json) => json.name ?? '',
+      export: (name) => ({ name }),
+      sameEntry: () => false,
+      mapped: MAPPED.certificate,
+    });
+  }
+  if (resume.projects !== undefined) {
+    document.projects = exportSection(resume.projects, base?.projects, {
+      import: importProject,
+      export: exportProject,
+      sameEntry: (item, json) => item.name === json.name,
+      mapped: MAPPED.project,
+    });
+  }
+  // Unchanged entries are the base document's own objects
+  return structuredClone(document);
+}
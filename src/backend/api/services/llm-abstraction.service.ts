@@ -4,31 +4,146 @@
  * Implements cost tracking, structured prompting, and performance optimization
  */
 
+import { CostAttribution, CostLedgerService, getCostLedger } from './costLedger.service';
+import { LLMResponseCache, createLLMCacheFromEnv } from './llmCache.service';
+import { CassetteRequest, LLMCassette, createLLMCassetteFromEnv } from './llmCassette.service';
+import {
+  DEFAULT_LOCAL_EMBEDDING_MODEL,
+  LOCAL_EMBEDDING_PROVIDER,
+  LocalEmbeddingModel,
+} from './embeddings.service';
+import {
+  ProviderConfig,
+  ProviderModelConfig,
+  ProviderType,
+  ResolvedProviderConfig,
+  TokenPricing,
+  defaultProviderConfigPath,
+  loadProviderConfig,
+  resolveProviderConfig,
+  watchProviderConfig,
+} from './llmProviderConfig.service';
+import { RAGSystem } from './rag-system.service';
+import { countMessageTokens, countTokens, truncateToTokens } from './tokenizer.service';
+import {
+  JsonSchema,
+  StructuredResult,
+  parseJsonReply,
+  validateJsonSchema,
+} from './structuredOutput.service';
+import {
+  LLMMessage,
+  LLMTool,
+  TOOL_NAME_PATTERN,
+  ToolCall,
+  ToolContext,
+  ToolDefinition,
+  ToolResult,
+  fromClaudeContent,
+  fromGeminiParts,
+  fromOpenAIToolCalls,
+  toClaudeMessages,
+  toClaudeTools,
+  toGeminiContents,
+  toGeminiTools,
+  toOllamaMessages,
+  toOpenAIMessages,
+  toOpenAITools,
+} from './llmTools.service';
+
+export type { JsonSchema, StructuredResult } from './structuredOutput.service';
+export type {
+  LLMMessage,
+  LLMTool,
+  ToolCall,
+  ToolContext,
+  ToolDefinition,
+  ToolResult,
+} from './llmTools.service';
+
 export interface LLMProvider {
+  id: string;
+  type: ProviderType;
   name: string;
   apiKey?: string;
   baseUrl?: string;
   models: string[];
-  costPerToken: {
-    input: number;
-    output: number;
-  };
+  embeddingModels: string[];
+  costPerToken: TokenPricing;
+  requiresApiKey: boolean;
+  jsonMode: boolean;
+  /** Per-model context windows, pricing overrides and embedding sizes from the provider config */
+  modelSettings: Record<
+    string,
+    { contextWindow?: number; costPerToken?: TokenPricing; dimensions?: number }
+  >;
+  contextWindow?: number;
 }
 
 export interface LLMRequest {
-  messages: Array<{
-    role: 'system' | 'user' | 'assistant';
-    content: string;
-  }>;
+  messages: LLMMessage[];
   model?: string;
   temperature?: number;
   maxTokens?: number;
   structuredOutput?: boolean;
   jsonSchema?: any;
+  /** Selects the fallback chain when no provider is given, e.g. 'resume' or 'structured' */
+  taskType?: string;
+  /** Set to false to bypass the response cache for this request */
+  cache?: boolean;
+  /** Material placed before the first user message, shrunk to fit the model's context window */
+  context?: ContextSection[];
+  /** Tools the model may call; see generateWithTools for running them */
+  tools?: ToolDefinition[];
+  /** Who the call is made for, for the cost ledger and per-user budgets */
+  userId?: string;
+  /** Product feature the call serves, e.g. 'cover_letter'; defaults to the task type */
+  feature?: string;
+  /** Recorded in the ledger under `userId`, e.g. an integration's end user; never budgeted */
+  label?: string;
+}
+
+export interface EmbeddingRequest {
+  input: string[];
+  userId?: string;
+  /** Defaults to 'embeddings' */
+  feature?: string;
+  label?: string;
+}
+
+export interface EmbeddingResponse {
+  /** One vector per input, in input order */
+  embeddings: number[][];
+  provider: string;
+  model: string;
+  usage: {
+    inputTokens: number;
+    cost: number;
+  };
+}
+
+export interface ContextSection {
+  /** Heading shown to the model, e.g. 'Resume' */
+  name: string;
+  content: string;
+  /** Lowest priority is shrunk first (default 0) */
+  priority?: number;
+  /** How the section shrinks when the prompt is too long (default 'truncate') */
+  overflow?: 'truncate' | 'summarize' | 'drop';
+}
+
+export interface ContextTrim {
+  section: string;
+  action: 'truncated' | 'summarized' | 'dropped';
+  fromTokens: number;
+  toTokens: number;
 }
 
 export interface LLMResponse {
   content: string;
+  finishReason?: string;
+  /** Tools the model wants called before it answers */
+  toolCalls?: ToolCall[];
   usage: {
     inputTokens: number;
     outputTokens: number;
@@ -37,12 +152,149 @@ export interface LLMResponse {
   };
   metadata: {
     provider: string;
+    providerId: string;
     model: string;
     responseTime: number;
     timestamp: Date;
+    /** Failed attempts (retries and fallbacks) before the provider that served the response */
+    attempts: LLMAttempt[];
+    /** Served from the response cache; usage.cost is 0 */
+    cached?: boolean;
+    /** Replayed from a cassette; usage.cost is 0 */
+    replayed?: boolean;
+    /** Context sections shrunk to fit the model's context window */
+    contextTrimmed?: ContextTrim[];
   };
 }
 
+export interface LLMAttempt {
+  provider: string;
+  model: string;
+  error: string;
+  status?: number;
+  retryable: boolean;
+}
+
+export interface FallbackTarget {
+  provider: string;
+  model?: string;
+}
+
+export interface RetryOptions {
+  maxRetries: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+}
+
+export interface CircuitBreakerOptions {
+  /** Only calls inside this window count towards opening the circuit */
+  windowMs: number;
+  minRequests: number;
+  errorRateThreshold: number;
+  latencyThresholdMs: number;
+  /** How long an open circuit rejects calls before letting a trial request through */
+  cooldownMs: number;
+}
+
+export interface LLMLayerOptions {
+  fallbackChains?: Record<string, FallbackTarget[]>;
+  retry?: Partial<RetryOptions>;
+  circuitBreaker?: Partial<CircuitBreakerOptions>;
+  cache?: LLMResponseCache | null;
+  /** Record responses to, or replay them from, a cassette file */
+  cassette?: LLMCassette | null;
+  /** Persist the cost of every call and enforce budgets */
+  ledger?: CostLedgerService | null;
+  /** JSON provider config merged over the built-in providers */
+  providersFile?: string | null;
+  /** Reload providers when the config file changes */
+  watchProviders?: boolean;
+  /** CPU embedding model served as the "local" embeddings provider */
+  localEmbeddings?: LocalEmbeddingModel;
+}
+
+/**
+ * Provider call failure. `retryable` marks rate limits, timeouts, 5xx and network errors.
+ */
+export class LLMProviderError extends Error {
+  constructor(
+    message: string,
+    readonly status?: number,
+    readonly retryable = false,
+    readonly retryAfterMs?: number
+  ) {
+    super(message);
+    this.name = 'LLMProviderError';
+  }
+}
+
+/**
+ * Provider order tried per task type when the caller does not pick a provider
+ */
+export const DEFAULT_FALLBACK_CHAINS: Record<string, FallbackTarget[]> = {
+  // Free local models first, then hosted providers
+  default: [
+    { provider: 'ollama' },
+    { provider: 'openai' },
+    { provider: 'claude' },
+    { provider: 'gemini' },
+    { provider: 'perplexity' },
+    { provider: 'huggingface' },
+  ],
+  // Long-form writing favours quality over cost
+  resume: [
+    { provider: 'claude' },
+    { provider: 'openai' },
+    { provider: 'gemini' },
+    { provider: 'ollama' },
+  ],
+  cover_letter: [
+    { provider: 'claude' },
+    { provider: 'openai' },
+    { provider: 'gemini' },
+    { provider: 'ollama' },
+  ],
+  // OpenAI has a native JSON mode
+  structured: [
+    { provider: 'openai' },
+    { provider: 'claude' },
+    { provider: 'gemini' },
+    { provider: 'ollama' },
+  ],
+};
+
+const DEFAULT_MAX_REPAIRS = 2;
+
+const DEFAULT_RETRY: RetryOptions = { maxRetries: 2, baseDelayMs: 250, maxDelayMs: 4000 };
+
+const DEFAULT_CIRCUIT_BREAKER: CircuitBreakerOptions = {
+  windowMs: 5 * 60 * 1000,
+  minRequests: 5,
+  errorRateThreshold: 0.5,
+  latencyThresholdMs: 30 * 1000,
+  cooldownMs: 30 * 1000,
+};
+
+/**
+ * Streaming output: text deltas as they arrive, then the final response with usage and cost
+ */
+export type LLMStreamEvent =
+  { type: 'delta'; content: string } | { type: 'done'; response: LLMResponse };
+
+interface ProviderResult {
+  content: string;
+  finishReason?: string;
+  toolCalls?: ToolCall[];
+  usage: {
+    inputTokens: number;
+    outputTokens: number;
+  };
+}
+
+type ProviderStreamEvent =
+  | { type: 'delta'; content: string }
+  | { type: 'end'; finishReason?: string; usage?: Partial<ProviderResult['usage']> };
+
 export interface StructuredPrompt {
   systemPrompt: string;
   userPrompt: string;
@@ -52,246 +304,1471 @@ export interface StructuredPrompt {
   }>;
   constraints?: string[];
   outputFormat?: 'json' | 'markdown' | 'text';
+  temperature?: number;
+  maxTokens?: number;
+  taskType?: string;
+  cache?: boolean;
+  /** Schema the JSON reply must satisfy (outputFormat 'json' only) */
+  schema?: JsonSchema;
+  /** How many times an invalid JSON reply is sent back for correction (default 2) */
+  maxRepairs?: number;
+  context?: ContextSection[];
+  userId?: string;
+  feature?: string;
+  /** Recorded in the ledger under `userId`, as on LLMRequest */
+  label?: string;
+}
+
+/**
+ * Reply to a JSON structured prompt; usage covers the original call and every repair
+ */
+export type StructuredResponse<T> = LLMResponse & { result: StructuredResult<T> };
+
+/**
+ * Final reply of a tool loop; usage covers every round
+ */
+export type ToolResponse = LLMResponse & { toolResults: ToolResult[] };
+
+export interface LLMModelInfo {
+  provider: string;
+  providerName: string;
+  model: string;
+  available: boolean;
+  costPerToken: LLMProvider['costPerToken'];
+  contextWindow?: number;
+}
+
+export interface EmbeddingModelInfo {
+  provider: string;
+  model: string;
+  available: boolean;
+  dimensions?: number;
+  costPerToken: LLMProvider['costPerToken'];
 }
 
 export class LLMAbstractionLayer {
   private providers: Map<string, LLMProvider> = new Map();
   private costTracker = new CostTracker();
   private performanceMonitor = new PerformanceMonitor();
-
-  constructor(private readonly httpService?: any) {
+  private circuitBreaker: CircuitBreaker;
+  private fallbackChains: Record<string, FallbackTarget[]> = {};
+  // Chains set in code win over the config file across reloads
+  private chainOverrides: Record<string, FallbackTarget[]>;
+  private retry: RetryOptions;
+  private cache: LLMResponseCache | null;
+  private cassette: LLMCassette | null;
+  private ledger: CostLedgerService | null;
+  private localEmbeddings: LocalEmbeddingModel;
+  private tools = new Map<string, LLMTool>();
+  private providersFile: string | null;
+  private stopWatching: (() => void) | null = null;
+
+  constructor(
+    private readonly httpService?: any,
+    options: LLMLayerOptions = {}
+  ) {
+    this.chainOverrides = { ...options.fallbackChains };
+    this.retry = { ...DEFAULT_RETRY, ...options.retry };
+    this.cache = options.cache ?? null;
+    this.cassette = options.cassette ?? null;
+    this.ledger = options.ledger ?? null;
+    this.localEmbeddings = options.localEmbeddings ?? new LocalEmbeddingModel();
+    this.circuitBreaker = new CircuitBreaker(this.performanceMonitor, {
+      ...DEFAULT_CIRCUIT_BREAKER,
+      ...options.circuitBreaker,
+    });
+    this.providersFile = options.providersFile ?? null;
     this.initializeProviders();
+
+    if (this.providersFile && options.watchProviders) {
+      this.stopWatching = watchProviderConfig(this.providersFile, () => this.reloadProviders());
+    }
   }
 
   /**
-   * Initialize supported LLM providers
+   * Initialize providers from the built-ins and the config file. A broken file at startup
+   * falls back to the built-ins so the API still comes up.
    */
   private initializeProviders() {
-    // OpenAI
-    this.providers.set('openai', {
-      name: 'OpenAI',
-      apiKey: process.env.OPENAI_API_KEY,
-      baseUrl: 'https://api.openai.com/v1',
-      models: ['gpt-4o', 'gpt-4o-mini', 'gpt-4-turbo', 'gpt-3.5-turbo'],
-      costPerToken: {
-        input: 0.0000025, // $2.50 per 1M tokens for GPT-4o
-        output: 0.00001, // $10 per 1M tokens for GPT-4o
-      },
-    });
+    let config: ResolvedProviderConfig;
+    try {
+      config = this.providersFile
+        ? loadProviderConfig(this.providersFile)
+        : resolveProviderConfig();
+    } catch (error) {
+      console.error(`${(error as Error).message}; using built-in providers`);
+      config = resolveProviderConfig();
+    }
+    this.applyProviderConfig(config);
+  }
 
-    // Anthropic Claude
-    this.providers.set('claude', {
-      name: 'Anthropic',
-      apiKey: process.env.ANTHROPIC_API_KEY,
-      baseUrl: 'https://api.anthropic.com/v1',
-      models: ['claude-3-5-sonnet-20241022', 'claude-3-haiku-20240307', 'claude-3-sonnet-20240229'],
-      costPerToken: {
-        input: 0.000003, // $3 per 1M tokens for Sonnet
-        output: 0.000015, // $15 per 1M tokens for Sonnet
-      },
-    });
+  private applyProviderConfig(config: ResolvedProviderConfig) {
+    this.providers = new Map(config.providers.map((p) => [p.id, toLLMProvider(p)]));
+    this.fallbackChains = {
+      ...DEFAULT_FALLBACK_CHAINS,
+      ...config.fallbackChains,
+      ...this.chainOverrides,
+    };
+  }
 
-    // Ollama (local models)
-    this.providers.set('ollama', {
-      name: 'Ollama',
-      baseUrl: 'http://localhost:11434/api',
-      models: ['llama3.2:3b', 'llama3.1:8b', 'mistral:7b', 'codellama:13b'],
-      costPerToken: {
-        input: 0, // Free for local models
-        output: 0,
-      },
-    });
+  /**
+   * Re-read the provider config file. An invalid file is logged and the current providers kept.
+   */
+  reloadProviders(): boolean {
+    if (!this.providersFile) return false;
+    try {
+      this.applyProviderConfig(loadProviderConfig(this.providersFile));
+      console.log(`LLM providers reloaded from ${this.providersFile}`);
+      return true;
+    } catch (error) {
+      console.error(`${(error as Error).message}; keeping current providers`);
+      return false;
+    }
+  }
+
+  /**
+   * Stop watching the provider config file
+   */
+  close(): void {
+    this.stopWatching?.();
+    this.stopWatching = null;
+  }
+
+  /**
+   * Generate response using specified provider and model. Retryable errors are retried with
+   * exponential backoff, then the next provider in the task's fallback chain is tried.
+   */
+  async generate(
+    request: LLMRequest,
+    providerName?: string,
+    modelName?: string
+  ): Promise<LLMResponse> {
+    const replayed = await this.fromCassette(request, providerName, modelName);
+    if (replayed) return replayed;
+
+    const attempts: FailedAttempt[] = [];
+
+    for await (const { provider, model } of this.planAttempts(
+      request,
+      providerName,
+      modelName,
+      attempts
+    )) {
+      const startTime = Date.now();
+      const fitted = await this.fitContext(provider, model, request, attempts);
+      if (!fitted) continue;
+
+      const cached = await this.fromCache(provider, model, fitted.request, startTime, attempts);
+      if (cached) {
+        withTrims(cached, fitted.trimmed);
+        await this.recordToCassette(request, providerName, modelName, cached);
+        return cached;
+      }
+
+      const release = await this.reserveBudget(provider, model, fitted.request);
+      if (!this.beginCall(provider, model, attempts)) {
+        release();
+        continue;
+      }
+      try {
+        const result = await this.callProvider(provider, model, fitted.request);
+        const response = await this.completeResponse(provider, model, result, startTime, attempts);
+        await this.recordCost(request, response);
+        release();
+        withTrims(response, fitted.trimmed);
+        await this.storeInCache(fitted.request, response);
+        await this.recordToCassette(request, providerName, modelName, response);
+        return response;
+      } catch (error) {
+        this.recordFailure(provider, model, startTime, error, attempts);
+      } finally {
+        release();
+        this.circuitBreaker.endTrial(provider.name);
+      }
+    }
+
+    throw new Error(`Failed to generate response: ${describeAttempts(attempts)}`);
+  }
+
+  /**
+   * Stream a response as text deltas. Usage and cost are tracked once the stream
+   * finishes and reported in the final `done` event. Retries and fallbacks only
+   * happen before the first delta; a stream that fails part-way is not replayed.
+   */
+  async *generateStream(
+    request: LLMRequest,
+    providerName?: string,
+    modelName?: string,
+    signal?: AbortSignal
+  ): AsyncGenerator<LLMStreamEvent> {
+    if (request.tools?.length) {
+      throw new Error('Tool calling is not supported on streams; use generateWithTools');
+    }
+
+    const replayed = await this.fromCassette(request, providerName, modelName);
+    if (replayed) {
+      if (replayed.content) yield { type: 'delta', content: replayed.content };
+      yield { type: 'done', response: replayed };
+      return;
+    }
+
+    const attempts: FailedAttempt[] = [];
+
+    for await (const { provider, model } of this.planAttempts(
+      request,
+      providerName,
+      modelName,
+      attempts
+    )) {
+      const startTime = Date.now();
+      const fitted = await this.fitContext(provider, model, request, attempts);
+      if (!fitted) continue;
+
+      const cached = await this.fromCache(provider, model, fitted.request, startTime, attempts);
+      if (cached) {
+        withTrims(cached, fitted.trimmed);
+        await this.recordToCassette(request, providerName, modelName, cached);
+        if (cached.content) yield { type: 'delta', content: cached.content };
+        yield { type: 'done', response: cached };
+        return;
+      }
+
+      let content = '';
+      let finishReason: string | undefined;
+      let usage: Partial<ProviderResult['usage']> = {};
 
-    // Google Gemini
-    this.providers.set('gemini', {
-      name: 'Google Gemini',
-      apiKey: process.env.GOOGLE_API_KEY,
-      baseUrl: 'https://generativelanguage.googleapis.com/v1beta',
-      models: ['gemini-1.5-pro', 'gemini-1.5-flash'],
-      costPerToken: {
-        input: 0.000000125, // $0.125 per 1M tokens
-        output: 0.0000005, // $0.5 per 1M tokens
+      const release = await this.reserveBudget(provider, model, fitted.request);
+      if (!this.beginCall(provider, model, attempts)) {
+        release();
+        continue;
+      }
+      let response: LLMResponse;
+      try {
+        try {
+          for await (const event of this.streamProvider(provider, model, fitted.request, signal)) {
+            if (event.type === 'delta') {
+              if (!event.content) continue;
+              content += event.content;
+              yield event;
+            } else {
+              finishReason = event.finishReason ?? finishReason;
+              usage = { ...usage, ...event.usage };
+            }
+          }
+        } catch (error) {
+          // The client went away; that says nothing about the provider
+          if (signal?.aborted) throw error;
+          this.recordFailure(provider, model, startTime, error, attempts);
+          if (content) {
+            throw new Error(`Failed to stream response: ${describeAttempts(attempts)}`);
+          }
+          continue;
+        }
+
+        response = await this.completeResponse(
+          provider,
+          model,
+          {
+            content,
+            finishReason,
+            usage: {
+              // Providers that omit usage in their stream fall back to the usual estimate
+              inputTokens: usage.inputTokens ?? countMessageTokens(fitted.request.messages, model),
+              outputTokens: usage.outputTokens ?? countTokens(content, model),
+            },
+          },
+          startTime,
+          attempts
+        );
+        await this.recordCost(request, response);
+      } finally {
+        release();
+        this.circuitBreaker.endTrial(provider.name);
+      }
+      withTrims(response, fitted.trimmed);
+      await this.storeInCache(fitted.request, response);
+      await this.recordToCassette(request, providerName, modelName, response);
+      yield { type: 'done', response };
+      return;
+    }
+
+    throw new Error(`Failed to stream response: ${describeAttempts(attempts)}`);
+  }
+
+  /**
+   * Generate with structured prompting
+   */
+  async generateStructured<T = unknown>(
+    prompt: StructuredPrompt & { outputFormat: 'json' },
+    providerName?: string,
+    modelName?: string
+  ): Promise<StructuredResponse<T>>;
+  async generateStructured(
+    prompt: StructuredPrompt,
+    providerName?: string,
+    modelName?: string
+  ): Promise<LLMResponse>;
+  async generateStructured(
+    prompt: StructuredPrompt,
+    providerName?: string,
+    modelName?: string
+  ): Promise<LLMResponse | StructuredResponse<unknown>> {
+    const request = this.buildStructuredRequest(prompt);
+    const response = await this.generate(request, providerName, modelName);
+    if (prompt.outputFormat !== 'json') return response;
+
+    return this.validateStructured(
+      request,
+      response,
+      prompt.maxRepairs ?? DEFAULT_MAX_REPAIRS,
+      providerName,
+      modelName
+    );
+  }
+
+  /**
+   * Stream with structured prompting
+   */
+  generateStructuredStream(
+    prompt: StructuredPrompt,
+    providerName?: string,
+    modelName?: string,
+    signal?: AbortSignal
+  ): AsyncGenerator<LLMStreamEvent> {
+    return this.generateStream(
+      this.buildStructuredRequest(prompt),
+      providerName,
+      modelName,
+      signal
+    );
+  }
+
+  /**
+   * Generate multiple responses in parallel
+   */
+  async generateParallel(requests: LLMRequest[], providerName?: string): Promise<LLMResponse[]> {
+    const promises = requests.map((request) => this.generate(request, providerName));
+    return Promise.all(promises);
+  }
+
+  /**
+   * Let the model call tools until it answers. Each call's arguments are validated against the
+   * tool's schema before its handler runs; invalid arguments, unknown tools and handler errors
+   * are sent back to the model as the tool result. Usage covers every round.
+   */
+  async generateWithTools(
+    request: LLMRequest,
+    options: { tools?: Array<string | LLMTool>; maxSteps?: number } = {},
+    providerName?: string,
+    modelName?: string
+  ): Promise<ToolResponse> {
+    const tools = new Map(
+      (options.tools ?? [...this.tools.keys()]).map((tool) => {
+        const resolved = typeof tool === 'string' ? this.tools.get(tool) : tool;
+        if (!resolved) throw new Error(`Unknown tool: ${tool}`);
+        return [resolved.name, resolved];
+      })
+    );
+    const definitions = [...tools.values()].map(({ name, description, parameters }) => ({
+      name,
+      description,
+      parameters,
+    }));
+    const maxSteps = options.maxSteps ?? DEFAULT_MAX_TOOL_STEPS;
+
+    const messages = [...request.messages];
+    const toolResults: ToolResult[] = [];
+    const usage = { inputTokens: 0, outputTokens: 0, totalTokens: 0, cost: 0 };
+
+    for (let step = 0; ; step++) {
+      const response = await this.generate(
+        { ...request, messages, tools: definitions },
+        providerName,
+        modelName
+      );
+      usage.inputTokens += response.usage.inputTokens;
+      usage.outputTokens += response.usage.outputTokens;
+      usage.totalTokens += response.usage.totalTokens;
+      usage.cost += response.usage.cost;
+
+      if (!response.toolCalls?.length) return { ...response, usage, toolResults };
+      if (step >= maxSteps) {
+        throw new Error(`Model was still calling tools after ${maxSteps} steps`);
+      }
+
+      messages.push({
+        role: 'assistant',
+        content: response.content,
+        toolCalls: response.toolCalls,
+      });
+      for (const call of response.toolCalls) {
+        const outcome = await runTool(tools.get(call.name), call, { userId: request.userId });
+        toolResults.push(outcome);
+        messages.push({
+          role: 'tool',
+          toolCallId: call.id,
+          name: call.name,
+          content: JSON.stringify(
+            outcome.error !== undefined ? { error: outcome.error } : (outcome.result ?? null)
+          ),
+        });
+      }
+    }
+  }
+
+  /**
+   * Make a tool available to generateWithTools; replaces any tool with the same name
+   */
+  registerTool<Args = any>(tool: LLMTool<Args>): void {
+    if (!TOOL_NAME_PATTERN.test(tool.name)) {
+      throw new Error(`Invalid tool name: ${tool.name}`);
+    }
+    this.tools.set(tool.name, tool);
+  }
+
+  unregisterTool(name: string): boolean {
+    return this.tools.delete(name);
+  }
+
+  listTools(): ToolDefinition[] {
+    return [...this.tools.values()].map(({ name, description, parameters }) => ({
+      name,
+      description,
+      parameters,
+    }));
+  }
+
+  /**
+   * Get cost and usage statistics
+   */
+  async getUsageStats(timeframe: 'day' | 'week' | 'month' = 'month') {
+    const stats = {
+      ...(await this.costTracker.getStats(timeframe)),
+      // The ledger outlives restarts, so its totals win when there is one
+      ...(this.ledger && (await this.ledger.getStats(timeframeStart(timeframe)))),
+    };
+    const storage = this.cache ? await this.cache.getStats() : { entries: 0, sizeBytes: 0 };
+    return { ...stats, cache: { enabled: !!this.cache, ...stats.cache, ...storage } };
+  }
+
+  /**
+   * Get performance metrics
+   */
+  async getPerformanceMetrics() {
+    return {
+      ...(await this.performanceMonitor.getMetrics()),
+      circuits: this.circuitBreaker.getStates(),
+    };
+  }
+
+  /**
+   * Replace the fallback chain used for a task type ('default' applies to untyped requests)
+   */
+  setFallbackChain(taskType: string, chain: FallbackTarget[]): void {
+    this.chainOverrides[taskType] = chain;
+    this.fallbackChains[taskType] = chain;
+  }
+
+  /**
+   * List every configured model and whether its provider is usable right now
+   */
+  listModels(): LLMModelInfo[] {
+    return [...this.providers.values()].flatMap((provider) =>
+      provider.models.map((model) => ({
+        provider: provider.id,
+        providerName: provider.name,
+        model,
+        available: this.isProviderAvailable(provider),
+        costPerToken: provider.modelSettings[model]?.costPerToken ?? provider.costPerToken,
+        contextWindow: provider.modelSettings[model]?.contextWindow ?? provider.contextWindow,
+      }))
+    );
+  }
+
+  hasProvider(providerName: string): boolean {
+    return this.providers.has(providerName);
+  }
+
+  /**
+   * Embed texts with a single embedding model. Retryable errors are retried, but there is no
+   * fallback to another provider: vectors from different models cannot be compared.
+   * Without a provider, the first available provider with embedding models is used;
+   * "local" runs a CPU model in-process.
+   */
+  async embed(
+    request: EmbeddingRequest,
+    providerName?: string,
+    modelName?: string
+  ): Promise<EmbeddingResponse> {
+    const inputTokens = (model: string, texts: string[]) =>
+      texts.reduce((sum, text) => sum + countTokens(text, model), 0);
+
+    if (providerName === LOCAL_EMBEDDING_PROVIDER) {
+      const model = modelName || DEFAULT_LOCAL_EMBEDDING_MODEL;
+      return {
+        embeddings: request.input.length
+          ? await this.localEmbeddings.embed(request.input, model)
+          : [],
+        provider: LOCAL_EMBEDDING_PROVIDER,
+        model,
+        usage: { inputTokens: inputTokens(model, request.input), cost: 0 },
+      };
+    }
+
+    const provider = this.resolveEmbeddingProvider(providerName);
+    const model = modelName || provider.embeddingModels[0];
+    const attribution = {
+      userId: request.userId,
+      feature: request.feature ?? 'embeddings',
+      label: request.label,
+    };
+    const release = this.ledger
+      ? await this.ledger.reserve(
+          attribution,
+          this.calculateCost(provider, model, inputTokens(model, request.input), 0)
+        )
+      : () => {};
+
+    const embeddings: number[][] = [];
+    let tokens = 0;
+    let cost: number;
+    try {
+      for (let i = 0; i < request.input.length; i += EMBEDDING_BATCH_SIZE) {
+        const batch = request.input.slice(i, i + EMBEDDING_BATCH_SIZE);
+        const result = await this.withRetries(() => this.callEmbeddings(provider, model, batch));
+        if (result.embeddings.length !== batch.length) {
+          throw new LLMProviderError(
+            `${provider.name} returned ${result.embeddings.length} embeddings for ${batch.length} inputs`
+          );
+        }
+        embeddings.push(...result.embeddings);
+        tokens += result.inputTokens ?? inputTokens(model, batch);
+      }
+
+      cost = this.calculateCost(provider, model, tokens, 0);
+      if (this.ledger && request.input.length > 0) {
+        try {
+          await this.ledger.record({
+            ...attribution,
+            provider: provider.id,
+            model,
+            inputTokens: tokens,
+            outputTokens: 0,
+            cost,
+          });
+        } catch (error) {
+          console.warn(`Cost ledger write failed: ${(error as Error).message}`);
+        }
+      }
+    } finally {
+      release();
+    }
+
+    return { embeddings, provider: provider.id, model, usage: { inputTokens: tokens, cost } };
+  }
+
+  /**
+   * Every configured embedding model, plus the local model
+   */
+  listEmbeddingModels(): EmbeddingModelInfo[] {
+    return [
+      ...[...this.providers.values()].flatMap((provider) =>
+        provider.embeddingModels.map((model) => ({
+          provider: provider.id,
+          model,
+          available: this.isProviderAvailable(provider),
+          dimensions: provider.modelSettings[model]?.dimensions,
+          costPerToken: provider.modelSettings[model]?.costPerToken ?? provider.costPerToken,
+        }))
+      ),
+      {
+        provider: LOCAL_EMBEDDING_PROVIDER,
+        model: DEFAULT_LOCAL_EMBEDDING_MODEL,
+        available: true,
+        dimensions: 384,
+        costPerToken: { input: 0, output: 0 },
       },
+    ];
+  }
+
+  // Private helper methods
+
+  /**
+   * Ordered provider/model targets for a request: the explicit provider, the providers
+   * serving an explicit model, or the task type's fallback chain
+   */
+  private resolveCandidates(
+    request: LLMRequest,
+    providerName?: string,
+    modelName?: string
+  ): Array<{ provider: LLMProvider; model: string }> {
+    if (providerName) {
+      const provider = this.providers.get(providerName);
+      if (!provider) {
+        throw new Error(`Provider ${providerName} not available`);
+      }
+      return [{ provider, model: modelName || this.selectOptimalModel(provider, request) }];
+    }
+
+    if (modelName) {
+      const serving = [...this.providers.values()].filter(
+        (p) => p.models.includes(modelName) && this.isProviderAvailable(p)
+      );
+      if (serving.length > 0) {
+        return serving.map((provider) => ({ provider, model: modelName }));
+      }
+    }
+
+    const chain = this.fallbackChains[request.taskType || 'default'] || this.fallbackChains.default;
+    const candidates = chain.flatMap((target) => {
+      const provider = this.providers.get(target.provider);
+      if (!provider || !this.isProviderAvailable(provider)) return [];
+      // An unlisted model (e.g. one pulled into Ollama locally) is passed through as-is
+      const model = modelName || target.model || this.selectOptimalModel(provider, request);
+      return [{ provider, model }];
     });
 
-    // HuggingFace
-    this.providers.set('huggingface', {
-      name: 'HuggingFace',
-      apiKey: process.env.HUGGINGFACE_API_KEY,
-      baseUrl: 'https://api-inference.huggingface.co/models',
-      models: ['microsoft/DialoGPT-large', 'facebook/blenderbot-400M-distill'],
-      costPerToken: {
-        input: 0, // Free tier available
-        output: 0,
-      },
+    if (candidates.length === 0) {
+      throw new Error('No available LLM providers');
+    }
+    return candidates;
+  }
+
+  /**
+   * Yield the next target to try. After each yield the caller either returns or records a
+   * failure in `attempts`; retryable failures are retried with backoff before moving on.
+   * Providers whose circuit is open are skipped.
+   */
+  private async *planAttempts(
+    request: LLMRequest,
+    providerName: string | undefined,
+    modelName: string | undefined,
+    attempts: FailedAttempt[]
+  ): AsyncGenerator<{ provider: LLMProvider; model: string }> {
+    for (const target of this.resolveCandidates(request, providerName, modelName)) {
+      for (let retry = 0; ; retry++) {
+        if (!this.circuitBreaker.allowRequest(target.provider.name)) {
+          circuitOpen(target.provider, target.model, attempts);
+          break;
+        }
+
+        yield target;
+
+        const last = attempts[attempts.length - 1];
+        if (!last?.retryable || retry >= this.retry.maxRetries) break;
+        await sleep(this.backoffDelay(retry, last.retryAfterMs));
+      }
+    }
+  }
+
+  /**
+   * Claim the circuit just before calling the provider, so a cache hit, a trimmed-out model
+   * or a budget refusal never leaves a half-open trial that nothing settles
+   */
+  private beginCall(provider: LLMProvider, model: string, attempts: FailedAttempt[]): boolean {
+    if (this.circuitBreaker.beginCall(provider.name)) return true;
+    circuitOpen(provider, model, attempts);
+    return false;
+  }
+
+  private backoffDelay(retry: number, retryAfterMs?: number): number {
+    if (retryAfterMs !== undefined) {
+      return Math.min(retryAfterMs, this.retry.maxDelayMs);
+    }
+    const exponential = Math.min(this.retry.baseDelayMs * 2 ** retry, this.retry.maxDelayMs);
+    // Jitter keeps concurrent callers from retrying in lockstep
+    return exponential * (0.5 + Math.random() / 2);
+  }
+
+  /**
+   * Refuse a call whose prompt plus `maxTokens` of output would take a hard budget over its
+   * limit, otherwise hold that estimate against the budgets until the returned release is
+   * called. Budget errors are not provider failures, so no fallback is tried.
+   */
+  private async reserveBudget(
+    provider: LLMProvider,
+    model: string,
+    request: LLMRequest
+  ): Promise<() => void> {
+    if (!this.ledger) return () => {};
+    const estimatedCost = this.calculateCost(
+      provider,
+      model,
+      countMessageTokens(request.messages, model),
+      request.maxTokens ?? 0
+    );
+    return this.ledger.reserve(costAttribution(request), estimatedCost);
+  }
+
+  /**
+   * Ledger failures are logged; the caller already has a response it paid for
+   */
+  private async recordCost(request: LLMRequest, response: LLMResponse) {
+    if (!this.ledger) return;
+    try {
+      await this.ledger.record({
+        ...costAttribution(request),
+        provider: response.metadata.providerId,
+        model: response.metadata.model,
+        inputTokens: response.usage.inputTokens,
+        outputTokens: response.usage.outputTokens,
+        cost: response.usage.cost,
+      });
+    } catch (error) {
+      console.warn(`Cost ledger write failed: ${(error as Error).message}`);
+    }
+  }
+
+  private recordFailure(
+    provider: LLMProvider,
+    model: string,
+    startTime: number,
+    error: unknown,
+    attempts: FailedAttempt[]
+  ): void {
+    const failure = toProviderError(error);
+    console.warn(`LLM call failed for ${provider.name}/${model}: ${failure.message}`);
+
+    this.performanceMonitor.recordFailure(provider.name, model, Date.now() - startTime);
+    this.circuitBreaker.recordOutcome(provider.name, false);
+    attempts.push({
+      provider: provider.id,
+      model,
+      error: failure.message,
+      status: failure.status,
+      retryable: failure.retryable,
+      retryAfterMs: failure.retryAfterMs,
     });
+  }
 
-    // Perplexity
-    this.providers.set('perplexity', {
-      name: 'Perplexity',
-      apiKey: process.env.PERPLEXITY_API_KEY,
-      baseUrl: 'https://api.perplexity.ai',
-      models: ['sonar-pro', 'sonar'],
-      costPerToken: {
-        input: 0.000005, // $5 per 1M tokens
-        output: 0.000028, // $28 per 1M tokens
+  private async completeResponse(
+    provider: LLMProvider,
+    model: string,
+    response: ProviderResult,
+    startTime: number,
+    attempts: FailedAttempt[] = []
+  ): Promise<LLMResponse> {
+    const llmResponse: LLMResponse = {
+      content: response.content,
+      finishReason: response.finishReason,
+      ...(response.toolCalls?.length && { toolCalls: response.toolCalls }),
+      usage: {
+        inputTokens: response.usage.inputTokens,
+        outputTokens: response.usage.outputTokens,
+        totalTokens: response.usage.inputTokens + response.usage.outputTokens,
+        cost: this.calculateCost(
+          provider,
+          model,
+          response.usage.inputTokens,
+          response.usage.outputTokens
+        ),
       },
-    });
+      metadata: {
+        provider: provider.name,
+        providerId: provider.id,
+        model,
+        responseTime: Date.now() - startTime,
+        timestamp: new Date(),
+        attempts: attempts.map(({ retryAfterMs, ...attempt }) => attempt),
+      },
+    };
+
+    // Track costs and performance
+    await this.costTracker.trackUsage(llmResponse);
+    await this.performanceMonitor.recordMetrics(llmResponse);
+    this.circuitBreaker.recordOutcome(provider.name, true);
+
+    return llmResponse;
   }
 
   /**
-   * Generate response using specified provider and model
+   * Parse and validate a JSON reply, re-prompting with the validation errors until it
+   * passes or the repair budget is spent
    */
-  async generate(
+  private async validateStructured<T>(
     request: LLMRequest,
+    response: LLMResponse,
+    maxRepairs: number,
     providerName?: string,
     modelName?: string
-  ): Promise<LLMResponse> {
-    const startTime = Date.now();
+  ): Promise<StructuredResponse<T>> {
+    const messages = [...request.messages];
+    const usage = { ...response.usage };
+
+    for (let repairs = 0; ; repairs++) {
+      const parsed = parseJsonReply(response.content);
+      const errors = parsed.ok
+        ? validateJsonSchema(parsed.value, request.jsonSchema)
+        : [`Reply is not valid JSON: ${parsed.error}`];
+
+      if (parsed.ok && errors.length === 0) {
+        return { ...response, usage, result: { ok: true, data: parsed.value as T, repairs } };
+      }
+      if (repairs >= maxRepairs) {
+        return {
+          ...response,
+          usage,
+          result: {
+            ok: false,
+            error: parsed.ok ? 'schema_mismatch' : 'invalid_json',
+            errors,
+            raw: response.content,
+            repairs,
+          },
+        };
+      }
 
-    // Auto-select provider if not specified
-    const provider = providerName
-      ? this.providers.get(providerName)
-      : this.selectOptimalProvider(request);
+      messages.push(
+        { role: 'assistant', content: response.content },
+        {
+          role: 'user',
+          content: `Your reply does not match the required JSON schema:\n${errors
+            .map((e) => `- ${e}`)
+            .join('\n')}\n\nReply again with only the corrected JSON.`,
+        }
+      );
+      response = await this.generate({ ...request, messages }, providerName, modelName);
+      usage.inputTokens += response.usage.inputTokens;
+      usage.outputTokens += response.usage.outputTokens;
+      usage.totalTokens += response.usage.totalTokens;
+      usage.cost += response.usage.cost;
+    }
+  }
 
-    if (!provider) {
-      throw new Error(`Provider ${providerName} not available`);
+  /**
+   * Render the request's context sections for a model, shrinking the lowest-priority sections
+   * until the prompt plus room for the reply fits the context window. Records a failed attempt
+   * and returns null when even the trimmed prompt is too long, so the next target is tried.
+   */
+  private async fitContext(
+    provider: LLMProvider,
+    model: string,
+    request: LLMRequest,
+    attempts: FailedAttempt[]
+  ): Promise<{ request: LLMRequest; trimmed: ContextTrim[] } | null> {
+    const sections = (request.context || []).map((section) => ({ ...section }));
+    const window = this.contextWindowFor(provider, model);
+    if (!window) return { request: withContext(request, sections), trimmed: [] };
+
+    const budget =
+      window - (request.maxTokens ?? Math.min(DEFAULT_REPLY_TOKENS, Math.floor(window / 4)));
+    const overBudget = () =>
+      countMessageTokens(withContext(request, sections).messages, model) - budget;
+
+    const trimmed: ContextTrim[] = [];
+    // Stable sort keeps the caller's order among equal priorities
+    const lowestFirst = [...sections].sort((a, b) => (a.priority ?? 0) - (b.priority ?? 0));
+    for (const section of lowestFirst) {
+      const excess = overBudget();
+      if (excess <= 0) break;
+
+      const fromTokens = countTokens(section.content, model);
+      const target = fromTokens - excess;
+      let action: ContextTrim['action'] = 'dropped';
+      if (section.overflow === 'drop' || target < MIN_SECTION_TOKENS) {
+        section.content = '';
+      } else if (section.overflow === 'summarize') {
+        section.content = await this.summarizeSection(
+          provider,
+          model,
+          request,
+          section,
+          target,
+          window
+        );
+        action = 'summarized';
+      } else {
+        section.content = `${truncateToTokens(section.content, target - 4, model)}\n[truncated]`;
+        action = 'truncated';
+      }
+      trimmed.push({
+        section: section.name,
+        action,
+        fromTokens,
+        toTokens: countTokens(section.content, model),
+      });
+    }
+
+    const excess = overBudget();
+    if (excess > 0) {
+      attempts.push({
+        provider: provider.id,
+        model,
+        error: `Prompt needs ${budget + excess} tokens but the context window is ${window}`,
+        retryable: false,
+      });
+      return null;
+    }
+    return { request: withContext(request, sections), trimmed };
+  }
+
+  /**
+   * Ask the same model to condense a section; falls back to truncation if that fails
+   */
+  private async summarizeSection(
+    provider: LLMProvider,
+    model: string,
+    request: LLMRequest,
+    section: ContextSection,
+    targetTokens: number,
+    window: number
+  ): Promise<string> {
+    // The text being summarized has to fit the window too
+    const source = truncateToTokens(section.content, window - targetTokens - 256, model);
+    try {
+      const summary = await this.generate(
+        {
+          messages: [
+            {
+              role: 'system',
+              content: `Summarize the following ${section.name} in under ${Math.floor(
+                targetTokens * 0.7
+              )} words. Keep names, dates, numbers, skills and achievements; drop filler.`,
+            },
+            { role: 'user', content: source },
+          ],
+          temperature: 0,
+          maxTokens: targetTokens,
+          userId: request.userId,
+          feature: request.feature ?? request.taskType,
+        },
+        provider.id,
+        model
+      );
+      return truncateToTokens(summary.content.trim(), targetTokens, model);
+    } catch (error) {
+      console.warn(`Summarizing ${section.name} failed: ${(error as Error).message}`);
+      return `${truncateToTokens(section.content, targetTokens - 4, model)}\n[truncated]`;
     }
+  }
 
-    // Auto-select model if not specified
-    const model = modelName || this.selectOptimalModel(provider, request);
+  /**
+   * Serve a request from the response cache. Cache failures only cost the lookup.
+   */
+  private async fromCache(
+    provider: LLMProvider,
+    model: string,
+    request: LLMRequest,
+    startTime: number,
+    attempts: FailedAttempt[]
+  ): Promise<LLMResponse | null> {
+    if (!this.cache || !isCacheable(request)) return null;
 
+    let entry;
     try {
-      const response = await this.callProvider(provider, model, request);
-      const responseTime = Date.now() - startTime;
+      entry = await this.cache.get(this.cacheKey(provider.id, model, request));
+    } catch (error) {
+      console.warn(`LLM cache read failed: ${(error as Error).message}`);
+      return null;
+    }
+    if (!entry) return null;
 
-      const llmResponse: LLMResponse = {
+    const response: LLMResponse = {
+      content: entry.content,
+      finishReason: entry.finishReason,
+      usage: {
+        inputTokens: entry.usage.inputTokens,
+        outputTokens: entry.usage.outputTokens,
+        totalTokens: entry.usage.inputTokens + entry.usage.outputTokens,
+        cost: 0,
+      },
+      metadata: {
+        provider: provider.name,
+        providerId: provider.id,
+        model,
+        responseTime: Date.now() - startTime,
+        timestamp: new Date(),
+        attempts: attempts.map(({ retryAfterMs, ...attempt }) => attempt),
+        cached: true,
+      },
+    };
+    this.costTracker.trackCacheLookup(provider.name, entry.usage);
+    return response;
+  }
+
+  private async storeInCache(request: LLMRequest, response: LLMResponse): Promise<void> {
+    if (!this.cache || !isCacheable(request)) return;
+
+    const { providerId, model } = response.metadata;
+    this.costTracker.trackCacheLookup(response.metadata.provider);
+    if (!response.content) return;
+
+    try {
+      await this.cache.set(this.cacheKey(providerId, model, request), {
+        provider: providerId,
+        model,
         content: response.content,
+        finishReason: response.finishReason,
         usage: {
           inputTokens: response.usage.inputTokens,
           outputTokens: response.usage.outputTokens,
-          totalTokens: response.usage.inputTokens + response.usage.outputTokens,
-          cost: this.calculateCost(
-            provider,
-            response.usage.inputTokens,
-            response.usage.outputTokens
-          ),
-        },
-        metadata: {
-          provider: provider.name,
-          model,
-          responseTime,
-          timestamp: new Date(),
+          cost: response.usage.cost,
         },
-      };
-
-      // Track costs and performance
-      await this.costTracker.trackUsage(llmResponse);
-      await this.performanceMonitor.recordMetrics(llmResponse);
-
-      return llmResponse;
+      });
     } catch (error) {
-      console.error(`LLM generation failed for ${provider.name}/${model}:`, error);
-      throw new Error(`Failed to generate response: ${(error as Error).message}`);
+      console.warn(`LLM cache write failed: ${(error as Error).message}`);
     }
   }
 
   /**
-   * Generate with structured prompting
+   * Replay a recorded response. Runs before provider selection, so replays need no API keys;
+   * a strict cassette throws CassetteMissError for unrecorded requests.
    */
-  async generateStructured(prompt: StructuredPrompt, providerName?: string): Promise<LLMResponse> {
-    const systemPrompt = this.buildStructuredSystemPrompt(prompt);
-    const userPrompt = this.buildStructuredUserPrompt(prompt);
+  private async fromCassette(
+    request: LLMRequest,
+    providerName?: string,
+    modelName?: string
+  ): Promise<LLMResponse | null> {
+    if (!this.cassette) return null;
 
-    const request: LLMRequest = {
-      messages: [
-        { role: 'system', content: systemPrompt },
-        { role: 'user', content: userPrompt },
-      ],
-      temperature: 0.7,
-      structuredOutput: prompt.outputFormat === 'json',
-      jsonSchema: prompt.outputFormat === 'json' ? this.generateJsonSchema(prompt) : undefined,
+    const startTime = Date.now();
+    const recorded = await this.cassette.replay(
+      this.cassetteRequest(request, providerName, modelName)
+    );
+    if (!recorded) return null;
+
+    return {
+      content: recorded.content,
+      finishReason: recorded.finishReason,
+      ...(recorded.toolCalls && { toolCalls: recorded.toolCalls }),
+      usage: {
+        inputTokens: recorded.usage.inputTokens,
+        outputTokens: recorded.usage.outputTokens,
+        totalTokens: recorded.usage.inputTokens + recorded.usage.outputTokens,
+        cost: 0,
+      },
+      metadata: {
+        provider: recorded.provider,
+        providerId: recorded.providerId,
+        model: recorded.model,
+        responseTime: Date.now() - startTime,
+        timestamp: new Date(),
+        attempts: [],
+        replayed: true,
+      },
     };
+  }
+
+  private async recordToCassette(
+    request: LLMRequest,
+    providerName: string | undefined,
+    modelName: string | undefined,
+    response: LLMResponse
+  ): Promise<void> {
+    if (!this.cassette) return;
 
-    return this.generate(request, providerName);
+    await this.cassette.record(this.cassetteRequest(request, providerName, modelName), {
+      provider: response.metadata.provider,
+      providerId: response.metadata.providerId,
+      model: response.metadata.model,
+      content: response.content,
+      finishReason: response.finishReason,
+      toolCalls: response.toolCalls,
+      usage: {
+        inputTokens: response.usage.inputTokens,
+        outputTokens: response.usage.outputTokens,
+      },
+    });
   }
 
   /**
-   * Generate multiple responses in parallel
+   * Cassettes key on what the caller asked for rather than the provider that answered,
+   * so replays don't depend on which API keys happen to be configured
    */
-  async generateParallel(requests: LLMRequest[], providerName?: string): Promise<LLMResponse[]> {
-    const promises = requests.map((request) => this.generate(request, providerName));
-    return Promise.all(promises);
+  private cassetteRequest(
+    request: LLMRequest,
+    providerName?: string,
+    modelName?: string
+  ): CassetteRequest {
+    return {
+      messages: withContext(request).messages,
+      temperature: request.temperature,
+      maxTokens: request.maxTokens,
+      structuredOutput: request.structuredOutput,
+      jsonSchema: request.jsonSchema,
+      tools: request.tools,
+      provider: providerName,
+      model: modelName,
+    };
+  }
+
+  private cacheKey(providerId: string, model: string, request: LLMRequest): string {
+    return this.cache!.key({
+      provider: providerId,
+      model,
+      messages: request.messages,
+      temperature: request.temperature,
+      maxTokens: request.maxTokens,
+      structuredOutput: request.structuredOutput,
+      jsonSchema: request.jsonSchema,
+    });
+  }
+
+  private selectOptimalModel(provider: LLMProvider, request: LLMRequest): string {
+    // Select based on request complexity and cost
+    const maxTokens = request.maxTokens || 1000;
+
+    if (maxTokens > 4000) {
+      // Use larger models for complex requests
+      return (
+        provider.models.find((m) => m.includes('large') || m.includes('pro')) || provider.models[0]
+      );
+    } else {
+      // Use efficient models for simple requests
+      return (
+        provider.models.find((m) => m.includes('mini') || m.includes('flash')) || provider.models[0]
+      );
+    }
+  }
+
+  private resolveEmbeddingProvider(providerName?: string): LLMProvider {
+    if (providerName) {
+      const provider = this.providers.get(providerName);
+      if (!provider) {
+        throw new Error(`Provider ${providerName} not available`);
+      }
+      if (provider.embeddingModels.length === 0) {
+        throw new Error(`Provider ${providerName} has no embedding models`);
+      }
+      return provider;
+    }
+
+    const provider = [...this.providers.values()].find(
+      (p) => p.embeddingModels.length > 0 && this.isProviderAvailable(p)
+    );
+    if (!provider) {
+      throw new Error('No available embedding providers');
+    }
+    return provider;
+  }
+
+  private async withRetries<T>(call: () => Promise<T>): Promise<T> {
+    for (let retry = 0; ; retry++) {
+      try {
+        return await call();
+      } catch (error) {
+        const failure = toProviderError(error);
+        if (!failure.retryable || retry >= this.retry.maxRetries) throw failure;
+        await sleep(this.backoffDelay(retry, failure.retryAfterMs));
+      }
+    }
+  }
+
+  private async callEmbeddings(
+    provider: LLMProvider,
+    model: string,
+    input: string[]
+  ): Promise<{ embeddings: number[][]; inputTokens?: number }> {
+    switch (provider.type) {
+      case 'openai':
+      case 'openai-compatible': {
+        const data = await this.postJSON(
+          `${provider.baseUrl}/embeddings`,
+          openAIHeaders(provider),
+          {
+            model,
+            input,
+          }
+        );
+        const ordered = [...data.data].sort((a: any, b: any) => a.index - b.index);
+        return {
+          embeddings: ordered.map((item: any) => item.embedding),
+          inputTokens: data.usage?.prompt_tokens,
+        };
+      }
+      case 'ollama': {
+        const data = await this.postJSON(
+          `${provider.baseUrl}/embed`,
+          { 'Content-Type': 'application/json' },
+          { model, input }
+        );
+        return { embeddings: data.embeddings, inputTokens: data.prompt_eval_count };
+      }
+      default:
+        throw new Error(`Embeddings are not supported by ${provider.name}`);
+    }
+  }
+
+  private async callProvider(
+    provider: LLMProvider,
+    model: string,
+    request: LLMRequest
+  ): Promise<any> {
+    switch (provider.type) {
+      case 'openai':
+        return this.callOpenAI(provider, model, request);
+      case 'openai-compatible':
+        return this.callOpenAICompatible(provider, model, request);
+      case 'claude':
+        return this.callClaude(provider, model, request);
+      case 'ollama':
+        return this.callOllama(provider, model, request);
+      case 'gemini':
+        return this.callGemini(provider, model, request);
+      case 'huggingface':
+        return this.callHuggingFace(provider, model, request);
+      default:
+        throw new Error(`Unsupported provider: ${provider.name}`);
+    }
+  }
+
+  private streamProvider(
+    provider: LLMProvider,
+    model: string,
+    request: LLMRequest,
+    signal?: AbortSignal
+  ): AsyncGenerator<ProviderStreamEvent> {
+    switch (provider.type) {
+      case 'openai':
+      case 'openai-compatible':
+        return this.streamOpenAICompatible(provider, model, request, signal);
+      case 'claude':
+        return this.streamClaude(provider, model, request, signal);
+      case 'ollama':
+        return this.streamOllama(provider, model, request, signal);
+      case 'gemini':
+        return this.streamGemini(provider, model, request, signal);
+      default:
+        return this.streamWhole(provider, model, request);
+    }
   }
 
   /**
-   * Get cost and usage statistics
+   * Providers without a streaming API deliver the whole completion as one delta
    */
-  async getUsageStats(timeframe: 'day' | 'week' | 'month' = 'month') {
-    return this.costTracker.getStats(timeframe);
+  private async *streamWhole(
+    provider: LLMProvider,
+    model: string,
+    request: LLMRequest
+  ): AsyncGenerator<ProviderStreamEvent> {
+    const response: ProviderResult = await this.callProvider(provider, model, request);
+    yield { type: 'delta', content: response.content };
+    yield { type: 'end', finishReason: response.finishReason, usage: response.usage };
+  }
+
+  private async *streamOpenAICompatible(
+    provider: LLMProvider,
+    model: string,
+    request: LLMRequest,
+    signal?: AbortSignal
+  ): AsyncGenerator<ProviderStreamEvent> {
+    const body = await this.openStream(
+      `${provider.baseUrl}/chat/completions`,
+      openAIHeaders(provider),
+      {
+        model,
+        messages: toOpenAIMessages(request.messages),
+        temperature: request.temperature ?? 0.7,
+        max_tokens: request.maxTokens || 1000,
+        response_format:
+          request.structuredOutput && provider.jsonMode ? { type: 'json_object' } : undefined,
+        stream: true,
+        // OpenAI only reports usage in a streamed response when asked to
+        stream_options: provider.type === 'openai' ? { include_usage: true } : undefined,
+      },
+      signal
+    );
+
+    for await (const { data } of readServerSentEvents(body)) {
+      if (data === '[DONE]') break;
+      const chunk = JSON.parse(data);
+      const choice = chunk.choices?.[0];
+      if (choice?.delta?.content) {
+        yield { type: 'delta', content: choice.delta.content };
+      }
+      if (choice?.finish_reason || chunk.usage) {
+        yield {
+          type: 'end',
+          finishReason: choice?.finish_reason ?? undefined,
+          usage: chunk.usage && {
+            inputTokens: chunk.usage.prompt_tokens,
+            outputTokens: chunk.usage.completion_tokens,
+          },
+        };
+      }
+    }
   }
 
-  /**
-   * Get performance metrics
-   */
-  async getPerformanceMetrics() {
-    return this.performanceMonitor.getMetrics();
+  private async *streamClaude(
+    provider: LLMProvider,
+    model: string,
+    request: LLMRequest,
+    signal?: AbortSignal
+  ): AsyncGenerator<ProviderStreamEvent> {
+    const body = await this.openStream(
+      `${provider.baseUrl}/messages`,
+      {
+        'x-api-key': provider.apiKey as string,
+        'Content-Type': 'application/json',
+        'anthropic-version': '2023-06-01',
+      },
+      {
+        model,
+        messages: toClaudeMessages(request.messages),
+        system: request.messages.find((m) => m.role === 'system')?.content,
+        temperature: request.temperature ?? 0.7,
+        max_tokens: request.maxTokens || 1000,
+        stream: true,
+      },
+      signal
+    );
+
+    for await (const { event, data } of readServerSentEvents(body)) {
+      const payload = JSON.parse(data);
+      switch (event ?? payload.type) {
+        case 'message_start':
+          yield { type: 'end', usage: { inputTokens: payload.message.usage.input_tokens } };
+          break;
+        case 'content_block_delta':
+          if (payload.delta.type === 'text_delta') {
+            yield { type: 'delta', content: payload.delta.text };
+          }
+          break;
+        case 'message_delta':
+          yield {
+            type: 'end',
+            finishReason: payload.delta.stop_reason,
+            usage: { outputTokens: payload.usage.output_tokens },
+          };
+          break;
+        case 'error':
+          throw new Error(payload.error?.message || 'Claude stream error');
+      }
+    }
+  }
+
+  private async *streamOllama(
+    provider: LLMProvider,
+    model: string,
+    request: LLMRequest,
+    signal?: AbortSignal
+  ): AsyncGenerator<ProviderStreamEvent> {
+    const body = await this.openStream(
+      `${provider.baseUrl}/chat`,
+      { 'Content-Type': 'application/json' },
+      {
+        model,
+        messages: toOllamaMessages(request.messages),
+        stream: true,
+        options: {
+          temperature: request.temperature ?? 0.7,
+          num_predict: request.maxTokens || 1000,
+        },
+      },
+      signal
+    );
+
+    // Ollama streams newline-delimited JSON rather than SSE
+    for await (const line of readLines(body)) {
+      if (!line.trim()) continue;
+      const chunk = JSON.parse(line);
+      if (chunk.error) throw new Error(chunk.error);
+      if (chunk.message?.content) {
+        yield { type: 'delta', content: chunk.message.content };
+      }
+      if (chunk.done) {
+        yield {
+          type: 'end',
+          finishReason: chunk.done_reason,
+          usage: { inputTokens: chunk.prompt_eval_count, outputTokens: chunk.eval_count },
+        };
+      }
+    }
   }
 
-  // Private helper methods
+  private async *streamGemini(
+    provider: LLMProvider,
+    model: string,
+    request: LLMRequest,
+    signal?: AbortSignal
+  ): AsyncGenerator<ProviderStreamEvent> {
+    const contents = toGeminiContents(request.messages);
 
-  private selectOptimalProvider(request: LLMRequest): LLMProvider {
-    // Priority: Ollama (free) > OpenAI (fast) > Claude (quality) > Others
-    const priority = ['ollama', 'openai', 'claude', 'gemini', 'perplexity', 'huggingface'];
+    const body = await this.openStream(
+      `${provider.baseUrl}/models/${model}:streamGenerateContent?alt=sse&key=${provider.apiKey}`,
+      { 'Content-Type': 'application/json' },
+      {
+        contents,
+        generationConfig: {
+          temperature: request.temperature ?? 0.7,
+          maxOutputTokens: request.maxTokens || 1000,
+        },
+      },
+      signal
+    );
 
-    for (const providerName of priority) {
-      const provider = this.providers.get(providerName);
-      if (provider && this.isProviderAvailable(provider)) {
-        return provider;
+    for await (const { data } of readServerSentEvents(body)) {
+      const chunk = JSON.parse(data);
+      const candidate = chunk.candidates?.[0];
+      const text = (candidate?.content?.parts || []).map((part: any) => part.text || '').join('');
+      if (text) {
+        yield { type: 'delta', content: text };
+      }
+      if (candidate?.finishReason || chunk.usageMetadata) {
+        yield {
+          type: 'end',
+          finishReason: candidate?.finishReason,
+          usage: chunk.usageMetadata && {
+            inputTokens: chunk.usageMetadata.promptTokenCount,
+            outputTokens: chunk.usageMetadata.candidatesTokenCount,
+          },
+        };
       }
     }
-
-    throw new Error('No available LLM providers');
   }
 
-  private selectOptimalModel(provider: LLMProvider, request: LLMRequest): string {
-    // Select based on request complexity and cost
-    const maxTokens = request.maxTokens || 1000;
+  /**
+   * POST JSON to a provider, turning HTTP and network failures into LLMProviderError
+   */
+  private async post(
+    url: string,
+    headers: Record<string, string>,
+    body: any,
+    signal?: AbortSignal
+  ): Promise<Response> {
+    let response: Response;
+    try {
+      response = await fetch(url, {
+        method: 'POST',
+        headers,
+        body: JSON.stringify(body),
+        signal,
+      });
+    } catch (error) {
+      if ((error as Error).name === 'AbortError') throw error;
+      throw new LLMProviderError(`Network error: ${(error as Error).message}`, undefined, true);
+    }
 
-    if (maxTokens > 4000) {
-      // Use larger models for complex requests
-      return (
-        provider.models.find((m) => m.includes('large') || m.includes('pro')) || provider.models[0]
-      );
-    } else {
-      // Use efficient models for simple requests
-      return (
-        provider.models.find((m) => m.includes('mini') || m.includes('flash')) || provider.models[0]
+    if (!response.ok) {
+      const detail = await response.text().catch(() => '');
+      const retryAfter = Number(response.headers?.get('retry-after'));
+      throw new LLMProviderError(
+        `HTTP ${response.status}${detail ? `: ${detail.slice(0, 200)}` : ''}`,
+        response.status,
+        isRetryableStatus(response.status),
+        Number.isFinite(retryAfter) && retryAfter > 0 ? retryAfter * 1000 : undefined
       );
     }
+
+    return response;
   }
 
-  private async callProvider(
-    provider: LLMProvider,
-    model: string,
-    request: LLMRequest
-  ): Promise<any> {
-    switch (provider.name.toLowerCase()) {
-      case 'openai':
-        return this.callOpenAI(provider, model, request);
-      case 'claude':
-        return this.callClaude(provider, model, request);
-      case 'ollama':
-        return this.callOllama(provider, model, request);
-      case 'gemini':
-        return this.callGemini(provider, model, request);
-      case 'huggingface':
-        return this.callHuggingFace(provider, model, request);
-      case 'perplexity':
-        return this.callPerplexity(provider, model, request);
-      default:
-        throw new Error(`Unsupported provider: ${provider.name}`);
+  private async postJSON(url: string, headers: Record<string, string>, body: any): Promise<any> {
+    const response = await this.post(url, headers, body);
+    return response.json();
+  }
+
+  private async openStream(
+    url: string,
+    headers: Record<string, string>,
+    body: any,
+    signal?: AbortSignal
+  ): Promise<AsyncIterable<Uint8Array>> {
+    const response = await this.post(url, headers, body, signal);
+    if (!response.body) {
+      throw new LLMProviderError('Provider returned an empty stream', response.status, true);
     }
+    return response.body as unknown as AsyncIterable<Uint8Array>;
   }
 
   private async callOpenAI(
@@ -299,25 +1776,27 @@ export class LLMAbstractionLayer {
     model: string,
     request: LLMRequest
   ): Promise<any> {
-    const response = await fetch(`${provider.baseUrl}/chat/completions`, {
-      method: 'POST',
-      headers: {
+    const data = await this.postJSON(
+      `${provider.baseUrl}/chat/completions`,
+      {
         Authorization: `Bearer ${provider.apiKey}`,
         'Content-Type': 'application/json',
       },
-      body: JSON.stringify({
+      {
         model,
-        messages: request.messages,
-        temperature: request.temperature || 0.7,
+        messages: toOpenAIMessages(request.messages),
+        temperature: request.temperature ?? 0.7,
         max_tokens: request.maxTokens || 1000,
         response_format: request.structuredOutput ? { type: 'json_object' } : undefined,
-      }),
-    });
-
-    const data = await response.json();
+        tools: request.tools?.length ? toOpenAITools(request.tools) : undefined,
+      }
+    );
 
+    const message = data.choices[0].message;
     return {
-      content: data.choices[0].message.content,
+      content: message.content ?? '',
+      finishReason: data.choices[0].finish_reason,
+      toolCalls: fromOpenAIToolCalls(message.tool_calls),
       usage: {
         inputTokens: data.usage.prompt_tokens,
         outputTokens: data.usage.completion_tokens,
@@ -330,26 +1809,28 @@ export class LLMAbstractionLayer {
     model: string,
     request: LLMRequest
   ): Promise<any> {
-    const response = await fetch(`${provider.baseUrl}/messages`, {
-      method: 'POST',
-      headers: {
-        'x-api-key': provider.apiKey,
+    const data = await this.postJSON(
+      `${provider.baseUrl}/messages`,
+      {
+        'x-api-key': provider.apiKey as string,
         'Content-Type': 'application/json',
         'anthropic-version': '2023-06-01',
       },
-      body: JSON.stringify({
+      {
         model,
-        messages: request.messages.filter((m) => m.role !== 'system'),
+        messages: toClaudeMessages(request.messages),
         system: request.messages.find((m) => m.role === 'system')?.content,
-        temperature: request.temperature || 0.7,
+        temperature: request.temperature ?? 0.7,
         max_tokens: request.maxTokens || 1000,
-      }),
-    });
-
-    const data = await response.json();
+        tools: request.tools?.length ? toClaudeTools(request.tools) : undefined,
+      }
+    );
 
+    const { text, toolCalls } = fromClaudeContent(data.content);
     return {
-      content: data.content[0].text,
+      content: text,
+      finishReason: data.stop_reason,
+      toolCalls,
       usage: {
         inputTokens: data.usage.input_tokens,
         outputTokens: data.usage.output_tokens,
@@ -362,29 +1843,30 @@ export class LLMAbstractionLayer {
     model: string,
     request: LLMRequest
   ): Promise<any> {
-    const response = await fetch(`${provider.baseUrl}/chat`, {
-      method: 'POST',
-      headers: {
+    const data = await this.postJSON(
+      `${provider.baseUrl}/chat`,
+      {
         'Content-Type': 'application/json',
       },
-      body: JSON.stringify({
+      {
         model,
-        messages: request.messages,
+        messages: toOllamaMessages(request.messages),
         stream: false,
+        tools: request.tools?.length ? toOpenAITools(request.tools) : undefined,
         options: {
-          temperature: request.temperature || 0.7,
+          temperature: request.temperature ?? 0.7,
           num_predict: request.maxTokens || 1000,
         },
-      }),
-    });
-
-    const data = await response.json();
+      }
+    );
 
     return {
       content: data.message.content,
+      finishReason: data.done_reason,
+      toolCalls: fromOpenAIToolCalls(data.message.tool_calls),
       usage: {
-        inputTokens: this.estimateTokens(JSON.stringify(request.messages)),
-        outputTokens: this.estimateTokens(data.message.content),
+        inputTokens: countMessageTokens(request.messages, model),
+        outputTokens: countTokens(data.message.content, model),
       },
     };
   }
@@ -394,36 +1876,29 @@ export class LLMAbstractionLayer {
     model: string,
     request: LLMRequest
   ): Promise<any> {
-    const contents = request.messages.map((msg) => ({
-      role: msg.role === 'assistant' ? 'model' : 'user',
-      parts: [{ text: msg.content }],
-    }));
-
-    const response = await fetch(
+    const data = await this.postJSON(
       `${provider.baseUrl}/models/${model}:generateContent?key=${provider.apiKey}`,
       {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
+        'Content-Type': 'application/json',
+      },
+      {
+        contents: toGeminiContents(request.messages),
+        generationConfig: {
+          temperature: request.temperature ?? 0.7,
+          maxOutputTokens: request.maxTokens || 1000,
         },
-        body: JSON.stringify({
-          contents,
-          generationConfig: {
-            temperature: request.temperature || 0.7,
-            maxOutputTokens: request.maxTokens || 1000,
-          },
-        }),
+        tools: request.tools?.length ? toGeminiTools(request.tools) : undefined,
       }
     );
-
-    const data = await response.json();
-    const content = data.candidates[0].content.parts[0].text;
+    const { text: content, toolCalls } = fromGeminiParts(data.candidates[0].content?.parts || []);
 
     return {
       content,
+      finishReason: data.candidates[0].finishReason,
+      toolCalls,
       usage: {
-        inputTokens: this.estimateTokens(JSON.stringify(request.messages)),
-        outputTokens: this.estimateTokens(content),
+        inputTokens: countMessageTokens(request.messages, model),
+        outputTokens: countTokens(content, model),
       },
     };
   }
@@ -433,78 +1908,108 @@ export class LLMAbstractionLayer {
     model: string,
     request: LLMRequest
   ): Promise<any> {
-    const response = await fetch(`${provider.baseUrl}/${model}`, {
-      method: 'POST',
-      headers: {
+    if (request.tools?.length) {
+      throw new LLMProviderError(`${provider.name} does not support tool calling`);
+    }
+
+    const data = await this.postJSON(
+      `${provider.baseUrl}/${model}`,
+      {
         Authorization: `Bearer ${provider.apiKey}`,
         'Content-Type': 'application/json',
       },
-      body: JSON.stringify({
+      {
         inputs: request.messages.map((m) => m.content).join('\n'),
         parameters: {
           max_new_tokens: request.maxTokens || 1000,
-          temperature: request.temperature || 0.7,
+          temperature: request.temperature ?? 0.7,
         },
-      }),
-    });
-
-    const data = await response.json();
+      }
+    );
 
     return {
       content: data[0].generated_text,
       usage: {
-        inputTokens: this.estimateTokens(JSON.stringify(request.messages)),
-        outputTokens: this.estimateTokens(data[0].generated_text),
+        inputTokens: countMessageTokens(request.messages, model),
+        outputTokens: countTokens(data[0].generated_text, model),
       },
     };
   }
 
-  private async callPerplexity(
+  /**
+   * Any server speaking the OpenAI chat completions API (Perplexity, vLLM, LM Studio, llama.cpp)
+   */
+  private async callOpenAICompatible(
     provider: LLMProvider,
     model: string,
     request: LLMRequest
   ): Promise<any> {
-    const response = await fetch(`${provider.baseUrl}/chat/completions`, {
-      method: 'POST',
-      headers: {
-        Authorization: `Bearer ${provider.apiKey}`,
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify({
+    const data = await this.postJSON(
+      `${provider.baseUrl}/chat/completions`,
+      openAIHeaders(provider),
+      {
         model,
-        messages: request.messages,
-        temperature: request.temperature || 0.7,
+        messages: toOpenAIMessages(request.messages),
+        temperature: request.temperature ?? 0.7,
         max_tokens: request.maxTokens || 1000,
-      }),
-    });
-
-    const data = await response.json();
+        response_format:
+          request.structuredOutput && provider.jsonMode ? { type: 'json_object' } : undefined,
+        tools: request.tools?.length ? toOpenAITools(request.tools) : undefined,
+      }
+    );
 
+    const message = data.choices[0].message;
     return {
-      content: data.choices[0].message.content,
+      content: message.content ?? '',
+      finishReason: data.choices[0].finish_reason,
+      toolCalls: fromOpenAIToolCalls(message.tool_calls),
       usage: {
-        inputTokens:
-          data.usage?.prompt_tokens || this.estimateTokens(JSON.stringify(request.messages)),
-        outputTokens:
-          data.usage?.completion_tokens || this.estimateTokens(data.choices[0].message.content),
+        // Not every server reports usage
+        inputTokens: data.usage?.prompt_tokens || countMessageTokens(request.messages, model),
+        outputTokens: data.usage?.completion_tokens || countTokens(message.content ?? '', model),
       },
     };
   }
 
-  private calculateCost(provider: LLMProvider, inputTokens: number, outputTokens: number): number {
-    return inputTokens * provider.costPerToken.input + outputTokens * provider.costPerToken.output;
+  private calculateCost(
+    provider: LLMProvider,
+    model: string,
+    inputTokens: number,
+    outputTokens: number
+  ): number {
+    const pricing = provider.modelSettings[model]?.costPerToken ?? provider.costPerToken;
+    return inputTokens * pricing.input + outputTokens * pricing.output;
   }
 
-  private estimateTokens(text: string): number {
-    // Rough estimation: ~4 characters per token for English text
-    return Math.ceil(text.length / 4);
+  private contextWindowFor(provider: LLMProvider, model: string): number | undefined {
+    return provider.modelSettings[model]?.contextWindow ?? provider.contextWindow;
   }
 
   private isProviderAvailable(provider: LLMProvider): boolean {
-    if (provider.name === 'Ollama') {
-      return true; // Assume local Ollama is running
-    }
-    return !!provider.apiKey;
+    // Local servers (Ollama, vLLM, ...) are assumed to be running
+    return !provider.requiresApiKey || !!provider.apiKey;
+  }
+
+  private buildStructuredRequest(prompt: StructuredPrompt): LLMRequest {
+    const systemPrompt = this.buildStructuredSystemPrompt(prompt);
+    const userPrompt = this.buildStructuredUserPrompt(prompt);
+
+    return {
+      messages: [
+        ...(systemPrompt ? [{ role: 'system' as const, content: systemPrompt }] : []),
+        { role: 'user', content: userPrompt },
+      ],
+      temperature: prompt.temperature ?? 0.7,
+      maxTokens: prompt.maxTokens,
+      structuredOutput: prompt.outputFormat === 'json',
+      jsonSchema: prompt.outputFormat === 'json' ? this.generateJsonSchema(prompt) : undefined,
+      taskType: prompt.taskType ?? (prompt.outputFormat === 'json' ? 'structured' : undefined),
+      cache: prompt.cache,
+      context: prompt.context,
+      userId: prompt.userId,
+      feature: prompt.feature,
+      label: prompt.label,
+    };
   }
 
   private buildStructuredSystemPrompt(prompt: StructuredPrompt): string {
@@ -520,7 +2025,13 @@ export class LLMAbstractionLayer {
         prompt.examples.map((ex) => `Input: ${ex.input}\nOutput: ${ex.output}`).join('\n\n');
     }
 
-    if (prompt.outputFormat === 'json') {
+    if (prompt.outputFormat === 'json' && prompt.schema) {
+      systemPrompt += `\n\nOutput must be valid JSON matching this JSON Schema:\n${JSON.stringify(
+        prompt.schema,
+        null,
+        2
+      )}`;
+    } else if (prompt.outputFormat === 'json') {
       systemPrompt += '\n\nOutput must be valid JSON.';
     } else if (prompt.outputFormat === 'markdown') {
       systemPrompt += '\n\nOutput must be in Markdown format.';
@@ -533,17 +2044,235 @@ export class LLMAbstractionLayer {
     return prompt.userPrompt;
   }
 
-  private generateJsonSchema(prompt: StructuredPrompt): any {
-    // Generate a basic JSON schema based on the prompt structure
-    return {
-      type: 'object',
-      properties: {
-        content: { type: 'string' },
-        metadata: { type: 'object' },
-      },
-      required: ['content'],
-    };
+  private generateJsonSchema(prompt: StructuredPrompt): JsonSchema {
+    // Without an explicit schema any JSON object is accepted
+    return prompt.schema ?? { type: 'object' };
+  }
+}
+
+function toLLMProvider(config: ProviderConfig): LLMProvider {
+  const toModel = (m: string | ProviderModelConfig) => (typeof m === 'string' ? { id: m } : m);
+  const models = config.models.map(toModel);
+  const embeddingModels = (config.embeddingModels ?? []).map(toModel);
+  return {
+    id: config.id,
+    type: config.type,
+    name: config.name || config.id,
+    apiKey: config.apiKeyEnv ? process.env[config.apiKeyEnv] : undefined,
+    baseUrl: config.baseUrl.replace(/\/+$/, ''),
+    models: models.map((m) => m.id),
+    embeddingModels: embeddingModels.map((m) => m.id),
+    costPerToken: config.costPerToken ?? { input: 0, output: 0 },
+    requiresApiKey: config.requiresApiKey ?? !!config.apiKeyEnv,
+    jsonMode: config.jsonMode ?? true,
+    modelSettings: Object.fromEntries(
+      [...models, ...embeddingModels].map(({ id, ...settings }) => [id, settings])
+    ),
+    contextWindow: config.contextWindow,
+  };
+}
+
+function openAIHeaders(provider: LLMProvider): Record<string, string> {
+  return {
+    'Content-Type': 'application/json',
+    // Local servers typically run without auth
+    ...(provider.apiKey && { Authorization: `Bearer ${provider.apiKey}` }),
+  };
+}
+
+const DEFAULT_REPLY_TOKENS = 1024;
+// Inputs per embeddings request; OpenAI accepts up to 2048
+const EMBEDDING_BATCH_SIZE = 100;
+const DEFAULT_MAX_TOOL_STEPS = 5;
+
+function circuitOpen(provider: LLMProvider, model: string, attempts: FailedAttempt[]): void {
+  attempts.push({ provider: provider.id, model, error: 'Circuit open', retryable: false });
+}
+
+async function runTool(
+  tool: LLMTool | undefined,
+  call: ToolCall,
+  context: ToolContext
+): Promise<ToolResult> {
+  const outcome: ToolResult = { id: call.id, name: call.name, arguments: call.arguments };
+  if (!tool) return { ...outcome, error: `Unknown tool: ${call.name}` };
+
+  const errors = validateJsonSchema(call.arguments, tool.parameters, '$arguments');
+  if (errors.length > 0) return { ...outcome, error: `Invalid arguments: ${errors.join('; ')}` };
+
+  try {
+    return { ...outcome, result: await tool.handler(call.arguments, context) };
+  } catch (error) {
+    return { ...outcome, error: (error as Error).message };
+  }
+}
+// A section cut below this is dropped rather than kept as a fragment
+const MIN_SECTION_TOKENS = 32;
+
+/**
+ * Place context sections, headed by name, ahead of the first user message
+ */
+function withContext(request: LLMRequest, sections = request.context): LLMRequest {
+  const { context, ...rest } = request;
+  const rendered = (sections || [])
+    .filter((section) => section.content)
+    .map((section) => `${section.name.toUpperCase()}:\n${section.content}`)
+    .join('\n\n');
+  if (!rendered) return rest;
+
+  const first = rest.messages.findIndex((m) => m.role === 'user');
+  if (first === -1) {
+    return { ...rest, messages: [...rest.messages, { role: 'user', content: rendered }] };
+  }
+  return {
+    ...rest,
+    messages: rest.messages.map((m, i) =>
+      i === first ? { ...m, content: `${rendered}\n\n${m.content}` } : m
+    ),
+  };
+}
+
+/**
+ * Tool conversations depend on call ids and results the cache key doesn't cover
+ */
+function isCacheable(request: LLMRequest): boolean {
+  return (
+    request.cache !== false &&
+    !request.tools?.length &&
+    !request.messages.some((m) => m.role === 'tool' || m.toolCalls?.length)
+  );
+}
+
+function withTrims(response: LLMResponse, trimmed: ContextTrim[]): void {
+  if (trimmed.length > 0) response.metadata.contextTrimmed = trimmed;
+}
+
+function costAttribution(request: LLMRequest): CostAttribution {
+  return {
+    userId: request.userId,
+    feature: request.feature ?? request.taskType,
+    label: request.label,
+  };
+}
+
+interface FailedAttempt extends LLMAttempt {
+  retryAfterMs?: number;
+}
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+function isRetryableStatus(status: number): boolean {
+  return status === 408 || status === 409 || status === 429 || status >= 500;
+}
+
+function toProviderError(error: unknown): LLMProviderError {
+  if (error instanceof LLMProviderError) return error;
+  // Anything else is a malformed response or a bug; retrying the same call will not help
+  return new LLMProviderError((error as Error)?.message || String(error));
+}
+
+function describeAttempts(attempts: LLMAttempt[]): string {
+  if (attempts.length === 0) return 'no provider attempted';
+  return attempts.map((a) => `${a.provider}/${a.model}: ${a.error}`).join('; ');
+}
+
+/**
+ * Split a byte stream into text lines
+ */
+async function* readLines(body: AsyncIterable<Uint8Array>): AsyncGenerator<string> {
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  for await (const chunk of body) {
+    buffer += decoder.decode(chunk, { stream: true });
+    let newline: number;
+    while ((newline = buffer.indexOf('\n')) >= 0) {
+      yield buffer.slice(0, newline).replace(/\r$/, '');
+      buffer = buffer.slice(newline + 1);
+    }
+  }
+
+  buffer += decoder.decode();
+  if (buffer) yield buffer;
+}
+
+/**
+ * Parse a text/event-stream body into { event, data } messages
+ */
+async function* readServerSentEvents(
+  body: AsyncIterable<Uint8Array>
+): AsyncGenerator<{ event?: string; data: string }> {
+  let event: string | undefined;
+  let data: string[] = [];
+
+  for await (const line of readLines(body)) {
+    if (line === '') {
+      if (data.length > 0) yield { event, data: data.join('\n') };
+      event = undefined;
+      data = [];
+      continue;
+    }
+    if (line.startsWith(':')) continue;
+
+    const colon = line.indexOf(':');
+    const field = colon === -1 ? line : line.slice(0, colon);
+    const value = colon === -1 ? '' : line.slice(colon + 1).replace(/^ /, '');
+    if (field === 'event') event = value;
+    else if (field === 'data') data.push(value);
   }
+
+  if (data.length > 0) yield { event, data: data.join('\n') };
+}
+
+let sharedLLMService: LLMAbstractionLayer | null = null;
+let sharedRAGSystem: RAGSystem | null = null;
+
+/**
+ * Process-wide LLM layer used by the API routes, so usage stats cover every request.
+ * The RAG tools are registered on it, so generateWithTools can search jobs and experience.
+ */
+export function getLLMService(): LLMAbstractionLayer {
+  if (!sharedLLMService) {
+    const llm = new LLMAbstractionLayer(undefined, {
+      cache: createLLMCacheFromEnv(),
+      cassette: createLLMCassetteFromEnv(),
+      ledger: getCostLedger(),
+      providersFile: defaultProviderConfigPath(),
+      watchProviders: true,
+    });
+    sharedRAGSystem = new RAGSystem(llm);
+    sharedRAGSystem.getTools().forEach((tool) => llm.registerTool(tool));
+    sharedLLMService = llm;
+  }
+  return sharedLLMService;
+}
+
+/**
+ * The RAG system behind the shared LLM layer's tools. Routes and generators use it too, so its
+ * in-memory job indexes see every write instead of going stale in a second instance.
+ */
+export function getRAGSystem(): RAGSystem {
+  getLLMService();
+  return sharedRAGSystem!;
+}
+
+function timeframeStart(timeframe: 'day' | 'week' | 'month'): Date {
+  const now = new Date();
+  const startDate = new Date();
+
+  switch (timeframe) {
+    case 'day':
+      startDate.setDate(now.getDate() - 1);
+      break;
+    case 'week':
+      startDate.setDate(now.getDate() - 7);
+      break;
+    case 'month':
+      startDate.setMonth(now.getMonth() - 1);
+      break;
+  }
+
+  return startDate;
 }
 
 /**
@@ -556,6 +2285,13 @@ class CostTracker {
     cost: number;
     tokens: number;
   }> = [];
+  private cacheLookups: Array<{
+    timestamp: Date;
+    provider: string;
+    hit: boolean;
+    savedCost: number;
+    savedTokens: number;
+  }> = [];
 
   async trackUsage(response: LLMResponse) {
     this.usage.push({
@@ -571,23 +2307,31 @@ class CostTracker {
     this.usage = this.usage.filter((u) => u.timestamp > thirtyDaysAgo);
   }
 
-  async getStats(timeframe: 'day' | 'week' | 'month') {
-    const now = new Date();
-    const startDate = new Date();
+  /**
+   * Record a cache lookup; pass the cached usage on a hit to count what it saved
+   */
+  trackCacheLookup(
+    provider: string,
+    hit?: { inputTokens: number; outputTokens: number; cost: number }
+  ) {
+    this.cacheLookups.push({
+      timestamp: new Date(),
+      provider,
+      hit: !!hit,
+      savedCost: hit?.cost ?? 0,
+      savedTokens: hit ? hit.inputTokens + hit.outputTokens : 0,
+    });
 
-    switch (timeframe) {
-      case 'day':
-        startDate.setDate(now.getDate() - 1);
-        break;
-      case 'week':
-        startDate.setDate(now.getDate() - 7);
-        break;
-      case 'month':
-        startDate.setMonth(now.getMonth() - 1);
-        break;
-    }
+    const thirtyDaysAgo = new Date();
+    thirtyDaysAgo.setDate(thirtyDaysAgo.getDate() - 30);
+    this.cacheLookups = this.cacheLookups.filter((l) => l.timestamp > thirtyDaysAgo);
+  }
 
+  async getStats(timeframe: 'day' | 'week' | 'month') {
+    const startDate = timeframeStart(timeframe);
     const relevant = this.usage.filter((u) => u.timestamp > startDate);
+    const lookups = this.cacheLookups.filter((l) => l.timestamp > startDate);
+    const hits = lookups.filter((l) => l.hit);
 
     return {
       totalCost: relevant.reduce((sum, u) => sum + u.cost, 0),
@@ -596,6 +2340,13 @@ class CostTracker {
       averageCostPerRequest:
         relevant.length > 0 ? relevant.reduce((sum, u) => sum + u.cost, 0) / relevant.length : 0,
       byProvider: this.groupByProvider(relevant),
+      cache: {
+        hits: hits.length,
+        misses: lookups.length - hits.length,
+        hitRate: lookups.length > 0 ? hits.length / lookups.length : 0,
+        savedCost: hits.reduce((sum, l) => sum + l.savedCost, 0),
+        savedTokens: hits.reduce((sum, l) => sum + l.savedTokens, 0),
+      },
     };
   }
 
@@ -624,23 +2375,52 @@ class PerformanceMonitor {
     model: string;
     responseTime: number;
     tokensPerSecond: number;
+    success: boolean;
   }> = [];
 
   async recordMetrics(response: LLMResponse) {
-    const tokensPerSecond = response.usage.outputTokens / (response.metadata.responseTime / 1000);
+    const tokensPerSecond =
+      response.metadata.responseTime > 0
+        ? response.usage.outputTokens / (response.metadata.responseTime / 1000)
+        : 0;
 
-    this.metrics.push({
+    this.push({
       timestamp: response.metadata.timestamp,
       provider: response.metadata.provider,
       model: response.metadata.model,
       responseTime: response.metadata.responseTime,
       tokensPerSecond,
+      success: true,
     });
+  }
 
-    // Keep only last 7 days
-    const sevenDaysAgo = new Date();
-    sevenDaysAgo.setDate(sevenDaysAgo.getDate() - 7);
-    this.metrics = this.metrics.filter((m) => m.timestamp > sevenDaysAgo);
+  recordFailure(provider: string, model: string, responseTime: number) {
+    this.push({
+      timestamp: new Date(),
+      provider,
+      model,
+      responseTime,
+      tokensPerSecond: 0,
+      success: false,
+    });
+  }
+
+  /**
+   * Error rate and latency for one provider since a point in time (circuit breaker input)
+   */
+  getProviderStats(provider: string, since: Date) {
+    const relevant = this.metrics.filter((m) => m.provider === provider && m.timestamp >= since);
+    const failures = relevant.filter((m) => !m.success).length;
+
+    return {
+      requests: relevant.length,
+      failures,
+      errorRate: relevant.length > 0 ? failures / relevant.length : 0,
+      averageResponseTime:
+        relevant.length > 0
+          ? relevant.reduce((sum, m) => sum + m.responseTime, 0) / relevant.length
+          : 0,
+    };
   }
 
   async getMetrics() {
@@ -648,19 +2428,32 @@ class PerformanceMonitor {
     const oneHourAgo = new Date(now.getTime() - 60 * 60 * 1000);
 
     const recent = this.metrics.filter((m) => m.timestamp > oneHourAgo);
+    const succeeded = recent.filter((m) => m.success);
 
     return {
       averageResponseTime:
-        recent.length > 0 ? recent.reduce((sum, m) => sum + m.responseTime, 0) / recent.length : 0,
+        succeeded.length > 0
+          ? succeeded.reduce((sum, m) => sum + m.responseTime, 0) / succeeded.length
+          : 0,
       averageTokensPerSecond:
-        recent.length > 0
-          ? recent.reduce((sum, m) => sum + m.tokensPerSecond, 0) / recent.length
+        succeeded.length > 0
+          ? succeeded.reduce((sum, m) => sum + m.tokensPerSecond, 0) / succeeded.length
           : 0,
       totalRequests: recent.length,
-      byProvider: this.groupByProvider(recent),
+      failedRequests: recent.length - succeeded.length,
+      byProvider: this.groupByProvider(succeeded),
     };
   }
 
+  private push(entry: PerformanceMonitor['metrics'][number]) {
+    this.metrics.push(entry);
+
+    // Keep only last 7 days
+    const sevenDaysAgo = new Date();
+    sevenDaysAgo.setDate(sevenDaysAgo.getDate() - 7);
+    this.metrics = this.metrics.filter((m) => m.timestamp > sevenDaysAgo);
+  }
+
   private groupByProvider(metrics: any[]) {
     const grouped = metrics.reduce((acc, m) => {
       if (!acc[m.provider]) {
@@ -689,3 +2482,84 @@ class PerformanceMonitor {
     return grouped;
   }
 }
+
+/**
+ * Per-provider circuit breaker driven by PerformanceMonitor data. A circuit opens when
+ * the recent error rate or latency crosses its threshold, rejects calls for a cooldown,
+ * then lets a single trial request through to decide whether to close again.
+ */
+class CircuitBreaker {
+  private circuits = new Map<
+    string,
+    { state: 'closed' | 'open' | 'half_open'; openedAt: number; since: number }
+  >();
+
+  constructor(
+    private readonly monitor: PerformanceMonitor,
+    private readonly options: CircuitBreakerOptions
+  ) {}
+
+  /**
+   * Whether a call may go to the provider; once the cooldown ends an open circuit lets one
+   * trial call through
+   */
+  allowRequest(provider: string): boolean {
+    const circuit = this.circuits.get(provider);
+    if (!circuit || circuit.state === 'closed') return true;
+    // Open, or half-open with the trial request still in flight
+    return circuit.state === 'open' && Date.now() - circuit.openedAt >= this.options.cooldownMs;
+  }
+
+  /**
+   * Claim the call about to be sent. On an open circuit it becomes the half-open trial, which
+   * recordOutcome settles; endTrial hands back a trial that ended without an outcome.
+   */
+  beginCall(provider: string): boolean {
+    if (!this.allowRequest(provider)) return false;
+    const circuit = this.circuits.get(provider);
+    if (circuit?.state === 'open') circuit.state = 'half_open';
+    return true;
+  }
+
+  endTrial(provider: string): void {
+    const circuit = this.circuits.get(provider);
+    // Still open from the same cooldown, so the next call is the trial
+    if (circuit?.state === 'half_open') circuit.state = 'open';
+  }
+
+  recordOutcome(provider: string, success: boolean): void {
+    const now = Date.now();
+    const circuit = this.circuits.get(provider) ?? { state: 'closed', openedAt: 0, since: 0 };
+    this.circuits.set(provider, circuit);
+
+    if (circuit.state === 'half_open') {
+      if (success) {
+        // Judge the provider afresh from here on
+        Object.assign(circuit, { state: 'closed', since: now });
+      } else {
+        Object.assign(circuit, { state: 'open', openedAt: now });
+      }
+      return;
+    }
+
+    if (circuit.state === 'open') return;
+
+    const stats = this.monitor.getProviderStats(
+      provider,
+      new Date(Math.max(circuit.since, now - this.options.windowMs))
+    );
+    if (
+      stats.requests >= this.options.minRequests &&
+      (stats.errorRate >= this.options.errorRateThreshold ||
+        stats.averageResponseTime >= this.options.latencyThresholdMs)
+    ) {
+      Object.assign(circuit, { state: 'open', openedAt: now });
+    }
+  }
+
+  getStates(): Record<string, string> {
+    return Object.fromEntries(
+      [...this.circuits.entries()].map(([provider, circuit]) => [provider, circuit.state])
+    );
+  }
+}
@@ -0,0 +1,226 @@
+/**
+ * LLM Response Cache
+ * Content-addressed, disk-backed cache of provider responses
+ * Entries are keyed by a hash of provider, model, messages and sampling params, expire after a TTL
+ * and are evicted least-recently-used first once the entry or byte limit is reached
+ */
+
+import fs from 'fs';
+import path from 'path';
+import crypto from 'crypto';
+
+export interface LLMCacheOptions {
+  dir: string;
+  ttlMs: number;
+  /** Total size of cached entries on disk */
+  maxBytes: number;
+  maxEntries: number;
+}
+
+export interface LLMCacheKeyInput {
+  provider: string;
+  model: string;
+  messages: Array<{ role: string; content: string }>;
+  temperature?: number;
+  maxTokens?: number;
+  structuredOutput?: boolean;
+  jsonSchema?: any;
+}
+
+export interface CachedLLMResponse {
+  provider: string;
+  model: string;
+  content: string;
+  finishReason?: string;
+  usage: {
+    inputTokens: number;
+    outputTokens: number;
+    /** What the original call cost, i.e. what each hit saves */
+    cost: number;
+  };
+  createdAt: string;
+  expiresAt: string;
+}
+
+interface IndexEntry {
+  size: number;
+  lastAccess: number;
+}
+
+const DEFAULT_OPTIONS: Omit<LLMCacheOptions, 'dir'> = {
+  ttlMs: 24 * 60 * 60 * 1000,
+  maxBytes: 100 * 1024 * 1024,
+  maxEntries: 10000,
+};
+
+const KEY_PATTERN = /^[0-9a-f]{64}$/;
+
+/**
+ * JSON with object keys sorted, so equal requests always hash to the same key
+ */
+export function canonicalJson(value: any): string {
+  if (Array.isArray(value)) return `[${value.map(canonicalJson).join(',')}]`;
+  if (value && typeof value === 'object') {
+    return `{${Object.keys(value)
+      .filter((k) => value[k] !== undefined)
+      .sort()
+      .map((k) => `${JSON.stringify(k)}:${canonicalJson(value[k])}`)
+      .join(',')}}`;
+  }
+  return JSON.stringify(value) ?? 'null';
+}
+
+export class LLMResponseCache {
+  private readonly options: LLMCacheOptions;
+  // Loaded from disk on first use; tracks size and recency for eviction
+  private index: Map<string, IndexEntry> | null = null;
+  private totalBytes = 0;
+
+  constructor(options: Partial<LLMCacheOptions> & { dir: string }) {
+    this.options = { ...DEFAULT_OPTIONS, ...options };
+  }
+
+  key(input: LLMCacheKeyInput): string {
+    return crypto
+      .createHash('sha256')
+      .update(
+        canonicalJson({
+          provider: input.provider,
+          model: input.model,
+          messages: input.messages.map(({ role, content }) => ({ role, content })),
+          temperature: input.temperature,
+          maxTokens: input.maxTokens,
+          structuredOutput: input.structuredOutput,
+          jsonSchema: input.jsonSchema,
+        })
+      )
+      .digest('hex');
+  }
+
+  async get(key: string): Promise<CachedLLMResponse | null> {
+    const index = await this.loadIndex();
+    const indexed = index.get(key);
+    if (!indexed) return null;
+
+    let entry: CachedLLMResponse;
+    try {
+      entry = JSON.parse(await fs.promises.readFile(this.pathFor(key), 'utf8'));
+    } catch (e) {
+      // Deleted or corrupted on disk; forget it
+      await this.remove(key);
+      return null;
+    }
+
+    if (new Date(entry.expiresAt).getTime() <= Date.now()) {
+      await this.remove(key);
+      return null;
+    }
+
+    indexed.lastAccess = Date.now();
+    return entry;
+  }
+
+  async set(
+    key: string,
+    response: Omit<CachedLLMResponse, 'createdAt' | 'expiresAt'>
+  ): Promise<void> {
+    const index = await this.loadIndex();
+    const now = Date.now();
+    const entry: CachedLLMResponse = {
+      ...response,
+      createdAt: new Date(now).toISOString(),
+      expiresAt: new Date(now + this.options.ttlMs).toISOString(),
+    };
+    const body = JSON.stringify(entry);
+    const size = Buffer.byteLength(body);
+    if (size > this.options.maxBytes) return;
+
+    const filePath = this.pathFor(key);
+    await fs.promises.mkdir(path.dirname(filePath), { recursive: true });
+    // Write to a temp file and rename so readers never see a partial entry
+    const tmpPath = `${filePath}.${process.pid}.tmp`;
+    await fs.promises.writeFile(tmpPath, body);
+    await fs.promises.rename(tmpPath, filePath);
+
+    this.totalBytes += size - (index.get(key)?.size ?? 0);
+    index.set(key, { size, lastAccess: now });
+    await this.evict();
+  }
+
+  async clear(): Promise<void> {
+    const index = await this.loadIndex();
+    await Promise.all([...index.keys()].map((key) => this.remove(key)));
+  }
+
+  async getStats(): Promise<{ entries: number; sizeBytes: number }> {
+    const index = await this.loadIndex();
+    return { entries: index.size, sizeBytes: this.totalBytes };
+  }
+
+  private async evict(): Promise<void> {
+    const index = await this.loadIndex();
+    if (index.size <= this.options.maxEntries && this.totalBytes <= this.options.maxBytes) return;
+
+    const oldestFirst = [...index.entries()].sort((a, b) => a[1].lastAccess - b[1].lastAccess);
+    for (const [key] of oldestFirst) {
+      if (index.size <= this.options.maxEntries && this.totalBytes <= this.options.maxBytes) break;
+      await this.remove(key);
+    }
+  }
+
+  private async remove(key: string): Promise<void> {
+    const index = await this.loadIndex();
+    this.totalBytes -= index.get(key)?.size ?? 0;
+    index.delete(key);
+    await fs.promises.rm(this.pathFor(key), { force: true });
+  }
+
+  /**
+   * Scan the cache directory once; file mtimes stand in for last access across restarts
+   */
+  private async loadIndex(): Promise<Map<string, IndexEntry>> {
+    if (this.index) return this.index;
+
+    const index = new Map<string, IndexEntry>();
+    let totalBytes = 0;
+    const shards = await fs.promises.readdir(this.options.dir).catch(() => [] as string[]);
+    for (const shard of shards) {
+      const files = await fs.promises
+        .readdir(path.join(this.options.dir, shard))
+        .catch(() => [] as string[]);
+      for (const file of files) {
+        const key = file.replace(/\.json$/, '');
+        if (!KEY_PATTERN.test(key)) continue;
+        const stat = await fs.promises.stat(path.join(this.options.dir, shard, file));
+        index.set(key, { size: stat.size, lastAccess: stat.mtimeMs });
+        totalBytes += stat.size;
+      }
+    }
+
+    // Another call may have finished loading while this one was scanning
+    if (!this.index) {
+      this.index = index;
+      this.totalBytes = totalBytes;
+    }
+    return this.index;
+  }
+
+  private pathFor(key: string): string {
+    return path.join(this.options.dir, key.slice(0, 2), `${key}.json`);
+  }
+}
+
+/**
+ * Cache configured from the environment; disabled unless JOBSPRINT_LLM_CACHE_DIR is set
+ */
+export function createLLMCacheFromEnv(env = process.env): LLMResponseCache | null {
+  if (!env.JOBSPRINT_LLM_CACHE_DIR) return null;
+
+  const ttlHours = Number(env.JOBSPRINT_LLM_CACHE_TTL_HOURS);
+  const maxMb = Number(env.JOBSPRINT_LLM_CACHE_MAX_MB);
+  return new LLMResponseCache({
+    dir: path.resolve(env.JOBSPRINT_LLM_CACHE_DIR),
+    ...(ttlHours > 0 && { ttlMs: ttlHours * 60 * 60 * 1000 }),
+    ...(maxMb > 0 && { maxBytes: maxMb * 1024 * 1024 }),
+  });
+}
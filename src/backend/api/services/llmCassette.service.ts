@@ -0,0 +1,180 @@
+/**
+ * LLM Cassettes
+ * Records provider request/response pairs into a JSON cassette file and replays them
+ * deterministically, so services built on the LLM layer can be tested without network access
+ */
+
+import fs from 'fs';
+import path from 'path';
+import crypto from 'crypto';
+import { canonicalJson } from './llmCache.service';
+import { LLMMessage, ToolCall, ToolDefinition } from './llmTools.service';
+
+/**
+ * record: always call the provider and (re)record the reply
+ * replay: replay recorded replies and record the ones that are missing
+ * strict: replay recorded replies and fail on anything unrecorded
+ */
+export type CassetteMode = 'record' | 'replay' | 'strict';
+
+export const CASSETTE_MODES: CassetteMode[] = ['record', 'replay', 'strict'];
+
+export interface CassetteRequest {
+  messages: LLMMessage[];
+  temperature?: number;
+  maxTokens?: number;
+  structuredOutput?: boolean;
+  jsonSchema?: any;
+  tools?: ToolDefinition[];
+  /** Provider and model pinned by the caller, if any */
+  provider?: string;
+  model?: string;
+}
+
+export interface CassetteResponse {
+  provider: string;
+  providerId: string;
+  model: string;
+  content: string;
+  finishReason?: string;
+  toolCalls?: ToolCall[];
+  usage: { inputTokens: number; outputTokens: number };
+}
+
+export interface CassetteInteraction {
+  key: string;
+  request: CassetteRequest;
+  response: CassetteResponse;
+  recordedAt: string;
+}
+
+interface CassetteFile {
+  version: 1;
+  interactions: CassetteInteraction[];
+}
+
+export class CassetteMissError extends Error {
+  constructor(
+    readonly key: string,
+    readonly cassettePath: string
+  ) {
+    super(`No recorded LLM response for request ${key.slice(0, 12)} in cassette ${cassettePath}`);
+    this.name = 'CassetteMissError';
+  }
+}
+
+export class LLMCassette {
+  private interactions: Map<string, CassetteInteraction> | null = null;
+  // Serializes writes so concurrent recordings don't clobber each other
+  private writing: Promise<void> = Promise.resolve();
+
+  constructor(
+    readonly filePath: string,
+    readonly mode: CassetteMode = 'replay'
+  ) {}
+
+  key(request: CassetteRequest): string {
+    return crypto
+      .createHash('sha256')
+      .update(canonicalJson(this.normalize(request)))
+      .digest('hex');
+  }
+
+  /**
+   * The recorded reply for a request. Always null in record mode; throws CassetteMissError
+   * in strict mode when nothing was recorded.
+   */
+  async replay(request: CassetteRequest): Promise<CassetteResponse | null> {
+    if (this.mode === 'record') return null;
+
+    const key = this.key(request);
+    const interaction = (await this.load()).get(key);
+    if (interaction) return interaction.response;
+    if (this.mode === 'strict') throw new CassetteMissError(key, this.filePath);
+    return null;
+  }
+
+  async record(request: CassetteRequest, response: CassetteResponse): Promise<void> {
+    if (this.mode === 'strict') return;
+
+    const key = this.key(request);
+    (await this.load()).set(key, {
+      key,
+      request: this.normalize(request),
+      response,
+      recordedAt: new Date().toISOString(),
+    });
+    this.writing = this.writing.then(() => this.save());
+    await this.writing;
+  }
+
+  async size(): Promise<number> {
+    return (await this.load()).size;
+  }
+
+  private normalize(request: CassetteRequest): CassetteRequest {
+    return {
+      messages: request.messages.map(({ role, content, toolCalls, toolCallId, name }) => ({
+        role,
+        content,
+        toolCalls,
+        toolCallId,
+        name,
+      })),
+      temperature: request.temperature,
+      maxTokens: request.maxTokens,
+      structuredOutput: request.structuredOutput,
+      jsonSchema: request.jsonSchema,
+      tools: request.tools,
+      provider: request.provider,
+      model: request.model,
+    };
+  }
+
+  private async load(): Promise<Map<string, CassetteInteraction>> {
+    if (this.interactions) return this.interactions;
+
+    let file: CassetteFile = { version: 1, interactions: [] };
+    try {
+      file = JSON.parse(await fs.promises.readFile(this.filePath, 'utf8'));
+    } catch (error) {
+      // A cassette that doesn't exist yet is empty; a corrupt one is a broken fixture
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+        throw new Error(`Invalid LLM cassette ${this.filePath}: ${(error as Error).message}`);
+      }
+    }
+
+    // Another call may have finished loading while this one was reading
+    if (!this.interactions) {
+      this.interactions = new Map(file.interactions.map((i) => [i.key, i]));
+    }
+    return this.interactions;
+  }
+
+  private async save(): Promise<void> {
+    const file: CassetteFile = {
+      version: 1,
+      interactions: [...this.interactions!.values()],
+    };
+    await fs.promises.mkdir(path.dirname(this.filePath), { recursive: true });
+    // Write to a temp file and rename so a crash never leaves a truncated cassette
+    const tmpPath = `${this.filePath}.${process.pid}.tmp`;
+    await fs.promises.writeFile(tmpPath, `${JSON.stringify(file, null, 2)}\n`);
+    await fs.promises.rename(tmpPath, this.filePath);
+  }
+}
+
+/**
+ * Cassette configured from the environment; disabled unless JOBSPRINT_LLM_CASSETTE is set
+ */
+export function createLLMCassetteFromEnv(env = process.env): LLMCassette | null {
+  if (!env.JOBSPRINT_LLM_CASSETTE) return null;
+
+  const mode = (env.JOBSPRINT_LLM_CASSETTE_MODE || 'replay') as CassetteMode;
+  if (!CASSETTE_MODES.includes(mode)) {
+    throw new Error(
+      `JOBSPRINT_LLM_CASSETTE_MODE must be one of ${CASSETTE_MODES.join(', ')}, got ${mode}`
+    );
+  }
+  return new LLMCassette(path.resolve(env.JOBSPRINT_LLM_CASSETTE), mode);
+}
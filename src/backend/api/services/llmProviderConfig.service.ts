@@ -0,0 +1,297 @@
+/**
+ * LLM Provider Configuration
+ * Built-in provider definitions plus an optional JSON config file that overrides or extends them
+ * The file can add any OpenAI-compatible server (vLLM, LM Studio, llama.cpp) and is watched for changes
+ */
+
+import fs from 'fs';
+import path from 'path';
+
+export const PROVIDER_TYPES = [
+  'openai',
+  'openai-compatible',
+  'claude',
+  'ollama',
+  'gemini',
+  'huggingface',
+] as const;
+
+export type ProviderType = (typeof PROVIDER_TYPES)[number];
+
+export interface TokenPricing {
+  /** USD per token */
+  input: number;
+  output: number;
+}
+
+export interface ProviderModelConfig {
+  id: string;
+  contextWindow?: number;
+  /** Overrides the provider's pricing for this model */
+  costPerToken?: TokenPricing;
+  /** Vector length, for embedding models */
+  dimensions?: number;
+}
+
+export interface ProviderConfig {
+  id: string;
+  /** Wire protocol; 'openai-compatible' covers any server exposing /chat/completions */
+  type: ProviderType;
+  name?: string;
+  baseUrl: string;
+  /** Environment variable holding the API key; keys never live in the config file */
+  apiKeyEnv?: string;
+  /** Whether the provider is unavailable without its key (default: true when apiKeyEnv is set) */
+  requiresApiKey?: boolean;
+  models: Array<string | ProviderModelConfig>;
+  /** Models served by the embeddings endpoint (openai, openai-compatible and ollama types) */
+  embeddingModels?: Array<string | ProviderModelConfig>;
+  costPerToken?: TokenPricing;
+  /** Default context window for models that do not declare one */
+  contextWindow?: number;
+  /** Send response_format json_object for JSON prompts (default true) */
+  jsonMode?: boolean;
+  /** Set to false in the config file to remove a built-in provider */
+  enabled?: boolean;
+}
+
+export interface ProviderConfigFile {
+  providers?: Array<Partial<ProviderConfig> & { id: string }>;
+  fallbackChains?: Record<string, Array<{ provider: string; model?: string }>>;
+}
+
+export interface ResolvedProviderConfig {
+  providers: ProviderConfig[];
+  fallbackChains: NonNullable<ProviderConfigFile['fallbackChains']>;
+}
+
+export const BUILTIN_PROVIDERS: ProviderConfig[] = [
+  {
+    id: 'openai',
+    type: 'openai',
+    name: 'OpenAI',
+    apiKeyEnv: 'OPENAI_API_KEY',
+    baseUrl: 'https://api.openai.com/v1',
+    models: [
+      { id: 'gpt-4o', contextWindow: 128000 },
+      { id: 'gpt-4o-mini', contextWindow: 128000 },
+      { id: 'gpt-4-turbo', contextWindow: 128000 },
+      { id: 'gpt-3.5-turbo', contextWindow: 16385 },
+    ],
+    // $2.50 / $10 per 1M tokens (GPT-4o)
+    costPerToken: { input: 0.0000025, output: 0.00001 },
+    embeddingModels: [
+      // $0.02 / $0.13 per 1M tokens
+      {
+        id: 'text-embedding-3-small',
+        dimensions: 1536,
+        costPerToken: { input: 0.00000002, output: 0 },
+      },
+      {
+        id: 'text-embedding-3-large',
+        dimensions: 3072,
+        costPerToken: { input: 0.00000013, output: 0 },
+      },
+    ],
+  },
+  {
+    id: 'claude',
+    type: 'claude',
+    name: 'Anthropic',
+    apiKeyEnv: 'ANTHROPIC_API_KEY',
+    baseUrl: 'https://api.anthropic.com/v1',
+    models: ['claude-3-5-sonnet-20241022', 'claude-3-haiku-20240307', 'claude-3-sonnet-20240229'],
+    contextWindow: 200000,
+    // $3 / $15 per 1M tokens (Sonnet)
+    costPerToken: { input: 0.000003, output: 0.000015 },
+  },
+  {
+    id: 'ollama',
+    type: 'ollama',
+    name: 'Ollama',
+    baseUrl: 'http://localhost:11434/api',
+    models: ['llama3.2:3b', 'llama3.1:8b', 'mistral:7b', 'codellama:13b'],
+    // Ollama's default num_ctx, whatever the model supports
+    contextWindow: 4096,
+    costPerToken: { input: 0, output: 0 },
+    embeddingModels: [
+      { id: 'nomic-embed-text', dimensions: 768 },
+      { id: 'mxbai-embed-large', dimensions: 1024 },
+    ],
+  },
+  {
+    id: 'gemini',
+    type: 'gemini',
+    name: 'Google Gemini',
+    apiKeyEnv: 'GOOGLE_API_KEY',
+    baseUrl: 'https://generativelanguage.googleapis.com/v1beta',
+    models: [
+      { id: 'gemini-1.5-pro', contextWindow: 2097152 },
+      { id: 'gemini-1.5-flash', contextWindow: 1048576 },
+    ],
+    // $0.125 / $0.5 per 1M tokens
+    costPerToken: { input: 0.000000125, output: 0.0000005 },
+  },
+  {
+    id: 'huggingface',
+    type: 'huggingface',
+    name: 'HuggingFace',
+    apiKeyEnv: 'HUGGINGFACE_API_KEY',
+    baseUrl: 'https://api-inference.huggingface.co/models',
+    models: [
+      { id: 'microsoft/DialoGPT-large', contextWindow: 1024 },
+      { id: 'facebook/blenderbot-400M-distill', contextWindow: 128 },
+    ],
+    // Free tier
+    costPerToken: { input: 0, output: 0 },
+  },
+  {
+    id: 'perplexity',
+    type: 'openai-compatible',
+    name: 'Perplexity',
+    apiKeyEnv: 'PERPLEXITY_API_KEY',
+    baseUrl: 'https://api.perplexity.ai',
+    jsonMode: false,
+    models: [
+      { id: 'sonar-pro', contextWindow: 200000 },
+      { id: 'sonar', contextWindow: 127072 },
+    ],
+    // $5 / $28 per 1M tokens
+    costPerToken: { input: 0.000005, output: 0.000028 },
+  },
+];
+
+export function defaultProviderConfigPath(): string {
+  return (
+    process.env.JOBSPRINT_LLM_PROVIDERS_PATH ||
+    path.resolve(process.cwd(), 'config', 'llm-providers.json')
+  );
+}
+
+function isPricing(value: any): value is TokenPricing {
+  return (
+    typeof value?.input === 'number' &&
+    typeof value?.output === 'number' &&
+    value.input >= 0 &&
+    value.output >= 0
+  );
+}
+
+function isPositiveInteger(value: unknown): boolean {
+  return Number.isInteger(value) && (value as number) > 0;
+}
+
+function validateProvider(provider: ProviderConfig, at: string): void {
+  const fail = (message: string): never => {
+    throw new Error(`Invalid provider config: ${at}.${message}`);
+  };
+
+  if (!/^[a-z0-9_-]+$/i.test(provider.id)) fail('id must be alphanumeric');
+  if (!PROVIDER_TYPES.includes(provider.type)) {
+    fail(`type must be one of ${PROVIDER_TYPES.join(', ')}`);
+  }
+  if (typeof provider.baseUrl !== 'string' || !/^https?:\/\//.test(provider.baseUrl)) {
+    fail('baseUrl must be an http(s) URL');
+  }
+  if (!Array.isArray(provider.models) || provider.models.length === 0) {
+    fail('models must be a non-empty array');
+  }
+  if (provider.embeddingModels !== undefined && !Array.isArray(provider.embeddingModels)) {
+    fail('embeddingModels must be an array');
+  }
+  const lists = { models: provider.models, embeddingModels: provider.embeddingModels ?? [] };
+  for (const [field, models] of Object.entries(lists)) {
+    models.forEach((model, i) => {
+      if (typeof model === 'string' ? !model : typeof model?.id !== 'string' || !model.id) {
+        fail(`${field}[${i}] must be a model id or { id }`);
+      }
+      if (typeof model === 'object') {
+        if (model.contextWindow !== undefined && !isPositiveInteger(model.contextWindow)) {
+          fail(`${field}[${i}].contextWindow must be a positive integer`);
+        }
+        if (model.costPerToken !== undefined && !isPricing(model.costPerToken)) {
+          fail(`${field}[${i}].costPerToken must be { input, output } in USD per token`);
+        }
+        if (model.dimensions !== undefined && !isPositiveInteger(model.dimensions)) {
+          fail(`${field}[${i}].dimensions must be a positive integer`);
+        }
+      }
+    });
+  }
+  if (provider.costPerToken !== undefined && !isPricing(provider.costPerToken)) {
+    fail('costPerToken must be { input, output } in USD per token');
+  }
+  if (provider.contextWindow !== undefined && !isPositiveInteger(provider.contextWindow)) {
+    fail('contextWindow must be a positive integer');
+  }
+  if (provider.apiKeyEnv !== undefined && typeof provider.apiKeyEnv !== 'string') {
+    fail('apiKeyEnv must be an environment variable name');
+  }
+}
+
+/**
+ * Merge a config file over the built-in providers. Entries whose id matches a built-in
+ * override its fields; new ids add a provider; `enabled: false` removes one.
+ */
+export function resolveProviderConfig(file: ProviderConfigFile = {}): ResolvedProviderConfig {
+  if (file.providers !== undefined && !Array.isArray(file.providers)) {
+    throw new Error('Invalid provider config: providers must be an array');
+  }
+
+  const providers = new Map(BUILTIN_PROVIDERS.map((p) => [p.id, p]));
+  (file.providers || []).forEach((entry, i) => {
+    if (!entry || typeof entry.id !== 'string') {
+      throw new Error(`Invalid provider config: providers[${i}].id is required`);
+    }
+    if (entry.enabled === false) {
+      providers.delete(entry.id);
+      return;
+    }
+    const merged = { ...providers.get(entry.id), ...entry } as ProviderConfig;
+    validateProvider(merged, `providers[${i}]`);
+    providers.set(entry.id, merged);
+  });
+
+  const fallbackChains = file.fallbackChains || {};
+  for (const [taskType, chain] of Object.entries(fallbackChains)) {
+    if (!Array.isArray(chain) || chain.some((t) => typeof t?.provider !== 'string')) {
+      throw new Error(
+        `Invalid provider config: fallbackChains.${taskType} must be [{ provider, model? }]`
+      );
+    }
+  }
+
+  return { providers: [...providers.values()], fallbackChains };
+}
+
+/**
+ * Read and resolve the config file; a missing file means built-ins only
+ */
+export function loadProviderConfig(filePath: string): ResolvedProviderConfig {
+  if (!fs.existsSync(filePath)) return resolveProviderConfig();
+
+  let file: ProviderConfigFile;
+  try {
+    file = JSON.parse(fs.readFileSync(filePath, 'utf8'));
+  } catch (e) {
+    throw new Error(`Invalid provider config: ${filePath}: ${(e as Error).message}`);
+  }
+  return resolveProviderConfig(file);
+}
+
+/**
+ * Call `onChange` whenever the config file is created, edited or removed. Polls rather than
+ * using fs.watch so editors that replace the file on save are still picked up.
+ * Returns a function that stops watching.
+ */
+export function watchProviderConfig(
+  filePath: string,
+  onChange: () => void,
+  intervalMs = 2000
+): () => void {
+  const listener = (current: fs.Stats, previous: fs.Stats) => {
+    if (current.mtimeMs !== previous.mtimeMs || current.size !== previous.size) onChange();
+  };
+  fs.watchFile(filePath, { interval: intervalMs, persistent: false }, listener);
+  return () => fs.unwatchFile(filePath, listener);
+}
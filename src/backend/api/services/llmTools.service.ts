@@ -0,0 +1,251 @@
+/**
+ * LLM Tools
+ * Provider-neutral tool (function) definitions and the conversions to and from each provider's
+ * wire format: OpenAI-style chat completions (also Ollama), Claude messages and Gemini contents
+ */
+
+import { JsonSchema } from './structuredOutput.service';
+
+export interface ToolDefinition {
+  /** Letters, digits, '_' and '-', as every provider accepts */
+  name: string;
+  description: string;
+  /** JSON Schema of the arguments object */
+  parameters: JsonSchema;
+}
+
+/**
+ * What a handler knows about the request besides the model's arguments
+ */
+export interface ToolContext {
+  /** The request's userId, for tools that read that user's own data */
+  userId?: string;
+}
+
+export interface LLMTool<Args = any, Result = unknown> extends ToolDefinition {
+  handler: (args: Args, context: ToolContext) => Promise<Result> | Result;
+}
+
+export interface ToolCall {
+  id: string;
+  name: string;
+  /** Parsed arguments; a string when the model sent malformed JSON */
+  arguments: unknown;
+}
+
+export interface ToolResult {
+  id: string;
+  name: string;
+  arguments: unknown;
+  result?: unknown;
+  error?: string;
+}
+
+export interface LLMMessage {
+  role: 'system' | 'user' | 'assistant' | 'tool';
+  content: string;
+  /** Tools the assistant asked to call */
+  toolCalls?: ToolCall[];
+  /** The call a tool message answers */
+  toolCallId?: string;
+  /** The tool a tool message answers */
+  name?: string;
+}
+
+export const TOOL_NAME_PATTERN = /^[a-zA-Z0-9_-]{1,64}$/;
+
+function parseArguments(raw: unknown): unknown {
+  if (typeof raw !== 'string') return raw ?? {};
+  try {
+    return raw.trim() ? JSON.parse(raw) : {};
+  } catch {
+    return raw;
+  }
+}
+
+// OpenAI chat completions, and the servers that mimic it
+
+export function toOpenAITools(tools: ToolDefinition[]) {
+  return tools.map(({ name, description, parameters }) => ({
+    type: 'function',
+    function: { name, description, parameters },
+  }));
+}
+
+export function toOpenAIMessages(messages: LLMMessage[]) {
+  return messages.map((m) => {
+    if (m.role === 'tool') {
+      return { role: 'tool', tool_call_id: m.toolCallId, content: m.content };
+    }
+    if (m.toolCalls?.length) {
+      return {
+        role: 'assistant',
+        content: m.content || null,
+        tool_calls: m.toolCalls.map((call) => ({
+          id: call.id,
+          type: 'function',
+          function: { name: call.name, arguments: JSON.stringify(call.arguments) },
+        })),
+      };
+    }
+    return { role: m.role, content: m.content };
+  });
+}
+
+export function fromOpenAIToolCalls(calls: any[] | undefined): ToolCall[] {
+  return (calls || []).map((call, i) => ({
+    id: call.id || `call_${i}`,
+    name: call.function?.name,
+    arguments: parseArguments(call.function?.arguments),
+  }));
+}
+
+// Ollama takes OpenAI-style tools but object arguments and no call ids
+
+export function toOllamaMessages(messages: LLMMessage[]) {
+  return messages.map((m) => {
+    if (m.role === 'tool') return { role: 'tool', content: m.content, tool_name: m.name };
+    if (m.toolCalls?.length) {
+      return {
+        role: 'assistant',
+        content: m.content,
+        tool_calls: m.toolCalls.map((call) => ({
+          function: { name: call.name, arguments: call.arguments },
+        })),
+      };
+    }
+    return { role: m.role, content: m.content };
+  });
+}
+
+// Claude messages
+
+export function toClaudeTools(tools: ToolDefinition[]) {
+  return tools.map(({ name, description, parameters }) => ({
+    name,
+    description,
+    input_schema: parameters,
+  }));
+}
+
+/**
+ * Claude wants tool results as user turns; consecutive results share one turn
+ */
+export function toClaudeMessages(messages: LLMMessage[]) {
+  const out: Array<{ role: string; content: any }> = [];
+  for (const m of messages) {
+    if (m.role === 'system') continue;
+    if (m.role === 'tool') {
+      const block = { type: 'tool_result', tool_use_id: m.toolCallId, content: m.content };
+      const last = out[out.length - 1];
+      if (last?.role === 'user' && Array.isArray(last.content)) last.content.push(block);
+      else out.push({ role: 'user', content: [block] });
+    } else if (m.toolCalls?.length) {
+      out.push({
+        role: 'assistant',
+        content: [
+          ...(m.content ? [{ type: 'text', text: m.content }] : []),
+          ...m.toolCalls.map((call) => ({
+            type: 'tool_use',
+            id: call.id,
+            name: call.name,
+            input: call.arguments,
+          })),
+        ],
+      });
+    } else {
+      out.push({ role: m.role, content: m.content });
+    }
+  }
+  return out;
+}
+
+export function fromClaudeContent(blocks: any[]): { text: string; toolCalls: ToolCall[] } {
+  return {
+    text: blocks
+      .filter((b) => b.type !== 'tool_use')
+      .map((b) => b.text || '')
+      .join(''),
+    toolCalls: blocks
+      .filter((b) => b.type === 'tool_use')
+      .map((b) => ({ id: b.id, name: b.name, arguments: b.input ?? {} })),
+  };
+}
+
+// Gemini contents
+
+/**
+ * Gemini accepts an OpenAPI subset of JSON Schema without additionalProperties
+ */
+function toGeminiSchema(schema: JsonSchema): JsonSchema {
+  const { additionalProperties, properties, items, ...rest } = schema;
+  return {
+    ...rest,
+    ...(properties && {
+      properties: Object.fromEntries(
+        Object.entries(properties).map(([key, child]) => [key, toGeminiSchema(child)])
+      ),
+    }),
+    ...(items && { items: toGeminiSchema(items) }),
+  };
+}
+
+export function toGeminiTools(tools: ToolDefinition[]) {
+  return [
+    {
+      functionDeclarations: tools.map(({ name, description, parameters }) => ({
+        name,
+        description,
+        parameters: toGeminiSchema(parameters),
+      })),
+    },
+  ];
+}
+
+export function toGeminiContents(messages: LLMMessage[]) {
+  const out: Array<{ role: string; parts: any[] }> = [];
+  for (const m of messages) {
+    if (m.role === 'tool') {
+      const result = parseArguments(m.content);
+      const part = {
+        functionResponse: {
+          name: m.name,
+          // The response must be an object
+          response: result && typeof result === 'object' ? result : { result },
+        },
+      };
+      const last = out[out.length - 1];
+      if (last?.role === 'user' && last.parts.every((p) => p.functionResponse)) {
+        last.parts.push(part);
+      } else {
+        out.push({ role: 'user', parts: [part] });
+      }
+    } else if (m.toolCalls?.length) {
+      out.push({
+        role: 'model',
+        parts: [
+          ...(m.content ? [{ text: m.content }] : []),
+          ...m.toolCalls.map((call) => ({
+            functionCall: { name: call.name, args: call.arguments },
+          })),
+        ],
+      });
+    } else {
+      out.push({ role: m.role === 'assistant' ? 'model' : 'user', parts: [{ text: m.content }] });
+    }
+  }
+  return out;
+}
+
+export function fromGeminiParts(parts: any[]): { text: string; toolCalls: ToolCall[] } {
+  return {
+    text: parts.map((part) => part.text || '').join(''),
+    toolCalls: parts
+      .filter((part) => part.functionCall)
+      .map((part, i) => ({
+        id: `call_${i}`,
+        name: part.functionCall.name,
+        arguments: part.functionCall.args ?? {},
+      })),
+  };
+}
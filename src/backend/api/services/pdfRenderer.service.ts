@@ -0,0 +1,197 @@
+/**
+ * PDF Renderer
+ * Prints HTML to PDF with headless Chrome over the DevTools protocol, so text stays selectable
+ * and every font the page uses is embedded in the file
+ * Chrome is started per document through --remote-debugging-pipe and exits when it is done
+ */
+
+import { spawn } from 'child_process';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import type { Readable, Writable } from 'stream';
+
+export type PageSize = 'A4' | 'Letter' | 'Legal';
+
+/** In millimetres */
+export interface PageMargins {
+  top: number;
+  right: number;
+  bottom: number;
+  left: number;
+}
+
+export interface PdfPageOptions {
+  pageSize: PageSize;
+  margins: PageMargins;
+}
+
+export interface PdfRenderer {
+  render(html: string, options: PdfPageOptions): Promise<Buffer>;
+}
+
+export interface ChromePdfRendererOptions {
+  /** Defaults to JOBSPRINT_CHROME_PATH, then the usual install locations */
+  chromePath?: string;
+  /** For the whole render, launch included; default 30 seconds */
+  timeoutMs?: number;
+}
+
+/** Width and height in inches, the unit printToPDF takes */
+const PAGE_SIZES: Record<PageSize, [number, number]> = {
+  A4: [8.27, 11.69],
+  Letter: [8.5, 11],
+  Legal: [8.5, 14],
+};
+
+const MM_PER_INCH = 25.4;
+
+const CHROME_CANDIDATES = [
+  '/usr/bin/google-chrome',
+  '/usr/bin/google-chrome-stable',
+  '/usr/bin/chromium',
+  '/usr/bin/chromium-browser',
+  '/Applications/Google Chrome.app/Contents/MacOS/Google Chrome',
+];
+
+/**
+ * Chrome named by JOBSPRINT_CHROME_PATH, or the first one installed in a usual location
+ */
+export function findChrome(env = process.env): string | undefined {
+  if (env.JOBSPRINT_CHROME_PATH) return env.JOBSPRINT_CHROME_PATH;
+  return CHROME_CANDIDATES.find((candidate) => fs.existsSync(candidate));
+}
+
+/**
+ * DevTools protocol over Chrome's pipe: NUL-terminated JSON, commands written to fd 3 and
+ * replies read from fd 4. Events are ignored.
+ */
+class DevToolsPipe {
+  private nextId = 1;
+  private pending = new Map<
+    number,
+    { resolve: (result: any) => void; reject: (error: Error) => void }
+  >();
+  private buffer = '';
+
+  constructor(
+    private input: Writable,
+    output: Readable
+  ) {
+    output.setEncoding('utf8');
+    output.on('data', (data: string) => this.receive(data));
+    // Chrome exiting breaks the pipe
+    const lost = (error: Error) => this.close(new Error(`Lost Chrome: ${error.message}`));
+    input.on('error', lost);
+    output.on('error', lost);
+  }
+
+  send<T = any>(method: string, params: object = {}, sessionId?: string): Promise<T> {
+    const id = this.nextId++;
+    return new Promise<T>((resolve, reject) => {
+      this.pending.set(id, { resolve, reject });
+      this.input.write(`${JSON.stringify({ id, method, params, sessionId })}\0`);
+    });
+  }
+
+  /** Fail the commands still waiting for a reply */
+  close(error: Error): void {
+    for (const { reject } of this.pending.values()) reject(error);
+    this.pending.clear();
+  }
+
+  private receive(data: string): void {
+    this.buffer += data;
+    let end: number;
+    while ((end = this.buffer.indexOf('\0')) !== -1) {
+      const message = JSON.parse(this.buffer.slice(0, end));
+      this.buffer = this.buffer.slice(end + 1);
+
+      const pending = this.pending.get(message.id);
+      if (!pending) continue;
+      this.pending.delete(message.id);
+      if (message.error) pending.reject(new Error(`DevTools: ${message.error.message}`));
+      else pending.resolve(message.result);
+    }
+  }
+}
+
+/**
+ * Renderer driving a local headless Chrome
+ */
+export class ChromePdfRenderer implements PdfRenderer {
+  constructor(private options: ChromePdfRendererOptions = {}) {}
+
+  async render(html: string, options: PdfPageOptions): Promise<Buffer> {
+    const chromePath = this.options.chromePath ?? findChrome();
+    if (!chromePath) {
+      throw new Error('Chrome is needed to render PDFs; set JOBSPRINT_CHROME_PATH');
+    }
+
+    const profileDir = await fs.promises.mkdtemp(path.join(os.tmpdir(), 'jobsprint-chrome-'));
+    const chrome = spawn(
+      chromePath,
+      [
+        '--headless=new',
+        '--disable-gpu',
+        '--disable-extensions',
+        '--no-first-run',
+        '--no-default-browser-check',
+        '--remote-debugging-pipe',
+        `--user-data-dir=${profileDir}`,
+        // Chrome refuses to start its sandbox as root, which is usual in containers
+        ...(process.getuid?.() === 0 ? ['--no-sandbox'] : []),
+        'about:blank',
+      ],
+      { stdio: ['ignore', 'ignore', 'ignore', 'pipe', 'pipe'] }
+    );
+    const pipe = new DevToolsPipe(chrome.stdio[3] as Writable, chrome.stdio[4] as Readable);
+    const exited = new Promise<void>((resolve) => chrome.once('close', () => resolve()));
+
+    let timer: NodeJS.Timeout | undefined;
+    const failed = new Promise<never>((_, reject) => {
+      chrome.once('error', reject);
+      chrome.once('exit', (code) => reject(new Error(`Chrome exited early with code ${code}`)));
+      timer = setTimeout(
+        () => reject(new Error('Timed out rendering PDF')),
+        this.options.timeoutMs ?? 30000
+      );
+    });
+
+    try {
+      return await Promise.race([this.print(pipe, html, options), failed]);
+    } finally {
+      clearTimeout(timer);
+      pipe.close(new Error('Chrome closed'));
+      if (chrome.exitCode === null && chrome.signalCode === null) chrome.kill();
+      await exited;
+      await fs.promises.rm(profileDir, { recursive: true, force: true });
+    }
+  }
+
+  private async print(pipe: DevToolsPipe, html: string, options: PdfPageOptions): Promise<Buffer> {
+    const { targetId } = await pipe.send('Target.createTarget', { url: 'about:blank' });
+    const { sessionId } = await pipe.send('Target.attachToTarget', { targetId, flatten: true });
+    const send = <T = any>(method: string, params?: object) =>
+      pipe.send<T>(method, params, sessionId);
+
+    // Documents are built from user text, which must not run as script
+    await send('Emulation.setScriptExecutionDisabled', { value: true });
+    const { frameTree } = await send('Page.getFrameTree');
+    await send('Page.setDocumentContent', { frameId: frameTree.frame.id, html });
+    await send('Runtime.evaluate', { expression: 'document.fonts.ready', awaitPromise: true });
+
+    const [paperWidth, paperHeight] = PAGE_SIZES[options.pageSize];
+    const { margins } = options;
+    const { data } = await send<{ data: string }>('Page.printToPDF', {
+      paperWidth,
+      paperHeight,
+      marginTop: margins.top / MM_PER_INCH,
+      marginRight: margins.right / MM_PER_INCH,
+      marginBottom: margins.bottom / MM_PER_INCH,
+      marginLeft: margins.left / MM_PER_INCH,
+      printBackground: true,
+    });
+    return Buffer.from(data, 'base64');
+  }
+}
@@ -0,0 +1,849 @@
+/**
+ * PDF Text Extraction
+ * Reads the text of a PDF in reading order, one line per line of text, for resume parsing
+ * Interprets page content streams with their fonts' ToUnicode maps, encodings and glyph widths;
+ * Flate-compressed and uncompressed streams and object streams are read, encryption is not
+ * Image and font streams are skipped, and all streams together inflate to MAX_INFLATED_SIZE at most
+ */
+
+import zlib from 'zlib';
+import { createInflateBudget, inflateCapped, InflateLimitError } from './zip.service';
+import type { InflateBudget } from './zip.service';
+
+class PdfRef {
+  constructor(readonly num: number) {}
+}
+
+/** Operators in content streams */
+class PdfOperator {
+  constructor(readonly name: string) {}
+}
+
+/** Names are strings, strings are byte buffers */
+type PdfValue =
+  number | boolean | null | string | Buffer | PdfRef | PdfValue[] | { [key: string]: PdfValue };
+type PdfDict = { [key: string]: PdfValue };
+
+interface PdfObject {
+  value: PdfValue;
+  /** Decoded stream data */
+  stream?: Buffer;
+}
+
+type Matrix = [number, number, number, number, number, number];
+
+const IDENTITY: Matrix = [1, 0, 0, 1, 0, 0];
+
+function multiply(m: Matrix, n: Matrix): Matrix {
+  return [
+    m[0] * n[0] + m[1] * n[2],
+    m[0] * n[1] + m[1] * n[3],
+    m[2] * n[0] + m[3] * n[2],
+    m[2] * n[1] + m[3] * n[3],
+    m[4] * n[0] + m[5] * n[2] + n[4],
+    m[4] * n[1] + m[5] * n[3] + n[5],
+  ];
+}
+
+const WHITESPACE = new Set([0x00, 0x09, 0x0a, 0x0c, 0x0d, 0x20]);
+const DELIMITERS = new Set('()<>[]{}/%'.split('').map((c) => c.charCodeAt(0)));
+
+/**
+ * Tokens and values of PDF object syntax, for the file's objects and for content streams
+ */
+class PdfLexer {
+  position: number;
+
+  constructor(
+    private readonly data: Buffer,
+    start = 0
+  ) {
+    this.position = start;
+  }
+
+  get done(): boolean {
+    this.skipSpace();
+    return this.position >= this.data.length;
+  }
+
+  private skipSpace(): void {
+    const { data } = this;
+    while (this.position < data.length) {
+      const byte = data[this.position];
+      if (WHITESPACE.has(byte)) this.position++;
+      else if (byte === 0x25 /* % */) {
+        while (
+          this.position < data.length &&
+          data[this.position] !== 0x0a &&
+          data[this.position] !== 0x0d
+        ) {
+          this.position++;
+        }
+      } else break;
+    }
+  }
+
+  private word(): string {
+    const start = this.position;
+    while (
+      this.position < this.data.length &&
+      !WHITESPACE.has(this.data[this.position]) &&
+      !DELIMITERS.has(this.data[this.position])
+    ) {
+      this.position++;
+    }
+    return this.data.toString('latin1', start, this.position);
+  }
+
+  /** The next value, or the operator keyword found instead */
+  read(): PdfValue | PdfOperator {
+    this.skipSpace();
+    const { data } = this;
+    const byte = data[this.position];
+
+    if (byte === 0x2f /* / */) {
+      this.position++;
+      return this.word().replace(/#([0-9a-fA-F]{2})/g, (_, hex) =>
+        String.fromCharCode(parseInt(hex, 16))
+      );
+    }
+    if (byte === 0x28 /* ( */) return this.literalString();
+    if (byte === 0x3c /* < */) {
+      if (data[this.position + 1] === 0x3c) {
+        this.position += 2;
+        return this.dictionary();
+      }
+      return this.hexString();
+    }
+    if (byte === 0x5b /* [ */) {
+      this.position++;
+      const items: PdfValue[] = [];
+      for (;;) {
+        this.skipSpace();
+        if (this.position >= data.length) return items;
+        if (data[this.position] === 0x5d /* ] */) {
+          this.position++;
+          return items;
+        }
+        const item = this.read();
+        if (!(item instanceof PdfOperator)) items.push(item);
+      }
+    }
+    if (byte === 0x5d || byte === 0x3e || byte === 0x7b || byte === 0x7d) {
+      // Stray closing delimiter or PostScript braces
+      this.position++;
+      return new PdfOperator(String.fromCharCode(byte));
+    }
+
+    const token = this.word();
+    if (/^[+-]?(\d+\.?\d*|\.\d+)$/.test(token)) {
+      const number = Number(token);
+      // "12 0 R" is a reference
+      if (/^\d+$/.test(token)) {
+        const mark = this.position;
+        this.skipSpace();
+        const generation = this.word();
+        this.skipSpace();
+        if (/^\d+$/.test(generation) && data[this.position] === 0x52 /* R */) {
+          const after = data[this.position + 1];
+          if (after === undefined || WHITESPACE.has(after) || DELIMITERS.has(after)) {
+            this.position++;
+            return new PdfRef(number);
+          }
+        }
+        this.position = mark;
+      }
+      return number;
+    }
+    if (token === 'true') return true;
+    if (token === 'false') return false;
+    if (token === 'null') return null;
+    if (token === '') {
+      this.position++;
+      return new PdfOperator('');
+    }
+    return new PdfOperator(token);
+  }
+
+  private dictionary(): PdfDict {
+    const dict: PdfDict = {};
+    for (;;) {
+      this.skipSpace();
+      if (this.position >= this.data.length) return dict;
+      if (this.data[this.position] === 0x3e && this.data[this.position + 1] === 0x3e) {
+        this.position += 2;
+        return dict;
+      }
+      const key = this.read();
+      if (typeof key !== 'string') continue;
+      const value = this.read();
+      if (!(value instanceof PdfOperator)) dict[key] = value;
+    }
+  }
+
+  private hexString(): Buffer {
+    const end = this.data.indexOf(0x3e, this.position);
+    const stop = end === -1 ? this.data.length : end;
+    let hex = this.data.toString('latin1', this.position + 1, stop).replace(/[^0-9a-fA-F]/g, '');
+    if (hex.length % 2) hex += '0';
+    this.position = stop + 1;
+    return Buffer.from(hex, 'hex');
+  }
+
+  private literalString(): Buffer {
+    const { data } = this;
+    const bytes: number[] = [];
+    let depth = 0;
+    this.position++;
+
+    while (this.position < data.length) {
+      const byte = data[this.position++];
+      if (byte === 0x28) depth++;
+      else if (byte === 0x29) {
+        if (depth === 0) break;
+        depth--;
+      } else if (byte === 0x5c /* \ */) {
+        const next = data[this.position++];
+        const escapes: Record<number, number> = {
+          0x6e: 0x0a,
+          0x72: 0x0d,
+          0x74: 0x09,
+          0x62: 0x08,
+          0x66: 0x0c,
+        };
+        if (next in escapes) bytes.push(escapes[next]);
+        else if (next === 0x0d) {
+          // Line continuation
+          if (data[this.position] === 0x0a) this.position++;
+        } else if (next === 0x0a) {
+          // Line continuation
+        } else if (next >= 0x30 && next <= 0x37) {
+          let octal = next - 0x30;
+          for (
+            let i = 0;
+            i < 2 && data[this.position] >= 0x30 && data[this.position] <= 0x37;
+            i++
+          ) {
+            octal = octal * 8 + (data[this.position++] - 0x30);
+          }
+          bytes.push(octal & 0xff);
+        } else bytes.push(next);
+        continue;
+      }
+      bytes.push(byte);
+    }
+    return Buffer.from(bytes);
+  }
+
+  /** Skip inline image data, which follows "ID" up to "EI" */
+  skipInlineImage(): void {
+    const end = this.data.indexOf('EI', this.position, 'latin1');
+    this.position = end === -1 ? this.data.length : end + 2;
+  }
+}
+
+/** Font programs, which the text is never read from (widths and ToUnicode maps are separate) */
+const FONT_PROGRAMS = new Set(['Type1C', 'CIDFontType0C', 'OpenType']);
+
+function decodeStream(dict: PdfDict, raw: Buffer, budget: InflateBudget): Buffer | undefined {
+  // Images and embedded fonts hold no text and are often the largest streams
+  if (dict.Subtype === 'Image' || dict.Length1 !== undefined) return undefined;
+  if (typeof dict.Subtype === 'string' && FONT_PROGRAMS.has(dict.Subtype)) return undefined;
+
+  const filter = dict.Filter;
+  const filters = Array.isArray(filter) ? filter : filter ? [filter] : [];
+  let data = raw;
+  for (const name of filters) {
+    if (name === 'FlateDecode' || name === 'Fl') {
+      try {
+        data = inflateCapped(zlib.inflateSync, data, budget);
+      } catch (e) {
+        if (e instanceof InflateLimitError) throw e;
+        // Truncated or missing checksum: take what inflates
+        try {
+          data = inflateCapped(zlib.inflateSync, data, budget, {
+            finishFlush: zlib.constants.Z_SYNC_FLUSH,
+          });
+        } catch (retry) {
+          if (retry instanceof InflateLimitError) throw retry;
+          return undefined;
+        }
+      }
+    } else if (name === 'ASCIIHexDecode' || name === 'AHx') {
+      const hex = data
+        .toString('latin1')
+        .split('>')[0]
+        .replace(/[^0-9a-fA-F]/g, '');
+      data = Buffer.from(hex.length % 2 ? `${hex}0` : hex, 'hex');
+    } else {
+      // Image and other filters hold no text
+      return undefined;
+    }
+  }
+  return data;
+}
+
+/**
+ * Every object of the file by number, later definitions (incremental updates) winning
+ */
+function readObjects(pdf: Buffer): { objects: Map<number, PdfObject>; trailer: PdfDict } {
+  const objects = new Map<number, PdfObject>();
+  const budget = createInflateBudget();
+  const source = pdf.toString('latin1');
+  const header = /(\d+)\s+(\d+)\s+obj\b/g;
+  let trailer: PdfDict = {};
+  let match: RegExpExecArray | null;
+
+  while ((match = header.exec(source))) {
+    const lexer = new PdfLexer(pdf, match.index + match[0].length);
+    const value = lexer.read();
+    if (value instanceof PdfOperator) continue;
+    const object: PdfObject = { value };
+
+    const after = source
+      .slice(lexer.position, lexer.position + 20)
+      .match(/^\s*stream(\r\n|\n|\r)?/);
+    if (
+      after &&
+      value &&
+      typeof value === 'object' &&
+      !Array.isArray(value) &&
+      !Buffer.isBuffer(value)
+    ) {
+      const dict = value as PdfDict;
+      const start = lexer.position + after[0].length;
+      let end = typeof dict.Length === 'number' ? start + dict.Length : -1;
+      if (end < start || !/^\s*endstream/.test(source.slice(end, end + 20))) {
+        end = source.indexOf('endstream', start);
+        if (end === -1) end = source.length;
+        if (source[end - 1] === '\n') end--;
+        if (source[end - 1] === '\r') end--;
+      }
+      object.stream = decodeStream(dict, pdf.subarray(start, end), budget);
+      header.lastIndex = end;
+      if (dict.Type === 'XRef') trailer = { ...trailer, ...dict };
+    }
+    objects.set(Number(match[1]), object);
+  }
+
+  for (const [, object] of [...objects]) {
+    const dict = object.value as PdfDict;
+    if (dict?.Type !== 'ObjStm' || !object.stream) continue;
+    const count = Number(dict.N) || 0;
+    const first = Number(dict.First) || 0;
+    const lexer = new PdfLexer(object.stream);
+    const entries: Array<[number, number]> = [];
+    for (let i = 0; i < count; i++) entries.push([lexer.read() as number, lexer.read() as number]);
+    for (const [num, offset] of entries) {
+      if (objects.has(num)) continue;
+      const value = new PdfLexer(object.stream, first + offset).read();
+      if (!(value instanceof PdfOperator)) objects.set(num, { value });
+    }
+  }
+
+  const trailerAt = source.lastIndexOf('trailer');
+  if (trailerAt !== -1) {
+    const value = new PdfLexer(pdf, trailerAt + 'trailer'.length).read();
+    if (value && typeof value === 'object' && !(value instanceof PdfOperator)) {
+      trailer = { ...trailer, ...(value as PdfDict) };
+    }
+  }
+  return { objects, trailer };
+}
+
+/** Standard glyph names seen in /Differences, beyond the ASCII ones named after their letter */
+const GLYPH_NAMES: Record<string, string> = {
+  space: ' ',
+  bullet: '•',
+  endash: '–',
+  emdash: '—',
+  hyphen: '-',
+  quoteright: '’',
+  quoteleft: '‘',
+  quotedblleft: '“',
+  quotedblright: '”',
+  quotesingle: "'",
+  quotedbl: '"',
+  ellipsis: '…',
+  fi: 'fi',
+  fl: 'fl',
+  period: '.',
+  comma: ',',
+  colon: ':',
+  semicolon: ';',
+  slash: '/',
+  parenleft: '(',
+  parenright: ')',
+  at: '@',
+  ampersand: '&',
+  plus: '+',
+  numbersign: '#',
+  percent: '%',
+  bar: '|',
+  zero: '0',
+  one: '1',
+  two: '2',
+  three: '3',
+  four: '4',
+  five: '5',
+  six: '6',
+  seven: '7',
+  eight: '8',
+  nine: '9',
+};
+
+/** Windows-1252 characters where it differs from Latin-1 */
+const WIN_ANSI: Record<number, string> = {
+  0x80: '€',
+  0x82: '‚',
+  0x83: 'ƒ',
+  0x84: '„',
+  0x85: '…',
+  0x86: '†',
+  0x87: '‡',
+  0x88: 'ˆ',
+  0x89: '‰',
+  0x8a: 'Š',
+  0x8b: '‹',
+  0x8c: 'Œ',
+  0x8e: 'Ž',
+  0x91: '‘',
+  0x92: '’',
+  0x93: '“',
+  0x94: '”',
+  0x95: '•',
+  0x96: '–',
+  0x97: '—',
+  0x98: '˜',
+  0x99: '™',
+  0x9a: 'š',
+  0x9b: '›',
+  0x9c: 'œ',
+  0x9e: 'ž',
+  0x9f: 'Ÿ',
+};
+
+function glyphText(name: string): string | undefined {
+  if (GLYPH_NAMES[name]) return GLYPH_NAMES[name];
+  if (/^[A-Za-z]$/.test(name)) return name;
+  const unicode = name.match(/^uni([0-9A-Fa-f]{4})/);
+  return unicode ? String.fromCharCode(parseInt(unicode[1], 16)) : undefined;
+}
+
+function utf16(bytes: Buffer): string {
+  let text = '';
+  for (let i = 0; i + 1 < bytes.length; i += 2) text += String.fromCharCode(bytes.readUInt16BE(i));
+  return text;
+}
+
+/**
+ * A font's mapping from character codes to text and glyph widths
+ */
+class PdfFont {
+  /** Bytes per character code */
+  readonly codeLength: number;
+  private readonly toUnicode = new Map<number, string>();
+  private readonly differences = new Map<number, string>();
+  private readonly widths = new Map<number, number>();
+  private readonly defaultWidth: number;
+
+  constructor(
+    dict: PdfDict,
+    resolve: (value: PdfValue) => PdfValue,
+    stream: (value: PdfValue) => Buffer | undefined
+  ) {
+    const composite = dict.Subtype === 'Type0';
+    this.codeLength = composite ? 2 : 1;
+
+    const cmap = stream(dict.ToUnicode);
+    if (cmap) this.codeLength = this.readToUnicode(cmap) ?? this.codeLength;
+
+    const encoding = resolve(dict.Encoding) as PdfDict | string | undefined;
+    if (encoding && typeof encoding === 'object') {
+      let code = 0;
+      for (const item of (resolve(encoding.Differences) as PdfValue[]) ?? []) {
+        if (typeof item === 'number') code = item;
+        else if (typeof item === 'string') {
+          const text = glyphText(item);
+          if (text !== undefined) this.differences.set(code, text);
+          code++;
+        }
+      }
+    }
+
+    if (composite) {
+      const descendant = resolve((resolve(dict.DescendantFonts) as PdfValue[])?.[0]) as PdfDict;
+      this.defaultWidth = typeof descendant?.DW === 'number' ? descendant.DW : 1000;
+      const w = (resolve(descendant?.W) as PdfValue[]) ?? [];
+      for (let i = 0; i < w.length;) {
+        const first = w[i] as number;
+        const next = resolve(w[i + 1]);
+        if (Array.isArray(next)) {
+          next.forEach((width, j) => this.widths.set(first + j, Number(resolve(width))));
+          i += 2;
+        } else {
+          const width = Number(resolve(w[i + 2]));
+          for (let code = first; code <= (next as number); code++) this.widths.set(code, width);
+          i += 3;
+        }
+      }
+    } else {
+      const descriptor = resolve(dict.FontDescriptor) as PdfDict | undefined;
+      this.defaultWidth =
+        typeof descriptor?.MissingWidth === 'number' ? descriptor.MissingWidth : 500;
+      const firstChar = typeof dict.FirstChar === 'number' ? dict.FirstChar : 0;
+      ((resolve(dict.Widths) as PdfValue[]) ?? []).forEach((width, i) =>
+        this.widths.set(firstChar + i, Number(resolve(width)))
+      );
+    }
+  }
+
+  /** Fill the code map from a ToUnicode CMap; returns the code length its ranges declare */
+  private readToUnicode(cmap: Buffer): number | undefined {
+    const text = cmap.toString('latin1');
+    const hex = (value: string) => Buffer.from(value.replace(/\s/g, ''), 'hex');
+    let codeLength: number | undefined;
+
+    for (const block of text.matchAll(/begincodespacerange([\s\S]*?)endcodespacerange/g)) {
+      const first = block[1].match(/<([0-9a-fA-F]+)>/);
+      if (first) codeLength = first[1].length / 2;
+    }
+    for (const block of text.matchAll(/beginbfchar([\s\S]*?)endbfchar/g)) {
+      for (const [, code, unicode] of block[1].matchAll(/<([0-9a-fA-F]+)>\s*<([0-9a-fA-F\s]*)>/g)) {
+        this.toUnicode.set(parseInt(code, 16), utf16(hex(unicode)));
+      }
+    }
+    for (const block of text.matchAll(/beginbfrange([\s\S]*?)endbfrange/g)) {
+      const ranges = block[1].matchAll(
+        /<([0-9a-fA-F]+)>\s*<([0-9a-fA-F]+)>\s*(?:<([0-9a-fA-F\s]*)>|\[([^\]]*)\])/g
+      );
+      for (const [, low, high, start, list] of ranges) {
+        const from = parseInt(low, 16);
+        const to = parseInt(high, 16);
+        if (list !== undefined) {
+          [...list.matchAll(/<([0-9a-fA-F\s]*)>/g)].forEach(([, unicode], i) =>
+            this.toUnicode.set(from + i, utf16(hex(unicode)))
+          );
+        } else {
+          const base = hex(start!);
+          for (let code = from; code <= to && code - from < 0x10000; code++) {
+            const target = Buffer.from(base);
+            target.writeUInt16BE(
+              target.readUInt16BE(target.length - 2) + (code - from),
+              target.length - 2
+            );
+            this.toUnicode.set(code, utf16(target));
+          }
+        }
+      }
+    }
+    return codeLength;
+  }
+
+  /** Codes of a string with their text and width in thousandths of the font size */
+  decode(bytes: Buffer): Array<{ code: number; text: string; width: number }> {
+    const glyphs: Array<{ code: number; text: string; width: number }> = [];
+    for (let i = 0; i + this.codeLength <= bytes.length; i += this.codeLength) {
+      const code = this.codeLength === 2 ? bytes.readUInt16BE(i) : bytes[i];
+      const text =
+        this.toUnicode.get(code) ??
+        this.differences.get(code) ??
+        (this.codeLength === 1 ? (WIN_ANSI[code] ?? String.fromCharCode(code)) : '');
+      glyphs.push({ code, text, width: this.widths.get(code) ?? this.defaultWidth });
+    }
+    return glyphs;
+  }
+}
+
+/** A run of text shown at one place, in page space (y up) */
+interface TextRun {
+  x: number;
+  y: number;
+  endX: number;
+  size: number;
+  text: string;
+}
+
+interface TextState {
+  ctm: Matrix;
+  font?: PdfFont;
+  fontSize: number;
+  charSpacing: number;
+  wordSpacing: number;
+  /** Horizontal scaling, 1 = 100% */
+  scale: number;
+  leading: number;
+}
+
+class PdfDocument {
+  private readonly objects: Map<number, PdfObject>;
+  private readonly trailer: PdfDict;
+  private readonly fonts = new Map<PdfValue, PdfFont>();
+
+  constructor(pdf: Buffer) {
+    if (pdf.toString('latin1', 0, 1024).indexOf('%PDF-') === -1) {
+      throw new Error('Not a PDF document');
+    }
+    ({ objects: this.objects, trailer: this.trailer } = readObjects(pdf));
+    if (this.trailer.Encrypt) throw new Error('Encrypted PDFs are not supported');
+  }
+
+  resolve = (value: PdfValue | undefined): PdfValue => {
+    for (let depth = 0; value instanceof PdfRef && depth < 32; depth++) {
+      value = this.objects.get(value.num)?.value ?? null;
+    }
+    return value ?? null;
+  };
+
+  stream = (value: PdfValue | undefined): Buffer | undefined =>
+    value instanceof PdfRef ? this.objects.get(value.num)?.stream : undefined;
+
+  private dict(value: PdfValue | undefined): PdfDict {
+    const resolved = this.resolve(value);
+    return resolved &&
+      typeof resolved === 'object' &&
+      !Array.isArray(resolved) &&
+      !Buffer.isBuffer(resolved)
+      ? (resolved as PdfDict)
+      : {};
+  }
+
+  /** Pages in order with their (inherited) resources and content streams */
+  pages(): Array<{ resources: PdfDict; contents: Buffer[] }> {
+    const pages: Array<{ resources: PdfDict; contents: Buffer[] }> = [];
+    // Object numbers visited, so a malformed tree cannot loop
+    const seen = new Set<number>();
+
+    const visit = (ref: PdfValue, inherited: PdfDict) => {
+      if (ref instanceof PdfRef) {
+        if (seen.has(ref.num)) return;
+        seen.add(ref.num);
+      }
+      if (pages.length > 2000) return;
+      const node = this.dict(ref);
+      const resources = node.Resources !== undefined ? this.dict(node.Resources) : inherited;
+      if (node.Type === 'Pages' || Array.isArray(this.resolve(node.Kids))) {
+        for (const kid of (this.resolve(node.Kids) as PdfValue[]) ?? []) visit(kid, resources);
+        return;
+      }
+      const contents = this.resolve(node.Contents);
+      const refs = Array.isArray(contents) ? contents : [node.Contents];
+      pages.push({
+        resources,
+        contents: refs.map((r) => this.stream(r)).filter((s): s is Buffer => s !== undefined),
+      });
+    };
+
+    const root = this.dict(this.trailer.Root);
+    if (root.Pages) visit(root.Pages, {});
+    if (pages.length > 0) return pages;
+
+    // No usable catalog: every page object in file order
+    for (const [num, object] of this.objects) {
+      if ((object.value as PdfDict)?.Type === 'Page') visit(new PdfRef(num), {});
+    }
+    return pages;
+  }
+
+  private font(ref: PdfValue): PdfFont | undefined {
+    const key = ref instanceof PdfRef ? ref.num : ref;
+    if (!this.fonts.has(key)) {
+      this.fonts.set(key, new PdfFont(this.dict(ref), this.resolve, this.stream));
+    }
+    return this.fonts.get(key);
+  }
+
+  /**
+   * Text runs shown by a content stream, following form XObjects it draws
+   */
+  runs(content: Buffer, resources: PdfDict, state: TextState, runs: TextRun[], depth = 0): void {
+    const lexer = new PdfLexer(content);
+    const fonts = this.dict(resources.Font);
+    const xObjects = this.dict(resources.XObject);
+    const stack: TextState[] = [];
+    let operands: PdfValue[] = [];
+    let tm: Matrix = IDENTITY;
+    let tlm: Matrix = IDENTITY;
+
+    const show = (bytes: Buffer) => {
+      const { font } = state;
+      if (!font) return;
+      const start = multiply(tm, state.ctm);
+      let text = '';
+      for (const glyph of font.decode(bytes)) {
+        text += glyph.text;
+        const spacing =
+          state.charSpacing + (glyph.code === 32 && font.codeLength === 1 ? state.wordSpacing : 0);
+        const advance = ((glyph.width / 1000) * state.fontSize + spacing) * state.scale;
+        tm = multiply([1, 0, 0, 1, advance, 0], tm);
+      }
+      const end = multiply(tm, state.ctm);
+      const size = Math.abs(state.fontSize) * Math.hypot(start[2], start[3]);
+      if (text) runs.push({ x: start[4], y: start[5], endX: end[4], size, text });
+    };
+    const nextLine = (tx: number, ty: number) => {
+      tlm = multiply([1, 0, 0, 1, tx, ty], tlm);
+      tm = tlm;
+    };
+
+    while (!lexer.done) {
+      const token = lexer.read();
+      if (!(token instanceof PdfOperator)) {
+        operands.push(token);
+        continue;
+      }
+      const n = operands.map(Number);
+      switch (token.name) {
+        case 'q':
+          stack.push({ ...state });
+          break;
+        case 'Q':
+          if (stack.length) state = stack.pop()!;
+          break;
+        case 'cm':
+          state.ctm = multiply(n as Matrix, state.ctm);
+          break;
+        case 'BT':
+          tm = tlm = IDENTITY;
+          break;
+        case 'Tf': {
+          const ref = fonts[operands[0] as string];
+          state.font = ref !== undefined ? this.font(ref) : undefined;
+          state.fontSize = n[1] || 0;
+          break;
+        }
+        case 'Tc':
+          state.charSpacing = n[0] || 0;
+          break;
+        case 'Tw':
+          state.wordSpacing = n[0] || 0;
+          break;
+        case 'Tz':
+          state.scale = (n[0] ?? 100) / 100;
+          break;
+        case 'TL':
+          state.leading = n[0] || 0;
+          break;
+        case 'Td':
+          nextLine(n[0] || 0, n[1] || 0);
+          break;
+        case 'TD':
+          state.leading = -(n[1] || 0);
+          nextLine(n[0] || 0, n[1] || 0);
+          break;
+        case 'Tm':
+          tm = tlm = n.slice(0, 6) as Matrix;
+          break;
+        case 'T*':
+          nextLine(0, -state.leading);
+          break;
+        case 'Tj':
+          if (Buffer.isBuffer(operands[0])) show(operands[0]);
+          break;
+        case "'":
+          nextLine(0, -state.leading);
+          if (Buffer.isBuffer(operands[0])) show(operands[0]);
+          break;
+        case '"':
+          state.wordSpacing = n[0] || 0;
+          state.charSpacing = n[1] || 0;
+          nextLine(0, -state.leading);
+          if (Buffer.isBuffer(operands[2])) show(operands[2]);
+          break;
+        case 'TJ':
+          for (const item of (operands[0] as PdfValue[]) ?? []) {
+            if (Buffer.isBuffer(item)) show(item);
+            else if (typeof item === 'number') {
+              tm = multiply([1, 0, 0, 1, (-item / 1000) * state.fontSize * state.scale, 0], tm);
+            }
+          }
+          break;
+        case 'Do': {
+          const ref = xObjects[operands[0] as string];
+          const form = this.dict(ref);
+          const data = this.stream(ref);
+          if (form.Subtype === 'Form' && data && depth < 8) {
+            const matrix = (this.resolve(form.Matrix) as number[] | null) ?? IDENTITY;
+            const inner = { ...state, ctm: multiply(matrix as Matrix, state.ctm) };
+            const innerResources = form.Resources ? this.dict(form.Resources) : resources;
+            this.runs(data, innerResources, inner, runs, depth + 1);
+          }
+          break;
+        }
+        case 'ID':
+          lexer.skipInlineImage();
+          break;
+        default:
+          break;
+      }
+      operands = [];
+    }
+  }
+}
+
+/**
+ * Lines of a page from its runs: top to bottom, left to right, with a space between words, a
+ * tab between runs far apart on one line (columns, right-aligned dates) and a blank line
+ * between paragraphs
+ */
+function layoutLines(runs: TextRun[]): string[] {
+  const rows: Array<{ y: number; size: number; runs: TextRun[] }> = [];
+  for (const run of [...runs].sort((a, b) => b.y - a.y || a.x - b.x)) {
+    const row = rows.find(
+      (r) => Math.abs(r.y - run.y) < Math.max(1, Math.min(r.size, run.size) * 0.5)
+    );
+    if (row) {
+      row.runs.push(run);
+      row.size = Math.max(row.size, run.size);
+    } else rows.push({ y: run.y, size: run.size, runs: [run] });
+  }
+  rows.sort((a, b) => b.y - a.y);
+
+  const lines: string[] = [];
+  let previous: { y: number; size: number } | undefined;
+  for (const row of rows) {
+    let line = '';
+    let endX = -Infinity;
+    for (const run of row.runs.sort((a, b) => a.x - b.x)) {
+      const gap = run.x - endX;
+      if (line && gap > row.size * 2.5) line = `${line.trimEnd()}\t${run.text.trimStart()}`;
+      else if (line && gap > row.size * 0.2 && !/\s$/.test(line) && !/^\s/.test(run.text)) {
+        line += ` ${run.text}`;
+      } else line += run.text;
+      endX = Math.max(endX, run.endX);
+    }
+    line = line.replace(/[  ]+/g, ' ').trim();
+    if (!line) continue;
+    if (previous && previous.y - row.y > Math.max(previous.size, row.size) * 1.8) lines.push('');
+    lines.push(line);
+    previous = row;
+  }
+  return lines;
+}
+
+/**
+ * The text of every page, pages separated by a blank line
+ */
+export function extractPdfText(pdf: Buffer): string {
+  const document = new PdfDocument(pdf);
+  const pages = document.pages().map(({ resources, contents }) => {
+    const runs: TextRun[] = [];
+    const state: TextState = {
+      ctm: IDENTITY,
+      fontSize: 0,
+      charSpacing: 0,
+      wordSpacing: 0,
+      scale: 1,
+      leading: 0,
+    };
+    // A page's content streams are one stream split in parts
+    document.runs(
+      Buffer.concat(contents.flatMap((c) => [c, Buffer.from('\n')])),
+      resources,
+      state,
+      runs
+    );
+    return layoutLines(runs).join('\n');
+  });
+  return pages.filter(Boolean).join('\n\n');
+}
@@ -0,0 +1,470 @@
+/**
+ * Prompt Registry
+ * Named, versioned prompt templates with typed variables
+ * Picks a version per request (pinned, A/B split or latest) and records each run and its
+ * later outcome per version so versions can be compared
+ */
+
+import crypto from 'crypto';
+import { DatabaseService, getDatabase } from './database.service';
+
+export type PromptVariableType = 'string' | 'number' | 'boolean' | 'string[]';
+
+export interface PromptVariableSpec {
+  type: PromptVariableType;
+  optional?: boolean;
+  description?: string;
+}
+
+export type PromptVariableSpecs = Record<string, PromptVariableSpec>;
+
+type VariableValue<T extends PromptVariableType> = T extends 'string'
+  ? string
+  : T extends 'number'
+    ? number
+    : T extends 'boolean'
+      ? boolean
+      : string[];
+
+/**
+ * The variables object a template's specs call for
+ */
+export type PromptVariables<S extends PromptVariableSpecs> = {
+  [K in keyof S as S[K]['optional'] extends true ? never : K]: VariableValue<S[K]['type']>;
+} & {
+  [K in keyof S as S[K]['optional'] extends true ? K : never]?: VariableValue<S[K]['type']>;
+};
+
+/**
+ * One wording of a prompt. Text uses {{name}} placeholders (lists join with ', ', or one per
+ * line with {{name|lines}}) and {{#if name}}...{{/if}} blocks.
+ */
+export interface PromptVersion {
+  version: number;
+  /** What this version changes */
+  description?: string;
+  system?: string;
+  user: string;
+  constraints?: string[];
+  temperature?: number;
+  maxTokens?: number;
+}
+
+export interface PromptDefinition<S extends PromptVariableSpecs = PromptVariableSpecs> {
+  name: string;
+  description?: string;
+  /** Every version renders from the same variables */
+  variables: S;
+  versions: PromptVersion[];
+}
+
+export interface RenderedPrompt {
+  name: string;
+  version: number;
+  system: string;
+  user: string;
+  constraints: string[];
+  temperature?: number;
+  maxTokens?: number;
+}
+
+export interface PromptSelection {
+  /** Use this version instead of the experiment or latest */
+  version?: number;
+  /** Keeps A/B assignment stable, e.g. a user id; without it each render rolls anew */
+  subject?: string;
+}
+
+export interface PromptRunInput {
+  success: boolean;
+  latencyMs?: number;
+  cost?: number;
+  userId?: string;
+}
+
+/**
+ * Which prompt version produced a result; runId is where its outcome score goes
+ */
+export interface PromptRunRef {
+  name: string;
+  version: number;
+  runId: string | null;
+}
+
+export interface PromptVersionMetrics {
+  version: number;
+  runs: number;
+  successRate: number;
+  avgLatencyMs: number | null;
+  avgCost: number;
+  /** Runs that have an outcome score */
+  scored: number;
+  avgScore: number | null;
+}
+
+/** Relative traffic per version, e.g. { 1: 90, 2: 10 } */
+export type PromptExperiment = Record<number, number>;
+
+const PLACEHOLDER = /\{\{\s*(\w+)(?:\|(\w+))?\s*\}\}/g;
+const CONDITIONAL = /\{\{#if (\w+)\}\}([\s\S]*?)\{\{\/if\}\}/g;
+const NAME_PATTERN = /^[a-z][a-z0-9_]*(\.[a-z][a-z0-9_]*)*$/;
+
+/**
+ * Identity helper that keeps the literal variable specs, so render() can type-check variables
+ */
+export function definePrompt<const S extends PromptVariableSpecs>(
+  definition: PromptDefinition<S>
+): PromptDefinition<S> {
+  return definition;
+}
+
+export function renderTemplate(template: string, variables: Record<string, unknown>): string {
+  return template
+    .replace(CONDITIONAL, (_, name, body) => (isPresent(variables[name]) ? body : ''))
+    .replace(PLACEHOLDER, (_, name, filter) => {
+      const value = variables[name];
+      if (value === undefined || value === null) return '';
+      if (Array.isArray(value)) return value.join(filter === 'lines' ? '\n' : ', ');
+      return String(value);
+    })
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+}
+
+function isPresent(value: unknown): boolean {
+  return Array.isArray(value) ? value.length > 0 : !!value;
+}
+
+function referencedNames(text: string | undefined): string[] {
+  if (!text) return [];
+  return [...text.matchAll(PLACEHOLDER), ...text.matchAll(CONDITIONAL)].map((m) => m[1]);
+}
+
+function validateDefinition(definition: PromptDefinition): void {
+  const { name } = definition;
+  if (!NAME_PATTERN.test(name)) throw new Error(`Invalid prompt name: ${name}`);
+  if (definition.versions.length === 0) throw new Error(`Prompt ${name} has no versions`);
+
+  const seen = new Set<number>();
+  for (const version of definition.versions) {
+    if (!Number.isInteger(version.version) || version.version < 1 || seen.has(version.version)) {
+      throw new Error(`Prompt ${name} has an invalid or duplicate version: ${version.version}`);
+    }
+    seen.add(version.version);
+
+    const unknown = [
+      ...referencedNames(version.system),
+      ...referencedNames(version.user),
+      ...(version.constraints ?? []).flatMap(referencedNames),
+    ].filter((variable) => !(variable in definition.variables));
+    if (unknown.length > 0) {
+      throw new Error(
+        `Prompt ${name} v${version.version} uses undeclared variables: ${[...new Set(unknown)].join(', ')}`
+      );
+    }
+  }
+}
+
+function validateVariables(definition: PromptDefinition, variables: Record<string, unknown>) {
+  const errors: string[] = [];
+  for (const [key, spec] of Object.entries(definition.variables)) {
+    const value = variables[key];
+    if (value === undefined || value === null) {
+      if (!spec.optional) errors.push(`${key} is required`);
+      continue;
+    }
+    const valid =
+      spec.type === 'string[]'
+        ? Array.isArray(value) && value.every((item) => typeof item === 'string')
+        : typeof value === spec.type;
+    if (!valid) errors.push(`${key} must be ${spec.type}`);
+  }
+  for (const key of Object.keys(variables)) {
+    if (!(key in definition.variables)) errors.push(`${key} is not a variable of this prompt`);
+  }
+  if (errors.length > 0) {
+    throw new Error(`Invalid variables for prompt ${definition.name}: ${errors.join('; ')}`);
+  }
+}
+
+/**
+ * Stable value in [0, 1) for sticky A/B assignment
+ */
+function stableFraction(key: string): number {
+  const hash = crypto.createHash('sha256').update(key).digest();
+  return hash.readUInt32BE(0) / 0x100000000;
+}
+
+export class PromptRegistry {
+  private definitions = new Map<string, PromptDefinition>();
+
+  constructor(
+    private readonly db: DatabaseService = getDatabase(),
+    private readonly random: () => number = Math.random
+  ) {}
+
+  /**
+   * Add prompt definitions. Registering a name again merges in versions it does not have yet;
+   * an existing version cannot change its wording.
+   */
+  register(...definitions: PromptDefinition<any>[]): void {
+    for (const definition of definitions) {
+      validateDefinition(definition);
+      const existing = this.definitions.get(definition.name);
+      if (!existing) {
+        this.definitions.set(definition.name, {
+          ...definition,
+          versions: [...definition.versions],
+        });
+        continue;
+      }
+
+      for (const version of definition.versions) {
+        const current = existing.versions.find((v) => v.version === version.version);
+        if (!current) {
+          existing.versions.push(version);
+        } else if (JSON.stringify(current) !== JSON.stringify(version)) {
+          throw new Error(`Prompt ${definition.name} v${version.version} is already registered`);
+        }
+      }
+      existing.versions.sort((a, b) => a.version - b.version);
+    }
+  }
+
+  get(name: string): PromptDefinition | undefined {
+    return this.definitions.get(name);
+  }
+
+  list(): Array<
+    Pick<PromptDefinition, 'name' | 'description' | 'variables'> & { versions: number[] }
+  > {
+    return [...this.definitions.values()].map(({ name, description, variables, versions }) => ({
+      name,
+      description,
+      variables,
+      versions: versions.map((v) => v.version),
+    }));
+  }
+
+  /**
+   * Render a prompt with the version picked for this request
+   */
+  async render<S extends PromptVariableSpecs>(
+    prompt: PromptDefinition<S> | string,
+    variables: PromptVariables<S>,
+    selection: PromptSelection = {}
+  ): Promise<RenderedPrompt> {
+    const definition = this.require(typeof prompt === 'string' ? prompt : prompt.name);
+    const values = variables as Record<string, unknown>;
+    validateVariables(definition, values);
+
+    const version = await this.pickVersion(definition, selection);
+    return {
+      name: definition.name,
+      version: version.version,
+      system: renderTemplate(version.system ?? '', values),
+      user: renderTemplate(version.user, values),
+      constraints: (version.constraints ?? [])
+        .map((constraint) => renderTemplate(constraint, values))
+        .filter(Boolean),
+      temperature: version.temperature,
+      maxTokens: version.maxTokens,
+    };
+  }
+
+  async getExperiment(name: string): Promise<PromptExperiment | null> {
+    const row = await this.db.queryOne<{ weights: string }>(
+      'SELECT weights FROM prompt_experiments WHERE template = ?',
+      [name]
+    );
+    return row ? JSON.parse(row.weights) : null;
+  }
+
+  /**
+   * Split traffic between versions; null ends the experiment and serves the latest version
+   */
+  async setExperiment(name: string, weights: PromptExperiment | null): Promise<void> {
+    const definition = this.require(name);
+    if (!weights) {
+      await this.db.run('DELETE FROM prompt_experiments WHERE template = ?', [name]);
+      return;
+    }
+
+    const entries = Object.entries(weights);
+    const invalid = entries.filter(
+      ([version, weight]) =>
+        !definition.versions.some((v) => String(v.version) === version) ||
+        typeof weight !== 'number' ||
+        !(weight >= 0)
+    );
+    if (entries.length === 0 || invalid.length > 0 || entries.every(([, w]) => w === 0)) {
+      throw new Error(`Invalid experiment for prompt ${name}: ${JSON.stringify(weights)}`);
+    }
+
+    await this.db.run(
+      'INSERT OR REPLACE INTO prompt_experiments (template, weights, updated_at) VALUES (?, ?, ?)',
+      [name, JSON.stringify(weights), new Date().toISOString()]
+    );
+  }
+
+  /**
+   * Record how a rendered prompt's call went; returns the run id to attach an outcome to later
+   */
+  async recordRun(prompt: RenderedPrompt, run: PromptRunInput): Promise<string> {
+    const id = `prun_${crypto.randomUUID()}`;
+    await this.db.run(
+      `INSERT INTO prompt_runs (id, template, version, user_id, success, latency_ms, cost, created_at)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?)`,
+      [
+        id,
+        prompt.name,
+        prompt.version,
+        run.userId ?? null,
+        run.success ? 1 : 0,
+        run.latencyMs ?? null,
+        run.cost ?? 0,
+        new Date().toISOString(),
+      ]
+    );
+    return id;
+  }
+
+  /**
+   * Make the call for a rendered prompt and record how it went. A call that throws is recorded
+   * as failed and rethrown; a failed metrics write is only logged.
+   */
+  async track<T extends { usage: { cost: number } }>(
+    prompt: RenderedPrompt,
+    call: () => Promise<T>,
+    options: { userId?: string; succeeded?: (response: T) => boolean } = {}
+  ): Promise<{ response: T; runId: string | null }> {
+    const started = Date.now();
+    const record = async (run: Omit<PromptRunInput, 'latencyMs' | 'userId'>) => {
+      try {
+        return await this.recordRun(prompt, {
+          ...run,
+          latencyMs: Date.now() - started,
+          userId: options.userId,
+        });
+      } catch (error) {
+        console.warn(`Prompt run write failed for ${prompt.name}: ${(error as Error).message}`);
+        return null;
+      }
+    };
+
+    let response: T;
+    try {
+      response = await call();
+    } catch (error) {
+      await record({ success: false });
+      throw error;
+    }
+
+    const success = options.succeeded ? options.succeeded(response) : true;
+    const runId = await record({ success, cost: response.usage.cost });
+    return { response, runId };
+  }
+
+  /**
+   * Score a run after the fact, e.g. 1 when the user kept the text and 0 when they rewrote it
+   */
+  async recordOutcome(runId: string, score: number): Promise<boolean> {
+    if (typeof score !== 'number' || !Number.isFinite(score)) {
+      throw new Error(`Invalid outcome score: ${score}`);
+    }
+    const { changes } = await this.db.run(
+      'UPDATE prompt_runs SET score = ?, scored_at = ? WHERE id = ?',
+      [score, new Date().toISOString(), runId]
+    );
+    return changes > 0;
+  }
+
+  /**
+   * Per-version run counts, success rate, latency, cost and outcome score
+   */
+  async getMetrics(name: string): Promise<PromptVersionMetrics[]> {
+    const definition = this.require(name);
+    const rows = await this.db.query<{
+      version: number;
+      runs: number;
+      success_rate: number;
+      avg_latency_ms: number | null;
+      avg_cost: number;
+      scored: number;
+      avg_score: number | null;
+    }>(
+      `SELECT version, COUNT(*) AS runs, AVG(success) AS success_rate,
+              AVG(latency_ms) AS avg_latency_ms, AVG(cost) AS avg_cost,
+              COUNT(score) AS scored, AVG(score) AS avg_score
+       FROM prompt_runs WHERE template = ? GROUP BY version`,
+      [name]
+    );
+    const byVersion = new Map(rows.map((row) => [row.version, row]));
+
+    return definition.versions.map(({ version }) => {
+      const row = byVersion.get(version);
+      return {
+        version,
+        runs: row?.runs ?? 0,
+        successRate: row?.success_rate ?? 0,
+        avgLatencyMs: row?.avg_latency_ms ?? null,
+        avgCost: row?.avg_cost ?? 0,
+        scored: row?.scored ?? 0,
+        avgScore: row?.avg_score ?? null,
+      };
+    });
+  }
+
+  private require(name: string): PromptDefinition {
+    const definition = this.definitions.get(name);
+    if (!definition) throw new Error(`Unknown prompt: ${name}`);
+    return definition;
+  }
+
+  private async pickVersion(
+    definition: PromptDefinition,
+    selection: PromptSelection
+  ): Promise<PromptVersion> {
+    const { versions } = definition;
+    if (selection.version !== undefined) {
+      const pinned = versions.find((v) => v.version === selection.version);
+      if (!pinned) {
+        throw new Error(`Unknown version of prompt ${definition.name}: ${selection.version}`);
+      }
+      return pinned;
+    }
+
+    const latest = versions.reduce((a, b) => (b.version > a.version ? b : a));
+    const experiment = await this.getExperiment(definition.name);
+    if (!experiment) return latest;
+
+    const arms = versions
+      .map((v) => ({ version: v, weight: experiment[v.version] ?? 0 }))
+      .filter((arm) => arm.weight > 0);
+    const total = arms.reduce((sum, arm) => sum + arm.weight, 0);
+    if (total === 0) return latest;
+
+    const roll =
+      (selection.subject !== undefined
+        ? stableFraction(`${definition.name}:${selection.subject}`)
+        : this.random()) * total;
+    let cumulative = 0;
+    for (const arm of arms) {
+      cumulative += arm.weight;
+      if (roll < cumulative) return arm.version;
+    }
+    return arms[arms.length - 1].version;
+  }
+}
+
+let sharedPromptRegistry: PromptRegistry | null = null;
+
+/**
+ * Process-wide registry; generators register their prompts into it when constructed
+ */
+export function getPromptRegistry(): PromptRegistry {
+  if (!sharedPromptRegistry) {
+    sharedPromptRegistry = new PromptRegistry();
+  }
+  return sharedPromptRegistry;
+}
@@ -1,10 +1,27 @@
 /**
  * RAG (Retrieval-Augmented Generation) System
  * Uses FAISS vector store for job description parsing and semantic search
+ * Indexed jobs and their vectors persist through a VectorStore (SQLite by default)
+ * Cross-job search goes through an HNSW index per embedding model
+ * Search is hybrid: BM25 keyword and vector rankings merged by reciprocal rank fusion
+ * Also indexes each user's own experience, to find the evidence behind every job requirement
  * Implements job-tailored content generation with context retrieval
  */
 
-import { LLMAbstractionLayer, LLMResponse, StructuredPrompt } from './llm-abstraction.service';
+import { Bm25Index } from './bm25Index.service';
+import { Embedder, HashEmbedder, createEmbedderFromEnv } from './embeddings.service';
+import { ExperienceStore, SqliteExperienceStore } from './experienceStore.service';
+import { HnswIndex, HnswOptions } from './hnswIndex.service';
+import { JobPosting, JobPostingParser, toJobDescription } from './jobParser.service';
+// Types only: the shared LLM layer registers these tools, so a value import would be circular
+import type {
+  JsonSchema,
+  LLMAbstractionLayer,
+  LLMResponse,
+  LLMTool,
+  StructuredPrompt,
+} from './llm-abstraction.service';
+import { SqliteVectorStore, StoredChunk, VectorStore } from './vectorStore.service';
 
 export interface JobDescription {
   id: string;
@@ -14,6 +31,9 @@ export interface JobDescription {
   requirements: string[];
   responsibilities: string[];
   skills: string[];
+  /** Preferred but not required */
+  niceToHave?: string[];
+  benefits?: string[];
   metadata: {
     url?: string;
     postedDate?: Date;
@@ -26,6 +46,8 @@ export interface JobDescription {
 export interface VectorEmbedding {
   id: string;
   vector: number[];
+  /** Id of the embedder that produced the vector */
+  model: string;
   content: string;
   metadata: {
     type: 'requirement' | 'skill' | 'responsibility' | 'benefit' | 'company';
@@ -34,11 +56,71 @@ export interface VectorEmbedding {
   };
 }
 
+/**
+ * A resume, experience bullet, project write-up or past cover letter of one user
+ */
+export interface ExperienceDocument {
+  id: string;
+  userId: string;
+  kind: 'resume' | 'bullet' | 'project' | 'cover-letter';
+  title?: string;
+  content: string;
+}
+
+export interface ExperienceChunk {
+  /** `${documentId}-${chunkIndex}`, unique per user */
+  id: string;
+  userId: string;
+  documentId: string;
+  chunkIndex: number;
+  content: string;
+  vector: number[];
+  /** Id of the embedder that produced the vector */
+  model: string;
+}
+
+export interface EvidenceOptions {
+  /** Evidence kept per requirement (default 3) */
+  topK?: number;
+  /** Minimum cosine similarity of a chunk matched only by embedding (default 0.3) */
+  threshold?: number;
+}
+
+export interface Evidence {
+  content: string;
+  /** Fused rank score, as in RAGResult */
+  score: number;
+  /** Cosine similarity to the requirement */
+  similarity: number;
+  /** Requirement words the text contains */
+  terms: string[];
+  documentId: string;
+  kind: ExperienceDocument['kind'];
+  title?: string;
+}
+
+export interface RequirementEvidence {
+  requirement: string;
+  /** Key requirement or must-have skill of the job analysis */
+  type: 'requirement' | 'skill';
+  /** Best first; empty when nothing in the user's experience supports it */
+  evidence: Evidence[];
+}
+
 export interface RAGQuery {
   query: string;
   jobId?: string;
   topK?: number;
   threshold?: number;
+  /** ANN search breadth: higher finds more of the true nearest neighbours, more slowly (default 64) */
+  ef?: number;
+  /** Compare against every stored vector instead of using the ANN index */
+  exact?: boolean;
+  /** Weight of the keyword and vector rankings in the fused result (default 1 each, 0 skips) */
+  weights?: {
+    lexical?: number;
+    semantic?: number;
+  };
   filters?: {
     type?: string[];
     company?: string;
@@ -48,9 +130,33 @@ export interface RAGQuery {
 
 export interface RAGResult {
   content: string;
+  /** Fused rank score; 1 means ranked first by every retriever used */
   score: number;
   metadata: VectorEmbedding['metadata'];
   jobDescription?: JobDescription;
+  /** Whether the hit came from keyword matching, embedding similarity or both */
+  matchedBy: 'lexical' | 'semantic' | 'both';
+  /** Rank, BM25 score and the query terms the text contains */
+  lexical?: { rank: number; score: number; terms: string[] };
+  /** Rank and cosine similarity */
+  semantic?: { rank: number; score: number };
+}
+
+/** Rank offset of reciprocal rank fusion; damps the lead of the very first ranks */
+const RRF_K = 60;
+
+/** Leading bullet or list number of a resume line */
+const LIST_MARKER = /^(?:[-*\u2022\u25aa\u25e6]|\d+[.)])\s+/;
+/** Shorter lines are headings, names, dates or contact details, not evidence */
+const MIN_EVIDENCE_WORDS = 4;
+/** Longer lines are split into sentences */
+const MAX_EVIDENCE_CHARS = 300;
+
+interface FusedHit {
+  chunk: StoredChunk;
+  score: number;
+  lexical?: RAGResult['lexical'];
+  semantic?: RAGResult['semantic'];
 }
 
 export interface JobAnalysis {
@@ -68,82 +174,388 @@ export interface JobAnalysis {
   industry: string;
 }
 
+const stringList: JsonSchema = { type: 'array', items: { type: 'string' } };
+
+const JOB_ANALYSIS_SCHEMA: JsonSchema = {
+  type: 'object',
+  properties: {
+    keyRequirements: stringList,
+    mustHaveSkills: stringList,
+    niceToHaveSkills: stringList,
+    responsibilities: stringList,
+    companyCulture: stringList,
+    benefits: stringList,
+    careerLevel: { type: 'string', enum: ['entry', 'mid', 'senior', 'lead', 'executive'] },
+    industry: { type: 'string' },
+  },
+  required: ['keyRequirements', 'mustHaveSkills', 'responsibilities', 'careerLevel'],
+};
+
+type JobAnalysisReply = Partial<Omit<JobAnalysis, 'jobId' | 'compensation'>> & {
+  benefits?: string[];
+};
+
+export interface RAGOptions {
+  /** Defaults to the one named by JOBSPRINT_EMBEDDINGS_PROVIDER */
+  embedder?: Embedder;
+  /** Used while the embedder is unreachable; defaults to the hash embedder */
+  fallbackEmbedder?: Embedder;
+  /** Where jobs and their vectors are kept; defaults to the shared database */
+  store?: VectorStore;
+  /** HNSW graph parameters for new indexes */
+  index?: HnswOptions;
+  /** Graph changes are saved at most once per this many ms; 0 saves after every change */
+  indexSaveDelayMs?: number;
+  /** Where users' experience documents and their vectors are kept; defaults to the shared database */
+  experienceStore?: ExperienceStore;
+}
+
+/**
+ * Requirement-by-requirement evidence, as context for generation prompts
+ */
+export function formatEvidence(mapping: RequirementEvidence[]): string {
+  return mapping
+    .map(({ requirement, evidence }) => {
+      const lines = evidence.length
+        ? evidence.map((e) => `- ${e.content} (match ${e.score.toFixed(2)})`)
+        : ['- No supporting experience found'];
+      return [`${requirement}:`, ...lines].join('\n');
+    })
+    .join('\n\n');
+}
+
+type EmbeddingChunk = Omit<VectorEmbedding, 'vector' | 'model'>;
+
+// Saving serializes the whole graph, so bulk indexing saves it every few seconds, not per job
+const DEFAULT_INDEX_SAVE_DELAY_MS = 5000;
+
 export class RAGSystem {
-  private vectorStore: Map<string, VectorEmbedding[]> = new Map();
-  private jobDescriptions: Map<string, JobDescription> = new Map();
+  private store: VectorStore;
+  private experienceStore: ExperienceStore;
+  private indexOptions: HnswOptions;
+  private indexSaveDelayMs: number;
+  private indexes = new Map<string, Promise<HnswIndex>>();
+  private unsavedIndexes = new Set<string>();
+  private indexSaveTimer: NodeJS.Timeout | null = null;
+  private reembedding: Promise<number> | null = null;
+  private lexical: Promise<Bm25Index> | null = null;
   private llmService: LLMAbstractionLayer;
+  private embedder: Embedder;
+  private fallbackEmbedder: Embedder;
 
-  constructor(llmService: LLMAbstractionLayer) {
+  constructor(llmService: LLMAbstractionLayer, options: RAGOptions = {}) {
     this.llmService = llmService;
+    this.embedder = options.embedder ?? createEmbedderFromEnv(llmService);
+    this.fallbackEmbedder = options.fallbackEmbedder ?? new HashEmbedder();
+    this.store = options.store ?? new SqliteVectorStore();
+    this.experienceStore = options.experienceStore ?? new SqliteExperienceStore();
+    this.indexOptions = options.index ?? {};
+    this.indexSaveDelayMs = options.indexSaveDelayMs ?? DEFAULT_INDEX_SAVE_DELAY_MS;
+  }
+
+  /**
+   * Save the graphs changed since they were last saved. Otherwise they are saved
+   * `indexSaveDelayMs` after a change; a graph that missed changes is reconciled on load.
+   */
+  async flushIndexes(): Promise<void> {
+    if (this.indexSaveTimer) {
+      clearTimeout(this.indexSaveTimer);
+      this.indexSaveTimer = null;
+    }
+
+    for (const model of [...this.unsavedIndexes]) {
+      this.unsavedIndexes.delete(model);
+      const index = await this.indexFor(model);
+      await this.store.saveIndex(model, index.toJSON());
+    }
   }
 
   /**
-   * Add job description to the vector store
+   * Re-embed vectors made by another model (an older model, or the fallback while the embedder
+   * was down) with the current embedder. Returns how many were updated. Searches that find such
+   * vectors start this in the background; a call while it runs waits for that run.
+   */
+  reembedStale(): Promise<number> {
+    if (!this.reembedding) {
+      this.reembedding = this.reembedAll().finally(() => {
+        this.reembedding = null;
+      });
+    }
+    return this.reembedding;
+  }
+
+  private async reembedAll(): Promise<number> {
+    let updated = 0;
+
+    // One job per batch, so a failure part way keeps the jobs already re-embedded
+    const staleByJob = new Map<string, VectorEmbedding[]>();
+    for (const embedding of await this.store.getEmbeddings()) {
+      if (embedding.model === this.embedder.id) continue;
+      const stale = staleByJob.get(embedding.metadata.jobId) ?? [];
+      stale.push(embedding);
+      staleByJob.set(embedding.metadata.jobId, stale);
+    }
+
+    for (const stale of staleByJob.values()) {
+      const vectors = await this.embedder.embed(stale.map((e) => e.content));
+      const refreshed = stale.map((e, i) => ({
+        ...e,
+        vector: vectors[i],
+        model: this.embedder.id,
+      }));
+      await this.store.updateEmbeddings(refreshed);
+      await this.updateIndexes(stale, refreshed);
+      updated += stale.length;
+    }
+
+    return updated;
+  }
+
+  /**
+   * Add job description to the vector store, or update it if already indexed.
+   * Unchanged sections keep their vectors; only new or edited ones are embedded.
    */
   async addJobDescription(jobDesc: JobDescription): Promise<void> {
-    // Store the job description
-    this.jobDescriptions.set(jobDesc.id, jobDesc);
+    const existing = await this.store.getEmbeddings({ jobId: jobDesc.id });
 
     // Generate embeddings for different sections
-    const embeddings = await this.generateEmbeddings(jobDesc);
+    const embeddings = await this.generateEmbeddings(jobDesc, existing);
 
-    // Store in vector store
-    this.vectorStore.set(jobDesc.id, embeddings);
+    await this.store.upsertJob(jobDesc, embeddings);
+
+    const same = (a: VectorEmbedding, b: VectorEmbedding) =>
+      a.id === b.id && a.model === b.model && a.content === b.content;
+    const removed = existing.filter((e) => !embeddings.some((n) => same(e, n)));
+    const added = embeddings.filter((n) => !existing.some((e) => same(e, n)));
+    await this.updateIndexes(removed, added);
+    await this.updateLexicalIndex(removed, added);
   }
 
   /**
-   * Search for relevant job information using semantic similarity
+   * Parse a raw posting into sections and index it. Returns the indexed job description.
    */
-  async search(query: RAGQuery): Promise<RAGResult[]> {
-    const allEmbeddings: VectorEmbedding[] = [];
-
-    // Get embeddings from specified job or all jobs
-    if (query.jobId) {
-      const jobEmbeddings = this.vectorStore.get(query.jobId) || [];
-      allEmbeddings.push(...jobEmbeddings);
-    } else {
-      for (const embeddings of this.vectorStore.values()) {
-        allEmbeddings.push(...embeddings);
-      }
+  async addJobPosting(
+    posting: JobPosting,
+    options: { refine?: boolean; userId?: string } = {}
+  ): Promise<JobDescription> {
+    const parsed = await new JobPostingParser(this.llmService).parse(posting.text, options);
+    const jobDesc = toJobDescription(parsed, posting);
+    await this.addJobDescription(jobDesc);
+    return jobDesc;
+  }
+
+  /**
+   * Remove a job description and its vectors. Returns false if it was not indexed.
+   */
+  async removeJobDescription(jobId: string): Promise<boolean> {
+    const existing = await this.store.getEmbeddings({ jobId });
+    const removed = await this.store.deleteJob(jobId);
+    await this.updateIndexes(existing, []);
+    await this.updateLexicalIndex(existing, []);
+    return removed;
+  }
+
+  async getJobDescription(jobId: string): Promise<JobDescription | null> {
+    return this.store.getJob(jobId);
+  }
+
+  /**
+   * Index one of a user's resumes, bullets, projects or cover letters, or update it if already
+   * indexed. Chunks whose text has not changed keep their vectors.
+   */
+  async addExperience(document: ExperienceDocument): Promise<ExperienceChunk[]> {
+    const existing = await this.experienceStore.getChunks(document.userId, document.id);
+    const reusable = new Map(
+      existing.filter((c) => c.model === this.embedder.id).map((c) => [c.content, c.vector])
+    );
+    const texts = this.chunkExperience(document);
+    const missing = texts.filter((text) => !reusable.has(text));
+
+    const embedded = new Map<string, { vector: number[]; model: string }>();
+    if (missing.length > 0) {
+      const { model, vectors } = await this.embedTexts(missing);
+      missing.forEach((text, i) => embedded.set(text, { vector: vectors[i], model }));
     }
 
-    if (allEmbeddings.length === 0) {
+    const chunks = texts.map((content, chunkIndex) => ({
+      id: `${document.id}-${chunkIndex}`,
+      userId: document.userId,
+      documentId: document.id,
+      chunkIndex,
+      content,
+      ...(embedded.get(content) ?? { vector: reusable.get(content)!, model: this.embedder.id }),
+    }));
+    await this.experienceStore.upsertDocument(document, chunks);
+    return chunks;
+  }
+
+  /**
+   * Remove an experience document and its chunks. Returns false if it was not indexed.
+   */
+  async removeExperience(userId: string, documentId: string): Promise<boolean> {
+    return this.experienceStore.deleteDocument(userId, documentId);
+  }
+
+  async listExperience(userId: string): Promise<ExperienceDocument[]> {
+    return this.experienceStore.listDocuments(userId);
+  }
+
+  /**
+   * The user's best evidence for each key requirement and must-have skill of an analyzed job
+   */
+  async mapRequirementsToEvidence(
+    userId: string,
+    analysis: JobAnalysis,
+    options: EvidenceOptions = {}
+  ): Promise<RequirementEvidence[]> {
+    const seen = new Set<string>();
+    const requirements = [
+      ...analysis.keyRequirements.map((text) => ({ text, type: 'requirement' as const })),
+      ...analysis.mustHaveSkills.map((text) => ({ text, type: 'skill' as const })),
+    ].filter(({ text }) => {
+      const key = text.trim().toLowerCase();
+      if (!key || seen.has(key)) return false;
+      seen.add(key);
+      return true;
+    });
+
+    const evidence = await this.findEvidence(
+      userId,
+      requirements.map((r) => r.text),
+      options
+    );
+    return requirements.map((r, i) => ({
+      requirement: r.text,
+      type: r.type,
+      evidence: evidence[i],
+    }));
+  }
+
+  /**
+   * For each text, the chunks of the user's experience that support it best. Keyword and
+   * embedding rankings are fused as in search.
+   */
+  async findEvidence(
+    userId: string,
+    texts: string[],
+    options: EvidenceOptions = {}
+  ): Promise<Evidence[][]> {
+    const stored = await this.experienceStore.getChunks(userId);
+    if (texts.length === 0 || stored.length === 0) return texts.map(() => []);
+
+    const topK = options.topK ?? 3;
+    const threshold = options.threshold ?? 0.3;
+    const depth = topK * 2;
+
+    const { model, vectors } = await this.embedTexts(texts);
+    const chunks = await this.experienceInModel(stored, model);
+    const documents = new Map(
+      (await this.experienceStore.listDocuments(userId)).map((d) => [d.id, d])
+    );
+    // A user's experience is small enough to index per call
+    const keywords = new Bm25Index();
+    chunks.forEach((chunk) => keywords.add(chunk.id, chunk.content));
+    const byId = new Map(chunks.map((chunk) => [chunk.id, chunk]));
+
+    return texts.map((text, t) => {
+      const similarity = new Map(
+        chunks
+          .filter((chunk) => chunk.model === model)
+          .map((chunk) => [chunk.id, this.cosineSimilarity(vectors[t], chunk.vector)])
+      );
+      const fused = new Map<string, { score: number; terms: string[] }>();
+      const add = (id: string, rank: number, terms?: string[]) => {
+        const entry = fused.get(id) ?? { score: 0, terms: [] };
+        entry.score += 1 / (RRF_K + rank);
+        if (terms) entry.terms = terms;
+        fused.set(id, entry);
+      };
+
+      [...similarity]
+        .filter(([, score]) => score >= threshold)
+        .sort((a, b) => b[1] - a[1])
+        .slice(0, depth)
+        .forEach(([id], i) => add(id, i + 1));
+      keywords.search(text, depth).forEach((match, i) => add(match.id, i + 1, match.terms));
+
+      return [...fused]
+        .sort((a, b) => b[1].score - a[1].score)
+        .slice(0, topK)
+        .map(([id, { score, terms }]) => {
+          const chunk = byId.get(id)!;
+          const document = documents.get(chunk.documentId);
+          return {
+            content: chunk.content,
+            score: (score * (RRF_K + 1)) / 2,
+            similarity: similarity.get(id) ?? 0,
+            terms,
+            documentId: chunk.documentId,
+            kind: document?.kind ?? 'resume',
+            ...(document?.title !== undefined && { title: document.title }),
+          };
+        });
+    });
+  }
+
+  /**
+   * Search for relevant job information using semantic similarity
+   */
+  async search(query: RAGQuery): Promise<RAGResult[]> {
+    const counts = await this.store.countEmbeddings();
+    if (Object.keys(counts).length === 0) {
       return [];
     }
 
-    // Generate query embedding
-    const queryEmbedding = await this.generateQueryEmbedding(query.query);
+    const topK = query.topK ?? 5;
+    const weights = { lexical: 1, semantic: 1, ...query.weights };
+    // Each retriever ranks more than topK so fusion can promote hits both agree on
+    const depth = topK * 2;
 
-    // Calculate similarities
-    const similarities = allEmbeddings.map((embedding) => ({
-      embedding,
-      score: this.cosineSimilarity(queryEmbedding, embedding.vector),
-    }));
+    const fused = new Map<string, FusedHit>();
+    const hit = (chunk: StoredChunk) => {
+      const existing = fused.get(chunk.id) ?? { chunk, score: 0 };
+      fused.set(chunk.id, existing);
+      return existing;
+    };
 
-    // Filter and sort results
-    let results = similarities
-      .filter((item) => item.score >= (query.threshold || 0.7))
-      .sort((a, b) => b.score - a.score)
-      .slice(0, query.topK || 5);
+    if (weights.semantic > 0) {
+      (await this.semanticSearch(query, counts, depth)).forEach(({ chunk, score }, i) => {
+        const entry = hit(chunk);
+        entry.semantic = { rank: i + 1, score };
+        entry.score += weights.semantic / (RRF_K + i + 1);
+      });
+    }
+    if (weights.lexical > 0) {
+      (await this.lexicalSearch(query, depth)).forEach(({ chunk, score, terms }, i) => {
+        const entry = hit(chunk);
+        entry.lexical = { rank: i + 1, score, terms };
+        entry.score += weights.lexical / (RRF_K + i + 1);
+      });
+    }
+
+    const best = (Math.max(weights.semantic, 0) + Math.max(weights.lexical, 0)) / (RRF_K + 1);
+    let results = [...fused.values()].sort((a, b) => b.score - a.score).slice(0, topK);
+
+    const jobs = await this.loadJobs(results.map((item) => item.chunk.metadata.jobId));
 
     // Apply filters
     if (query.filters) {
       results = results.filter((item) => {
-        const metadata = item.embedding.metadata;
+        const metadata = item.chunk.metadata;
 
         if (query.filters!.type && !query.filters!.type.includes(metadata.type)) {
           return false;
         }
 
         if (query.filters!.company) {
-          const job = this.jobDescriptions.get(metadata.jobId);
+          const job = jobs.get(metadata.jobId);
           if (!job || job.company !== query.filters!.company) {
             return false;
           }
         }
 
         if (query.filters!.location) {
-          const job = this.jobDescriptions.get(metadata.jobId);
+          const job = jobs.get(metadata.jobId);
           if (!job || job.metadata.location !== query.filters!.location) {
             return false;
           }
@@ -155,31 +567,112 @@ export class RAGSystem {
 
     // Format results
     return results.map((item) => ({
-      content: item.embedding.content,
-      score: item.score,
-      metadata: item.embedding.metadata,
-      jobDescription: this.jobDescriptions.get(item.embedding.metadata.jobId),
+      content: item.chunk.content,
+      score: item.score / best,
+      metadata: item.chunk.metadata,
+      jobDescription: jobs.get(item.chunk.metadata.jobId),
+      matchedBy: item.lexical ? (item.semantic ? 'both' : 'lexical') : 'semantic',
+      lexical: item.lexical,
+      semantic: item.semantic,
     }));
   }
 
+  /**
+   * Chunks ranked by cosine similarity to the query, above the threshold. Vectors the fallback
+   * made are compared with a fallback embedding of the query until they are re-embedded.
+   */
+  private async semanticSearch(
+    query: RAGQuery,
+    counts: Record<string, number>,
+    depth: number
+  ): Promise<Array<{ chunk: VectorEmbedding; score: number }>> {
+    const queryEmbedding = await this.embedTexts([query.query]);
+    const queryVectors = new Map([[queryEmbedding.model, queryEmbedding.vectors[0]]]);
+    if (counts[this.fallbackEmbedder.id] && !queryVectors.has(this.fallbackEmbedder.id)) {
+      queryVectors.set(
+        this.fallbackEmbedder.id,
+        (await this.fallbackEmbedder.embed([query.query]))[0]
+      );
+    }
+
+    const scored = new Map<string, { chunk: VectorEmbedding; score: number }>();
+    for (const [model, queryVector] of queryVectors) {
+      if (!counts[model]) continue;
+
+      // One job is small enough to scan; across jobs the ANN index picks the candidates
+      let candidates: VectorEmbedding[];
+      if (query.jobId || query.exact) {
+        candidates = await this.store.getEmbeddings({ jobId: query.jobId, model });
+      } else {
+        const index = await this.indexFor(model);
+        const matches = index.search(queryVector, depth, query.ef);
+        candidates = await this.store.getEmbeddings({ ids: matches.map((match) => match.id) });
+      }
+
+      for (const chunk of candidates) {
+        // Re-embedding may have moved a chunk to another model since the index was searched
+        if (chunk.model !== model) continue;
+        const score = this.cosineSimilarity(queryVector, chunk.vector);
+        if (score > (scored.get(chunk.id)?.score ?? -Infinity))
+          scored.set(chunk.id, { chunk, score });
+      }
+    }
+
+    // Vectors from another model are re-embedded off the query path once the embedder is back
+    if (
+      queryEmbedding.model === this.embedder.id &&
+      Object.keys(counts).some((model) => model !== this.embedder.id)
+    ) {
+      this.reembedStale().catch((error) =>
+        console.warn(`Re-embedding stale vectors failed: ${(error as Error).message}`)
+      );
+    }
+
+    return [...scored.values()]
+      .filter((item) => item.score >= (query.threshold ?? 0.7))
+      .sort((a, b) => b.score - a.score)
+      .slice(0, depth);
+  }
+
+  /**
+   * Chunks ranked by BM25 keyword score
+   */
+  private async lexicalSearch(
+    query: RAGQuery,
+    depth: number
+  ): Promise<Array<{ chunk: StoredChunk; score: number; terms: string[] }>> {
+    const index = await this.lexicalIndex();
+    const scope = query.jobId
+      ? new Set((await this.store.getChunks({ jobId: query.jobId })).map((chunk) => chunk.id))
+      : undefined;
+    const matches = index.search(query.query, depth, scope);
+
+    const chunks = new Map(
+      (await this.store.getChunks({ ids: matches.map((match) => match.id) })).map((chunk) => [
+        chunk.id,
+        chunk,
+      ])
+    );
+    return matches
+      .filter((match) => chunks.has(match.id))
+      .map((match) => ({ chunk: chunks.get(match.id)!, score: match.score, terms: match.terms }));
+  }
+
   /**
    * Analyze job description and extract structured information
    */
   async analyzeJobDescription(jobDesc: JobDescription): Promise<JobAnalysis> {
-    const analysisPrompt: StructuredPrompt = {
+    const analysisPrompt: StructuredPrompt & { outputFormat: 'json' } = {
       systemPrompt: `You are an expert HR analyst and job market specialist. Analyze job descriptions to extract key information for resume tailoring and application strategies.
 
 Your task is to analyze a job description and extract structured information that will help candidates create better applications.`,
-      userPrompt: `Please analyze this job description and extract the following information:
+      userPrompt: `Please analyze the job description above and extract the following information:
 
 JOB TITLE: ${jobDesc.title}
 COMPANY: ${jobDesc.company}
 LOCATION: ${jobDesc.metadata.location || 'Not specified'}
 SALARY: ${jobDesc.metadata.salary || 'Not specified'}
 
-JOB DESCRIPTION:
-${jobDesc.content}
-
 Please provide a structured analysis including:
 1. Key requirements (must-have qualifications)
 2. Must-have skills (technical and soft skills required)
@@ -197,10 +690,17 @@ Please provide a structured analysis including:
         'Classify career level based on experience requirements and title',
       ],
       outputFormat: 'json',
+      schema: JOB_ANALYSIS_SCHEMA,
+      context: [{ name: 'Job description', content: jobDesc.content }],
     };
 
-    const response = await this.llmService.generateStructured(analysisPrompt);
-    const analysis = JSON.parse(response.content);
+    const { result } = await this.llmService.generateStructured<JobAnalysisReply>(analysisPrompt);
+    if (!result.ok) {
+      throw new Error(
+        `Job description analysis returned invalid output: ${result.errors.join('; ')}`
+      );
+    }
+    const analysis = result.data;
 
     return {
       jobId: jobDesc.id,
@@ -226,14 +726,17 @@ Please provide a structured analysis including:
     userProfile: any,
     contentType: 'resume' | 'cover-letter' | 'linkedin-summary'
   ): Promise<LLMResponse> {
+    const job = await this.store.getJob(jobId);
+    if (!job) throw new Error(`Job ${jobId} not found`);
+
     // Retrieve relevant job information
     const jobResults = await this.search({
-      query: `Generate ${contentType} for ${this.jobDescriptions.get(jobId)?.title} position`,
+      query: `Generate ${contentType} for ${job.title} position`,
       jobId,
       topK: 10,
     });
 
-    const jobAnalysis = await this.analyzeJobDescription(this.jobDescriptions.get(jobId)!);
+    const jobAnalysis = await this.analyzeJobDescription(job);
 
     // Build context from retrieved information
     const context = this.buildContextForGeneration(jobResults, jobAnalysis, userProfile);
@@ -248,7 +751,7 @@ Please provide a structured analysis including:
    * Find similar jobs based on requirements and skills
    */
   async findSimilarJobs(jobId: string, limit: number = 5): Promise<JobDescription[]> {
-    const targetJob = this.jobDescriptions.get(jobId);
+    const targetJob = await this.store.getJob(jobId);
     if (!targetJob) {
       return [];
     }
@@ -259,103 +762,348 @@ Please provide a structured analysis including:
       topK: limit * 2, // Get more results to filter
     });
 
-    // Extract unique job IDs and return job descriptions
-    const jobIds = [...new Set(similarResults.map((r) => r.metadata.jobId))]
-      .filter((id) => id !== jobId)
-      .slice(0, limit);
+    // Extract unique jobs, in order of their best match
+    const similarJobs = new Map<string, JobDescription>();
+    for (const result of similarResults) {
+      if (result.metadata.jobId !== jobId && result.jobDescription) {
+        similarJobs.set(result.metadata.jobId, result.jobDescription);
+      }
+    }
 
-    return jobIds.map((id) => this.jobDescriptions.get(id)!).filter(Boolean);
+    return [...similarJobs.values()].slice(0, limit);
   }
 
-  // Private helper methods
+  /**
+   * Tools for LLMAbstractionLayer.generateWithTools: search indexed jobs, fetch one, score a
+   * candidate's skills against it, and find the requesting user's evidence for requirements
+   */
+  getTools(): LLMTool[] {
+    const searchJobs: LLMTool<{ query: string; jobId?: string; topK?: number }> = {
+      name: 'search_jobs',
+      description:
+        'Semantic search over indexed job descriptions. Returns matching requirements, skills and responsibilities with their job.',
+      parameters: {
+        type: 'object',
+        properties: {
+          query: { type: 'string', minLength: 1 },
+          jobId: { type: 'string', description: 'Only search this job' },
+          topK: { type: 'integer', minimum: 1, maximum: 20 },
+        },
+        required: ['query'],
+        additionalProperties: false,
+      },
+      handler: async ({ query, jobId, topK }) => {
+        const results = await this.search({ query, jobId, topK, threshold: 0 });
+        return results.map((r) => ({
+          jobId: r.metadata.jobId,
+          title: r.jobDescription?.title,
+          company: r.jobDescription?.company,
+          type: r.metadata.type,
+          content: r.content,
+          score: Math.round(r.score * 1000) / 1000,
+          matchedBy: r.matchedBy,
+        }));
+      },
+    };
 
-  private async generateEmbeddings(jobDesc: JobDescription): Promise<VectorEmbedding[]> {
-    const embeddings: VectorEmbedding[] = [];
-    let chunkIndex = 0;
+    const getJob: LLMTool<{ jobId: string }> = {
+      name: 'get_job',
+      description: 'Fetch an indexed job description by id.',
+      parameters: {
+        type: 'object',
+        properties: { jobId: { type: 'string' } },
+        required: ['jobId'],
+        additionalProperties: false,
+      },
+      handler: async ({ jobId }) => {
+        const job = await this.store.getJob(jobId);
+        if (!job) throw new Error(`Job ${jobId} not found`);
+        return {
+          id: job.id,
+          title: job.title,
+          company: job.company,
+          location: job.metadata.location,
+          salary: job.metadata.salary,
+          requirements: job.requirements,
+          responsibilities: job.responsibilities,
+          skills: job.skills,
+        };
+      },
+    };
 
-    // Embed job title and company
-    const titleEmbedding = await this.generateQueryEmbedding(
-      `${jobDesc.title} at ${jobDesc.company}`
-    );
-    embeddings.push({
-      id: `${jobDesc.id}-title-${chunkIndex}`,
-      vector: titleEmbedding,
-      content: `${jobDesc.title} at ${jobDesc.company}`,
-      metadata: {
-        type: 'company',
-        jobId: jobDesc.id,
-        chunkIndex: chunkIndex++,
+    const matchScore: LLMTool<{ jobId: string; skills: string[] }> = {
+      name: 'job_match_score',
+      description:
+        "Score 0-100 for how many of a job's skills the candidate has, with the matched and missing skills.",
+      parameters: {
+        type: 'object',
+        properties: {
+          jobId: { type: 'string' },
+          skills: { type: 'array', items: { type: 'string' } },
+        },
+        required: ['jobId', 'skills'],
+        additionalProperties: false,
       },
-    });
+      handler: async ({ jobId, skills }) => {
+        const job = await this.store.getJob(jobId);
+        if (!job) throw new Error(`Job ${jobId} not found`);
+        const candidate = new Set(skills.map((skill) => skill.trim().toLowerCase()));
+        const matched = job.skills.filter((skill) => candidate.has(skill.toLowerCase()));
+        return {
+          score: job.skills.length ? Math.round((matched.length / job.skills.length) * 100) : 0,
+          matched,
+          missing: job.skills.filter((skill) => !matched.includes(skill)),
+        };
+      },
+    };
 
-    // Embed requirements
-    for (const req of jobDesc.requirements) {
-      const embedding = await this.generateQueryEmbedding(req);
-      embeddings.push({
-        id: `${jobDesc.id}-req-${chunkIndex}`,
-        vector: embedding,
-        content: req,
-        metadata: {
-          type: 'requirement',
-          jobId: jobDesc.id,
-          chunkIndex: chunkIndex++,
+    const findEvidence: LLMTool<{ requirements: string[]; topK?: number }> = {
+      name: 'find_evidence',
+      description:
+        "Passages from the user's own resumes, bullets, projects and cover letters that back up each requirement. Empty evidence means nothing supports it.",
+      parameters: {
+        type: 'object',
+        properties: {
+          requirements: { type: 'array', items: { type: 'string', minLength: 1 }, minItems: 1 },
+          topK: { type: 'integer', minimum: 1, maximum: 10 },
         },
+        required: ['requirements'],
+        additionalProperties: false,
+      },
+      // The user comes from the request, never from the model
+      handler: async ({ requirements, topK }, { userId }) => {
+        if (!userId) throw new Error('find_evidence needs a request with a userId');
+        const evidence = await this.findEvidence(userId, requirements, { topK });
+        return requirements.map((requirement, i) => ({
+          requirement,
+          evidence: evidence[i].map((e) => ({
+            content: e.content,
+            kind: e.kind,
+            title: e.title,
+            score: Math.round(e.score * 1000) / 1000,
+          })),
+        }));
+      },
+    };
+
+    return [searchJobs, getJob, matchScore, findEvidence];
+  }
+
+  // Private helper methods
+
+  private async generateEmbeddings(
+    jobDesc: JobDescription,
+    existing: VectorEmbedding[] = []
+  ): Promise<VectorEmbedding[]> {
+    const chunks: EmbeddingChunk[] = [];
+    let chunkIndex = 0;
+    const addChunk = (
+      prefix: string,
+      type: VectorEmbedding['metadata']['type'],
+      content: string
+    ) => {
+      chunks.push({
+        id: `${jobDesc.id}-${prefix}-${chunkIndex}`,
+        content,
+        metadata: { type, jobId: jobDesc.id, chunkIndex: chunkIndex++ },
       });
+    };
+
+    // Job title and company, then requirements, skills and responsibilities
+    addChunk('title', 'company', `${jobDesc.title} at ${jobDesc.company}`);
+    jobDesc.requirements.forEach((req) => addChunk('req', 'requirement', req));
+    jobDesc.skills.forEach((skill) => addChunk('skill', 'skill', skill));
+    jobDesc.responsibilities.forEach((resp) => addChunk('resp', 'responsibility', resp));
+    jobDesc.niceToHave?.forEach((req) => addChunk('nice', 'requirement', req));
+    jobDesc.benefits?.forEach((benefit) => addChunk('benefit', 'benefit', benefit));
+
+    // Reuse current-model vectors of sections whose text has not changed
+    const key = (chunk: EmbeddingChunk) => `${chunk.metadata.type}:${chunk.content}`;
+    const reusable = new Map(
+      existing.filter((e) => e.model === this.embedder.id).map((e) => [key(e), e.vector])
+    );
+    const missing = chunks.filter((chunk) => !reusable.has(key(chunk)));
+
+    const embedded = new Map<string, { vector: number[]; model: string }>();
+    if (missing.length > 0) {
+      const { model, vectors } = await this.embedTexts(missing.map((chunk) => chunk.content));
+      missing.forEach((chunk, i) => embedded.set(chunk.id, { vector: vectors[i], model }));
     }
 
-    // Embed skills
-    for (const skill of jobDesc.skills) {
-      const embedding = await this.generateQueryEmbedding(skill);
-      embeddings.push({
-        id: `${jobDesc.id}-skill-${chunkIndex}`,
-        vector: embedding,
-        content: skill,
-        metadata: {
-          type: 'skill',
-          jobId: jobDesc.id,
-          chunkIndex: chunkIndex++,
-        },
-      });
+    return chunks.map((chunk) => ({
+      ...chunk,
+      ...(embedded.get(chunk.id) ?? { vector: reusable.get(key(chunk))!, model: this.embedder.id }),
+    }));
+  }
+
+  /**
+   * The ANN index of one embedding model, loaded on first use
+   */
+  private indexFor(model: string): Promise<HnswIndex> {
+    let index = this.indexes.get(model);
+    if (!index) {
+      index = this.loadIndex(model);
+      index.catch(() => this.indexes.delete(model));
+      this.indexes.set(model, index);
     }
+    return index;
+  }
 
-    // Embed responsibilities
-    for (const resp of jobDesc.responsibilities) {
-      const embedding = await this.generateQueryEmbedding(resp);
-      embeddings.push({
-        id: `${jobDesc.id}-resp-${chunkIndex}`,
-        vector: embedding,
-        content: resp,
-        metadata: {
-          type: 'responsibility',
-          jobId: jobDesc.id,
-          chunkIndex: chunkIndex++,
-        },
+  /**
+   * Restore the saved graph and reconcile it with the stored vectors (a crash between a vector
+   * write and the graph save leaves them apart), or build the graph from scratch
+   */
+  private async loadIndex(model: string): Promise<HnswIndex> {
+    const embeddings = await this.store.getEmbeddings({ model });
+    const graph = await this.store.getIndex(model);
+    const index = graph
+      ? HnswIndex.fromJSON(
+          graph,
+          new Map(embeddings.map((e) => [e.id, e.vector])),
+          this.indexOptions
+        )
+      : new HnswIndex(this.indexOptions);
+
+    let changed = graph !== null && graph.nodes.length !== index.size;
+    for (const embedding of embeddings) {
+      if (index.has(embedding.id)) continue;
+      index.add(embedding.id, embedding.vector);
+      changed = true;
+    }
+
+    if (changed) await this.store.saveIndex(model, index.toJSON());
+    return index;
+  }
+
+  /**
+   * Apply vector changes to the ANN indexes and schedule their save. Indexes that are not
+   * loaded yet pick up removals when they are reconciled on load.
+   */
+  private async updateIndexes(removed: VectorEmbedding[], added: VectorEmbedding[]): Promise<void> {
+    const models = new Set(added.map((e) => e.model));
+    for (const embedding of removed) {
+      if (this.indexes.has(embedding.model)) models.add(embedding.model);
+    }
+
+    for (const model of models) {
+      const index = await this.indexFor(model);
+      removed.filter((e) => e.model === model).forEach((e) => index.remove(e.id));
+      added.filter((e) => e.model === model).forEach((e) => index.add(e.id, e.vector));
+      this.unsavedIndexes.add(model);
+    }
+
+    if (models.size > 0) await this.scheduleIndexSave();
+  }
+
+  private async scheduleIndexSave(): Promise<void> {
+    if (this.indexSaveDelayMs <= 0) return this.flushIndexes();
+    if (this.indexSaveTimer) return;
+
+    this.indexSaveTimer = setTimeout(() => {
+      this.flushIndexes().catch((error) =>
+        console.warn(`Saving ANN indexes failed: ${(error as Error).message}`)
+      );
+    }, this.indexSaveDelayMs);
+    this.indexSaveTimer.unref();
+  }
+
+  /**
+   * The keyword index over every stored chunk, built on first use
+   */
+  private lexicalIndex(): Promise<Bm25Index> {
+    if (!this.lexical) {
+      const building = this.store.getChunks().then((chunks) => {
+        const index = new Bm25Index();
+        chunks.forEach((chunk) => index.add(chunk.id, chunk.content));
+        return index;
       });
+      building.catch(() => (this.lexical = null));
+      this.lexical = building;
     }
+    return this.lexical;
+  }
 
-    return embeddings;
+  private async updateLexicalIndex(removed: StoredChunk[], added: StoredChunk[]): Promise<void> {
+    if (!this.lexical) return;
+    const index = await this.lexical;
+    removed.forEach((chunk) => index.remove(chunk.id));
+    added.forEach((chunk) => index.add(chunk.id, chunk.content));
   }
 
-  private async generateQueryEmbedding(text: string): Promise<number[]> {
-    // Use a simple embedding approach - in production, use actual embedding models
-    // For now, create a basic hash-based embedding
-    const words = text.toLowerCase().split(/\s+/);
-    const embedding: number[] = new Array(384).fill(0); // 384 dimensions
+  /**
+   * Evidence-sized pieces of an experience document: one per line or bullet, with cover letter
+   * paragraphs and long lines split into sentences. Headings, names and dates are left out.
+   */
+  private chunkExperience(document: ExperienceDocument): string[] {
+    if (document.kind === 'bullet') {
+      const bullet = document.content.replace(LIST_MARKER, '').trim();
+      return bullet ? [bullet] : [];
+    }
 
-    words.forEach((word, index) => {
-      const hash = this.simpleHash(word);
-      const position = ((hash % 384) + 384) % 384;
-      embedding[position] += 1;
+    const pieces = document.content
+      .split(/\n+/)
+      .map((line) => line.trim().replace(LIST_MARKER, ''))
+      .flatMap((line) =>
+        document.kind === 'cover-letter' || line.length > MAX_EVIDENCE_CHARS
+          ? line.split(/(?<=[.!?])\s+(?=[A-Z0-9])/)
+          : [line]
+      )
+      .map((piece) => piece.trim())
+      .filter((piece) => piece.split(/\s+/).length >= MIN_EVIDENCE_WORDS);
+    return [...new Set(pieces)];
+  }
 
-      // Add some positional encoding
-      const posHash = this.simpleHash(word + index);
-      const posPosition = ((posHash % 384) + 384) % 384;
-      embedding[posPosition] += 0.5;
-    });
+  /**
+   * Experience chunks with vectors in the given model's space. Chunks embedded by another model
+   * are re-embedded, and saved when the model is the current embedder.
+   */
+  private async experienceInModel(
+    chunks: ExperienceChunk[],
+    model: string
+  ): Promise<ExperienceChunk[]> {
+    const stale = chunks.filter((chunk) => chunk.model !== model);
+    if (stale.length === 0) return chunks;
+
+    const embedder = model === this.embedder.id ? this.embedder : this.fallbackEmbedder;
+    let vectors: number[][];
+    try {
+      vectors = await embedder.embed(stale.map((chunk) => chunk.content));
+    } catch (error) {
+      console.warn(`Re-embedding experience failed: ${(error as Error).message}`);
+      return chunks;
+    }
 
-    // Normalize the embedding
-    const magnitude = Math.sqrt(embedding.reduce((sum, val) => sum + val * val, 0));
-    return embedding.map((val) => val / magnitude);
+    const refreshed = stale.map((chunk, i) => ({ ...chunk, vector: vectors[i], model }));
+    if (model === this.embedder.id) await this.experienceStore.updateChunks(refreshed);
+    const byId = new Map(refreshed.map((chunk) => [chunk.id, chunk]));
+    return chunks.map((chunk) => byId.get(chunk.id) ?? chunk);
+  }
+
+  private async loadJobs(jobIds: string[]): Promise<Map<string, JobDescription>> {
+    const jobs = new Map<string, JobDescription>();
+    for (const jobId of new Set(jobIds)) {
+      const job = await this.store.getJob(jobId);
+      if (job) jobs.set(jobId, job);
+    }
+    return jobs;
+  }
+
+  /**
+   * Embed with the configured embedder, or the fallback when it fails
+   */
+  private async embedTexts(texts: string[]): Promise<{ model: string; vectors: number[][] }> {
+    try {
+      return { model: this.embedder.id, vectors: await this.embedder.embed(texts) };
+    } catch (error) {
+      if (this.embedder === this.fallbackEmbedder) throw error;
+      console.warn(
+        `Embedding with ${this.embedder.id} failed, using ${this.fallbackEmbedder.id}: ${(error as Error).message}`
+      );
+      return {
+        model: this.fallbackEmbedder.id,
+        vectors: await this.fallbackEmbedder.embed(texts),
+      };
+    }
   }
 
   private cosineSimilarity(vecA: number[], vecB: number[]): number {
@@ -380,16 +1128,6 @@ Please provide a structured analysis including:
     return dotProduct / (Math.sqrt(normA) * Math.sqrt(normB));
   }
 
-  private simpleHash(str: string): number {
-    let hash = 0;
-    for (let i = 0; i < str.length; i++) {
-      const char = str.charCodeAt(i);
-      hash = (hash << 5) - hash + char;
-      hash = hash & hash; // Convert to 32-bit integer
-    }
-    return hash;
-  }
-
   private buildContextForGeneration(
     results: RAGResult[],
     analysis: JobAnalysis,
@@ -546,6 +1284,8 @@ Please write a LinkedIn summary that:
       userPrompt: promptConfig.userPrompt,
       constraints: promptConfig.constraints,
       outputFormat: 'markdown',
+      // 'resume' and 'cover_letter' have their own fallback chains
+      taskType: contentType.replace('-', '_'),
     };
   }
 }
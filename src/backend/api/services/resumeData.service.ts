@@ -0,0 +1,163 @@
+/**
+ * Resume Data
+ * The structured resume the backend exports, imports and versions, in the same shape as the
+ * frontend's ResumeData, with contact details for the document header
+ */
+
+import type { JsonSchema } from './structuredOutput.service';
+
+export interface ResumeContact {
+  name: string;
+  email?: string;
+  phone?: string;
+  location?: string;
+  /** LinkedIn, portfolio, GitHub... */
+  links?: string[];
+}
+
+export interface ResumeData {
+  contact?: ResumeContact;
+  summary: string;
+  skills: string[];
+  experience: ExperienceItem[];
+  education: EducationItem[];
+  certifications?: string[];
+  projects?: ProjectItem[];
+}
+
+export interface ExperienceItem {
+  title: string;
+  company: string;
+  /** As written, e.g. "Jan 2021 - Present" */
+  duration: string;
+  achievements: string[];
+  technologies?: string[];
+}
+
+export interface EducationItem {
+  degree: string;
+  school: string;
+  year: string;
+  gpa?: string;
+}
+
+export interface ProjectItem {
+  name: string;
+  description: string;
+  technologies: string[];
+  url?: string;
+}
+
+const STRINGS: JsonSchema = { type: 'array', items: { type: 'string' } };
+
+/** ResumeData as a JSON Schema, to check resumes that arrive over the API */
+export const RESUME_DATA_SCHEMA: JsonSchema = {
+  type: 'object',
+  required: ['summary', 'skills', 'experience', 'education'],
+  properties: {
+    contact: {
+      type: 'object',
+      required: ['name'],
+      properties: {
+        name: { type: 'string' },
+        email: { type: 'string' },
+        phone: { type: 'string' },
+        location: { type: 'string' },
+        links: STRINGS,
+      },
+    },
+    summary: { type: 'string' },
+    skills: STRINGS,
+    experience: {
+      type: 'array',
+      items: {
+        type: 'object',
+        required: ['title', 'company', 'duration', 'achievements'],
+        properties: {
+          title: { type: 'string' },
+          company: { type: 'string' },
+          duration: { type: 'string' },
+          achievements: STRINGS,
+          technologies: STRINGS,
+        },
+      },
+    },
+    education: {
+      type: 'array',
+      items: {
+        type: 'object',
+        required: ['degree', 'school', 'year'],
+        properties: {
+          degree: { type: 'string' },
+          school: { type: 'string' },
+          year: { type: 'string' },
+          gpa: { type: 'string' },
+        },
+      },
+    },
+    certifications: STRINGS,
+    projects: {
+      type: 'array',
+      items: {
+        type: 'object',
+        required: ['name', 'description', 'technologies'],
+        properties: {
+          name: { type: 'string' },
+          description: { type: 'string' },
+          technologies: STRINGS,
+          url: { type: 'string' },
+        },
+      },
+    },
+  },
+};
+
+/**
+ * Plain text with "SECTION:" headings and "- " bullets, the layout the PDF formatter reads
+ */
+export function resumeToText(resume: ResumeData): string {
+  const blocks: string[] = [];
+  const { contact } = resume;
+
+  if (contact) {
+    const details = [contact.email, contact.phone, contact.location, ...(contact.links ?? [])];
+    blocks.push([contact.name, details.filter(Boolean).join(' | ')].filter(Boolean).join('\n'));
+  }
+  if (resume.summary) blocks.push(`SUMMARY:\n${resume.summary}`);
+  if (resume.experience.length > 0) {
+    const jobs = resume.experience.map((job) =>
+      [
+        `${job.title}, ${job.company} (${job.duration})`,
+        ...job.achievements.map((a) => `- ${a}`),
+        ...(job.technologies?.length ? [`Technologies: ${job.technologies.join(', ')}`] : []),
+      ].join('\n')
+    );
+    blocks.push(`EXPERIENCE:\n${jobs.join('\n\n')}`);
+  }
+  if (resume.education.length > 0) {
+    const schools = resume.education.map(
+      (school) =>
+        `${school.degree}, ${school.school} (${school.year})${school.gpa ? `, GPA ${school.gpa}` : ''}`
+    );
+    blocks.push(`EDUCATION:\n${schools.join('\n')}`);
+  }
+  if (resume.skills.length > 0) blocks.push(`SKILLS:\n${resume.skills.join(', ')}`);
+  if (resume.projects?.length) {
+    const projects = resume.projects.map((project) =>
+      [
+        project.name,
+        project.description,
+        ...(project.technologies.length
+          ? [`Technologies: ${project.technologies.join(', ')}`]
+          : []),
+        ...(project.url ? [project.url] : []),
+      ].join('\n')
+    );
+    blocks.push(`PROJECTS:\n${projects.join('\n\n')}`);
+  }
+  if (resume.certifications?.length) {
+    blocks.push(`CERTIFICATIONS:\n${resume.certifications.map((c) => `- ${c}`).join('\n')}`);
+  }
+
+  return blocks.join('\n\n');
+}
@@ -0,0 +1,747 @@
+/**
+ * Resume Parser
+ * Turns an uploaded resume (PDF, DOCX or plain text) into ResumeData: contact details, summary,
+ * experience (title, company, dates, bullets), education, skills, projects and certifications
+ * Headings and line patterns do the work; every field filled carries a confidence from 0 to 1
+ */
+
+import { extractPdfText } from './pdfText.service';
+import {
+  EducationItem,
+  ExperienceItem,
+  ProjectItem,
+  ResumeContact,
+  ResumeData,
+} from './resumeData.service';
+import { readZip } from './zip.service';
+
+export type ResumeFileFormat = 'pdf' | 'docx' | 'text';
+
+export type ResumeSectionKind =
+  'summary' | 'experience' | 'education' | 'skills' | 'projects' | 'certifications' | 'other';
+
+export interface ResumeSection {
+  kind: ResumeSectionKind | 'header';
+  /** Heading as written; absent for the header above the first heading */
+  heading?: string;
+  /** Lines as extracted; "" marks a paragraph break */
+  lines: string[];
+}
+
+export interface ParsedResume {
+  resume: ResumeData;
+  /**
+   * How likely each field is right, from 0 to 1, by path: "$.contact.email",
+   * "$.experience[0].title", "$.skills". 0 marks a required field that was not found.
+   */
+  confidence: Record<string, number>;
+  /** The extracted text the fields were read from */
+  text: string;
+  format: ResumeFileFormat;
+}
+
+/** Section headings, matched against the whole heading line */
+const HEADINGS: Array<[ResumeSectionKind, RegExp]> = [
+  [
+    'summary',
+    /^((professional|career|personal|executive) )?(summary|profile|objective|overview)$|^about( me)?$/i,
+  ],
+  [
+    'experience',
+    /^((professional|work|relevant|employment|career) )?(experience|history)$|^employment( history)?$|^(work|career) history$/i,
+  ],
+  ['education', /^(education|academic (background|history)|education (and|&) training)$/i],
+  [
+    'skills',
+    /^((technical|core|key|professional) )?(skills|competencies|expertise)( (and|&) \w+)?$|^(technologies|tech stack|tools)$/i,
+  ],
+  ['projects', /^((personal|side|selected|key|academic) )?projects$|^open source$/i],
+  [
+    'certifications',
+    /^(certifications?|certificates|licenses( (and|&) certifications)?|courses)$/i,
+  ],
+  [
+    'other',
+    /^(awards|honou?rs|publications|volunteer(ing| experience)?|languages|interests|hobbies|references|achievements|activities|leadership)$/i,
+  ],
+];
+
+const LIST_MARKER = /^(?:[•▪◦·●○■□►▸‣⁃✓✔➢➤*]\s*|[-–—+]\s+|\d+[.)]\s+)/;
+
+const MONTH = String.raw`(?:Jan(?:uary)?|Feb(?:ruary)?|Mar(?:ch)?|Apr(?:il)?|May|June?|July?|Aug(?:ust)?|Sep(?:t(?:ember)?)?|Oct(?:ober)?|Nov(?:ember)?|Dec(?:ember)?)\.?`;
+const DATE = String.raw`(?:(?:${MONTH}|Spring|Summer|Fall|Autumn|Winter)\s+(?:19|20)\d{2}|\d{1,2}\/(?:19|20)\d{2}|(?:19|20)\d{2}(?:-\d{2})?)`;
+const DATE_RANGE = new RegExp(
+  String.raw`${DATE}\s*(?:-|–|—|to|until)\s*(?:${DATE}|present|current|now|today)`,
+  'i'
+);
+const SINGLE_DATE = new RegExp(`(?<![\\d/-])${DATE}(?![\\d/-])`, 'i');
+
+const EMAIL = /[A-Za-z0-9._%+-]+@[A-Za-z0-9-]+(?:\.[A-Za-z0-9-]+)*\.[A-Za-z]{2,}/;
+const PHONE = /\+?\(?\d[\d\s().-]{7,}\d/;
+const PROFILE_LINK =
+  /(?:https?:\/\/)?(?:www\.)?(?:linkedin\.com|github\.com|gitlab\.com|twitter\.com|x\.com|behance\.net|dribbble\.com|medium\.com|stackoverflow\.com)\/[^\s|,;•]+/i;
+const URL = /https?:\/\/[^\s|,;•]+/i;
+const BARE_DOMAIN =
+  /\b(?:www\.)?[a-z0-9-]+\.(?:dev|io|me|com|net|org|app|co|tech|page)(?:\/[^\s|,;•]*)?(?![\w.@])/i;
+
+const COUNTRIES =
+  'USA|US|United States|UK|United Kingdom|Canada|Germany|France|Spain|Italy|Ireland|Netherlands|India|Australia|New Zealand|Singapore|Japan|Brazil|Mexico|Poland|Portugal|Sweden|Switzerland|Israel';
+const LOCATION = new RegExp(
+  String.raw`^(?:remote|hybrid|on-?site|[A-Z][A-Za-z.'-]+(?: [A-Z][A-Za-z.'-]+)*, (?:[A-Z]{2}|${COUNTRIES})(?:, (?:${COUNTRIES}))?)(?: \((?:remote|hybrid|on-?site)\))?$`
+);
+/** ", Austin, TX" after a company name */
+const LOCATION_SUFFIX = new RegExp(
+  String.raw`,\s*[A-Z][A-Za-z.'-]+(?: [A-Z][A-Za-z.'-]+)*, (?:[A-Z]{2}|${COUNTRIES})$`
+);
+
+const TITLE_WORDS =
+  /\b(engineer|developer|programmer|manager|director|analyst|designer|lead|intern|consultant|scientist|architect|specialist|administrator|coordinator|officer|head of|vp|vice president|president|founder|co-founder|associate|assistant|technician|accountant|editor|writer|researcher|product owner|representative|recruiter|teacher|nurse|supervisor|executive|strategist|advisor|sre|devops|cto|ceo|cfo|coo|principal|staff|senior|junior|trainee|fellow|contractor|freelancer?)\b/i;
+const COMPANY_WORDS =
+  /\b(inc|llc|ltd|limited|corp|corporation|co|company|gmbh|ag|plc|group|labs?|technologies|systems|solutions|software|studios?|partners|consulting|bank|agency|foundation|holdings|ventures|networks|capital|media|games)\b\.?/i;
+const COMPANY_SUFFIX = /^(inc|llc|ltd|corp|co|gmbh|ag|plc)\.?$/i;
+
+const DEGREE =
+  /\b(bachelor|master|doctor(ate)?|ph\.?\s?d|mba|associate(?:'s)? degree|diploma|b\.?\s?sc?|b\.?\s?a|m\.?\s?sc?|m\.?\s?a|b\.?\s?eng|m\.?\s?eng|b\.?\s?tech|m\.?\s?tech|ll\.?[bm]|a\.?a\.?s?|hnd|a-levels?|ged)(?![\w])\.?/i;
+const SCHOOL =
+  /\b(university|college|institute|school|academy|polytechnic|conservatory|universit[éä]t|hochschule|[ée]cole|bootcamp)\b/i;
+const GPA = /\b(?:GPA|grade)[:\s]+([\d.]+(?:\s*\/\s*[\d.]+)?)/i;
+
+/** "Technologies: Go, Kubernetes" lines inside an experience or project entry */
+const TECHNOLOGY_LINE =
+  /^(?:technologies|tech(?:nical)? stack|stack|tools|environment|built with)\s*:\s*(.+)$/i;
+/** "Languages: Go, Python" lines in a skills section */
+const LABEL_PREFIX = /^[A-Za-z][A-Za-z /&+-]{1,30}:\s+/;
+/** Separators between the parts of one header line */
+const PART_SEPARATOR = /\t|\s+[|•·]\s+|\s+[—–-]\s+|\s{3,}/;
+
+function headingKind(raw: string): ResumeSectionKind | null {
+  const text = raw
+    .replace(/^[\s#*_=—–-]+|[\s*_=—–-]+$/g, '')
+    .replace(/:$/, '')
+    .trim();
+  if (!text || text.split(/\s+/).length > 5) return null;
+  return HEADINGS.find(([, pattern]) => pattern.test(text))?.[0] ?? null;
+}
+
+function isBullet(line: string): boolean {
+  return LIST_MARKER.test(line);
+}
+
+function stripBullet(line: string): string {
+  return line.replace(LIST_MARKER, '').trim();
+}
+
+function words(text: string): number {
+  return text.split(/\s+/).filter(Boolean).length;
+}
+
+/**
+ * Split resume text into the header and the sections under each recognised heading
+ */
+export function segmentResume(text: string): ResumeSection[] {
+  const sections: ResumeSection[] = [{ kind: 'header', lines: [] }];
+  let current = sections[0];
+
+  for (const raw of text.replace(/\r\n?/g, '\n').split('\n')) {
+    const line = raw
+      .replace(/[ \u00a0]+/g, ' ')
+      .replace(/ ?\t ?/g, '\t')
+      .trim();
+    const kind = line ? headingKind(line) : null;
+    if (kind) {
+      current = { kind, heading: line.replace(/:$/, ''), lines: [] };
+      sections.push(current);
+    } else if (line || current.lines.length > 0) {
+      current.lines.push(line);
+    }
+  }
+  return sections.filter((section) => section.lines.some(Boolean));
+}
+
+/** Take the first match of `pattern` out of `text` */
+function take(text: string, pattern: RegExp): { match?: string; rest: string } {
+  const found = pattern.exec(text);
+  if (!found) return { rest: text };
+  return {
+    match: found[0],
+    rest: `${text.slice(0, found.index)} ${text.slice(found.index + found[0].length)}`,
+  };
+}
+
+/** The pieces of a header line, without empty bits and leftover punctuation */
+function parts(line: string): string[] {
+  return line
+    .replace(/\(\s*\)/g, ' ')
+    .split(PART_SEPARATOR)
+    .map((part) =>
+      part
+        .replace(/^[\s,|•·)—–-]+|[\s,|•·(—–-]+$/g, '')
+        .replace(/^\(([^)]*)$/, '$1')
+        .replace(/^([^(]*)\)$/, '$1')
+        .trim()
+    )
+    .filter(Boolean);
+}
+
+/** Ends like a sentence; "Acme, Inc." does not */
+function isSentence(line: string): boolean {
+  return /[.!?]$/.test(line) && !/\b(inc|ltd|corp|co|jr|sr|st)\.$/i.test(line);
+}
+
+function parseContact(lines: string[], confidence: Record<string, number>) {
+  const contact: ResumeContact = { name: '' };
+  const links: string[] = [];
+  let nameConfidence = 0;
+
+  lines.forEach((line, index) => {
+    if (!line) return;
+    let remaining = line;
+    const email = take(remaining, EMAIL);
+    if (email.match && contact.email === undefined) {
+      contact.email = email.match;
+      confidence['$.contact.email'] = 0.99;
+      remaining = email.rest;
+    }
+    for (;;) {
+      const link = [PROFILE_LINK, URL, BARE_DOMAIN]
+        .map((pattern) => take(remaining, pattern))
+        .find((found) => found.match !== undefined);
+      if (!link) break;
+      links.push(link.match!.replace(/[.)]+$/, ''));
+      remaining = link.rest;
+    }
+    const phone = take(remaining, PHONE);
+    const digits = phone.match?.replace(/\D/g, '').length ?? 0;
+    if (
+      phone.match &&
+      digits >= 9 &&
+      contact.phone === undefined &&
+      !DATE_RANGE.test(phone.match)
+    ) {
+      contact.phone = phone.match.trim();
+      confidence['$.contact.phone'] = digits >= 10 ? 0.9 : 0.7;
+      remaining = phone.rest;
+    }
+
+    for (const part of parts(remaining.replace(/\s+(?=\s)/g, ' ').replace(/\s*,\s*$/, ''))) {
+      if (LOCATION.test(part) && contact.location === undefined) {
+        contact.location = part;
+        confidence['$.contact.location'] = 0.75;
+      } else if (
+        !contact.name &&
+        words(part) <= 4 &&
+        /^[\p{L}][\p{L}.' -]*$/u.test(part) &&
+        !TITLE_WORDS.test(part)
+      ) {
+        contact.name = part;
+        const capitalised = part.split(/\s+/).every((word) => /^\p{Lu}/u.test(word));
+        nameConfidence = (index === 0 ? 0.5 : 0.3) + (capitalised && words(part) >= 2 ? 0.4 : 0);
+      }
+    }
+  });
+
+  if (links.length > 0) {
+    contact.links = links;
+    const known = links.every((link) => PROFILE_LINK.test(link) || URL.test(link));
+    confidence['$.contact.links'] = known ? 0.95 : 0.7;
+  }
+  confidence['$.contact.name'] = nameConfidence;
+  return contact;
+}
+
+interface Entry {
+  header: string[];
+  body: string[];
+  date?: string;
+  link?: string;
+  technologies?: string[];
+}
+
+/**
+ * Group the lines of a section into entries: header lines (title, company, dates), then
+ * bullets or sentences. A header line after the body, a second date or a paragraph break
+ * after dated headers starts the next entry.
+ */
+function entries(lines: string[], headerHint: (line: string) => boolean): Entry[] {
+  const found: Entry[] = [];
+  let current: Entry | undefined;
+  let paragraphBreak = false;
+  let previousBullet = false;
+
+  const start = (line?: string) => {
+    current = { header: line === undefined ? [] : [line], body: [] };
+    found.push(current);
+  };
+
+  for (const line of lines) {
+    if (!line) {
+      paragraphBreak = true;
+      continue;
+    }
+    const technologies = TECHNOLOGY_LINE.exec(stripBullet(line));
+    const date = DATE_RANGE.exec(line)?.[0];
+    const bullet = isBullet(line);
+    const last = current?.body[current.body.length - 1] ?? '';
+
+    if (technologies && current) {
+      current.technologies = splitList(technologies[1]);
+    } else if (
+      current &&
+      !current.link &&
+      /^\S+$/.test(line) &&
+      (URL.test(line) || BARE_DOMAIN.test(line))
+    ) {
+      current.link = line;
+    } else if (bullet) {
+      if (!current) start();
+      current!.body.push(stripBullet(line));
+    } else if (date) {
+      if (current && !current.date && current.body.length === 0 && !paragraphBreak) {
+        current.header.push(line);
+      } else start(line);
+      current!.date = date;
+    } else if (
+      current &&
+      previousBullet &&
+      !paragraphBreak &&
+      (/^\p{Ll}/u.test(line) || (last.length >= 60 && !/[.!?;:]$/.test(last) && !headerHint(line)))
+    ) {
+      // A bullet wrapped onto the next line
+      current.body[current.body.length - 1] = `${last} ${line}`;
+      continue;
+    } else if (words(line) <= 12 && !isSentence(line)) {
+      const full =
+        current &&
+        (current.body.length > 0 ||
+          (current.date !== undefined && (current.header.length >= 2 || paragraphBreak)) ||
+          current.header.length >= 3);
+      if (!current || full) start(line);
+      else current.header.push(line);
+    } else {
+      if (!current) start();
+      current!.body.push(line);
+    }
+    previousBullet = bullet;
+    paragraphBreak = false;
+  }
+  return found.filter((entry) => entry.header.length > 0 || entry.body.length > 0);
+}
+
+function splitList(text: string): string[] {
+  return text
+    .split(/\s*[,;•·|\t]\s*/)
+    .map((item) => item.replace(/\.$/, '').trim())
+    .filter(Boolean);
+}
+
+/** Title and company from the header lines of an experience entry */
+function titleAndCompany(header: string[]) {
+  const pieces = header.flatMap((line) => {
+    const withoutDate = take(line, DATE_RANGE).rest;
+    const split = parts(withoutDate).flatMap((part) =>
+      // "Engineer, Acme Corp"; "Acme, Inc." stays whole
+      part
+        .replace(LOCATION_SUFFIX, '')
+        .split(/,\s+/)
+        .reduce<string[]>((merged, piece) => {
+          if (merged.length > 0 && COMPANY_SUFFIX.test(piece))
+            merged[merged.length - 1] += `, ${piece}`;
+          else merged.push(piece);
+          return merged;
+        }, [])
+    );
+    return split.filter(
+      (piece) => !LOCATION.test(piece) && !/^\(?(remote|hybrid)\)?$/i.test(piece)
+    );
+  });
+
+  for (const piece of pieces) {
+    const at = piece.match(/^(.+?)\s+(?:at|@)\s+(.+)$/);
+    if (at && TITLE_WORDS.test(at[1])) {
+      return { title: at[1], company: at[2], titleConfidence: 0.9, companyConfidence: 0.9 };
+    }
+  }
+
+  // "Software Engineer" has a company word too; prefer a piece that is only a title
+  const titleOnly = pieces.findIndex((p) => TITLE_WORDS.test(p) && !COMPANY_WORDS.test(p));
+  const titleIndex = titleOnly !== -1 ? titleOnly : pieces.findIndex((p) => TITLE_WORDS.test(p));
+  if (titleIndex === -1) {
+    return {
+      title: pieces[0] ?? '',
+      company: pieces[1] ?? '',
+      titleConfidence: pieces[0] ? 0.5 : 0,
+      companyConfidence: pieces[1] ? 0.5 : 0,
+    };
+  }
+  const others = pieces.filter((_, i) => i !== titleIndex);
+  const company = others.find((p) => COMPANY_WORDS.test(p)) ?? others[0] ?? '';
+  return {
+    title: pieces[titleIndex],
+    company,
+    titleConfidence: titleOnly !== -1 ? 0.9 : 0.7,
+    companyConfidence: !company ? 0 : COMPANY_WORDS.test(company) ? 0.9 : 0.7,
+  };
+}
+
+function parseExperience(lines: string[], confidence: Record<string, number>): ExperienceItem[] {
+  const headerHint = (line: string) => TITLE_WORDS.test(line) || COMPANY_WORDS.test(line);
+  return entries(lines, headerHint).map((entry, i) => {
+    // Long header lines without a date are the description of an entry with one header line
+    const header = entry.header.filter((line) => words(line) <= 12);
+    const { title, company, titleConfidence, companyConfidence } = titleAndCompany(header);
+    const item: ExperienceItem = {
+      title,
+      company,
+      duration: entry.date?.trim() ?? '',
+      achievements: entry.body,
+    };
+    const at = `$.experience[${i}]`;
+    confidence[`${at}.title`] = titleConfidence;
+    confidence[`${at}.company`] = companyConfidence;
+    confidence[`${at}.duration`] = entry.date ? 0.95 : 0;
+    confidence[`${at}.achievements`] = entry.body.length === 0 ? 0 : 0.85;
+    if (entry.technologies) {
+      item.technologies = entry.technologies;
+      confidence[`${at}.technologies`] = 0.9;
+    }
+    return item;
+  });
+}
+
+function parseEducation(lines: string[], confidence: Record<string, number>): EducationItem[] {
+  const items: EducationItem[] = [];
+  const scores: Array<Record<string, number>> = [];
+  let current: EducationItem | undefined;
+  let score: Record<string, number> = {};
+
+  const next = () => {
+    current = { degree: '', school: '', year: '' };
+    score = { degree: 0, school: 0, year: 0 };
+    items.push(current);
+    scores.push(score);
+  };
+
+  for (const line of lines) {
+    if (!line) {
+      if (current && (current.degree || current.school)) current = undefined;
+      continue;
+    }
+    // Honours and coursework under an entry
+    if (isBullet(line) || /^(relevant )?(coursework|courses|honou?rs|thesis|minor)\b/i.test(line)) {
+      continue;
+    }
+
+    const gpa = take(line, GPA);
+    const range = take(gpa.rest, DATE_RANGE);
+    const year = range.match ? range : take(gpa.rest, SINGLE_DATE);
+
+    const pieces = parts(year.rest).flatMap((part) =>
+      SCHOOL.test(part) && DEGREE.test(part) && part.includes(', ') ? part.split(/,\s+/) : [part]
+    );
+    for (const piece of pieces.filter((p) => !LOCATION.test(p))) {
+      const isDegree = DEGREE.test(piece) && !SCHOOL.test(piece);
+      const isSchool = SCHOOL.test(piece);
+      if ((isDegree && current?.degree) || (isSchool && current?.school) || !current) next();
+      if (isDegree) {
+        current!.degree = piece;
+        score.degree = 0.9;
+      } else if (isSchool) {
+        current!.school = piece;
+        score.school = 0.9;
+      } else if (!current!.degree) {
+        current!.degree = piece;
+        score.degree = 0.5;
+      } else if (!current!.school) {
+        current!.school = piece;
+        score.school = 0.5;
+      }
+    }
+    if (!current && (gpa.match || year.match)) next();
+    if (year.match && current && !current.year) {
+      current.year = year.match.trim();
+      score.year = 0.9;
+    }
+    if (gpa.match && current) {
+      current.gpa = GPA.exec(gpa.match)![1];
+      score.gpa = 0.9;
+    }
+  }
+
+  items.forEach((_, i) => {
+    for (const [field, value] of Object.entries(scores[i])) {
+      confidence[`$.education[${i}].${field}`] = value;
+    }
+  });
+  return items;
+}
+
+function parseSkills(lines: string[]): { skills: string[]; confidence: number } {
+  const skills: string[] = [];
+  let listed = 0;
+  let dropped = 0;
+
+  for (const line of lines.filter(Boolean)) {
+    const items = splitList(stripBullet(line).replace(LABEL_PREFIX, ''));
+    if (items.length > 1 || isBullet(line)) listed++;
+    for (const item of items) {
+      // Sentences are not skills
+      if (words(item) > 5) {
+        dropped++;
+        continue;
+      }
+      if (!skills.some((skill) => skill.toLowerCase() === item.toLowerCase())) skills.push(item);
+    }
+  }
+  const confidence = skills.length === 0 ? 0 : dropped > 0 ? 0.6 : listed > 0 ? 0.9 : 0.7;
+  return { skills, confidence };
+}
+
+function parseProjects(lines: string[], confidence: Record<string, number>): ProjectItem[] {
+  return entries(lines, () => false).map((entry, i) => {
+    const [first = '', ...moreHeader] = entry.header;
+    const url =
+      entry.link ??
+      [...entry.header, ...entry.body]
+        .map((line) => URL.exec(line) ?? PROFILE_LINK.exec(line))
+        .find(Boolean)?.[0];
+    const [nameWithTech = '', ...details] = parts(url ? first.replace(url, '') : first);
+    const technologyList = nameWithTech.match(/^(.*?)\s*\(([^)]+)\)$/);
+    const name = technologyList ? technologyList[1] : nameWithTech;
+    const technologies =
+      entry.technologies ?? (technologyList ? splitList(technologyList[2]) : undefined);
+    const description = [...details, ...moreHeader, ...entry.body]
+      .map((line) => (url ? line.replace(url, '') : line).trim())
+      .filter(Boolean)
+      .join(' ');
+
+    const item: ProjectItem = { name, description, technologies: technologies ?? [] };
+    const at = `$.projects[${i}]`;
+    confidence[`${at}.name`] = name ? 0.8 : 0;
+    confidence[`${at}.description`] = description ? 0.7 : 0;
+    if (technologies) confidence[`${at}.technologies`] = 0.85;
+    if (url) {
+      item.url = url;
+      confidence[`${at}.url`] = 0.95;
+    }
+    return item;
+  });
+}
+
+/**
+ * Parse resume text with heuristics only
+ */
+export function parseResumeText(text: string): Pick<ParsedResume, 'resume' | 'confidence'> {
+  const sections = segmentResume(text);
+  const confidence: Record<string, number> = {};
+  const linesOf = (kind: ResumeSection['kind']) =>
+    sections
+      .filter((section) => section.kind === kind)
+      .flatMap((section) => [...section.lines, '']);
+
+  const resume: ResumeData = { summary: '', skills: [], experience: [], education: [] };
+
+  const header = linesOf('header');
+  // Contact details sit in the first lines; a long paragraph there is an unlabelled summary
+  const contactLines = header.filter((line) => words(line) <= 14);
+  const contact = parseContact(contactLines.slice(0, 8), confidence);
+  if (contact.name || contact.email || contact.phone || contact.links) resume.contact = contact;
+  else delete confidence['$.contact.name'];
+
+  const summary = linesOf('summary').filter(Boolean).map(stripBullet);
+  const unlabelled = header.filter((line) => words(line) > 14);
+  if (summary.length > 0) {
+    resume.summary = summary.join(' ');
+    confidence['$.summary'] = 0.9;
+  } else if (unlabelled.length > 0) {
+    resume.summary = unlabelled.join(' ');
+    confidence['$.summary'] = 0.5;
+  }
+
+  resume.experience = parseExperience(linesOf('experience'), confidence);
+  resume.education = parseEducation(linesOf('education'), confidence);
+
+  const skills = parseSkills(linesOf('skills'));
+  resume.skills = skills.skills;
+  if (skills.skills.length > 0) confidence['$.skills'] = skills.confidence;
+
+  if (sections.some((section) => section.kind === 'projects')) {
+    resume.projects = parseProjects(linesOf('projects'), confidence);
+  }
+  if (sections.some((section) => section.kind === 'certifications')) {
+    resume.certifications = linesOf('certifications').filter(Boolean).map(stripBullet);
+    confidence['$.certifications'] = 0.85;
+  }
+
+  return { resume, confidence };
+}
+
+const XML_ENTITIES: Record<string, string> = {
+  lt: '<',
+  gt: '>',
+  amp: '&',
+  quot: '"',
+  apos: "'",
+};
+
+function decodeXml(text: string): string {
+  return text.replace(/&(#x[0-9a-fA-F]+|#\d+|\w+);/g, (entity, name: string) => {
+    if (name.startsWith('#x')) return String.fromCodePoint(parseInt(name.slice(2), 16));
+    if (name.startsWith('#')) return String.fromCodePoint(Number(name.slice(1)));
+    return XML_ENTITIES[name] ?? entity;
+  });
+}
+
+/**
+ * Lines of a WordprocessingML part. List paragraphs get a "• " marker. A table row of
+ * single-line cells becomes one tab-separated line; other rows (layout tables with a column
+ * per cell) are read cell by cell.
+ */
+function wordXmlText(xml: string): string[] {
+  const source = xml
+    // Text boxes come twice, as DrawingML and as a VML fallback
+    .replace(/<mc:Fallback>[\s\S]*?<\/mc:Fallback>/g, '')
+    .replace(/<w:(instrText|delText)\b[^>]*>[\s\S]*?<\/w:\1>/g, '');
+
+  const lines: string[] = [];
+  const paragraphs: Array<{ text: string; list: boolean }> = [];
+  const tables: Array<{ row: string[][]; cell?: string[] }> = [];
+
+  const out = (line: string) => {
+    const table = tables[tables.length - 1];
+    if (table?.cell) table.cell.push(line);
+    else lines.push(line);
+  };
+
+  const token =
+    /<w:t(?:\s[^>]*)?>([^<]*)<\/w:t>|<(\/?)(w:p|w:tab|w:br|w:cr|w:tc|w:tr|w:tbl|w:numPr|w:pStyle|w:noBreakHyphen)(?=[\s/>])([^>]*?)(\/?)>/g;
+  for (const [, text, closing, tag, attributes, selfClosing] of source.matchAll(token)) {
+    const paragraph = paragraphs[paragraphs.length - 1];
+    if (text !== undefined) {
+      if (paragraph) paragraph.text += decodeXml(text);
+      continue;
+    }
+    switch (tag) {
+      case 'w:p':
+        if (selfClosing) out('');
+        else if (!closing) paragraphs.push({ text: '', list: false });
+        else if (paragraph) {
+          paragraphs.pop();
+          paragraph.text.split('\n').forEach((line, i) => {
+            const marker = paragraph.list && i === 0 && line.trim() ? '• ' : '';
+            out(marker + line.trim());
+          });
+        }
+        break;
+      case 'w:tab':
+        // Tab stops in paragraph properties carry a w:val
+        if (paragraph && !attributes.includes('w:val')) paragraph.text += '\t';
+        break;
+      case 'w:br':
+      case 'w:cr':
+        if (paragraph) paragraph.text += '\n';
+        break;
+      case 'w:noBreakHyphen':
+        if (paragraph) paragraph.text += '-';
+        break;
+      case 'w:numPr':
+        if (paragraph && !closing) paragraph.list = true;
+        break;
+      case 'w:pStyle':
+        if (paragraph && /w:val="List/i.test(attributes)) paragraph.list = true;
+        break;
+      case 'w:tbl':
+        if (!closing) tables.push({ row: [] });
+        else tables.pop();
+        break;
+      case 'w:tr': {
+        const table = tables[tables.length - 1];
+        if (!table) break;
+        if (!closing) {
+          table.row = [];
+          break;
+        }
+        const cells = table.row;
+        tables.pop();
+        if (cells.every((cell) => cell.filter(Boolean).length <= 1)) {
+          out(
+            cells
+              .map((cell) => cell.find(Boolean) ?? '')
+              .filter(Boolean)
+              .join('\t')
+          );
+        } else {
+          // Columns one after the other, a paragraph break between them
+          for (const cell of cells) [...cell, ''].forEach(out);
+        }
+        tables.push(table);
+        break;
+      }
+      case 'w:tc': {
+        const table = tables[tables.length - 1];
+        if (!table) break;
+        if (!closing) table.cell = [];
+        else {
+          table.row.push(table.cell ?? []);
+          table.cell = undefined;
+        }
+        break;
+      }
+      default:
+        break;
+    }
+  }
+  return lines;
+}
+
+/**
+ * The text of a Word document, page headers first (contact details often live there)
+ */
+export function extractDocxText(docx: Buffer): string {
+  // Only the parts read for text are inflated; images and the rest of the package are skipped
+  const isHeader = (name: string) => /^word\/header\d*\.xml$/.test(name);
+  const parts = readZip(docx, {
+    include: (name) => name === 'word/document.xml' || isHeader(name),
+  });
+  const document = parts.get('word/document.xml');
+  if (!document) throw new Error('Not a Word document');
+
+  const headers = [...parts.keys()].filter(isHeader).sort();
+  const texts: string[] = [];
+  for (const part of [...headers.map((name) => parts.get(name)!), document]) {
+    const text = wordXmlText(part.toString('utf8')).join('\n').trim();
+    if (text && !texts.includes(text)) texts.push(text);
+  }
+  return texts.join('\n\n');
+}
+
+/**
+ * PDF, DOCX or plain text from the file's first bytes; undefined for anything else
+ * (images, legacy .doc files)
+ */
+export function detectResumeFormat(file: Buffer, fileName = ''): ResumeFileFormat | undefined {
+  if (file.toString('latin1', 0, 1024).includes('%PDF-')) return 'pdf';
+  if (file.length >= 4 && file.readUInt32LE(0) === 0x04034b50) {
+    return /\.(docx|docm|dotx)$/i.test(fileName) || file.includes('word/') ? 'docx' : undefined;
+  }
+  if (/\.(txt|md|text)$/i.test(fileName)) return 'text';
+  // Text has no NUL bytes and survives a UTF-8 round trip
+  const sample = file.subarray(0, 4096);
+  return !sample.includes(0) && !sample.toString('utf8').includes('\ufffd') ? 'text' : undefined;
+}
+
+/**
+ * Extract the text of a resume file and parse it. Throws on unsupported or unreadable files,
+ * and InflateLimitError on files that decompress to more than MAX_INFLATED_SIZE.
+ */
+export function parseResumeFile(file: Buffer, fileName?: string): ParsedResume {
+  const format = detectResumeFormat(file, fileName);
+  if (!format) throw new Error(`Unsupported resume file${fileName ? `: ${fileName}` : ''}`);
+
+  const text =
+    format === 'pdf'
+      ? extractPdfText(file)
+      : format === 'docx'
+        ? extractDocxText(file)
+        : file.toString('utf8').replace(/^\ufeff/, '');
+  return { ...parseResumeText(text), text, format };
+}
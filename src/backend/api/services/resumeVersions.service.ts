@@ -0,0 +1,548 @@
+/**
+ * Resume Versions
+ * Every variant of a resume as an immutable version in a graph: the version it was derived from,
+ * the job it was tailored for, and the generator and settings that produced it
+ * Diffs compare two versions section by section and bullet by bullet. Restoring an old version
+ * adds a new version with its content, so what was sent to an employer is never rewritten.
+ */
+
+import crypto from 'crypto';
+import type { Database } from 'sql.js';
+import { DatabaseService, getDatabase, selectRows } from './database.service';
+import { EventLogService, getEventLog } from './eventLog.service';
+import type { ResumeData } from './resumeData.service';
+
+export interface ResumeVersionJob {
+  id: string;
+  title?: string;
+  company?: string;
+  url?: string;
+}
+
+export interface ResumeVersion {
+  id: string;
+  /** The resume the version belongs to; every version in one history shares it */
+  resumeId: string;
+  /** The version this one was derived from; absent for the first version */
+  parentId?: string;
+  /** The older version whose content this one brought back */
+  restoredFrom?: string;
+  /** The job the version was tailored for */
+  job?: ResumeVersionJob;
+  /** What made the version: "upload", "editor", "aiResumeService.tailorResume", "restore"... */
+  generator: string;
+  /** The settings the generator ran with: tone, model, prompt versions... */
+  settings: Record<string, unknown>;
+  note?: string;
+  resume: ResumeData;
+  createdAt: string;
+}
+
+export interface CreateResumeVersionInput {
+  /** Taken from `parentId` when given; an unknown or missing id starts a new history */
+  resumeId?: string;
+  /** Defaults to the latest version of the resume */
+  parentId?: string;
+  job?: ResumeVersionJob;
+  generator: string;
+  settings?: Record<string, unknown>;
+  note?: string;
+  resume: ResumeData;
+  /**
+   * The resume the new version was made from. When the resume has no history yet it is stored
+   * first, as the parent, so the starting point of a tailoring is kept too.
+   */
+  original?: ResumeData;
+}
+
+export type ResumeChangeKind = 'added' | 'removed' | 'changed' | 'moved';
+
+export interface ResumeChange {
+  /**
+   * Where the change is, like "$.experience[0].achievements[2]": an index into the newer
+   * version, or into the older one for removals
+   */
+  path: string;
+  change: ResumeChangeKind;
+  before?: unknown;
+  after?: unknown;
+  /** Index in the older version of an entry or bullet that moved */
+  from?: number;
+}
+
+export const RESUME_DIFF_SECTIONS = [
+  'contact',
+  'summary',
+  'experience',
+  'education',
+  'skills',
+  'projects',
+  'certifications',
+] as const;
+
+export type ResumeDiffSection = (typeof RESUME_DIFF_SECTIONS)[number];
+
+export interface ResumeDiff {
+  /** Sections with changes, in resume order; empty when the versions have the same content */
+  sections: Array<{ section: ResumeDiffSection; changes: ResumeChange[] }>;
+}
+
+export class ResumeVersionNotFoundError extends Error {
+  constructor(readonly versionId: string) {
+    super(`Resume version not found: ${versionId}`);
+    this.name = 'ResumeVersionNotFoundError';
+  }
+}
+
+/** How alike two rewrites of a bullet must be, by shared words, to count as one edited bullet */
+const REWRITE_SIMILARITY = 0.4;
+
+function normalise(text: string): string {
+  return text.trim().replace(/\s+/g, ' ').toLowerCase();
+}
+
+function similarity(a: string, b: string): number {
+  const words = (text: string) => new Set(normalise(text).split(' ').filter(Boolean));
+  const left = words(a);
+  const right = words(b);
+  const shared = [...left].filter((word) => right.has(word)).length;
+  return shared / Math.max(left.size + right.size - shared, 1);
+}
+
+interface Match {
+  before?: number;
+  after?: number;
+  /** Matched out of order */
+  moved?: boolean;
+}
+
+/**
+ * Pair up the items of two lists: the longest run kept in order, then the same items found
+ * elsewhere (moves), then the most similar of what is left (edits). Unpaired items were added
+ * or removed.
+ */
+function matchItems<T>(
+  before: T[],
+  after: T[],
+  same: (a: T, b: T) => boolean,
+  similar: (a: T, b: T) => number
+): Match[] {
+  // Longest common subsequence, filled from the end
+  const lengths = Array.from({ length: before.length + 1 }, () =>
+    new Array<number>(after.length + 1).fill(0)
+  );
+  for (let i = before.length - 1; i >= 0; i--) {
+    for (let j = after.length - 1; j >= 0; j--) {
+      lengths[i][j] = same(before[i], after[j])
+        ? lengths[i + 1][j + 1] + 1
+        : Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+    }
+  }
+
+  const matches: Match[] = [];
+  const beforeLeft = new Set(before.keys());
+  const afterLeft = new Set(after.keys());
+  const pair = (i: number, j: number, moved = false) => {
+    matches.push({ before: i, after: j, ...(moved && { moved }) });
+    beforeLeft.delete(i);
+    afterLeft.delete(j);
+  };
+
+  for (let i = 0, j = 0; i < before.length && j < after.length;) {
+    if (same(before[i], after[j])) pair(i++, j++);
+    else if (lengths[i + 1][j] >= lengths[i][j + 1]) i++;
+    else j++;
+  }
+  for (const j of [...afterLeft]) {
+    const i = [...beforeLeft].find((candidate) => same(before[candidate], after[j]));
+    if (i !== undefined) pair(i, j, true);
+  }
+  for (const j of [...afterLeft]) {
+    let best: number | undefined;
+    let bestScore = REWRITE_SIMILARITY;
+    for (const i of beforeLeft) {
+      const score = similar(before[i], after[j]);
+      if (score >= bestScore) {
+        best = i;
+        bestScore = score;
+      }
+    }
+    if (best !== undefined) pair(best, j);
+  }
+
+  for (const i of beforeLeft) matches.push({ before: i });
+  for (const j of afterLeft) matches.push({ after: j });
+  return matches.sort(
+    (a, b) => (a.after ?? a.before!) - (b.after ?? b.before!) || (a.after ?? -1) - (b.after ?? -1)
+  );
+}
+
+/** Bullets, skills and other lists of text, item by item */
+function diffList(path: string, before: string[] = [], after: string[] = []): ResumeChange[] {
+  const changes: ResumeChange[] = [];
+  const same = (a: string, b: string) => normalise(a) === normalise(b);
+  for (const match of matchItems(before, after, same, similarity)) {
+    if (match.after === undefined) {
+      changes.push({
+        path: `${path}[${match.before}]`,
+        change: 'removed',
+        before: before[match.before!],
+      });
+    } else if (match.before === undefined) {
+      changes.push({ path: `${path}[${match.after}]`, change: 'added', after: after[match.after] });
+    } else if (match.moved) {
+      changes.push({
+        path: `${path}[${match.after}]`,
+        change: 'moved',
+        from: match.before,
+        after: after[match.after],
+      });
+    } else if (before[match.before] !== after[match.after]) {
+      changes.push({
+        path: `${path}[${match.after}]`,
+        change: 'changed',
+        before: before[match.before],
+        after: after[match.after],
+      });
+    }
+  }
+  return changes;
+}
+
+function diffField(path: string, before: unknown, after: unknown): ResumeChange[] {
+  if ((before ?? '') === (after ?? '')) return [];
+  if (before === undefined || before === '') return [{ path, change: 'added', after }];
+  if (after === undefined || after === '') return [{ path, change: 'removed', before }];
+  return [{ path, change: 'changed', before, after }];
+}
+
+interface EntryShape<T> {
+  /** Identifies the same entry in both versions */
+  key: (entry: T) => string;
+  /** How likely two entries with different keys are one edited entry */
+  similar: (a: T, b: T) => number;
+  fields: Array<keyof T>;
+  lists: Array<keyof T>;
+}
+
+/** Roles, schools and projects: entries added, removed or moved, then their fields and bullets */
+function diffEntries<T>(path: string, before: T[] = [], after: T[] = [], shape: EntryShape<T>) {
+  const changes: ResumeChange[] = [];
+  const same = (a: T, b: T) => shape.key(a) === shape.key(b);
+  for (const match of matchItems(before, after, same, shape.similar)) {
+    if (match.after === undefined) {
+      changes.push({
+        path: `${path}[${match.before}]`,
+        change: 'removed',
+        before: before[match.before!],
+      });
+      continue;
+    }
+    const at = `${path}[${match.after}]`;
+    if (match.before === undefined) {
+      changes.push({ path: at, change: 'added', after: after[match.after] });
+      continue;
+    }
+    if (match.moved) changes.push({ path: at, change: 'moved', from: match.before });
+    const older = before[match.before];
+    const newer = after[match.after];
+    for (const field of shape.fields) {
+      changes.push(...diffField(`${at}.${String(field)}`, older[field], newer[field]));
+    }
+    for (const list of shape.lists) {
+      changes.push(
+        ...diffList(
+          `${at}.${String(list)}`,
+          older[list] as string[] | undefined,
+          newer[list] as string[] | undefined
+        )
+      );
+    }
+  }
+  return changes;
+}
+
+/**
+ * What changed from one resume to another, by section: entries and bullets added, removed,
+ * reworded or moved
+ */
+export function diffResumes(before: ResumeData, after: ResumeData): ResumeDiff {
+  const contactBefore = before.contact ?? { name: '' };
+  const contactAfter = after.contact ?? { name: '' };
+
+  const changes: Record<ResumeDiffSection, ResumeChange[]> = {
+    contact: [
+      ...(['name', 'email', 'phone', 'location'] as const).flatMap((field) =>
+        diffField(`$.contact.${field}`, contactBefore[field], contactAfter[field])
+      ),
+      ...diffList('$.contact.links', contactBefore.links, contactAfter.links),
+    ],
+    summary: diffField('$.summary', before.summary, after.summary),
+    experience: diffEntries('$.experience', before.experience, after.experience, {
+      key: (job) => `${normalise(job.title)}|${normalise(job.company)}`,
+      similar: (a, b) =>
+        normalise(a.company) === normalise(b.company)
+          ? 1
+          : normalise(a.title) === normalise(b.title) && a.duration === b.duration
+            ? 0.5
+            : 0,
+      fields: ['title', 'company', 'duration'],
+      lists: ['achievements', 'technologies'],
+    }),
+    education: diffEntries('$.education', before.education, after.education, {
+      key: (school) => `${normalise(school.degree)}|${normalise(school.school)}`,
+      similar: (a, b) => (normalise(a.school) === normalise(b.school) ? 1 : 0),
+      fields: ['degree', 'school', 'year', 'gpa'],
+      lists: [],
+    }),
+    skills: diffList('$.skills', before.skills, after.skills),
+    projects: diffEntries('$.projects', before.projects, after.projects, {
+      key: (project) => normalise(project.name),
+      similar: (a, b) => (a.url && a.url === b.url ? 1 : similarity(a.name, b.name)),
+      fields: ['name', 'description', 'url'],
+      lists: ['technologies'],
+    }),
+    certifications: diffList('$.certifications', before.certifications, after.certifications),
+  };
+
+  return {
+    sections: RESUME_DIFF_SECTIONS.filter((section) => changes[section].length > 0).map(
+      (section) => ({ section, changes: changes[section] })
+    ),
+  };
+}
+
+interface ResumeVersionRow {
+  id: string;
+  resume_id: string;
+  parent_id: string | null;
+  restored_from: string | null;
+  job_id: string | null;
+  job: string | null;
+  generator: string;
+  settings: string;
+  note: string | null;
+  content: string;
+  created_at: string;
+}
+
+function toVersion(row: ResumeVersionRow): ResumeVersion {
+  return {
+    id: row.id,
+    resumeId: row.resume_id,
+    ...(row.parent_id !== null && { parentId: row.parent_id }),
+    ...(row.restored_from !== null && { restoredFrom: row.restored_from }),
+    ...(row.job !== null && { job: JSON.parse(row.job) }),
+    generator: row.generator,
+    settings: JSON.parse(row.settings || '{}'),
+    ...(row.note !== null && { note: row.note }),
+    resume: JSON.parse(row.content),
+    createdAt: row.created_at,
+  };
+}
+
+type NewVersion = Omit<ResumeVersion, 'id' | 'createdAt'>;
+
+export class ResumeVersionRepository {
+  constructor(
+    private readonly db: DatabaseService = getDatabase(),
+    private readonly events: EventLogService | null = null
+  ) {}
+
+  /**
+   * Add a version. Without a `parentId` it follows the latest version of the resume.
+   * Throws ResumeVersionNotFoundError for an unknown parent.
+   */
+  async create(input: CreateResumeVersionInput): Promise<ResumeVersion> {
+    const created = await this.db.transaction((db) => {
+      const parent = input.parentId ? this.select(db, input.parentId) : undefined;
+      if (input.parentId && !parent) throw new ResumeVersionNotFoundError(input.parentId);
+      if (parent && input.resumeId && input.resumeId !== parent.resumeId) {
+        throw new Error(`Version ${parent.id} belongs to resume ${parent.resumeId}`);
+      }
+
+      const resumeId = parent?.resumeId ?? input.resumeId ?? `resume_${crypto.randomUUID()}`;
+      const versions: ResumeVersion[] = [];
+      let parentId = parent?.id ?? this.selectHead(db, resumeId)?.id;
+      if (!parentId && input.original) {
+        const original = this.insert(db, {
+          resumeId,
+          generator: 'original',
+          settings: {},
+          resume: input.original,
+        });
+        versions.push(original);
+        parentId = original.id;
+      }
+      versions.push(
+        this.insert(db, {
+          resumeId,
+          ...(parentId && { parentId }),
+          ...(input.job && { job: input.job }),
+          generator: input.generator,
+          settings: input.settings ?? {},
+          ...(input.note && { note: input.note }),
+          resume: input.resume,
+        })
+      );
+      return versions;
+    });
+
+    for (const version of created) await this.publish(version);
+    return created[created.length - 1];
+  }
+
+  /**
+   * Bring back an old version's content as the newest version of its resume
+   */
+  async restore(versionId: string, note?: string): Promise<ResumeVersion> {
+    const version = await this.db.transaction((db) => {
+      const source = this.select(db, versionId);
+      if (!source) throw new ResumeVersionNotFoundError(versionId);
+      const head = this.selectHead(db, source.resumeId)!;
+      return this.insert(db, {
+        resumeId: source.resumeId,
+        parentId: head.id,
+        restoredFrom: source.id,
+        ...(source.job && { job: source.job }),
+        generator: 'restore',
+        settings: {},
+        ...(note && { note }),
+        resume: source.resume,
+      });
+    });
+    await this.publish(version);
+    return version;
+  }
+
+  async findById(id: string): Promise<ResumeVersion | null> {
+    const row = await this.db.queryOne<ResumeVersionRow>(
+      'SELECT * FROM resume_versions WHERE id = ?',
+      [id]
+    );
+    return row ? toVersion(row) : null;
+  }
+
+  /** Every version of a resume, oldest first; parentId links them into the graph */
+  async history(resumeId: string): Promise<ResumeVersion[]> {
+    const rows = await this.db.query<ResumeVersionRow>(
+      'SELECT * FROM resume_versions WHERE resume_id = ? ORDER BY created_at, rowid',
+      [resumeId]
+    );
+    return rows.map(toVersion);
+  }
+
+  /** The latest version of a resume */
+  async head(resumeId: string): Promise<ResumeVersion | null> {
+    return (await this.db.transaction((db) => this.selectHead(db, resumeId))) ?? null;
+  }
+
+  /** The version and its ancestors, from the first version down to it */
+  async lineage(id: string): Promise<ResumeVersion[]> {
+    const rows = await this.db.query<ResumeVersionRow>(
+      `WITH RECURSIVE chain (id, depth) AS (
+        SELECT id, 0 FROM resume_versions WHERE id = ?
+        UNION ALL
+        SELECT v.parent_id, chain.depth + 1 FROM resume_versions v
+        JOIN chain ON v.id = chain.id
+        WHERE v.parent_id IS NOT NULL
+      )
+      SELECT r.* FROM chain JOIN resume_versions r ON r.id = chain.id ORDER BY chain.depth DESC`,
+      [id]
+    );
+    return rows.map(toVersion);
+  }
+
+  /** Versions tailored for a job, newest first */
+  async forJob(jobId: string): Promise<ResumeVersion[]> {
+    const rows = await this.db.query<ResumeVersionRow>(
+      'SELECT * FROM resume_versions WHERE job_id = ? ORDER BY created_at DESC, rowid DESC',
+      [jobId]
+    );
+    return rows.map(toVersion);
+  }
+
+  /**
+   * What changed from one version to another. Throws ResumeVersionNotFoundError for either id.
+   */
+  async diff(fromId: string, toId: string): Promise<ResumeDiff> {
+    const [from, to] = await Promise.all([this.findById(fromId), this.findById(toId)]);
+    if (!from) throw new ResumeVersionNotFoundError(fromId);
+    if (!to) throw new ResumeVersionNotFoundError(toId);
+    return diffResumes(from.resume, to.resume);
+  }
+
+  private select(db: Database, id: string): ResumeVersion | undefined {
+    const [row] = selectRows<ResumeVersionRow>(db, 'SELECT * FROM resume_versions WHERE id = ?', [
+      id,
+    ]);
+    return row && toVersion(row);
+  }
+
+  private selectHead(db: Database, resumeId: string): ResumeVersion | undefined {
+    const [row] = selectRows<ResumeVersionRow>(
+      db,
+      'SELECT * FROM resume_versions WHERE resume_id = ? ORDER BY created_at DESC, rowid DESC LIMIT 1',
+      [resumeId]
+    );
+    return row && toVersion(row);
+  }
+
+  private insert(db: Database, version: NewVersion): ResumeVersion {
+    const record: ResumeVersion = {
+      id: `ver_${crypto.randomUUID()}`,
+      ...version,
+      createdAt: new Date().toISOString(),
+    };
+    db.run(
+      `INSERT INTO resume_versions (
+        id, resume_id, parent_id, restored_from, job_id, job, generator, settings, note,
+        content, created_at
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+      [
+        record.id,
+        record.resumeId,
+        record.parentId ?? null,
+        record.restoredFrom ?? null,
+        record.job?.id ?? null,
+        record.job ? JSON.stringify(record.job) : null,
+        record.generator,
+        JSON.stringify(record.settings),
+        record.note ?? null,
+        JSON.stringify(record.resume),
+        record.createdAt,
+      ]
+    );
+    return record;
+  }
+
+  /** Append the new version to the event log; the write has committed, so failures only warn */
+  private async publish(version: ResumeVersion): Promise<void> {
+    if (!this.events) return;
+    try {
+      await this.events.append({
+        type: 'resume.version_created',
+        source: 'resumes',
+        data: {
+          versionId: version.id,
+          resumeId: version.resumeId,
+          parentId: version.parentId,
+          restoredFrom: version.restoredFrom,
+          jobId: version.job?.id,
+          generator: version.generator,
+        },
+      });
+    } catch (e) {
+      console.warn('[ResumeVersionRepository] event append failed:', (e as Error).message);
+    }
+  }
+}
+
+let sharedRepository: ResumeVersionRepository | null = null;
+
+export function getResumeVersionRepository(): ResumeVersionRepository {
+  if (!sharedRepository) {
+    sharedRepository = new ResumeVersionRepository(getDatabase(), getEventLog());
+  }
+  return sharedRepository;
+}
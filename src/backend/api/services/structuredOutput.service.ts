@@ -0,0 +1,151 @@
+/**
+ * Structured Output
+ * JSON extraction and JSON Schema validation for model replies
+ * Supports the schema subset used by our prompts: type, properties, required, items, enum,
+ * additionalProperties, string length and pattern, array length and numeric bounds
+ */
+
+export interface JsonSchema {
+  type?: 'object' | 'array' | 'string' | 'number' | 'integer' | 'boolean' | 'null';
+  description?: string;
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  additionalProperties?: boolean | JsonSchema;
+  items?: JsonSchema;
+  enum?: Array<string | number | boolean | null>;
+  minLength?: number;
+  maxLength?: number;
+  /** Regular expression searched for in the string; anchor it with ^ and $ to match it all */
+  pattern?: string;
+  minItems?: number;
+  maxItems?: number;
+  minimum?: number;
+  maximum?: number;
+}
+
+export type StructuredResult<T> =
+  | { ok: true; data: T; repairs: number }
+  | {
+      ok: false;
+      error: 'invalid_json' | 'schema_mismatch';
+      /** Validation errors from the last attempt, e.g. "$.skills[0]: expected string" */
+      errors: string[];
+      /** The last reply as received */
+      raw: string;
+      repairs: number;
+    };
+
+function typeOf(value: unknown): string {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  return typeof value;
+}
+
+function matchesType(value: unknown, type: NonNullable<JsonSchema['type']>): boolean {
+  switch (type) {
+    case 'integer':
+      return Number.isInteger(value);
+    case 'number':
+      return typeof value === 'number' && Number.isFinite(value);
+    case 'object':
+      return typeOf(value) === 'object';
+    default:
+      return typeOf(value) === type;
+  }
+}
+
+/**
+ * Validate a value against a schema; returns one message per violation (empty when valid)
+ */
+export function validateJsonSchema(value: unknown, schema: JsonSchema, at = '$'): string[] {
+  if (schema.type && !matchesType(value, schema.type)) {
+    return [`${at}: expected ${schema.type}, got ${typeOf(value)}`];
+  }
+  if (schema.enum && !schema.enum.some((v) => v === value)) {
+    return [`${at}: must be one of ${schema.enum.map((v) => JSON.stringify(v)).join(', ')}`];
+  }
+
+  const errors: string[] = [];
+
+  if (typeof value === 'string') {
+    if (schema.minLength !== undefined && value.length < schema.minLength) {
+      errors.push(`${at}: must be at least ${schema.minLength} characters`);
+    }
+    if (schema.maxLength !== undefined && value.length > schema.maxLength) {
+      errors.push(`${at}: must be at most ${schema.maxLength} characters`);
+    }
+    if (schema.pattern !== undefined && !new RegExp(schema.pattern).test(value)) {
+      errors.push(`${at}: must match ${schema.pattern}`);
+    }
+  }
+
+  if (typeof value === 'number') {
+    if (schema.minimum !== undefined && value < schema.minimum) {
+      errors.push(`${at}: must be >= ${schema.minimum}`);
+    }
+    if (schema.maximum !== undefined && value > schema.maximum) {
+      errors.push(`${at}: must be <= ${schema.maximum}`);
+    }
+  }
+
+  if (Array.isArray(value)) {
+    if (schema.minItems !== undefined && value.length < schema.minItems) {
+      errors.push(`${at}: must have at least ${schema.minItems} items`);
+    }
+    if (schema.maxItems !== undefined && value.length > schema.maxItems) {
+      errors.push(`${at}: must have at most ${schema.maxItems} items`);
+    }
+    if (schema.items) {
+      value.forEach((item, i) =>
+        errors.push(...validateJsonSchema(item, schema.items!, `${at}[${i}]`))
+      );
+    }
+  }
+
+  if (typeOf(value) === 'object') {
+    const object = value as Record<string, unknown>;
+    const properties = schema.properties || {};
+
+    for (const key of schema.required || []) {
+      if (object[key] === undefined) errors.push(`${at}.${key}: is required`);
+    }
+    for (const [key, child] of Object.entries(object)) {
+      if (properties[key]) {
+        errors.push(...validateJsonSchema(child, properties[key], `${at}.${key}`));
+      } else if (schema.additionalProperties === false) {
+        errors.push(`${at}.${key}: is not allowed`);
+      } else if (typeof schema.additionalProperties === 'object') {
+        errors.push(...validateJsonSchema(child, schema.additionalProperties, `${at}.${key}`));
+      }
+    }
+  }
+
+  return errors;
+}
+
+/**
+ * Parse the JSON in a model reply, tolerating markdown fences and prose around it
+ */
+export function parseJsonReply(
+  text: string
+): { ok: true; value: unknown } | { ok: false; error: string } {
+  const start = text.search(/[[{]/);
+  if (start === -1) return { ok: false, error: 'no JSON found in reply' };
+
+  const fenced = text.match(/```(?:json)?\s*([\s\S]*?)```/i);
+  const candidates = [text.trim(), fenced?.[1].trim()];
+  // Fall back to the outermost {...} or [...] span
+  const end = Math.max(text.lastIndexOf('}'), text.lastIndexOf(']'));
+  if (end > start) candidates.push(text.slice(start, end + 1));
+
+  let lastError = 'no JSON found in reply';
+  for (const candidate of candidates) {
+    if (!candidate) continue;
+    try {
+      return { ok: true, value: JSON.parse(candidate) };
+    } catch (e) {
+      lastError = (e as Error).message;
+    }
+  }
+  return { ok: false, error: lastError };
+}
@@ -3,8 +3,7 @@
  * Verifies integration with LLM abstraction layer and RAG system
  */
 
-import { LLMAbstractionLayer } from './llm-abstraction.service';
-import { RAGSystem } from './rag-system.service';
+import { getLLMService, getRAGSystem } from './llm-abstraction.service';
 import {
   EnhancedAICoverLetterGenerator,
   CoverLetterGenerationRequest,
@@ -19,8 +18,8 @@ async function testCoverLetterGenerator() {
 
   try {
     // Initialize services
-    const llmService = new LLMAbstractionLayer();
-    const ragSystem = new RAGSystem();
+    const llmService = getLLMService();
+    const ragSystem = getRAGSystem();
 
     // Initialize cover letter generator
     const generator = new EnhancedAICoverLetterGenerator(llmService, ragSystem);
@@ -0,0 +1,162 @@
+/**
+ * Tokenizer
+ * Per-model token counting for cost and context-window accounting
+ * Counts are offline approximations of each family's tokenizer: text is pre-tokenized with the
+ * GPT-4 split pattern and each piece is costed by that family's merge behaviour. Exact
+ * tokenizers (e.g. tiktoken) can be plugged in per family with registerTokenizer.
+ */
+
+export type TokenizerFamily = 'o200k' | 'cl100k' | 'claude' | 'sentencepiece' | 'gemini';
+
+export type TokenCounter = (text: string) => number;
+
+interface FamilyProfile {
+  /** Latin words up to this length are usually a single token */
+  wholeWordChars: number;
+  /** Average characters per token for longer words */
+  charsPerPiece: number;
+  /** Tokens per non-Latin letter (CJK, Cyrillic, ...) */
+  nonLatinPerChar: number;
+  /** Numbers are split into groups of this many digits */
+  digitsPerToken: number;
+  punctuationPerToken: number;
+  /** Chat formatting tokens added per message */
+  perMessage: number;
+}
+
+const PROFILES: Record<TokenizerFamily, FamilyProfile> = {
+  o200k: {
+    wholeWordChars: 9,
+    charsPerPiece: 7,
+    nonLatinPerChar: 0.6,
+    digitsPerToken: 3,
+    punctuationPerToken: 2,
+    perMessage: 3,
+  },
+  cl100k: {
+    wholeWordChars: 8,
+    charsPerPiece: 6,
+    nonLatinPerChar: 1,
+    digitsPerToken: 3,
+    punctuationPerToken: 2,
+    perMessage: 3,
+  },
+  // Claude's tokenizer is less efficient than cl100k on English
+  claude: {
+    wholeWordChars: 7,
+    charsPerPiece: 5,
+    nonLatinPerChar: 1,
+    digitsPerToken: 3,
+    punctuationPerToken: 2,
+    perMessage: 4,
+  },
+  // 32k SentencePiece vocabularies (Llama 2, Mistral, Code Llama) split every digit
+  sentencepiece: {
+    wholeWordChars: 6,
+    charsPerPiece: 4,
+    nonLatinPerChar: 1,
+    digitsPerToken: 1,
+    punctuationPerToken: 1,
+    perMessage: 4,
+  },
+  // Gemini's 256k vocabulary is close to o200k
+  gemini: {
+    wholeWordChars: 9,
+    charsPerPiece: 7,
+    nonLatinPerChar: 0.6,
+    digitsPerToken: 1,
+    punctuationPerToken: 2,
+    perMessage: 4,
+  },
+};
+
+// The cl100k/o200k pre-tokenizer split: contractions, words, digit runs, punctuation, whitespace
+const PRE_TOKEN = /'(?:s|t|re|ve|m|ll|d)| ?\p{L}+| ?\p{N}+| ?[^\s\p{L}\p{N}]+|\s+/giu;
+
+const customCounters = new Map<TokenizerFamily, TokenCounter>();
+
+/**
+ * Tokenizer family for a model id; unknown models are counted as cl100k
+ */
+export function tokenizerFamilyFor(model = ''): TokenizerFamily {
+  const id = model.toLowerCase();
+  if (/gpt-4o|gpt-4\.1|^o\d|chatgpt/.test(id)) return 'o200k';
+  if (/claude/.test(id)) return 'claude';
+  if (/gemini|gemma/.test(id)) return 'gemini';
+  // Llama 3 moved to a 128k tiktoken vocabulary
+  if (/llama-?3/.test(id)) return 'cl100k';
+  if (/llama|mistral|mixtral|codellama|vicuna/.test(id)) return 'sentencepiece';
+  return 'cl100k';
+}
+
+/**
+ * Use an exact tokenizer for a model family instead of the built-in approximation
+ */
+export function registerTokenizer(family: TokenizerFamily, count: TokenCounter | null): void {
+  if (count) customCounters.set(family, count);
+  else customCounters.delete(family);
+}
+
+export function countTokens(text: string, model?: string): number {
+  if (!text) return 0;
+  const family = tokenizerFamilyFor(model);
+  const custom = customCounters.get(family);
+  if (custom) return custom(text);
+
+  const profile = PROFILES[family];
+  let tokens = 0;
+  for (const [match] of text.matchAll(PRE_TOKEN)) {
+    const piece = match.trimStart() || match;
+    if (/^\s+$/.test(piece)) {
+      tokens += 1;
+    } else if (/^\p{L}+$/u.test(piece)) {
+      tokens += countWord(piece, profile);
+    } else if (/^\p{N}+$/u.test(piece)) {
+      tokens += Math.ceil(piece.length / profile.digitsPerToken);
+    } else {
+      tokens += Math.ceil(piece.length / profile.punctuationPerToken);
+    }
+  }
+  return tokens;
+}
+
+function countWord(word: string, profile: FamilyProfile): number {
+  if (!/^[a-z]+$/i.test(word)) return Math.ceil(word.length * profile.nonLatinPerChar);
+  if (word.length <= profile.wholeWordChars) return 1;
+  return Math.ceil(word.length / profile.charsPerPiece);
+}
+
+/**
+ * Tokens for a chat request, including per-message formatting and the reply primer
+ */
+export function countMessageTokens(
+  messages: Array<{ role: string; content: string }>,
+  model?: string
+): number {
+  const { perMessage } = PROFILES[tokenizerFamilyFor(model)];
+  return messages.reduce(
+    (total, message) => total + perMessage + countTokens(message.content, model),
+    3
+  );
+}
+
+/**
+ * Cut text to at most `maxTokens`, preferring a word boundary
+ */
+export function truncateToTokens(text: string, maxTokens: number, model?: string): string {
+  if (maxTokens <= 0) return '';
+  if (countTokens(text, model) <= maxTokens) return text;
+
+  // Binary search the longest prefix that fits
+  let low = 0;
+  let high = text.length;
+  while (low < high) {
+    const mid = Math.ceil((low + high) / 2);
+    if (countTokens(text.slice(0, mid), model) <= maxTokens) low = mid;
+    else high = mid - 1;
+  }
+
+  const cut = text.slice(0, low);
+  const boundary = cut.search(/\s\S*$/);
+  return boundary > low / 2 ? cut.slice(0, boundary) : cut;
+}
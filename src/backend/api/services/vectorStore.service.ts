@@ -0,0 +1,267 @@
+/**
+ * Vector Store
+ * Persistence for the RAG system: indexed job descriptions and the embeddings of their chunks
+ * Jobs are upserted and deleted one at a time; a job's vectors are replaced together with it
+ * Also keeps the ANN graph of each embedding model so it need not be rebuilt on start
+ * Stored in the vector database, apart from the main database (see getVectorDatabase)
+ */
+
+import { DatabaseService, getDatabase, getVectorDatabase, Row } from './database.service';
+import type { HnswGraph } from './hnswIndex.service';
+import type { JobDescription, VectorEmbedding } from './rag-system.service';
+
+export interface EmbeddingQuery {
+  jobId?: string;
+  model?: string;
+  ids?: string[];
+}
+
+export type StoredChunk = Omit<VectorEmbedding, 'vector'>;
+
+export interface VectorStore {
+  /** Insert or replace a job and all of its embeddings */
+  upsertJob(job: JobDescription, embeddings: VectorEmbedding[]): Promise<void>;
+  /** Replace the vector and model of existing embeddings, matched by id */
+  updateEmbeddings(embeddings: VectorEmbedding[]): Promise<void>;
+  /** Remove a job and its embeddings; false if it was not stored */
+  deleteJob(jobId: string): Promise<boolean>;
+  getJob(jobId: string): Promise<JobDescription | null>;
+  listJobs(): Promise<JobDescription[]>;
+  /** Embeddings matching every given criterion, in job and chunk order */
+  getEmbeddings(query?: EmbeddingQuery): Promise<VectorEmbedding[]>;
+  /** Like getEmbeddings, without the vectors */
+  getChunks(query?: EmbeddingQuery): Promise<StoredChunk[]>;
+  /** Number of stored embeddings per model */
+  countEmbeddings(): Promise<Record<string, number>>;
+  getIndex(model: string): Promise<HnswGraph | null>;
+  saveIndex(model: string, graph: HnswGraph): Promise<void>;
+}
+
+interface JobRow {
+  data: string;
+}
+
+interface IndexRow {
+  graph: string;
+}
+
+interface ChunkRow {
+  id: string;
+  job_id: string;
+  type: VectorEmbedding['metadata']['type'];
+  chunk_index: number;
+  content: string;
+  model: string;
+}
+
+interface VectorRow extends ChunkRow {
+  vector: Uint8Array;
+}
+
+// Vectors are stored as float32, which is the precision embedding models produce anyway
+export function encodeVector(vector: number[]): Uint8Array {
+  return new Uint8Array(Float32Array.from(vector).buffer);
+}
+
+export function decodeVector(bytes: Uint8Array): number[] {
+  const aligned = bytes.buffer.slice(bytes.byteOffset, bytes.byteOffset + bytes.byteLength);
+  return Array.from(new Float32Array(aligned));
+}
+
+// Children first, so dropping never trips the rag_vectors foreign key
+const LEGACY_TABLES = ['rag_vectors', 'rag_indexes', 'rag_jobs'];
+
+function toJob(row: JobRow): JobDescription {
+  const job = JSON.parse(row.data) as JobDescription;
+  if (job.metadata.postedDate) {
+    job.metadata.postedDate = new Date(job.metadata.postedDate);
+  }
+  return job;
+}
+
+function toChunk(row: ChunkRow): StoredChunk {
+  return {
+    id: row.id,
+    model: row.model,
+    content: row.content,
+    metadata: { type: row.type, jobId: row.job_id, chunkIndex: row.chunk_index },
+  };
+}
+
+function toEmbedding(row: VectorRow): VectorEmbedding {
+  return { ...toChunk(row), vector: decodeVector(row.vector) };
+}
+
+/**
+ * Move jobs, vectors and graphs indexed while they lived in the main database into the vector
+ * database, then drop them from the main one (no-op once moved). Returns how many jobs moved.
+ */
+export async function moveLegacyVectors(
+  from: DatabaseService = getDatabase(),
+  to: DatabaseService = getVectorDatabase()
+): Promise<number> {
+  const placeholders = LEGACY_TABLES.map(() => '?').join(', ');
+  const tables = await from.query<{ name: string }>(
+    `SELECT name FROM sqlite_master WHERE type = 'table' AND name IN (${placeholders})`,
+    LEGACY_TABLES
+  );
+  if (tables.length === 0) return 0;
+
+  const rows = new Map<string, Row[]>();
+  for (const { name } of tables) {
+    rows.set(name, await from.query(`SELECT * FROM ${name}`));
+  }
+
+  // Parents first; anything indexed into the vector database meanwhile is newer and kept
+  await to.transaction((db) => {
+    for (const table of [...LEGACY_TABLES].reverse()) {
+      for (const row of rows.get(table) ?? []) {
+        const columns = Object.keys(row);
+        db.run(
+          `INSERT OR IGNORE INTO ${table} (${columns.join(', ')})
+           VALUES (${columns.map(() => '?').join(', ')})`,
+          Object.values(row)
+        );
+      }
+    }
+  });
+  await from.transaction((db) => {
+    for (const { name } of tables) db.run(`DROP TABLE ${name}`);
+  });
+
+  return rows.get('rag_jobs')?.length ?? 0;
+}
+
+/**
+ * Vector store in the embedded SQLite vector database, so indexed jobs survive restarts
+ */
+export class SqliteVectorStore implements VectorStore {
+  constructor(private readonly db: DatabaseService = getVectorDatabase()) {}
+
+  async upsertJob(job: JobDescription, embeddings: VectorEmbedding[]): Promise<void> {
+    const now = new Date().toISOString();
+
+    await this.db.transaction((db) => {
+      db.run(
+        `INSERT INTO rag_jobs (id, title, company, data, created_at, updated_at)
+         VALUES (?, ?, ?, ?, ?, ?)
+         ON CONFLICT (id) DO UPDATE SET
+           title = excluded.title,
+           company = excluded.company,
+           data = excluded.data,
+           updated_at = excluded.updated_at`,
+        [job.id, job.title, job.company, JSON.stringify(job), now, now]
+      );
+      db.run('DELETE FROM rag_vectors WHERE job_id = ?', [job.id]);
+      for (const embedding of embeddings) {
+        db.run(
+          `INSERT INTO rag_vectors (id, job_id, type, chunk_index, content, model, vector)
+           VALUES (?, ?, ?, ?, ?, ?, ?)`,
+          [
+            embedding.id,
+            job.id,
+            embedding.metadata.type,
+            embedding.metadata.chunkIndex,
+            embedding.content,
+            embedding.model,
+            encodeVector(embedding.vector),
+          ]
+        );
+      }
+    });
+  }
+
+  async updateEmbeddings(embeddings: VectorEmbedding[]): Promise<void> {
+    if (embeddings.length === 0) return;
+
+    await this.db.transaction((db) => {
+      for (const embedding of embeddings) {
+        db.run('UPDATE rag_vectors SET model = ?, vector = ? WHERE id = ?', [
+          embedding.model,
+          encodeVector(embedding.vector),
+          embedding.id,
+        ]);
+      }
+    });
+  }
+
+  async deleteJob(jobId: string): Promise<boolean> {
+    // Vectors are deleted explicitly as well, so they never outlive the job if the cascade is off
+    return this.db.transaction((db) => {
+      db.run('DELETE FROM rag_vectors WHERE job_id = ?', [jobId]);
+      db.run('DELETE FROM rag_jobs WHERE id = ?', [jobId]);
+      return db.getRowsModified() > 0;
+    });
+  }
+
+  async getJob(jobId: string): Promise<JobDescription | null> {
+    const row = await this.db.queryOne<JobRow>('SELECT data FROM rag_jobs WHERE id = ?', [jobId]);
+    return row ? toJob(row) : null;
+  }
+
+  async listJobs(): Promise<JobDescription[]> {
+    const rows = await this.db.query<JobRow>('SELECT data FROM rag_jobs ORDER BY created_at, id');
+    return rows.map(toJob);
+  }
+
+  async getEmbeddings(query: EmbeddingQuery = {}): Promise<VectorEmbedding[]> {
+    const rows = await this.selectVectors<VectorRow>('v.*', query);
+    return rows.map(toEmbedding);
+  }
+
+  async getChunks(query: EmbeddingQuery = {}): Promise<StoredChunk[]> {
+    const rows = await this.selectVectors<ChunkRow>(
+      'v.id, v.job_id, v.type, v.chunk_index, v.content, v.model',
+      query
+    );
+    return rows.map(toChunk);
+  }
+
+  async countEmbeddings(): Promise<Record<string, number>> {
+    const rows = await this.db.query<{ model: string; count: number }>(
+      'SELECT model, COUNT(*) AS count FROM rag_vectors GROUP BY model'
+    );
+    return Object.fromEntries(rows.map((row) => [row.model, row.count]));
+  }
+
+  async getIndex(model: string): Promise<HnswGraph | null> {
+    const row = await this.db.queryOne<IndexRow>('SELECT graph FROM rag_indexes WHERE model = ?', [
+      model,
+    ]);
+    return row ? (JSON.parse(row.graph) as HnswGraph) : null;
+  }
+
+  async saveIndex(model: string, graph: HnswGraph): Promise<void> {
+    await this.db.run(
+      `INSERT INTO rag_indexes (model, graph, updated_at) VALUES (?, ?, ?)
+       ON CONFLICT (model) DO UPDATE SET graph = excluded.graph, updated_at = excluded.updated_at`,
+      [model, JSON.stringify(graph), new Date().toISOString()]
+    );
+  }
+
+  private async selectVectors<T>(columns: string, query: EmbeddingQuery): Promise<T[]> {
+    if (query.ids?.length === 0) return [];
+
+    const conditions: string[] = [];
+    const params: string[] = [];
+    if (query.jobId) {
+      conditions.push('v.job_id = ?');
+      params.push(query.jobId);
+    }
+    if (query.model) {
+      conditions.push('v.model = ?');
+      params.push(query.model);
+    }
+    if (query.ids) {
+      conditions.push(`v.id IN (${query.ids.map(() => '?').join(', ')})`);
+      params.push(...query.ids);
+    }
+
+    const where = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+    return this.db.query<T>(
+      `SELECT ${columns} FROM rag_vectors v JOIN rag_jobs j ON j.id = v.job_id ${where}
+       ORDER BY j.created_at, j.id, v.chunk_index`,
+      params
+    );
+  }
+}
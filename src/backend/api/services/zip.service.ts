@@ -0,0 +1,194 @@
+/**
+ * Zip Archives
+ * Writes and reads the zip containers of Office documents (DOCX) with Node's zlib
+ * Supports what those files use: stored or deflated entries, no zip64, no encryption
+ * Inflating is capped, since uploaded archives and PDFs can be decompression bombs
+ */
+
+import zlib from 'zlib';
+
+export interface ZipEntry {
+  name: string;
+  data: Buffer | string;
+}
+
+export interface ReadZipOptions {
+  /** Entries to read; the others are skipped without being inflated */
+  include?: (name: string) => boolean;
+  /** Most bytes all read entries may inflate to together */
+  maxSize?: number;
+}
+
+const LOCAL_HEADER = 0x04034b50;
+const CENTRAL_HEADER = 0x02014b50;
+const END_OF_CENTRAL_DIRECTORY = 0x06054b50;
+const STORED = 0;
+const DEFLATED = 8;
+/** Names are UTF-8 */
+const UTF8_FLAG = 0x0800;
+
+const CRC_TABLE = Array.from({ length: 256 }, (_, n) => {
+  let c = n;
+  for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+  return c >>> 0;
+});
+
+function crc32(data: Buffer): number {
+  let crc = 0xffffffff;
+  for (const byte of data) crc = CRC_TABLE[(crc ^ byte) & 0xff] ^ (crc >>> 8);
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+/** 1980-01-01, the earliest DOS date, so the same entries always make the same archive */
+const DOS_DATE = (0 << 9) | (1 << 5) | 1;
+
+/** Far more than the text of any resume, far less than a decompression bomb */
+export const MAX_INFLATED_SIZE = 8 * 1024 * 1024;
+
+export class InflateLimitError extends Error {
+  constructor(readonly limit: number) {
+    super(`Decompressed data exceeds ${limit} bytes`);
+    this.name = 'InflateLimitError';
+  }
+}
+
+/** What the inflated data of one file may still grow to */
+export interface InflateBudget {
+  remaining: number;
+  /** The size the budget started at, for the error */
+  limit: number;
+}
+
+export function createInflateBudget(limit = MAX_INFLATED_SIZE): InflateBudget {
+  return { remaining: limit, limit };
+}
+
+/**
+ * Inflate with zlib and charge the output to the budget, stopping as soon as it would run out
+ * Throws InflateLimitError then, instead of allocating whatever the data expands to.
+ */
+export function inflateCapped(
+  inflate: (data: Buffer, options: zlib.ZlibOptions) => Buffer,
+  data: Buffer,
+  budget: InflateBudget,
+  options: zlib.ZlibOptions = {}
+): Buffer {
+  let output: Buffer;
+  try {
+    output = inflate(data, { ...options, maxOutputLength: Math.max(budget.remaining, 1) });
+  } catch (e) {
+    if ((e as NodeJS.ErrnoException).code === 'ERR_BUFFER_TOO_LARGE') {
+      throw new InflateLimitError(budget.limit);
+    }
+    throw e;
+  }
+  budget.remaining -= output.length;
+  if (budget.remaining < 0) throw new InflateLimitError(budget.limit);
+  return output;
+}
+
+/**
+ * Zip the entries in order, deflated
+ */
+export function createZip(entries: ZipEntry[]): Buffer {
+  const parts: Buffer[] = [];
+  const central: Buffer[] = [];
+  let offset = 0;
+
+  for (const entry of entries) {
+    const name = Buffer.from(entry.name, 'utf8');
+    const data = Buffer.isBuffer(entry.data) ? entry.data : Buffer.from(entry.data, 'utf8');
+    const compressed = zlib.deflateRawSync(data);
+    const crc = crc32(data);
+
+    const local = Buffer.alloc(30);
+    local.writeUInt32LE(LOCAL_HEADER, 0);
+    local.writeUInt16LE(20, 4); // version needed: 2.0
+    local.writeUInt16LE(UTF8_FLAG, 6);
+    local.writeUInt16LE(DEFLATED, 8);
+    local.writeUInt16LE(0, 10); // time
+    local.writeUInt16LE(DOS_DATE, 12);
+    local.writeUInt32LE(crc, 14);
+    local.writeUInt32LE(compressed.length, 18);
+    local.writeUInt32LE(data.length, 22);
+    local.writeUInt16LE(name.length, 26);
+    local.writeUInt16LE(0, 28); // extra field length
+
+    const header = Buffer.alloc(46);
+    header.writeUInt32LE(CENTRAL_HEADER, 0);
+    header.writeUInt16LE(20, 4); // made by
+    header.writeUInt16LE(20, 6);
+    header.writeUInt16LE(UTF8_FLAG, 8);
+    header.writeUInt16LE(DEFLATED, 10);
+    header.writeUInt16LE(0, 12);
+    header.writeUInt16LE(DOS_DATE, 14);
+    header.writeUInt32LE(crc, 16);
+    header.writeUInt32LE(compressed.length, 20);
+    header.writeUInt32LE(data.length, 24);
+    header.writeUInt16LE(name.length, 28);
+    // Extra, comment, disk, attributes: all zero
+    header.writeUInt32LE(offset, 42);
+
+    parts.push(local, name, compressed);
+    central.push(header, name);
+    offset += local.length + name.length + compressed.length;
+  }
+
+  const directory = Buffer.concat(central);
+  const end = Buffer.alloc(22);
+  end.writeUInt32LE(END_OF_CENTRAL_DIRECTORY, 0);
+  end.writeUInt16LE(entries.length, 8);
+  end.writeUInt16LE(entries.length, 10);
+  end.writeUInt32LE(directory.length, 12);
+  end.writeUInt32LE(offset, 16);
+
+  return Buffer.concat([...parts, directory, end]);
+}
+
+/**
+ * Entries of a zip archive by name. Throws on data that is not a zip it can read, and
+ * InflateLimitError when the entries read would inflate past `maxSize`.
+ */
+export function readZip(zip: Buffer, options: ReadZipOptions = {}): Map<string, Buffer> {
+  const { include = () => true, maxSize = MAX_INFLATED_SIZE } = options;
+  const budget = createInflateBudget(maxSize);
+
+  // The end record is last, after a comment of up to 64 KB
+  let end = -1;
+  for (let i = zip.length - 22; i >= Math.max(0, zip.length - 22 - 0xffff); i--) {
+    if (zip.readUInt32LE(i) === END_OF_CENTRAL_DIRECTORY) {
+      end = i;
+      break;
+    }
+  }
+  if (end === -1) throw new Error('Not a zip archive');
+
+  const entries = new Map<string, Buffer>();
+  const count = zip.readUInt16LE(end + 10);
+  let position = zip.readUInt32LE(end + 16);
+
+  for (let i = 0; i < count; i++) {
+    if (zip.readUInt32LE(position) !== CENTRAL_HEADER) throw new Error('Corrupt zip directory');
+    const method = zip.readUInt16LE(position + 10);
+    const compressedSize = zip.readUInt32LE(position + 20);
+    const nameLength = zip.readUInt16LE(position + 28);
+    const extraLength = zip.readUInt16LE(position + 30);
+    const commentLength = zip.readUInt16LE(position + 32);
+    const localOffset = zip.readUInt32LE(position + 42);
+    const name = zip.toString('utf8', position + 46, position + 46 + nameLength);
+
+    position += 46 + nameLength + extraLength + commentLength;
+    if (!include(name)) continue;
+
+    // Local headers repeat the name and may carry a different extra field
+    const dataStart =
+      localOffset + 30 + zip.readUInt16LE(localOffset + 26) + zip.readUInt16LE(localOffset + 28);
+    const data = zip.subarray(dataStart, dataStart + compressedSize);
+    if (method === STORED) entries.set(name, Buffer.from(data));
+    else if (method === DEFLATED) {
+      entries.set(name, inflateCapped(zlib.inflateRawSync, data, budget));
+    } else throw new Error(`Unsupported zip compression method ${method} for ${name}`);
+  }
+
+  return entries;
+}
@@ -1,9 +1,13 @@
 /**
  * Simple WebSocket server for streaming job progress and events to connected clients
- * Uses 'ws' npm package and listens for events published on process events
+ * Uses 'ws' npm package and relays every event appended to the event log
+ * Clients need an API key with the events:read scope, as for GET /events; others are closed
+ * with 1008 (policy violation)
  */
 
 import WebSocket, { WebSocketServer } from 'ws';
+import { authorizeUpgrade } from './auth.js';
+import { liveEvents } from './services/eventLog.service.js';
 
 let wssRef = null;
 
@@ -12,7 +16,20 @@ export function initWebSocket(server) {
   wssRef = wss;
   console.log('[WebSocket] Server initialized');
 
-  wss.on('connection', (ws) => {
+  wss.on('connection', async (ws, req) => {
+    let error;
+    try {
+      error = await authorizeUpgrade(req, 'events:read');
+    } catch (e) {
+      error = 'auth_failed';
+      console.warn('[WebSocket] Authentication failed:', e.message);
+    }
+    if (error) {
+      ws.close(1008, error);
+      return;
+    }
+    // Gone while its key was checked
+    if (ws.readyState !== WebSocket.OPEN) return;
     console.log('[WebSocket] Client connected');
 
     ws.on('message', (message) => {
@@ -21,7 +38,6 @@ export function initWebSocket(server) {
 
     ws.send(JSON.stringify({ type: 'welcome', ts: new Date().toISOString() }));
 
-    // Example: listen to process events
     const handler = (event) => {
       try {
         ws.send(JSON.stringify(event));
@@ -30,10 +46,10 @@ export function initWebSocket(server) {
       }
     };
 
-    process.on('jobEvent', handler);
+    liveEvents.on('event', handler);
 
     ws.on('close', () => {
-      process.off('jobEvent', handler);
+      liveEvents.off('event', handler);
       console.log('[WebSocket] Client disconnected');
     });
   });
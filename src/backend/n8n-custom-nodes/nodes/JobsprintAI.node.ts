@@ -73,12 +73,24 @@ export class JobsprintAI implements INodeType {
 						value: 'gpt-3.5-turbo',
 					},
 					{
-						name: 'Code-Davinci-002',
-						value: 'code-davinci-002',
+						name: 'GPT-4o Mini',
+						value: 'gpt-4o-mini',
 					},
 					{
-						name: 'Text-Davinci-003',
-						value: 'text-davinci-003',
+						name: 'GPT-4o',
+						value: 'gpt-4o',
+					},
+					{
+						name: 'Claude 3.5 Sonnet',
+						value: 'claude-3-5-sonnet-20241022',
+					},
+					{
+						name: 'Gemini 1.5 Flash',
+						value: 'gemini-1.5-flash',
+					},
+					{
+						name: 'Llama 3.2 3B (Ollama)',
+						value: 'llama3.2:3b',
 					},
 				],
 				default: 'gpt-3.5-turbo',
@@ -9,6 +9,9 @@ import {
   INodeTriggerResponse,
 } from 'n8n-workflow';
 
+const PAGE_SIZE = 100;
+const MAX_PAGES_PER_POLL = 10;
+
 /**
  * Jobsprint Workflow Trigger Node
  *
@@ -108,8 +111,20 @@ export class JobsprintWorkflowTrigger implements INodeType {
             value: 'ai.completed',
           },
           {
-            name: 'Workflow Completed',
-            value: 'workflow.completed',
+            name: 'Application Created',
+            value: 'application.created',
+          },
+          {
+            name: 'Application Status Changed',
+            value: 'application.status_changed',
+          },
+          {
+            name: 'Job Search Completed',
+            value: 'job.search.completed',
+          },
+          {
+            name: 'Connector Connected',
+            value: 'connector.connected',
           },
           {
             name: 'Custom Event',
@@ -265,42 +280,52 @@ export class JobsprintWorkflowTrigger implements INodeType {
 
     if (triggerType === 'event') {
       const eventType = this.getNodeParameter('eventType', 0) as string;
-      const eventFilter = this.getNodeParameter('eventFilter', 0) as string;
+      const eventFilter = this.getNodeParameter('eventFilter', 0) as string | IDataObject;
+      const type = eventType === 'custom' ? this.getNodeParameter('customEvent', 0) : eventType;
+      const filter = typeof eventFilter === 'string' ? eventFilter : JSON.stringify(eventFilter);
 
-      // Check for events
-      try {
-        const response = await this.helpers.httpRequest({
+      // The cursor survives between polls, so every event is emitted exactly once
+      const staticData = this.getWorkflowStaticData('node') as IDataObject;
+      const request = (qs: IDataObject) =>
+        this.helpers.httpRequest({
           method: 'GET',
           url: `${apiUrl}/events`,
           headers: {
             Authorization: `Bearer ${apiKey}`,
           },
           qs: {
-            type: eventType === 'custom' ? this.getNodeParameter('customEvent', 0) : eventType,
-            filter: eventFilter,
-            limit: 100,
+            type,
+            ...(filter && filter !== '{}' ? { filter } : {}),
+            ...qs,
           },
           json: true,
         });
 
-        if (response.events && response.events.length > 0) {
-          // Mark events as processed
-          await this.helpers.httpRequest({
-            method: 'POST',
-            url: `${apiUrl}/events/acknowledge`,
-            headers: {
-              'Content-Type': 'application/json',
-              Authorization: `Bearer ${apiKey}`,
-            },
-            body: {
-              eventIds: response.events.map((e: any) => e.id),
-            },
-            json: true,
-          });
+      try {
+        // First activation: start tailing from the current end of the log
+        if (staticData.cursor === undefined) {
+          const head = await request({ limit: 0 });
+          staticData.cursor = head.cursor;
+          return {
+            workflowData: [],
+          };
+        }
+
+        const events: any[] = [];
+        let cursor = staticData.cursor;
+        for (let page = 0; page < MAX_PAGES_PER_POLL; page++) {
+          const response = await request({ after: cursor, limit: PAGE_SIZE });
+          events.push(...(response.events || []));
+          cursor = response.cursor;
+          if (!response.hasMore) break;
+        }
+        staticData.cursor = cursor;
 
+        if (events.length > 0) {
           return {
-            workflowData: response.events.map((event: any) => ({
+            workflowData: events.map((event: any) => ({
               json: {
+                id: event.id,
                 event: event.type,
                 data: event.data,
                 timestamp: event.timestamp,
@@ -310,7 +335,7 @@ export class JobsprintWorkflowTrigger implements INodeType {
           };
         }
       } catch (error) {
-        // Silently fail on poll errors
+        // Poll errors leave the cursor where it was, so nothing is skipped on the next poll
       }
     }
 
@@ -166,7 +166,7 @@ describe('JobsprintAI Node', () => {
 			(mockContext.getNodeParameter as jest.Mock).mockImplementation((name: string) => {
 				const params: Record<string, any> = {
 					operation: 'code',
-					model: 'code-davinci-002',
+					model: 'gpt-4o-mini',
 					prompt: 'Write a hello function',
 					maxTokens: 500,
 					temperature: 0.5,
@@ -198,7 +198,7 @@ describe('JobsprintAI Node', () => {
 			(mockContext.getNodeParameter as jest.Mock).mockImplementation((name: string) => {
 				const params: Record<string, any> = {
 					operation: 'text',
-					model: 'text-davinci-003',
+					model: 'gpt-4o-mini',
 					prompt: 'Complete this sentence',
 					maxTokens: 100,
 					temperature: 0.7,
@@ -219,7 +219,7 @@ describe('JobsprintAI Node', () => {
 			(mockContext.getNodeParameter as jest.Mock).mockImplementation((name: string) => {
 				const params: Record<string, any> = {
 					operation: 'text',
-					model: 'text-davinci-003',
+					model: 'gpt-4o-mini',
 					prompt: '',
 					maxTokens: 100,
 					temperature: 0.7,
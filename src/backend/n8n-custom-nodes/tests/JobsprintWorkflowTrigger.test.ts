@@ -9,11 +9,14 @@ jest.mock('n8n-workflow', () => ({
 describe('JobsprintWorkflowTrigger Node', () => {
 	let node: JobsprintWorkflowTrigger;
 	let mockContext: Partial<ITriggerFunctions>;
+	let staticData: Record<string, any>;
 
 	beforeEach(() => {
 		node = new JobsprintWorkflowTrigger();
+		staticData = {};
 
 		mockContext = {
+			getWorkflowStaticData: jest.fn().mockReturnValue(staticData),
 			getNodeParameter: jest.fn(),
 			getCredentials: jest.fn().mockResolvedValue({
 				apiUrl: 'https://api.jobsprint.ai',
@@ -75,17 +78,49 @@ describe('JobsprintWorkflowTrigger Node', () => {
 			const result = await pollWithContext();
 
 			expect(result).toEqual({
-				[],
+				workflowData: [],
 			});
 		});
 	});
 
 	describe('Poll - Event Trigger', () => {
-		it('should poll and return events successfully', async () => {
+		it('should start from the end of the log on the first poll', async () => {
+			(mockContext.getNodeParameter as jest.Mock).mockImplementation((name: string) => {
+				const params: Record<string, any> = {
+					triggerType: 'event',
+					eventType: 'file.created',
+					eventFilter: '{}',
+				};
+				return params[name];
+			});
+
+			(mockContext.helpers?.httpRequest as jest.Mock).mockResolvedValue({
+				events: [],
+				cursor: '41',
+				hasMore: false,
+			});
+
+			const pollWithContext = node.poll.bind(mockContext as ITriggerFunctions);
+			const result = await pollWithContext();
+
+			expect(result).toEqual({
+				workflowData: [],
+			});
+			expect(staticData.cursor).toBe('41');
+			expect(mockContext.helpers?.httpRequest).toHaveBeenCalledWith(
+				expect.objectContaining({
+					qs: expect.objectContaining({ limit: 0 }),
+				}),
+			);
+		});
+
+		it('should poll from the stored cursor and advance it', async () => {
+			staticData.cursor = '41';
 			const mockResponse = {
 				events: [
 					{
 						id: 'event-1',
+						cursor: '42',
 						type: 'file.created',
 						data: { file: 'test.txt' },
 						timestamp: '2024-01-06T00:00:00Z',
@@ -93,12 +128,15 @@ describe('JobsprintWorkflowTrigger Node', () => {
 					},
 					{
 						id: 'event-2',
+						cursor: '43',
 						type: 'file.created',
 						data: { file: 'test2.txt' },
 						timestamp: '2024-01-06T01:00:00Z',
 						metadata: { source: 'puter' },
 					},
 				],
+				cursor: '43',
+				hasMore: false,
 			};
 
 			(mockContext.getNodeParameter as jest.Mock).mockImplementation((name: string) => {
@@ -110,16 +148,16 @@ describe('JobsprintWorkflowTrigger Node', () => {
 				return params[name];
 			});
 
-			(mockContext.helpers?.httpRequest as jest.Mock)
-				.mockResolvedValueOnce(mockResponse)
-				.mockResolvedValueOnce({ success: true }); // Acknowledge response
+			(mockContext.helpers?.httpRequest as jest.Mock).mockResolvedValueOnce(mockResponse);
 
 			const pollWithContext = node.poll.bind(mockContext as ITriggerFunctions);
 			const result = await pollWithContext();
 
 			expect(result).toEqual({
+				workflowData: [
 					{
 						json: {
+							id: 'event-1',
 							event: 'file.created',
 							data: { file: 'test.txt' },
 							timestamp: '2024-01-06T00:00:00Z',
@@ -128,6 +166,7 @@ describe('JobsprintWorkflowTrigger Node', () => {
 					},
 					{
 						json: {
+							id: 'event-2',
 							event: 'file.created',
 							data: { file: 'test2.txt' },
 							timestamp: '2024-01-06T01:00:00Z',
@@ -137,23 +176,61 @@ describe('JobsprintWorkflowTrigger Node', () => {
 				],
 			});
 
-			// Verify acknowledge call
-			expect(mockContext.helpers?.httpRequest).toHaveBeenCalledTimes(2);
-			expect(mockContext.helpers?.httpRequest).toHaveBeenNthCalledWith(2, {
-				method: 'POST',
-				url: 'https://api.jobsprint.ai/events/acknowledge',
+			expect(mockContext.helpers?.httpRequest).toHaveBeenCalledTimes(1);
+			expect(mockContext.helpers?.httpRequest).toHaveBeenCalledWith({
+				method: 'GET',
+				url: 'https://api.jobsprint.ai/events',
 				headers: {
-					'Content-Type': 'application/json',
 					Authorization: 'Bearer test-api-key',
 				},
-				body: {
-					eventIds: ['event-1', 'event-2'],
+				qs: {
+					type: 'file.created',
+					after: '41',
+					limit: 100,
 				},
 				json: true,
 			});
+			expect(staticData.cursor).toBe('43');
+		});
+
+		it('should follow hasMore across pages in one poll', async () => {
+			staticData.cursor = '0';
+			(mockContext.getNodeParameter as jest.Mock).mockImplementation((name: string) => {
+				const params: Record<string, any> = {
+					triggerType: 'event',
+					eventType: 'application.created',
+					eventFilter: '{"platform":"indeed"}',
+				};
+				return params[name];
+			});
+
+			(mockContext.helpers?.httpRequest as jest.Mock)
+				.mockResolvedValueOnce({
+					events: [{ id: 'event-1', type: 'application.created', data: {} }],
+					cursor: '100',
+					hasMore: true,
+				})
+				.mockResolvedValueOnce({
+					events: [{ id: 'event-2', type: 'application.created', data: {} }],
+					cursor: '150',
+					hasMore: false,
+				});
+
+			const pollWithContext = node.poll.bind(mockContext as ITriggerFunctions);
+			const result = await pollWithContext();
+
+			expect(result.workflowData).toHaveLength(2);
+			expect(mockContext.helpers?.httpRequest).toHaveBeenNthCalledWith(
+				2,
+				expect.objectContaining({
+					qs: { type: 'application.created', filter: '{"platform":"indeed"}', after: '100', limit: 100 },
+				}),
+			);
+			expect(staticData.cursor).toBe('150');
 		});
 
 		it('should handle custom event type', async () => {
+			staticData.cursor = '0';
 			(mockContext.getNodeParameter as jest.Mock).mockImplementation((name: string) => {
 				const params: Record<string, any> = {
 					triggerType: 'event',
@@ -205,11 +282,12 @@ describe('JobsprintWorkflowTrigger Node', () => {
 			const result = await pollWithContext();
 
 			expect(result).toEqual({
-				[],
+				workflowData: [],
 			});
 		});
 
 		it('should handle API errors gracefully', async () => {
+			staticData.cursor = '7';
 			(mockContext.getNodeParameter as jest.Mock).mockImplementation((name: string) => {
 				const params: Record<string, any> = {
 					triggerType: 'event',
@@ -226,10 +304,11 @@ describe('JobsprintWorkflowTrigger Node', () => {
 			const pollWithContext = node.poll.bind(mockContext as ITriggerFunctions);
 			const result = await pollWithContext();
 
-			// Should return empty array on error
+			// Should return empty array on error and keep the cursor for the next poll
 			expect(result).toEqual({
-				[],
+				workflowData: [],
 			});
+			expect(staticData.cursor).toBe('7');
 		});
 	});
 
@@ -262,18 +341,11 @@ describe('JobsprintWorkflowTrigger Node', () => {
 			expect(eventTypeOptions.options[3].value).toBe('ai.completed');
 		});
 
-		it('should support workflow.completed event', () => {
-			const eventTypeOptions = node.description.properties.find(
-				(prop: any) => prop.name === 'eventType',
-			);
-			expect(eventTypeOptions.options[4].value).toBe('workflow.completed');
-		});
-
 		it('should support custom event type', () => {
 			const eventTypeOptions = node.description.properties.find(
 				(prop: any) => prop.name === 'eventType',
 			);
-			expect(eventTypeOptions.options[5].value).toBe('custom');
+			expect(eventTypeOptions.options[8].value).toBe('custom');
 		});
 	});
 
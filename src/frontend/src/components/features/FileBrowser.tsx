@@ -5,6 +5,7 @@ import { Button } from '@/components/ui/button';
 import { Card, CardHeader, CardTitle, CardContent } from '@/components/ui/card';
 import { Input } from '@/components/ui/input';
 import { List, ListItem } from '@/components/ui/list';
+import { apiFetch } from '@/lib/services/apiClient';
 import { storageService } from '@/lib/services/storage';
 import { puterCloudService } from '@/lib/services/cloudSync';
 import { toast } from '@/hooks/use-toast';
@@ -42,7 +43,7 @@ export function FileBrowser() {
 
   const handleImportProvider = async (provider: string) => {
     try {
-      const res = await fetch(`/api/v1/files/${provider}/list`);
+      const res = await apiFetch(`/api/v1/files/${provider}/list`);
       const data = await res.json();
       setProviderFiles((p) => ({ ...p, [provider]: data.files }));
     } catch (error) {
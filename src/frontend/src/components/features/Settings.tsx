@@ -14,6 +14,7 @@ import { storageService } from '@/lib/services/storage';
 export function SettingsPage() {
   const { toast } = useToast();
   const [anthropicKey, setAnthropicKey] = useState('');
+  const [jobsprintKey, setJobsprintKey] = useState(() => storageService.getApiKey());
   const [stealthMode, setStealthMode] = useState(true);
   const [maxApps, setMaxApps] = useState(50);
   const [notifications, setNotifications] = useState(true);
@@ -21,6 +22,7 @@ export function SettingsPage() {
   const [isImporting, setIsImporting] = useState(false);
 
   const handleSave = () => {
+    storageService.saveApiKey(jobsprintKey.trim());
     toast({
       title: 'Settings Saved',
       description: 'Your configuration has been updated successfully',
@@ -173,6 +175,19 @@ export function SettingsPage() {
           <CardDescription>Configure your API keys for AI-powered features</CardDescription>
         </CardHeader>
         <CardContent className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="jobsprint-key">Jobsprint API Key</Label>
+            <Input
+              id="jobsprint-key"
+              type="password"
+              placeholder="jsk_..."
+              value={jobsprintKey}
+              onChange={(e: ChangeEvent<HTMLInputElement>) => setJobsprintKey(e.target.value)}
+            />
+            <p className="text-xs text-muted-foreground">
+              Sent to the Jobsprint backend with every request; stored on this device only
+            </p>
+          </div>
           <div className="grid gap-4 md:grid-cols-2">
             <div className="space-y-2">
               <Label htmlFor="anthropic-key">Anthropic API Key</Label>
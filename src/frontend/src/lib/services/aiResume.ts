@@ -5,6 +5,7 @@
  */
 
 import { storageService } from './storage';
+import { resumeVersionService } from './resumeVersions';
 
 export interface ResumeData {
   summary: string;
@@ -55,6 +56,10 @@ export interface TailoringConfig {
   emphasisOnExperience: boolean;
   includeMetrics: boolean;
   maxLength: number;
+  /** Records the tailored resume as a new version of this resume */
+  resumeId?: string;
+  /** The version being tailored; defaults to the latest version of the resume */
+  parentVersionId?: string;
 }
 
 export interface TailoringResult {
@@ -65,6 +70,10 @@ export interface TailoringResult {
   recommendations: string[];
   tailoringNotes: string[];
   coverLetter?: string;
+  /** The stored version of the tailored resume, when it was recorded */
+  versionId?: string;
+  /** Why the version could not be recorded; the tailored resume is still returned */
+  versionError?: string;
 }
 
 // AI Provider configuration
@@ -347,13 +356,43 @@ class AIResumeService {
     // Generate cover letter
     const coverLetter = this.generateCoverLetter(resume, targetJob, config.tone);
 
+    const tailoredResume: ResumeData = {
+      ...resume,
+      summary: tailoredSummary,
+      experience: tailoredExperience,
+      skills: tailoredSkills,
+    };
+
+    let versionId: string | undefined;
+    let versionError: string | undefined;
+    if (config.resumeId || config.parentVersionId) {
+      try {
+        const version = await resumeVersionService.record({
+          resumeId: config.resumeId,
+          parentId: config.parentVersionId,
+          job: { id: targetJob.id, title: targetJob.title, company: targetJob.company },
+          generator: 'aiResumeService.tailorResume',
+          settings: {
+            provider: this.config.provider,
+            model: this.config.model,
+            tone: config.tone,
+            emphasisOnExperience: config.emphasisOnExperience,
+            includeMetrics: config.includeMetrics,
+            maxLength: config.maxLength,
+          },
+          resume: tailoredResume,
+          original: resume,
+        });
+        versionId = version.id;
+      } catch (error) {
+        versionError = (error as Error).message;
+      }
+    }
+
     return {
-      tailoredResume: {
-        ...resume,
-        summary: tailoredSummary,
-        experience: tailoredExperience,
-        skills: tailoredSkills,
-      },
+      tailoredResume,
+      ...(versionId && { versionId }),
+      ...(versionError && { versionError }),
       matchScore: matchAnalysis.matchScore,
       matchedKeywords: matchAnalysis.matchedKeywords,
       missingKeywords: matchAnalysis.missingKeywords,
@@ -0,0 +1,40 @@
+/**
+ * API Client
+ * Authenticated fetch for the Jobsprint backend (/api/v1), which answers 401 to requests
+ * without an API key unless JOBSPRINT_API_AUTH=disabled
+ */
+
+import { storageService } from './storage';
+
+/**
+ * A backend request that failed; `error` is the backend's error code when it sent one
+ */
+export class ApiRequestError extends Error {
+  constructor(
+    readonly status: number,
+    readonly error?: string
+  ) {
+    super(
+      status === 401
+        ? 'The Jobsprint API key is missing or invalid; set it in Settings'
+        : `Request failed (${status})${error ? `: ${error}` : ''}`
+    );
+    this.name = 'ApiRequestError';
+  }
+}
+
+// fetch with the API key from Settings sent as X-API-Key
+export function apiFetch(url: string, init: RequestInit = {}): Promise<Response> {
+  const headers = new Headers(init.headers);
+  const apiKey = storageService.getApiKey();
+  if (apiKey && !headers.has('X-API-Key')) headers.set('X-API-Key', apiKey);
+  return fetch(url, { ...init, headers });
+}
+
+// apiFetch for the backend's { ok, ... } JSON responses; throws ApiRequestError unless ok
+export async function apiRequest<T = any>(url: string, init?: RequestInit): Promise<T> {
+  const response = await apiFetch(url, init);
+  const data = await response.json().catch(() => ({}));
+  if (!response.ok || !data.ok) throw new ApiRequestError(response.status, data.error);
+  return data;
+}
@@ -4,7 +4,10 @@
  */
 
 import { Job as JobType } from './jobSearch';
+import type { ResumeData as VersionedResumeData } from './aiResume';
+import { resumeVersionService } from './resumeVersions';
 import { storageService } from './storage';
+import type { ResumeContent } from './storage';
 
 // Define missing types
 export interface ResumeData {
@@ -361,22 +364,54 @@ export class ATSOptimizerService {
     };
 
     const optimized = this.generateOptimizedResume(resumeData, job);
+    const tailoredContent: ResumeContent = {
+      ...originalResume.content,
+      summary: optimized.summary,
+      skills: optimized.skills,
+      experience: optimized.experience,
+    };
 
     await storageService.saveResume({
       ...originalResume,
-      content: {
-        ...originalResume.content,
-        summary: optimized.summary,
-        skills: optimized.skills,
-        experience: optimized.experience,
-      },
+      content: tailoredContent,
       updatedAt: new Date().toISOString(),
     });
 
+    // The stored resume is overwritten, so keep both sides as versions for this job
+    try {
+      await resumeVersionService.record({
+        resumeId,
+        job: { id: job.id, title: job.title, company: job.company },
+        generator: 'atsOptimizerService.tailorResume',
+        resume: this.toVersionedResume(tailoredContent),
+        original: this.toVersionedResume(originalResume.content),
+      });
+    } catch (error) {
+      console.warn(`Resume ${resumeId} tailored but its versions were not recorded:`, error);
+    }
+
     console.log(`Resume ${resumeId} tailored for job: ${job.title} at ${job.company}`);
 
     return optimized;
   }
+
+  // Stored resumes keep each role as one description; versions diff it bullet by bullet
+  private toVersionedResume(content: ResumeContent): VersionedResumeData {
+    return {
+      summary: content.summary,
+      skills: content.skills,
+      experience: content.experience.map((exp) => ({
+        title: exp.title,
+        company: exp.company,
+        duration: exp.duration,
+        achievements: exp.description
+          .split('\n')
+          .map((line) => line.replace(/^\s*[-•*]\s*/, '').trim())
+          .filter(Boolean),
+      })),
+      education: content.education,
+    };
+  }
 }
 
 export const atsOptimizerService = new ATSOptimizerService();
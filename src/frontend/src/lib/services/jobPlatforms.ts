@@ -4,6 +4,7 @@
  * Uses Puppeteer for JavaScript-heavy sites, APIs where available
  */
 
+import { apiFetch } from './apiClient';
 import { SearchFilters, SearchResult, Job } from './jobSearch';
 
 // Platform configuration
@@ -188,7 +189,7 @@ export class JobPlatformService {
         sort: 'date',
       });
 
-      const response = await fetch(`/api/v1/jobs/indeed/search?${params.toString()}`);
+      const response = await apiFetch(`/api/v1/jobs/indeed/search?${params.toString()}`);
       if (!response.ok) throw new Error('Indeed API request failed');
 
       const data = await response.json();
@@ -3,6 +3,7 @@
  * Simulates multi-threaded search across LinkedIn, Indeed, Glassdoor, etc.
  */
 
+import { apiFetch } from './apiClient';
 import { storageService } from './storage';
 import { jobPlatformService } from './jobPlatforms';
 
@@ -1005,7 +1006,7 @@ class JobSearchService {
         params.set('q', filters.keywords || '');
         params.set('l', filters.location || '');
         params.set('page', '0');
-        const resp = await fetch(`/api/v1/jobs/indeed/search?${params.toString()}`);
+        const resp = await apiFetch(`/api/v1/jobs/indeed/search?${params.toString()}`);
         if (!resp.ok) throw new Error('Indeed API request failed');
         const data = await resp.json();
         if (!data || !data.jobs) return [];
@@ -0,0 +1,103 @@
+/**
+ * Resume Version Service
+ * Records every tailored resume as a version on the backend, linked to the version it came from
+ * and the job it was tailored for, so what was sent to each employer can be compared and restored
+ */
+
+import type { ResumeData } from './aiResume';
+import { apiRequest } from './apiClient';
+
+export interface ResumeVersionJob {
+  id: string;
+  title?: string;
+  company?: string;
+  url?: string;
+}
+
+export interface ResumeVersion {
+  id: string;
+  resumeId: string;
+  parentId?: string;
+  restoredFrom?: string;
+  job?: ResumeVersionJob;
+  generator: string;
+  settings: Record<string, unknown>;
+  note?: string;
+  resume: ResumeData;
+  createdAt: string;
+}
+
+export interface RecordVersionInput {
+  resumeId?: string;
+  parentId?: string;
+  job?: ResumeVersionJob;
+  generator: string;
+  settings?: Record<string, unknown>;
+  note?: string;
+  resume: ResumeData;
+  /** The resume the version was made from, kept as the first version of a new history */
+  original?: ResumeData;
+}
+
+export interface ResumeChange {
+  path: string;
+  change: 'added' | 'removed' | 'changed' | 'moved';
+  before?: unknown;
+  after?: unknown;
+  from?: number;
+}
+
+export interface ResumeVersionDiff {
+  from: string;
+  to: string;
+  sections: Array<{ section: string; changes: ResumeChange[] }>;
+}
+
+class ResumeVersionService {
+  // Record a version; throws ApiRequestError when the backend refuses it
+  async record(input: RecordVersionInput): Promise<ResumeVersion> {
+    const data = await apiRequest('/api/v1/resumes/versions', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(input),
+    });
+    return data.version;
+  }
+
+  // Every version of a resume, oldest first
+  async history(resumeId: string): Promise<ResumeVersion[]> {
+    const data = await apiRequest(`/api/v1/resumes/${encodeURIComponent(resumeId)}/versions`);
+    return data.versions;
+  }
+
+  // Versions tailored for a job, newest first
+  async forJob(jobId: string): Promise<ResumeVersion[]> {
+    const params = new URLSearchParams({ jobId });
+    const data = await apiRequest(`/api/v1/resumes/versions?${params.toString()}`);
+    return data.versions;
+  }
+
+  // Section and bullet changes from `against` (default: the parent version) to a version
+  async diff(versionId: string, against?: string): Promise<ResumeVersionDiff> {
+    const params = against ? `?${new URLSearchParams({ against }).toString()}` : '';
+    const data = await apiRequest(
+      `/api/v1/resumes/versions/${encodeURIComponent(versionId)}/diff${params}`
+    );
+    return { from: data.from, to: data.to, sections: data.sections };
+  }
+
+  // Make an old version the newest version of its resume
+  async restore(versionId: string, note?: string): Promise<ResumeVersion> {
+    const data = await apiRequest(
+      `/api/v1/resumes/versions/${encodeURIComponent(versionId)}/restore`,
+      {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ note }),
+      }
+    );
+    return data.version;
+  }
+}
+
+export const resumeVersionService = new ResumeVersionService();
@@ -10,6 +10,7 @@ const STORAGE_KEYS = {
   USER_PROFILE: 'jobsprint_user_profile',
   SAVED_JOBS: 'jobsprint_saved_jobs',
   SEARCH_HISTORY: 'jobsprint_search_history',
+  API_KEY: 'jobsprint_api_key',
 } as const;
 
 export interface UserSettings {
@@ -160,6 +161,23 @@ class StorageService {
     localStorage.setItem(STORAGE_KEYS.SETTINGS, JSON.stringify(merged));
   }
 
+  // Backend API key, kept apart from settings so it is never cloud-synced or exported
+  getApiKey(): string {
+    try {
+      return localStorage.getItem(STORAGE_KEYS.API_KEY) || '';
+    } catch {
+      return '';
+    }
+  }
+
+  saveApiKey(key: string): void {
+    if (key) {
+      localStorage.setItem(STORAGE_KEYS.API_KEY, key);
+    } else {
+      localStorage.removeItem(STORAGE_KEYS.API_KEY);
+    }
+  }
+
   // User Profile
   getUserProfile(): Record<string, unknown> {
     try {
@@ -0,0 +1,503 @@
+/**
+ * Document Fixtures
+ *
+ * PDF and DOCX files built from resume text the way common producers write them, for text
+ * extraction and resume parsing tests. Lines become lines on the page; "\t" splits a line into
+ * a left part and a right-aligned part; blank lines become paragraph gaps.
+ */
+
+import zlib from 'zlib';
+import { createZip } from '../../src/backend/api/services/zip.service';
+
+const PAGE_WIDTH = 612;
+const PAGE_HEIGHT = 792;
+const MARGIN = 72;
+const FONT_SIZE = 11;
+const LEADING = 14;
+
+/** Glyph widths in thousandths of the font size, roughly Helvetica's */
+function glyphWidth(char) {
+  if (/[\sil.,:;'!|()]/.test(char)) return 278;
+  if (/[mwMW@]/.test(char)) return 833;
+  if (/[A-Z]/.test(char)) return 667;
+  return 556;
+}
+
+function textWidth(text) {
+  return ([...text].reduce((sum, char) => sum + glyphWidth(char), 0) * FONT_SIZE) / 1000;
+}
+
+/**
+ * Text placed on pages: one run per part of a line, top to bottom. Pages break at a blank
+ * line once they hold `linesPerPage` lines.
+ */
+function layout(text, linesPerPage = 50) {
+  const pages = [[]];
+  let y = PAGE_HEIGHT - MARGIN;
+  let count = 0;
+  for (const line of text.trimEnd().split('\n')) {
+    if (!line) {
+      if (count >= linesPerPage) {
+        pages.push([]);
+        y = PAGE_HEIGHT - MARGIN;
+        count = 0;
+      } else y -= LEADING;
+      continue;
+    }
+    const [left, ...right] = line.split('\t');
+    const page = pages[pages.length - 1];
+    page.push({ x: MARGIN, y, text: left });
+    for (const part of right) {
+      page.push({ x: PAGE_WIDTH - MARGIN - textWidth(part), y, text: part });
+    }
+    y -= LEADING;
+    count++;
+  }
+  return pages;
+}
+
+const WIN_ANSI = { '€': 0x80, '…': 0x85, '‘': 0x91, '’': 0x92, '“': 0x93, '”': 0x94 };
+Object.assign(WIN_ANSI, { '•': 0x95, '–': 0x96, '—': 0x97 });
+const WIN_ANSI_CHARS = Object.fromEntries(Object.entries(WIN_ANSI).map(([c, b]) => [b, c]));
+
+function winAnsi(text) {
+  return Buffer.from(
+    [...text].map((char) => WIN_ANSI[char] ?? (char.charCodeAt(0) < 256 ? char.charCodeAt(0) : 63))
+  );
+}
+
+/** A literal string: parentheses and backslashes escaped, bytes outside ASCII in octal */
+function literal(bytes) {
+  let out = '(';
+  for (const byte of bytes) {
+    if (byte === 0x28 || byte === 0x29 || byte === 0x5c) out += `\\${String.fromCharCode(byte)}`;
+    else if (byte < 0x20 || byte > 0x7e) out += `\\${byte.toString(8).padStart(3, '0')}`;
+    else out += String.fromCharCode(byte);
+  }
+  return `${out})`;
+}
+
+function simpleFontWidths() {
+  return Array.from({ length: 224 }, (_, i) =>
+    glyphWidth(WIN_ANSI_CHARS[i + 32] ?? String.fromCharCode(i + 32))
+  ).join(' ');
+}
+
+function stream(dict, data, compress) {
+  const body = compress
+    ? zlib.deflateSync(Buffer.from(data, 'latin1'))
+    : Buffer.from(data, 'latin1');
+  const filter = compress ? ' /Filter /FlateDecode' : '';
+  return Buffer.concat([
+    Buffer.from(`<< ${dict}${filter} /Length ${body.length} >>\nstream\n`, 'latin1'),
+    body,
+    Buffer.from('\nendstream', 'latin1'),
+  ]);
+}
+
+/**
+ * A PDF of numbered objects (1 is the catalog) with a classic cross-reference table, or a
+ * cross-reference stream when `xrefStream` is set
+ */
+function writePdf(objects, { xrefStream = false, compressed = new Map() } = {}) {
+  const chunks = [Buffer.from('%PDF-1.7\n%\xe2\xe3\xcf\xd3\n', 'latin1')];
+  let length = chunks[0].length;
+  const offsets = new Map();
+  objects.forEach((object, i) => {
+    if (object === null) return;
+    const chunk = Buffer.concat([
+      Buffer.from(`${i + 1} 0 obj\n`, 'latin1'),
+      Buffer.isBuffer(object) ? object : Buffer.from(object, 'latin1'),
+      Buffer.from('\nendobj\n', 'latin1'),
+    ]);
+    offsets.set(i + 1, length);
+    chunks.push(chunk);
+    length += chunk.length;
+  });
+
+  const size = objects.length + 2;
+  if (xrefStream) {
+    const rows = Buffer.alloc(size * 7);
+    for (let num = 0; num < size - 1; num++) {
+      const row = num * 7;
+      if (offsets.has(num)) {
+        rows.writeUInt8(1, row);
+        rows.writeUInt32BE(offsets.get(num), row + 1);
+      } else if (compressed.has(num)) {
+        const [container, index] = compressed.get(num);
+        rows.writeUInt8(2, row);
+        rows.writeUInt32BE(container, row + 1);
+        rows.writeUInt16BE(index, row + 5);
+      }
+    }
+    rows.writeUInt8(1, (size - 1) * 7);
+    rows.writeUInt32BE(length, (size - 1) * 7 + 1);
+    const xref = stream(
+      `/Type /XRef /Size ${size} /W [1 4 2] /Root 1 0 R`,
+      rows.toString('latin1'),
+      true
+    );
+    chunks.push(Buffer.from(`${size - 1} 0 obj\n`, 'latin1'), xref, Buffer.from('\nendobj\n'));
+  } else {
+    let table = `xref\n0 ${size - 1}\n0000000000 65535 f \n`;
+    for (let num = 1; num < size - 1; num++) {
+      table += offsets.has(num)
+        ? `${String(offsets.get(num)).padStart(10, '0')} 00000 n \n`
+        : '0000000000 65535 f \n';
+    }
+    chunks.push(Buffer.from(`${table}trailer\n<< /Size ${size - 1} /Root 1 0 R >>\n`, 'latin1'));
+  }
+  chunks.push(Buffer.from(`startxref\n${length}\n%%EOF\n`, 'latin1'));
+  return Buffer.concat(chunks);
+}
+
+/**
+ * Line by line with relative moves, like simple report generators. `image` draws an image of
+ * that many bytes, and `padding` adds that much whitespace to the compressed content stream,
+ * so the file inflates to far more than its size.
+ */
+function plainPdf(text, { image = 0, padding = 0 } = {}) {
+  const runs = layout(text).flat();
+  const lines = ['BT', '/F1 11 Tf', `${LEADING} TL`];
+  let lineX = 0;
+  let lineY = 0;
+  for (const run of runs) {
+    const shown = literal(winAnsi(run.text));
+    if (run.x !== lineX || run.y > lineY) {
+      lines.push(`1 0 0 1 ${run.x.toFixed(2)} ${run.y} Tm ${shown} Tj`);
+    } else if (lineY - run.y === LEADING) {
+      lines.push(`${shown} '`);
+    } else if (lineY - run.y === 2 * LEADING) {
+      lines.push(`T* ${shown} '`);
+    } else lines.push(`0 ${run.y - lineY} Td ${shown} Tj`);
+    lineX = run.x;
+    lineY = run.y;
+  }
+  lines.push('ET');
+  if (image) lines.push('q 100 0 0 100 72 72 cm /Im1 Do Q');
+
+  return writePdf([
+    '<< /Type /Catalog /Pages 2 0 R >>',
+    '<< /Type /Pages /Kids [3 0 R] /Count 1 >>',
+    [
+      `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${PAGE_WIDTH} ${PAGE_HEIGHT}]`,
+      `/Resources << /Font << /F1 5 0 R >>${image ? ' /XObject << /Im1 6 0 R >>' : ''} >>`,
+      '/Contents 4 0 R >>',
+    ].join(' '),
+    stream('', lines.join('\n') + ' '.repeat(padding), padding > 0),
+    [
+      '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding',
+      `/FirstChar 32 /LastChar 255 /Widths [${simpleFontWidths()}] >>`,
+    ].join(' '),
+    ...(image
+      ? [
+          stream(
+            [
+              `/Type /XObject /Subtype /Image /Width ${image / 4} /Height 4`,
+              '/ColorSpace /DeviceGray /BitsPerComponent 8',
+            ].join(' '),
+            '\0'.repeat(image),
+            true
+          ),
+        ]
+      : []),
+  ]);
+}
+
+/**
+ * Word by word with absolute positions and kerned pieces, headings in a bold font, fonts in a
+ * compressed object stream, like word processors
+ */
+function wordPdf(text) {
+  const runs = layout(text).flat();
+  const lines = [];
+  for (const run of runs) {
+    const font = /^[A-Z &]+$/.test(run.text) ? '/F2' : '/F1';
+    let x = run.x;
+    for (const word of run.text.split(' ')) {
+      const bytes = winAnsi(word);
+      const cut = Math.ceil(bytes.length / 2);
+      const pieces =
+        bytes.length > 3
+          ? `[${literal(bytes.subarray(0, cut))} 15 ${literal(bytes.subarray(cut))}]`
+          : `[${literal(bytes)}]`;
+      lines.push(`BT ${font} 11 Tf 1 0 0 1 ${x.toFixed(2)} ${run.y} Tm ${pieces} TJ ET`);
+      x += textWidth(`${word} `);
+    }
+  }
+
+  const encoding = [
+    '<< /Type /Encoding /BaseEncoding /WinAnsiEncoding',
+    '/Differences [149 /bullet /endash /emdash] >>',
+  ].join(' ');
+  const font = (name) =>
+    [
+      `<< /Type /Font /Subtype /TrueType /BaseFont /${name} /Encoding ${encoding}`,
+      `/FirstChar 32 /LastChar 255 /Widths [${simpleFontWidths()}] >>`,
+    ].join(' ');
+  const fonts = [font('Calibri'), font('Calibri-Bold')];
+  let header = '';
+  let body = '';
+  fonts.forEach((object, i) => {
+    header += `${5 + i} ${body.length} `;
+    body += `${object}\n`;
+  });
+
+  return writePdf(
+    [
+      '<< /Type /Catalog /Pages 2 0 R >>',
+      '<< /Type /Pages /Kids [3 0 R] /Count 1 >>',
+      [
+        `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${PAGE_WIDTH} ${PAGE_HEIGHT}]`,
+        '/Resources << /Font << /F1 5 0 R /F2 6 0 R >> >> /Contents 4 0 R >>',
+      ].join(' '),
+      stream('', lines.join('\n'), true),
+      null,
+      null,
+      stream(`/Type /ObjStm /N 2 /First ${header.length}`, header + body, true),
+    ],
+    {
+      xrefStream: true,
+      compressed: new Map([
+        [5, [7, 0]],
+        [6, [7, 1]],
+      ]),
+    }
+  );
+}
+
+/**
+ * Glyph ids with a ToUnicode map, a flipped coordinate system, split content streams and a
+ * second page drawn through a form XObject, like browsers printing to PDF
+ */
+function chromePdf(text) {
+  const pages = layout(text, 12);
+  const chars = [...new Set([...text.replace(/[\n\t]/g, '')])].sort();
+  const gid = new Map(chars.map((char, i) => [char, i + 3]));
+  const hex = (value) => value.toString(16).padStart(4, '0');
+  const utf16 = (char) => Buffer.from(char, 'utf16le').swap16().toString('hex');
+
+  const content = (runs) =>
+    runs.map(
+      (run) =>
+        `BT /F1 11 Tf 1 0 0 -1 ${run.x.toFixed(2)} ${PAGE_HEIGHT - run.y} Tm <${[...run.text]
+          .map((char) => hex(gid.get(char)))
+          .join('')}> Tj ET`
+    );
+
+  // Consecutive glyphs for consecutive code points go in one range
+  const ranges = [];
+  for (const char of chars) {
+    const last = ranges[ranges.length - 1];
+    const code = char.codePointAt(0);
+    if (last && last.code + last.count === code && code < 0xd800) last.count++;
+    else ranges.push({ gid: gid.get(char), code, count: 1, char });
+  }
+  const single = ranges.filter((range) => range.count === 1);
+  const multiple = ranges.filter((range) => range.count > 1);
+  const cmap = [
+    '/CIDInit /ProcSet findresource begin 12 dict begin begincmap',
+    '/CMapName /Adobe-Identity-UCS def /CMapType 2 def',
+    '1 begincodespacerange <0000> <FFFF> endcodespacerange',
+    `${single.length} beginbfchar`,
+    ...single.map((range) => `<${hex(range.gid)}> <${utf16(range.char)}>`),
+    'endbfchar',
+    `${multiple.length} beginbfrange`,
+    ...multiple.map(
+      (range) => `<${hex(range.gid)}> <${hex(range.gid + range.count - 1)}> <${utf16(range.char)}>`
+    ),
+    'endbfrange',
+    'endcmap CMapName currentdict /CMap defineresource pop end end',
+  ].join('\n');
+
+  const [first, ...rest] = pages;
+  const firstContent = content(first);
+  const middle = Math.ceil(firstContent.length / 2);
+  const flip = `1 0 0 -1 0 ${PAGE_HEIGHT} cm`;
+  const objects = [
+    '<< /Type /Catalog /Pages 2 0 R >>',
+    [
+      `<< /Type /Pages /Kids [3 0 R 9 0 R] /Count ${pages.length}`,
+      `/Resources << /Font << /F1 6 0 R >> >> /MediaBox [0 0 ${PAGE_WIDTH} ${PAGE_HEIGHT}] >>`,
+    ].join(' '),
+    '<< /Type /Page /Parent 2 0 R /Contents [4 0 R 5 0 R] >>',
+    stream('', [`q ${flip}`, ...firstContent.slice(0, middle)].join('\n'), true),
+    stream('', [...firstContent.slice(middle), 'Q'].join('\n'), true),
+    [
+      '<< /Type /Font /Subtype /Type0 /BaseFont /AAAAAA+Arial /Encoding /Identity-H',
+      '/DescendantFonts [7 0 R] /ToUnicode 8 0 R >>',
+    ].join(' '),
+    [
+      '<< /Type /Font /Subtype /CIDFontType2 /BaseFont /AAAAAA+Arial',
+      '/CIDSystemInfo << /Registry (Adobe) /Ordering (Identity) /Supplement 0 >>',
+      `/DW 1000 /W [3 [${chars.map(glyphWidth).join(' ')}]] >>`,
+    ].join(' '),
+    stream('', cmap, true),
+    null,
+  ];
+  const kids = rest.map((runs, i) => {
+    const page = 10 + i * 3;
+    objects.push(
+      [
+        `<< /Type /Page /Parent 9 0 R /Resources << /XObject << /X1 ${page + 2} 0 R >> >>`,
+        `/Contents ${page + 1} 0 R >>`,
+      ].join(' '),
+      stream('', `q ${flip} /X1 Do Q`, true),
+      stream(
+        [
+          `/Type /XObject /Subtype /Form /BBox [0 0 ${PAGE_WIDTH} ${PAGE_HEIGHT}]`,
+          '/Matrix [1 0 0 1 0 0] /Resources << /Font << /F1 6 0 R >> >>',
+        ].join(' '),
+        content(runs).join('\n'),
+        true
+      )
+    );
+    return `${page} 0 R`;
+  });
+  // Later pages hang off a second level of the page tree
+  objects[8] = `<< /Type /Pages /Parent 2 0 R /Kids [${kids.join(' ')}] /Count ${kids.length} >>`;
+  return writePdf(objects);
+}
+
+const PDF_PRODUCERS = { plain: plainPdf, word: wordPdf, chrome: chromePdf };
+
+/**
+ * A PDF of the text as one of the producers would write it: 'plain', 'word' or 'chrome'
+ */
+export function buildPdf(text, producer = 'plain') {
+  return PDF_PRODUCERS[producer](text);
+}
+
+/**
+ * A plain PDF of the text that inflates to far more than its size: an `image` of that many
+ * bytes, or `padding` bytes of whitespace in the page content
+ */
+export function buildInflatingPdf(text, { image = 0, padding = 0 }) {
+  return plainPdf(text, { image, padding });
+}
+
+function escapeXml(text) {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+}
+
+const LINK = /https?:\/\/\S+|\b[\w-]+\.(?:com|dev|org)\/\S+/;
+
+/** Runs of a few characters each, every other one bold, links in hyperlinks */
+function runs(text, links) {
+  const link = LINK.exec(text);
+  if (link) {
+    links.push(link[0]);
+    return [
+      runs(text.slice(0, link.index), links),
+      `<w:hyperlink r:id="rIdLink${links.length}" w:history="1">`,
+      '<w:r><w:rPr><w:rStyle w:val="Hyperlink"/></w:rPr>',
+      `<w:t>${escapeXml(link[0])}</w:t></w:r></w:hyperlink>`,
+      runs(text.slice(link.index + link[0].length), links),
+    ].join('');
+  }
+  const pieces = text.match(/[\s\S]{1,7}/g) ?? [];
+  return pieces
+    .map(
+      (piece, i) =>
+        `<w:r>${i % 2 ? '<w:rPr><w:b/></w:rPr>' : ''}<w:t xml:space="preserve">${escapeXml(piece)}</w:t></w:r>`
+    )
+    .join('');
+}
+
+function paragraphs(lines, links) {
+  return lines
+    .map((line) => {
+      if (!line) return '<w:p/>';
+      const bullet = /^[-•]\s+/.exec(line);
+      if (bullet) {
+        const list =
+          '<w:pPr><w:pStyle w:val="ListParagraph"/>' +
+          '<w:numPr><w:ilvl w:val="0"/><w:numId w:val="1"/></w:numPr></w:pPr>';
+        return `<w:p>${list}${runs(line.slice(bullet[0].length), links)}</w:p>`;
+      }
+      if (line.includes('\t')) {
+        const tabs = '<w:pPr><w:tabs><w:tab w:val="right" w:pos="9360"/></w:tabs></w:pPr>';
+        const cells = line.split('\t').map((cell) => runs(cell, links));
+        return `<w:p>${tabs}${cells.join('<w:r><w:tab/></w:r>')}</w:p>`;
+      }
+      return `<w:p>${runs(line, links)}</w:p>`;
+    })
+    .join('');
+}
+
+const XML_DECLARATION = '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>';
+const RELATIONSHIPS = 'http://schemas.openxmlformats.org/officeDocument/2006/relationships';
+const NAMESPACES = `xmlns:w="http://schemas.openxmlformats.org/wordprocessingml/2006/main" xmlns:r="${RELATIONSHIPS}"`;
+const PACKAGE = 'http://schemas.openxmlformats.org/package/2006';
+const WORD_TYPE = 'application/vnd.openxmlformats-officedocument.wordprocessingml';
+
+/**
+ * A Word document of the text, the lines above the first blank line in the page header. With
+ * `sidebar`, the page is a two-column layout table instead: the sidebar text on the left and
+ * the main text on the right. `media` adds an image part of that many bytes.
+ */
+export function buildDocx(text, { sidebar, media = 0 } = {}) {
+  const lines = text.trimEnd().split('\n');
+  const links = [];
+  let header;
+  let body;
+  if (sidebar) {
+    const width = '<w:tcPr><w:tcW w:w="4680" w:type="dxa"/></w:tcPr>';
+    const cell = (content) =>
+      `<w:tc>${width}${paragraphs(content.trimEnd().split('\n'), links)}</w:tc>`;
+    const table = '<w:tblPr><w:tblW w:w="0" w:type="auto"/></w:tblPr>';
+    body = `<w:tbl>${table}<w:tr>${cell(sidebar)}${cell(text)}</w:tr></w:tbl>`;
+  } else {
+    const split = lines.indexOf('');
+    header = paragraphs(lines.slice(0, split), links);
+    body = paragraphs(lines.slice(split + 1), links);
+  }
+  const headerReference = header ? '<w:headerReference w:type="default" r:id="rIdHeader"/>' : '';
+  const section = `<w:sectPr>${headerReference}<w:pgSz w:w="12240" w:h="15840"/></w:sectPr>`;
+  const document = `${XML_DECLARATION}<w:document ${NAMESPACES}><w:body>${body}${section}</w:body></w:document>`;
+
+  const rels = links.map(
+    (link, i) =>
+      `<Relationship Id="rIdLink${i + 1}" Type="${RELATIONSHIPS}/hyperlink" ` +
+      `Target="${escapeXml(link)}" TargetMode="External"/>`
+  );
+  if (header)
+    rels.push(`<Relationship Id="rIdHeader" Type="${RELATIONSHIPS}/header" Target="header1.xml"/>`);
+
+  const entries = [
+    {
+      name: '[Content_Types].xml',
+      data: [
+        `${XML_DECLARATION}<Types xmlns="${PACKAGE}/content-types">`,
+        '<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>',
+        '<Default Extension="xml" ContentType="application/xml"/>',
+        `<Override PartName="/word/document.xml" ContentType="${WORD_TYPE}.document.main+xml"/>`,
+        header
+          ? `<Override PartName="/word/header1.xml" ContentType="${WORD_TYPE}.header+xml"/>`
+          : '',
+        '</Types>',
+      ].join(''),
+    },
+    {
+      name: '_rels/.rels',
+      data: [
+        `${XML_DECLARATION}<Relationships xmlns="${PACKAGE}/relationships">`,
+        `<Relationship Id="rId1" Type="${RELATIONSHIPS}/officeDocument" Target="word/document.xml"/>`,
+        '</Relationships>',
+      ].join(''),
+    },
+    { name: 'word/document.xml', data: document },
+    {
+      name: 'word/_rels/document.xml.rels',
+      data: `${XML_DECLARATION}<Relationships xmlns="${PACKAGE}/relationships">${rels.join('')}</Relationships>`,
+    },
+  ];
+  if (header) {
+    entries.push({
+      name: 'word/header1.xml',
+      data: `${XML_DECLARATION}<w:hdr ${NAMESPACES}>${header}</w:hdr>`,
+    });
+  }
+  if (media) entries.push({ name: 'word/media/image1.png', data: Buffer.alloc(media) });
+  return createZip(entries);
+}
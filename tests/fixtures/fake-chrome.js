@@ -0,0 +1,47 @@
+#!/usr/bin/env node
+/**
+ * Stand-in for Chrome in PDF renderer tests: answers DevTools commands on the
+ * --remote-debugging-pipe file descriptors and "prints" the document it was given as the PDF
+ * FAKE_CHROME_LOG names a file that receives the arguments and every command
+ */
+
+import fs from 'fs';
+
+const log = (entry) =>
+  process.env.FAKE_CHROME_LOG &&
+  fs.appendFileSync(process.env.FAKE_CHROME_LOG, `${JSON.stringify(entry)}\n`);
+const output = fs.createWriteStream(null, { fd: 4 });
+let html = '';
+
+const results = {
+  'Target.createTarget': () => ({ targetId: 'target-1' }),
+  'Target.attachToTarget': () => ({ sessionId: 'session-1' }),
+  'Page.getFrameTree': () => ({ frameTree: { frame: { id: 'frame-1' } } }),
+  'Page.setDocumentContent': (params) => {
+    html = params.html;
+    return {};
+  },
+  'Page.printToPDF': (params) => ({
+    data: Buffer.from(`%PDF-1.7 ${JSON.stringify(params)}\n${html}`).toString('base64'),
+  }),
+};
+
+function reply(message) {
+  log({ method: message.method, params: message.params, sessionId: message.sessionId });
+  const result = results[message.method]?.(message.params) ?? {};
+  const text = `${JSON.stringify({ id: message.id, result })}\0`;
+  // Split replies, as large ones are on a real pipe
+  output.write(text.slice(0, 10));
+  output.write(text.slice(10));
+}
+
+log({ args: process.argv.slice(2) });
+let buffer = '';
+fs.createReadStream(null, { fd: 3, encoding: 'utf8' }).on('data', (data) => {
+  buffer += data;
+  let end;
+  while ((end = buffer.indexOf('\0')) !== -1) {
+    reply(JSON.parse(buffer.slice(0, end)));
+    buffer = buffer.slice(end + 1);
+  }
+});
@@ -0,0 +1,52 @@
+/**
+ * Vector Fixtures
+ *
+ * Reproducible synthetic embeddings for nearest-neighbour tests and benchmarks
+ */
+
+/**
+ * Seeded random number generator (mulberry32), so data and graphs match on every run
+ */
+export function seededRandom(seed) {
+  return () => {
+    seed = (seed + 0x6d2b79f5) | 0;
+    let t = Math.imul(seed ^ (seed >>> 15), 1 | seed);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/**
+ * Points scattered around a few centres, like embeddings of related texts
+ */
+export function clusteredVectors(count, dims, random, clusters = 12, spread = 0.6) {
+  const centres = Array.from({ length: clusters }, () =>
+    Array.from({ length: dims }, () => random() * 2 - 1)
+  );
+  return Array.from({ length: count }, (_, i) =>
+    centres[i % clusters].map((x) => x + (random() - 0.5) * spread)
+  );
+}
+
+export function cosine(a, b) {
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+  return dot / Math.sqrt(normA * normB);
+}
+
+/**
+ * Ids (`v<index>`) of the k vectors most similar to the query, by exhaustive search
+ */
+export function exactTopK(vectors, query, k) {
+  return vectors
+    .map((vector, i) => ({ id: `v${i}`, score: cosine(query, vector) }))
+    .sort((a, b) => b.score - a.score)
+    .slice(0, k)
+    .map((match) => match.id);
+}
@@ -0,0 +1,48 @@
+/**
+ * LLM Provider Test Helpers
+ *
+ * Provider environment and stubbed fetch responses shared by the backend LLM suites
+ */
+
+// Keys that make LLMAbstractionLayer register a hosted provider
+export const PROVIDER_KEYS = [
+  'OPENAI_API_KEY',
+  'ANTHROPIC_API_KEY',
+  'GOOGLE_API_KEY',
+  'HUGGINGFACE_API_KEY',
+  'PERPLEXITY_API_KEY',
+];
+
+/**
+ * A fetch response with a JSON body
+ */
+export function jsonResponse(body, status = 200, headers = {}) {
+  return {
+    ok: status < 400,
+    status,
+    headers: { get: (name) => headers[name.toLowerCase()] ?? null },
+    json: async () => body,
+    text: async () => JSON.stringify(body),
+  };
+}
+
+/**
+ * Before each test in the enclosing describe, clear the provider keys and set `env`; after it,
+ * restore process.env and global.fetch. Call it before hooks that build an LLMAbstractionLayer.
+ */
+export function isolateProviders(env = {}) {
+  let originalEnv;
+  let originalFetch;
+
+  beforeEach(() => {
+    originalEnv = { ...process.env };
+    originalFetch = global.fetch;
+    PROVIDER_KEYS.forEach((key) => delete process.env[key]);
+    Object.assign(process.env, env);
+  });
+
+  afterEach(() => {
+    process.env = originalEnv;
+    global.fetch = originalFetch;
+  });
+}
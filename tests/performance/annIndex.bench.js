@@ -0,0 +1,84 @@
+/**
+ * ANN Index Benchmark
+ *
+ * Build time, recall@10 and query latency of the HNSW index across ef values, against
+ * exhaustive cosine search. Run with `npm run test:performance`.
+ * BENCH_VECTORS and BENCH_DIMS change the corpus size (default 10000 x 128).
+ */
+
+import { performance } from 'perf_hooks';
+import { HnswIndex } from '../../src/backend/api/services/hnswIndex.service';
+import { clusteredVectors, exactTopK, seededRandom } from '../fixtures/vectors';
+
+const VECTORS = Number(process.env.BENCH_VECTORS) || 10000;
+const DIMS = Number(process.env.BENCH_DIMS) || 128;
+const QUERIES = 100;
+const K = 10;
+// Wide enough that clusters overlap, as real embeddings do
+const SPREAD = 3;
+const EF_VALUES = [16, 32, 64, 128, 256];
+
+// console is silenced in tests
+const report = (line = '') => process.stdout.write(`${line}\n`);
+
+const percentile = (values, p) => {
+  const sorted = [...values].sort((a, b) => a - b);
+  return sorted[Math.min(sorted.length - 1, Math.floor(sorted.length * p))];
+};
+
+const time = (work) => {
+  const start = performance.now();
+  const result = work();
+  return { result, ms: performance.now() - start };
+};
+
+describe('HNSW index benchmark', () => {
+  it(
+    'should trade recall for latency through ef',
+    () => {
+      const random = seededRandom(42);
+      const vectors = clusteredVectors(VECTORS, DIMS, random, 64, SPREAD);
+      // New points from the same clusters as the corpus
+      const queries = vectors
+        .slice(0, QUERIES)
+        .map((v) => v.map((x) => x + (random() - 0.5) * SPREAD));
+
+      const index = new HnswIndex({ random: seededRandom(1) });
+      const build = time(() => vectors.forEach((vector, i) => index.add(`v${i}`, vector)));
+
+      const exact = queries.map((query) => time(() => exactTopK(vectors, query, K)));
+
+      const exactP50 = percentile(
+        exact.map((q) => q.ms),
+        0.5
+      );
+      report(`\nHNSW index: ${VECTORS} vectors x ${DIMS} dims, m=${index.m}`);
+      report(`Build: ${(build.ms / 1000).toFixed(1)}s (${(build.ms / VECTORS).toFixed(2)}ms each)`);
+      report(`Exact search: p50 ${exactP50.toFixed(2)}ms`);
+      report('\n   ef   recall@10   p50 ms   p95 ms');
+
+      const recalls = EF_VALUES.map((ef) => {
+        let hits = 0;
+        const latencies = queries.map((query, q) => {
+          const { result, ms } = time(() => index.search(query, K, ef));
+          const expected = new Set(exact[q].result);
+          hits += result.filter((match) => expected.has(match.id)).length;
+          return ms;
+        });
+        const recall = hits / (QUERIES * K);
+        const columns = [
+          String(ef).padStart(5),
+          recall.toFixed(3).padStart(9),
+          percentile(latencies, 0.5).toFixed(2).padStart(6),
+          percentile(latencies, 0.95).toFixed(2).padStart(6),
+        ];
+        report(columns.join('   '));
+        return recall;
+      });
+
+      expect(recalls[EF_VALUES.indexOf(64)]).toBeGreaterThanOrEqual(0.9);
+      expect(recalls[recalls.length - 1]).toBeGreaterThanOrEqual(recalls[0]);
+    },
+    30 * 60 * 1000
+  );
+});
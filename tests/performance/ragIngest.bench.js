@@ -0,0 +1,127 @@
+/**
+ * RAG Ingest Benchmark
+ *
+ * Time to index jobs into a file-backed vector database through RAGSystem, with every write
+ * and graph save going to disk at once and with the batching the shared vector database uses.
+ * Run with `npm run test:performance`. BENCH_JOBS changes the number of jobs (default 2000);
+ * both modes are compared on a tenth of them, as each unbatched write rewrites the whole file.
+ */
+
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { performance } from 'perf_hooks';
+import {
+  DatabaseService,
+  VECTOR_MIGRATIONS,
+} from '../../src/backend/api/services/database.service';
+import { HashEmbedder } from '../../src/backend/api/services/embeddings.service';
+import { LLMAbstractionLayer } from '../../src/backend/api/services/llm-abstraction.service';
+import { RAGSystem } from '../../src/backend/api/services/rag-system.service';
+import { SqliteVectorStore } from '../../src/backend/api/services/vectorStore.service';
+import { seededRandom } from '../fixtures/vectors';
+
+const JOBS = Number(process.env.BENCH_JOBS) || 2000;
+const WORDS = ['typescript', 'postgres', 'kubernetes', 'react', 'payments', 'billing', 'search'];
+
+// console is silenced in tests
+const report = (line = '') => process.stdout.write(`${line}\n`);
+
+const jobs = (count, random) => {
+  const phrase = (length) =>
+    Array.from({ length }, () => WORDS[Math.floor(random() * WORDS.length)]).join(' ');
+  return Array.from({ length: count }, (_, n) => ({
+    id: `job-${n}`,
+    title: `Engineer ${n}`,
+    company: `Company ${n % 50}`,
+    content: '',
+    requirements: [phrase(6), phrase(6)],
+    responsibilities: [phrase(8)],
+    skills: [phrase(3), phrase(3)],
+    metadata: {},
+  }));
+};
+
+/**
+ * Index the jobs and return the ms each one took, including the final flush
+ */
+const ingest = async (file, count, batched) => {
+  const db = new DatabaseService(file, VECTOR_MIGRATIONS, {
+    persistDelayMs: batched ? 1000 : 0,
+  });
+  const rag = new RAGSystem(new LLMAbstractionLayer(), {
+    embedder: new HashEmbedder(),
+    store: new SqliteVectorStore(db),
+    ...(!batched && { indexSaveDelayMs: 0 }),
+  });
+
+  const latencies = [];
+  for (const job of jobs(count, seededRandom(7))) {
+    const start = performance.now();
+    await rag.addJobDescription(job);
+    latencies.push(performance.now() - start);
+  }
+
+  const start = performance.now();
+  await rag.flushIndexes();
+  db.close();
+  const flushMs = performance.now() - start;
+
+  return { latencies, flushMs, bytes: fs.statSync(file).size };
+};
+
+const decileMean = (values, decile) => {
+  const size = Math.max(1, Math.floor(values.length / 10));
+  const slice = values.slice(decile * size, decile * size + size);
+  return slice.reduce((sum, value) => sum + value, 0) / slice.length;
+};
+
+describe('RAG ingest benchmark', () => {
+  let dir;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'rag-ingest-'));
+  });
+
+  afterEach(() => fs.rmSync(dir, { recursive: true, force: true }));
+
+  it(
+    'should keep persisted ingest linear in the number of jobs',
+    async () => {
+      const sample = Math.max(20, Math.floor(JOBS / 10));
+      const runs = [
+        { name: 'every write', count: sample, batched: false },
+        { name: 'batched', count: sample, batched: true },
+        { name: 'batched', count: JOBS, batched: true },
+      ].map((run, i) => ({ ...run, file: path.join(dir, `run-${i}.sqlite`) }));
+
+      report(`\nRAG ingest into a file-backed vector database`);
+      report('\n  mode          jobs   total s   first 10% ms   last 10% ms   flush ms     MB');
+
+      const results = [];
+      for (const run of runs) {
+        const { latencies, flushMs, bytes } = await ingest(run.file, run.count, run.batched);
+        const total = latencies.reduce((sum, ms) => sum + ms, 0) + flushMs;
+        const result = { total, first: decileMean(latencies, 0), last: decileMean(latencies, 9) };
+        report(
+          [
+            `  ${run.name.padEnd(11)}`,
+            String(run.count).padStart(6),
+            (total / 1000).toFixed(1).padStart(9),
+            result.first.toFixed(2).padStart(14),
+            result.last.toFixed(2).padStart(13),
+            flushMs.toFixed(0).padStart(10),
+            (bytes / 1024 / 1024).toFixed(1).padStart(6),
+          ].join(' ')
+        );
+        results.push(result);
+      }
+
+      const [everyWrite, batchedSample, batched] = results;
+      expect(batchedSample.total).toBeLessThan(everyWrite.total);
+      // Each job costs about the same however many are already stored
+      expect(batched.last).toBeLessThan(batched.first * 4 + 1);
+    },
+    30 * 60 * 1000
+  );
+});
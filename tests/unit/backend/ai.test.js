@@ -0,0 +1,550 @@
+/**
+ * AI Routes Unit Tests
+ *
+ * Test /ai/chat, /ai/completion and /ai/models against the LLM abstraction layer
+ * with provider HTTP calls stubbed out, including streamed (SSE) responses
+ */
+
+import express from 'express';
+import request from 'supertest';
+import aiRouter from '../../../src/backend/api/ai';
+import { DatabaseService, IN_MEMORY } from '../../../src/backend/api/services/database.service';
+import { HashEmbedder } from '../../../src/backend/api/services/embeddings.service';
+import { recordEvent } from '../../../src/backend/api/services/eventLog.service';
+import { SqliteExperienceStore } from '../../../src/backend/api/services/experienceStore.service';
+import { LLMAbstractionLayer } from '../../../src/backend/api/services/llm-abstraction.service';
+import { RAGSystem } from '../../../src/backend/api/services/rag-system.service';
+import { SqliteVectorStore } from '../../../src/backend/api/services/vectorStore.service';
+import { isolateProviders, jsonResponse } from '../../helpers/providers';
+
+const mockLLM = { current: null };
+const mockRAG = { current: null };
+
+jest.mock('../../../src/backend/api/services/llm-abstraction.service', () => {
+  const actual = jest.requireActual('../../../src/backend/api/services/llm-abstraction.service');
+  return {
+    ...actual,
+    getLLMService: () => mockLLM.current,
+    getRAGSystem: () => mockRAG.current,
+  };
+});
+
+jest.mock('../../../src/backend/api/services/eventLog.service', () => ({
+  recordEvent: jest.fn(),
+}));
+
+// Streamed body split at awkward byte offsets to exercise line reassembly
+function streamResponse(text) {
+  const bytes = new TextEncoder().encode(text);
+  return {
+    ok: true,
+    status: 200,
+    body: (async function* chunks() {
+      for (let i = 0; i < bytes.length; i += 7) yield bytes.slice(i, i + 7);
+    })(),
+  };
+}
+
+function sse(events) {
+  return events
+    .map(
+      ({ event, data }) => `${event ? `event: ${event}\n` : ''}data: ${JSON.stringify(data)}\n\n`
+    )
+    .join('');
+}
+
+async function collect(stream) {
+  const deltas = [];
+  let response;
+  for await (const event of stream) {
+    if (event.type === 'delta') deltas.push(event.content);
+    else response = event.response;
+  }
+  return { text: deltas.join(''), deltas, response };
+}
+
+describe('LLMAbstractionLayer streaming', () => {
+  let llm;
+
+  isolateProviders({
+    OPENAI_API_KEY: 'sk-test',
+    ANTHROPIC_API_KEY: 'sk-ant',
+    GOOGLE_API_KEY: 'g-key',
+  });
+
+  beforeEach(() => {
+    llm = new LLMAbstractionLayer();
+  });
+
+  const request = { messages: [{ role: 'user', content: 'Write a cover letter' }] };
+
+  it('should stream OpenAI deltas and record usage from the final chunk', async () => {
+    global.fetch = jest.fn(async () =>
+      streamResponse(
+        sse([
+          { data: { choices: [{ delta: { content: 'Dear ' } }] } },
+          { data: { choices: [{ delta: { content: 'hiring manager' } }] } },
+          { data: { choices: [{ delta: {}, finish_reason: 'stop' }] } },
+          { data: { choices: [], usage: { prompt_tokens: 12, completion_tokens: 4 } } },
+        ]) + 'data: [DONE]\n\n'
+      )
+    );
+
+    const { deltas, text, response } = await collect(
+      llm.generateStream(request, 'openai', 'gpt-4o-mini')
+    );
+
+    expect(deltas).toEqual(['Dear ', 'hiring manager']);
+    expect(response).toMatchObject({
+      content: text,
+      finishReason: 'stop',
+      usage: { inputTokens: 12, outputTokens: 4, totalTokens: 16 },
+    });
+    expect(JSON.parse(global.fetch.mock.calls[0][1].body)).toMatchObject({
+      stream: true,
+      stream_options: { include_usage: true },
+    });
+    expect((await llm.getUsageStats('day')).byProvider.OpenAI.tokens).toBe(16);
+  });
+
+  it('should stream Claude message events', async () => {
+    global.fetch = jest.fn(async () =>
+      streamResponse(
+        sse([
+          { event: 'message_start', data: { message: { usage: { input_tokens: 9 } } } },
+          { event: 'content_block_start', data: { content_block: { type: 'text', text: '' } } },
+          { event: 'content_block_delta', data: { delta: { type: 'text_delta', text: 'Hi ' } } },
+          { event: 'content_block_delta', data: { delta: { type: 'text_delta', text: 'there' } } },
+          {
+            event: 'message_delta',
+            data: { delta: { stop_reason: 'end_turn' }, usage: { output_tokens: 2 } },
+          },
+          { event: 'message_stop', data: {} },
+        ])
+      )
+    );
+
+    const { text, response } = await collect(llm.generateStream(request, 'claude'));
+
+    expect(text).toBe('Hi there');
+    expect(response).toMatchObject({
+      finishReason: 'end_turn',
+      usage: { inputTokens: 9, outputTokens: 2 },
+      metadata: { provider: 'Anthropic' },
+    });
+  });
+
+  it('should stream Ollama newline-delimited JSON', async () => {
+    global.fetch = jest.fn(async () =>
+      streamResponse(
+        [
+          { message: { content: 'local ' }, done: false },
+          { message: { content: 'model' }, done: false },
+          {
+            message: { content: '' },
+            done: true,
+            done_reason: 'stop',
+            prompt_eval_count: 20,
+            eval_count: 2,
+          },
+        ]
+          .map((line) => JSON.stringify(line))
+          .join('\n')
+      )
+    );
+
+    const { text, response } = await collect(llm.generateStream(request, 'ollama'));
+
+    expect(text).toBe('local model');
+    expect(response.usage).toMatchObject({ inputTokens: 20, outputTokens: 2, cost: 0 });
+  });
+
+  it('should stream Gemini SSE chunks', async () => {
+    global.fetch = jest.fn(async () =>
+      streamResponse(
+        sse([
+          { data: { candidates: [{ content: { parts: [{ text: 'Gem' }] } }] } },
+          {
+            data: {
+              candidates: [{ content: { parts: [{ text: 'ini' }] }, finishReason: 'STOP' }],
+              usageMetadata: { promptTokenCount: 5, candidatesTokenCount: 2 },
+            },
+          },
+        ])
+      )
+    );
+
+    const { text, response } = await collect(llm.generateStream(request, 'gemini'));
+
+    expect(text).toBe('Gemini');
+    expect(response).toMatchObject({ finishReason: 'STOP', usage: { totalTokens: 7 } });
+    expect(global.fetch.mock.calls[0][0]).toContain(':streamGenerateContent?alt=sse');
+  });
+
+  it('should surface HTTP errors from the provider', async () => {
+    global.fetch = jest.fn(async () => ({
+      ok: false,
+      status: 401,
+      body: null,
+      text: async () => 'invalid api key',
+    }));
+
+    await expect(collect(llm.generateStream(request, 'openai'))).rejects.toThrow(
+      'HTTP 401: invalid api key'
+    );
+  });
+});
+
+describe('AI API', () => {
+  let app;
+
+  isolateProviders({ OPENAI_API_KEY: 'sk-test' });
+
+  beforeEach(() => {
+    global.fetch = jest.fn(async (url, init) => {
+      const body = JSON.parse(init.body);
+      if (String(url).startsWith('https://api.openai.com')) {
+        return jsonResponse({
+          choices: [
+            {
+              message: { content: `openai:${body.messages.at(-1).content}` },
+              finish_reason: 'stop',
+            },
+          ],
+          usage: { prompt_tokens: 10, completion_tokens: 5 },
+        });
+      }
+      return jsonResponse({ message: { content: 'ollama reply' }, done_reason: 'stop' });
+    });
+
+    mockLLM.current = new LLMAbstractionLayer(undefined, { retry: { baseDelayMs: 0 } });
+    recordEvent.mockClear();
+
+    app = express();
+    app.use(express.json());
+    app.use((req, res, next) => {
+      req.apiKey = { id: 'test', scopes: ['ai'] };
+      next();
+    });
+    app.use('/api/v1', aiRouter);
+  });
+
+  it('should answer chat requests in the shape the n8n node reads', async () => {
+    const res = await request(app)
+      .post('/api/v1/ai/chat')
+      .send({
+        model: 'gpt-4o-mini',
+        messages: [{ role: 'user', content: 'hello' }],
+        max_tokens: 100,
+        temperature: 0.2,
+      })
+      .expect(200);
+
+    expect(res.body.choices[0]).toMatchObject({
+      message: { role: 'assistant', content: 'openai:hello' },
+      finish_reason: 'stop',
+    });
+    expect(res.body).toMatchObject({ provider: 'OpenAI', model: 'gpt-4o-mini' });
+    expect(res.body.usage).toMatchObject({
+      prompt_tokens: 10,
+      completion_tokens: 5,
+      total_tokens: 15,
+    });
+    expect(res.body.usage.cost).toBeGreaterThan(0);
+
+    const sent = JSON.parse(global.fetch.mock.calls[0][1].body);
+    expect(sent).toMatchObject({ model: 'gpt-4o-mini', max_tokens: 100, temperature: 0.2 });
+    expect(recordEvent).toHaveBeenCalledWith(expect.objectContaining({ type: 'ai.completed' }));
+  });
+
+  it('should run completions through structured prompting', async () => {
+    global.fetch.mockImplementationOnce(async () =>
+      jsonResponse({
+        choices: [{ message: { content: '{"summary":"Short"}' }, finish_reason: 'stop' }],
+        usage: { prompt_tokens: 10, completion_tokens: 5 },
+      })
+    );
+
+    const res = await request(app)
+      .post('/api/v1/ai/completion')
+      .send({ provider: 'openai', prompt: 'Summarize this', system: 'Be brief', format: 'json' })
+      .expect(200);
+
+    expect(res.body.text).toBe('{"summary":"Short"}');
+    expect(res.body.choices[0].text).toBe(res.body.text);
+    expect(res.body).toMatchObject({ json: { summary: 'Short' }, repairs: 0 });
+
+    const sent = JSON.parse(global.fetch.mock.calls[0][1].body);
+    expect(sent.messages[0]).toMatchObject({ role: 'system' });
+    expect(sent.messages[0].content).toContain('Output must be valid JSON.');
+    expect(sent.response_format).toEqual({ type: 'json_object' });
+  });
+
+  it('should re-prompt with validation errors until the reply matches the schema', async () => {
+    const reply = (content) =>
+      jsonResponse({
+        choices: [{ message: { content }, finish_reason: 'stop' }],
+        usage: { prompt_tokens: 10, completion_tokens: 5 },
+      });
+    global.fetch
+      .mockImplementationOnce(async () => reply('Sure! {"skills": "TypeScript"}'))
+      .mockImplementationOnce(async () => reply('```json\n{"skills": ["TypeScript"]}\n```'));
+
+    const schema = {
+      type: 'object',
+      properties: { skills: { type: 'array', items: { type: 'string' } } },
+      required: ['skills'],
+    };
+    const res = await request(app)
+      .post('/api/v1/ai/completion')
+      .send({ provider: 'openai', prompt: 'List skills', format: 'json', schema })
+      .expect(200);
+
+    expect(res.body).toMatchObject({ json: { skills: ['TypeScript'] }, repairs: 1 });
+    expect(res.body.usage).toMatchObject({ prompt_tokens: 20, completion_tokens: 10 });
+
+    const repair = JSON.parse(global.fetch.mock.calls[1][1].body);
+    expect(repair.messages.at(-2)).toEqual({
+      role: 'assistant',
+      content: 'Sure! {"skills": "TypeScript"}',
+    });
+    expect(repair.messages.at(-1).content).toContain('$.skills: expected array, got string');
+    expect(repair.messages[0].content).toContain('"required": [\n    "skills"\n  ]');
+  });
+
+  it('should fail with the validation errors once repairs are exhausted', async () => {
+    const res = await request(app)
+      .post('/api/v1/ai/completion')
+      .send({ provider: 'openai', prompt: 'List skills', format: 'json' })
+      .expect(502);
+
+    expect(res.body).toMatchObject({
+      ok: false,
+      error: 'invalid_structured_output',
+      reason: 'invalid_json',
+      repairs: 2,
+    });
+    expect(global.fetch).toHaveBeenCalledTimes(3);
+
+    await request(app)
+      .post('/api/v1/ai/completion')
+      .send({ prompt: 'x', schema: { type: 'object' } })
+      .expect(400);
+  });
+
+  it('should list models and report usage', async () => {
+    await request(app)
+      .post('/api/v1/ai/chat')
+      .send({ provider: 'ollama', messages: [{ role: 'user', content: 'hi' }] })
+      .expect(200);
+
+    const models = await request(app).get('/api/v1/ai/models').expect(200);
+    expect(models.body.models).toContainEqual({
+      id: 'gpt-4o-mini',
+      provider: 'openai',
+      available: true,
+      contextWindow: 128000,
+      costPerToken: { input: 0.0000025, output: 0.00001 },
+    });
+    expect(models.body.providers.find((p) => p.id === 'claude').available).toBe(false);
+
+    const usage = await request(app).get('/api/v1/ai/usage?timeframe=day').expect(200);
+    expect(usage.body.usage.requests).toBe(1);
+    expect(usage.body.usage.byProvider.Ollama.requests).toBe(1);
+  });
+
+  it('should validate requests and provider selection', async () => {
+    const chat = (body) => request(app).post('/api/v1/ai/chat').send(body);
+    const messages = [{ role: 'user', content: 'hi' }];
+
+    expect((await chat({}).expect(400)).body.error).toBe('missing_messages');
+    expect((await chat({ messages: [{ role: 'bot', content: 'x' }] }).expect(400)).body.error).toBe(
+      'invalid_messages'
+    );
+    expect((await chat({ messages, max_tokens: 0 }).expect(400)).body.error).toBe(
+      'invalid_max_tokens'
+    );
+    expect((await chat({ messages, temperature: 3 }).expect(400)).body.error).toBe(
+      'invalid_temperature'
+    );
+    expect((await chat({ messages, provider: 'nope' }).expect(400)).body.error).toBe(
+      'unknown_provider'
+    );
+    expect((await chat({ messages, model: 'gpt-9' }).expect(400)).body.error).toBe('unknown_model');
+    expect((await chat({ messages, provider: 'claude' }).expect(503)).body.error).toBe(
+      'provider_unavailable'
+    );
+
+    await request(app).post('/api/v1/ai/completion').send({ prompt: ' ' }).expect(400);
+    expect(global.fetch).not.toHaveBeenCalled();
+  });
+
+  it('should stream chat responses as server-sent events', async () => {
+    global.fetch.mockImplementationOnce(async () =>
+      streamResponse(
+        sse([
+          { data: { choices: [{ delta: { content: 'Hel' } }] } },
+          { data: { choices: [{ delta: { content: 'lo' }, finish_reason: 'stop' }] } },
+          { data: { choices: [], usage: { prompt_tokens: 3, completion_tokens: 2 } } },
+        ]) + 'data: [DONE]\n\n'
+      )
+    );
+
+    const res = await request(app)
+      .post('/api/v1/ai/chat')
+      .send({ model: 'gpt-4o-mini', stream: true, messages: [{ role: 'user', content: 'hi' }] })
+      .expect(200)
+      .expect('Content-Type', /text\/event-stream/);
+
+    const events = res.text
+      .split('\n\n')
+      .filter(Boolean)
+      .map((block) => block.replace(/^data: /, ''));
+    expect(events.at(-1)).toBe('[DONE]');
+
+    const chunks = events.slice(0, -1).map((data) => JSON.parse(data));
+    expect(chunks.map((c) => c.choices[0].delta.content).filter(Boolean)).toEqual(['Hel', 'lo']);
+    expect(chunks.at(-1)).toMatchObject({
+      choices: [{ finish_reason: 'stop' }],
+      usage: { prompt_tokens: 3, completion_tokens: 2, total_tokens: 5 },
+    });
+    expect(recordEvent).toHaveBeenCalledWith(expect.objectContaining({ type: 'ai.completed' }));
+  });
+
+  it('should fail a stream with 502 before any bytes are sent', async () => {
+    global.fetch.mockImplementationOnce(async () => ({
+      ok: false,
+      status: 401,
+      body: null,
+      text: async () => 'invalid api key',
+    }));
+
+    const res = await request(app)
+      .post('/api/v1/ai/completion')
+      .send({ provider: 'openai', prompt: 'hi', stream: true })
+      .expect(502);
+    expect(res.body.error).toBe('ai_provider_error');
+  });
+
+  it('should report upstream provider failures as 502 once retries are exhausted', async () => {
+    global.fetch.mockImplementation(async () => jsonResponse({ error: 'boom' }, 500));
+
+    const res = await request(app)
+      .post('/api/v1/ai/chat')
+      .send({ provider: 'openai', messages: [{ role: 'user', content: 'hi' }] })
+      .expect(502);
+    expect(res.body.error).toBe('ai_provider_error');
+    expect(global.fetch).toHaveBeenCalledTimes(3);
+  });
+
+  it('should report the fallbacks taken before the serving provider', async () => {
+    const respond = global.fetch.getMockImplementation();
+    global.fetch.mockImplementation(async (url, init) =>
+      String(url).startsWith('http://localhost:11434')
+        ? jsonResponse({ error: 'model not found' }, 404)
+        : respond(url, init)
+    );
+
+    const res = await request(app)
+      .post('/api/v1/ai/chat')
+      .send({ messages: [{ role: 'user', content: 'hi' }] })
+      .expect(200);
+
+    expect(res.body.provider).toBe('OpenAI');
+    expect(res.body.fallbacks).toEqual([
+      expect.objectContaining({ provider: 'ollama', status: 404, retryable: false }),
+    ]);
+  });
+});
+
+describe('AI experience API', () => {
+  let app;
+  let db;
+  let apiKey;
+
+  beforeEach(() => {
+    db = new DatabaseService(IN_MEMORY);
+    mockRAG.current = new RAGSystem(new LLMAbstractionLayer(), {
+      embedder: new HashEmbedder(),
+      store: new SqliteVectorStore(db),
+      experienceStore: new SqliteExperienceStore(db),
+    });
+    apiKey = { id: 'key-1', scopes: ['ai'] };
+
+    app = express();
+    app.use(express.json());
+    app.use((req, res, next) => {
+      req.apiKey = apiKey;
+      next();
+    });
+    app.use('/api/v1', aiRouter);
+  });
+
+  afterEach(() => db.close());
+
+  const bullet = {
+    kind: 'bullet',
+    title: 'Acme',
+    content: 'Migrated 40 services onto Kubernetes clusters with Terraform',
+  };
+
+  it("should index experience under the calling key for the RAG system's evidence", async () => {
+    const res = await request(app)
+      .put('/api/v1/ai/experience/acme-1')
+      .send({ ...bullet, user: 'someone-else' })
+      .expect(200);
+    expect(res.body).toMatchObject({
+      ok: true,
+      document: { id: 'acme-1', userId: 'key-1', kind: 'bullet' },
+      chunks: 1,
+    });
+
+    const [[evidence]] = await mockRAG.current.findEvidence('key-1', ['Terraform']);
+    expect(evidence).toMatchObject({ documentId: 'acme-1', kind: 'bullet', title: 'Acme' });
+    expect(await mockRAG.current.listExperience('someone-else')).toEqual([]);
+
+    const list = await request(app).get('/api/v1/ai/experience').expect(200);
+    expect(list.body.documents).toEqual([expect.objectContaining({ id: 'acme-1' })]);
+  });
+
+  it('should replace a document indexed under the same id', async () => {
+    await request(app).put('/api/v1/ai/experience/acme-1').send(bullet).expect(200);
+    await request(app)
+      .put('/api/v1/ai/experience/acme-1')
+      .send({ ...bullet, content: 'Tuned PostgreSQL queries\nMentored two engineers' })
+      .expect(200);
+
+    const stored = await mockRAG.current.listExperience('key-1');
+    expect(stored).toHaveLength(1);
+    expect(stored[0].content).toMatch(/PostgreSQL/);
+  });
+
+  it('should remove experience and report unknown documents', async () => {
+    await request(app).put('/api/v1/ai/experience/acme-1').send(bullet).expect(200);
+
+    await request(app).delete('/api/v1/ai/experience/acme-1').expect(200);
+    const res = await request(app).delete('/api/v1/ai/experience/acme-1').expect(404);
+    expect(res.body.error).toBe('experience_not_found');
+    expect(await mockRAG.current.listExperience('key-1')).toEqual([]);
+  });
+
+  it('should validate experience documents', async () => {
+    const put = (body) => request(app).put('/api/v1/ai/experience/doc').send(body).expect(400);
+
+    expect((await put({ ...bullet, kind: 'poem' })).body.error).toBe('invalid_kind');
+    expect((await put({ ...bullet, title: 3 })).body.error).toBe('invalid_title');
+    expect((await put({ ...bullet, content: '  ' })).body.error).toBe('missing_content');
+  });
+
+  it('should need a user for experience when API auth is disabled', async () => {
+    process.env.JOBSPRINT_API_AUTH = 'disabled';
+    apiKey = undefined;
+    try {
+      const res = await request(app).get('/api/v1/ai/experience').expect(400);
+      expect(res.body.error).toBe('missing_user');
+      await request(app).get('/api/v1/ai/experience?user=ada').expect(200);
+    } finally {
+      delete process.env.JOBSPRINT_API_AUTH;
+    }
+  });
+});
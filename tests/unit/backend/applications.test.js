@@ -0,0 +1,271 @@
+/**
+ * Application Store Unit Tests
+ *
+ * Test the embedded database, application repository and /applications routes
+ */
+
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import express from 'express';
+import request from 'supertest';
+import applicationsRouter from '../../../src/backend/api/applications';
+import {
+  DatabaseService,
+  IN_MEMORY,
+  MIGRATIONS,
+} from '../../../src/backend/api/services/database.service';
+import { ApplicationRepository } from '../../../src/backend/api/services/applicationRepository.service';
+
+const mockRepository = { current: null };
+
+jest.mock('../../../src/backend/api/services/applicationRepository.service', () => {
+  const actual = jest.requireActual(
+    '../../../src/backend/api/services/applicationRepository.service'
+  );
+  return { ...actual, getApplicationRepository: () => mockRepository.current };
+});
+
+describe('DatabaseService', () => {
+  let tmpDir;
+
+  beforeEach(() => {
+    tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'jobsprint-db-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  it('should apply migrations once and persist to disk', async () => {
+    const file = path.join(tmpDir, 'test.sqlite');
+    const db = new DatabaseService(file);
+    const latestVersion = MIGRATIONS[MIGRATIONS.length - 1].version;
+
+    expect(await db.getSchemaVersion()).toBe(latestVersion);
+    await db.run(
+      "INSERT INTO applications (id, platform, job_url, status, created_at, updated_at) VALUES ('a1', 'indeed', 'u', 'pending', 'now', 'now')"
+    );
+    db.close();
+
+    expect(fs.existsSync(file)).toBe(true);
+
+    const reopened = new DatabaseService(file);
+    expect(await reopened.getSchemaVersion()).toBe(latestVersion);
+    expect(await reopened.query('SELECT id FROM applications')).toEqual([{ id: 'a1' }]);
+    reopened.close();
+  });
+
+  it('should keep foreign keys enforced after writing to disk', async () => {
+    const db = new DatabaseService(path.join(tmpDir, 'test.sqlite'));
+    await db.run(
+      "INSERT INTO rag_jobs (id, title, company, data, created_at, updated_at) VALUES ('j1', 't', 'c', '{}', 'now', 'now')"
+    );
+
+    expect(await db.query('PRAGMA foreign_keys')).toEqual([{ foreign_keys: 1 }]);
+    db.close();
+  });
+
+  it('should coalesce writes when given a persist delay', async () => {
+    const file = path.join(tmpDir, 'test.sqlite');
+    const db = new DatabaseService(file, MIGRATIONS, { persistDelayMs: 60 * 1000 });
+    const insert = (id) =>
+      db.run(
+        `INSERT INTO applications (id, platform, job_url, status, created_at, updated_at) VALUES ('${id}', 'indeed', 'u', 'pending', 'now', 'now')`
+      );
+    const onDisk = async () => {
+      const reader = new DatabaseService(file);
+      const rows = await reader.query('SELECT id FROM applications ORDER BY id');
+      reader.close();
+      return rows.map((row) => row.id);
+    };
+
+    await insert('a1');
+    await insert('a2');
+    expect(await onDisk()).toEqual([]);
+
+    db.flush();
+    expect(await onDisk()).toEqual(['a1', 'a2']);
+
+    // Closing writes whatever is still pending
+    await insert('a3');
+    db.close();
+    expect(await onDisk()).toEqual(['a1', 'a2', 'a3']);
+  });
+
+  it('should roll back a failed migration', async () => {
+    const db = new DatabaseService(IN_MEMORY, [
+      { version: 1, name: 'ok', up: 'CREATE TABLE a (id TEXT)' },
+      { version: 2, name: 'broken', up: 'CREATE TABLE b (id TEXT); NOT VALID SQL' },
+    ]);
+
+    await expect(db.open()).rejects.toThrow('Migration 2 (broken) failed');
+  });
+});
+
+describe('ApplicationRepository', () => {
+  let db;
+  let repository;
+
+  beforeEach(() => {
+    db = new DatabaseService(IN_MEMORY);
+    repository = new ApplicationRepository(db);
+  });
+
+  afterEach(() => db.close());
+
+  it('should create and read back an application', async () => {
+    const created = await repository.create({
+      platform: 'indeed',
+      jobUrl: 'https://www.indeed.com/viewjob?jk=1',
+      company: 'Acme',
+      hasCoverLetter: true,
+      metadata: { source: 'test' },
+    });
+
+    expect(created.status).toBe('pending');
+    expect(await repository.findById(created.id)).toEqual(created);
+  });
+
+  it('should update status and merge metadata', async () => {
+    const created = await repository.create({
+      platform: 'indeed',
+      jobUrl: 'u',
+      metadata: { a: 1 },
+    });
+
+    const updated = await repository.update(created.id, {
+      status: 'interviewing',
+      metadata: { b: 2 },
+    });
+
+    expect(updated.status).toBe('interviewing');
+    expect(updated.metadata).toEqual({ a: 1, b: 2 });
+    expect((await repository.updateStatus(created.id, 'offered', 'Verbal offer')).notes).toBe(
+      'Verbal offer'
+    );
+  });
+
+  it('should reject unknown statuses', async () => {
+    const created = await repository.create({ platform: 'indeed', jobUrl: 'u' });
+    await expect(repository.updateStatus(created.id, 'hired')).rejects.toThrow(
+      'Invalid application status'
+    );
+  });
+
+  it('should filter by platform, status and date with pagination', async () => {
+    await repository.create({
+      platform: 'indeed',
+      jobUrl: 'u1',
+      createdAt: '2024-01-01T00:00:00.000Z',
+    });
+    await repository.create({
+      platform: 'indeed',
+      jobUrl: 'u2',
+      createdAt: '2024-02-01T00:00:00.000Z',
+      status: 'submitted',
+    });
+    await repository.create({
+      platform: 'linkedin',
+      jobUrl: 'u3',
+      createdAt: '2024-03-01T00:00:00.000Z',
+    });
+
+    const indeed = await repository.list({ platform: 'indeed' });
+    expect(indeed.total).toBe(2);
+    expect(indeed.items.map((a) => a.jobUrl)).toEqual(['u2', 'u1']);
+
+    const submitted = await repository.list({ status: ['submitted'] });
+    expect(submitted.items.map((a) => a.jobUrl)).toEqual(['u2']);
+
+    const since = await repository.list({ from: '2024-01-15' });
+    expect(since.total).toBe(2);
+
+    const page = await repository.list({}, { page: 2, pageSize: 2 });
+    expect(page).toMatchObject({ total: 3, page: 2, pageSize: 2, totalPages: 2 });
+    expect(page.items.map((a) => a.jobUrl)).toEqual(['u1']);
+  });
+
+  it('should delete applications', async () => {
+    const created = await repository.create({ platform: 'indeed', jobUrl: 'u' });
+    expect(await repository.delete(created.id)).toBe(true);
+    expect(await repository.delete(created.id)).toBe(false);
+    expect(await repository.findById(created.id)).toBeNull();
+  });
+
+  it('should import the legacy flat-file store once', async () => {
+    const tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'jobsprint-legacy-'));
+    const legacyFile = path.join(tmpDir, 'server_applications.json');
+    fs.writeFileSync(
+      legacyFile,
+      JSON.stringify([
+        {
+          submissionId: 'indeed_sub_1',
+          jobUrl: 'u1',
+          success: true,
+          ts: '2024-01-01T00:00:00.000Z',
+        },
+        { submissionId: 'indeed_sub_2', jobUrl: 'u2', coverLetter: '[REDACTED]', success: false },
+      ])
+    );
+
+    expect(await repository.importLegacyFile(legacyFile)).toBe(2);
+    expect(await repository.importLegacyFile(legacyFile)).toBe(0);
+    expect(fs.existsSync(`${legacyFile}.imported`)).toBe(true);
+
+    const imported = await repository.findById('indeed_sub_2');
+    expect(imported).toMatchObject({ platform: 'indeed', status: 'failed', hasCoverLetter: true });
+
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+  });
+});
+
+describe('Applications API', () => {
+  let db;
+  let app;
+
+  beforeEach(() => {
+    db = new DatabaseService(IN_MEMORY);
+    mockRepository.current = new ApplicationRepository(db);
+    app = express();
+    app.use(express.json());
+    app.use((req, res, next) => {
+      req.apiKey = { id: 'test', scopes: ['applications:read', 'applications:write'] };
+      next();
+    });
+    app.use('/api/v1', applicationsRouter);
+  });
+
+  afterEach(() => db.close());
+
+  it('should support the full CRUD lifecycle', async () => {
+    const created = await request(app)
+      .post('/api/v1/applications')
+      .send({ platform: 'linkedin', jobUrl: 'https://linkedin.com/jobs/1' })
+      .expect(201);
+    const { id } = created.body.application;
+
+    await request(app)
+      .put(`/api/v1/applications/${id}/status`)
+      .send({ status: 'submitted' })
+      .expect(200);
+
+    const fetched = await request(app).get(`/api/v1/applications/${id}`).expect(200);
+    expect(fetched.body.application.status).toBe('submitted');
+
+    const list = await request(app)
+      .get('/api/v1/applications/list?platform=linkedin&status=submitted')
+      .expect(200);
+    expect(list.body.applications).toHaveLength(1);
+    expect(list.body.pagination).toMatchObject({ page: 1, total: 1 });
+
+    await request(app).delete(`/api/v1/applications/${id}`).expect(200);
+    await request(app).get(`/api/v1/applications/${id}`).expect(404);
+  });
+
+  it('should validate input', async () => {
+    await request(app).post('/api/v1/applications').send({ platform: 'indeed' }).expect(400);
+    await request(app).get('/api/v1/applications/list?status=hired').expect(400);
+    await request(app).get('/api/v1/applications/list?from=not-a-date').expect(400);
+  });
+});
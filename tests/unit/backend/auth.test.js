@@ -0,0 +1,157 @@
+/**
+ * API Key Authentication Unit Tests
+ *
+ * Test key issuance/verification/revocation and the /api/v1 auth middleware
+ */
+
+import express from 'express';
+import request from 'supertest';
+import authRouter, { authenticate, requireScope } from '../../../src/backend/api/auth';
+import { DatabaseService, IN_MEMORY } from '../../../src/backend/api/services/database.service';
+import {
+  ApiKeyService,
+  assertSafeBootstrapKey,
+  hasScope,
+} from '../../../src/backend/api/services/apiKey.service';
+
+const mockService = { current: null };
+
+jest.mock('../../../src/backend/api/services/apiKey.service', () => {
+  const actual = jest.requireActual('../../../src/backend/api/services/apiKey.service');
+  return { ...actual, getApiKeyService: () => mockService.current };
+});
+
+const BOOTSTRAP_KEY = 'bootstrap-secret';
+
+describe('ApiKeyService', () => {
+  let db;
+  let service;
+
+  beforeEach(() => {
+    db = new DatabaseService(IN_MEMORY);
+    service = new ApiKeyService(db, BOOTSTRAP_KEY);
+  });
+
+  afterEach(() => db.close());
+
+  it('should issue a key that verifies and never store the plaintext', async () => {
+    const { key, record } = await service.issue({ name: 'n8n', scopes: ['ai', 'events:read'] });
+
+    expect(key).toMatch(/^jsk_[0-9a-f]{12}_/);
+    expect(await service.verify(key)).toMatchObject({
+      id: record.id,
+      scopes: ['ai', 'events:read'],
+    });
+
+    const rows = await db.query('SELECT key_hash FROM api_keys');
+    expect(rows[0].key_hash).not.toContain(key);
+  });
+
+  it('should reject unknown, tampered, revoked and expired keys', async () => {
+    const { key, record } = await service.issue({ name: 'n8n', scopes: ['ai'] });
+    const expired = await service.issue({
+      name: 'old',
+      scopes: ['ai'],
+      expiresAt: new Date(Date.now() - 1000),
+    });
+
+    expect(await service.verify('jsk_000000000000_nope')).toBeNull();
+    expect(await service.verify(`${key}x`)).toBeNull();
+    expect(await service.verify(expired.key)).toBeNull();
+
+    expect(await service.revoke(record.id)).toBe(true);
+    expect(await service.revoke(record.id)).toBe(false);
+    expect(await service.verify(key)).toBeNull();
+  });
+
+  it('should reject invalid scopes', async () => {
+    await expect(service.issue({ name: 'bad', scopes: ['root'] })).rejects.toThrow(
+      'Invalid API key scopes'
+    );
+  });
+
+  it('should treat the bootstrap key as admin', async () => {
+    const record = await service.verify(BOOTSTRAP_KEY);
+    expect(hasScope(record.scopes, 'applications:write')).toBe(true);
+  });
+
+  it('should refuse placeholder and short bootstrap keys', () => {
+    expect(() => assertSafeBootstrapKey('change_this_bootstrap_api_key_234!')).toThrow(
+      'placeholder'
+    );
+    expect(() => assertSafeBootstrapKey(BOOTSTRAP_KEY)).toThrow('at least 32 characters');
+    expect(() => assertSafeBootstrapKey(undefined)).not.toThrow();
+    expect(() => assertSafeBootstrapKey('')).not.toThrow();
+    expect(() => assertSafeBootstrapKey('q3V9xRk2mWc7Lp0sYt8bNf4hJd6gZa1e')).not.toThrow();
+  });
+});
+
+describe('Auth middleware and routes', () => {
+  let db;
+  let app;
+
+  beforeEach(() => {
+    db = new DatabaseService(IN_MEMORY);
+    mockService.current = new ApiKeyService(db, BOOTSTRAP_KEY);
+    app = express();
+    app.use(express.json());
+    app.use('/api/v1', authenticate);
+    app.use('/api/v1', authRouter);
+    app.get('/api/v1/ai/health', requireScope('ai'), (req, res) => res.json({ ok: true }));
+    app.get('/api/v1/connect/google/callback', (req, res) => res.json({ ok: true }));
+  });
+
+  afterEach(() => {
+    db.close();
+    delete process.env.JOBSPRINT_API_AUTH;
+  });
+
+  it('should reject requests without a valid key', async () => {
+    await request(app).get('/api/v1/auth/verify').expect(401);
+    await request(app)
+      .get('/api/v1/auth/verify')
+      .set('Authorization', 'Bearer jsk_nope_nope')
+      .expect(401);
+  });
+
+  it('should let OAuth callbacks through without a key', async () => {
+    await request(app).get('/api/v1/connect/google/callback').expect(200);
+  });
+
+  it('should issue, verify, scope-check and revoke keys end-to-end', async () => {
+    const issued = await request(app)
+      .post('/api/v1/auth/keys')
+      .set('Authorization', `Bearer ${BOOTSTRAP_KEY}`)
+      .send({ name: 'n8n', scopes: ['events:read'] })
+      .expect(201);
+    const { key, apiKey } = issued.body;
+
+    const verified = await request(app)
+      .get('/api/v1/auth/verify')
+      .set('Authorization', `Bearer ${key}`)
+      .expect(200);
+    expect(verified.body.key).toMatchObject({ name: 'n8n', scopes: ['events:read'] });
+
+    await request(app).get('/api/v1/ai/health').set('X-API-Key', key).expect(403);
+    await request(app).get('/api/v1/auth/keys').set('Authorization', `Bearer ${key}`).expect(403);
+
+    await request(app)
+      .delete(`/api/v1/auth/keys/${apiKey.id}`)
+      .set('Authorization', `Bearer ${BOOTSTRAP_KEY}`)
+      .expect(200);
+    await request(app).get('/api/v1/auth/verify').set('Authorization', `Bearer ${key}`).expect(401);
+  });
+
+  it('should validate key issuance input', async () => {
+    await request(app)
+      .post('/api/v1/auth/keys')
+      .set('Authorization', `Bearer ${BOOTSTRAP_KEY}`)
+      .send({ name: 'n8n', scopes: ['everything'] })
+      .expect(400);
+  });
+
+  it('should skip checks when auth is disabled', async () => {
+    process.env.JOBSPRINT_API_AUTH = 'disabled';
+    await request(app).get('/api/v1/ai/health').expect(200);
+  });
+});
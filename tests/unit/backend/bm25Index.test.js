@@ -0,0 +1,131 @@
+/**
+ * BM25 Index and Hybrid Search Unit Tests
+ *
+ * Test tokenization and BM25 ranking, and RAGSystem search fusing keyword and vector rankings
+ * with per-query weights and match explanations
+ */
+
+import { Bm25Index, tokenize } from '../../../src/backend/api/services/bm25Index.service';
+import { DatabaseService, IN_MEMORY } from '../../../src/backend/api/services/database.service';
+import { LLMAbstractionLayer } from '../../../src/backend/api/services/llm-abstraction.service';
+import { RAGSystem } from '../../../src/backend/api/services/rag-system.service';
+import { SqliteVectorStore } from '../../../src/backend/api/services/vectorStore.service';
+
+describe('Bm25Index', () => {
+  it('should keep technical names whole and drop stopwords', () => {
+    expect(tokenize('Experience with C++, C# and Node.js for the CI/CD pipeline.')).toEqual([
+      'experience',
+      'c++',
+      'c#',
+      'node.js',
+      'ci',
+      'cd',
+      'pipeline',
+    ]);
+  });
+
+  it('should rank rare terms and short texts higher', () => {
+    const index = new Bm25Index();
+    index.add('a', 'Terraform modules for AWS infrastructure');
+    index.add('b', 'AWS Lambda and AWS S3');
+    index.add('c', 'Write AWS infrastructure runbooks and AWS cost reports for finance teams');
+
+    const matches = index.search('terraform aws', 3);
+    expect(matches.map((m) => m.id)).toEqual(['a', 'b', 'c']);
+    expect(matches[0].terms).toEqual(['terraform', 'aws']);
+    expect(matches[1].terms).toEqual(['aws']);
+    expect(index.search('aws', 3, new Set(['c'])).map((m) => m.id)).toEqual(['c']);
+  });
+
+  it('should update and remove texts', () => {
+    const index = new Bm25Index();
+    index.add('a', 'Kubernetes operator');
+    index.add('a', 'Terraform provider');
+    index.add('b', 'Kubernetes');
+
+    expect(index.search('kubernetes', 5).map((m) => m.id)).toEqual(['b']);
+    expect(index.remove('b')).toBe(true);
+    expect(index.remove('b')).toBe(false);
+    expect(index.search('kubernetes', 5)).toEqual([]);
+    expect(index.size).toBe(1);
+  });
+});
+
+describe('RAGSystem hybrid search', () => {
+  const llm = new LLMAbstractionLayer();
+  // Knows all these tools and certifications are about infrastructure or compliance, but not
+  // which is which
+  const embedder = {
+    id: 'test/topics',
+    embed: async (texts) =>
+      texts.map((text) => (/soc|iso|audit|compliance/i.test(text) ? [0, 1] : [1, 0])),
+  };
+  const job = {
+    id: 'job-1',
+    title: 'Platform Engineer',
+    company: 'Acme',
+    content: '',
+    requirements: ['ISO 27001 audit experience', 'SOC 2 Type II compliance'],
+    responsibilities: ['Run infrastructure as code'],
+    skills: ['Pulumi', 'CloudFormation', 'Terraform'],
+    metadata: {},
+  };
+  let db;
+  let rag;
+
+  beforeEach(async () => {
+    db = new DatabaseService(IN_MEMORY);
+    rag = new RAGSystem(llm, { embedder, store: new SqliteVectorStore(db) });
+    await rag.addJobDescription(job);
+    jest.spyOn(embedder, 'embed');
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+    db.close();
+  });
+
+  it('should put exact keyword matches first and explain each hit', async () => {
+    const [first, second] = await rag.search({ query: 'Terraform', filters: { type: ['skill'] } });
+
+    expect(first).toMatchObject({
+      content: 'Terraform',
+      matchedBy: 'both',
+      lexical: { rank: 1, terms: ['terraform'] },
+      semantic: { rank: expect.any(Number), score: 1 },
+    });
+    expect(first.score).toBeLessThanOrEqual(1);
+    expect(second).toMatchObject({ matchedBy: 'semantic', score: expect.any(Number) });
+    expect(second.lexical).toBeUndefined();
+
+    const [certification] = await rag.search({ query: 'SOC 2 certified', topK: 1 });
+    expect(certification).toMatchObject({
+      content: 'SOC 2 Type II compliance',
+      lexical: { terms: ['soc', '2'] },
+    });
+  });
+
+  it('should weight the rankings per query', async () => {
+    const semanticOnly = await rag.search({ query: 'Terraform', weights: { lexical: 0 } });
+    expect(semanticOnly.every((r) => r.matchedBy === 'semantic')).toBe(true);
+    expect(semanticOnly[0].content).not.toBe('Terraform');
+
+    const lexicalOnly = await rag.search({ query: 'Terraform', weights: { semantic: 0 } });
+    expect(lexicalOnly).toEqual([
+      expect.objectContaining({ content: 'Terraform', matchedBy: 'lexical', score: 1 }),
+    ]);
+    expect(embedder.embed).toHaveBeenCalledTimes(1);
+  });
+
+  it('should keep the keyword index in step with job changes', async () => {
+    await rag.search({ query: 'Terraform' });
+    await rag.addJobDescription({ ...job, skills: ['Pulumi', 'Ansible'] });
+
+    const keyword = (query) => rag.search({ query, weights: { semantic: 0 } });
+    expect(await keyword('Terraform')).toEqual([]);
+    expect((await keyword('Ansible')).map((r) => r.content)).toEqual(['Ansible']);
+
+    await rag.removeJobDescription('job-1');
+    expect(await keyword('Ansible')).toEqual([]);
+  });
+});
@@ -0,0 +1,355 @@
+/**
+ * Cost Ledger Unit Tests
+ *
+ * Test the persisted cost ledger, budget alerts and hard limits, their enforcement in the
+ * LLM abstraction layer and the /ai budget routes
+ */
+
+import express from 'express';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import request from 'supertest';
+import aiRouter from '../../../src/backend/api/ai';
+import { DatabaseService, IN_MEMORY } from '../../../src/backend/api/services/database.service';
+import {
+  BudgetExceededError,
+  CostLedgerService,
+  periodStart,
+} from '../../../src/backend/api/services/costLedger.service';
+import { LLMAbstractionLayer } from '../../../src/backend/api/services/llm-abstraction.service';
+import { isolateProviders, jsonResponse } from '../../helpers/providers';
+
+const mockServices = { llm: null, ledger: null };
+
+jest.mock('../../../src/backend/api/services/llm-abstraction.service', () => {
+  const actual = jest.requireActual('../../../src/backend/api/services/llm-abstraction.service');
+  return { ...actual, getLLMService: () => mockServices.llm };
+});
+
+jest.mock('../../../src/backend/api/services/costLedger.service', () => {
+  const actual = jest.requireActual('../../../src/backend/api/services/costLedger.service');
+  return { ...actual, getCostLedger: () => mockServices.ledger };
+});
+
+jest.mock('../../../src/backend/api/services/eventLog.service', () => ({
+  recordEvent: jest.fn(),
+}));
+
+const call = (cost, attribution = {}) => ({
+  provider: 'openai',
+  model: 'gpt-4o',
+  inputTokens: 100,
+  outputTokens: 50,
+  cost,
+  ...attribution,
+});
+
+describe('CostLedgerService', () => {
+  let db;
+  let alert;
+  let now;
+  let ledger;
+
+  beforeEach(() => {
+    db = new DatabaseService(IN_MEMORY);
+    alert = jest.fn();
+    now = new Date('2026-03-18T12:00:00Z');
+    ledger = new CostLedgerService(db, alert, () => now);
+  });
+
+  afterEach(() => db.close());
+
+  it('should start budget periods at midnight UTC, Monday and the first of the month', () => {
+    const wednesday = new Date('2026-03-18T12:00:00Z');
+    expect(periodStart('day', wednesday).toISOString()).toBe('2026-03-18T00:00:00.000Z');
+    expect(periodStart('week', wednesday).toISOString()).toBe('2026-03-16T00:00:00.000Z');
+    expect(periodStart('week', new Date('2026-03-22T23:00:00Z')).toISOString()).toBe(
+      '2026-03-16T00:00:00.000Z'
+    );
+    expect(periodStart('month', wednesday).toISOString()).toBe('2026-03-01T00:00:00.000Z');
+  });
+
+  it('should keep the ledger across restarts', async () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'cost-ledger-'));
+    const file = path.join(dir, 'jobsprint.sqlite');
+    try {
+      const first = new DatabaseService(file);
+      await new CostLedgerService(first, alert).record(call(0.5, { feature: 'cover_letter' }));
+      first.close();
+
+      const reopened = new DatabaseService(file);
+      const stats = await new CostLedgerService(reopened, alert).getStats(new Date(0));
+      reopened.close();
+
+      expect(stats).toMatchObject({
+        totalCost: 0.5,
+        totalTokens: 150,
+        requests: 1,
+        byProvider: { openai: { cost: 0.5, tokens: 150, requests: 1 } },
+        byFeature: { cover_letter: { cost: 0.5, requests: 1 } },
+      });
+    } finally {
+      fs.rmSync(dir, { recursive: true, force: true });
+    }
+  });
+
+  it('should replace budgets with the same scope, subject and period', async () => {
+    const first = await ledger.setBudget({ scope: 'user', subject: 'u1', period: 'day', limit: 1 });
+    const second = await ledger.setBudget({
+      scope: 'user',
+      subject: 'u1',
+      period: 'day',
+      limit: 2,
+      hard: false,
+    });
+
+    expect(second).toMatchObject({ id: first.id, limit: 2, hard: false, alertAt: 0.8 });
+    expect(await ledger.listBudgets()).toHaveLength(1);
+    expect(await ledger.deleteBudget(first.id)).toBe(true);
+    expect(await ledger.deleteBudget(first.id)).toBe(false);
+
+    await expect(ledger.setBudget({ scope: 'team', period: 'day', limit: 1 })).rejects.toThrow(
+      'Invalid budget scope'
+    );
+    await expect(ledger.setBudget({ scope: 'global', period: 'day', limit: -1 })).rejects.toThrow(
+      'Invalid budget limit'
+    );
+  });
+
+  it('should refuse calls that would exceed a hard budget', async () => {
+    await ledger.setBudget({ scope: 'user', subject: 'u1', period: 'day', limit: 1 });
+    await ledger.record(call(0.9, { userId: 'u1' }));
+
+    await expect(ledger.assertWithinBudget({ userId: 'u2' }, 0.5)).resolves.toBeUndefined();
+    await expect(ledger.assertWithinBudget({ userId: 'u1' }, 0.05)).resolves.toBeUndefined();
+    // Free calls never count against a budget
+    await expect(ledger.assertWithinBudget({ userId: 'u1' }, 0)).resolves.toBeUndefined();
+
+    const refused = ledger.assertWithinBudget({ userId: 'u1' }, 0.2);
+    await expect(refused).rejects.toThrow(BudgetExceededError);
+    await expect(refused).rejects.toThrow('Daily user u1 budget exceeded');
+    expect(alert).toHaveBeenLastCalledWith(
+      expect.objectContaining({ type: 'budget.blocked', subject: 'u1', spent: 0.9 })
+    );
+  });
+
+  it('should apply a budget without a subject to each user separately', async () => {
+    await ledger.setBudget({ scope: 'user', period: 'month', limit: 1 });
+    await ledger.record(call(0.9, { userId: 'u1' }));
+
+    await expect(ledger.assertWithinBudget({ userId: 'u1' }, 0.2)).rejects.toThrow(
+      BudgetExceededError
+    );
+    await expect(ledger.assertWithinBudget({ userId: 'u2' }, 0.2)).resolves.toBeUndefined();
+    // Calls without a user are only held to global budgets
+    await expect(ledger.assertWithinBudget({}, 5)).resolves.toBeUndefined();
+  });
+
+  it('should hold the estimate of calls in flight against hard budgets', async () => {
+    await ledger.setBudget({ scope: 'user', subject: 'u1', period: 'day', limit: 1 });
+
+    const admitted = await Promise.allSettled([
+      ledger.reserve({ userId: 'u1' }, 0.4),
+      ledger.reserve({ userId: 'u1' }, 0.4),
+      ledger.reserve({ userId: 'u1' }, 0.4),
+      ledger.reserve({ userId: 'u2' }, 0.4),
+    ]);
+    expect(admitted.map((result) => result.status)).toEqual([
+      'fulfilled',
+      'fulfilled',
+      'rejected',
+      'fulfilled',
+    ]);
+    expect(admitted[2].reason).toBeInstanceOf(BudgetExceededError);
+    expect(admitted[2].reason.spent).toBeCloseTo(0.8);
+
+    // Once a call is recorded its reservation is released
+    await ledger.record(call(0.3, { userId: 'u1' }));
+    admitted[0].value();
+    admitted[0].value();
+    admitted[1].value();
+    await expect(ledger.reserve({ userId: 'u1' }, 0.6)).resolves.toEqual(expect.any(Function));
+  });
+
+  it('should only alert on soft budgets', async () => {
+    await ledger.setBudget({
+      scope: 'feature',
+      subject: 'pdf',
+      period: 'day',
+      limit: 1,
+      hard: false,
+    });
+    await ledger.record(call(1.5, { feature: 'pdf' }));
+
+    await expect(ledger.assertWithinBudget({ feature: 'pdf' }, 1)).resolves.toBeUndefined();
+    expect(alert).toHaveBeenCalledWith(expect.objectContaining({ type: 'budget.exceeded' }));
+  });
+
+  it('should alert once when spend crosses the warning and the limit', async () => {
+    await ledger.setBudget({ scope: 'global', period: 'day', limit: 1, alertAt: 0.5 });
+
+    await ledger.record(call(0.4));
+    expect(alert).not.toHaveBeenCalled();
+    await ledger.record(call(0.2));
+    await ledger.record(call(0.1));
+    await ledger.record(call(0.4));
+    await ledger.record(call(0.1));
+
+    expect(alert.mock.calls.map(([a]) => a.type)).toEqual(['budget.warning', 'budget.exceeded']);
+    expect(alert.mock.calls[0][0]).toMatchObject({ scope: 'global', period: 'day', limit: 1 });
+  });
+
+  it('should count only the current period', async () => {
+    await ledger.setBudget({ scope: 'global', period: 'day', limit: 1 });
+    await ledger.record(call(0.9));
+
+    now = new Date('2026-03-19T00:00:01Z');
+    const [status] = await ledger.getBudgetStatus();
+    expect(status).toMatchObject({
+      spent: 0,
+      remaining: 1,
+      periodStart: '2026-03-19T00:00:00.000Z',
+    });
+  });
+});
+
+describe('LLMAbstractionLayer budgets', () => {
+  let db;
+  let ledger;
+  let llm;
+  let app;
+
+  const chatRequest = {
+    messages: [{ role: 'user', content: 'Tailor my resume' }],
+    taskType: 'resume',
+    userId: 'u1',
+  };
+
+  isolateProviders({ OPENAI_API_KEY: 'sk-test' });
+
+  beforeEach(() => {
+    global.fetch = jest.fn(async () =>
+      jsonResponse({
+        choices: [{ message: { content: 'Done' }, finish_reason: 'stop' }],
+        usage: { prompt_tokens: 100, completion_tokens: 50 },
+      })
+    );
+
+    db = new DatabaseService(IN_MEMORY);
+    ledger = new CostLedgerService(db, jest.fn());
+    llm = new LLMAbstractionLayer(undefined, { ledger });
+    mockServices.llm = llm;
+    mockServices.ledger = ledger;
+
+    app = express();
+    app.use(express.json());
+    app.use((req, res, next) => {
+      req.apiKey = { id: 'key_1', scopes: ['admin'] };
+      next();
+    });
+    app.use('/api/v1', aiRouter);
+  });
+
+  afterEach(() => {
+    db.close();
+  });
+
+  it('should record each call against its user and feature', async () => {
+    const response = await llm.generate(chatRequest, 'openai');
+    await llm.generate({ ...chatRequest, feature: 'interview_prep' }, 'openai');
+
+    const rows = await db.query('SELECT user_id, feature, provider, cost FROM cost_ledger');
+    expect(rows).toEqual([
+      { user_id: 'u1', feature: 'resume', provider: 'openai', cost: response.usage.cost },
+      { user_id: 'u1', feature: 'interview_prep', provider: 'openai', cost: response.usage.cost },
+    ]);
+    expect((await llm.getUsageStats('day')).byFeature).toEqual({
+      resume: { cost: response.usage.cost, requests: 1 },
+      interview_prep: { cost: response.usage.cost, requests: 1 },
+    });
+  });
+
+  it('should refuse a call over a hard budget without calling the provider', async () => {
+    await llm.generate(chatRequest, 'openai');
+    await ledger.setBudget({ scope: 'feature', subject: 'resume', period: 'day', limit: 0.0005 });
+
+    await expect(llm.generate(chatRequest, 'openai')).rejects.toThrow(BudgetExceededError);
+    await expect(llm.generateStream(chatRequest, 'openai').next()).rejects.toThrow(
+      BudgetExceededError
+    );
+    expect(global.fetch).toHaveBeenCalledTimes(1);
+  });
+
+  it('should answer 402 when a route call is over budget', async () => {
+    await request(app)
+      .put('/api/v1/ai/budgets')
+      .send({ scope: 'user', subject: 'key_1', period: 'day', limit: 0 })
+      .expect(200);
+
+    const res = await request(app)
+      .post('/api/v1/ai/chat')
+      .send({ messages: [{ role: 'user', content: 'Hi' }], provider: 'openai', user: 'n8n-user' })
+      .expect(402);
+
+    expect(res.body).toMatchObject({
+      ok: false,
+      error: 'budget_exceeded',
+      budget: { scope: 'user', subject: 'key_1', limit: 0 },
+    });
+    expect(global.fetch).not.toHaveBeenCalled();
+
+    const status = await request(app).get('/api/v1/ai/budgets/status').expect(200);
+    expect(status.body.budgets).toEqual([expect.objectContaining({ spent: 0, remaining: 0 })]);
+  });
+
+  it("should only show admin keys other users' budget status", async () => {
+    await ledger.setBudget({ scope: 'user', subject: 'key_2', period: 'day', limit: 5 });
+    const aiApp = express();
+    aiApp.use((req, res, next) => {
+      req.apiKey = { id: 'key_2', scopes: ['ai'] };
+      next();
+    });
+    aiApp.use('/api/v1', aiRouter);
+
+    const denied = await request(aiApp).get('/api/v1/ai/budgets/status?user=key_1').expect(403);
+    expect(denied.body).toEqual({ ok: false, error: 'insufficient_scope', required: 'admin' });
+    const own = await request(aiApp).get('/api/v1/ai/budgets/status').expect(200);
+    expect(own.body.budgets).toEqual([expect.objectContaining({ subject: 'key_2' })]);
+
+    const admin = await request(app).get('/api/v1/ai/budgets/status?user=key_2').expect(200);
+    expect(admin.body.budgets).toEqual([expect.objectContaining({ subject: 'key_2' })]);
+  });
+
+  it('should charge route calls to the API key and keep `user` as a label', async () => {
+    await request(app)
+      .post('/api/v1/ai/chat')
+      .send({ messages: [{ role: 'user', content: 'Hi' }], provider: 'openai', user: 'alice' })
+      .expect(200);
+    await request(app)
+      .post('/api/v1/ai/chat')
+      .send({ messages: [{ role: 'user', content: 'Hi' }], provider: 'openai' })
+      .expect(200);
+    await request(app)
+      .post('/api/v1/ai/completion')
+      .send({ prompt: 'Hi', provider: 'openai', user: 'bob' })
+      .expect(200);
+
+    const rows = await db.query('SELECT user_id, label FROM cost_ledger ORDER BY created_at');
+    expect(rows).toEqual([
+      { user_id: 'key_1', label: 'alice' },
+      { user_id: 'key_1', label: null },
+      { user_id: 'key_1', label: 'bob' },
+    ]);
+  });
+
+  it('should validate budgets on the route', async () => {
+    const res = await request(app)
+      .put('/api/v1/ai/budgets')
+      .send({ scope: 'global', period: 'hour', limit: 5 })
+      .expect(400);
+    expect(res.body).toMatchObject({ ok: false, error: 'invalid_budget' });
+
+    await request(app).delete('/api/v1/ai/budgets/budget_missing').expect(404);
+  });
+});
@@ -0,0 +1,276 @@
+/**
+ * DOCX Export Unit Tests
+ *
+ * Unzip generated resumes and cover letters and check the WordprocessingML: package parts,
+ * built-in styles and bullet numbering, section mapping, escaping and page setup
+ */
+
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import {
+  CostTrackingService,
+  DocumentGenerationService,
+} from '../../../src/backend/api/services/costTracking.service';
+import { LocalDocumentStorage } from '../../../src/backend/api/services/documentStorage.service';
+import {
+  DocxGenerationService,
+  coverLetterToDocx,
+  resumeToDocx,
+  textToDocx,
+} from '../../../src/backend/api/services/docxExport.service';
+import { LLMAbstractionLayer } from '../../../src/backend/api/services/llm-abstraction.service';
+import {
+  createZip,
+  InflateLimitError,
+  readZip,
+} from '../../../src/backend/api/services/zip.service';
+
+const RESUME = {
+  contact: {
+    name: 'Ada Lovelace',
+    email: 'ada@example.com',
+    phone: '+44 20 7946 0000',
+    links: ['linkedin.com/in/ada'],
+  },
+  summary: 'Platform engineer who makes deploys boring.',
+  experience: [
+    {
+      title: 'Senior Platform Engineer',
+      company: 'Acme & Sons',
+      duration: '2021 - Present',
+      achievements: ['Moved 40 services to Kubernetes', 'Cut build times by <50%>'],
+      technologies: ['Kubernetes', 'Terraform'],
+    },
+  ],
+  education: [{ degree: 'BSc Mathematics', school: 'University of London', year: '2015' }],
+  skills: ['Kubernetes', 'Terraform', 'Go'],
+  projects: [
+    {
+      name: 'kube-lint',
+      description: 'Linter for Helm charts',
+      technologies: ['Go'],
+      url: 'https://github.com/ada/kube-lint',
+    },
+  ],
+  certifications: ['CKA'],
+};
+
+const unzip = (docx) => {
+  const parts = readZip(docx);
+  return Object.fromEntries([...parts].map(([name, data]) => [name, data.toString('utf8')]));
+};
+
+/** Style and text of each body paragraph, with line breaks as "\n" */
+const paragraphs = (documentXml) =>
+  [...documentXml.matchAll(/<w:p>(.*?)<\/w:p>/g)].map(([, p]) => ({
+    style: p.match(/<w:pStyle w:val="(\w+)"\/>/)?.[1],
+    text: p
+      .replace(/<w:br\/>/g, '\n')
+      .replace(/<[^>]+>/g, '')
+      .replace(/&lt;/g, '<')
+      .replace(/&gt;/g, '>')
+      .replace(/&amp;/g, '&'),
+  }));
+
+describe('zip', () => {
+  it('should read back what it writes', () => {
+    const zip = createZip([
+      { name: 'a.txt', data: 'hello' },
+      { name: 'dir/ünïcode.xml', data: Buffer.from('<x/>'.repeat(50)) },
+    ]);
+
+    const entries = readZip(zip);
+    expect([...entries.keys()]).toEqual(['a.txt', 'dir/ünïcode.xml']);
+    expect(entries.get('dir/ünïcode.xml').toString()).toBe('<x/>'.repeat(50));
+    expect(() => readZip(Buffer.from('not a zip at all, just some text'))).toThrow(
+      'Not a zip archive'
+    );
+  });
+
+  it('should only inflate included entries, up to the size limit', () => {
+    const zip = createZip([
+      { name: 'a.txt', data: 'hello' },
+      { name: 'big.bin', data: Buffer.alloc(64 * 1024) },
+    ]);
+
+    expect([
+      ...readZip(zip, { include: (name) => name === 'a.txt', maxSize: 1024 }).keys(),
+    ]).toEqual(['a.txt']);
+    expect(() => readZip(zip, { maxSize: 1024 })).toThrow(InflateLimitError);
+    expect(readZip(zip).get('big.bin')).toHaveLength(64 * 1024);
+  });
+});
+
+describe('resumeToDocx', () => {
+  const parts = unzip(resumeToDocx(RESUME));
+
+  it('should write a complete Word package', () => {
+    expect(Object.keys(parts)).toEqual([
+      '[Content_Types].xml',
+      '_rels/.rels',
+      'word/document.xml',
+      'word/_rels/document.xml.rels',
+      'word/styles.xml',
+      'word/numbering.xml',
+      'docProps/core.xml',
+    ]);
+    expect(parts['[Content_Types].xml']).toContain(
+      'PartName="/word/document.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.document.main+xml"'
+    );
+    expect(parts['_rels/.rels']).toContain('Target="word/document.xml"');
+    expect(parts['word/_rels/document.xml.rels']).toContain('Target="numbering.xml"');
+    expect(parts['docProps/core.xml']).toContain('<dc:title>Ada Lovelace - Resume</dc:title>');
+    expect(parts['docProps/core.xml']).toContain('<dc:creator>Ada Lovelace</dc:creator>');
+  });
+
+  it('should map each section to built-in headings and bullet lists', () => {
+    expect(paragraphs(parts['word/document.xml'])).toEqual([
+      { style: 'Title', text: 'Ada Lovelace' },
+      { text: 'ada@example.com | +44 20 7946 0000 | linkedin.com/in/ada' },
+      { style: 'Heading1', text: 'Summary' },
+      { text: 'Platform engineer who makes deploys boring.' },
+      { style: 'Heading1', text: 'Experience' },
+      { style: 'Heading2', text: 'Senior Platform Engineer, Acme & Sons' },
+      { text: '2021 - Present' },
+      { style: 'ListBullet', text: 'Moved 40 services to Kubernetes' },
+      { style: 'ListBullet', text: 'Cut build times by <50%>' },
+      { text: 'Technologies: Kubernetes, Terraform' },
+      { style: 'Heading1', text: 'Education' },
+      { text: 'BSc Mathematics, University of London | 2015' },
+      { style: 'Heading1', text: 'Skills' },
+      { text: 'Kubernetes, Terraform, Go' },
+      { style: 'Heading1', text: 'Projects' },
+      { style: 'Heading2', text: 'kube-lint' },
+      { text: 'Linter for Helm charts' },
+      { text: 'Technologies: Go' },
+      { text: 'https://github.com/ada/kube-lint' },
+      { style: 'Heading1', text: 'Certifications' },
+      { style: 'ListBullet', text: 'CKA' },
+    ]);
+  });
+
+  it('should stay single-column and define the styles and numbering it uses', () => {
+    const document = parts['word/document.xml'];
+    for (const layout of ['<w:tbl', '<w:txbxContent', '<w:headerReference']) {
+      expect(document).not.toContain(layout);
+    }
+    expect(document).toContain('Acme &amp; Sons');
+    expect(document).toContain('<w:numPr><w:ilvl w:val="0"/><w:numId w:val="1"/></w:numPr>');
+
+    const styles = parts['word/styles.xml'];
+    for (const id of ['Normal', 'Title', 'Heading1', 'Heading2', 'ListBullet']) {
+      expect(styles).toContain(`w:styleId="${id}"`);
+    }
+    expect(styles).toContain('<w:outlineLvl w:val="0"/>');
+    expect(styles).toContain('w:ascii="Times New Roman"');
+    expect(parts['word/numbering.xml']).toContain('<w:numFmt w:val="bullet"/>');
+  });
+
+  it('should leave out empty sections and follow the page options', () => {
+    const { 'word/document.xml': document, 'word/styles.xml': styles } = unzip(
+      resumeToDocx(
+        { summary: '', skills: ['Go'], experience: [], education: [] },
+        { pageSize: 'A4', margins: { left: 25.4 }, style: 'modern' }
+      )
+    );
+
+    expect(paragraphs(document)).toEqual([{ style: 'Heading1', text: 'Skills' }, { text: 'Go' }]);
+    expect(document).toContain('<w:pgSz w:w="11906" w:h="16838"/>');
+    expect(document).toContain('w:right="1077" w:bottom="1077" w:left="1440"');
+    expect(styles).toContain('w:ascii="Calibri"');
+  });
+});
+
+describe('coverLetterToDocx and textToDocx', () => {
+  it('should keep the letter paragraphs and the line breaks of its sign-off', () => {
+    const letter = 'Dear Hiring Team,\n\nI moved 40 services to Kubernetes.\n\nSincerely,\nAda';
+    const { 'word/document.xml': document } = unzip(
+      coverLetterToDocx(letter, { sender: { name: 'Ada Lovelace', email: 'ada@example.com' } })
+    );
+
+    expect(paragraphs(document)).toEqual([
+      { style: 'Title', text: 'Ada Lovelace' },
+      { text: 'ada@example.com' },
+      { text: 'Dear Hiring Team,' },
+      { text: 'I moved 40 services to Kubernetes.' },
+      { text: 'Sincerely,\nAda' },
+    ]);
+  });
+
+  it('should read headings and bullets from generated text', () => {
+    const { 'word/document.xml': document } = unzip(
+      textToDocx('EXPERIENCE:\nAcme\n- Shipped things\n• Fixed things\n')
+    );
+
+    expect(paragraphs(document)).toEqual([
+      { style: 'Heading1', text: 'EXPERIENCE' },
+      { text: 'Acme' },
+      { style: 'ListBullet', text: 'Shipped things' },
+      { style: 'ListBullet', text: 'Fixed things' },
+    ]);
+  });
+});
+
+describe('DocxGenerationService', () => {
+  let dir;
+  let storage;
+  let recordEvent;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'docx-'));
+    storage = new LocalDocumentStorage(dir);
+    recordEvent = jest.fn();
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('should save the DOCX and report its size', async () => {
+    const result = await new DocxGenerationService({ storage, recordEvent }).generateDocx({
+      type: 'resume',
+      resume: RESUME,
+    });
+
+    const file = fs.readFileSync(path.join(dir, result.fileName));
+    expect(result.fileName).toMatch(/^resume-\d+\.docx$/);
+    expect(result.fileSize).toBe(file.length);
+    expect(readZip(file).has('word/document.xml')).toBe(true);
+    expect(recordEvent).toHaveBeenCalledWith({
+      type: 'file.created',
+      source: 'documents',
+      data: {
+        url: result.url,
+        path: path.join(dir, result.fileName),
+        size: file.length,
+        fileName: result.fileName,
+        format: 'docx',
+        documentType: 'resume',
+      },
+    });
+
+    await expect(
+      new DocxGenerationService({ storage, recordEvent }).generateDocx({ type: 'cover-letter' })
+    ).rejects.toThrow('No content for the cover-letter document');
+  });
+
+  it('should be a DocumentGenerationService target next to the PDF', async () => {
+    const llm = new LLMAbstractionLayer();
+    const documents = new DocumentGenerationService(
+      llm,
+      new CostTrackingService(llm),
+      null,
+      new DocxGenerationService({ storage, recordEvent })
+    );
+
+    const result = await documents.generateDocument(RESUME, 'resume', { includeDOCX: true });
+
+    expect(result.content).toContain('EXPERIENCE:\nSenior Platform Engineer, Acme & Sons');
+    expect(result.pdf).toBeUndefined();
+    const { 'word/document.xml': document } = unzip(
+      fs.readFileSync(path.join(dir, result.docx.fileName))
+    );
+    expect(paragraphs(document)[0]).toEqual({ style: 'Title', text: 'Ada Lovelace' });
+  });
+});
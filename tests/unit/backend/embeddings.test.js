@@ -0,0 +1,318 @@
+/**
+ * Embeddings Unit Tests
+ *
+ * Test the embeddings API of the LLM abstraction layer (OpenAI, Ollama, local model), embedder
+ * selection from the environment, RAG search with real embedders, the hash fallback and
+ * re-embedding of stale vectors, and the /ai/embeddings route
+ */
+
+import express from 'express';
+import request from 'supertest';
+import aiRouter from '../../../src/backend/api/ai';
+import { DatabaseService, IN_MEMORY } from '../../../src/backend/api/services/database.service';
+import { CostLedgerService } from '../../../src/backend/api/services/costLedger.service';
+import {
+  HashEmbedder,
+  LLMEmbedder,
+  LocalEmbeddingModel,
+  createEmbedderFromEnv,
+} from '../../../src/backend/api/services/embeddings.service';
+import { LLMAbstractionLayer } from '../../../src/backend/api/services/llm-abstraction.service';
+import { RAGSystem } from '../../../src/backend/api/services/rag-system.service';
+import { SqliteVectorStore } from '../../../src/backend/api/services/vectorStore.service';
+import { isolateProviders, jsonResponse } from '../../helpers/providers';
+
+const mockServices = { llm: null };
+
+jest.mock('../../../src/backend/api/services/llm-abstraction.service', () => {
+  const actual = jest.requireActual('../../../src/backend/api/services/llm-abstraction.service');
+  return { ...actual, getLLMService: () => mockServices.llm };
+});
+
+// Puts frontend words on one axis and everything else on another, like a model that knows
+// React is a frontend framework
+const conceptEmbedder = (id = 'test/concepts') => ({
+  id,
+  embed: jest.fn(async (texts) =>
+    texts.map((text) => (/react|frontend|vue/i.test(text) ? [1, 0] : [0, 1]))
+  ),
+});
+
+const job = {
+  id: 'job-1',
+  title: 'Senior Engineer',
+  company: 'Acme',
+  content: '',
+  requirements: ['5 years of experience'],
+  responsibilities: ['Ship features'],
+  skills: ['React', 'PostgreSQL'],
+  metadata: {},
+};
+
+describe('LLMAbstractionLayer.embed', () => {
+  let db;
+
+  isolateProviders();
+
+  beforeEach(() => {
+    db = new DatabaseService(IN_MEMORY);
+  });
+
+  afterEach(() => {
+    db.close();
+  });
+
+  it('should embed with OpenAI in input order and charge the ledger', async () => {
+    process.env.OPENAI_API_KEY = 'sk-test';
+    global.fetch = jest.fn(async () =>
+      jsonResponse({
+        data: [
+          { index: 1, embedding: [0, 1] },
+          { index: 0, embedding: [1, 0] },
+        ],
+        usage: { prompt_tokens: 1000 },
+      })
+    );
+    const ledger = new CostLedgerService(db, jest.fn());
+    const llm = new LLMAbstractionLayer(undefined, { ledger });
+
+    const response = await llm.embed({ input: ['first', 'second'], userId: 'u1' });
+
+    expect(response).toEqual({
+      embeddings: [
+        [1, 0],
+        [0, 1],
+      ],
+      provider: 'openai',
+      model: 'text-embedding-3-small',
+      usage: { inputTokens: 1000, cost: 0.00002 },
+    });
+    const [url, init] = global.fetch.mock.calls[0];
+    expect(url).toBe('https://api.openai.com/v1/embeddings');
+    expect(JSON.parse(init.body)).toEqual({
+      model: 'text-embedding-3-small',
+      input: ['first', 'second'],
+    });
+    expect(await db.query('SELECT user_id, feature, model, input_tokens FROM cost_ledger')).toEqual(
+      [
+        {
+          user_id: 'u1',
+          feature: 'embeddings',
+          model: 'text-embedding-3-small',
+          input_tokens: 1000,
+        },
+      ]
+    );
+  });
+
+  it('should embed with Ollama and retry retryable errors', async () => {
+    global.fetch = jest
+      .fn()
+      .mockResolvedValueOnce(jsonResponse({ error: 'loading model' }, 503))
+      .mockResolvedValueOnce(jsonResponse({ embeddings: [[0.5, 0.5]], prompt_eval_count: 3 }));
+    const llm = new LLMAbstractionLayer(undefined, { retry: { baseDelayMs: 1, maxDelayMs: 1 } });
+
+    const response = await llm.embed({ input: ['hello'] }, 'ollama', 'all-minilm');
+
+    expect(response).toMatchObject({
+      embeddings: [[0.5, 0.5]],
+      provider: 'ollama',
+      model: 'all-minilm',
+      usage: { inputTokens: 3, cost: 0 },
+    });
+    expect(global.fetch).toHaveBeenCalledTimes(2);
+    expect(global.fetch.mock.calls[1][0]).toBe('http://localhost:11434/api/embed');
+  });
+
+  it('should refuse providers without embedding models', async () => {
+    const llm = new LLMAbstractionLayer();
+    await expect(llm.embed({ input: ['x'] }, 'claude')).rejects.toThrow(
+      'Provider claude has no embedding models'
+    );
+    await expect(llm.embed({ input: ['x'] }, 'nope')).rejects.toThrow(
+      'Provider nope not available'
+    );
+  });
+
+  it('should run the local model through transformers.js', async () => {
+    const extractor = jest.fn(async (texts) => ({ tolist: () => texts.map(() => [0.1, 0.2]) }));
+    const pipeline = jest.fn(async () => extractor);
+    const llm = new LLMAbstractionLayer(undefined, {
+      localEmbeddings: new LocalEmbeddingModel(async () => ({ pipeline })),
+    });
+
+    const response = await llm.embed({ input: ['a', 'b'] }, 'local');
+    await llm.embed({ input: ['c'] }, 'local');
+
+    expect(response).toMatchObject({
+      embeddings: [
+        [0.1, 0.2],
+        [0.1, 0.2],
+      ],
+      provider: 'local',
+      model: 'Xenova/all-MiniLM-L6-v2',
+      usage: { cost: 0 },
+    });
+    expect(pipeline).toHaveBeenCalledTimes(1);
+    expect(extractor).toHaveBeenCalledWith(['a', 'b'], { pooling: 'mean', normalize: true });
+
+    const missing = new LocalEmbeddingModel(async () => {
+      throw new Error("Cannot find module '@huggingface/transformers'");
+    });
+    await expect(missing.embed(['a'])).rejects.toThrow(
+      'Local embeddings need the optional @huggingface/transformers package'
+    );
+  });
+
+  it('should pick the embedder from the environment', () => {
+    const llm = new LLMAbstractionLayer();
+
+    expect(createEmbedderFromEnv(llm, {})).toBeInstanceOf(HashEmbedder);
+    expect(createEmbedderFromEnv(llm, { JOBSPRINT_EMBEDDINGS_PROVIDER: 'openai' }).id).toBe(
+      'openai/text-embedding-3-small'
+    );
+    expect(
+      createEmbedderFromEnv(llm, {
+        JOBSPRINT_EMBEDDINGS_PROVIDER: 'ollama',
+        JOBSPRINT_EMBEDDINGS_MODEL: 'all-minilm',
+      }).id
+    ).toBe('ollama/all-minilm');
+    expect(createEmbedderFromEnv(llm, { JOBSPRINT_EMBEDDINGS_PROVIDER: 'local' }).id).toBe(
+      'local/Xenova/all-MiniLM-L6-v2'
+    );
+    expect(() => createEmbedderFromEnv(llm, { JOBSPRINT_EMBEDDINGS_PROVIDER: 'claude' })).toThrow(
+      'JOBSPRINT_EMBEDDINGS_PROVIDER'
+    );
+  });
+});
+
+describe('RAGSystem embeddings', () => {
+  const llm = new LLMAbstractionLayer();
+  let warn;
+
+  beforeEach(() => {
+    warn = jest.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  afterEach(() => warn.mockRestore());
+
+  const store = () => new SqliteVectorStore(new DatabaseService(IN_MEMORY));
+  const skillQuery = { query: 'frontend framework', threshold: 0.9, filters: { type: ['skill'] } };
+
+  it('should match related terms that share no words', async () => {
+    const hashOnly = new RAGSystem(llm, { embedder: new HashEmbedder(), store: store() });
+    await hashOnly.addJobDescription(job);
+    expect(await hashOnly.search(skillQuery)).toEqual([]);
+
+    const rag = new RAGSystem(llm, { embedder: conceptEmbedder(), store: store() });
+    await rag.addJobDescription(job);
+    const results = await rag.search(skillQuery);
+    expect(results.map((r) => r.content)).toEqual(['React']);
+  });
+
+  it('should fall back to hash vectors offline and re-embed them once the model is back', async () => {
+    const embedder = conceptEmbedder();
+    embedder.embed.mockRejectedValueOnce(new Error('network down'));
+    const rag = new RAGSystem(llm, { embedder, store: store() });
+
+    await rag.addJobDescription(job);
+    // Offline queries still work against the hash vectors
+    embedder.embed.mockRejectedValueOnce(new Error('network down'));
+    expect((await rag.search({ query: 'React', threshold: 0.5 })).map((r) => r.content)).toEqual([
+      'React',
+    ]);
+
+    // Once the model is back, searches answer from the hash vectors and re-embed them meanwhile
+    expect((await rag.search({ query: 'React', threshold: 0.5 })).map((r) => r.content)).toEqual([
+      'React',
+    ]);
+    expect(await rag.reembedStale()).toBe(5);
+
+    const results = await rag.search(skillQuery);
+    expect(results.map((r) => r.content)).toEqual(['React']);
+    expect(await rag.reembedStale()).toBe(0);
+  });
+
+  it('should re-embed vectors from an older model', async () => {
+    const rag = new RAGSystem(llm, {
+      embedder: conceptEmbedder('test/concepts@1'),
+      store: store(),
+    });
+    await rag.addJobDescription(job);
+
+    const upgraded = conceptEmbedder('test/concepts@2');
+    rag.embedder = upgraded;
+    expect(await rag.reembedStale()).toBe(5);
+    expect(upgraded.embed).toHaveBeenCalledTimes(1);
+  });
+
+  it('should embed through the LLM layer', async () => {
+    const embed = jest.spyOn(llm, 'embed').mockResolvedValue({
+      embeddings: [[1, 0]],
+      provider: 'ollama',
+      model: 'nomic-embed-text',
+      usage: { inputTokens: 1, cost: 0 },
+    });
+
+    const embedder = new LLMEmbedder(llm, 'ollama', 'nomic-embed-text');
+    expect(await embedder.embed(['React'])).toEqual([[1, 0]]);
+    expect(embedder.id).toBe('ollama/nomic-embed-text');
+    expect(embed).toHaveBeenCalledWith(
+      { input: ['React'], feature: 'embeddings' },
+      'ollama',
+      'nomic-embed-text'
+    );
+    embed.mockRestore();
+  });
+});
+
+describe('POST /ai/embeddings', () => {
+  let app;
+
+  isolateProviders({ OPENAI_API_KEY: 'sk-test' });
+
+  beforeEach(() => {
+    global.fetch = jest.fn(async () =>
+      jsonResponse({ data: [{ index: 0, embedding: [0.1, 0.2] }], usage: { prompt_tokens: 4 } })
+    );
+    mockServices.llm = new LLMAbstractionLayer();
+
+    app = express();
+    app.use(express.json());
+    app.use((req, res, next) => {
+      req.apiKey = { id: 'key_1', scopes: ['ai'] };
+      next();
+    });
+    app.use('/api/v1', aiRouter);
+  });
+
+  it('should answer in the OpenAI embeddings shape', async () => {
+    const res = await request(app)
+      .post('/api/v1/ai/embeddings')
+      .send({ input: 'Workflow automation', provider: 'openai' })
+      .expect(200);
+
+    expect(res.body).toMatchObject({
+      ok: true,
+      object: 'list',
+      provider: 'openai',
+      model: 'text-embedding-3-small',
+      data: [{ object: 'embedding', index: 0, embedding: [0.1, 0.2] }],
+      usage: { prompt_tokens: 4, total_tokens: 4 },
+    });
+  });
+
+  it('should validate the input, provider and model', async () => {
+    const post = (body) => request(app).post('/api/v1/ai/embeddings').send(body);
+
+    expect((await post({}).expect(400)).body.error).toBe('missing_input');
+    expect((await post({ input: [1] }).expect(400)).body.error).toBe('invalid_input');
+    expect((await post({ input: 'x', provider: 'claude' }).expect(400)).body.error).toBe(
+      'unknown_provider'
+    );
+    expect((await post({ input: 'x', model: 'gpt-4o' }).expect(400)).body.error).toBe(
+      'unknown_model'
+    );
+    expect(global.fetch).not.toHaveBeenCalled();
+  });
+});
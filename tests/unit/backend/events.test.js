@@ -0,0 +1,182 @@
+/**
+ * Event Log Unit Tests
+ *
+ * Test cursor semantics of the event log, subsystem events and the /events routes
+ */
+
+import express from 'express';
+import request from 'supertest';
+import eventsRouter from '../../../src/backend/api/events';
+import { DatabaseService, IN_MEMORY } from '../../../src/backend/api/services/database.service';
+import { EventLogService, liveEvents } from '../../../src/backend/api/services/eventLog.service';
+import { ApplicationRepository } from '../../../src/backend/api/services/applicationRepository.service';
+
+const mockEventLog = { current: null };
+
+jest.mock('../../../src/backend/api/services/eventLog.service', () => {
+  const actual = jest.requireActual('../../../src/backend/api/services/eventLog.service');
+  return { ...actual, getEventLog: () => mockEventLog.current };
+});
+
+describe('EventLogService', () => {
+  let db;
+  let broadcast;
+  let events;
+
+  beforeEach(() => {
+    db = new DatabaseService(IN_MEMORY);
+    broadcast = jest.fn();
+    events = new EventLogService(db, broadcast);
+  });
+
+  afterEach(() => db.close());
+
+  it('should append events and broadcast them to live listeners', async () => {
+    const event = await events.append({ type: 'file.created', data: { file: 'a.txt' } });
+
+    expect(event).toMatchObject({ type: 'file.created', source: 'api', cursor: '1' });
+    expect(event.id).toMatch(/^evt_/);
+    expect(broadcast).toHaveBeenCalledWith(event);
+  });
+
+  it('should publish appended events to live listeners by default', async () => {
+    const listener = jest.fn();
+    liveEvents.on('event', listener);
+    try {
+      const event = await new EventLogService(db).append({ type: 'file.created' });
+      expect(listener).toHaveBeenCalledWith(event);
+    } finally {
+      liveEvents.off('event', listener);
+    }
+  });
+
+  it('should deliver every event exactly once when paging by cursor', async () => {
+    for (let i = 0; i < 7; i++) {
+      await events.append({ type: 'file.created', data: { n: i } });
+    }
+
+    const seen = [];
+    let cursor;
+    let hasMore = true;
+    while (hasMore) {
+      const page = await events.list({ after: cursor, limit: 3 });
+      seen.push(...page.events.map((e) => e.data.n));
+      ({ cursor, hasMore } = page);
+    }
+
+    expect(seen).toEqual([0, 1, 2, 3, 4, 5, 6]);
+
+    await events.append({ type: 'file.created', data: { n: 7 } });
+    const next = await events.list({ after: cursor });
+    expect(next.events.map((e) => e.data.n)).toEqual([7]);
+    expect((await events.list({ after: next.cursor })).events).toEqual([]);
+  });
+
+  it('should advance the cursor past events that do not match', async () => {
+    await events.append({ type: 'file.created', data: { platform: 'indeed' } });
+    await events.append({ type: 'file.deleted', data: { platform: 'indeed' } });
+    await events.append({ type: 'file.created', data: { platform: 'linkedin' } });
+
+    const page = await events.list({ types: ['file.created'], filter: { platform: 'indeed' } });
+    expect(page.events).toHaveLength(1);
+    expect(page).toMatchObject({ cursor: '3', hasMore: false });
+  });
+
+  it('should filter by nested data fields and timestamp', async () => {
+    await events.append({ type: 'ai.completed', data: { job: { status: 'ok' } } });
+    await events.append({ type: 'ai.completed', data: { job: { status: 'error' } } });
+
+    const page = await events.list({ filter: { 'job.status': 'error' } });
+    expect(page.events.map((e) => e.data.job.status)).toEqual(['error']);
+
+    const future = new Date(Date.now() + 60 * 1000);
+    expect((await events.list({ since: future })).events).toEqual([]);
+  });
+
+  it('should report the head cursor for limit=0', async () => {
+    await events.append({ type: 'file.created' });
+    await events.append({ type: 'file.created' });
+
+    expect(await events.list({ limit: 0 })).toEqual({ events: [], cursor: '2', hasMore: false });
+  });
+
+  it('should reject malformed cursors', async () => {
+    await expect(events.list({ after: 'abc' })).rejects.toThrow('Invalid event cursor');
+  });
+
+  it('should prune events older than the cutoff', async () => {
+    await events.append({ type: 'file.created' });
+    expect(await events.prune(new Date(Date.now() + 1000))).toBe(1);
+    expect((await events.list()).events).toEqual([]);
+  });
+
+  it('should record application lifecycle events from the repository', async () => {
+    const applications = new ApplicationRepository(db, events);
+    const application = await applications.create({
+      platform: 'indeed',
+      jobUrl: 'https://indeed.com/viewjob?jk=1',
+    });
+    await applications.updateStatus(application.id, 'submitted');
+    await applications.delete(application.id);
+
+    const page = await events.list({ filter: { applicationId: application.id } });
+    expect(page.events.map((e) => e.type)).toEqual([
+      'application.created',
+      'application.status_changed',
+      'application.deleted',
+    ]);
+    expect(page.events[1].data).toMatchObject({ status: 'submitted', previousStatus: 'pending' });
+  });
+});
+
+describe('Events API', () => {
+  let db;
+  let app;
+
+  beforeEach(() => {
+    db = new DatabaseService(IN_MEMORY);
+    mockEventLog.current = new EventLogService(db, () => {});
+    app = express();
+    app.use(express.json());
+    app.use((req, res, next) => {
+      req.apiKey = { id: 'test', scopes: ['events:read', 'events:write'] };
+      next();
+    });
+    app.use('/api/v1', eventsRouter);
+  });
+
+  afterEach(() => db.close());
+
+  it('should publish custom events and poll them by type and filter', async () => {
+    await request(app)
+      .post('/api/v1/events')
+      .send({ type: 'my.custom.event', data: { team: 'a' } })
+      .expect(201);
+    await request(app)
+      .post('/api/v1/events')
+      .send({ type: 'my.custom.event', data: { team: 'b' } })
+      .expect(201);
+
+    const res = await request(app)
+      .get('/api/v1/events')
+      .query({ type: 'my.custom.event', filter: JSON.stringify({ team: 'b' }) })
+      .expect(200);
+
+    expect(res.body.events).toHaveLength(1);
+    expect(res.body.events[0]).toMatchObject({
+      data: { team: 'b' },
+      metadata: { apiKeyId: 'test' },
+    });
+    expect(res.body).toMatchObject({ ok: true, cursor: '2', hasMore: false });
+
+    const next = await request(app).get('/api/v1/events').query({ after: res.body.cursor });
+    expect(next.body.events).toEqual([]);
+  });
+
+  it('should validate query and body input', async () => {
+    await request(app).get('/api/v1/events').query({ after: 'nope' }).expect(400);
+    await request(app).get('/api/v1/events').query({ filter: '{bad' }).expect(400);
+    await request(app).get('/api/v1/events').query({ since: 'yesterday' }).expect(400);
+    await request(app).post('/api/v1/events').send({ data: {} }).expect(400);
+  });
+});
@@ -0,0 +1,366 @@
+/**
+ * Experience Evidence Unit Tests
+ *
+ * Test the per-user experience store, chunking and indexing of resumes, bullets, projects and
+ * cover letters, mapping job requirements to supporting evidence, and both generators using it
+ */
+
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { EnhancedAICoverLetterGenerator } from '../../../src/backend/api/services/aiCoverLetterGenerator.service';
+import { AIResumeGenerator } from '../../../src/backend/api/services/aiResumeGenerator.service';
+import { DatabaseService, IN_MEMORY } from '../../../src/backend/api/services/database.service';
+import { SqliteExperienceStore } from '../../../src/backend/api/services/experienceStore.service';
+import { LLMAbstractionLayer } from '../../../src/backend/api/services/llm-abstraction.service';
+import { PromptRegistry } from '../../../src/backend/api/services/promptRegistry.service';
+import { RAGSystem, formatEvidence } from '../../../src/backend/api/services/rag-system.service';
+import { SqliteVectorStore } from '../../../src/backend/api/services/vectorStore.service';
+
+// Places texts on three topics, like a real model would without sharing words
+const TOPICS = [
+  /kubernetes|container|cluster|helm/i,
+  /postgres|sql|database|query/i,
+  /mentor|hir/i,
+];
+const topicEmbedder = {
+  id: 'test/topics',
+  embed: async (texts) => texts.map((text) => TOPICS.map((topic) => (topic.test(text) ? 1 : 0))),
+};
+
+const RESUME = `ADA LOVELACE
+Senior Platform Engineer, Acme (2021 - present)
+- Migrated 40 services onto Kubernetes clusters, cutting deploy time by 70%
+- Tuned slow PostgreSQL queries behind the billing dashboard
+• Mentored four junior engineers through their first on-call rotations
+
+EDUCATION
+BSc Mathematics`;
+
+const analysis = {
+  jobId: 'job-1',
+  keyRequirements: ['Experience running container workloads in production', 'Terraform'],
+  mustHaveSkills: ['SQL', 'Kubernetes', 'kubernetes'],
+  niceToHaveSkills: ['Go'],
+  responsibilities: ['Own the deployment platform'],
+  companyCulture: [],
+  compensation: {},
+  careerLevel: 'senior',
+  industry: 'technology',
+};
+
+const llmResponse = (content) => ({
+  content,
+  provider: 'openai',
+  model: 'gpt-4o-mini',
+  usage: { promptTokens: 10, completionTokens: 10, totalTokens: 20, cost: 0.001 },
+});
+
+describe('SqliteExperienceStore', () => {
+  let db;
+  let store;
+
+  beforeEach(() => {
+    db = new DatabaseService(IN_MEMORY);
+    store = new SqliteExperienceStore(db);
+  });
+
+  afterEach(() => db.close());
+
+  const chunk = (userId, documentId, chunkIndex, content) => ({
+    id: `${documentId}-${chunkIndex}`,
+    userId,
+    documentId,
+    chunkIndex,
+    content,
+    vector: [0.5, 0.25],
+    model: 'test/m',
+  });
+
+  it('should keep each user’s documents apart', async () => {
+    const doc = (userId, content) => ({ id: 'resume', userId, kind: 'resume', content });
+    await store.upsertDocument(doc('u1', 'Go'), [chunk('u1', 'resume', 0, 'Go services')]);
+    await store.upsertDocument(doc('u2', 'Rust'), [chunk('u2', 'resume', 0, 'Rust services')]);
+
+    expect(await store.getDocument('u1', 'resume')).toEqual(doc('u1', 'Go'));
+    expect(await store.getChunks('u2')).toEqual([chunk('u2', 'resume', 0, 'Rust services')]);
+
+    expect(await store.deleteDocument('u1', 'resume')).toBe(true);
+    expect(await store.deleteDocument('u1', 'resume')).toBe(false);
+    expect(await store.getChunks('u1')).toEqual([]);
+    expect(await store.listDocuments('u2')).toHaveLength(1);
+  });
+
+  it('should delete chunks with their document in a file-backed database', async () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'experience-store-'));
+    const fileDb = new DatabaseService(path.join(dir, 'jobsprint.sqlite'));
+    try {
+      const fileStore = new SqliteExperienceStore(fileDb);
+      const doc = { id: 'resume', userId: 'u1', kind: 'resume', content: 'Go' };
+      await fileStore.upsertDocument(doc, [chunk('u1', 'resume', 0, 'Go services')]);
+
+      expect(await fileStore.deleteDocument('u1', 'resume')).toBe(true);
+      expect(await fileDb.query('SELECT * FROM experience_chunks')).toEqual([]);
+    } finally {
+      fileDb.close();
+      fs.rmSync(dir, { recursive: true, force: true });
+    }
+  });
+
+  it('should update chunk vectors in place', async () => {
+    const document = { id: 'p1', userId: 'u1', kind: 'project', title: 'CLI', content: 'x' };
+    await store.upsertDocument(document, [chunk('u1', 'p1', 0, 'Wrote a CLI in Go')]);
+    await store.updateChunks([{ ...chunk('u1', 'p1', 0, ''), vector: [1, 0], model: 'test/n' }]);
+
+    expect(await store.getChunks('u1', 'p1')).toEqual([
+      { ...chunk('u1', 'p1', 0, 'Wrote a CLI in Go'), vector: [1, 0], model: 'test/n' },
+    ]);
+    expect((await store.listDocuments('u1'))[0].title).toBe('CLI');
+  });
+});
+
+describe('RAGSystem experience evidence', () => {
+  const llm = new LLMAbstractionLayer();
+  let db;
+  let rag;
+
+  beforeEach(() => {
+    db = new DatabaseService(IN_MEMORY);
+    rag = new RAGSystem(llm, {
+      embedder: topicEmbedder,
+      store: new SqliteVectorStore(db),
+      experienceStore: new SqliteExperienceStore(db),
+    });
+    jest.spyOn(topicEmbedder, 'embed');
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+    db.close();
+  });
+
+  it('should chunk documents into bullets and sentences', async () => {
+    const resume = await rag.addExperience({
+      id: 'cv',
+      userId: 'u1',
+      kind: 'resume',
+      content: RESUME,
+    });
+    expect(resume.map((c) => c.content)).toEqual([
+      'Senior Platform Engineer, Acme (2021 - present)',
+      'Migrated 40 services onto Kubernetes clusters, cutting deploy time by 70%',
+      'Tuned slow PostgreSQL queries behind the billing dashboard',
+      'Mentored four junior engineers through their first on-call rotations',
+    ]);
+
+    const letter = await rag.addExperience({
+      id: 'letter',
+      userId: 'u1',
+      kind: 'cover-letter',
+      content: 'Dear team,\nI ran the Helm charts for every product. I also led hiring for it.',
+    });
+    expect(letter.map((c) => c.content)).toEqual([
+      'I ran the Helm charts for every product.',
+      'I also led hiring for it.',
+    ]);
+
+    const bullet = await rag.addExperience({
+      id: 'b',
+      userId: 'u1',
+      kind: 'bullet',
+      content: '- Go',
+    });
+    expect(bullet).toMatchObject([{ id: 'b-0', content: 'Go', model: 'test/topics' }]);
+  });
+
+  it('should map each requirement to the bullets that support it', async () => {
+    await rag.addExperience({ id: 'cv', userId: 'u1', kind: 'resume', content: RESUME });
+    await rag.addExperience({
+      id: 'infra',
+      userId: 'u1',
+      kind: 'project',
+      title: 'Homelab',
+      content: 'Runs a three node cluster with Helm charts for home automation',
+    });
+    await rag.addExperience({ id: 'other', userId: 'u2', kind: 'bullet', content: 'Terraform' });
+
+    const mapping = await rag.mapRequirementsToEvidence('u1', analysis);
+    expect(mapping.map((m) => [m.requirement, m.type])).toEqual([
+      ['Experience running container workloads in production', 'requirement'],
+      ['Terraform', 'requirement'],
+      ['SQL', 'skill'],
+      ['Kubernetes', 'skill'],
+    ]);
+
+    const [containers, terraform, sql, kubernetes] = mapping;
+    // Found by meaning, without shared words
+    expect(containers.evidence.map((e) => e.content)).toEqual([
+      'Migrated 40 services onto Kubernetes clusters, cutting deploy time by 70%',
+      'Runs a three node cluster with Helm charts for home automation',
+    ]);
+    expect(containers.evidence[1]).toMatchObject({
+      documentId: 'infra',
+      kind: 'project',
+      title: 'Homelab',
+      similarity: 1,
+      terms: [],
+    });
+    // Another user's experience is never used
+    expect(terraform.evidence).toEqual([]);
+    expect(sql.evidence[0]).toMatchObject({
+      content: 'Tuned slow PostgreSQL queries behind the billing dashboard',
+      documentId: 'cv',
+      kind: 'resume',
+    });
+    // Ranked first by both keyword and embedding
+    expect(kubernetes.evidence[0]).toMatchObject({ score: 1, terms: ['kubernetes'] });
+
+    expect(formatEvidence(mapping.slice(1, 3))).toBe(
+      'Terraform:\n- No supporting experience found\n\n' +
+        `SQL:\n- Tuned slow PostgreSQL queries behind the billing dashboard (match ${sql.evidence[0].score.toFixed(2)})`
+    );
+  });
+
+  it('should only embed new text when a document changes', async () => {
+    await rag.addExperience({ id: 'cv', userId: 'u1', kind: 'resume', content: RESUME });
+    topicEmbedder.embed.mockClear();
+
+    const edited = `${RESUME}\n- Built the Helm chart library used by every team`;
+    const chunks = await rag.addExperience({
+      id: 'cv',
+      userId: 'u1',
+      kind: 'resume',
+      content: edited,
+    });
+
+    expect(topicEmbedder.embed).toHaveBeenCalledTimes(1);
+    expect(topicEmbedder.embed).toHaveBeenCalledWith([
+      'Built the Helm chart library used by every team',
+    ]);
+    expect(chunks).toHaveLength(5);
+    expect(await rag.removeExperience('u1', 'cv')).toBe(true);
+    expect(await rag.listExperience('u1')).toEqual([]);
+  });
+
+  it('should re-embed experience indexed while the embedder was down', async () => {
+    topicEmbedder.embed.mockRejectedValueOnce(new Error('connection refused'));
+    const [chunk] = await rag.addExperience({
+      id: 'b',
+      userId: 'u1',
+      kind: 'bullet',
+      content: 'Scaled the container platform',
+    });
+    expect(chunk.model).toBe('hash/bow-384@1');
+
+    const [evidence] = await rag.findEvidence('u1', ['Kubernetes clusters']);
+    expect(evidence).toMatchObject([{ content: 'Scaled the container platform', similarity: 1 }]);
+    expect((await new SqliteExperienceStore(db).getChunks('u1'))[0].model).toBe('test/topics');
+  });
+});
+
+describe('Generators using experience evidence', () => {
+  let db;
+  let llm;
+  let rag;
+  let prompts;
+
+  beforeEach(async () => {
+    db = new DatabaseService(IN_MEMORY);
+    llm = new LLMAbstractionLayer();
+    prompts = new PromptRegistry(db);
+    rag = new RAGSystem(llm, {
+      embedder: topicEmbedder,
+      store: new SqliteVectorStore(db),
+      experienceStore: new SqliteExperienceStore(db),
+    });
+    await rag.addExperience({ id: 'cv', userId: 'u1', kind: 'resume', content: RESUME });
+    await rag.addJobDescription({
+      id: 'job-1',
+      title: 'Senior Platform Engineer',
+      company: 'Initech',
+      content: 'Run containers. SQL a plus.',
+      requirements: [],
+      responsibilities: [],
+      skills: [],
+      metadata: {},
+    });
+    jest.spyOn(rag, 'analyzeJobDescription').mockResolvedValue(analysis);
+    jest.spyOn(llm, 'getUsageStats').mockResolvedValue({ totalCost: 0 });
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+    db.close();
+  });
+
+  const evidenceSection = (context) =>
+    context.find(
+      (section) => section.name === 'Candidate experience matching each job requirement'
+    );
+
+  it('should give the cover letter prompt the evidence for each requirement', async () => {
+    const generateStructured = jest.spyOn(llm, 'generateStructured').mockResolvedValue({
+      ...llmResponse(''),
+      result: {
+        ok: true,
+        data: {
+          introduction: 'Hello',
+          bodyParagraphs: ['I moved 40 services to Kubernetes.'],
+          closing: 'Thanks',
+          callToAction: 'Talk soon',
+        },
+      },
+    });
+
+    const letter = await new EnhancedAICoverLetterGenerator(llm, rag, prompts).generateCoverLetter({
+      resume: RESUME,
+      jobDescription: 'Senior Platform Engineer',
+      userProfile: {},
+      jobId: 'job-1',
+      userId: 'u1',
+    });
+
+    expect(rag.analyzeJobDescription).toHaveBeenCalledWith(
+      expect.objectContaining({ id: 'job-1', company: 'Initech' })
+    );
+    const [prompt] = generateStructured.mock.calls[0];
+    expect(evidenceSection(prompt.context).content).toContain(
+      'Kubernetes:\n- Migrated 40 services onto Kubernetes clusters'
+    );
+    expect(letter.evidence).toHaveLength(4);
+    expect(letter.template.personalizationNotes).toContain(
+      'Backed 3 of 4 job requirements with past experience'
+    );
+  });
+
+  it('should give the resume summary and experience prompts the evidence', async () => {
+    const generate = jest
+      .spyOn(llm, 'generate')
+      .mockResolvedValue(
+        llmResponse(
+          JSON.stringify({ skills: ['Go'], experience: ['Acme'], education: [], summary: '' })
+        )
+      );
+
+    const resume = await new AIResumeGenerator(llm, rag, prompts).generateResume({
+      originalResume: RESUME,
+      jobDescription: 'Senior Platform Engineer\nRun containers.',
+      userProfile: { currentPosition: 'Platform Engineer', yearsExperience: 6, industries: [] },
+      companyInfo: { name: 'Initech', industry: 'technology' },
+      tone: 'professional',
+      length: 'standard',
+      parallel: false,
+      userId: 'u1',
+    });
+
+    expect(rag.analyzeJobDescription).toHaveBeenCalledWith(
+      expect.objectContaining({ title: 'Senior Platform Engineer', company: 'Initech' })
+    );
+    const withEvidence = generate.mock.calls
+      .map(([request]) => request)
+      .filter((request) => request.context && evidenceSection(request.context));
+    expect(withEvidence).toHaveLength(2);
+    expect(resume.evidence.map((e) => e.evidence.length > 0)).toEqual([true, false, true, true]);
+    expect(resume.suggestions[0]).toContain('Add experience that shows: Terraform');
+  });
+});
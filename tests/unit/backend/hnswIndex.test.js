@@ -0,0 +1,198 @@
+/**
+ * HNSW Index Unit Tests
+ *
+ * Test recall against exact search, incremental inserts and removals, graph persistence, and
+ * RAGSystem search through the index (loading, reconciling and the ef / exact knobs)
+ */
+
+import { DatabaseService, IN_MEMORY } from '../../../src/backend/api/services/database.service';
+import { HnswIndex } from '../../../src/backend/api/services/hnswIndex.service';
+import { LLMAbstractionLayer } from '../../../src/backend/api/services/llm-abstraction.service';
+import { RAGSystem } from '../../../src/backend/api/services/rag-system.service';
+import { SqliteVectorStore } from '../../../src/backend/api/services/vectorStore.service';
+import { clusteredVectors, cosine, exactTopK, seededRandom } from '../../fixtures/vectors';
+
+const recall = (index, vectors, queries, k, ef) => {
+  let hits = 0;
+  for (const query of queries) {
+    const expected = new Set(exactTopK(vectors, query, k));
+    hits += index.search(query, k, ef).filter((match) => expected.has(match.id)).length;
+  }
+  return hits / (queries.length * k);
+};
+
+describe('HnswIndex', () => {
+  const random = seededRandom(7);
+  const vectors = clusteredVectors(1200, 16, random);
+  const queries = clusteredVectors(40, 16, seededRandom(11));
+  let index;
+
+  beforeAll(() => {
+    index = new HnswIndex({ m: 12, efConstruction: 100, random: seededRandom(3) });
+    vectors.forEach((vector, i) => index.add(`v${i}`, vector));
+  });
+
+  it('should find the true nearest neighbours, more of them as ef grows', () => {
+    const fast = recall(index, vectors, queries, 10, 10);
+    const accurate = recall(index, vectors, queries, 10, 128);
+
+    expect(index.size).toBe(1200);
+    expect(accurate).toBeGreaterThanOrEqual(0.97);
+    expect(accurate).toBeGreaterThanOrEqual(fast);
+  });
+
+  it('should score matches by cosine similarity', () => {
+    const [best] = index.search(vectors[5], 1);
+    expect(best.id).toBe('v5');
+    expect(best.score).toBeCloseTo(1, 5);
+    expect(new HnswIndex().search([1, 0], 3)).toEqual([]);
+  });
+
+  it('should support removing and replacing vectors', () => {
+    const small = new HnswIndex({ random: seededRandom(5) });
+    vectors.slice(0, 300).forEach((vector, i) => small.add(`v${i}`, vector));
+
+    for (let i = 0; i < 300; i += 2) small.remove(`v${i}`);
+    expect(small.remove('v0')).toBe(false);
+    expect(small.size).toBe(150);
+
+    const remaining = vectors.slice(0, 300).map((vector, i) => (i % 2 ? vector : null));
+    for (const query of queries.slice(0, 10)) {
+      const expected = remaining
+        .map((vector, i) => vector && { id: `v${i}`, score: cosine(query, vector) })
+        .filter(Boolean)
+        .sort((a, b) => b.score - a.score)
+        .slice(0, 5)
+        .map((match) => match.id);
+      expect(small.search(query, 5).map((match) => match.id)).toEqual(expected);
+    }
+
+    small.add('v1', vectors[2]);
+    expect(small.size).toBe(150);
+    expect(small.search(vectors[2], 1)[0].id).toBe('v1');
+  });
+
+  it('should restore a saved graph and drop nodes whose vectors are gone', () => {
+    const graph = JSON.parse(JSON.stringify(index.toJSON()));
+    const stored = new Map(vectors.map((vector, i) => [`v${i}`, vector]));
+
+    const restored = HnswIndex.fromJSON(graph, stored);
+    for (const query of queries.slice(0, 5)) {
+      expect(restored.search(query, 10)).toEqual(index.search(query, 10));
+    }
+
+    stored.delete('v5');
+    const pruned = HnswIndex.fromJSON(graph, stored);
+    expect(pruned.size).toBe(1199);
+    expect(pruned.has('v5')).toBe(false);
+    expect(pruned.search(vectors[5], 1)[0].id).not.toBe('v5');
+  });
+});
+
+describe('RAGSystem ANN search', () => {
+  const llm = new LLMAbstractionLayer();
+  const vectors = clusteredVectors(60, 8, seededRandom(13));
+  // Each chunk text names the vector it embeds to
+  const embedder = {
+    id: 'test/fixed',
+    embed: async (texts) => texts.map((text) => vectors[Number(text.split(' ').pop())]),
+  };
+  const job = (n) => ({
+    id: `job-${n}`,
+    title: 'Chunk',
+    company: `${n * 3}`,
+    content: '',
+    requirements: [`req ${n * 3 + 1}`],
+    responsibilities: [],
+    skills: [`skill ${n * 3 + 2}`],
+    metadata: {},
+  });
+  let db;
+
+  beforeEach(async () => {
+    db = new DatabaseService(IN_MEMORY);
+    const rag = new RAGSystem(llm, { embedder, store: new SqliteVectorStore(db) });
+    for (let n = 0; n < 20; n++) await rag.addJobDescription(job(n));
+    await rag.flushIndexes();
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+    db.close();
+  });
+
+  it('should save the graph and reuse it after a restart', async () => {
+    const store = new SqliteVectorStore(db);
+    expect((await store.getIndex('test/fixed')).nodes).toHaveLength(60);
+
+    const save = jest.spyOn(store, 'saveIndex');
+    const rag = new RAGSystem(llm, { embedder, store });
+    const results = await rag.search({ query: 'q 31', threshold: 0, topK: 3 });
+
+    expect(results[0]).toMatchObject({ content: 'req 31', jobDescription: job(10) });
+    expect(save).not.toHaveBeenCalled();
+  });
+
+  it('should reconcile a graph that missed vector writes', async () => {
+    const store = new SqliteVectorStore(db);
+    // The saved graph only knows the first job
+    const firstJob = await store.getEmbeddings({ jobId: 'job-0' });
+    const graph = HnswIndex.fromJSON(
+      await store.getIndex('test/fixed'),
+      new Map(firstJob.map((e) => [e.id, e.vector]))
+    );
+    await store.saveIndex('test/fixed', graph.toJSON());
+
+    const rag = new RAGSystem(llm, { embedder, store });
+    const results = await rag.search({ query: 'q 47', threshold: 0, topK: 1 });
+
+    expect(results.map((r) => r.content)).toEqual(['skill 47']);
+    expect((await store.getIndex('test/fixed')).nodes).toHaveLength(60);
+  });
+
+  it('should keep the index in step with job changes', async () => {
+    const rag = new RAGSystem(llm, { embedder, store: new SqliteVectorStore(db) });
+    await rag.removeJobDescription('job-10');
+    await rag.addJobDescription({ ...job(11), requirements: ['req 31'] });
+
+    const results = await rag.search({ query: 'q 31', threshold: 0, topK: 1 });
+    expect(results[0]).toMatchObject({ content: 'req 31', metadata: { jobId: 'job-11' } });
+    await rag.flushIndexes();
+    expect((await new SqliteVectorStore(db).getIndex('test/fixed')).nodes).toHaveLength(57);
+  });
+
+  it('should batch graph saves while jobs are being indexed', async () => {
+    jest.useFakeTimers();
+    try {
+      const store = new SqliteVectorStore(db);
+      const rag = new RAGSystem(llm, { embedder, store, indexSaveDelayMs: 1000 });
+      await rag.search({ query: 'q 1', threshold: 0 });
+      const save = jest.spyOn(store, 'saveIndex');
+
+      await rag.removeJobDescription('job-10');
+      await rag.addJobDescription({ ...job(11), requirements: ['req 31'] });
+      expect(save).not.toHaveBeenCalled();
+
+      await jest.advanceTimersByTimeAsync(1000);
+      expect(save).toHaveBeenCalledTimes(1);
+      expect((await store.getIndex('test/fixed')).nodes).toHaveLength(57);
+    } finally {
+      jest.useRealTimers();
+    }
+  });
+
+  it('should pass ef to the index and skip it for exact or single-job searches', async () => {
+    const search = jest.spyOn(HnswIndex.prototype, 'search');
+    const rag = new RAGSystem(llm, { embedder, store: new SqliteVectorStore(db) });
+
+    await rag.search({ query: 'q 4', topK: 3, ef: 200 });
+    expect(search).toHaveBeenLastCalledWith(vectors[4], 6, 200);
+
+    search.mockClear();
+    const exact = await rag.search({ query: 'q 4', threshold: 0, topK: 3, exact: true });
+    const scoped = await rag.search({ query: 'q 4', jobId: 'job-1', threshold: -1 });
+    expect(search).not.toHaveBeenCalled();
+    expect(exact[0].content).toBe('req 4');
+    expect(scoped.map((r) => r.content)).toEqual(['req 4', 'Chunk at 3', 'skill 5']);
+  });
+});
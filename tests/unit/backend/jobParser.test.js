@@ -0,0 +1,248 @@
+/**
+ * Job Posting Parser Unit Tests
+ *
+ * Test section segmentation, pay, location and visa extraction and skill detection on a corpus of
+ * postings in different formats, LLM refinement, and indexing parsed postings in RAGSystem
+ */
+
+import fs from 'fs';
+import path from 'path';
+import { DatabaseService, IN_MEMORY } from '../../../src/backend/api/services/database.service';
+import {
+  JobPostingParser,
+  parseCompensation,
+  parseJobPosting,
+  segmentJobPosting,
+  toJobDescription,
+} from '../../../src/backend/api/services/jobParser.service';
+import { LLMAbstractionLayer } from '../../../src/backend/api/services/llm-abstraction.service';
+import { RAGSystem } from '../../../src/backend/api/services/rag-system.service';
+import { SqliteVectorStore } from '../../../src/backend/api/services/vectorStore.service';
+
+const posting = (name) =>
+  fs.readFileSync(path.join(__dirname, '../../fixtures/job-postings', `${name}.txt`), 'utf8');
+
+const llmResponse = {
+  content: '',
+  provider: 'openai',
+  model: 'gpt-4o-mini',
+  usage: { promptTokens: 10, completionTokens: 10, totalTokens: 20, cost: 0.001 },
+};
+
+describe('parseJobPosting', () => {
+  it('should split an Indeed posting with colon headings', () => {
+    const parsed = parseJobPosting(posting('indeed-backend'));
+
+    expect(parsed.about).toMatch(/^Northwind Logistics is looking for a Backend Engineer/);
+    expect(parsed.responsibilities).toHaveLength(4);
+    expect(parsed.requirements).toEqual([
+      '4+ years of backend development experience',
+      'Strong TypeScript and Node.js skills',
+      'Experience with PostgreSQL and Redis',
+      'Familiarity with AWS',
+    ]);
+    expect(parsed.niceToHave).toEqual(['Experience with Go is a plus']);
+    expect(parsed.benefits).toEqual(['401(k) matching', 'Health insurance', 'Paid time off']);
+    expect(parsed.compensation).toEqual({
+      text: '$130,000.00 - $160,000.00 per year',
+      min: 130000,
+      max: 160000,
+      currency: 'USD',
+      period: 'year',
+    });
+    expect(parsed.location).toEqual({
+      text: 'Hybrid remote in Austin, TX 78701',
+      workplace: 'hybrid',
+    });
+    expect(parsed.employmentType).toBe('full-time');
+    expect(parsed.skills).toEqual(
+      expect.arrayContaining(['TypeScript', 'Node.js', 'PostgreSQL', 'Redis', 'AWS', 'Go'])
+    );
+  });
+
+  it('should read markdown headings, a stack section and a pay sentence', () => {
+    const parsed = parseJobPosting(posting('markdown-platform'));
+
+    expect(parsed.requirements).toContain('Deep Kubernetes and Terraform experience');
+    expect(parsed.niceToHave).toEqual([
+      'Go or Python tooling experience',
+      'SOC 2 audit experience',
+    ]);
+    expect(parsed.compensation).toMatchObject({ min: 180000, max: 220000, currency: 'USD' });
+    expect(parsed.location).toEqual({ text: 'Remote (US time zones)', workplace: 'remote' });
+    expect(parsed.visa).toEqual({
+      text: 'We are unable to sponsor visas for this role.',
+      sponsorship: false,
+    });
+    // Prometheus and Grafana are only named under "Our stack"
+    expect(parsed.skills).toEqual(expect.arrayContaining(['Prometheus', 'Grafana', 'GCP']));
+  });
+
+  it('should read capitalised headings without mistaking list items for them', () => {
+    const parsed = parseJobPosting(posting('uk-caps'));
+
+    expect(parsed.requirements).toHaveLength(3);
+    expect(parsed.niceToHave).toEqual([
+      'Python or R for analysis',
+      'Experience in the energy sector',
+    ]);
+    expect(parsed.compensation).toMatchObject({ min: 45000, max: 55000, currency: 'GBP' });
+    expect(parsed.location?.workplace).toBe('hybrid');
+    expect(parsed.visa?.sponsorship).toBe(true);
+    expect(parsed.skills).toEqual(['SQL', 'Excel', 'Python', 'Power BI']);
+  });
+
+  it('should sort the sentences of a posting without headings', () => {
+    const parsed = parseJobPosting(posting('blob'));
+
+    expect(parsed.about).toBe(
+      'Acme Analytics is hiring a Data Engineer to grow our data platform. This is a fully remote role within the EU.'
+    );
+    expect(parsed.responsibilities).toHaveLength(2);
+    expect(parsed.requirements).toEqual(['You have 3+ years of experience with Python and SQL.']);
+    expect(parsed.niceToHave).toEqual(['Experience with Snowflake is a plus.']);
+    expect(parsed.benefits).toHaveLength(1);
+    expect(parsed.visa).toEqual({
+      text: 'We cannot sponsor visas at this time.',
+      sponsorship: false,
+    });
+    expect(parsed.skills).toEqual(['Python', 'SQL', 'Snowflake', 'Airflow', 'dbt']);
+  });
+
+  it('should keep pay and visa lines out of the benefits', () => {
+    const startup = parseJobPosting(posting('startup-bold'));
+    expect(startup.benefits).toEqual(['Flexible hours', 'Yearly team retreat']);
+    expect(startup.compensation).toMatchObject({ min: 85, max: 95, period: 'hour' });
+    expect(startup.employmentType).toBe('contract');
+    // "react quickly" and "excel at" are not skills
+    expect(startup.skills).toEqual(['React', 'React Native', 'GraphQL', 'Figma']);
+
+    const ml = parseJobPosting(posting('salary-and-benefits'));
+    expect(ml.benefits).toEqual(['Private health insurance', 'Learning budget of €2,000 per year']);
+    expect(ml.compensation).toMatchObject({ min: 90000, max: 110000, currency: 'EUR' });
+    expect(ml.niceToHave).toEqual(['Preferred: experience with retrieval-augmented generation']);
+    expect(ml.visa?.sponsorship).toBe(false);
+  });
+
+  it('should keep the text before the first heading and the headings as written', () => {
+    const sections = segmentJobPosting(
+      'ACME CORP\nWe make rockets.\n\n**What you will do**\n* Weld'
+    );
+
+    expect(sections).toEqual([
+      { kind: 'about', lines: ['ACME CORP', 'We make rockets.'] },
+      { kind: 'responsibilities', heading: 'What you will do', lines: ['Weld'] },
+    ]);
+  });
+});
+
+describe('parseCompensation', () => {
+  it('should read ranges, k suffixes, currencies and periods', () => {
+    expect(parseCompensation('£45-55k')).toMatchObject({ min: 45000, max: 55000, currency: 'GBP' });
+    expect(parseCompensation('Up to €4,500 a month')).toMatchObject({ max: 4500, period: 'month' });
+    expect(parseCompensation('$40/hour')).toMatchObject({ min: 40, max: 40, period: 'hour' });
+    expect(parseCompensation('Competitive')).toBeUndefined();
+  });
+});
+
+describe('JobPostingParser', () => {
+  const llm = new LLMAbstractionLayer();
+  const text = posting('indeed-backend');
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('should refine the heuristic result with the LLM', async () => {
+    const generateStructured = jest.spyOn(llm, 'generateStructured').mockResolvedValue({
+      ...llmResponse,
+      result: {
+        ok: true,
+        data: {
+          responsibilities: ['Design and build REST APIs'],
+          requirements: ['4+ years of backend development experience'],
+          niceToHave: ['Go'],
+          benefits: ['Health insurance'],
+          skills: ['Node.js', 'Go'],
+          workplace: 'unknown',
+          visaSponsorship: 'no',
+        },
+      },
+    });
+
+    const parsed = await new JobPostingParser(llm).parse(text, { refine: true, userId: 'user-1' });
+
+    expect(parsed).toMatchObject({
+      refined: true,
+      requirements: ['4+ years of backend development experience'],
+      skills: ['Node.js', 'Go'],
+      location: { workplace: 'hybrid' },
+      visa: { sponsorship: false },
+    });
+    // Pay comes from the heuristics when the reply has none
+    expect(parsed.compensation?.min).toBe(130000);
+    const [request] = generateStructured.mock.calls[0];
+    expect(request).toMatchObject({ taskType: 'job_parsing', userId: 'user-1' });
+    expect(request.context[0].content).toBe(text);
+  });
+
+  it('should keep the heuristic result when the LLM fails or is not asked', async () => {
+    const generateStructured = jest.spyOn(llm, 'generateStructured');
+    generateStructured.mockRejectedValueOnce(new Error('rate limited'));
+    generateStructured.mockResolvedValueOnce({
+      ...llmResponse,
+      result: { ok: false, errors: ['missing skills'] },
+    });
+    const parser = new JobPostingParser(llm);
+
+    expect(await parser.parse(text, { refine: true })).toEqual(parseJobPosting(text));
+    expect(await parser.parse(text, { refine: true })).toEqual(parseJobPosting(text));
+    expect(await parser.parse(text)).toEqual(parseJobPosting(text));
+    expect(generateStructured).toHaveBeenCalledTimes(2);
+  });
+});
+
+describe('RAGSystem.addJobPosting', () => {
+  const llm = new LLMAbstractionLayer();
+  const embedder = {
+    id: 'test/length',
+    embed: async (texts) => texts.map((text) => [1, text.length]),
+  };
+  let db;
+
+  beforeEach(() => {
+    db = new DatabaseService(IN_MEMORY);
+  });
+
+  afterEach(() => {
+    db.close();
+  });
+
+  it('should index the parsed sections, nice-to-haves and benefits included', async () => {
+    const store = new SqliteVectorStore(db);
+    const rag = new RAGSystem(llm, { embedder, store });
+    const job = {
+      id: 'indeed-1',
+      title: 'Backend Engineer',
+      company: 'Northwind Logistics',
+      text: posting('indeed-backend'),
+      url: 'https://www.indeed.com/viewjob?jk=1',
+    };
+
+    const jobDesc = await rag.addJobPosting(job);
+
+    expect(jobDesc).toEqual(toJobDescription(parseJobPosting(job.text), job));
+    expect(jobDesc.metadata).toMatchObject({
+      url: job.url,
+      salary: '$130,000.00 - $160,000.00 per year',
+      type: 'full-time',
+    });
+    const stored = await store.getEmbeddings({ jobId: 'indeed-1' });
+    const contents = (type) => stored.filter((e) => e.metadata.type === type).map((e) => e.content);
+    expect(contents('requirement')).toEqual([
+      ...jobDesc.requirements,
+      'Experience with Go is a plus',
+    ]);
+    expect(contents('benefit')).toEqual(['401(k) matching', 'Health insurance', 'Paid time off']);
+  });
+});
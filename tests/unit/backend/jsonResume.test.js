@@ -0,0 +1,240 @@
+/**
+ * JSON Resume Unit Tests
+ *
+ * Convert ResumeData to and from JSON Resume: round trips in both directions, validation,
+ * the unmapped-field report and carrying those fields over from a base document
+ */
+
+import fs from 'fs';
+import path from 'path';
+import {
+  JSON_RESUME_SCHEMA_URL,
+  fromJsonResume,
+  toJsonResume,
+} from '../../../src/backend/api/services/jsonResume.service';
+
+const DOCUMENT = JSON.parse(
+  fs.readFileSync(path.join(__dirname, '../../fixtures/resumes/json-resume.json'), 'utf8')
+);
+
+const RESUME = {
+  contact: {
+    name: 'Ada Lovelace',
+    email: 'ada@example.com',
+    location: 'London, England, UK',
+    links: ['https://ada.dev', 'linkedin.com/in/ada', 'https://github.com/ada'],
+  },
+  summary: 'Platform engineer who makes deploys boring.',
+  experience: [
+    {
+      title: 'Senior Platform Engineer',
+      company: 'Acme & Sons',
+      duration: 'Jan 2021 - Present',
+      achievements: ['Moved 40 services to Kubernetes'],
+      technologies: ['Kubernetes', 'Terraform'],
+    },
+    {
+      title: 'Engineer',
+      company: 'Initech',
+      duration: 'Summer 2019',
+      achievements: [],
+    },
+  ],
+  education: [
+    { degree: 'BSc in Mathematics', school: 'University of London', year: '2015', gpa: '3.9' },
+  ],
+  skills: ['Kubernetes', 'Go'],
+  projects: [{ name: 'kube-lint', description: 'Linter for Helm charts', technologies: ['Go'] }],
+  certifications: ['CKA'],
+};
+
+describe('toJsonResume', () => {
+  it('should map every ResumeData field onto the schema', () => {
+    const document = toJsonResume(RESUME);
+
+    expect(document).toEqual({
+      $schema: JSON_RESUME_SCHEMA_URL,
+      basics: {
+        name: 'Ada Lovelace',
+        email: 'ada@example.com',
+        summary: 'Platform engineer who makes deploys boring.',
+        location: { city: 'London', region: 'England, UK' },
+        url: 'https://ada.dev',
+        profiles: [
+          { network: 'LinkedIn', username: 'ada', url: 'linkedin.com/in/ada' },
+          { network: 'GitHub', username: 'ada', url: 'https://github.com/ada' },
+        ],
+      },
+      work: [
+        {
+          name: 'Acme & Sons',
+          position: 'Senior Platform Engineer',
+          startDate: '2021-01',
+          highlights: ['Moved 40 services to Kubernetes'],
+          keywords: ['Kubernetes', 'Terraform'],
+        },
+        // Dates it cannot read are kept as written
+        { name: 'Initech', position: 'Engineer', duration: 'Summer 2019', highlights: [] },
+      ],
+      education: [
+        {
+          institution: 'University of London',
+          studyType: 'BSc',
+          area: 'Mathematics',
+          startDate: '2015',
+          endDate: '2015',
+          score: '3.9',
+        },
+      ],
+      skills: [{ name: 'Kubernetes' }, { name: 'Go' }],
+      certificates: [{ name: 'CKA' }],
+      projects: [{ name: 'kube-lint', description: 'Linter for Helm charts', keywords: ['Go'] }],
+    });
+    expect(fromJsonResume(document)).toEqual({ ok: true, resume: RESUME, unmapped: [] });
+  });
+
+  it('should round-trip resumes without contact details or optional sections', () => {
+    const resume = { summary: '', skills: [], experience: [], education: [] };
+
+    expect(toJsonResume(resume)).toEqual({
+      $schema: JSON_RESUME_SCHEMA_URL,
+      basics: { summary: '' },
+      work: [],
+      education: [],
+      skills: [],
+    });
+    expect(fromJsonResume(toJsonResume(resume))).toEqual({ ok: true, resume, unmapped: [] });
+  });
+});
+
+describe('fromJsonResume', () => {
+  it('should import a JSON Resume and report what ResumeData cannot hold', () => {
+    const result = fromJsonResume(DOCUMENT);
+
+    expect(result.resume).toEqual({
+      contact: {
+        name: 'Grace Hopper',
+        email: 'grace@example.com',
+        phone: '+1 555 0100',
+        location: 'Arlington, VA, US',
+        links: [
+          'https://grace.dev',
+          'https://github.com/ghopper',
+          'https://twitter.com/gracehopper',
+        ],
+      },
+      summary: 'Compiler engineer who likes tools that explain themselves.',
+      experience: [
+        {
+          title: 'Senior Engineer',
+          company: 'Remington Rand',
+          duration: 'Mar 2019 - Present',
+          achievements: ['Shipped the first COBOL compiler', 'Cut build times by 40%'],
+        },
+        {
+          title: 'Programmer',
+          company: 'Harvard Computation Lab',
+          duration: 'Jun 2015 - Feb 2019',
+          achievements: [],
+        },
+      ],
+      education: [
+        {
+          degree: 'PhD in Mathematics',
+          school: 'Yale University',
+          year: '2010 - 2014',
+          gpa: '4.0',
+        },
+      ],
+      skills: ['COBOL', 'Fortran', 'Compilers'],
+      certifications: ['AWS Solutions Architect'],
+      projects: [
+        {
+          name: 'flow-matic',
+          description: 'English-like data processing language',
+          technologies: ['Compilers'],
+          url: 'https://github.com/ghopper/flow-matic',
+        },
+      ],
+    });
+    expect(result.unmapped).toEqual([
+      '$.volunteer',
+      '$.languages',
+      '$.basics.label',
+      '$.basics.image',
+      '$.work[0].url',
+      '$.work[0].summary',
+      '$.education[0].courses',
+      '$.certificates[0].date',
+      '$.certificates[0].issuer',
+      '$.projects[0].highlights',
+      '$.skills[0].level',
+      '$.skills[0].name',
+    ]);
+  });
+
+  it('should reject documents that do not follow the schema', () => {
+    expect(
+      fromJsonResume({
+        basics: { name: 'Grace', profiles: 'github.com/ghopper' },
+        work: [{ name: 'Remington Rand', startDate: 'March 2019', highlights: 'COBOL' }],
+      })
+    ).toEqual({
+      ok: false,
+      errors: [
+        '$.basics.profiles: expected array, got string',
+        expect.stringMatching(/^\$\.work\[0\]\.startDate: must match /),
+        '$.work[0].highlights: expected array, got string',
+      ],
+    });
+    expect(fromJsonResume('{}')).toEqual({ ok: false, errors: ['$: expected object, got string'] });
+  });
+});
+
+describe('toJsonResume with a base document', () => {
+  it('should give back the imported document when nothing changed', () => {
+    const { resume } = fromJsonResume(DOCUMENT);
+
+    expect(toJsonResume(resume, { base: DOCUMENT })).toEqual(DOCUMENT);
+  });
+
+  it('should keep unmapped fields of edited entries and drop removed ones', () => {
+    const { resume } = fromJsonResume(DOCUMENT);
+    resume.contact.email = 'grace@navy.example.com';
+    resume.experience[0].achievements.push('Popularised the term "debugging"');
+    resume.experience.pop();
+    resume.skills = ['COBOL'];
+    delete resume.projects;
+
+    const document = toJsonResume(resume, { base: DOCUMENT });
+
+    expect(document.basics).toMatchObject({
+      label: 'Staff Engineer',
+      email: 'grace@navy.example.com',
+      location: { city: 'Arlington', region: 'VA', countryCode: 'US' },
+    });
+    expect(document.basics.profiles[1]).toEqual({
+      network: 'Twitter',
+      username: 'gracehopper',
+      url: 'https://twitter.com/gracehopper',
+    });
+    expect(document.work).toEqual([
+      {
+        name: 'Remington Rand',
+        position: 'Senior Engineer',
+        url: 'https://remington.example.com',
+        startDate: '2019-03',
+        summary: 'Led the compiler team.',
+        highlights: [
+          'Shipped the first COBOL compiler',
+          'Cut build times by 40%',
+          'Popularised the term "debugging"',
+        ],
+      },
+    ]);
+    expect(document.skills).toEqual([{ name: 'COBOL' }]);
+    expect(document.projects).toBeUndefined();
+    expect(document.volunteer).toEqual(DOCUMENT.volunteer);
+    expect(document.meta).toEqual(DOCUMENT.meta);
+  });
+});
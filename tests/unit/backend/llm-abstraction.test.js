@@ -0,0 +1,314 @@
+/**
+ * LLM Abstraction Layer Unit Tests
+ *
+ * Test fallback chains, retries with backoff and the per-provider circuit breaker
+ * with provider HTTP calls stubbed out
+ */
+
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { DatabaseService, IN_MEMORY } from '../../../src/backend/api/services/database.service';
+import {
+  BudgetExceededError,
+  CostLedgerService,
+} from '../../../src/backend/api/services/costLedger.service';
+import {
+  LLMAbstractionLayer,
+  DEFAULT_FALLBACK_CHAINS,
+} from '../../../src/backend/api/services/llm-abstraction.service';
+import { LLMResponseCache } from '../../../src/backend/api/services/llmCache.service';
+import { isolateProviders, jsonResponse } from '../../helpers/providers';
+
+const openaiReply = (content) =>
+  jsonResponse({
+    choices: [{ message: { content }, finish_reason: 'stop' }],
+    usage: { prompt_tokens: 4, completion_tokens: 2 },
+  });
+
+const claudeReply = (text) =>
+  jsonResponse({
+    content: [{ text }],
+    stop_reason: 'end_turn',
+    usage: { input_tokens: 4, output_tokens: 2 },
+  });
+
+const request = { messages: [{ role: 'user', content: 'hi' }] };
+
+describe('LLMAbstractionLayer resilience', () => {
+  let handlers;
+
+  const createLayer = (options = {}) =>
+    new LLMAbstractionLayer(undefined, {
+      fallbackChains: { default: [{ provider: 'openai' }, { provider: 'claude' }] },
+      retry: { baseDelayMs: 0 },
+      ...options,
+    });
+
+  isolateProviders({ OPENAI_API_KEY: 'sk-test', ANTHROPIC_API_KEY: 'sk-ant' });
+
+  beforeEach(() => {
+    handlers = {
+      openai: jest.fn(async () => openaiReply('from openai')),
+      claude: jest.fn(async () => claudeReply('from claude')),
+    };
+    global.fetch = jest.fn(async (url) =>
+      String(url).startsWith('https://api.openai.com') ? handlers.openai() : handlers.claude()
+    );
+  });
+
+  it('should follow the task type chain and report the serving provider', async () => {
+    const llm = createLayer({ fallbackChains: { resume: [{ provider: 'claude' }] } });
+
+    const response = await llm.generate({ ...request, taskType: 'resume' });
+
+    expect(response.content).toBe('from claude');
+    expect(response.metadata).toMatchObject({
+      provider: 'Anthropic',
+      providerId: 'claude',
+      attempts: [],
+    });
+    expect(handlers.openai).not.toHaveBeenCalled();
+  });
+
+  it('should retry retryable errors before falling back', async () => {
+    handlers.openai
+      .mockResolvedValueOnce(jsonResponse({ error: 'rate limited' }, 429))
+      .mockResolvedValueOnce(jsonResponse({ error: 'overloaded' }, 503));
+
+    const response = await createLayer().generate(request);
+
+    expect(response.metadata.providerId).toBe('openai');
+    expect(handlers.openai).toHaveBeenCalledTimes(3);
+    expect(response.metadata.attempts.map((a) => a.status)).toEqual([429, 503]);
+    expect(handlers.claude).not.toHaveBeenCalled();
+  });
+
+  it('should fall back without retrying non-retryable errors', async () => {
+    handlers.openai.mockResolvedValue(jsonResponse({ error: 'bad key' }, 401));
+
+    const response = await createLayer().generate(request);
+
+    expect(handlers.openai).toHaveBeenCalledTimes(1);
+    expect(response.metadata.providerId).toBe('claude');
+    expect(response.metadata.attempts).toEqual([
+      expect.objectContaining({ provider: 'openai', status: 401, retryable: false }),
+    ]);
+  });
+
+  it('should back off exponentially and honour Retry-After', async () => {
+    jest.useFakeTimers();
+    // Pin the jitter to its maximum so the first backoff is exactly baseDelayMs
+    jest.spyOn(Math, 'random').mockReturnValue(1);
+    try {
+      handlers.openai
+        .mockResolvedValueOnce(jsonResponse({}, 500))
+        .mockResolvedValueOnce(jsonResponse({}, 429, { 'retry-after': '2' }));
+      const llm = createLayer({ retry: { baseDelayMs: 1000, maxDelayMs: 5000 } });
+      const pending = llm.generate(request);
+
+      await jest.advanceTimersByTimeAsync(999);
+      expect(handlers.openai).toHaveBeenCalledTimes(1);
+      await jest.advanceTimersByTimeAsync(1);
+      expect(handlers.openai).toHaveBeenCalledTimes(2);
+
+      await jest.advanceTimersByTimeAsync(1999);
+      expect(handlers.openai).toHaveBeenCalledTimes(2);
+      await jest.advanceTimersByTimeAsync(1);
+      expect(handlers.openai).toHaveBeenCalledTimes(3);
+
+      expect((await pending).metadata.providerId).toBe('openai');
+    } finally {
+      Math.random.mockRestore();
+      jest.useRealTimers();
+    }
+  });
+
+  it('should retry network failures', async () => {
+    handlers.openai.mockRejectedValueOnce(new TypeError('fetch failed'));
+
+    const response = await createLayer().generate(request);
+
+    expect(response.metadata.providerId).toBe('openai');
+    expect(response.metadata.attempts[0]).toMatchObject({
+      error: 'Network error: fetch failed',
+      retryable: true,
+    });
+  });
+
+  it('should report every attempt when all providers fail', async () => {
+    handlers.openai.mockResolvedValue(jsonResponse({}, 401));
+    handlers.claude.mockResolvedValue(jsonResponse({}, 400));
+
+    await expect(createLayer().generate(request)).rejects.toThrow(
+      /openai\/gpt-4o-mini: HTTP 401.*claude\/.*: HTTP 400/
+    );
+  });
+
+  it('should open the circuit on error rate and recover through a trial request', async () => {
+    const llm = createLayer({
+      retry: { maxRetries: 0 },
+      circuitBreaker: { minRequests: 2, errorRateThreshold: 0.5, cooldownMs: 60 * 1000 },
+    });
+    handlers.openai.mockResolvedValue(jsonResponse({}, 500));
+
+    await llm.generate(request);
+    await llm.generate(request);
+    expect((await llm.getPerformanceMetrics()).circuits).toMatchObject({ OpenAI: 'open' });
+
+    // Open circuit: OpenAI is skipped entirely
+    const skipped = await llm.generate(request);
+    expect(handlers.openai).toHaveBeenCalledTimes(2);
+    expect(skipped.metadata.attempts).toEqual([
+      expect.objectContaining({ provider: 'openai', error: 'Circuit open' }),
+    ]);
+
+    // After the cooldown a single successful trial closes it again
+    const now = Date.now();
+    jest.spyOn(Date, 'now').mockReturnValue(now + 61 * 1000);
+    try {
+      handlers.openai.mockResolvedValue(openaiReply('recovered'));
+      const recovered = await llm.generate(request);
+      expect(recovered.content).toBe('recovered');
+      expect((await llm.getPerformanceMetrics()).circuits).toMatchObject({ OpenAI: 'closed' });
+    } finally {
+      Date.now.mockRestore();
+    }
+  });
+
+  it('should open the circuit when latency exceeds the threshold', async () => {
+    const llm = createLayer({
+      circuitBreaker: { minRequests: 1, latencyThresholdMs: 0 },
+    });
+
+    await llm.generate(request);
+
+    expect((await llm.getPerformanceMetrics()).circuits).toMatchObject({ OpenAI: 'open' });
+    expect((await llm.generate(request)).metadata.providerId).toBe('claude');
+  });
+
+  describe('half-open trials', () => {
+    const circuitBreaker = { minRequests: 2, errorRateThreshold: 0.5, cooldownMs: 60 * 1000 };
+    const circuits = async (llm) => (await llm.getPerformanceMetrics()).circuits;
+
+    // Open OpenAI's circuit, then move past the cooldown
+    const openCircuit = async (llm) => {
+      handlers.openai.mockResolvedValue(jsonResponse({}, 500));
+      await llm.generate(request);
+      await llm.generate(request);
+      expect(await circuits(llm)).toMatchObject({ OpenAI: 'open' });
+      handlers.openai.mockResolvedValue(openaiReply('recovered'));
+      jest.spyOn(Date, 'now').mockReturnValue(Date.now() + 61 * 1000);
+    };
+
+    afterEach(() => jest.restoreAllMocks());
+
+    it('should keep the trial for a real call when the cache answers', async () => {
+      const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'llm-circuit-'));
+      try {
+        const llm = createLayer({
+          retry: { maxRetries: 0 },
+          circuitBreaker,
+          cache: new LLMResponseCache({ dir }),
+        });
+        const cachedRequest = { messages: [{ role: 'user', content: 'cached' }], temperature: 0 };
+        handlers.openai.mockResolvedValueOnce(openaiReply('from cache'));
+        await llm.generate(cachedRequest);
+        await openCircuit(llm);
+
+        expect((await llm.generate(cachedRequest)).content).toBe('from cache');
+        expect(await circuits(llm)).toMatchObject({ OpenAI: 'open' });
+
+        expect((await llm.generate(request)).content).toBe('recovered');
+        expect(await circuits(llm)).toMatchObject({ OpenAI: 'closed' });
+      } finally {
+        fs.rmSync(dir, { recursive: true, force: true });
+      }
+    });
+
+    it('should keep the trial for a real call when the budget refuses', async () => {
+      const db = new DatabaseService(IN_MEMORY);
+      const ledger = new CostLedgerService(db, jest.fn());
+      const llm = createLayer({ retry: { maxRetries: 0 }, circuitBreaker, ledger });
+      await openCircuit(llm);
+
+      const budget = await ledger.setBudget({
+        scope: 'global',
+        period: 'day',
+        limit: 0.000001,
+        hard: true,
+      });
+      await expect(llm.generate({ ...request, maxTokens: 1000 })).rejects.toThrow(
+        BudgetExceededError
+      );
+      expect(await circuits(llm)).toMatchObject({ OpenAI: 'open' });
+
+      await ledger.deleteBudget(budget.id);
+      expect((await llm.generate(request)).content).toBe('recovered');
+      expect(await circuits(llm)).toMatchObject({ OpenAI: 'closed' });
+      db.close();
+    });
+  });
+
+  it('should not count a stream the client aborted as a provider failure', async () => {
+    const llm = createLayer({ circuitBreaker: { minRequests: 1, errorRateThreshold: 0.5 } });
+    const controller = new AbortController();
+    handlers.openai.mockImplementation(async () => {
+      controller.abort();
+      throw Object.assign(new Error('The operation was aborted'), { name: 'AbortError' });
+    });
+
+    const consume = async () => {
+      for await (const event of llm.generateStream(
+        request,
+        undefined,
+        undefined,
+        controller.signal
+      )) {
+        if (event.type === 'done') return event.response;
+      }
+      return null;
+    };
+
+    await expect(consume()).rejects.toThrow('The operation was aborted');
+    expect(handlers.claude).not.toHaveBeenCalled();
+    expect((await llm.getPerformanceMetrics()).circuits.OpenAI).not.toBe('open');
+  });
+
+  it('should only fall back on streams before the first delta', async () => {
+    handlers.openai.mockResolvedValue(jsonResponse({}, 401));
+    handlers.claude.mockResolvedValue({
+      ok: true,
+      status: 200,
+      body: (async function* chunks() {
+        yield new TextEncoder().encode(
+          'data: {"type":"content_block_delta","delta":{"type":"text_delta","text":"streamed"}}\n\n'
+        );
+      })(),
+    });
+
+    let response;
+    for await (const event of createLayer().generateStream(request)) {
+      if (event.type === 'done') ({ response } = event);
+    }
+
+    expect(response.content).toBe('streamed');
+    expect(response.metadata.attempts).toHaveLength(1);
+  });
+
+  it('should send a temperature of 0 as asked', async () => {
+    const llm = createLayer();
+
+    await llm.generate({ ...request, temperature: 0 }, 'openai');
+    await llm.generate({ ...request, temperature: 0 }, 'claude');
+
+    const sent = global.fetch.mock.calls.map(([, init]) => JSON.parse(init.body).temperature);
+    expect(sent).toEqual([0, 0]);
+  });
+
+  it('should expose the default chains per task type', () => {
+    expect(Object.keys(DEFAULT_FALLBACK_CHAINS)).toEqual(
+      expect.arrayContaining(['default', 'resume', 'cover_letter', 'structured'])
+    );
+  });
+});
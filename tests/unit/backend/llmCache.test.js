@@ -0,0 +1,185 @@
+/**
+ * LLM Response Cache Unit Tests
+ *
+ * Test keying, TTL, size-based eviction and persistence of the disk cache,
+ * and cache hits, bypass and savings reporting through the LLM abstraction layer
+ */
+
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { LLMResponseCache } from '../../../src/backend/api/services/llmCache.service';
+import { LLMAbstractionLayer } from '../../../src/backend/api/services/llm-abstraction.service';
+import { isolateProviders, jsonResponse } from '../../helpers/providers';
+
+const entry = (content) => ({
+  provider: 'openai',
+  model: 'gpt-4o-mini',
+  content,
+  finishReason: 'stop',
+  usage: { inputTokens: 10, outputTokens: 5, cost: 0.002 },
+});
+
+const keyInput = {
+  provider: 'openai',
+  model: 'gpt-4o-mini',
+  messages: [{ role: 'user', content: 'hi' }],
+  temperature: 0.7,
+};
+
+describe('LLMResponseCache', () => {
+  let dir;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'llm-cache-'));
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('should derive the same key for equal requests and different keys otherwise', () => {
+    const cache = new LLMResponseCache({ dir });
+
+    expect(cache.key(keyInput)).toBe(
+      cache.key({
+        temperature: 0.7,
+        messages: keyInput.messages,
+        model: 'gpt-4o-mini',
+        provider: 'openai',
+      })
+    );
+    expect(cache.key(keyInput)).not.toBe(cache.key({ ...keyInput, temperature: 0.2 }));
+    expect(cache.key(keyInput)).not.toBe(cache.key({ ...keyInput, provider: 'claude' }));
+    expect(cache.key(keyInput)).not.toBe(
+      cache.key({ ...keyInput, messages: [{ role: 'user', content: 'hi!' }] })
+    );
+  });
+
+  it('should persist entries to disk across instances', async () => {
+    const key = new LLMResponseCache({ dir }).key(keyInput);
+    await new LLMResponseCache({ dir }).set(key, entry('cached answer'));
+
+    const reopened = new LLMResponseCache({ dir });
+    expect(await reopened.get(key)).toMatchObject({ content: 'cached answer' });
+    expect(await reopened.getStats()).toMatchObject({ entries: 1 });
+  });
+
+  it('should expire entries after the TTL', async () => {
+    const cache = new LLMResponseCache({ dir, ttlMs: 1000 });
+    const key = cache.key(keyInput);
+    await cache.set(key, entry('soon stale'));
+
+    const now = Date.now();
+    jest.spyOn(Date, 'now').mockReturnValue(now + 1001);
+
+    expect(await cache.get(key)).toBeNull();
+    expect(await cache.getStats()).toEqual({ entries: 0, sizeBytes: 0 });
+  });
+
+  it('should evict the least recently used entries beyond the limits', async () => {
+    const cache = new LLMResponseCache({ dir, maxEntries: 2 });
+    const keys = ['a', 'b', 'c'].map((content) =>
+      cache.key({ ...keyInput, messages: [{ role: 'user', content }] })
+    );
+
+    let clock = Date.now();
+    jest.spyOn(Date, 'now').mockImplementation(() => clock++);
+    await cache.set(keys[0], entry('a'));
+    await cache.set(keys[1], entry('b'));
+    await cache.get(keys[0]);
+    await cache.set(keys[2], entry('c'));
+
+    expect(await cache.get(keys[1])).toBeNull();
+    expect(await cache.get(keys[0])).not.toBeNull();
+    expect(await cache.get(keys[2])).not.toBeNull();
+  });
+
+  it('should keep total size under maxBytes', async () => {
+    const cache = new LLMResponseCache({ dir, maxBytes: 700 });
+    for (const content of ['x'.repeat(200), 'y'.repeat(200), 'z'.repeat(200)]) {
+      await cache.set(
+        cache.key({ ...keyInput, messages: [{ role: 'user', content }] }),
+        entry(content)
+      );
+    }
+
+    const { sizeBytes, entries } = await cache.getStats();
+    expect(sizeBytes).toBeLessThanOrEqual(700);
+    expect(entries).toBe(1);
+  });
+});
+
+describe('LLMAbstractionLayer caching', () => {
+  let dir;
+  let llm;
+
+  const request = { messages: [{ role: 'user', content: 'Write a summary' }], temperature: 0.3 };
+
+  isolateProviders({ OPENAI_API_KEY: 'sk-test' });
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'llm-cache-'));
+    global.fetch = jest.fn(async () =>
+      jsonResponse({
+        choices: [{ message: { content: 'generated' }, finish_reason: 'stop' }],
+        usage: { prompt_tokens: 1000, completion_tokens: 500 },
+      })
+    );
+
+    llm = new LLMAbstractionLayer(undefined, { cache: new LLMResponseCache({ dir }) });
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('should serve repeated requests from the cache and report the savings', async () => {
+    const first = await llm.generate(request, 'openai');
+    const second = await llm.generate(request, 'openai');
+
+    expect(global.fetch).toHaveBeenCalledTimes(1);
+    expect(second).toMatchObject({
+      content: 'generated',
+      usage: { inputTokens: 1000, outputTokens: 500, cost: 0 },
+      metadata: { providerId: 'openai', cached: true },
+    });
+
+    const stats = await llm.getUsageStats('day');
+    expect(stats.requests).toBe(1);
+    expect(stats.cache).toMatchObject({
+      enabled: true,
+      hits: 1,
+      misses: 1,
+      hitRate: 0.5,
+      savedTokens: 1500,
+      entries: 1,
+    });
+    expect(stats.cache.savedCost).toBeCloseTo(first.usage.cost);
+  });
+
+  it('should bypass the cache per request', async () => {
+    await llm.generate(request, 'openai');
+    const fresh = await llm.generate({ ...request, cache: false }, 'openai');
+
+    expect(global.fetch).toHaveBeenCalledTimes(2);
+    expect(fresh.metadata.cached).toBeUndefined();
+  });
+
+  it('should replay cached responses on streams', async () => {
+    await llm.generate(request, 'openai');
+
+    const events = [];
+    for await (const event of llm.generateStream(request, 'openai')) events.push(event);
+
+    expect(global.fetch).toHaveBeenCalledTimes(1);
+    expect(events[0]).toEqual({ type: 'delta', content: 'generated' });
+    expect(events[1].response.metadata.cached).toBe(true);
+  });
+
+  it('should report the cache as disabled when none is configured', async () => {
+    const stats = await new LLMAbstractionLayer().getUsageStats();
+    expect(stats.cache).toMatchObject({ enabled: false, hits: 0, entries: 0 });
+  });
+});
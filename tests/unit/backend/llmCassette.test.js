@@ -0,0 +1,184 @@
+/**
+ * LLM Cassette Unit Tests
+ *
+ * Test recording responses into cassettes, replaying them without network access
+ * or API keys, strict mode misses, and running a full generation pipeline offline
+ */
+
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import {
+  CassetteMissError,
+  LLMCassette,
+  createLLMCassetteFromEnv,
+} from '../../../src/backend/api/services/llmCassette.service';
+import { LLMAbstractionLayer } from '../../../src/backend/api/services/llm-abstraction.service';
+import { RAGSystem } from '../../../src/backend/api/services/rag-system.service';
+import { EnhancedAICoverLetterGenerator } from '../../../src/backend/api/services/aiCoverLetterGenerator.service';
+import { DatabaseService, IN_MEMORY } from '../../../src/backend/api/services/database.service';
+import { PromptRegistry } from '../../../src/backend/api/services/promptRegistry.service';
+import { PROVIDER_KEYS, isolateProviders, jsonResponse } from '../../helpers/providers';
+
+const COVER_LETTER = {
+  introduction: 'I am excited to apply for the Senior Engineer role.',
+  bodyParagraphs: ['I led the migration of our payments platform to TypeScript.'],
+  closing: 'I would welcome the chance to contribute to your team.',
+  callToAction: 'Best regards, Ada Lovelace',
+};
+
+// Answers JSON prompts with a cover letter and everything else with plain text
+const openAIReply = async (url, init) => {
+  const body = JSON.parse(init.body);
+  const content = body.response_format
+    ? JSON.stringify(COVER_LETTER)
+    : `Section for: ${body.messages[0].content.slice(0, 20)}`;
+  return jsonResponse({
+    choices: [{ message: { content }, finish_reason: 'stop' }],
+    usage: { prompt_tokens: 100, completion_tokens: 50 },
+  });
+};
+
+describe('LLM cassettes', () => {
+  let dir;
+  let cassettePath;
+
+  const request = {
+    messages: [{ role: 'user', content: 'Summarize my resume' }],
+    temperature: 0.2,
+  };
+
+  const goOffline = () => {
+    PROVIDER_KEYS.forEach((key) => delete process.env[key]);
+    global.fetch = jest.fn(async () => {
+      throw new Error('network disabled');
+    });
+  };
+
+  isolateProviders({ OPENAI_API_KEY: 'sk-test' });
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'llm-cassette-'));
+    cassettePath = path.join(dir, 'cassette.json');
+    global.fetch = jest.fn(openAIReply);
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('should record responses and replay them offline', async () => {
+    const recorder = new LLMAbstractionLayer(undefined, {
+      cassette: new LLMCassette(cassettePath, 'record'),
+    });
+    const live = await recorder.generate(request);
+
+    const file = JSON.parse(fs.readFileSync(cassettePath, 'utf8'));
+    expect(file.interactions).toHaveLength(1);
+    expect(file.interactions[0].request.messages).toEqual(request.messages);
+
+    goOffline();
+    const player = new LLMAbstractionLayer(undefined, {
+      cassette: new LLMCassette(cassettePath, 'strict'),
+    });
+    const replayed = await player.generate(request);
+
+    expect(global.fetch).not.toHaveBeenCalled();
+    expect(replayed).toMatchObject({
+      content: live.content,
+      usage: { inputTokens: 100, outputTokens: 50, cost: 0 },
+      metadata: { providerId: 'openai', model: live.metadata.model, replayed: true },
+    });
+
+    const events = [];
+    for await (const event of player.generateStream(request)) events.push(event);
+    expect(events[0]).toEqual({ type: 'delta', content: live.content });
+    expect(events[1].response.metadata.replayed).toBe(true);
+  });
+
+  it('should fail on unrecorded requests in strict mode', async () => {
+    await new LLMAbstractionLayer(undefined, {
+      cassette: new LLMCassette(cassettePath, 'record'),
+    }).generate(request);
+
+    goOffline();
+    const player = new LLMAbstractionLayer(undefined, {
+      cassette: new LLMCassette(cassettePath, 'strict'),
+    });
+
+    await expect(player.generate({ ...request, temperature: 0.9 })).rejects.toThrow(
+      CassetteMissError
+    );
+    // A pinned provider is part of what was asked for
+    await expect(player.generate(request, 'openai')).rejects.toThrow(CassetteMissError);
+    expect(global.fetch).not.toHaveBeenCalled();
+  });
+
+  it('should record missing requests in replay mode', async () => {
+    const cassette = new LLMCassette(cassettePath, 'replay');
+    const llm = new LLMAbstractionLayer(undefined, { cassette });
+
+    await llm.generate(request, 'openai');
+    await llm.generate(request, 'openai');
+    await llm.generate({ ...request, temperature: 0.5 }, 'openai');
+
+    expect(global.fetch).toHaveBeenCalledTimes(2);
+    expect(await cassette.size()).toBe(2);
+    expect(await new LLMCassette(cassettePath).size()).toBe(2);
+  });
+
+  it('should reject corrupt cassettes', async () => {
+    fs.writeFileSync(cassettePath, '{ not json');
+    const llm = new LLMAbstractionLayer(undefined, {
+      cassette: new LLMCassette(cassettePath, 'replay'),
+    });
+
+    await expect(llm.generate(request)).rejects.toThrow('Invalid LLM cassette');
+  });
+
+  it('should be configured from the environment', () => {
+    expect(createLLMCassetteFromEnv({})).toBeNull();
+    expect(createLLMCassetteFromEnv({ JOBSPRINT_LLM_CASSETTE: cassettePath }).mode).toBe('replay');
+    expect(() =>
+      createLLMCassetteFromEnv({
+        JOBSPRINT_LLM_CASSETTE: cassettePath,
+        JOBSPRINT_LLM_CASSETTE_MODE: 'rewind',
+      })
+    ).toThrow('JOBSPRINT_LLM_CASSETTE_MODE');
+  });
+
+  it('should run the cover letter pipeline offline from a cassette', async () => {
+    const generationRequest = {
+      resume: 'Senior engineer with 8 years of TypeScript and Node.js experience',
+      jobDescription: 'Senior Engineer\nWe need TypeScript, Node.js and AWS experience.',
+      userProfile: { name: 'Ada Lovelace', currentPosition: 'Staff Engineer' },
+      companyInfo: { name: 'Acme', website: 'https://acme.test', industry: 'Fintech' },
+    };
+    const generate = (mode, parallel) => {
+      const llm = new LLMAbstractionLayer(undefined, {
+        cassette: new LLMCassette(cassettePath, mode),
+      });
+      const prompts = new PromptRegistry(new DatabaseService(IN_MEMORY));
+      return new EnhancedAICoverLetterGenerator(
+        llm,
+        new RAGSystem(llm),
+        prompts
+      ).generateCoverLetter({
+        ...generationRequest,
+        parallel,
+      });
+    };
+
+    const sequential = await generate('record', false);
+    const parallel = await generate('record', true);
+
+    goOffline();
+    const replayedSequential = await generate('strict', false);
+    const replayedParallel = await generate('strict', true);
+
+    expect(global.fetch).not.toHaveBeenCalled();
+    expect(replayedSequential.content).toBe(sequential.content);
+    expect(replayedSequential.template.introduction).toBe(COVER_LETTER.introduction);
+    expect(replayedParallel.content).toBe(parallel.content);
+  });
+});
@@ -0,0 +1,170 @@
+/**
+ * LLM Provider Config Unit Tests
+ *
+ * Test merging the provider config file over the built-ins, validation,
+ * OpenAI-compatible providers and hot reloading
+ */
+
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import {
+  resolveProviderConfig,
+  watchProviderConfig,
+} from '../../../src/backend/api/services/llmProviderConfig.service';
+import { LLMAbstractionLayer } from '../../../src/backend/api/services/llm-abstraction.service';
+import { isolateProviders, jsonResponse } from '../../helpers/providers';
+
+const vllm = {
+  id: 'vllm',
+  type: 'openai-compatible',
+  name: 'vLLM',
+  baseUrl: 'http://gpu-box:8000/v1/',
+  models: [{ id: 'llama-3.1-8b', contextWindow: 32768 }],
+  costPerToken: { input: 0.000001, output: 0.000002 },
+};
+
+describe('resolveProviderConfig', () => {
+  it('should merge file entries over the built-in providers', () => {
+    const { providers, fallbackChains } = resolveProviderConfig({
+      providers: [
+        vllm,
+        { id: 'openai', models: ['gpt-4o'] },
+        { id: 'huggingface', enabled: false },
+      ],
+      fallbackChains: { default: [{ provider: 'vllm' }] },
+    });
+
+    const ids = providers.map((p) => p.id);
+    expect(ids).toContain('vllm');
+    expect(ids).not.toContain('huggingface');
+    expect(providers.find((p) => p.id === 'openai')).toMatchObject({
+      type: 'openai',
+      apiKeyEnv: 'OPENAI_API_KEY',
+      models: ['gpt-4o'],
+    });
+    expect(fallbackChains).toEqual({ default: [{ provider: 'vllm' }] });
+  });
+
+  it('should reject invalid providers with the offending field', () => {
+    expect(() => resolveProviderConfig({ providers: [{ ...vllm, type: 'grpc' }] })).toThrow(
+      'providers[0].type must be one of'
+    );
+    expect(() => resolveProviderConfig({ providers: [{ id: 'x', type: 'openai' }] })).toThrow(
+      'providers[0].baseUrl must be an http(s) URL'
+    );
+    expect(() =>
+      resolveProviderConfig({
+        providers: [{ ...vllm, models: [{ id: 'm', costPerToken: { input: -1, output: 0 } }] }],
+      })
+    ).toThrow('providers[0].models[0].costPerToken');
+    expect(() => resolveProviderConfig({ fallbackChains: { default: ['openai'] } })).toThrow(
+      'fallbackChains.default'
+    );
+  });
+});
+
+describe('LLMAbstractionLayer provider config', () => {
+  let dir;
+  let configPath;
+
+  const writeConfig = (config) => fs.writeFileSync(configPath, JSON.stringify(config));
+
+  isolateProviders();
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'llm-providers-'));
+    configPath = path.join(dir, 'llm-providers.json');
+    global.fetch = jest.fn(async () =>
+      jsonResponse({
+        choices: [{ message: { content: 'from vllm' }, finish_reason: 'stop' }],
+        usage: { prompt_tokens: 1000, completion_tokens: 1000 },
+      })
+    );
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('should call an OpenAI-compatible provider defined in the config file', async () => {
+    writeConfig({ providers: [vllm] });
+    const llm = new LLMAbstractionLayer(undefined, { providersFile: configPath });
+
+    const response = await llm.generate(
+      { messages: [{ role: 'user', content: 'hi' }], structuredOutput: true },
+      undefined,
+      'llama-3.1-8b'
+    );
+
+    const [url, init] = global.fetch.mock.calls[0];
+    expect(url).toBe('http://gpu-box:8000/v1/chat/completions');
+    expect(init.headers.Authorization).toBeUndefined();
+    expect(JSON.parse(init.body)).toMatchObject({
+      model: 'llama-3.1-8b',
+      response_format: { type: 'json_object' },
+    });
+    expect(response.metadata).toMatchObject({ provider: 'vLLM', providerId: 'vllm' });
+    expect(response.usage.cost).toBeCloseTo(0.003);
+    expect(llm.listModels()).toContainEqual(
+      expect.objectContaining({ model: 'llama-3.1-8b', available: true, contextWindow: 32768 })
+    );
+  });
+
+  it('should price models individually when they declare their own cost', async () => {
+    process.env.OPENAI_API_KEY = 'sk-test';
+    writeConfig({
+      providers: [
+        { id: 'openai', models: [{ id: 'cheap', costPerToken: { input: 0, output: 0.000001 } }] },
+      ],
+    });
+    const llm = new LLMAbstractionLayer(undefined, { providersFile: configPath });
+
+    const response = await llm.generate({ messages: [{ role: 'user', content: 'hi' }] }, 'openai');
+
+    expect(response.metadata.model).toBe('cheap');
+    expect(response.usage.cost).toBeCloseTo(0.001);
+  });
+
+  it('should reload providers and keep the last good config on errors', () => {
+    writeConfig({ providers: [vllm] });
+    const llm = new LLMAbstractionLayer(undefined, { providersFile: configPath });
+    expect(llm.hasProvider('vllm')).toBe(true);
+
+    writeConfig({ providers: [{ ...vllm, id: 'lmstudio' }] });
+    expect(llm.reloadProviders()).toBe(true);
+    expect(llm.hasProvider('vllm')).toBe(false);
+    expect(llm.hasProvider('lmstudio')).toBe(true);
+
+    fs.writeFileSync(configPath, '{ not json');
+    expect(llm.reloadProviders()).toBe(false);
+    expect(llm.hasProvider('lmstudio')).toBe(true);
+  });
+
+  it('should start with the built-ins when the config file is invalid', () => {
+    fs.writeFileSync(configPath, '{ not json');
+    const llm = new LLMAbstractionLayer(undefined, { providersFile: configPath });
+
+    expect(llm.hasProvider('openai')).toBe(true);
+    expect(console.error).toHaveBeenCalledWith(expect.stringContaining('Invalid provider config'));
+  });
+
+  it('should notify when the config file changes', async () => {
+    writeConfig({ providers: [] });
+    const onChange = jest.fn();
+    const stop = watchProviderConfig(configPath, onChange, 20);
+    try {
+      await new Promise((resolve) => setTimeout(resolve, 60));
+      writeConfig({ providers: [vllm] });
+      for (let i = 0; i < 50 && onChange.mock.calls.length === 0; i++) {
+        await new Promise((resolve) => setTimeout(resolve, 20));
+      }
+      expect(onChange).toHaveBeenCalled();
+    } finally {
+      stop();
+    }
+  });
+});
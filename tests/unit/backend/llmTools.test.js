@@ -0,0 +1,406 @@
+/**
+ * LLM Tool Calling Unit Tests
+ *
+ * Test the tool-call loop, argument validation and each provider's tool wire format
+ * (OpenAI, Claude, Gemini, Ollama) with provider HTTP calls stubbed out
+ */
+
+import { DatabaseService, IN_MEMORY } from '../../../src/backend/api/services/database.service';
+import { SqliteExperienceStore } from '../../../src/backend/api/services/experienceStore.service';
+import { LLMAbstractionLayer } from '../../../src/backend/api/services/llm-abstraction.service';
+import { RAGSystem } from '../../../src/backend/api/services/rag-system.service';
+import { SqliteVectorStore } from '../../../src/backend/api/services/vectorStore.service';
+import { isolateProviders, jsonResponse } from '../../helpers/providers';
+
+const weatherTool = (handler = jest.fn(({ city }) => ({ city, tempC: 21 }))) => ({
+  name: 'get_weather',
+  description: 'Current weather for a city',
+  parameters: {
+    type: 'object',
+    properties: { city: { type: 'string' } },
+    required: ['city'],
+    additionalProperties: false,
+  },
+  handler,
+});
+
+const request = { messages: [{ role: 'user', content: 'Weather in Paris?' }] };
+
+describe('LLMAbstractionLayer tool calling', () => {
+  let replies;
+  let llm;
+
+  const sentBody = (call) => JSON.parse(global.fetch.mock.calls[call][1].body);
+
+  isolateProviders({
+    OPENAI_API_KEY: 'sk-test',
+    ANTHROPIC_API_KEY: 'sk-ant',
+    GOOGLE_API_KEY: 'g-test',
+  });
+
+  beforeEach(() => {
+    replies = [];
+    global.fetch = jest.fn(async () => jsonResponse(replies.shift()));
+    llm = new LLMAbstractionLayer();
+  });
+
+  it('should run OpenAI tool calls and send the results back', async () => {
+    const tool = weatherTool();
+    llm.registerTool(tool);
+    replies.push(
+      {
+        choices: [
+          {
+            message: {
+              content: null,
+              tool_calls: [
+                {
+                  id: 'call_1',
+                  type: 'function',
+                  function: { name: 'get_weather', arguments: '{"city":"Paris"}' },
+                },
+              ],
+            },
+            finish_reason: 'tool_calls',
+          },
+        ],
+        usage: { prompt_tokens: 50, completion_tokens: 10 },
+      },
+      {
+        choices: [{ message: { content: 'It is 21°C in Paris.' }, finish_reason: 'stop' }],
+        usage: { prompt_tokens: 80, completion_tokens: 8 },
+      }
+    );
+
+    const response = await llm.generateWithTools(request, {}, 'openai');
+
+    expect(sentBody(0).tools).toEqual([
+      {
+        type: 'function',
+        function: {
+          name: 'get_weather',
+          description: 'Current weather for a city',
+          parameters: tool.parameters,
+        },
+      },
+    ]);
+    expect(tool.handler).toHaveBeenCalledWith({ city: 'Paris' }, { userId: undefined });
+    expect(sentBody(1).messages.slice(1)).toEqual([
+      {
+        role: 'assistant',
+        content: null,
+        tool_calls: [
+          {
+            id: 'call_1',
+            type: 'function',
+            function: { name: 'get_weather', arguments: '{"city":"Paris"}' },
+          },
+        ],
+      },
+      { role: 'tool', tool_call_id: 'call_1', content: '{"city":"Paris","tempC":21}' },
+    ]);
+    expect(response.content).toBe('It is 21°C in Paris.');
+    expect(response.usage).toMatchObject({ inputTokens: 130, outputTokens: 18 });
+    expect(response.toolResults).toEqual([
+      {
+        id: 'call_1',
+        name: 'get_weather',
+        arguments: { city: 'Paris' },
+        result: { city: 'Paris', tempC: 21 },
+      },
+    ]);
+  });
+
+  it('should speak the Claude tool format', async () => {
+    replies.push(
+      {
+        content: [
+          { type: 'text', text: 'Checking.' },
+          { type: 'tool_use', id: 'toolu_1', name: 'get_weather', input: { city: 'Paris' } },
+        ],
+        stop_reason: 'tool_use',
+        usage: { input_tokens: 50, output_tokens: 10 },
+      },
+      {
+        content: [{ type: 'text', text: 'Sunny, 21°C.' }],
+        stop_reason: 'end_turn',
+        usage: { input_tokens: 80, output_tokens: 5 },
+      }
+    );
+
+    const response = await llm.generateWithTools(request, { tools: [weatherTool()] }, 'claude');
+
+    expect(sentBody(0).tools[0]).toMatchObject({
+      name: 'get_weather',
+      input_schema: { type: 'object', required: ['city'] },
+    });
+    expect(sentBody(1).messages.slice(1)).toEqual([
+      {
+        role: 'assistant',
+        content: [
+          { type: 'text', text: 'Checking.' },
+          { type: 'tool_use', id: 'toolu_1', name: 'get_weather', input: { city: 'Paris' } },
+        ],
+      },
+      {
+        role: 'user',
+        content: [
+          {
+            type: 'tool_result',
+            tool_use_id: 'toolu_1',
+            content: '{"city":"Paris","tempC":21}',
+          },
+        ],
+      },
+    ]);
+    expect(response.content).toBe('Sunny, 21°C.');
+  });
+
+  it('should speak the Gemini tool format', async () => {
+    replies.push(
+      {
+        candidates: [
+          {
+            content: {
+              parts: [{ functionCall: { name: 'get_weather', args: { city: 'Paris' } } }],
+            },
+            finishReason: 'STOP',
+          },
+        ],
+      },
+      { candidates: [{ content: { parts: [{ text: 'Sunny.' }] }, finishReason: 'STOP' }] }
+    );
+
+    const response = await llm.generateWithTools(request, { tools: [weatherTool()] }, 'gemini');
+
+    const declaration = sentBody(0).tools[0].functionDeclarations[0];
+    expect(declaration.name).toBe('get_weather');
+    expect(declaration.parameters.additionalProperties).toBeUndefined();
+    expect(sentBody(1).contents.slice(1)).toEqual([
+      {
+        role: 'model',
+        parts: [{ functionCall: { name: 'get_weather', args: { city: 'Paris' } } }],
+      },
+      {
+        role: 'user',
+        parts: [
+          { functionResponse: { name: 'get_weather', response: { city: 'Paris', tempC: 21 } } },
+        ],
+      },
+    ]);
+    expect(response.content).toBe('Sunny.');
+  });
+
+  it('should speak the Ollama tool format', async () => {
+    replies.push(
+      {
+        message: {
+          content: '',
+          tool_calls: [{ function: { name: 'get_weather', arguments: { city: 'Paris' } } }],
+        },
+        done_reason: 'stop',
+      },
+      { message: { content: 'Sunny.' }, done_reason: 'stop' }
+    );
+
+    const response = await llm.generateWithTools(request, { tools: [weatherTool()] }, 'ollama');
+
+    expect(sentBody(0).tools[0].function.name).toBe('get_weather');
+    expect(sentBody(1).messages.slice(1)).toEqual([
+      {
+        role: 'assistant',
+        content: '',
+        tool_calls: [{ function: { name: 'get_weather', arguments: { city: 'Paris' } } }],
+      },
+      { role: 'tool', content: '{"city":"Paris","tempC":21}', tool_name: 'get_weather' },
+    ]);
+    expect(response.toolResults[0].result).toEqual({ city: 'Paris', tempC: 21 });
+  });
+
+  it('should report invalid arguments and unknown tools back to the model', async () => {
+    const tool = weatherTool();
+    const toolCall = (id, name, args) => ({
+      id,
+      type: 'function',
+      function: { name, arguments: args },
+    });
+    replies.push(
+      {
+        choices: [
+          {
+            message: {
+              content: null,
+              tool_calls: [
+                toolCall('call_1', 'get_weather', '{"town":"Paris"}'),
+                toolCall('call_2', 'get_forecast', '{}'),
+                toolCall('call_3', 'get_weather', '{oops'),
+              ],
+            },
+            finish_reason: 'tool_calls',
+          },
+        ],
+        usage: { prompt_tokens: 1, completion_tokens: 1 },
+      },
+      {
+        choices: [{ message: { content: 'Sorry.' }, finish_reason: 'stop' }],
+        usage: { prompt_tokens: 1, completion_tokens: 1 },
+      }
+    );
+
+    const response = await llm.generateWithTools(request, { tools: [tool] }, 'openai');
+
+    expect(tool.handler).not.toHaveBeenCalled();
+    expect(response.toolResults.map((r) => r.error)).toEqual([
+      'Invalid arguments: $arguments.city: is required; $arguments.town: is not allowed',
+      'Unknown tool: get_forecast',
+      'Invalid arguments: $arguments: expected object, got string',
+    ]);
+    expect(JSON.parse(sentBody(1).messages[3].content)).toEqual({
+      error: 'Unknown tool: get_forecast',
+    });
+  });
+
+  it('should send handler errors back to the model', async () => {
+    const tool = weatherTool(
+      jest.fn(() => {
+        throw new Error('weather service down');
+      })
+    );
+    replies.push(
+      {
+        content: [{ type: 'tool_use', id: 'toolu_1', name: 'get_weather', input: { city: 'X' } }],
+        usage: { input_tokens: 1, output_tokens: 1 },
+      },
+      {
+        content: [{ type: 'text', text: 'Unavailable.' }],
+        usage: { input_tokens: 1, output_tokens: 1 },
+      }
+    );
+
+    const response = await llm.generateWithTools(request, { tools: [tool] }, 'claude');
+
+    expect(response.toolResults[0].error).toBe('weather service down');
+    expect(sentBody(1).messages[2].content[0].content).toBe('{"error":"weather service down"}');
+  });
+
+  it('should stop a model that keeps calling tools', async () => {
+    const looping = {
+      content: [{ type: 'tool_use', id: 'toolu_1', name: 'get_weather', input: { city: 'X' } }],
+      usage: { input_tokens: 1, output_tokens: 1 },
+    };
+    global.fetch = jest.fn(async () => jsonResponse(looping));
+
+    await expect(
+      llm.generateWithTools(request, { tools: [weatherTool()], maxSteps: 2 }, 'claude')
+    ).rejects.toThrow('still calling tools after 2 steps');
+    expect(global.fetch).toHaveBeenCalledTimes(3);
+  });
+
+  it('should validate tool registration and lookups', async () => {
+    expect(() => llm.registerTool({ ...weatherTool(), name: 'get weather' })).toThrow(
+      'Invalid tool name'
+    );
+    llm.registerTool(weatherTool());
+    expect(llm.listTools().map((t) => t.name)).toEqual(['get_weather']);
+    await expect(llm.generateWithTools(request, { tools: ['nope'] })).rejects.toThrow(
+      'Unknown tool: nope'
+    );
+    expect(llm.unregisterTool('get_weather')).toBe(true);
+    await expect(llm.generateStream({ ...request, tools: [weatherTool()] }).next()).rejects.toThrow(
+      'not supported on streams'
+    );
+  });
+
+  it('should expose RAG job lookup and match scoring as tools', async () => {
+    const rag = new RAGSystem(llm, {
+      store: new SqliteVectorStore(new DatabaseService(IN_MEMORY)),
+    });
+    await rag.addJobDescription({
+      id: 'job-1',
+      title: 'Backend Engineer',
+      company: 'Acme',
+      content: 'Build APIs',
+      requirements: ['5 years of backend experience'],
+      responsibilities: ['Own the payments API'],
+      skills: ['TypeScript', 'PostgreSQL', 'AWS'],
+      metadata: { location: 'Remote' },
+    });
+    const tools = Object.fromEntries(rag.getTools().map((tool) => [tool.name, tool]));
+
+    expect(await tools.get_job.handler({ jobId: 'job-1' })).toMatchObject({
+      title: 'Backend Engineer',
+      skills: ['TypeScript', 'PostgreSQL', 'AWS'],
+    });
+    expect(
+      await tools.job_match_score.handler({ jobId: 'job-1', skills: ['typescript', 'AWS', 'Go'] })
+    ).toEqual({ score: 67, matched: ['TypeScript', 'AWS'], missing: ['PostgreSQL'] });
+    const hits = await tools.search_jobs.handler({ query: 'payments API', topK: 1 });
+    expect(hits).toEqual([
+      expect.objectContaining({ jobId: 'job-1', content: 'Own the payments API' }),
+    ]);
+  });
+
+  it("should find evidence in the requesting user's own experience", async () => {
+    const rag = new RAGSystem(llm, {
+      store: new SqliteVectorStore(new DatabaseService(IN_MEMORY)),
+      experienceStore: new SqliteExperienceStore(new DatabaseService(IN_MEMORY)),
+    });
+    await rag.addExperience({
+      id: 'cv',
+      userId: 'u1',
+      kind: 'resume',
+      content: 'Built payment APIs in TypeScript at Acme',
+    });
+    await rag.addExperience({
+      id: 'cv',
+      userId: 'u2',
+      kind: 'resume',
+      content: 'Built payment APIs in Go at Initech',
+    });
+    rag.getTools().forEach((tool) => llm.registerTool(tool));
+    const evidenceCall = {
+      choices: [
+        {
+          message: {
+            content: null,
+            tool_calls: [
+              {
+                id: 'call_1',
+                type: 'function',
+                function: {
+                  name: 'find_evidence',
+                  arguments: '{"requirements":["payment APIs"]}',
+                },
+              },
+            ],
+          },
+          finish_reason: 'tool_calls',
+        },
+      ],
+      usage: { prompt_tokens: 50, completion_tokens: 10 },
+    };
+    const answer = {
+      choices: [{ message: { content: 'Done' }, finish_reason: 'stop' }],
+      usage: { prompt_tokens: 80, completion_tokens: 2 },
+    };
+
+    replies.push(evidenceCall, answer);
+    const response = await llm.generateWithTools({ ...request, userId: 'u1' }, {}, 'openai');
+
+    expect(response.toolResults[0].result).toEqual([
+      {
+        requirement: 'payment APIs',
+        evidence: [
+          expect.objectContaining({
+            content: 'Built payment APIs in TypeScript at Acme',
+            kind: 'resume',
+          }),
+        ],
+      },
+    ]);
+
+    replies.push(evidenceCall, answer);
+    const anonymous = await llm.generateWithTools(request, {}, 'openai');
+    expect(anonymous.toolResults[0].error).toBe('find_evidence needs a request with a userId');
+  });
+});
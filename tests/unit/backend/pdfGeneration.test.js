@@ -0,0 +1,274 @@
+/**
+ * PDF Generation Unit Tests
+ *
+ * Test the Chrome renderer's DevTools session (against a stand-in Chrome), local and Puter
+ * document storage, and PDFGenerationService page options, fonts and results
+ */
+
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { fileURLToPath } from 'url';
+import {
+  CostTrackingService,
+  PDFGenerationService,
+} from '../../../src/backend/api/services/costTracking.service';
+import {
+  LocalDocumentStorage,
+  PuterDocumentStorage,
+  createDocumentStorageFromEnv,
+} from '../../../src/backend/api/services/documentStorage.service';
+import { LLMAbstractionLayer } from '../../../src/backend/api/services/llm-abstraction.service';
+import { ChromePdfRenderer } from '../../../src/backend/api/services/pdfRenderer.service';
+
+const FAKE_CHROME = path.join(__dirname, '../../fixtures/fake-chrome.js');
+const PAGE = { pageSize: 'A4', margins: { top: 25.4, right: 12.7, bottom: 25.4, left: 12.7 } };
+
+describe('ChromePdfRenderer', () => {
+  let dir;
+  let log;
+  let chromePath;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'pdf-renderer-'));
+    log = path.join(dir, 'chrome.log');
+    // Spawned processes do not see process.env changes made inside a test
+    chromePath = path.join(dir, 'chrome');
+    fs.writeFileSync(
+      chromePath,
+      `#!/bin/sh\nFAKE_CHROME_LOG='${log}' exec node '${FAKE_CHROME}' "$@"\n`
+    );
+    fs.chmodSync(chromePath, 0o755);
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  const entries = () =>
+    fs
+      .readFileSync(log, 'utf8')
+      .trim()
+      .split('\n')
+      .map((line) => JSON.parse(line));
+
+  it('should print the document with the page size and margins in inches', async () => {
+    const renderer = new ChromePdfRenderer({ chromePath });
+
+    const pdf = await renderer.render('<p>Ada Lovelace</p>', PAGE);
+
+    const [header, html] = pdf.toString().split('\n');
+    expect(header.startsWith('%PDF-1.7')).toBe(true);
+    expect(JSON.parse(header.slice(9))).toEqual({
+      paperWidth: 8.27,
+      paperHeight: 11.69,
+      marginTop: 1,
+      marginRight: 0.5,
+      marginBottom: 1,
+      marginLeft: 0.5,
+      printBackground: true,
+    });
+    expect(html).toBe('<p>Ada Lovelace</p>');
+
+    const [launch, ...commands] = entries();
+    expect(launch.args).toEqual(
+      expect.arrayContaining(['--headless=new', '--remote-debugging-pipe'])
+    );
+    expect(commands.map((c) => c.method)).toEqual([
+      'Target.createTarget',
+      'Target.attachToTarget',
+      'Emulation.setScriptExecutionDisabled',
+      'Page.getFrameTree',
+      'Page.setDocumentContent',
+      'Runtime.evaluate',
+      'Page.printToPDF',
+    ]);
+    expect(commands.slice(2).every((c) => c.sessionId === 'session-1')).toBe(true);
+
+    // The throwaway profile is gone with Chrome
+    const profile = launch.args.find((arg) => arg.startsWith('--user-data-dir=')).split('=')[1];
+    expect(fs.existsSync(profile)).toBe(false);
+  });
+
+  it('should fail when Chrome cannot start or is missing', async () => {
+    const missing = new ChromePdfRenderer({ chromePath: path.join(dir, 'no-chrome') });
+    await expect(missing.render('<p></p>', PAGE)).rejects.toThrow('ENOENT');
+
+    // Exits straight away without answering
+    const quitter = new ChromePdfRenderer({ chromePath: '/bin/true' });
+    await expect(quitter.render('<p></p>', PAGE)).rejects.toThrow(/Chrome/);
+  });
+});
+
+describe('Document storage', () => {
+  let dir;
+  let originalFetch;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'documents-'));
+    originalFetch = global.fetch;
+  });
+
+  afterEach(() => {
+    global.fetch = originalFetch;
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('should save files locally with file or served URLs', async () => {
+    const stored = await new LocalDocumentStorage(path.join(dir, 'out')).save(
+      'resume 1.pdf',
+      Buffer.from('%PDF')
+    );
+    expect(stored).toEqual({
+      url: expect.stringMatching(/^file:\/\//),
+      path: path.join(dir, 'out', 'resume 1.pdf'),
+      size: 4,
+    });
+    expect(fs.readFileSync(fileURLToPath(stored.url), 'utf8')).toBe('%PDF');
+
+    const served = new LocalDocumentStorage(dir, 'https://files.example.com/docs/');
+    expect((await served.save('resume 1.pdf', Buffer.from('%PDF'))).url).toBe(
+      'https://files.example.com/docs/resume%201.pdf'
+    );
+  });
+
+  it('should upload to Puter as base64', async () => {
+    global.fetch = jest.fn(async () => ({
+      ok: true,
+      json: async () => ({ url: 'https://puter.example.com/f/abc' }),
+    }));
+    const storage = new PuterDocumentStorage({ apiUrl: 'https://api.example.com/', apiKey: 'key' });
+
+    const stored = await storage.save('resume.pdf', Buffer.from('%PDF'));
+
+    expect(stored).toEqual({
+      url: 'https://puter.example.com/f/abc',
+      path: '/jobsprint/documents/resume.pdf',
+      size: 4,
+    });
+    const [url, init] = global.fetch.mock.calls[0];
+    expect(url).toBe('https://api.example.com/storage/files');
+    expect(init.headers.Authorization).toBe('Bearer key');
+    expect(JSON.parse(init.body)).toEqual({
+      path: '/jobsprint/documents/resume.pdf',
+      content: Buffer.from('%PDF').toString('base64'),
+      encoding: 'base64',
+    });
+
+    global.fetch = jest.fn(async () => ({ ok: false, status: 403, text: async () => 'denied' }));
+    await expect(storage.save('resume.pdf', Buffer.from('%PDF'))).rejects.toThrow(
+      'Puter storage upload failed: HTTP 403: denied'
+    );
+  });
+
+  it('should pick the storage from the environment', () => {
+    expect(createDocumentStorageFromEnv({})).toBeInstanceOf(LocalDocumentStorage);
+    expect(
+      createDocumentStorageFromEnv({
+        JOBSPRINT_DOCUMENT_STORAGE: 'puter',
+        JOBSPRINT_PUTER_API_URL: 'https://api.example.com',
+        PUTER_API_KEY: 'key',
+      })
+    ).toBeInstanceOf(PuterDocumentStorage);
+    expect(() => createDocumentStorageFromEnv({ JOBSPRINT_DOCUMENT_STORAGE: 'puter' })).toThrow(
+      'PUTER_API_KEY'
+    );
+    expect(() => createDocumentStorageFromEnv({ JOBSPRINT_DOCUMENT_STORAGE: 's3' })).toThrow(
+      'local or puter'
+    );
+  });
+});
+
+describe('PDFGenerationService', () => {
+  const llm = new LLMAbstractionLayer();
+  const pdf = Buffer.from('%PDF-1.7 rendered');
+  const renderer = { render: async () => pdf };
+  let dir;
+  let costs;
+  let recordEvent;
+  let service;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'pdf-service-'));
+    jest.spyOn(renderer, 'render');
+    costs = new CostTrackingService(llm);
+    recordEvent = jest.fn();
+    service = new PDFGenerationService(llm, costs, {
+      renderer,
+      storage: new LocalDocumentStorage(dir),
+      recordEvent,
+    });
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('should save the rendered PDF and report its real size', async () => {
+    const result = await service.generatePDF({
+      content: 'EXPERIENCE:\n- Led <script>alert(1)</script> migration',
+      type: 'resume',
+      style: 'modern',
+    });
+
+    expect(result).toMatchObject({
+      fileName: expect.stringMatching(/^resume-\d+\.pdf$/),
+      fileSize: pdf.length,
+      cost: 0.01,
+    });
+    expect(fs.readFileSync(fileURLToPath(result.url))).toEqual(pdf);
+
+    const [html, page] = renderer.render.mock.calls[0];
+    expect(page).toEqual({
+      pageSize: 'Letter',
+      margins: { top: 15, right: 15, bottom: 15, left: 15 },
+    });
+    expect(html).toContain('<h2>EXPERIENCE</h2>');
+    expect(html).toContain('<li>Led &lt;script&gt;alert(1)&lt;/script&gt; migration</li>');
+    expect(costs.getCostSummary().costByService).toEqual({ pdf: 0.01 });
+    expect(recordEvent).toHaveBeenCalledWith({
+      type: 'file.created',
+      source: 'documents',
+      data: {
+        url: result.url,
+        path: path.join(dir, result.fileName),
+        size: pdf.length,
+        fileName: result.fileName,
+        format: 'pdf',
+        documentType: 'resume',
+      },
+    });
+  });
+
+  it('should pass page options and inline font files', async () => {
+    const font = path.join(dir, 'Inter.woff2');
+    fs.writeFileSync(font, 'font-bytes');
+
+    await service.generatePDF({
+      content: 'Hello',
+      type: 'cover-letter',
+      style: 'minimal',
+      pageSize: 'A4',
+      margins: { top: 20 },
+      fonts: [{ family: 'Inter', file: font, weight: 600 }],
+    });
+
+    const [html, page] = renderer.render.mock.calls[0];
+    expect(page).toEqual({ pageSize: 'A4', margins: { top: 20, right: 15, bottom: 15, left: 15 } });
+    expect(html).toContain(
+      `src: url(data:font/woff2;base64,${Buffer.from('font-bytes').toString('base64')}) format('woff2')`
+    );
+    expect(html).toContain('font-weight: 600');
+    expect(html).toContain("body { font-family: 'Inter', sans-serif; }");
+
+    await expect(
+      service.generatePDF({
+        content: 'Hello',
+        type: 'resume',
+        style: 'minimal',
+        fonts: [{ family: 'Bad', file: path.join(dir, 'font.svg') }],
+      })
+    ).rejects.toThrow('Unsupported font file');
+  });
+});
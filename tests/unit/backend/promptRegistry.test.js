@@ -0,0 +1,373 @@
+/**
+ * Prompt Registry Unit Tests
+ *
+ * Test typed template rendering, version selection (pinned, A/B split, latest), run and
+ * outcome metrics, generator integration and the /ai/prompts routes
+ */
+
+import express from 'express';
+import request from 'supertest';
+import aiRouter from '../../../src/backend/api/ai';
+import { DatabaseService, IN_MEMORY } from '../../../src/backend/api/services/database.service';
+import {
+  PromptRegistry,
+  definePrompt,
+  renderTemplate,
+} from '../../../src/backend/api/services/promptRegistry.service';
+import { LLMAbstractionLayer } from '../../../src/backend/api/services/llm-abstraction.service';
+import { RAGSystem } from '../../../src/backend/api/services/rag-system.service';
+import {
+  COVER_LETTER_PROMPTS,
+  EnhancedAICoverLetterGenerator,
+} from '../../../src/backend/api/services/aiCoverLetterGenerator.service';
+import { isolateProviders, jsonResponse } from '../../helpers/providers';
+
+const mockServices = { prompts: null };
+
+jest.mock('../../../src/backend/api/services/promptRegistry.service', () => {
+  const actual = jest.requireActual('../../../src/backend/api/services/promptRegistry.service');
+  return { ...actual, getPromptRegistry: () => mockServices.prompts };
+});
+
+const greeting = definePrompt({
+  name: 'test.greeting',
+  variables: {
+    name: { type: 'string' },
+    skills: { type: 'string[]' },
+    years: { type: 'number', optional: true },
+  },
+  versions: [
+    {
+      version: 1,
+      system: 'You write greetings.',
+      user: 'Greet {{name}}.{{#if years}} They have {{years}} years of experience.{{/if}}\n\nSkills: {{skills}}',
+      constraints: ['Mention {{name}} once'],
+      temperature: 0.3,
+    },
+    { version: 2, user: 'Say hello to {{name}}, who knows:\n{{skills|lines}}' },
+  ],
+});
+
+const usage = (cost) => ({ inputTokens: 10, outputTokens: 5, totalTokens: 15, cost });
+
+describe('PromptRegistry', () => {
+  let db;
+  let random;
+  let registry;
+
+  beforeEach(() => {
+    db = new DatabaseService(IN_MEMORY);
+    random = jest.fn(() => 0.5);
+    registry = new PromptRegistry(db, random);
+    registry.register(greeting);
+  });
+
+  afterEach(() => db.close());
+
+  it('should render the latest version with typed variables', async () => {
+    const rendered = await registry.render(greeting, { name: 'Ada', skills: ['Go', 'SQL'] });
+
+    expect(rendered).toEqual({
+      name: 'test.greeting',
+      version: 2,
+      system: '',
+      user: 'Say hello to Ada, who knows:\nGo\nSQL',
+      constraints: [],
+      temperature: undefined,
+      maxTokens: undefined,
+    });
+
+    const pinned = await registry.render(
+      'test.greeting',
+      { name: 'Ada', skills: ['Go'], years: 8 },
+      { version: 1 }
+    );
+    expect(pinned).toMatchObject({
+      version: 1,
+      system: 'You write greetings.',
+      user: 'Greet Ada. They have 8 years of experience.\n\nSkills: Go',
+      constraints: ['Mention Ada once'],
+      temperature: 0.3,
+    });
+  });
+
+  it('should drop conditional blocks for missing variables', () => {
+    expect(renderTemplate('A\n\n{{#if extra}}B: {{extra}}\n\n{{/if}}C', {})).toBe('A\n\nC');
+    expect(renderTemplate('{{#if list}}has{{/if}}', { list: [] })).toBe('');
+  });
+
+  it('should reject missing, mistyped and unknown variables', async () => {
+    await expect(registry.render(greeting, { skills: 'Go' })).rejects.toThrow(
+      'Invalid variables for prompt test.greeting: name is required; skills must be string[]'
+    );
+    await expect(
+      registry.render(greeting, { name: 'Ada', skills: [], tone: 'warm' })
+    ).rejects.toThrow('tone is not a variable of this prompt');
+    await expect(
+      registry.render(greeting, { name: 'Ada', skills: [] }, { version: 9 })
+    ).rejects.toThrow('Unknown version of prompt test.greeting: 9');
+    await expect(registry.render('test.missing', {})).rejects.toThrow(
+      'Unknown prompt: test.missing'
+    );
+  });
+
+  it('should validate definitions and keep published versions unchanged', () => {
+    expect(() =>
+      registry.register(
+        definePrompt({
+          name: 'test.bad',
+          variables: {},
+          versions: [{ version: 1, user: '{{who}}' }],
+        })
+      )
+    ).toThrow('Prompt test.bad v1 uses undeclared variables: who');
+
+    // Registering the same definition again is a no-op; new versions are merged in
+    registry.register(greeting);
+    registry.register({ ...greeting, versions: [{ version: 3, user: 'Hi {{name}}' }] });
+    expect(registry.get('test.greeting').versions.map((v) => v.version)).toEqual([1, 2, 3]);
+
+    expect(() =>
+      registry.register({ ...greeting, versions: [{ version: 1, user: 'Changed {{name}}' }] })
+    ).toThrow('Prompt test.greeting v1 is already registered');
+  });
+
+  it('should split traffic by experiment weights and keep subjects on one version', async () => {
+    const vars = { name: 'Ada', skills: [] };
+    await registry.setExperiment('test.greeting', { 1: 1, 2: 3 });
+
+    random.mockReturnValueOnce(0.1).mockReturnValueOnce(0.9);
+    expect((await registry.render(greeting, vars)).version).toBe(1);
+    expect((await registry.render(greeting, vars)).version).toBe(2);
+
+    const versions = new Set();
+    for (let i = 0; i < 5; i++) {
+      versions.add((await registry.render(greeting, vars, { subject: 'user-42' })).version);
+    }
+    expect(versions.size).toBe(1);
+    expect(random).toHaveBeenCalledTimes(2);
+
+    // Pinning wins over the experiment; ending it serves the latest again
+    expect((await registry.render(greeting, vars, { version: 1 })).version).toBe(1);
+    await registry.setExperiment('test.greeting', null);
+    random.mockReturnValue(0);
+    expect((await registry.render(greeting, vars)).version).toBe(2);
+
+    await expect(registry.setExperiment('test.greeting', { 7: 1 })).rejects.toThrow(
+      'Invalid experiment for prompt test.greeting'
+    );
+    await expect(registry.setExperiment('test.greeting', { 1: 0 })).rejects.toThrow(
+      'Invalid experiment'
+    );
+  });
+
+  it('should record runs and outcomes per version', async () => {
+    const v1 = await registry.render(greeting, { name: 'Ada', skills: [] }, { version: 1 });
+    const v2 = await registry.render(greeting, { name: 'Ada', skills: [] });
+
+    const first = await registry.recordRun(v1, { success: true, latencyMs: 100, cost: 0.02 });
+    await registry.recordRun(v1, { success: false, latencyMs: 300, userId: 'u1' });
+    const third = await registry.recordRun(v2, { success: true, latencyMs: 50, cost: 0.01 });
+
+    expect(await registry.recordOutcome(first, 1)).toBe(true);
+    expect(await registry.recordOutcome(third, 0.5)).toBe(true);
+    expect(await registry.recordOutcome('prun_missing', 1)).toBe(false);
+    await expect(registry.recordOutcome(first, NaN)).rejects.toThrow('Invalid outcome score');
+
+    expect(await registry.getMetrics('test.greeting')).toEqual([
+      {
+        version: 1,
+        runs: 2,
+        successRate: 0.5,
+        avgLatencyMs: 200,
+        avgCost: 0.01,
+        scored: 1,
+        avgScore: 1,
+      },
+      {
+        version: 2,
+        runs: 1,
+        successRate: 1,
+        avgLatencyMs: 50,
+        avgCost: 0.01,
+        scored: 1,
+        avgScore: 0.5,
+      },
+    ]);
+  });
+
+  it('should track calls, recording failures before rethrowing', async () => {
+    const prompt = await registry.render(greeting, { name: 'Ada', skills: [] });
+
+    const { response, runId } = await registry.track(prompt, async () => ({ usage: usage(0.03) }), {
+      userId: 'u1',
+      succeeded: () => false,
+    });
+    expect(response.usage.cost).toBe(0.03);
+    expect(runId).toMatch(/^prun_/);
+
+    await expect(
+      registry.track(prompt, async () => {
+        throw new Error('provider down');
+      })
+    ).rejects.toThrow('provider down');
+
+    const rows = await db.query(
+      'SELECT user_id, success, cost FROM prompt_runs ORDER BY created_at'
+    );
+    expect(rows).toEqual([
+      { user_id: 'u1', success: 0, cost: 0.03 },
+      { user_id: null, success: 0, cost: 0 },
+    ]);
+  });
+});
+
+describe('Prompt versions in generation', () => {
+  let db;
+  let prompts;
+  let llm;
+  let app;
+
+  const coverLetter = {
+    introduction: 'I am excited to apply.',
+    bodyParagraphs: ['I shipped things.'],
+    closing: 'Thank you.',
+    callToAction: 'Best regards, Ada',
+  };
+
+  const generationRequest = {
+    resume: 'Senior engineer with TypeScript experience',
+    jobDescription: 'Senior Engineer\nWe need TypeScript.',
+    userProfile: { name: 'Ada', currentPosition: 'Staff Engineer', yearsExperience: 8 },
+    companyInfo: { name: 'Acme', website: 'https://acme.test', industry: 'Fintech' },
+    userId: 'u1',
+  };
+
+  isolateProviders({ OPENAI_API_KEY: 'sk-test' });
+
+  beforeEach(() => {
+    global.fetch = jest.fn(async (url, init) => {
+      const body = JSON.parse(init.body);
+      return jsonResponse({
+        choices: [
+          {
+            message: { content: body.response_format ? JSON.stringify(coverLetter) : 'Section' },
+            finish_reason: 'stop',
+          },
+        ],
+        usage: { prompt_tokens: 100, completion_tokens: 50 },
+      });
+    });
+
+    db = new DatabaseService(IN_MEMORY);
+    prompts = new PromptRegistry(db);
+    mockServices.prompts = prompts;
+    llm = new LLMAbstractionLayer();
+
+    app = express();
+    app.use(express.json());
+    app.use((req, res, next) => {
+      req.apiKey = { id: 'key_1', scopes: ['admin'] };
+      next();
+    });
+    app.use('/api/v1', aiRouter);
+  });
+
+  afterEach(() => {
+    db.close();
+  });
+
+  const sentMessages = () =>
+    global.fetch.mock.calls.map(([, init]) => JSON.parse(init.body).messages);
+
+  it('should report and record the prompt versions a cover letter used', async () => {
+    const generator = new EnhancedAICoverLetterGenerator(llm, new RAGSystem(llm), prompts);
+    const letter = await generator.generateCoverLetter(generationRequest);
+
+    expect(letter.template.introduction).toBe(coverLetter.introduction);
+    expect(letter.generationMetadata.prompts).toEqual([
+      { name: 'cover_letter.full', version: 1, runId: expect.stringMatching(/^prun_/) },
+    ]);
+    expect(sentMessages()[0][1].content).toContain('COMPANY: Acme');
+
+    const parallel = await generator.generateCoverLetter({ ...generationRequest, parallel: true });
+    expect(parallel.generationMetadata.prompts.map((p) => p.name)).toEqual([
+      'cover_letter.introduction',
+      'cover_letter.body',
+      'cover_letter.closing',
+      'cover_letter.signoff',
+    ]);
+
+    const [metrics] = await prompts.getMetrics('cover_letter.full');
+    expect(metrics).toMatchObject({ version: 1, runs: 1, successRate: 1 });
+    expect(metrics.avgCost).toBeGreaterThan(0);
+  });
+
+  it('should serve a pinned version over the latest', async () => {
+    const { full } = COVER_LETTER_PROMPTS;
+    prompts.register({
+      ...full,
+      versions: [
+        { ...full.versions[0], version: 2, user: 'Write a {{tone}} letter for {{company}}.' },
+      ],
+    });
+    const generator = new EnhancedAICoverLetterGenerator(llm, new RAGSystem(llm), prompts);
+
+    await generator.generateCoverLetter(generationRequest);
+    const pinned = await generator.generateCoverLetter({
+      ...generationRequest,
+      promptVersions: { 'cover_letter.full': 1 },
+    });
+
+    expect(sentMessages()[0][1].content).toContain('Write a professional letter for Acme.');
+    expect(sentMessages()[1][1].content).toContain('Write a complete cover letter');
+    expect(pinned.generationMetadata.prompts[0].version).toBe(1);
+  });
+
+  it('should expose metrics, experiments and outcomes on the routes', async () => {
+    const list = await request(app).get('/api/v1/ai/prompts').expect(200);
+    expect(list.body.prompts.map((p) => p.name)).toEqual(
+      expect.arrayContaining(['cover_letter.full', 'resume.summary'])
+    );
+
+    await request(app)
+      .put('/api/v1/ai/prompts/cover_letter.full/experiment')
+      .send({ weights: { 1: 100 } })
+      .expect(200);
+    const invalid = await request(app)
+      .put('/api/v1/ai/prompts/cover_letter.full/experiment')
+      .send({ weights: { 5: 100 } })
+      .expect(400);
+    expect(invalid.body).toMatchObject({ ok: false, error: 'invalid_experiment' });
+    await request(app)
+      .put('/api/v1/ai/prompts/nope/experiment')
+      .send({ weights: null })
+      .expect(404);
+
+    const generator = new EnhancedAICoverLetterGenerator(llm, new RAGSystem(llm), prompts);
+    const letter = await generator.generateCoverLetter(generationRequest);
+    const { runId } = letter.generationMetadata.prompts[0];
+
+    await request(app)
+      .post(`/api/v1/ai/prompts/runs/${runId}/outcome`)
+      .send({ score: 1 })
+      .expect(200);
+    await request(app)
+      .post('/api/v1/ai/prompts/runs/prun_missing/outcome')
+      .send({ score: 1 })
+      .expect(404);
+    await request(app)
+      .post(`/api/v1/ai/prompts/runs/${runId}/outcome`)
+      .send({ score: 'good' })
+      .expect(400);
+
+    const metrics = await request(app)
+      .get('/api/v1/ai/prompts/cover_letter.full/metrics')
+      .expect(200);
+    expect(metrics.body).toMatchObject({
+      ok: true,
+      experiment: { 1: 100 },
+      metrics: [{ version: 1, runs: 1, scored: 1, avgScore: 1 }],
+    });
+  });
+});
@@ -0,0 +1,417 @@
+/**
+ * Resume Parser Unit Tests
+ *
+ * Parse a corpus of resume layouts, as text and as PDFs and Word documents written the way
+ * common producers write them, and check the fields, their confidence and the upload route
+ */
+
+import express from 'express';
+import fs from 'fs';
+import path from 'path';
+import request from 'supertest';
+import { resumeToDocx } from '../../../src/backend/api/services/docxExport.service';
+import { extractPdfText } from '../../../src/backend/api/services/pdfText.service';
+import {
+  detectResumeFormat,
+  extractDocxText,
+  parseResumeFile,
+  parseResumeText,
+  segmentResume,
+} from '../../../src/backend/api/services/resumeParser.service';
+import {
+  createZip,
+  InflateLimitError,
+  MAX_INFLATED_SIZE,
+} from '../../../src/backend/api/services/zip.service';
+import documentsRouter from '../../../src/backend/api/documents';
+import { buildDocx, buildInflatingPdf, buildPdf } from '../../fixtures/documents';
+
+const LAYOUTS = ['classic', 'modern', 'compact', 'paragraphs'];
+
+const corpus = (name) =>
+  fs.readFileSync(path.join(__dirname, `../../fixtures/resumes/${name}.txt`), 'utf8');
+
+describe('segmentResume', () => {
+  it('should split the header from sections under headings as people write them', () => {
+    const sections = segmentResume(
+      'Ada Lovelace\n\nPROFESSIONAL SUMMARY\nEngineer.\n\nWork History:\n- Built things\n\n' +
+        '## Technical Skills & Tools\nGo\n\nVolunteering\nCode Club\n\nReferences\n'
+    );
+
+    expect(sections.map(({ kind, heading }) => [kind, heading])).toEqual([
+      ['header', undefined],
+      ['summary', 'PROFESSIONAL SUMMARY'],
+      ['experience', 'Work History'],
+      ['skills', '## Technical Skills & Tools'],
+      ['other', 'Volunteering'],
+    ]);
+    expect(sections[2].lines).toEqual(['- Built things', '']);
+  });
+});
+
+describe('parseResumeText', () => {
+  it('should read a layout with capitalised headings and dates aligned right', () => {
+    const { resume, confidence } = parseResumeText(corpus('classic'));
+
+    expect(resume).toEqual({
+      contact: {
+        name: 'Ada Lovelace',
+        email: 'ada@example.com',
+        phone: '+44 20 7946 0000',
+        location: 'London, UK',
+        links: ['linkedin.com/in/ada'],
+      },
+      summary: 'Platform engineer with ten years of experience making deploys boring.',
+      experience: [
+        {
+          title: 'Senior Platform Engineer',
+          company: 'Acme Corp',
+          duration: 'Jan 2021 - Present',
+          achievements: [
+            'Moved 40 services to Kubernetes (zero downtime)',
+            'Cut build times by 50%',
+          ],
+          technologies: ['Kubernetes', 'Terraform', 'Go'],
+        },
+        {
+          title: 'Software Engineer',
+          company: 'Initech',
+          duration: 'Jun 2016 - Dec 2020',
+          achievements: ['Built the billing pipeline in Go', 'Mentored four engineers'],
+        },
+      ],
+      education: [
+        { degree: 'BSc Mathematics', school: 'University of London', year: '2012 - 2015' },
+      ],
+      skills: ['Kubernetes', 'Terraform', 'Go', 'PostgreSQL'],
+      certifications: ['Certified Kubernetes Administrator (CKA)'],
+    });
+    expect(confidence).toMatchObject({
+      '$.contact.name': 0.9,
+      '$.contact.email': 0.99,
+      '$.summary': 0.9,
+      '$.experience[0].company': 0.9,
+      // No company word in "Initech"
+      '$.experience[1].company': 0.7,
+      '$.experience[1].duration': 0.95,
+      '$.education[0].school': 0.9,
+      '$.skills': 0.9,
+    });
+  });
+
+  it('should read titles, companies and dates on lines of their own, grouped skills and projects', () => {
+    const { resume, confidence } = parseResumeText(corpus('modern'));
+
+    expect(resume.contact).toEqual({
+      name: 'GRACE HOPPER',
+      email: 'grace@example.com',
+      phone: '(555) 010-0199',
+      location: 'Arlington, VA',
+      links: ['github.com/ghopper'],
+    });
+    expect(resume.experience).toEqual([
+      {
+        title: 'Staff Software Engineer',
+        company: 'Remington Rand',
+        duration: 'March 2019 – Present',
+        achievements: [
+          'Shipped the first COBOL compiler used by three agencies',
+          'Led a team of six',
+        ],
+      },
+      {
+        title: 'Programmer',
+        company: 'Harvard Computation Lab',
+        duration: '2015 – 2019',
+        achievements: ['Wrote programs for the Mark I'],
+      },
+    ]);
+    expect(resume.education).toEqual([
+      { degree: 'PhD in Mathematics', school: 'Yale University', year: '2010 - 2014', gpa: '4.0' },
+    ]);
+    expect(resume.skills).toEqual(['COBOL', 'Fortran', 'Python', 'Git', 'Docker']);
+    expect(resume.projects).toEqual([
+      {
+        name: 'FLOW-MATIC',
+        description: 'English-like data processing language',
+        technologies: ['COBOL', 'Assembly'],
+        url: 'https://github.com/ghopper/flow-matic',
+      },
+    ]);
+    // "Software" reads as a company word as well as a title
+    expect(confidence['$.experience[0].title']).toBe(0.7);
+    expect(confidence['$.projects[0].url']).toBe(0.95);
+  });
+
+  it('should read "Title at Company" headers, numbered bullets and headings with colons', () => {
+    const { resume } = parseResumeText(corpus('compact'));
+
+    expect(resume.contact).toEqual({
+      name: 'Linus Torvalds',
+      email: 'linus@example.org',
+      phone: '+1 503 555 0142',
+      location: 'Portland, OR',
+    });
+    expect(
+      resume.experience.map(({ title, company, duration }) => [title, company, duration])
+    ).toEqual([
+      ['Principal Engineer', 'Transmeta Corporation', '1997 - 2003'],
+      ['Kernel Developer', 'University of Helsinki', '1991 - 1997'],
+    ]);
+    expect(resume.experience[0].achievements).toHaveLength(2);
+    expect(resume.education).toEqual([
+      { degree: 'M.Sc. Computer Science', school: 'University of Helsinki', year: '1996' },
+    ]);
+    // Spoken languages are a section of their own, not skills
+    expect(resume.skills).toEqual(['C', 'Assembly', 'Git']);
+    expect(resume.summary).toBe('');
+  });
+
+  it('should read paragraphs without bullets and a summary without a heading', () => {
+    const { resume, confidence } = parseResumeText(corpus('paragraphs'));
+
+    expect(resume.summary).toMatch(/^Software engineering pioneer who led/);
+    expect(confidence['$.summary']).toBe(0.5);
+    expect(resume.contact.links).toEqual(['https://mhamilton.dev']);
+    expect(resume.experience).toEqual([
+      {
+        title: 'Director of Software Engineering',
+        company: 'MIT Instrumentation Laboratory',
+        duration: '08/1961 - 12/1972',
+        achievements: [
+          'Led the development of on-board flight software for Apollo. Introduced the term software engineering.',
+        ],
+      },
+      {
+        title: 'Founder and CEO',
+        company: 'Hamilton Technologies, Inc.',
+        duration: '1986 - Present',
+        achievements: ['Built the Universal Systems Language and its toolset.'],
+      },
+    ]);
+    expect(resume.education).toEqual([
+      { degree: 'Bachelor of Arts in Mathematics', school: 'Earlham College', year: '1958' },
+    ]);
+    expect(resume.skills).toContain('Error detection and recovery');
+  });
+
+  it('should join wrapped bullets and give missing required fields zero confidence', () => {
+    const { resume, confidence } = parseResumeText(
+      [
+        'jane@example.com',
+        '',
+        'Experience',
+        'Acme Corp',
+        '• Rebuilt the checkout flow end to end so that customers could pay in',
+        'under a minute on any device',
+      ].join('\n')
+    );
+
+    expect(resume.contact).toEqual({ name: '', email: 'jane@example.com' });
+    expect(confidence['$.contact.name']).toBe(0);
+    expect(resume.experience).toEqual([
+      {
+        title: 'Acme Corp',
+        company: '',
+        duration: '',
+        achievements: [
+          'Rebuilt the checkout flow end to end so that customers could pay in under a minute on any device',
+        ],
+      },
+    ]);
+    expect(confidence).toMatchObject({
+      '$.experience[0].title': 0.5,
+      '$.experience[0].company': 0,
+      '$.experience[0].duration': 0,
+    });
+  });
+});
+
+describe('extractPdfText', () => {
+  it.each(['plain', 'word', 'chrome'])('should recover the lines of %s PDFs', (producer) => {
+    for (const layout of LAYOUTS) {
+      const text = corpus(layout);
+      expect(extractPdfText(buildPdf(text, producer))).toBe(text.trimEnd());
+    }
+  });
+
+  it('should reject files that are not readable PDFs', () => {
+    expect(() => extractPdfText(Buffer.from('hello'))).toThrow('Not a PDF document');
+    const encrypted = buildPdf('Ada')
+      .toString('latin1')
+      .replace('/Root 1 0 R', '/Root 1 0 R /Encrypt 9 0 R');
+    expect(() => extractPdfText(Buffer.from(encrypted, 'latin1'))).toThrow(
+      'Encrypted PDFs are not supported'
+    );
+  });
+});
+
+describe('extractDocxText', () => {
+  it('should read the page header first, list paragraphs as bullets and tabs between columns', () => {
+    const text = extractDocxText(buildDocx(corpus('classic')));
+
+    expect(text.split('\n').slice(0, 3)).toEqual([
+      'Ada Lovelace',
+      'London, UK | ada@example.com | +44 20 7946 0000 | linkedin.com/in/ada',
+      '',
+    ]);
+    expect(text).toContain('Senior Platform Engineer, Acme Corp\tJan 2021 - Present\n• Moved 40');
+  });
+
+  it('should read a two-column layout table one column after the other', () => {
+    const [contact, main] = corpus('modern').split('\n\n', 2);
+    const text = extractDocxText(
+      buildDocx(main, { sidebar: `${contact}\n\nSkills\nCOBOL, Fortran` })
+    );
+
+    expect(text.split('\n').slice(0, 8)).toEqual([
+      'GRACE HOPPER',
+      'Staff Software Engineer',
+      'grace@example.com · (555) 010-0199 · github.com/ghopper · Arlington, VA',
+      '',
+      'Skills',
+      'COBOL, Fortran',
+      '',
+      'Professional Summary',
+    ]);
+  });
+
+  it('should reject zip files without a document', () => {
+    const zip = createZip([{ name: 'notes.txt', data: 'Ada' }]);
+    expect(() => extractDocxText(zip)).toThrow('Not a Word document');
+  });
+});
+
+describe('parseResumeFile', () => {
+  it.each(LAYOUTS)(
+    'should parse the %s layout to the same resume from every file format',
+    (layout) => {
+      const text = corpus(layout);
+      const expected = parseResumeText(text);
+
+      for (const producer of ['plain', 'word', 'chrome']) {
+        const parsed = parseResumeFile(buildPdf(text, producer), 'resume.pdf');
+        expect(parsed.format).toBe('pdf');
+        expect(parsed.resume).toEqual(expected.resume);
+      }
+      const docx = parseResumeFile(buildDocx(text), 'resume.docx');
+      expect(docx.format).toBe('docx');
+      expect(docx.resume).toEqual(expected.resume);
+      expect(docx.confidence).toEqual(expected.confidence);
+    }
+  );
+
+  it('should read back resumes exported as DOCX', () => {
+    const resume = {
+      contact: {
+        name: 'Ada Lovelace',
+        email: 'ada@example.com',
+        phone: '+44 20 7946 0000',
+        links: ['linkedin.com/in/ada'],
+      },
+      summary: 'Platform engineer who makes deploys boring.',
+      experience: [
+        {
+          title: 'Senior Platform Engineer',
+          company: 'Acme & Sons',
+          duration: '2021 - Present',
+          achievements: ['Moved 40 services to Kubernetes', 'Cut build times by 50%'],
+          technologies: ['Kubernetes', 'Terraform'],
+        },
+        {
+          title: 'Software Engineer',
+          company: 'Initech',
+          duration: '2016 - 2020',
+          achievements: ['Built the billing pipeline in Go'],
+        },
+      ],
+      education: [{ degree: 'BSc Mathematics', school: 'University of London', year: '2015' }],
+      skills: ['Kubernetes', 'Terraform', 'Go'],
+      projects: [
+        {
+          name: 'kube-lint',
+          description: 'Linter for Helm charts',
+          technologies: ['Go'],
+          url: 'https://github.com/ada/kube-lint',
+        },
+      ],
+      certifications: ['CKA'],
+    };
+
+    expect(parseResumeFile(resumeToDocx(resume), 'ada.docx').resume).toEqual(resume);
+  });
+
+  it('should skip images and refuse files that inflate past the limit', () => {
+    const text = corpus('classic');
+    const expected = parseResumeText(text).resume;
+    const tooBig = MAX_INFLATED_SIZE + 1024;
+
+    expect(parseResumeFile(buildInflatingPdf(text, { image: tooBig }), 'cv.pdf').resume).toEqual(
+      expected
+    );
+    expect(parseResumeFile(buildDocx(text, { media: tooBig }), 'cv.docx').resume).toEqual(expected);
+
+    expect(() => parseResumeFile(buildInflatingPdf(text, { padding: tooBig }), 'cv.pdf')).toThrow(
+      InflateLimitError
+    );
+    const document = `<w:document>${' '.repeat(tooBig)}</w:document>`;
+    expect(() =>
+      parseResumeFile(createZip([{ name: 'word/document.xml', data: document }]), 'cv.docx')
+    ).toThrow(InflateLimitError);
+  });
+
+  it('should detect formats from content and refuse what it cannot read', () => {
+    expect(detectResumeFormat(buildPdf('Ada'), 'upload.bin')).toBe('pdf');
+    expect(detectResumeFormat(buildDocx('Ada\n\nSkills\nGo'))).toBe('docx');
+    expect(detectResumeFormat(Buffer.from('Ada Lovelace\n'))).toBe('text');
+    const png = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a, 0x00, 0xff]);
+    expect(detectResumeFormat(png)).toBeUndefined();
+    expect(() => parseResumeFile(png, 'photo.png')).toThrow('Unsupported resume file: photo.png');
+  });
+});
+
+describe('POST /documents/resume/parse', () => {
+  let app;
+
+  beforeEach(() => {
+    app = express();
+    app.use(express.json({ limit: '10mb' }));
+    app.use((req, res, next) => {
+      req.apiKey = { id: 'test', scopes: ['documents:read'] };
+      next();
+    });
+    app.use('/api/v1', documentsRouter);
+  });
+
+  it('should parse an uploaded file', async () => {
+    const res = await request(app)
+      .post('/api/v1/documents/resume/parse')
+      .send({
+        fileName: 'ada.pdf',
+        content: buildPdf(corpus('classic'), 'word').toString('base64'),
+      })
+      .expect(200);
+
+    expect(res.body).toMatchObject({ ok: true, format: 'pdf' });
+    expect(res.body.resume.experience).toHaveLength(2);
+    expect(res.body.confidence['$.contact.email']).toBe(0.99);
+  });
+
+  it('should reject missing, unsupported and unreadable files', async () => {
+    const parse = (body) => request(app).post('/api/v1/documents/resume/parse').send(body);
+    const png = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x00, 0xff]).toString('base64');
+    // A PDF header and no pages
+    const broken = Buffer.from('%PDF-1.7\nnothing here').toString('base64');
+
+    expect((await parse({})).body).toEqual({ ok: false, error: 'missing_content' });
+    expect((await parse({ content: png })).body).toEqual({ ok: false, error: 'unsupported_file' });
+    const res = await parse({ fileName: 'cv.pdf', content: broken });
+    expect(res.status).toBe(422);
+    expect(res.body).toEqual({ ok: false, error: 'no_text' });
+
+    const bomb = buildInflatingPdf('Ada Lovelace', { padding: MAX_INFLATED_SIZE + 1 });
+    const tooLarge = await parse({ fileName: 'cv.pdf', content: bomb.toString('base64') });
+    expect(tooLarge.status).toBe(413);
+    expect(tooLarge.body.error).toBe('file_too_large');
+  });
+});
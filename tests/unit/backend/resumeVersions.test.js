@@ -0,0 +1,386 @@
+/**
+ * Resume Version Unit Tests
+ *
+ * Test the version graph, structural diffs, restore and the /resumes routes
+ */
+
+import express from 'express';
+import request from 'supertest';
+import resumesRouter from '../../../src/backend/api/resumes';
+import { DatabaseService, IN_MEMORY } from '../../../src/backend/api/services/database.service';
+import { EventLogService } from '../../../src/backend/api/services/eventLog.service';
+import { ApplicationRepository } from '../../../src/backend/api/services/applicationRepository.service';
+import {
+  diffResumes,
+  ResumeVersionNotFoundError,
+  ResumeVersionRepository,
+} from '../../../src/backend/api/services/resumeVersions.service';
+
+const mockRepositories = { versions: null, applications: null };
+
+jest.mock('../../../src/backend/api/services/resumeVersions.service', () => {
+  const actual = jest.requireActual('../../../src/backend/api/services/resumeVersions.service');
+  return { ...actual, getResumeVersionRepository: () => mockRepositories.versions };
+});
+
+jest.mock('../../../src/backend/api/services/applicationRepository.service', () => {
+  const actual = jest.requireActual(
+    '../../../src/backend/api/services/applicationRepository.service'
+  );
+  return { ...actual, getApplicationRepository: () => mockRepositories.applications };
+});
+
+const base = {
+  contact: { name: 'Ada Lovelace', email: 'ada@example.com' },
+  summary: 'Engineer who likes hard problems',
+  skills: ['TypeScript', 'Node.js', 'SQL'],
+  experience: [
+    {
+      title: 'Engineer',
+      company: 'Acme',
+      duration: '2020 - Present',
+      achievements: [
+        'Built the billing pipeline',
+        'Cut deploy time by 40%',
+        'Mentored four engineers',
+      ],
+    },
+  ],
+  education: [{ degree: 'BSc Mathematics', school: 'University of London', year: '2015' }],
+};
+
+const tailored = {
+  ...base,
+  summary: 'Backend engineer focused on payments',
+  skills: ['Node.js', 'TypeScript', 'SQL'],
+  experience: [
+    {
+      ...base.experience[0],
+      achievements: [
+        'Built the billing pipeline in TypeScript',
+        'Cut deploy time by 40%',
+        'Mentored four engineers',
+        'Led the Postgres migration',
+      ],
+    },
+  ],
+};
+
+const job = { id: 'job-1', title: 'Backend Engineer', company: 'Globex' };
+
+describe('diffResumes', () => {
+  it('should report nothing for the same content', () => {
+    expect(diffResumes(base, JSON.parse(JSON.stringify(base)))).toEqual({ sections: [] });
+  });
+
+  it('should report reworded, added and moved bullets by section', () => {
+    expect(diffResumes(base, tailored).sections).toEqual([
+      {
+        section: 'summary',
+        changes: [
+          {
+            path: '$.summary',
+            change: 'changed',
+            before: base.summary,
+            after: tailored.summary,
+          },
+        ],
+      },
+      {
+        section: 'experience',
+        changes: [
+          {
+            path: '$.experience[0].achievements[0]',
+            change: 'changed',
+            before: 'Built the billing pipeline',
+            after: 'Built the billing pipeline in TypeScript',
+          },
+          {
+            path: '$.experience[0].achievements[3]',
+            change: 'added',
+            after: 'Led the Postgres migration',
+          },
+        ],
+      },
+      {
+        section: 'skills',
+        changes: [{ path: '$.skills[1]', change: 'moved', from: 0, after: 'TypeScript' }],
+      },
+    ]);
+  });
+
+  it('should match entries by company and title, and report field changes', () => {
+    const globex = {
+      title: 'Staff Engineer',
+      company: 'Globex',
+      duration: '2024 - Present',
+      achievements: ['Scaled the ledger'],
+    };
+    const after = {
+      ...base,
+      experience: [globex, { ...base.experience[0], title: 'Senior Engineer' }],
+      education: [],
+    };
+
+    const { sections } = diffResumes(base, after);
+
+    expect(sections.map((s) => s.section)).toEqual(['experience', 'education']);
+    expect(sections[0].changes).toEqual([
+      { path: '$.experience[0]', change: 'added', after: globex },
+      {
+        path: '$.experience[1].title',
+        change: 'changed',
+        before: 'Engineer',
+        after: 'Senior Engineer',
+      },
+    ]);
+    expect(sections[1].changes).toEqual([
+      { path: '$.education[0]', change: 'removed', before: base.education[0] },
+    ]);
+  });
+
+  it('should point removals into the older version', () => {
+    const after = {
+      ...base,
+      contact: { ...base.contact, phone: '555 010 0199' },
+      experience: [{ ...base.experience[0], achievements: ['Cut deploy time by 40%'] }],
+    };
+
+    const changes = diffResumes(base, after).sections.flatMap((s) => s.changes);
+
+    expect(changes).toEqual([
+      { path: '$.contact.phone', change: 'added', after: '555 010 0199' },
+      {
+        path: '$.experience[0].achievements[0]',
+        change: 'removed',
+        before: 'Built the billing pipeline',
+      },
+      {
+        path: '$.experience[0].achievements[2]',
+        change: 'removed',
+        before: 'Mentored four engineers',
+      },
+    ]);
+  });
+});
+
+describe('ResumeVersionRepository', () => {
+  let db;
+  let events;
+  let repository;
+
+  beforeEach(() => {
+    db = new DatabaseService(IN_MEMORY);
+    events = new EventLogService(db, () => {});
+    repository = new ResumeVersionRepository(db, events);
+  });
+
+  afterEach(() => db.close());
+
+  it('should keep the original as the parent of the first tailored version', async () => {
+    const version = await repository.create({
+      resumeId: 'resume-1',
+      job,
+      generator: 'aiResumeService.tailorResume',
+      settings: { tone: 'professional' },
+      resume: tailored,
+      original: base,
+    });
+
+    const history = await repository.history('resume-1');
+    expect(history.map((v) => v.generator)).toEqual(['original', 'aiResumeService.tailorResume']);
+    expect(history[0].resume).toEqual(base);
+    expect(version).toMatchObject({
+      resumeId: 'resume-1',
+      parentId: history[0].id,
+      job,
+      settings: { tone: 'professional' },
+      resume: tailored,
+    });
+    expect(await repository.findById(version.id)).toEqual(version);
+    expect(await repository.head('resume-1')).toEqual(version);
+
+    const page = await events.list({ types: ['resume.version_created'] });
+    expect(page.events.map((e) => e.data.versionId)).toEqual([history[0].id, version.id]);
+    expect(page.events[1].data).toMatchObject({ jobId: 'job-1', parentId: history[0].id });
+  });
+
+  it('should follow the latest version unless a parent is given', async () => {
+    const first = await repository.create({
+      resumeId: 'resume-1',
+      generator: 'upload',
+      resume: base,
+    });
+    const second = await repository.create({
+      resumeId: 'resume-1',
+      generator: 'editor',
+      resume: tailored,
+      original: { ...base, summary: 'ignored once there is history' },
+    });
+    const branch = await repository.create({
+      parentId: first.id,
+      job,
+      generator: 'atsOptimizerService.tailorResume',
+      resume: { ...base, skills: ['SQL'] },
+    });
+
+    expect(first.parentId).toBeUndefined();
+    expect(second.parentId).toBe(first.id);
+    expect(branch).toMatchObject({ resumeId: 'resume-1', parentId: first.id });
+    expect(await repository.history('resume-1')).toHaveLength(3);
+    expect((await repository.lineage(branch.id)).map((v) => v.id)).toEqual([first.id, branch.id]);
+    expect((await repository.forJob('job-1')).map((v) => v.id)).toEqual([branch.id]);
+  });
+
+  it('should reject an unknown parent', async () => {
+    await expect(
+      repository.create({ parentId: 'ver_missing', generator: 'editor', resume: base })
+    ).rejects.toBeInstanceOf(ResumeVersionNotFoundError);
+    await expect(repository.restore('ver_missing')).rejects.toBeInstanceOf(
+      ResumeVersionNotFoundError
+    );
+  });
+
+  it('should restore an old version as a new head without rewriting history', async () => {
+    const tailoredVersion = await repository.create({
+      resumeId: 'resume-1',
+      job,
+      generator: 'aiResumeService.tailorResume',
+      resume: tailored,
+      original: base,
+    });
+    const [original] = await repository.history('resume-1');
+
+    const restored = await repository.restore(original.id, 'Back to the general resume');
+
+    expect(restored).toMatchObject({
+      resumeId: 'resume-1',
+      parentId: tailoredVersion.id,
+      restoredFrom: original.id,
+      generator: 'restore',
+      note: 'Back to the general resume',
+      resume: base,
+    });
+    expect(await repository.findById(tailoredVersion.id)).toEqual(tailoredVersion);
+    expect(await repository.head('resume-1')).toEqual(restored);
+    expect(await repository.diff(original.id, restored.id)).toEqual({ sections: [] });
+    expect((await repository.diff(tailoredVersion.id, restored.id)).sections).toHaveLength(3);
+  });
+});
+
+describe('Resumes API', () => {
+  let db;
+  let app;
+
+  beforeEach(() => {
+    db = new DatabaseService(IN_MEMORY);
+    mockRepositories.versions = new ResumeVersionRepository(db);
+    mockRepositories.applications = new ApplicationRepository(db);
+    app = express();
+    app.use(express.json());
+    app.use((req, res, next) => {
+      req.apiKey = { id: 'test', scopes: ['documents:read', 'documents:write'] };
+      next();
+    });
+    app.use('/api/v1', resumesRouter);
+  });
+
+  afterEach(() => db.close());
+
+  it('should record, list, diff and restore versions', async () => {
+    const created = await request(app)
+      .post('/api/v1/resumes/versions')
+      .send({
+        resumeId: 'resume-1',
+        job,
+        generator: 'aiResumeService.tailorResume',
+        resume: tailored,
+        original: base,
+      })
+      .expect(201);
+    const { version } = created.body;
+
+    const history = await request(app).get('/api/v1/resumes/resume-1/versions').expect(200);
+    expect(history.body.versions.map((v) => v.id)).toEqual([version.parentId, version.id]);
+
+    const diff = await request(app).get(`/api/v1/resumes/versions/${version.id}/diff`).expect(200);
+    expect(diff.body).toMatchObject({ ok: true, from: version.parentId, to: version.id });
+    expect(diff.body.sections.map((s) => s.section)).toEqual(['summary', 'experience', 'skills']);
+
+    const forJob = await request(app).get('/api/v1/resumes/versions?jobId=job-1').expect(200);
+    expect(forJob.body.versions.map((v) => v.id)).toEqual([version.id]);
+
+    const restored = await request(app)
+      .post(`/api/v1/resumes/versions/${version.parentId}/restore`)
+      .send({})
+      .expect(201);
+    expect(restored.body.version).toMatchObject({
+      parentId: version.id,
+      restoredFrom: version.parentId,
+    });
+  });
+
+  it('should show the applications sent with a version', async () => {
+    const { body } = await request(app)
+      .post('/api/v1/resumes/versions')
+      .send({ resumeId: 'resume-1', job, generator: 'editor', resume: tailored, original: base })
+      .expect(201);
+    await mockRepositories.applications.create({
+      platform: 'indeed',
+      jobUrl: 'https://www.indeed.com/viewjob?jk=1',
+      jobId: 'job-1',
+      resumeId: body.version.id,
+    });
+    await mockRepositories.applications.create({ platform: 'indeed', jobUrl: 'u2' });
+
+    const fetched = await request(app)
+      .get(`/api/v1/resumes/versions/${body.version.id}`)
+      .expect(200);
+
+    expect(fetched.body.lineage).toEqual([body.version.parentId, body.version.id]);
+    expect(fetched.body.applications).toHaveLength(1);
+    expect(fetched.body.applications[0]).toMatchObject({ jobId: 'job-1' });
+  });
+
+  it('should validate input and report unknown versions', async () => {
+    await request(app)
+      .post('/api/v1/resumes/versions')
+      .send({ resumeId: 'r', generator: 'editor' })
+      .expect(400, { ok: false, error: 'missing_resume' });
+
+    const invalid = await request(app)
+      .post('/api/v1/resumes/versions')
+      .send({ resumeId: 'r', generator: 'editor', resume: { ...base, skills: 'TypeScript' } })
+      .expect(400);
+    expect(invalid.body.error).toBe('invalid_resume');
+
+    await request(app)
+      .post('/api/v1/resumes/versions')
+      .send({ generator: 'editor', resume: base })
+      .expect(400, { ok: false, error: 'missing_resume_id' });
+    await request(app)
+      .post('/api/v1/resumes/versions')
+      .send({ resumeId: 'r', generator: 'editor', resume: base, job: { title: 'No id' } })
+      .expect(400, { ok: false, error: 'invalid_job' });
+
+    const missing = await request(app)
+      .post('/api/v1/resumes/versions')
+      .send({ parentId: 'ver_missing', generator: 'editor', resume: base })
+      .expect(404);
+    expect(missing.body.error).toBe('version_not_found');
+
+    await request(app).get('/api/v1/resumes/versions/ver_missing').expect(404);
+    await request(app).post('/api/v1/resumes/versions/ver_missing/restore').expect(404);
+    await request(app)
+      .get('/api/v1/resumes/unknown/versions')
+      .expect(404, { ok: false, error: 'resume_not_found' });
+
+    const { body } = await request(app)
+      .post('/api/v1/resumes/versions')
+      .send({ resumeId: 'r', generator: 'upload', resume: base })
+      .expect(201);
+    await request(app)
+      .get(`/api/v1/resumes/versions/${body.version.id}/diff`)
+      .expect(400, { ok: false, error: 'missing_against' });
+  });
+});
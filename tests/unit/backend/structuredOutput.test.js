@@ -0,0 +1,79 @@
+/**
+ * Structured Output Unit Tests
+ *
+ * Test JSON extraction from model replies and JSON Schema validation
+ */
+
+import {
+  parseJsonReply,
+  validateJsonSchema,
+} from '../../../src/backend/api/services/structuredOutput.service';
+
+describe('parseJsonReply', () => {
+  it('should parse bare, fenced and embedded JSON', () => {
+    expect(parseJsonReply('{"a":1}')).toEqual({ ok: true, value: { a: 1 } });
+    expect(parseJsonReply('```json\n[1, 2]\n```')).toEqual({ ok: true, value: [1, 2] });
+    expect(parseJsonReply('Here you go: {"a": {"b": 2}} Hope it helps!')).toEqual({
+      ok: true,
+      value: { a: { b: 2 } },
+    });
+  });
+
+  it('should report replies without JSON', () => {
+    expect(parseJsonReply('No JSON here')).toEqual({ ok: false, error: 'no JSON found in reply' });
+    expect(parseJsonReply('{"a": }').ok).toBe(false);
+  });
+});
+
+describe('validateJsonSchema', () => {
+  const schema = {
+    type: 'object',
+    properties: {
+      name: { type: 'string', minLength: 1 },
+      level: { type: 'string', enum: ['junior', 'senior'] },
+      years: { type: 'integer', minimum: 0 },
+      since: { type: 'string', pattern: '^\\d{4}$' },
+      skills: { type: 'array', items: { type: 'string' }, maxItems: 2 },
+    },
+    required: ['name', 'skills'],
+    additionalProperties: false,
+  };
+
+  it('should accept valid values', () => {
+    expect(
+      validateJsonSchema(
+        { name: 'Ada', level: 'senior', years: 9, since: '2015', skills: ['math'] },
+        schema
+      )
+    ).toEqual([]);
+  });
+
+  it('should report every violation with its path', () => {
+    expect(
+      validateJsonSchema(
+        {
+          name: '',
+          level: 'principal',
+          years: 2.5,
+          since: 'last year',
+          skills: ['a', 3, 'c'],
+          extra: true,
+        },
+        schema
+      )
+    ).toEqual([
+      '$.name: must be at least 1 characters',
+      '$.level: must be one of "junior", "senior"',
+      '$.years: expected integer, got number',
+      '$.since: must match ^\\d{4}$',
+      '$.skills: must have at most 2 items',
+      '$.skills[1]: expected string, got number',
+      '$.extra: is not allowed',
+    ]);
+    expect(validateJsonSchema({}, schema)).toEqual([
+      '$.name: is required',
+      '$.skills: is required',
+    ]);
+    expect(validateJsonSchema([], schema)).toEqual(['$: expected object, got array']);
+  });
+});
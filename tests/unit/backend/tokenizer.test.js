@@ -0,0 +1,223 @@
+/**
+ * Tokenizer Unit Tests
+ *
+ * Test per-family token counting and truncation, and context-window-aware
+ * trimming of context sections in the LLM abstraction layer
+ */
+
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import {
+  countMessageTokens,
+  countTokens,
+  registerTokenizer,
+  tokenizerFamilyFor,
+  truncateToTokens,
+} from '../../../src/backend/api/services/tokenizer.service';
+import { LLMAbstractionLayer } from '../../../src/backend/api/services/llm-abstraction.service';
+import { isolateProviders, jsonResponse } from '../../helpers/providers';
+
+const SENTENCE = 'The quick brown fox jumps over the lazy dog.';
+
+describe('tokenizer', () => {
+  it('should pick the tokenizer family from the model id', () => {
+    expect(tokenizerFamilyFor('gpt-4o-mini')).toBe('o200k');
+    expect(tokenizerFamilyFor('gpt-3.5-turbo')).toBe('cl100k');
+    expect(tokenizerFamilyFor('claude-3-haiku-20240307')).toBe('claude');
+    expect(tokenizerFamilyFor('mistral:7b')).toBe('sentencepiece');
+    expect(tokenizerFamilyFor('llama3.1:8b')).toBe('cl100k');
+    expect(tokenizerFamilyFor('gemini-1.5-pro')).toBe('gemini');
+    expect(tokenizerFamilyFor('my-local-model')).toBe('cl100k');
+  });
+
+  it('should count common English words as single tokens', () => {
+    expect(countTokens(SENTENCE, 'gpt-4o')).toBe(10);
+    expect(countTokens(SENTENCE, 'gpt-3.5-turbo')).toBe(10);
+    expect(countTokens('', 'gpt-4o')).toBe(0);
+  });
+
+  it('should split numbers the way each family does', () => {
+    expect(countTokens('1234567', 'gpt-4o')).toBe(3);
+    expect(countTokens('1234567', 'mistral:7b')).toBe(7);
+  });
+
+  it('should count non-Latin text per character', () => {
+    expect(countTokens('履歴書を作成する', 'gpt-3.5-turbo')).toBe(8);
+    expect(countTokens('履歴書を作成する', 'gpt-4o')).toBeLessThan(8);
+  });
+
+  it('should add chat formatting overhead per message', () => {
+    const messages = [
+      { role: 'system', content: 'Be brief.' },
+      { role: 'user', content: SENTENCE },
+    ];
+    expect(countMessageTokens(messages, 'gpt-4o')).toBe(
+      3 + 3 * 2 + countTokens('Be brief.', 'gpt-4o') + 10
+    );
+  });
+
+  it('should use a registered tokenizer for its family', () => {
+    registerTokenizer('claude', (text) => text.length);
+    try {
+      expect(countTokens('abc', 'claude-3-haiku-20240307')).toBe(3);
+      expect(countTokens(SENTENCE, 'gpt-4o')).toBe(10);
+    } finally {
+      registerTokenizer('claude', null);
+    }
+    expect(countTokens('abc', 'claude-3-haiku-20240307')).toBe(1);
+  });
+
+  it('should truncate to a token budget on a word boundary', () => {
+    const text = Array(50).fill(SENTENCE).join(' ');
+    const cut = truncateToTokens(text, 25, 'gpt-4o');
+
+    expect(countTokens(cut, 'gpt-4o')).toBeLessThanOrEqual(25);
+    expect(countTokens(cut, 'gpt-4o')).toBeGreaterThan(20);
+    expect(text.startsWith(cut)).toBe(true);
+    expect(text[cut.length]).toBe(' ');
+    expect(truncateToTokens(SENTENCE, 100, 'gpt-4o')).toBe(SENTENCE);
+  });
+});
+
+describe('LLMAbstractionLayer context windows', () => {
+  let dir;
+  let llm;
+
+  const resume = Array(200).fill('Led a team of engineers shipping payment features.').join(' ');
+  const jobDescription = Array(200).fill('We need strong TypeScript and AWS skills.').join(' ');
+
+  const sentPrompt = (call) => JSON.parse(global.fetch.mock.calls[call][1].body).messages;
+
+  isolateProviders();
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'llm-context-'));
+    const providersFile = path.join(dir, 'providers.json');
+    fs.writeFileSync(
+      providersFile,
+      JSON.stringify({
+        providers: [
+          {
+            id: 'small',
+            type: 'openai-compatible',
+            baseUrl: 'http://small:8000/v1',
+            models: [{ id: 'gpt-3.5-turbo', contextWindow: 1000 }],
+          },
+          {
+            id: 'large',
+            type: 'openai-compatible',
+            baseUrl: 'http://large:8000/v1',
+            models: [{ id: 'gpt-3.5-turbo-16k', contextWindow: 16000 }],
+          },
+        ],
+      })
+    );
+
+    global.fetch = jest.fn(async (url, init) => {
+      const { messages } = JSON.parse(init.body);
+      const summarizing = messages[0].content.startsWith('Summarize');
+      return jsonResponse({
+        choices: [
+          {
+            message: { content: summarizing ? 'Wants TypeScript and AWS.' : 'A tailored letter' },
+            finish_reason: 'stop',
+          },
+        ],
+      });
+    });
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+
+    llm = new LLMAbstractionLayer(undefined, { providersFile });
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('should render context sections ahead of the user prompt when they fit', async () => {
+    const response = await llm.generate(
+      {
+        messages: [{ role: 'user', content: 'Write a cover letter.' }],
+        context: [{ name: 'Resume', content: 'Ten years of TypeScript.' }],
+      },
+      'large'
+    );
+
+    expect(sentPrompt(0)).toEqual([
+      { role: 'user', content: 'RESUME:\nTen years of TypeScript.\n\nWrite a cover letter.' },
+    ]);
+    expect(response.metadata.contextTrimmed).toBeUndefined();
+  });
+
+  it('should truncate the lowest-priority section to fit the window', async () => {
+    const response = await llm.generate(
+      {
+        messages: [{ role: 'user', content: 'Write a cover letter.' }],
+        maxTokens: 200,
+        context: [
+          { name: 'Resume', content: resume, priority: 2 },
+          { name: 'Job description', content: jobDescription, priority: 1 },
+        ],
+      },
+      'small'
+    );
+
+    const [message] = sentPrompt(0);
+    expect(countMessageTokens([message], 'gpt-3.5-turbo')).toBeLessThanOrEqual(800);
+    expect(message.content).toMatch(/^RESUME:\nLed a team/);
+    expect(message.content).toContain('[truncated]\n\nWrite a cover letter.');
+    expect(message.content).not.toContain('JOB DESCRIPTION');
+    expect(response.metadata.contextTrimmed).toEqual([
+      expect.objectContaining({ section: 'Job description', action: 'dropped' }),
+      expect.objectContaining({ section: 'Resume', action: 'truncated' }),
+    ]);
+  });
+
+  it('should summarize sections that ask for it', async () => {
+    const response = await llm.generate(
+      {
+        messages: [{ role: 'user', content: 'Write a cover letter.' }],
+        maxTokens: 200,
+        context: [
+          { name: 'Resume', content: resume.slice(0, 1500), priority: 2 },
+          { name: 'Job description', content: jobDescription, overflow: 'summarize' },
+        ],
+      },
+      'small'
+    );
+
+    expect(global.fetch).toHaveBeenCalledTimes(2);
+    expect(sentPrompt(1)[0].content).toContain(
+      '\n\nJOB DESCRIPTION:\nWants TypeScript and AWS.\n\nWrite a cover letter.'
+    );
+    expect(response.metadata.contextTrimmed).toEqual([
+      expect.objectContaining({
+        section: 'Job description',
+        action: 'summarized',
+        toTokens: countTokens('Wants TypeScript and AWS.', 'gpt-3.5-turbo'),
+      }),
+    ]);
+  });
+
+  it('should fall back to a larger window when the prompt cannot be trimmed enough', async () => {
+    llm.setFallbackChain('default', [{ provider: 'small' }, { provider: 'large' }]);
+
+    const response = await llm.generate({
+      messages: [{ role: 'user', content: resume }],
+      context: [{ name: 'Notes', content: 'Optional notes', overflow: 'drop' }],
+    });
+
+    expect(global.fetch).toHaveBeenCalledTimes(1);
+    expect(global.fetch.mock.calls[0][0]).toBe('http://large:8000/v1/chat/completions');
+    expect(response.metadata.attempts).toEqual([
+      expect.objectContaining({
+        provider: 'small',
+        error: expect.stringContaining('context window is 1000'),
+        retryable: false,
+      }),
+    ]);
+  });
+});
@@ -0,0 +1,242 @@
+/**
+ * Vector Store Unit Tests
+ *
+ * Test the SQLite vector store (upserts, deletes, re-embedding updates, persistence across
+ * restarts) and RAGSystem search, similar jobs and incremental re-indexing on top of it
+ */
+
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import {
+  DatabaseService,
+  IN_MEMORY,
+  MIGRATIONS,
+  VECTOR_MIGRATIONS,
+} from '../../../src/backend/api/services/database.service';
+import { HashEmbedder } from '../../../src/backend/api/services/embeddings.service';
+import { LLMAbstractionLayer } from '../../../src/backend/api/services/llm-abstraction.service';
+import { RAGSystem } from '../../../src/backend/api/services/rag-system.service';
+import {
+  moveLegacyVectors,
+  SqliteVectorStore,
+} from '../../../src/backend/api/services/vectorStore.service';
+
+const job = (id, overrides = {}) => ({
+  id,
+  title: 'Backend Engineer',
+  company: 'Acme',
+  content: '',
+  requirements: ['5 years of backend experience'],
+  responsibilities: ['Own the payments API'],
+  skills: ['TypeScript', 'PostgreSQL'],
+  metadata: { location: 'Remote', postedDate: new Date('2026-03-01T00:00:00Z') },
+  ...overrides,
+});
+
+const embedding = (jobId, chunkIndex, content, vector = [1, 0], model = 'test/m') => ({
+  id: `${jobId}-${chunkIndex}`,
+  vector,
+  model,
+  content,
+  metadata: { type: 'skill', jobId, chunkIndex },
+});
+
+describe('SqliteVectorStore', () => {
+  let db;
+  let store;
+
+  beforeEach(() => {
+    db = new DatabaseService(IN_MEMORY, VECTOR_MIGRATIONS);
+    store = new SqliteVectorStore(db);
+  });
+
+  afterEach(() => db.close());
+
+  it('should upsert jobs with their embeddings', async () => {
+    await store.upsertJob(job('j1'), [
+      embedding('j1', 1, 'PostgreSQL', [0, 1]),
+      embedding('j1', 0, 'TypeScript', [0.25, 0.5]),
+    ]);
+
+    expect(await store.getJob('j1')).toEqual(job('j1'));
+    expect(await store.getEmbeddings({ jobId: 'j1' })).toEqual([
+      embedding('j1', 0, 'TypeScript', [0.25, 0.5]),
+      embedding('j1', 1, 'PostgreSQL', [0, 1]),
+    ]);
+
+    // Upserting replaces the job and all of its vectors
+    await store.upsertJob(job('j1', { title: 'Staff Engineer' }), [embedding('j1', 0, 'Go')]);
+    expect((await store.getJob('j1')).title).toBe('Staff Engineer');
+    expect((await store.getEmbeddings({ jobId: 'j1' })).map((e) => e.content)).toEqual(['Go']);
+    expect(await store.listJobs()).toHaveLength(1);
+  });
+
+  it('should delete jobs along with their embeddings', async () => {
+    await store.upsertJob(job('j1'), [embedding('j1', 0, 'TypeScript')]);
+    await store.upsertJob(job('j2'), [embedding('j2', 0, 'Rust')]);
+
+    expect(await store.deleteJob('j1')).toBe(true);
+    expect(await store.deleteJob('j1')).toBe(false);
+    expect(await store.getJob('j1')).toBeNull();
+    expect((await store.getEmbeddings()).map((e) => e.id)).toEqual(['j2-0']);
+  });
+
+  it('should delete embeddings with their job in a file-backed database', async () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'vector-store-'));
+    const file = path.join(dir, 'jobsprint.sqlite');
+    try {
+      const fileDb = new DatabaseService(file, VECTOR_MIGRATIONS);
+      const fileStore = new SqliteVectorStore(fileDb);
+      await fileStore.upsertJob(job('j1'), [embedding('j1', 0, 'TypeScript')]);
+      await fileStore.upsertJob(job('j2'), [embedding('j2', 0, 'Rust')]);
+
+      expect(await fileStore.deleteJob('j1')).toBe(true);
+      expect(await fileStore.countEmbeddings()).toEqual({ 'test/m': 1 });
+      expect(await fileDb.query('SELECT id FROM rag_vectors')).toEqual([{ id: 'j2-0' }]);
+      fileDb.close();
+
+      const reopened = new DatabaseService(file, VECTOR_MIGRATIONS);
+      expect(await reopened.query('SELECT id FROM rag_vectors')).toEqual([{ id: 'j2-0' }]);
+      reopened.close();
+    } finally {
+      fs.rmSync(dir, { recursive: true, force: true });
+    }
+  });
+
+  it('should move vectors indexed into the main database out of it', async () => {
+    const main = new DatabaseService(IN_MEMORY, MIGRATIONS);
+    const graph = { version: 1, m: 16, efConstruction: 200, entryPoint: null, nodes: [] };
+    try {
+      await new SqliteVectorStore(main).upsertJob(job('j1'), [embedding('j1', 0, 'TypeScript')]);
+      await new SqliteVectorStore(main).saveIndex('test/m', graph);
+      // Indexed into the vector database since; the newer copy wins
+      await store.upsertJob(job('j1', { title: 'Staff Engineer' }), [
+        embedding('j1', 0, 'TypeScript', [0, 1]),
+      ]);
+
+      expect(await moveLegacyVectors(main, db)).toBe(1);
+      expect(await store.getJob('j1')).toEqual(job('j1', { title: 'Staff Engineer' }));
+      expect(await store.getEmbeddings()).toEqual([embedding('j1', 0, 'TypeScript', [0, 1])]);
+      expect(await store.getIndex('test/m')).toEqual(graph);
+      expect(await main.query("SELECT name FROM sqlite_master WHERE name LIKE 'rag_%'")).toEqual(
+        []
+      );
+
+      expect(await moveLegacyVectors(main, db)).toBe(0);
+    } finally {
+      main.close();
+    }
+  });
+
+  it('should update vectors in place', async () => {
+    await store.upsertJob(job('j1'), [embedding('j1', 0, 'TypeScript', [1, 0], 'hash/bow-384@1')]);
+
+    await store.updateEmbeddings([embedding('j1', 0, 'TypeScript', [0, 1], 'test/m')]);
+
+    expect(await store.getEmbeddings({ jobId: 'j1' })).toEqual([
+      embedding('j1', 0, 'TypeScript', [0, 1]),
+    ]);
+  });
+
+  it('should keep jobs and vectors across restarts', async () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'vector-store-'));
+    const file = path.join(dir, 'jobsprint.sqlite');
+    const llm = new LLMAbstractionLayer();
+    try {
+      const first = new DatabaseService(file, VECTOR_MIGRATIONS);
+      await new RAGSystem(llm, {
+        embedder: new HashEmbedder(),
+        store: new SqliteVectorStore(first),
+      }).addJobDescription(job('j1'));
+      first.close();
+
+      const reopened = new DatabaseService(file, VECTOR_MIGRATIONS);
+      const rag = new RAGSystem(llm, {
+        embedder: new HashEmbedder(),
+        store: new SqliteVectorStore(reopened),
+      });
+      const results = await rag.search({ query: 'payments API', threshold: 0.5 });
+      reopened.close();
+
+      expect(results).toEqual([
+        expect.objectContaining({ content: 'Own the payments API', jobDescription: job('j1') }),
+      ]);
+    } finally {
+      fs.rmSync(dir, { recursive: true, force: true });
+    }
+  });
+});
+
+describe('RAGSystem with a vector store', () => {
+  const llm = new LLMAbstractionLayer();
+  let db;
+  let embedder;
+  let rag;
+
+  beforeEach(() => {
+    db = new DatabaseService(IN_MEMORY);
+    embedder = new HashEmbedder();
+    jest.spyOn(embedder, 'embed');
+    rag = new RAGSystem(llm, { embedder, store: new SqliteVectorStore(db) });
+  });
+
+  afterEach(() => db.close());
+
+  it('should only embed new or edited sections when a job is re-indexed', async () => {
+    await rag.addJobDescription(job('j1'));
+    expect(embedder.embed).toHaveBeenLastCalledWith([
+      'Backend Engineer at Acme',
+      '5 years of backend experience',
+      'TypeScript',
+      'PostgreSQL',
+      'Own the payments API',
+    ]);
+
+    await rag.addJobDescription(job('j1', { skills: ['TypeScript', 'Kafka'] }));
+    expect(embedder.embed).toHaveBeenLastCalledWith(['Kafka']);
+
+    embedder.embed.mockClear();
+    await rag.addJobDescription(job('j1', { skills: ['TypeScript', 'Kafka'] }));
+    expect(embedder.embed).not.toHaveBeenCalled();
+
+    const hits = await rag.search({ query: 'Kafka', jobId: 'j1', threshold: 0.5 });
+    expect(hits.map((hit) => hit.content)).toEqual(['Kafka']);
+  });
+
+  it('should find similar jobs and forget removed ones', async () => {
+    // Software work on one axis, everything else on the other
+    rag = new RAGSystem(llm, {
+      embedder: {
+        id: 'test/concepts',
+        embed: async (texts) =>
+          texts.map((text) =>
+            /engineer|backend|typescript|postgres|api/i.test(text) ? [1, 0] : [0, 1]
+          ),
+      },
+      store: new SqliteVectorStore(db),
+    });
+    await rag.addJobDescription(job('j1'));
+    await rag.addJobDescription(job('j2', { company: 'Globex' }));
+    await rag.addJobDescription(
+      job('j3', {
+        title: 'Pastry Chef',
+        company: 'Bakery',
+        requirements: ['Culinary school'],
+        responsibilities: ['Bake bread'],
+        skills: ['Laminated dough'],
+      })
+    );
+
+    expect((await rag.findSimilarJobs('j1')).map((j) => j.id)).toEqual(['j2']);
+    expect(
+      (await rag.search({ query: 'PostgreSQL', topK: 10, filters: { company: 'Globex' } })).map(
+        (r) => r.jobDescription.company
+      )
+    ).toEqual(Array(5).fill('Globex'));
+
+    expect(await rag.removeJobDescription('j2')).toBe(true);
+    expect(await rag.findSimilarJobs('j1')).toEqual([]);
+    expect(await rag.findSimilarJobs('j2')).toEqual([]);
+  });
+});
@@ -0,0 +1,89 @@
+/**
+ * WebSocket Unit Tests
+ *
+ * Test that live events are only relayed to clients with an events:read API key
+ */
+
+import http from 'http';
+import WebSocket from 'ws';
+import { initWebSocket } from '../../../src/backend/api/websocket';
+import { DatabaseService, IN_MEMORY } from '../../../src/backend/api/services/database.service';
+import { ApiKeyService } from '../../../src/backend/api/services/apiKey.service';
+import { liveEvents } from '../../../src/backend/api/services/eventLog.service';
+
+const mockService = { current: null };
+
+jest.mock('../../../src/backend/api/services/apiKey.service', () => {
+  const actual = jest.requireActual('../../../src/backend/api/services/apiKey.service');
+  return { ...actual, getApiKeyService: () => mockService.current };
+});
+
+// Resolves with the first message, or with the close code and reason if the server closes first
+const firstMessage = (ws) =>
+  new Promise((resolve, reject) => {
+    ws.once('message', (data) => resolve(JSON.parse(data.toString())));
+    ws.once('close', (code, reason) => resolve({ code, reason: reason.toString() }));
+    ws.once('error', reject);
+  });
+
+describe('WebSocket events', () => {
+  let db;
+  let server;
+  let wss;
+  let url;
+  const clients = [];
+
+  const connect = (path = '/', headers = {}) => {
+    const ws = new WebSocket(`${url}${path}`, { headers });
+    clients.push(ws);
+    return ws;
+  };
+
+  beforeEach(async () => {
+    db = new DatabaseService(IN_MEMORY);
+    mockService.current = new ApiKeyService(db, 'bootstrap-secret');
+    server = http.createServer();
+    wss = initWebSocket(server);
+    await new Promise((resolve) => server.listen(0, '127.0.0.1', resolve));
+    url = `ws://127.0.0.1:${server.address().port}`;
+  });
+
+  afterEach(async () => {
+    clients.splice(0).forEach((ws) => ws.terminate());
+    wss.clients.forEach((ws) => ws.terminate());
+    wss.close();
+    await new Promise((resolve) => server.close(resolve));
+    db.close();
+  });
+
+  it('should close connections without an events:read key with 1008', async () => {
+    const { key } = await mockService.current.issue({ name: 'ai only', scopes: ['ai'] });
+
+    expect(await firstMessage(connect())).toEqual({ code: 1008, reason: 'missing_api_key' });
+    expect(await firstMessage(connect('/', { 'X-API-Key': 'jsk_000000000000_nope' }))).toEqual({
+      code: 1008,
+      reason: 'invalid_api_key',
+    });
+    expect(await firstMessage(connect('/', { 'X-API-Key': key }))).toEqual({
+      code: 1008,
+      reason: 'insufficient_scope',
+    });
+    expect(liveEvents.listenerCount('event')).toBe(0);
+  });
+
+  it('should relay live events to clients with an events:read key', async () => {
+    const { key } = await mockService.current.issue({ name: 'n8n', scopes: ['events:read'] });
+    const byHeader = connect('/', { Authorization: `Bearer ${key}` });
+    const byQuery = connect(`/?api_key=${encodeURIComponent(key)}`);
+
+    expect(await firstMessage(byHeader)).toMatchObject({ type: 'welcome' });
+    expect(await firstMessage(byQuery)).toMatchObject({ type: 'welcome' });
+
+    const relayed = Promise.all([firstMessage(byHeader), firstMessage(byQuery)]);
+    liveEvents.emit('event', { id: 'evt_1', type: 'application.created' });
+    expect(await relayed).toEqual([
+      { id: 'evt_1', type: 'application.created' },
+      { id: 'evt_1', type: 'application.created' },
+    ]);
+  });
+});